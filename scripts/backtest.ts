@@ -0,0 +1,69 @@
+/**
+ * Headless backtest runner
+ * Replays recorded trade_signals + price series through the sniper rules and exit strategy
+ *
+ * Usage:
+ *   deno run --allow-read scripts/backtest.ts scripts/fixtures/backtest-sample.json [--json]
+ *
+ * Fixture format:
+ *   {
+ *     "signals": [ ...trade_signals rows... ],
+ *     "prices": { "<token_address>": [{ "timestamp": "ISO", "price": 0.0001 }, ...] },
+ *     "parameterSets": [{ "name": "baseline", "settings": { "min_liquidity": 5 } }, ...]
+ *   }
+ */
+
+import {
+  runBacktestSweep,
+  type BacktestParameterSet,
+  type BacktestReport,
+  type BacktestSignal,
+  type PriceSeries,
+} from '../supabase/functions/_shared/backtest.ts';
+
+interface BacktestFixture {
+  signals: BacktestSignal[];
+  prices: PriceSeries;
+  parameterSets?: BacktestParameterSet[];
+}
+
+function formatReport(report: BacktestReport): string {
+  const sign = (n: number) => (n >= 0 ? '+' : '');
+  const lines = [
+    `=== ${report.name} ===`,
+    `Signals: ${report.signalsEvaluated} | Approved: ${report.approved} | Rejected: ${report.rejected}`,
+    `Skipped: ${report.skippedMaxConcurrent} (max concurrent), ${report.skippedNoPriceData} (no price data)`,
+    `Trades: ${report.trades.length} | Wins: ${report.wins} | Losses: ${report.losses} | Win rate: ${report.winRate.toFixed(1)}%`,
+    `P&L: ${sign(report.totalPnlSol)}${report.totalPnlSol.toFixed(4)} SOL | Avg: ${sign(report.avgPnlPercent)}${report.avgPnlPercent.toFixed(2)}%`,
+    `Max drawdown: ${report.maxDrawdownSol.toFixed(4)} SOL (${report.maxDrawdownPercent.toFixed(1)}% of capital at risk)`,
+  ];
+
+  const rejections = Object.entries(report.rejectionReasons).sort((a, b) => b[1] - a[1]);
+  if (rejections.length > 0) {
+    lines.push('Rejections:');
+    rejections.forEach(([reason, count]) => lines.push(`  ${count}x ${reason}`));
+  }
+
+  return lines.join('\n');
+}
+
+if (import.meta.main) {
+  const [fixturePath, ...flags] = Deno.args;
+  if (!fixturePath) {
+    console.error('Usage: deno run --allow-read scripts/backtest.ts <fixture.json> [--json]');
+    Deno.exit(1);
+  }
+
+  const fixture = JSON.parse(await Deno.readTextFile(fixturePath)) as BacktestFixture;
+  const parameterSets = fixture.parameterSets?.length
+    ? fixture.parameterSets
+    : [{ name: 'defaults', settings: {} }];
+
+  const reports = await runBacktestSweep(fixture.signals || [], fixture.prices || {}, parameterSets);
+
+  if (flags.includes('--json')) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    console.log(reports.map(formatReport).join('\n\n'));
+  }
+}
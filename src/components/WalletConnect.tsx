@@ -12,12 +12,14 @@ const NETWORK_COLORS: Record<BlockchainNetwork, string> = {
   solana: 'bg-purple-500/20 text-purple-400 border-purple-500/30',
   ethereum: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
   bsc: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  base: 'bg-sky-500/20 text-sky-400 border-sky-500/30',
 };
 
 const NETWORK_LABELS: Record<BlockchainNetwork, string> = {
   solana: 'Solana',
   ethereum: 'Ethereum',
   bsc: 'BSC',
+  base: 'Base',
 };
 
 const WALLET_INFO = {
@@ -116,6 +118,17 @@ export function WalletConnect() {
         setIsOpen(false);
       },
     },
+    {
+      id: 'metamask-base',
+      name: 'MetaMask (Base)',
+      icon: '🦊',
+      description: 'Connect via MetaMask',
+      networks: ['base'],
+      action: () => {
+        connectMetaMask('base');
+        setIsOpen(false);
+      },
+    },
   ];
 
   const handleCopyAddress = () => {
@@ -142,6 +155,8 @@ export function WalletConnect() {
         return `https://etherscan.io/address/${wallet.address}`;
       case 'bsc':
         return `https://bscscan.com/address/${wallet.address}`;
+      case 'base':
+        return `https://basescan.org/address/${wallet.address}`;
       default:
         return '';
     }
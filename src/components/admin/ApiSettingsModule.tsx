@@ -11,7 +11,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useApiConfigurations, ApiConfiguration, ApiType, ApiStatus } from '@/hooks/useApiConfigurations';
 import { useApiSecrets } from '@/hooks/useApiSecrets';
-import { Plus, Pencil, Trash2, RefreshCw, Loader2, HelpCircle, CheckCircle2, AlertCircle, Info, Key, ShieldCheck, ShieldAlert, Eye, EyeOff, TestTube2, Zap } from 'lucide-react';
+import { Plus, Pencil, Trash2, RefreshCw, Loader2, HelpCircle, CheckCircle2, AlertCircle, Info, Key, ShieldCheck, ShieldAlert, Eye, EyeOff, TestTube2, Zap, KeyRound } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 // API Documentation with requirement levels, help notes, example keys, and error solutions
@@ -197,6 +197,22 @@ const API_INFO: Record<ApiType, {
       { pattern: 'timeout', solution: 'RPC node is slow. Try a different provider like helius.xyz or quicknode.com.' },
     ],
   },
+  custom_indexer: {
+    label: 'Custom Token Indexer',
+    required: false,
+    description: 'Extra token discovery source for the scanner. Add one configuration per indexer; users can switch each one off in their sniper settings.',
+    helpNotes: 'The base URL is called as GET {base_url}?chain=solana and must return { tokens: [{ address, symbol, name, priceUsd, liquidityUsd, volume24h, ... }] }. The API key (if any) is sent as a Bearer token.',
+    defaultUrl: '',
+    requiresKey: false,
+    secretName: '',
+    exampleKey: 'idx_xxxxxxxxxxxxxxxxxxxx',
+    keyFormat: 'Optional - sent as Authorization: Bearer <key>',
+    getKeyUrl: '',
+    commonErrors: [
+      { pattern: 'Unexpected response shape', solution: 'The indexer must return a JSON array or an object with a "tokens" array.' },
+      { pattern: '401', solution: 'The indexer rejected the key. Check the API key on this configuration.' },
+    ],
+  },
 };
 
 // Fallback for unknown/legacy API types
@@ -248,7 +264,7 @@ const defaultFormData: ApiFormData = {
 
 export function ApiSettingsModule() {
   const { configurations, loading, addConfiguration, updateConfiguration, deleteConfiguration, toggleEnabled, fetchConfigurations } = useApiConfigurations();
-  const { secretStatus, loading: secretsLoading, fetchSecretStatus, validateSecret, validateAllSecrets, saveApiKey, deleteApiKey, getApiKeyInfo } = useApiSecrets();
+  const { secretStatus, loading: secretsLoading, fetchSecretStatus, validateSecret, validateAllSecrets, saveApiKey, deleteApiKey, getApiKeyInfo, rotateEncryptionKey } = useApiSecrets();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingConfig, setEditingConfig] = useState<ApiConfiguration | null>(null);
   const [formData, setFormData] = useState<ApiFormData>(defaultFormData);
@@ -258,6 +274,7 @@ export function ApiSettingsModule() {
   const [showApiKey, setShowApiKey] = useState(false);
   const [existingMaskedKey, setExistingMaskedKey] = useState<string | null>(null);
   const [isValidatingAll, setIsValidatingAll] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
 
   const handleOpenDialog = async (config?: ApiConfiguration) => {
     if (config) {
@@ -363,6 +380,16 @@ export function ApiSettingsModule() {
     }
   };
 
+  const handleRotateKeys = async () => {
+    if (!confirm('Re-encrypt all stored API keys under the active encryption key?')) return;
+    setIsRotating(true);
+    try {
+      await rotateEncryptionKey();
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
   const handleDeleteApiKey = async (apiType: ApiType) => {
     if (confirm(`Are you sure you want to delete the API key for ${API_INFO[apiType]?.label || apiType}?`)) {
       await deleteApiKey(apiType);
@@ -414,6 +441,14 @@ export function ApiSettingsModule() {
               )}
               Test All APIs
             </Button>
+            <Button variant="outline" size="sm" onClick={handleRotateKeys} disabled={isRotating}>
+              {isRotating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <KeyRound className="h-4 w-4 mr-2" />
+              )}
+              Rotate Encryption
+            </Button>
             <Button variant="outline" size="sm" onClick={() => { fetchConfigurations(); fetchSecretStatus(); }}>
               <RefreshCw className="h-4 w-4 mr-2" />
               Refresh
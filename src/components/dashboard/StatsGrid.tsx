@@ -86,6 +86,8 @@ const StatCard = ({
 
 interface StatsGridPropsExtended extends StatsGridProps {
   winCount?: number;
+  // Wallet selector shown above the cards; the stats passed in are already filtered by it
+  walletFilter?: React.ReactNode;
 }
 
 export default function StatsGrid({
@@ -95,6 +97,7 @@ export default function StatsGrid({
   openPositionsCount,
   closedPositionsCount,
   winCount = 0,
+  walletFilter,
 }: StatsGridPropsExtended) {
   const { formatDualValue } = useDisplayUnit();
   
@@ -108,52 +111,55 @@ export default function StatsGrid({
   const valueFormatted = formatDualValue(totalValue);
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-      <StatCard
-        title="Total P&L"
-        primaryValue={pnlFormatted.primary}
-        secondaryValue={pnlFormatted.secondary}
-        change={`${formatPercentage(totalPnLPercent)} all time`}
-        changeType={totalPnL >= 0 ? 'positive' : 'negative'}
-        icon={totalPnL >= 0 ? TrendingUp : TrendingDown}
-        iconColor={totalPnL >= 0 ? "bg-success/20 text-success" : "bg-destructive/20 text-destructive"}
-        bgGradient={totalPnL >= 0 ? "bg-gradient-to-br from-success/5 to-transparent" : "bg-gradient-to-br from-destructive/5 to-transparent"}
-        delay={0}
-      />
+    <div className="space-y-3">
+      {walletFilter && <div className="flex justify-end">{walletFilter}</div>}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Total P&L"
+          primaryValue={pnlFormatted.primary}
+          secondaryValue={pnlFormatted.secondary}
+          change={`${formatPercentage(totalPnLPercent)} all time`}
+          changeType={totalPnL >= 0 ? 'positive' : 'negative'}
+          icon={totalPnL >= 0 ? TrendingUp : TrendingDown}
+          iconColor={totalPnL >= 0 ? "bg-success/20 text-success" : "bg-destructive/20 text-destructive"}
+          bgGradient={totalPnL >= 0 ? "bg-gradient-to-br from-success/5 to-transparent" : "bg-gradient-to-br from-destructive/5 to-transparent"}
+          delay={0}
+        />
 
-      <StatCard
-        title="Open Value"
-        primaryValue={valueFormatted.primary}
-        secondaryValue={valueFormatted.secondary}
-        change={openPositionsCount > 0 ? `${openPositionsCount} active` : 'No open positions'}
-        changeType={openPositionsCount > 0 ? 'positive' : 'neutral'}
-        icon={Wallet}
-        iconColor="bg-blue-500/20 text-blue-400"
-        bgGradient="bg-gradient-to-br from-blue-500/5 to-transparent"
-        delay={50}
-      />
+        <StatCard
+          title="Open Value"
+          primaryValue={valueFormatted.primary}
+          secondaryValue={valueFormatted.secondary}
+          change={openPositionsCount > 0 ? `${openPositionsCount} active` : 'No open positions'}
+          changeType={openPositionsCount > 0 ? 'positive' : 'neutral'}
+          icon={Wallet}
+          iconColor="bg-blue-500/20 text-blue-400"
+          bgGradient="bg-gradient-to-br from-blue-500/5 to-transparent"
+          delay={50}
+        />
 
-      <StatCard
-        title="Total Trades"
-        primaryValue={(openPositionsCount + closedPositionsCount).toString()}
-        change={`${openPositionsCount} open, ${closedPositionsCount} closed`}
-        changeType={openPositionsCount > 0 ? 'positive' : 'neutral'}
-        icon={Activity}
-        iconColor="bg-primary/20 text-primary"
-        bgGradient="bg-gradient-to-br from-primary/5 to-transparent"
-        delay={100}
-      />
+        <StatCard
+          title="Total Trades"
+          primaryValue={(openPositionsCount + closedPositionsCount).toString()}
+          change={`${openPositionsCount} open, ${closedPositionsCount} closed`}
+          changeType={openPositionsCount > 0 ? 'positive' : 'neutral'}
+          icon={Activity}
+          iconColor="bg-primary/20 text-primary"
+          bgGradient="bg-gradient-to-br from-primary/5 to-transparent"
+          delay={100}
+        />
 
-      <StatCard
-        title="Win Rate"
-        primaryValue={`${winRate}%`}
-        change={`${closedPositionsCount} trades`}
-        changeType={winRate >= 50 ? 'positive' : winRate > 0 ? 'negative' : 'neutral'}
-        icon={Zap}
-        iconColor="bg-warning/20 text-warning"
-        bgGradient="bg-gradient-to-br from-warning/5 to-transparent"
-        delay={150}
-      />
+        <StatCard
+          title="Win Rate"
+          primaryValue={`${winRate}%`}
+          change={`${closedPositionsCount} trades`}
+          changeType={winRate >= 50 ? 'positive' : winRate > 0 ? 'negative' : 'neutral'}
+          icon={Zap}
+          iconColor="bg-warning/20 text-warning"
+          bgGradient="bg-gradient-to-br from-warning/5 to-transparent"
+          delay={150}
+        />
+      </div>
     </div>
   );
 }
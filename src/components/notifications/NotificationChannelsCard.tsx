@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { Bell, Plus, Trash2, Loader2, Send, AlertTriangle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNotificationChannels, NotificationChannel } from "@/hooks/useNotificationChannels";
+import {
+  NOTIFICATION_CHANNEL_TYPES,
+  NOTIFICATION_EVENT_TYPES,
+  maskChannelConfig,
+  validateChannelConfig,
+  type NotificationChannelType,
+  type NotificationEventType,
+} from "@/lib/notificationChannels";
+import { cn } from "@/lib/utils";
+
+const ALL_EVENT_TYPES = NOTIFICATION_EVENT_TYPES.map((e) => e.id);
+
+// An empty list means "every event"; store it that way again once every box is ticked
+function toggleEventType(current: string[], eventType: NotificationEventType): string[] {
+  const selected = current.length === 0 ? ALL_EVENT_TYPES : (current as NotificationEventType[]);
+  const next = selected.includes(eventType)
+    ? selected.filter((e) => e !== eventType)
+    : [...selected, eventType];
+  return next.length === ALL_EVENT_TYPES.length ? [] : next;
+}
+
+function channelSummary(channel: NotificationChannel): string {
+  const config = maskChannelConfig(channel.channel_type, channel.config || {});
+  switch (channel.channel_type) {
+    case "webhook":
+      return String(config.url ?? "");
+    case "telegram":
+      return `Chat ${config.chat_id ?? ""}`;
+    case "email":
+      return String(config.to ?? "");
+    default:
+      return "";
+  }
+}
+
+interface ChannelRowProps {
+  channel: NotificationChannel;
+  testing: boolean;
+  onUpdate: (id: string, updates: Partial<Pick<NotificationChannel, "is_enabled" | "event_types">>) => void;
+  onTest: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function ChannelRow({ channel, testing, onUpdate, onTest, onDelete }: ChannelRowProps) {
+  const eventTypes = channel.event_types || [];
+
+  return (
+    <div className="rounded-lg border border-border/50 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-foreground truncate">
+            {channel.name}
+            <span className="ml-2 text-xs text-muted-foreground">
+              {NOTIFICATION_CHANNEL_TYPES[channel.channel_type]?.label}
+            </span>
+          </p>
+          <p className="text-xs text-muted-foreground font-mono truncate">{channelSummary(channel)}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Switch
+            checked={channel.is_enabled}
+            onCheckedChange={(checked) => onUpdate(channel.id, { is_enabled: checked })}
+          />
+          <Button size="icon" variant="ghost" onClick={() => onTest(channel.id)} disabled={testing}>
+            {testing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => onDelete(channel.id)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {NOTIFICATION_EVENT_TYPES.map((event) => {
+          const active = eventTypes.length === 0 || eventTypes.includes(event.id);
+          return (
+            <button
+              key={event.id}
+              type="button"
+              title={event.description}
+              onClick={() => onUpdate(channel.id, { event_types: toggleEventType(eventTypes, event.id) })}
+              className={cn(
+                "px-2 py-0.5 rounded-full text-xs border transition-colors",
+                active
+                  ? "bg-primary/20 text-primary border-primary/30"
+                  : "text-muted-foreground border-border/50 hover:bg-secondary/50"
+              )}
+            >
+              {event.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {channel.last_error ? (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          {channel.last_error}
+        </p>
+      ) : channel.last_delivered_at ? (
+        <p className="text-xs text-muted-foreground">
+          Last delivered {formatDistanceToNow(new Date(channel.last_delivered_at), { addSuffix: true })}
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+export function NotificationChannelsCard() {
+  const { channels, loading, testing, createChannel, updateChannel, deleteChannel, testChannel } = useNotificationChannels();
+  const [channelType, setChannelType] = useState<NotificationChannelType>("webhook");
+  const [name, setName] = useState("");
+  const [config, setConfig] = useState<Record<string, string>>({});
+  const [adding, setAdding] = useState(false);
+
+  const typeInfo = NOTIFICATION_CHANNEL_TYPES[channelType];
+  const trimmedConfig = Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [key, value.trim()]).filter(([, value]) => value)
+  );
+  const configError = validateChannelConfig(channelType, trimmedConfig);
+
+  const handleAdd = async () => {
+    if (configError) return;
+    setAdding(true);
+    const created = await createChannel({
+      channel_type: channelType,
+      name: name.trim() || typeInfo.label,
+      config: trimmedConfig,
+    });
+    setAdding(false);
+    if (created) {
+      setName("");
+      setConfig({});
+    }
+  };
+
+  return (
+    <div className="glass rounded-xl p-5 mt-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Bell className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold text-foreground">Notification Channels</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Alerts are saved to your notification center and also sent here - even while the app is closed
+      </p>
+
+      {/* Add channel */}
+      <div className="space-y-3 rounded-lg border border-border/50 p-3 mb-4">
+        <div className="grid gap-2 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select
+              value={channelType}
+              onValueChange={(v) => {
+                setChannelType(v as NotificationChannelType);
+                setConfig({});
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(NOTIFICATION_CHANNEL_TYPES) as NotificationChannelType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {NOTIFICATION_CHANNEL_TYPES[type].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="channel-name">Name (optional)</Label>
+            <Input
+              id="channel-name"
+              placeholder={typeInfo.label}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">{typeInfo.description}</p>
+
+        <div className="grid gap-2 sm:grid-cols-2">
+          {typeInfo.fields.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`channel-${field.key}`}>
+                {field.label}
+                {!field.required && <span className="text-muted-foreground"> (optional)</span>}
+              </Label>
+              <Input
+                id={`channel-${field.key}`}
+                type={field.secret ? "password" : "text"}
+                placeholder={field.placeholder}
+                value={config[field.key] ?? ""}
+                onChange={(e) => setConfig((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                className="font-mono text-sm"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            {Object.keys(trimmedConfig).length > 0 && configError ? configError : ""}
+          </p>
+          <Button size="sm" onClick={handleAdd} disabled={adding || !!configError}>
+            {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {/* Channels */}
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : channels.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No channels yet - notifications only appear in the app
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {channels.map((channel) => (
+            <ChannelRow
+              key={channel.id}
+              channel={channel}
+              testing={testing === channel.id}
+              onUpdate={updateChannel}
+              onTest={testChannel}
+              onDelete={deleteChannel}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
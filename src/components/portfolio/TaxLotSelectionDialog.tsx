@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useTaxLedger } from '@/hooks/useTaxLedger';
+import type { Disposal, TaxLedger } from '@/lib/taxLots';
+import { toast } from 'sonner';
+
+// Most recent sales listed for identification
+const MAX_SALES = 50;
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+interface TaxLotSelectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TaxLotSelectionDialog({ open, onOpenChange }: TaxLotSelectionDialogProps) {
+  const { loadLedger, saveLotSelections } = useTaxLedger();
+  const [ledger, setLedger] = useState<TaxLedger | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  // Edited amounts per sale, keyed by lot id
+  const [drafts, setDrafts] = useState<Record<string, Record<string, string>>>({});
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setLedger(await loadLedger('specific'));
+      setDrafts({});
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Could not load tax lots');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadLedger]);
+
+  useEffect(() => {
+    if (open) reload();
+  }, [open, reload]);
+
+  const sales = useMemo(() => (ledger ? [...ledger.disposals].reverse().slice(0, MAX_SALES) : []), [ledger]);
+
+  // Unedited lots show what the ledger relieves from them now
+  const draftValue = (sale: Disposal, lotId: string) => {
+    const edited = drafts[sale.trade.id]?.[lotId];
+    if (edited !== undefined) return edited;
+    const relieved = sale.reliefs.filter((relief) => relief.lotId === lotId).reduce((sum, relief) => sum + relief.amount, 0);
+    return relieved > 0 ? String(relieved) : '';
+  };
+
+  const setDraft = (saleId: string, lotId: string, value: string) =>
+    setDrafts((prev) => ({ ...prev, [saleId]: { ...prev[saleId], [lotId]: value } }));
+
+  const handleSave = async (sale: Disposal) => {
+    const picks = sale.openLots.map((lot) => ({ lotId: lot.lotId, amount: Number(draftValue(sale, lot.lotId)) || 0 }));
+    const over = picks.find((pick) => pick.amount > (sale.openLots.find((lot) => lot.lotId === pick.lotId)?.remaining ?? 0));
+    if (over) {
+      toast.error('A lot cannot give more than it had left at the sale');
+      return;
+    }
+    if (picks.reduce((sum, pick) => sum + pick.amount, 0) > sale.trade.amount) {
+      toast.error(`Identified lots exceed the ${formatAmount(sale.trade.amount)} tokens sold`);
+      return;
+    }
+
+    setSavingId(sale.trade.id);
+    try {
+      await saveLotSelections(sale.trade.id, picks);
+      toast.success('Lots identified');
+      await reload();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Could not save lots');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Identify tax lots</DialogTitle>
+          <DialogDescription>
+            Choose which buys each sale relieves for Specific ID reports. Tokens left unidentified are relieved FIFO
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !ledger ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : sales.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No sales to identify</p>
+        ) : (
+          <div className="space-y-3">
+            {sales.map((sale) => (
+              <div key={sale.trade.id} className="rounded-lg border border-border/50 p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-foreground">
+                    {sale.trade.timestamp.slice(0, 10)} · Sold {formatAmount(sale.trade.amount)}{' '}
+                    {sale.trade.tokenSymbol || sale.trade.tokenAddress}
+                  </p>
+                  <Button size="sm" variant="outline" disabled={savingId !== null} onClick={() => handleSave(sale)}>
+                    {savingId === sale.trade.id ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Save className="h-3 w-3 mr-1" />}
+                    Save
+                  </Button>
+                </div>
+                {sale.openLots.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No recorded buys were open at this sale</p>
+                ) : (
+                  sale.openLots.map((lot) => (
+                    <div key={lot.lotId} className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-muted-foreground">
+                        Bought {lot.acquiredAt.slice(0, 10)}{' '}
+                        <Badge variant="outline" className="text-xs">{formatAmount(lot.remaining)} left</Badge>
+                      </span>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        className="w-36 h-8"
+                        placeholder="0"
+                        value={draftValue(sale, lot.lotId)}
+                        onChange={(e) => setDraft(sale.trade.id, lot.lotId, e.target.value)}
+                      />
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+            {ledger && ledger.disposals.length > MAX_SALES && (
+              <p className="text-xs text-muted-foreground text-center">Showing the latest {MAX_SALES} sales</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -40,15 +40,25 @@ import {
   Search,
   X,
   RefreshCcw,
+  Receipt,
+  ListChecks,
 } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { format, subDays, subWeeks, subMonths, subYears, isAfter, isBefore, startOfDay, endOfDay } from 'date-fns';
 import { TradeHistoryEntry } from '@/hooks/useTradeHistory';
+import { useTaxLedger } from '@/hooks/useTaxLedger';
+import { TaxLotSelectionDialog } from './TaxLotSelectionDialog';
+import { LOT_METHOD_LABELS, type LotMethod } from '@/lib/taxLots';
+import { formatCurrency } from '@/lib/formatters';
 import { isPlaceholderTokenText } from '@/lib/dexscreener';
 import { useDisplayUnit } from '@/contexts/DisplayUnitContext';
 import { toast } from 'sonner';
@@ -74,6 +84,9 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
   const { formatPrimaryValue, formatDualValue } = useDisplayUnit();
   const [exporting, setExporting] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [lotMethod, setLotMethod] = useState<LotMethod>('fifo');
+  const [lotDialogOpen, setLotDialogOpen] = useState(false);
+  const { exporting: taxExporting, exportLedger, exportRealizedGains } = useTaxLedger();
 
   const handleForceSync = async () => {
     if (!onForceSync) return;
@@ -213,6 +226,39 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
     }
   };
 
+  // Years with confirmed sells, newest first, for the realized-gains export
+  const saleYears = useMemo(() => {
+    const years = new Set<number>();
+    trades.forEach(trade => {
+      if (trade.trade_type === 'sell' && trade.status === 'confirmed') years.add(new Date(trade.created_at).getUTCFullYear());
+    });
+    return [...years].sort((a, b) => b - a);
+  }, [trades]);
+
+  const handleExportRealizedGains = async (year: number) => {
+    try {
+      const summary = await exportRealizedGains(lotMethod, year);
+      toast.success(`Realized gains ${year} exported`, {
+        description: `${summary.disposals} sales · net ${formatCurrency(summary.shortTermGainUsd + summary.longTermGainUsd)}`,
+      });
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    }
+  };
+
+  const handleExportTaxLedger = async () => {
+    try {
+      const warnings = await exportLedger(lotMethod);
+      if (warnings.length > 0) {
+        toast.warning('Tax ledger exported with warnings', { description: warnings[0] });
+      } else {
+        toast.success('Tax ledger exported');
+      }
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    }
+  };
+
   const exportToJSON = () => {
     if (filteredTrades.length === 0) {
       toast.error('No transactions to export');
@@ -374,8 +420,8 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
               {/* Export dropdown */}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
-                  <Button variant="outline" size="sm" disabled={exporting || filteredTrades.length === 0}>
-                    {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  <Button variant="outline" size="sm" disabled={exporting || taxExporting || filteredTrades.length === 0}>
+                    {exporting || taxExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
                     <span className="hidden sm:inline ml-2">Export</span>
                   </Button>
                 </DropdownMenuTrigger>
@@ -392,6 +438,31 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
                     <FileJson className="w-4 h-4 mr-2" />
                     Export as JSON
                   </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-xs text-muted-foreground">Tax lots</DropdownMenuLabel>
+                  <DropdownMenuRadioGroup value={lotMethod} onValueChange={(value) => setLotMethod(value as LotMethod)}>
+                    {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map(method => (
+                      <DropdownMenuRadioItem key={method} value={method} onSelect={(e) => e.preventDefault()}>
+                        {LOT_METHOD_LABELS[method]}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                  {lotMethod === 'specific' && (
+                    <DropdownMenuItem onClick={() => setLotDialogOpen(true)}>
+                      <ListChecks className="w-4 h-4 mr-2" />
+                      Identify lots…
+                    </DropdownMenuItem>
+                  )}
+                  {saleYears.map(year => (
+                    <DropdownMenuItem key={year} onClick={() => handleExportRealizedGains(year)}>
+                      <Receipt className="w-4 h-4 mr-2" />
+                      Realized gains {year}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuItem onClick={handleExportTaxLedger}>
+                    <Receipt className="w-4 h-4 mr-2" />
+                    Full tax ledger
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
 
@@ -708,6 +779,8 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
           </div>
         )}
       </CardContent>
+
+      <TaxLotSelectionDialog open={lotDialogOpen} onOpenChange={setLotDialogOpen} />
     </Card>
   );
 }
@@ -16,6 +16,7 @@ import {
   getTokenDisplayName,
   getTokenDisplaySymbol 
 } from "@/lib/formatters";
+import { positionUnrealizedPnl } from "@/lib/positionAccounting";
 
 interface Position {
   id: string;
@@ -24,7 +25,10 @@ interface Position {
   token_address?: string;
   amount: number;
   entry_price: number;
+  entry_price_usd?: number | null;
   entry_value?: number;
+  remaining_fraction?: number | null;
+  realized_pnl_sol?: number | null;
   current_price: number;
   current_value?: number;
   profit_loss_percent: number | null;
@@ -37,10 +41,13 @@ interface ActivePositionsPanelProps {
   positions: Position[];
   loading?: boolean;
   onClosePosition?: (positionId: string, currentPrice: number) => void;
+  onSellPartial?: (positionId: string, currentPrice: number, sellPercent: number) => void;
   onForceClose?: (positionId: string) => void;
   onRefresh?: () => void;
 }
 
+const PARTIAL_SELL_PERCENTS = [25, 50, 75];
+
 const avatarColors = [
   'bg-gradient-to-br from-success/30 to-success/10 text-success',
   'bg-gradient-to-br from-blue-500/30 to-blue-500/10 text-blue-400',
@@ -66,11 +73,13 @@ const PositionRow = memo(({
   position, 
   colorIndex, 
   onClosePosition,
+  onSellPartial,
   onForceClose
 }: { 
   position: Position; 
   colorIndex: number;
   onClosePosition?: (positionId: string, currentPrice: number) => void;
+  onSellPartial?: (positionId: string, currentPrice: number, sellPercent: number) => void;
   onForceClose?: (positionId: string) => void;
 }) => {
   const pnlPercent = position.profit_loss_percent || 0;
@@ -98,6 +107,10 @@ const PositionRow = memo(({
     onClosePosition?.(position.id, position.current_price);
   }, [onClosePosition, position.id, position.current_price]);
 
+  // Unrealized P&L of what's still held, against the remaining cost basis
+  const unrealized = positionUnrealizedPnl(position, position.current_price);
+  const realizedPnlSol = position.realized_pnl_sol ?? 0;
+
   const handleForceClose = useCallback(() => {
     onForceClose?.(position.id);
   }, [onForceClose, position.id]);
@@ -151,6 +164,15 @@ const PositionRow = memo(({
                 <p className="tabular-nums">Entry: {formatPrice(position.entry_price)}</p>
                 <p className="tabular-nums">Current: {formatPrice(position.current_price)}</p>
                 <p className="tabular-nums">Value: ${currentUsdValue.toFixed(2)}</p>
+                <p className="tabular-nums">Cost basis: {unrealized.costBasisSol.toFixed(4)} SOL</p>
+                <p className="tabular-nums">
+                  Unrealized: {unrealized.pnlSol >= 0 ? '+' : ''}{unrealized.pnlSol.toFixed(4)} SOL
+                </p>
+                {realizedPnlSol !== 0 && (
+                  <p className={cn("tabular-nums", realizedPnlSol >= 0 ? 'text-success' : 'text-destructive')}>
+                    Realized: {realizedPnlSol >= 0 ? '+' : ''}{realizedPnlSol.toFixed(4)} SOL
+                  </p>
+                )}
                 {position.profit_take_percent && (
                   <p className="text-success">TP: +{position.profit_take_percent}%</p>
                 )}
@@ -180,6 +202,15 @@ const PositionRow = memo(({
                   Sell & Close
                 </DropdownMenuItem>
               )}
+              {onSellPartial && PARTIAL_SELL_PERCENTS.map((pct) => (
+                <DropdownMenuItem
+                  key={pct}
+                  onClick={() => onSellPartial(position.id, position.current_price, pct)}
+                  className="cursor-pointer"
+                >
+                  Sell {pct}%
+                </DropdownMenuItem>
+              ))}
               {onForceClose && (
                 <>
                   <DropdownMenuSeparator />
@@ -241,6 +272,8 @@ const PositionRow = memo(({
     prevProps.position.id === nextProps.position.id &&
     prevProps.position.current_price === nextProps.position.current_price &&
     prevProps.position.current_value === nextProps.position.current_value &&
+    prevProps.position.amount === nextProps.position.amount &&
+    prevProps.position.realized_pnl_sol === nextProps.position.realized_pnl_sol &&
     prevProps.position.profit_loss_percent === nextProps.position.profit_loss_percent &&
     prevProps.position.profit_loss_value === nextProps.position.profit_loss_value &&
     prevProps.position.token_name === nextProps.position.token_name &&
@@ -277,6 +310,7 @@ export default function ActivePositionsPanel({
   positions, 
   loading = false,
   onClosePosition,
+  onSellPartial,
   onForceClose,
   onRefresh,
 }: ActivePositionsPanelProps) {
@@ -398,6 +432,7 @@ export default function ActivePositionsPanel({
                   position={position}
                   colorIndex={index}
                   onClosePosition={onClosePosition}
+                  onSellPartial={onSellPartial}
                   onForceClose={onForceClose}
                 />
               ))}
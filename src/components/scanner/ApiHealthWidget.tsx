@@ -4,6 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { RefreshCw, CheckCircle, XCircle, Clock, Wifi, WifiOff, AlertTriangle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { RpcEndpointReport } from "@/lib/rpcPool";
 
 interface ApiStatus {
   name: string;
@@ -28,6 +29,7 @@ export default function ApiHealthWidget({ isDemo = false }: ApiHealthWidgetProps
       lastCheck: null,
     }))
   );
+  const [rpcEndpoints, setRpcEndpoints] = useState<RpcEndpointReport[]>([]);
   const [checking, setChecking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const checkingRef = useRef(false);
@@ -54,6 +56,7 @@ export default function ApiHealthWidget({ isDemo = false }: ApiHealthWidgetProps
           lastError: s.lastError,
         })));
       }
+      setRpcEndpoints(Array.isArray(data?.rpc) ? data.rpc : []);
     } catch (err: any) {
       console.error('[ApiHealthWidget] Error:', err);
       setError(err.message || 'Health check failed');
@@ -149,6 +152,29 @@ export default function ApiHealthWidget({ isDemo = false }: ApiHealthWidgetProps
             );
           })}
         </div>
+
+        {rpcEndpoints.length > 1 && (
+          <div className="mt-2 space-y-1">
+            <p className="text-[10px] text-muted-foreground">RPC endpoints</p>
+            {rpcEndpoints.map((endpoint) => {
+              const config = statusConfig[endpoint.state];
+              const Icon = config.icon;
+              return (
+                <div key={endpoint.url} className="flex items-center justify-between text-[10px]" title={endpoint.lastError ?? endpoint.url}>
+                  <span className="flex items-center gap-1 truncate">
+                    <Icon className={`w-2.5 h-2.5 flex-shrink-0 ${config.color}`} />
+                    {endpoint.name}
+                    {endpoint.active && <Badge variant="outline" className="h-3.5 px-1 text-[9px]">active</Badge>}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {endpoint.latencyMs !== null ? `${endpoint.latencyMs}ms` : '-'}
+                    {endpoint.slotLag ? ` · ${endpoint.slotLag} slots behind` : ''}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
         
         {statuses[0]?.lastCheck && (
           <p className="text-[9px] text-muted-foreground text-center mt-2">
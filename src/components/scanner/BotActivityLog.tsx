@@ -1,149 +1,114 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuditTrail } from "@/hooks/useAuditTrail";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AUDIT_EVENT_LABELS,
+  AUDIT_EVENT_TYPES,
+  CLIENT_AUDIT_SOURCE,
+  auditEventToRow,
+  type AuditCategory,
+  type AuditEvent,
+  type AuditEventType,
+  type AuditLevel,
+} from "@/lib/auditTrail";
 import { 
   Activity, 
   CheckCircle, 
   XCircle, 
   AlertTriangle, 
   Ban, 
-  Trash2,
+  Download,
+  Search,
   ChevronDown,
   ChevronRight,
 } from "lucide-react";
 
-export type LogLevel = 'info' | 'success' | 'warning' | 'error' | 'skip';
+export type LogLevel = AuditLevel;
 
 export interface BotLogEntry {
-  id: string;
-  timestamp: Date;
   level: LogLevel;
-  category: 'scan' | 'evaluate' | 'trade' | 'exit' | 'system';
+  category: AuditCategory;
   message: string;
   details?: string;
   tokenSymbol?: string;
   tokenAddress?: string;
+  // Defaults to 'activity'; manual overrides and trades are tagged so the viewer can filter them
+  eventType?: AuditEventType;
+  payload?: Record<string, unknown>;
 }
 
 interface BotActivityLogProps {
   maxEntries?: number;
 }
 
-// User-scoped log storage keys
-const LOG_STORAGE_KEY_PREFIX = 'meme_sniper_bot_logs_';
+// Entries are appended to bot_audit_log in batches; failed batches are retried
+const FLUSH_DELAY_MS = 2000;
+const RETRY_DELAY_MS = 15000;
+const FLUSH_BATCH_SIZE = 100;
+const MAX_PENDING_EVENTS = 1000;
 
-// Get user-specific storage key
-const getLogStorageKey = (userId: string | null): string => {
-  return userId ? `${LOG_STORAGE_KEY_PREFIX}${userId}` : `${LOG_STORAGE_KEY_PREFIX}anonymous`;
-};
-
-// Per-user log stores (in-memory cache)
-const userLogStores: Map<string, BotLogEntry[]> = new Map();
-const logSubscribers: Map<string, Set<() => void>> = new Map();
+const pendingEvents: AuditEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing = false;
 
-// Get or initialize logs for a user
-function getUserLogs(userId: string | null): BotLogEntry[] {
-  const key = getLogStorageKey(userId);
-  if (!userLogStores.has(key)) {
-    // Try to load from localStorage
-    try {
-      const stored = localStorage.getItem(key);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // Restore Date objects
-        const logs = parsed.map((log: BotLogEntry) => ({
-          ...log,
-          timestamp: new Date(log.timestamp),
-        }));
-        userLogStores.set(key, logs);
-      } else {
-        userLogStores.set(key, []);
-      }
-    } catch {
-      userLogStores.set(key, []);
-    }
-  }
-  return userLogStores.get(key) || [];
+function scheduleFlush(delayMs: number): void {
+  if (flushTimer) return;
+  flushTimer = setTimeout(flushBotLogs, delayMs);
 }
 
-// Save logs to localStorage
-function persistUserLogs(userId: string | null): void {
-  const key = getLogStorageKey(userId);
-  const logs = userLogStores.get(key) || [];
+async function flushBotLogs(): Promise<void> {
+  flushTimer = null;
+  if (flushing || pendingEvents.length === 0) return;
+  flushing = true;
+  const batch = pendingEvents.splice(0, FLUSH_BATCH_SIZE);
   try {
-    localStorage.setItem(key, JSON.stringify(logs.slice(0, 200)));
+    // Attributed at write time so workers that log outside the Scanner page are covered too
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+    const { error } = await supabase
+      .from('bot_audit_log')
+      .insert(batch.map((event) => {
+        const row = auditEventToRow(session.user.id, event);
+        return { ...row, payload: row.payload as Tables<'bot_audit_log'>['payload'] };
+      }));
+    if (error) throw error;
   } catch (error) {
     console.error('Failed to persist bot logs:', error);
+    pendingEvents.unshift(...batch);
+    pendingEvents.splice(MAX_PENDING_EVENTS);
+    flushing = false;
+    scheduleFlush(RETRY_DELAY_MS);
+    return;
   }
+  flushing = false;
+  if (pendingEvents.length > 0) scheduleFlush(0);
 }
 
-// Get subscribers for a user
-function getSubscribers(userId: string | null): Set<() => void> {
-  const key = getLogStorageKey(userId);
-  if (!logSubscribers.has(key)) {
-    logSubscribers.set(key, new Set());
-  }
-  return logSubscribers.get(key)!;
-}
-
-// Current user ID for global add/clear functions
-let currentUserId: string | null = null;
-
-export function setCurrentBotLogUser(userId: string | null): void {
-  currentUserId = userId;
-}
-
-export function addBotLog(entry: Omit<BotLogEntry, 'id' | 'timestamp'>): void {
-  const newEntry: BotLogEntry = {
-    ...entry,
-    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-    timestamp: new Date(),
-  };
-  
-  const key = getLogStorageKey(currentUserId);
-  const logs = getUserLogs(currentUserId);
-  const updatedLogs = [newEntry, ...logs].slice(0, 200);
-  userLogStores.set(key, updatedLogs);
-  persistUserLogs(currentUserId);
-  
-  getSubscribers(currentUserId).forEach(cb => cb());
-}
-
-export function clearBotLogs(): void {
-  const key = getLogStorageKey(currentUserId);
-  userLogStores.set(key, []);
-  persistUserLogs(currentUserId);
-  getSubscribers(currentUserId).forEach(cb => cb());
-}
-
-export function useBotLogs() {
-  const { user } = useAuth();
-  const userId = user?.id ?? null;
-  const [logs, setLogs] = useState<BotLogEntry[]>([]);
-  
-  // Update current user for global functions
-  useEffect(() => {
-    setCurrentBotLogUser(userId);
-  }, [userId]);
-  
-  useEffect(() => {
-    // Load user-specific logs
-    setLogs(getUserLogs(userId));
-    
-    const update = () => setLogs([...getUserLogs(userId)]);
-    const subs = getSubscribers(userId);
-    subs.add(update);
-    
-    return () => { 
-      subs.delete(update); 
-    };
-  }, [userId]);
-  
-  return logs;
+export function addBotLog(entry: BotLogEntry): void {
+  pendingEvents.push({
+    eventType: entry.eventType ?? 'activity',
+    level: entry.level,
+    category: entry.category,
+    message: entry.message,
+    details: entry.details,
+    tokenAddress: entry.tokenAddress,
+    tokenSymbol: entry.tokenSymbol,
+    payload: entry.payload,
+    source: CLIENT_AUDIT_SOURCE,
+    occurredAt: new Date().toISOString(),
+  });
+  if (pendingEvents.length > MAX_PENDING_EVENTS) pendingEvents.shift();
+  scheduleFlush(FLUSH_DELAY_MS);
 }
 
 const levelConfig: Record<LogLevel, { icon: React.ElementType; color: string; bg: string }> = {
@@ -163,7 +128,7 @@ const categoryLabels: Record<string, string> = {
 };
 
 // Convert technical error messages to user-friendly messages
-function getFriendlyMessage(entry: BotLogEntry): string {
+function getFriendlyMessage(entry: { message: string; details?: string | null }): string {
   const msg = entry.message;
   const details = entry.details || '';
   const combined = `${msg} ${details}`;
@@ -289,18 +254,21 @@ function getFriendlyMessage(entry: BotLogEntry): string {
   return msg;
 }
 
-const INITIAL_DISPLAY_COUNT = 10;
-const LOAD_MORE_COUNT = 15;
+const LEVEL_FILTERS: (LogLevel | 'all')[] = ['all', 'success', 'info', 'warning', 'error', 'skip'];
 
-export default function BotActivityLog({ maxEntries = 100 }: BotActivityLogProps) {
-  const logs = useBotLogs();
+export default function BotActivityLog({ maxEntries = 30 }: BotActivityLogProps) {
   const [expanded, setExpanded] = useState(true);
   const [expandedEntries, setExpandedEntries] = useState<Set<string>>(new Set());
-  const [displayCount, setDisplayCount] = useState(INITIAL_DISPLAY_COUNT);
-  
-  const allLogs = logs.slice(0, maxEntries);
-  const displayLogs = allLogs.slice(0, displayCount);
-  const hasMore = displayCount < allLogs.length;
+  const [search, setSearch] = useState('');
+  const [eventType, setEventType] = useState<AuditEventType | 'all'>('all');
+  const [level, setLevel] = useState<LogLevel | 'all'>('all');
+  const debouncedSearch = useDebounce(search, 300);
+  const { toast } = useToast();
+
+  const { records, total, loading, exporting, hasMore, loadMore, exportJsonLines } = useAuditTrail(
+    { search: debouncedSearch, eventType, level },
+    maxEntries
+  );
   
   const toggleEntry = (id: string) => {
     setExpandedEntries(prev => {
@@ -310,24 +278,25 @@ export default function BotActivityLog({ maxEntries = 100 }: BotActivityLogProps
       return next;
     });
   };
-  
-  const handleLoadMore = () => {
-    setDisplayCount(prev => Math.min(prev + LOAD_MORE_COUNT, allLogs.length));
+
+  const handleExport = async () => {
+    try {
+      await exportJsonLines();
+    } catch (err: unknown) {
+      toast({
+        title: 'Export failed',
+        description: err instanceof Error ? err.message : 'Could not export the audit trail',
+        variant: 'destructive',
+      });
+    }
   };
   
   const stats = {
-    success: logs.filter(l => l.level === 'success').length,
-    skip: logs.filter(l => l.level === 'skip').length,
-    error: logs.filter(l => l.level === 'error').length,
+    success: records.filter(l => l.level === 'success').length,
+    skip: records.filter(l => l.level === 'skip').length,
+    error: records.filter(l => l.level === 'error').length,
   };
 
-  // Reset display count when logs are cleared
-  useEffect(() => {
-    if (logs.length === 0) {
-      setDisplayCount(INITIAL_DISPLAY_COUNT);
-    }
-  }, [logs.length]);
-
   return (
     <Collapsible open={expanded} onOpenChange={setExpanded}>
       <Card className="bg-gradient-to-br from-card/90 to-card/70 backdrop-blur-sm border-border/50 overflow-hidden">
@@ -346,11 +315,11 @@ export default function BotActivityLog({ maxEntries = 100 }: BotActivityLogProps
                   variant="outline" 
                   className="text-[10px] h-5 px-2 bg-muted/50 border-border/50"
                 >
-                  {logs.length} logs
+                  {total} events
                 </Badge>
               </div>
               <div className="flex items-center gap-3">
-                {/* Stats summary */}
+                {/* Stats summary (loaded events) */}
                 <div className="flex items-center gap-2 text-[11px] font-medium">
                   <span className="flex items-center gap-1 text-success">
                     <CheckCircle className="w-3 h-3" />
@@ -368,14 +337,15 @@ export default function BotActivityLog({ maxEntries = 100 }: BotActivityLogProps
                 <Button 
                   variant="ghost" 
                   size="icon" 
-                  className="h-7 w-7 hover:bg-destructive/10 hover:text-destructive"
+                  className="h-7 w-7"
+                  disabled={exporting || total === 0}
                   onClick={(e) => {
                     e.stopPropagation();
-                    clearBotLogs();
+                    handleExport();
                   }}
-                  title="Clear all logs"
+                  title="Export matching events as JSON Lines"
                 >
-                  <Trash2 className="w-3.5 h-3.5" />
+                  <Download className="w-3.5 h-3.5" />
                 </Button>
                 <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform duration-200 ${expanded ? 'rotate-180' : ''}`} />
               </div>
@@ -385,30 +355,70 @@ export default function BotActivityLog({ maxEntries = 100 }: BotActivityLogProps
         
         <CollapsibleContent>
           <CardContent className="pt-0 pb-3">
+            {/* Filters */}
+            <div className="flex flex-col sm:flex-row gap-2 mb-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search message, reason, symbol or address"
+                  className="h-8 pl-8 text-xs"
+                />
+              </div>
+              <Select value={eventType} onValueChange={(value) => setEventType(value as AuditEventType | 'all')}>
+                <SelectTrigger className="h-8 text-xs sm:w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All events</SelectItem>
+                  {AUDIT_EVENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{AUDIT_EVENT_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={level} onValueChange={(value) => setLevel(value as LogLevel | 'all')}>
+                <SelectTrigger className="h-8 text-xs sm:w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEVEL_FILTERS.map((option) => (
+                    <SelectItem key={option} value={option} className="capitalize">
+                      {option === 'all' ? 'All levels' : option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <ScrollArea className="h-[280px] pr-2">
-              {displayLogs.length === 0 ? (
+              {records.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-center py-10">
                   <div className="p-3 rounded-full bg-muted/30 mb-3">
                     <Activity className="w-6 h-6 text-muted-foreground/50" />
                   </div>
-                  <p className="text-sm font-medium text-muted-foreground">No activity yet</p>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    {loading ? 'Loading activity...' : 'No matching activity'}
+                  </p>
                   <p className="text-xs text-muted-foreground/70 mt-1">Activate the bot to see logs</p>
                 </div>
               ) : (
                 <div className="space-y-1.5">
-                  {displayLogs.map((entry, index) => {
-                    const config = levelConfig[entry.level];
+                  {records.map((entry, index) => {
+                    const config = levelConfig[entry.level as LogLevel] ?? levelConfig.info;
                     const Icon = config.icon;
                     const isExpanded = expandedEntries.has(entry.id);
                     const friendlyMessage = getFriendlyMessage(entry);
+                    const hasPayload = Object.keys(entry.payload || {}).length > 0;
+                    const expandable = !!entry.details || hasPayload;
                     
                     return (
                       <div
                         key={entry.id}
                         className={`group p-2.5 rounded-lg border transition-all duration-200 ${
-                          entry.details ? 'cursor-pointer hover:border-border' : ''
+                          expandable ? 'cursor-pointer hover:border-border' : ''
                         } ${config.bg} border-transparent`}
-                        onClick={() => entry.details && toggleEntry(entry.id)}
+                        onClick={() => expandable && toggleEntry(entry.id)}
                         style={{ animationDelay: `${index * 20}ms` }}
                       >
                         <div className="flex items-start gap-2.5">
@@ -423,25 +433,46 @@ export default function BotActivityLog({ maxEntries = 100 }: BotActivityLogProps
                               >
                                 {categoryLabels[entry.category]}
                               </Badge>
-                              {entry.tokenSymbol && (
+                              {entry.event_type !== 'activity' && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-[9px] h-4 px-1.5 bg-primary/5 border-primary/20 text-primary font-medium"
+                                >
+                                  {AUDIT_EVENT_LABELS[entry.event_type] ?? entry.event_type}
+                                </Badge>
+                              )}
+                              {entry.token_symbol && (
                                 <span className="font-semibold text-xs text-foreground">
-                                  ${entry.tokenSymbol}
+                                  ${entry.token_symbol}
                                 </span>
                               )}
                               <span className="text-[10px] text-muted-foreground ml-auto whitespace-nowrap">
-                                {entry.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                                {new Date(entry.occurred_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })}
                               </span>
-                              {entry.details && (
+                              {expandable && (
                                 <ChevronRight className={`w-3 h-3 text-muted-foreground transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
                               )}
                             </div>
                             <p className={`text-xs leading-relaxed ${config.color} break-words`}>
                               {friendlyMessage}
                             </p>
-                            {isExpanded && entry.details && (
-                              <div className="mt-2 pt-2 border-t border-border/30 animate-fade-in">
-                                <p className="text-[10px] text-muted-foreground break-words whitespace-pre-wrap font-mono bg-background/80 p-2 rounded-md border border-border/30 max-h-32 overflow-y-auto">
-                                  {entry.details}
+                            {isExpanded && (
+                              <div className="mt-2 pt-2 border-t border-border/30 animate-fade-in space-y-1.5">
+                                {friendlyMessage !== entry.message && (
+                                  <p className="text-[10px] text-muted-foreground break-words">{entry.message}</p>
+                                )}
+                                {entry.details && (
+                                  <p className="text-[10px] text-muted-foreground break-words whitespace-pre-wrap font-mono bg-background/80 p-2 rounded-md border border-border/30 max-h-32 overflow-y-auto">
+                                    {entry.details}
+                                  </p>
+                                )}
+                                {hasPayload && (
+                                  <pre className="text-[10px] text-muted-foreground whitespace-pre-wrap break-all font-mono bg-background/80 p-2 rounded-md border border-border/30 max-h-40 overflow-y-auto">
+                                    {JSON.stringify(entry.payload, null, 2)}
+                                  </pre>
+                                )}
+                                <p className="text-[9px] text-muted-foreground/70">
+                                  Source: {entry.source}{entry.token_address ? ` · ${entry.token_address}` : ''}
                                 </p>
                               </div>
                             )}
@@ -458,13 +489,14 @@ export default function BotActivityLog({ maxEntries = 100 }: BotActivityLogProps
                         variant="ghost"
                         size="sm"
                         className="w-full h-8 text-xs text-muted-foreground hover:text-foreground hover:bg-muted/50"
+                        disabled={loading}
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleLoadMore();
+                          loadMore();
                         }}
                       >
                         <ChevronDown className="w-3.5 h-3.5 mr-1.5" />
-                        Load more ({allLogs.length - displayCount} remaining)
+                        Load more ({total - records.length} remaining)
                       </Button>
                     </div>
                   )}
@@ -0,0 +1,64 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Server, AlertTriangle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { RunnerStatus } from "@/contexts/BotContext";
+
+interface BotRunnerStatusProps {
+  runner: RunnerStatus | null;
+  isBotActive: boolean;
+}
+
+export default function BotRunnerStatus({ runner, isBotActive }: BotRunnerStatusProps) {
+  const summary = runner?.lastSummary;
+  const lastRun = runner?.lastRunAt
+    ? formatDistanceToNow(new Date(runner.lastRunAt), { addSuffix: true })
+    : 'never';
+
+  return (
+    <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <Server className="w-4 h-4 text-primary" />
+          Server Runner
+          <Badge variant={isBotActive ? "default" : "secondary"} className="ml-auto text-[10px]">
+            {isBotActive ? 'Running' : 'Idle'}
+          </Badge>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Last cycle {lastRun}
+          {runner?.walletAddress ? ` · ${runner.walletAddress.slice(0, 4)}…${runner.walletAddress.slice(-4)}` : ' · no wallet linked'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {summary && (
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div>
+              <div className="text-lg font-bold font-mono">{summary.scanned}</div>
+              <p className="text-[10px] text-muted-foreground">Scanned</p>
+            </div>
+            <div>
+              <div className="text-lg font-bold font-mono">{summary.approved}</div>
+              <p className="text-[10px] text-muted-foreground">Approved</p>
+            </div>
+            <div>
+              <div className="text-lg font-bold font-mono text-success">{summary.executed}</div>
+              <p className="text-[10px] text-muted-foreground">Bought</p>
+            </div>
+            <div>
+              <div className="text-lg font-bold font-mono">{summary.exitsExecuted}/{summary.exitsTriggered}</div>
+              <p className="text-[10px] text-muted-foreground">Exits</p>
+            </div>
+          </div>
+        )}
+
+        {runner?.lastError && (
+          <div className="p-2 bg-destructive/10 rounded-lg border border-destructive/20 flex items-start gap-2">
+            <AlertTriangle className="w-3 h-3 text-destructive mt-0.5 shrink-0" />
+            <p className="text-xs text-destructive break-words">{runner.lastError}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Loader2, AlertTriangle, ExternalLink, Wallet, CheckCircle2, XCircle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
@@ -30,9 +31,13 @@ interface ExitPreviewModalProps {
   onOpenChange: (open: boolean) => void;
   position: Position | null;
   walletAddress: string;
-  onConfirmExit: (positionId: string, amountToSell: number, currentPrice: number) => Promise<void>;
+  // heldAmount is the on-chain balance before the sale, so partial sells can be booked
+  onConfirmExit: (positionId: string, amountToSell: number, currentPrice: number, heldAmount: number) => Promise<void>;
+  initialSellPercent?: number;
 }
 
+const SELL_PERCENT_PRESETS = [25, 50, 75, 100];
+
 interface OnChainData {
   balanceUi: number;
   decimals: number;
@@ -46,6 +51,7 @@ export default function ExitPreviewModal({
   position,
   walletAddress,
   onConfirmExit,
+  initialSellPercent = 100,
 }: ExitPreviewModalProps) {
   const [onChainData, setOnChainData] = useState<OnChainData>({
     balanceUi: 0,
@@ -56,6 +62,21 @@ export default function ExitPreviewModal({
   const [isExiting, setIsExiting] = useState(false);
   const [exitStatus, setExitStatus] = useState<'idle' | 'pending' | 'confirming' | 'success' | 'failed'>('idle');
   const [txHash, setTxHash] = useState<string | null>(null);
+  const [sellPercent, setSellPercent] = useState(initialSellPercent);
+  const [customAmount, setCustomAmount] = useState('');
+
+  // Reset the amount selector each time the modal opens
+  useEffect(() => {
+    if (open) {
+      setSellPercent(initialSellPercent);
+      setCustomAmount('');
+    }
+  }, [open, initialSellPercent]);
+
+  const parsedCustomAmount = parseFloat(customAmount);
+  const amountToSell = customAmount.trim() && Number.isFinite(parsedCustomAmount)
+    ? Math.min(Math.max(parsedCustomAmount, 0), onChainData.balanceUi)
+    : onChainData.balanceUi * (sellPercent / 100);
 
   // Fetch on-chain balance when modal opens
   useEffect(() => {
@@ -105,13 +126,13 @@ export default function ExitPreviewModal({
   }, [open, position, walletAddress]);
 
   const handleConfirmExit = useCallback(async () => {
-    if (!position || onChainData.balanceUi <= 0) return;
+    if (!position || onChainData.balanceUi <= 0 || amountToSell <= 0) return;
 
     setIsExiting(true);
     setExitStatus('pending');
 
     try {
-      await onConfirmExit(position.id, onChainData.balanceUi, position.current_price);
+      await onConfirmExit(position.id, amountToSell, position.current_price, onChainData.balanceUi);
       setExitStatus('success');
       // Close modal after short delay on success
       setTimeout(() => {
@@ -122,11 +143,12 @@ export default function ExitPreviewModal({
     } finally {
       setIsExiting(false);
     }
-  }, [position, onChainData.balanceUi, onConfirmExit, onOpenChange]);
+  }, [position, onChainData.balanceUi, amountToSell, onConfirmExit, onOpenChange]);
 
   if (!position) return null;
 
-  const estimatedSolReceived = onChainData.balanceUi * position.current_price;
+  const estimatedSolReceived = amountToSell * position.current_price;
+  const isPartialSell = amountToSell > 0 && amountToSell < onChainData.balanceUi;
   const balanceMismatch = Math.abs(onChainData.balanceUi - position.amount) > 0.001;
   const hasNoBalance = onChainData.balanceUi <= 0 && !onChainData.loading;
 
@@ -205,6 +227,37 @@ export default function ExitPreviewModal({
                   </span>
                 </div>
 
+                {/* Amount to sell */}
+                <div className="space-y-2 p-3 rounded-lg bg-secondary/20">
+                  <span className="text-sm text-muted-foreground">Amount to Sell</span>
+                  <div className="grid grid-cols-4 gap-2">
+                    {SELL_PERCENT_PRESETS.map((pct) => (
+                      <Button
+                        key={pct}
+                        type="button"
+                        size="sm"
+                        variant={!customAmount.trim() && sellPercent === pct ? 'default' : 'outline'}
+                        onClick={() => {
+                          setSellPercent(pct);
+                          setCustomAmount('');
+                        }}
+                        disabled={isExiting}
+                      >
+                        {pct}%
+                      </Button>
+                    ))}
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder="Custom token amount"
+                    value={customAmount}
+                    onChange={(e) => setCustomAmount(e.target.value)}
+                    disabled={isExiting}
+                  />
+                </div>
+
                 <div className="flex justify-between items-center p-3 rounded-lg bg-primary/10 border border-primary/20">
                   <span className="text-sm font-medium">Est. SOL Received</span>
                   <span className="font-mono font-bold tabular-nums text-primary">
@@ -259,7 +312,7 @@ export default function ExitPreviewModal({
                 <span className="text-sm font-medium">
                   {exitStatus === 'pending' && 'Waiting for wallet approval...'}
                   {exitStatus === 'confirming' && 'Confirming transaction...'}
-                  {exitStatus === 'success' && 'Position closed successfully!'}
+                  {exitStatus === 'success' && (isPartialSell ? 'Partial sell completed!' : 'Position closed successfully!')}
                   {exitStatus === 'failed' && 'Exit failed. Check console for details.'}
                 </span>
               </div>
@@ -278,7 +331,7 @@ export default function ExitPreviewModal({
           <Button
             variant="destructive"
             onClick={handleConfirmExit}
-            disabled={onChainData.loading || hasNoBalance || isExiting || exitStatus === 'success'}
+            disabled={onChainData.loading || hasNoBalance || amountToSell <= 0 || isExiting || exitStatus === 'success'}
           >
             {isExiting ? (
               <>
@@ -286,7 +339,7 @@ export default function ExitPreviewModal({
                 Selling...
               </>
             ) : (
-              <>Sell {onChainData.balanceUi.toFixed(2)} Tokens</>
+              <>Sell {amountToSell.toFixed(2)} Tokens</>
             )}
           </Button>
         </DialogFooter>
@@ -1,70 +1,136 @@
 import { useState, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { ComposedChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceDot } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
 import { TrendingUp, TrendingDown, BarChart3 } from 'lucide-react';
+import { useTokenCandles } from '@/hooks/useTokenCandles';
+import {
+  CANDLE_RESOLUTIONS,
+  CANDLE_RESOLUTION_SECONDS,
+  candleBucketStart,
+  type Candle,
+  type CandleResolution,
+  type TradeMarker,
+} from '@/lib/candles';
 
 interface TokenPriceChartProps {
   token: {
+    address: string;
+    pairAddress: string;
     priceUsd: number;
     priceChange24h: number;
     symbol: string;
   };
+  /** Demo mode charts synthetic candles instead of stored ones */
+  demo?: boolean;
 }
 
-type TimeFrame = '1H' | '4H' | '24H' | '7D';
-
-export function TokenPriceChart({ token }: TokenPriceChartProps) {
-  const [timeframe, setTimeframe] = useState<TimeFrame>('24H');
-  
-  // Generate mock price data based on current price and change
-  const chartData = useMemo(() => {
-    const points: { time: string; price: number; volume: number }[] = [];
-    const basePrice = token.priceUsd;
-    const changePercent = token.priceChange24h / 100;
-    
-    const numPoints = timeframe === '1H' ? 12 : timeframe === '4H' ? 24 : timeframe === '24H' ? 24 : 7 * 24;
-    const interval = timeframe === '1H' ? 5 : timeframe === '4H' ? 10 : timeframe === '24H' ? 60 : 360;
-    
-    // Calculate starting price based on change
-    const startPrice = basePrice / (1 + changePercent);
-    
-    for (let i = 0; i < numPoints; i++) {
-      const progress = i / numPoints;
-      // Add some randomness but trend towards current price
-      const noise = (Math.random() - 0.5) * 0.02 * basePrice;
-      const trendPrice = startPrice + (basePrice - startPrice) * progress;
-      const price = trendPrice + noise;
-      
-      const time = new Date(Date.now() - (numPoints - i) * interval * 60 * 1000);
-      const timeStr = timeframe === '7D' 
-        ? time.toLocaleDateString('en-US', { weekday: 'short' })
-        : time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-      
-      points.push({
-        time: timeStr,
-        price: Math.max(0, price),
-        volume: Math.floor(Math.random() * 10000) + 1000,
-      });
-    }
-    
-    return points;
-  }, [token.priceUsd, token.priceChange24h, timeframe]);
+interface ChartPoint extends Candle {
+  range: [number, number];
+}
 
-  const isPositive = token.priceChange24h >= 0;
-  const chartColor = isPositive ? 'hsl(160, 100%, 50%)' : 'hsl(0, 72%, 51%)';
+const UP_COLOR = 'hsl(160, 100%, 50%)';
+const DOWN_COLOR = 'hsl(0, 72%, 51%)';
+const AXIS_COLOR = 'hsl(215, 20%, 55%)';
+
+const formatPrice = (price: number): string => {
+  if (price < 0.0001) return price.toExponential(2);
+  if (price < 0.01) return price.toFixed(6);
+  if (price < 1) return price.toFixed(4);
+  return price.toFixed(2);
+};
+
+const formatVolume = (volume: number): string => {
+  if (volume >= 1_000_000) return `${(volume / 1_000_000).toFixed(2)}M`;
+  if (volume >= 1_000) return `${(volume / 1_000).toFixed(1)}K`;
+  return volume.toFixed(0);
+};
+
+// Random walk ending at the current price, shaped by the 24h change
+function demoCandles(priceUsd: number, priceChange24h: number, resolution: CandleResolution): Candle[] {
+  const size = CANDLE_RESOLUTION_SECONDS[resolution] * 1000;
+  const count = 60;
+  const end = candleBucketStart(Date.now(), resolution);
+  const startPrice = priceUsd / (1 + priceChange24h / 100);
+  const candles: Candle[] = [];
+  let open = startPrice;
+
+  for (let i = 0; i < count; i++) {
+    const trend = startPrice + (priceUsd - startPrice) * ((i + 1) / count);
+    const close = i === count - 1 ? priceUsd : Math.max(0, trend + (Math.random() - 0.5) * 0.02 * priceUsd);
+    const wick = Math.random() * 0.01 * priceUsd;
+    candles.push({
+      bucketStart: end - (count - 1 - i) * size,
+      open,
+      high: Math.max(open, close) + wick,
+      low: Math.max(0, Math.min(open, close) - wick),
+      close,
+      volumeUsd: Math.floor(Math.random() * 10000) + 1000,
+      sampleCount: 1,
+      source: 'sampled',
+    });
+    open = close;
+  }
+  return candles;
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartPoint;
+}
+
+// Wick spans the bar's [low, high] pixels; the body is interpolated from open/close inside it
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload) return null;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const span = high - low;
+  const toPixel = (value: number) => (span > 0 ? y + ((high - value) / span) * height : y);
+  const bodyTop = toPixel(Math.max(open, close));
+  const bodyHeight = Math.max(1, toPixel(Math.min(open, close)) - bodyTop);
+  const center = x + width / 2;
+  const bodyWidth = Math.max(1, width * 0.7);
 
-  const formatPrice = (price: number): string => {
-    if (price < 0.0001) return price.toExponential(2);
-    if (price < 0.01) return price.toFixed(6);
-    if (price < 1) return price.toFixed(4);
-    return price.toFixed(2);
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + Math.max(height, 1)} stroke={color} strokeWidth={1} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+export function TokenPriceChart({ token, demo = false }: TokenPriceChartProps) {
+  const [resolution, setResolution] = useState<CandleResolution>('5m');
+  const live = useTokenCandles(demo ? null : token.address, token.pairAddress, resolution);
+
+  const candles = useMemo(
+    () => (demo ? demoCandles(token.priceUsd, token.priceChange24h, resolution) : live.candles),
+    [demo, live.candles, token.priceUsd, token.priceChange24h, resolution]
+  );
+  const markers: TradeMarker[] = demo ? [] : live.markers;
+
+  const chartData: ChartPoint[] = useMemo(
+    () => candles.map((c) => ({ ...c, range: [c.low, c.high] })),
+    [candles]
+  );
+
+  const isPositive = token.priceChange24h >= 0;
+  const formatTime = (bucketStart: number) => {
+    const time = new Date(bucketStart);
+    return resolution === '1h'
+      ? time.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit' })
+      : time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
   };
 
-  const minPrice = Math.min(...chartData.map(d => d.price));
-  const maxPrice = Math.max(...chartData.map(d => d.price));
-  const priceRange = maxPrice - minPrice;
+  const minPrice = chartData.length ? Math.min(...chartData.map(d => d.low)) : 0;
+  const maxPrice = chartData.length ? Math.max(...chartData.map(d => d.high)) : 0;
+  const priceRange = maxPrice - minPrice || maxPrice * 0.05;
+  const maxVolume = chartData.length ? Math.max(...chartData.map(d => d.volumeUsd)) : 0;
 
   return (
     <Card className="glass">
@@ -83,66 +149,89 @@ export function TokenPriceChart({ token }: TokenPriceChartProps) {
         </div>
       </CardHeader>
       <CardContent>
-        {/* Timeframe Selector */}
+        {/* Resolution Selector */}
         <div className="flex gap-1 mb-4">
-          {(['1H', '4H', '24H', '7D'] as TimeFrame[]).map((tf) => (
+          {CANDLE_RESOLUTIONS.map((res) => (
             <Button
-              key={tf}
-              variant={timeframe === tf ? 'default' : 'ghost'}
+              key={res}
+              variant={resolution === res ? 'default' : 'ghost'}
               size="sm"
-              onClick={() => setTimeframe(tf)}
+              onClick={() => setResolution(res)}
               className="flex-1"
             >
-              {tf}
+              {res}
             </Button>
           ))}
         </div>
 
         {/* Chart */}
         <div className="h-64">
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-              <defs>
-                <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor={chartColor} stopOpacity={0.3} />
-                  <stop offset="95%" stopColor={chartColor} stopOpacity={0} />
-                </linearGradient>
-              </defs>
-              <XAxis 
-                dataKey="time" 
-                axisLine={false}
-                tickLine={false}
-                tick={{ fill: 'hsl(215, 20%, 55%)', fontSize: 10 }}
-                interval="preserveStartEnd"
-              />
-              <YAxis 
-                domain={[minPrice - priceRange * 0.1, maxPrice + priceRange * 0.1]}
-                axisLine={false}
-                tickLine={false}
-                tick={{ fill: 'hsl(215, 20%, 55%)', fontSize: 10 }}
-                tickFormatter={(value) => `$${formatPrice(value)}`}
-                width={60}
-              />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: 'hsl(220, 20%, 10%)',
-                  border: '1px solid hsl(220, 15%, 20%)',
-                  borderRadius: '8px',
-                  color: 'hsl(210, 40%, 98%)',
-                }}
-                formatter={(value: number) => [`$${formatPrice(value)}`, 'Price']}
-                labelStyle={{ color: 'hsl(215, 20%, 55%)' }}
-              />
-              <Area
-                type="monotone"
-                dataKey="price"
-                stroke={chartColor}
-                strokeWidth={2}
-                fillOpacity={1}
-                fill="url(#colorPrice)"
-              />
-            </AreaChart>
-          </ResponsiveContainer>
+          {chartData.length === 0 ? (
+            live.loading ? (
+              <Skeleton className="w-full h-full" />
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-muted-foreground text-center px-6">
+                No {resolution} candles yet - prices are sampled while the token is being watched
+              </div>
+            )
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <XAxis
+                  dataKey="bucketStart"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: AXIS_COLOR, fontSize: 10 }}
+                  tickFormatter={formatTime}
+                  interval="preserveStartEnd"
+                />
+                <YAxis
+                  yAxisId="price"
+                  domain={[Math.max(0, minPrice - priceRange * 0.1), maxPrice + priceRange * 0.1]}
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: AXIS_COLOR, fontSize: 10 }}
+                  tickFormatter={(value) => `$${formatPrice(value)}`}
+                  width={60}
+                />
+                {/* Volume sits in the bottom quarter */}
+                <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4 || 1]} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(220, 20%, 10%)',
+                    border: '1px solid hsl(220, 15%, 20%)',
+                    borderRadius: '8px',
+                    color: 'hsl(210, 40%, 98%)',
+                  }}
+                  labelStyle={{ color: AXIS_COLOR }}
+                  labelFormatter={(value: number) => formatTime(value)}
+                  formatter={(value: number | [number, number], name: string, item: { payload?: ChartPoint }) => {
+                    if (name === 'volumeUsd') return [`$${formatVolume(value as number)}`, 'Volume'];
+                    const c = item.payload;
+                    return c
+                      ? [`O ${formatPrice(c.open)} H ${formatPrice(c.high)} L ${formatPrice(c.low)} C ${formatPrice(c.close)}`, 'Price']
+                      : [String(value), name];
+                  }}
+                />
+                <Bar yAxisId="volume" dataKey="volumeUsd" fill={AXIS_COLOR} fillOpacity={0.25} isAnimationActive={false} />
+                <Bar yAxisId="price" dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                {markers.map((marker, index) => (
+                  <ReferenceDot
+                    key={`${marker.txHash ?? marker.createdAt}-${index}`}
+                    yAxisId="price"
+                    x={marker.bucketStart}
+                    y={marker.priceUsd}
+                    r={5}
+                    fill={marker.side === 'buy' ? UP_COLOR : DOWN_COLOR}
+                    stroke="hsl(220, 20%, 10%)"
+                    strokeWidth={1.5}
+                    label={{ value: marker.side === 'buy' ? 'B' : 'S', position: 'top', fill: AXIS_COLOR, fontSize: 10 }}
+                    ifOverflow="extendDomain"
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
         </div>
 
         {/* Price Stats */}
@@ -150,13 +239,13 @@ export function TokenPriceChart({ token }: TokenPriceChartProps) {
           <div className="text-center">
             <p className="text-xs text-muted-foreground">High</p>
             <p className="font-mono text-sm font-medium text-success">
-              ${formatPrice(maxPrice)}
+              {chartData.length ? `$${formatPrice(maxPrice)}` : '-'}
             </p>
           </div>
           <div className="text-center">
             <p className="text-xs text-muted-foreground">Low</p>
             <p className="font-mono text-sm font-medium text-destructive">
-              ${formatPrice(minPrice)}
+              {chartData.length ? `$${formatPrice(minPrice)}` : '-'}
             </p>
           </div>
           <div className="text-center">
@@ -166,6 +255,12 @@ export function TokenPriceChart({ token }: TokenPriceChartProps) {
             </p>
           </div>
         </div>
+        {!demo && chartData.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-2 text-center">
+            {chartData.length} {resolution} candles
+            {markers.length > 0 && ` · ${markers.length} of your trades marked`}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
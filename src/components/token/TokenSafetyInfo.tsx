@@ -1,8 +1,9 @@
-import { Shield, AlertTriangle, Check, X, Info, Lock, Unlock, Users, Clock, Droplets } from 'lucide-react';
+import { Shield, AlertTriangle, Check, X, Info, Lock, Unlock, Users, Clock, Droplets, ArrowLeftRight } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
+import type { SellSimulation, SellSimulationVerdict } from '@/lib/sellSimulation';
 
 interface TokenSafetyInfoProps {
   token: {
@@ -21,6 +22,12 @@ interface TokenSafetyInfoProps {
     canBuy?: boolean;
     canSell?: boolean;
   };
+  // Round-trip simulation from useSellSimulation; the check is omitted when not provided
+  sellSimulation?: {
+    simulation: SellSimulation | null;
+    verdict: SellSimulationVerdict | null;
+    loading: boolean;
+  };
 }
 
 interface SafetyCheck {
@@ -30,7 +37,29 @@ interface SafetyCheck {
   icon: typeof Check;
 }
 
-export function TokenSafetyInfo({ token }: TokenSafetyInfoProps) {
+function sellSimulationCheck({ simulation, verdict, loading }: NonNullable<TokenSafetyInfoProps['sellSimulation']>): SafetyCheck {
+  const label = 'Sell Simulation';
+  if (loading && !simulation) {
+    return { label, status: 'warning', description: 'Simulating a buy and sell...', icon: ArrowLeftRight };
+  }
+  if (!simulation || simulation.status === 'unverified') {
+    return { label, status: 'warning', description: simulation?.error || 'Sell simulation unavailable', icon: ArrowLeftRight };
+  }
+  if (simulation.status === 'unsellable') {
+    return { label, status: 'fail', description: 'Simulated sell reverted - likely honeypot', icon: X };
+  }
+
+  const taxes = `Buy tax ${simulation.buy.taxPercent ?? '–'}% · Sell tax ${simulation.sell.taxPercent ?? '–'}%`;
+  const roundTrip = simulation.roundTripLossPercent !== null ? ` · Round trip -${simulation.roundTripLossPercent}%` : '';
+  return {
+    label,
+    status: verdict?.passed === false ? 'fail' : 'pass',
+    description: `${taxes}${roundTrip}`,
+    icon: ArrowLeftRight,
+  };
+}
+
+export function TokenSafetyInfo({ token, sellSimulation }: TokenSafetyInfoProps) {
   const getRiskLevel = (score: number): { label: string; color: string; bgColor: string } => {
     if (score <= 30) return { label: 'Low Risk', color: 'text-success', bgColor: 'bg-success' };
     if (score <= 60) return { label: 'Medium Risk', color: 'text-warning', bgColor: 'bg-warning' };
@@ -85,6 +114,7 @@ export function TokenSafetyInfo({ token }: TokenSafetyInfoProps) {
         : 'Trading may be restricted',
       icon: token.isTradeable ? Check : X,
     },
+    ...(sellSimulation ? [sellSimulationCheck(sellSimulation)] : []),
   ];
 
   const passedChecks = safetyChecks.filter(c => c.status === 'pass').length;
@@ -13,6 +13,12 @@ import { useWallet } from '@/hooks/useWallet';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { useToast } from '@/hooks/use-toast';
 import { useSniperSettings } from '@/hooks/useSniperSettings';
+import { usePositions } from '@/hooks/usePositions';
+import { useTradingEngine } from '@/hooks/useTradingEngine';
+import { useTradeExecution } from '@/hooks/useTradeExecution';
+import { EVM_CHAINS, isEvmChain, isExecutionChain, nativeSymbol, type ExecutionChain } from '@/lib/executionAdapter';
+import { supabase } from '@/integrations/supabase/client';
+import { addBotLog } from '@/components/scanner/BotActivityLog';
 import type { VersionedTransaction } from '@solana/web3.js';
 
 interface TokenTradingPanelProps {
@@ -26,27 +32,43 @@ interface TokenTradingPanelProps {
     canSell?: boolean;
     isPumpFun?: boolean;
     liquidity: number;
+    chain?: string;
   };
 }
 
 const QUICK_AMOUNTS = [0.1, 0.25, 0.5, 1.0, 2.0];
 
 export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
-  const { wallet, signAndSendTransaction } = useWallet();
+  const { wallet, signAndSendTransaction, signAllTransactions, sendEvmTransaction } = useWallet();
   const { mode, isDemo } = useAppMode();
   const { toast } = useToast();
   const { settings } = useSniperSettings();
+  const { openPositions, recordPositionSale } = usePositions();
+  const { exitPosition } = useTradingEngine();
+  const { sellPosition } = useTradeExecution();
   
   const [activeTab, setActiveTab] = useState<'buy' | 'sell' | 'swap'>('buy');
   const [buyAmount, setBuyAmount] = useState('0.1');
   const [sellPercentage, setSellPercentage] = useState([50]);
+  const [sellCustomAmount, setSellCustomAmount] = useState('');
   const [swapFromAmount, setSwapFromAmount] = useState('');
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
   const [tradeAction, setTradeAction] = useState<'buy' | 'sell'>('buy');
 
+  const chain: ExecutionChain = isExecutionChain(token.chain) ? token.chain : 'solana';
+  const isEvm = isEvmChain(chain);
+  const symbol = nativeSymbol(chain);
   const walletBalance = parseFloat(String(wallet.balance || '0').replace(/[^\d.]/g, '')) || 0;
+  const openPosition = openPositions.find(p => p.token_address === token.address && p.status === 'open');
+  const parsedSellAmount = parseFloat(sellCustomAmount);
+  const hasCustomSellAmount = !isEvm && sellCustomAmount.trim() !== '' && Number.isFinite(parsedSellAmount) && parsedSellAmount > 0;
   
+  // EVM tokens trade through MetaMask on the token's own chain
+  const walletRequirement = isEvm
+    ? { title: `${EVM_CHAINS[chain].name} Wallet Required`, description: `Please connect MetaMask on ${EVM_CHAINS[chain].name}` }
+    : { title: 'Solana Wallet Required', description: 'Please connect a Solana wallet (Phantom, Solflare, etc.)' };
+
   const handleQuickBuy = (amount: number) => {
     setBuyAmount(amount.toString());
     initiateTradeAction('buy', amount);
@@ -56,18 +78,14 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
     if (!wallet.isConnected) {
       toast({
         title: 'Wallet Required',
-        description: 'Please connect your Solana wallet to trade',
+        description: 'Please connect your wallet to trade',
         variant: 'destructive',
       });
       return;
     }
 
-    if (wallet.network !== 'solana') {
-      toast({
-        title: 'Solana Wallet Required',
-        description: 'Please connect a Solana wallet (Phantom, Solflare, etc.)',
-        variant: 'destructive',
-      });
+    if (wallet.network !== chain) {
+      toast({ ...walletRequirement, variant: 'destructive' });
       return;
     }
 
@@ -77,7 +95,7 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
     if (action === 'buy' && walletBalance < tradeAmount + feeBuffer) {
       toast({
         title: 'Insufficient Balance',
-        description: `You need at least ${(tradeAmount + feeBuffer).toFixed(3)} SOL`,
+        description: `You need at least ${(tradeAmount + feeBuffer).toFixed(3)} ${symbol}`,
         variant: 'destructive',
       });
       return;
@@ -99,6 +117,127 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
     });
   };
 
+  // Sell part or all of the on-chain balance, then book it against the open position
+  const handleSell = async () => {
+    if (!wallet.isConnected || wallet.network !== chain || !wallet.address) {
+      toast({ ...walletRequirement, variant: 'destructive' });
+      return;
+    }
+
+    if (isEvm) {
+      await handleEvmSell(wallet.address);
+      return;
+    }
+
+    setIsExecuting(true);
+    try {
+      const { data: meta } = await supabase.functions.invoke('token-metadata', {
+        body: { mint: token.address, owner: wallet.address },
+      });
+      const heldAmount = Number((meta as { balanceUi?: number } | null)?.balanceUi);
+      if (!Number.isFinite(heldAmount) || heldAmount <= 0) {
+        toast({
+          title: 'No Token Balance',
+          description: `Your wallet doesn't hold any ${token.symbol}`,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const amountToSell = hasCustomSellAmount
+        ? Math.min(parsedSellAmount, heldAmount)
+        : heldAmount * (sellPercentage[0] / 100);
+      if (amountToSell <= 0) return;
+
+      addBotLog({
+        level: 'info',
+        category: 'trade',
+        eventType: 'manual_override',
+        message: `Manual sell of ${token.symbol} from token page`,
+        tokenSymbol: token.symbol,
+        tokenAddress: token.address,
+        details: `Selling ${amountToSell.toFixed(6)} of ${heldAmount.toFixed(6)} tokens`,
+        payload: { positionId: openPosition?.id ?? null, amountToSell, heldAmount, priceUsd: token.priceUsd },
+      });
+
+      const result = await exitPosition(
+        token.address,
+        amountToSell,
+        wallet.address,
+        (tx) => signAndSendTransaction(tx),
+        { slippage: 0.15 }
+      );
+      if (!result.success) return;
+
+      if (openPosition) {
+        await recordPositionSale(openPosition.id, amountToSell, token.priceUsd, {
+          txHash: result.txHash,
+          proceedsSol: result.solReceived,
+          heldAmount,
+        });
+      }
+      setSellCustomAmount('');
+    } catch (error: unknown) {
+      toast({
+        title: 'Sell Failed',
+        description: error instanceof Error ? error.message : 'Sell failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  // EVM balances are read on-chain by trade-execution, so the sell is a share of the wallet's holdings
+  const handleEvmSell = async (walletAddress: string) => {
+    if (!isEvmChain(chain)) return;
+    const sellFraction = sellPercentage[0] / 100;
+    if (sellFraction <= 0) return;
+
+    setIsExecuting(true);
+    try {
+      addBotLog({
+        level: 'info',
+        category: 'trade',
+        eventType: 'manual_override',
+        message: `Manual sell of ${token.symbol} from token page`,
+        tokenSymbol: token.symbol,
+        tokenAddress: token.address,
+        details: `Selling ${sellPercentage[0]}% on ${EVM_CHAINS[chain].name}`,
+        payload: { positionId: openPosition?.id ?? null, sellFraction, chain, priceUsd: token.priceUsd },
+      });
+
+      // No positionId: confirm-transaction would close the whole position, the sale is booked below instead
+      const result = await sellPosition(
+        token.address,
+        '',
+        '',
+        walletAddress,
+        (tx) => signAndSendTransaction(tx),
+        undefined,
+        { chain, sendEvm: sendEvmTransaction, sellFraction }
+      );
+      if (!result.success || !result.quote) return;
+
+      const amountSold = result.quote.inputAmountDecimal;
+      if (openPosition) {
+        await recordPositionSale(openPosition.id, amountSold, token.priceUsd, {
+          txHash: result.signature,
+          proceedsSol: result.quote.outputAmountDecimal,
+          heldAmount: amountSold / sellFraction,
+        });
+      }
+    } catch (error: unknown) {
+      toast({
+        title: 'Sell Failed',
+        description: error instanceof Error ? error.message : 'Sell failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
   const handleDemoTrade = async (action: 'buy' | 'sell') => {
     setIsExecuting(true);
     
@@ -160,7 +299,7 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
               <span className="text-sm">Balance</span>
             </div>
             <span className="font-mono font-medium">
-              {wallet.isConnected ? `${walletBalance.toFixed(4)} SOL` : 'Not connected'}
+              {wallet.isConnected ? `${walletBalance.toFixed(4)} ${symbol}` : 'Not connected'}
             </span>
           </div>
 
@@ -214,7 +353,7 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
             {/* BUY TAB */}
             <TabsContent value="buy" className="space-y-4 mt-4">
               <div className="space-y-2">
-                <Label>Amount (SOL)</Label>
+                <Label>Amount ({symbol})</Label>
                 <Input
                   type="number"
                   placeholder="0.1"
@@ -245,7 +384,7 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
                     onClick={() => setBuyAmount(amount.toString())}
                     className="flex-1 min-w-[60px]"
                   >
-                    {amount} SOL
+                    {amount} {symbol}
                   </Button>
                 ))}
               </div>
@@ -303,7 +442,9 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
                 />
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Selling</span>
-                  <span className="font-mono font-medium">{sellPercentage[0]}%</span>
+                  <span className="font-mono font-medium">
+                    {hasCustomSellAmount ? `${parsedSellAmount} ${token.symbol}` : `${sellPercentage[0]}%`}
+                  </span>
                 </div>
               </div>
 
@@ -311,9 +452,12 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
                 {[25, 50, 75, 100].map((pct) => (
                   <Button
                     key={pct}
-                    variant={sellPercentage[0] === pct ? 'default' : 'outline'}
+                    variant={!hasCustomSellAmount && sellPercentage[0] === pct ? 'default' : 'outline'}
                     size="sm"
-                    onClick={() => setSellPercentage([pct])}
+                    onClick={() => {
+                      setSellPercentage([pct]);
+                      setSellCustomAmount('');
+                    }}
                     className="flex-1"
                   >
                     {pct}%
@@ -321,20 +465,50 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
                 ))}
               </div>
 
+              {!isEvm && <div className="space-y-2">
+                <Label>Custom Amount ({token.symbol})</Label>
+                <Input
+                  type="number"
+                  placeholder="Leave empty to sell by percentage"
+                  value={sellCustomAmount}
+                  onChange={(e) => setSellCustomAmount(e.target.value)}
+                  min={0}
+                  step="any"
+                  className="font-mono"
+                />
+              </div>}
+
               <Separator />
 
-              <div className="p-3 rounded-lg bg-secondary/50 text-sm">
-                <p className="text-muted-foreground">
-                  You need to hold {token.symbol} tokens in your wallet to sell.
-                </p>
-              </div>
+              {openPosition ? (
+                <div className="p-3 rounded-lg bg-secondary/50 text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Position</span>
+                    <span className="font-mono">
+                      {openPosition.amount.toLocaleString(undefined, { maximumFractionDigits: 2 })} {token.symbol}
+                    </span>
+                  </div>
+                  {(openPosition.realized_pnl_sol ?? 0) !== 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Realized</span>
+                      <span className="font-mono">{(openPosition.realized_pnl_sol ?? 0).toFixed(4)} SOL</span>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="p-3 rounded-lg bg-secondary/50 text-sm">
+                  <p className="text-muted-foreground">
+                    You need to hold {token.symbol} tokens in your wallet to sell.
+                  </p>
+                </div>
+              )}
 
               <Button 
                 className="w-full gap-2" 
                 size="lg"
                 variant="destructive"
                 disabled={!canTrade || isExecuting || (!wallet.isConnected && !isDemo)}
-                onClick={() => isDemo ? handleDemoTrade('sell') : initiateTradeAction('sell')}
+                onClick={() => isDemo ? handleDemoTrade('sell') : handleSell()}
               >
                 {isExecuting ? (
                   <>
@@ -344,7 +518,7 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
                 ) : (
                   <>
                     <TrendingDown className="w-4 h-4" />
-                    Sell {sellPercentage[0]}%
+                    Sell {hasCustomSellAmount ? `${parsedSellAmount} ${token.symbol}` : `${sellPercentage[0]}%`}
                   </>
                 )}
               </Button>
@@ -447,6 +621,9 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
           amountSol={parseFloat(buyAmount) || 0.1}
           walletAddress={wallet.address}
           signAndSend={handleSignAndSend}
+          signAll={signAllTransactions}
+          chain={chain}
+          sendEvm={sendEvmTransaction}
           onSuccess={handleTradeSuccess}
         />
       )}
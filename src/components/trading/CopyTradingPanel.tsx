@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCopyLeaders, CopySizingMode } from '@/hooks/useCopyLeaders';
+import { useCopyTrades, CopyTradeStatus } from '@/hooks/useCopyTrades';
+import { useCopyTradingWorker } from '@/hooks/useCopyTradingWorker';
+import { useWallet } from '@/hooks/useWallet';
+import { isValidSolanaAddress } from '@/lib/sniperValidation';
+import { Users, Plus, Trash2, Loader2, RefreshCw, ExternalLink, Copy } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const STATUS_VARIANTS: Record<CopyTradeStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  executing: 'secondary',
+  executed: 'default',
+  failed: 'destructive',
+  skipped: 'secondary',
+};
+
+export function CopyTradingPanel() {
+  const { leaders, loading: leadersLoading, addLeader, updateLeader, removeLeader } = useCopyLeaders();
+  const { trades, loading: tradesLoading, executing, executeCopyTrade } = useCopyTrades();
+  const { wallet } = useWallet();
+
+  const [autoMirror, setAutoMirror] = useState(false);
+  const { lastRun, polling, pollLeaders } = useCopyTradingWorker({
+    enabled: autoMirror && wallet.isConnected,
+    trades,
+    executeCopyTrade,
+  });
+
+  const [address, setAddress] = useState('');
+  const [name, setName] = useState('');
+  const [sizingMode, setSizingMode] = useState<CopySizingMode>('fixed_sol');
+  const [fixedAmount, setFixedAmount] = useState('0.1');
+  const [leaderPercent, setLeaderPercent] = useState('10');
+  const [maxPerTrade, setMaxPerTrade] = useState('0.5');
+  const [copySells, setCopySells] = useState(true);
+  const [adding, setAdding] = useState(false);
+
+  const trimmedAddress = address.trim();
+  const addressError = trimmedAddress && !isValidSolanaAddress(trimmedAddress) ? 'Invalid Solana address' : null;
+
+  const handleAdd = async () => {
+    if (!trimmedAddress || addressError) return;
+    setAdding(true);
+    const created = await addLeader({
+      leader_address: trimmedAddress,
+      leader_name: name.trim() || null,
+      sizing_mode: sizingMode,
+      fixed_amount_sol: parseFloat(fixedAmount) || 0,
+      leader_percent: parseFloat(leaderPercent) || 0,
+      max_per_trade_sol: parseFloat(maxPerTrade) || 0,
+      copy_sells: copySells,
+    });
+    setAdding(false);
+    if (created) {
+      setAddress('');
+      setName('');
+    }
+  };
+
+  const recentTrades = trades.slice(0, 25);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            Copy Trading
+            {leaders.length > 0 && (
+              <Badge variant="default" className="ml-2">
+                {leaders.filter(l => l.is_active).length} following
+              </Badge>
+            )}
+          </CardTitle>
+
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => pollLeaders()}
+              disabled={polling || leaders.length === 0}
+            >
+              <RefreshCw className={`h-4 w-4 ${polling ? 'animate-spin' : ''}`} />
+            </Button>
+            <Label htmlFor="copy-auto-mirror" className="text-sm">Auto-mirror</Label>
+            <Switch
+              id="copy-auto-mirror"
+              checked={autoMirror}
+              onCheckedChange={setAutoMirror}
+              disabled={!wallet.isConnected}
+            />
+          </div>
+        </div>
+
+        {!wallet.isConnected ? (
+          <p className="text-sm text-muted-foreground mt-1">
+            Connect wallet to mirror leader trades
+          </p>
+        ) : lastRun && !lastRun.enabled ? (
+          <p className="text-sm text-muted-foreground mt-1">
+            {lastRun.message || 'Copy trading is disabled'}
+          </p>
+        ) : null}
+      </CardHeader>
+
+      <CardContent className="pt-0 space-y-4">
+        {/* Add leader */}
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="copy-leader-address">Leader wallet</Label>
+              <Input
+                id="copy-leader-address"
+                placeholder="Wallet address"
+                value={address}
+                onChange={e => setAddress(e.target.value)}
+              />
+              {addressError && <p className="text-xs text-destructive">{addressError}</p>}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="copy-leader-name">Label (optional)</Label>
+              <Input
+                id="copy-leader-name"
+                placeholder="e.g. Whale #1"
+                value={name}
+                onChange={e => setName(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label>Sizing</Label>
+              <Select value={sizingMode} onValueChange={v => setSizingMode(v as CopySizingMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed_sol">Fixed SOL</SelectItem>
+                  <SelectItem value="leader_percent">% of leader size</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {sizingMode === 'fixed_sol' ? (
+              <div className="space-y-1">
+                <Label htmlFor="copy-fixed-amount">Amount (SOL)</Label>
+                <Input
+                  id="copy-fixed-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={fixedAmount}
+                  onChange={e => setFixedAmount(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="copy-leader-percent">Leader size (%)</Label>
+                <Input
+                  id="copy-leader-percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={leaderPercent}
+                  onChange={e => setLeaderPercent(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="copy-max-per-trade">Max per trade (SOL)</Label>
+              <Input
+                id="copy-max-per-trade"
+                type="number"
+                min="0"
+                step="0.01"
+                value={maxPerTrade}
+                onChange={e => setMaxPerTrade(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch id="copy-sells" checked={copySells} onCheckedChange={setCopySells} />
+              <Label htmlFor="copy-sells" className="text-sm">Mirror sells</Label>
+            </div>
+            <Button size="sm" onClick={handleAdd} disabled={adding || !trimmedAddress || !!addressError}>
+              {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Follow
+            </Button>
+          </div>
+        </div>
+
+        {/* Leaders */}
+        {leadersLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : leaders.length > 0 && (
+          <div className="space-y-2">
+            {leaders.map(leader => (
+              <div key={leader.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {leader.leader_name || `${leader.leader_address.slice(0, 4)}...${leader.leader_address.slice(-4)}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {leader.sizing_mode === 'fixed_sol'
+                      ? `${leader.fixed_amount_sol} SOL`
+                      : `${leader.leader_percent}% of leader`}
+                    {' · '}max {leader.max_per_trade_sol} SOL
+                    {leader.copy_sells ? ' · sells' : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={leader.is_active}
+                    onCheckedChange={checked => updateLeader(leader.id, { is_active: checked })}
+                  />
+                  <Button size="icon" variant="ghost" onClick={() => removeLeader(leader.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Recent copy trades */}
+        {tradesLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : recentTrades.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Copy className="h-12 w-12 mx-auto mb-3 opacity-20" />
+            <p>No copied trades yet</p>
+            <p className="text-sm mt-1">Leader swaps will appear here</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-[300px] pr-4">
+            <div className="space-y-2">
+              {recentTrades.map(trade => (
+                <div key={trade.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={trade.action === 'buy' ? 'default' : 'secondary'} className="text-xs uppercase">
+                        {trade.action}
+                      </Badge>
+                      <span className="text-sm font-medium truncate">{trade.token_symbol}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {trade.action === 'buy'
+                        ? `${trade.amount} SOL`
+                        : `${Math.round(trade.sell_percent ?? 100)}% of holding`}
+                      {' · '}{trade.leader_name || `${trade.leader_address.slice(0, 4)}...`}
+                      {' · '}{formatDistanceToNow(new Date(trade.created_at), { addSuffix: true })}
+                    </p>
+                    {trade.error_message && (
+                      <p className="text-xs text-destructive mt-1">{trade.error_message}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={STATUS_VARIANTS[trade.status] ?? 'outline'} className="text-xs">
+                      {executing === trade.id ? <Loader2 className="h-3 w-3 animate-spin" /> : trade.status}
+                    </Badge>
+                    {trade.tx_id && (
+                      <a
+                        href={`https://solscan.io/tx/${trade.tx_id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-muted-foreground hover:text-foreground"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
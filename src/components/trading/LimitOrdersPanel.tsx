@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLimitOrders } from '@/hooks/useLimitOrders';
+import { useLimitOrderWorker } from '@/hooks/useLimitOrderWorker';
+import { useWallet } from '@/hooks/useWallet';
+import { isValidSolanaAddress } from '@/lib/sniperValidation';
+import { fetchDexScreenerPrices, type DexTokenPriceData } from '@/lib/dexscreener';
+import {
+  ACTIVE_LIMIT_ORDER_STATUSES,
+  LIMIT_ORDER_TYPE_LABELS,
+  describeLimitOrder,
+  formatTriggerPrice,
+  type LimitOrderStatus,
+  type LimitOrderType,
+} from '@/lib/limitOrders';
+import { Target, Plus, X, Loader2, RefreshCw, ExternalLink } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const STATUS_VARIANTS: Record<LimitOrderStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  open: 'outline',
+  triggered: 'secondary',
+  executing: 'secondary',
+  filled: 'default',
+  cancelled: 'secondary',
+  expired: 'secondary',
+  failed: 'destructive',
+};
+
+// Expiry choices in hours (0 = good till cancelled)
+const EXPIRY_OPTIONS = [
+  { value: '0', label: 'Good till cancelled' },
+  { value: '1', label: '1 hour' },
+  { value: '24', label: '24 hours' },
+  { value: '168', label: '7 days' },
+];
+
+export function LimitOrdersPanel() {
+  const { orders, loading, executing, placeOrder, cancelOrder, executeLimitOrder } = useLimitOrders();
+  const { wallet } = useWallet();
+
+  const hasActiveOrders = orders.some(o => ACTIVE_LIMIT_ORDER_STATUSES.includes(o.status));
+  const { lastRun, polling, checkOrders } = useLimitOrderWorker({
+    enabled: wallet.isConnected,
+    hasActiveOrders,
+    orders,
+    executeLimitOrder,
+  });
+
+  const [address, setAddress] = useState('');
+  const [orderType, setOrderType] = useState<LimitOrderType>('limit_below');
+  const [triggerPrice, setTriggerPrice] = useState('');
+  const [amountSol, setAmountSol] = useState('0.1');
+  const [expiryHours, setExpiryHours] = useState('24');
+  const [tokenInfo, setTokenInfo] = useState<DexTokenPriceData | null>(null);
+  const [placing, setPlacing] = useState(false);
+
+  const trimmedAddress = address.trim();
+  const addressError = trimmedAddress && !isValidSolanaAddress(trimmedAddress) ? 'Invalid Solana address' : null;
+
+  // Look up symbol and current price so the trigger can be set relative to it
+  useEffect(() => {
+    setTokenInfo(null);
+    if (!trimmedAddress || addressError) return;
+
+    let cancelled = false;
+    fetchDexScreenerPrices([trimmedAddress]).then(prices => {
+      if (!cancelled) setTokenInfo(prices.get(trimmedAddress) ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [trimmedAddress, addressError]);
+
+  const trigger = parseFloat(triggerPrice);
+  const amount = parseFloat(amountSol);
+  const canPlace = !!trimmedAddress && !addressError && trigger > 0 && amount > 0;
+
+  const handlePlace = async () => {
+    if (!canPlace) return;
+    setPlacing(true);
+    const hours = parseInt(expiryHours, 10);
+    const created = await placeOrder({
+      token_address: trimmedAddress,
+      token_symbol: tokenInfo?.symbol || `${trimmedAddress.slice(0, 4)}…${trimmedAddress.slice(-4)}`,
+      token_name: tokenInfo?.name ?? null,
+      order_type: orderType,
+      trigger_price_usd: trigger,
+      amount_sol: amount,
+      expires_at: hours > 0 ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null,
+    });
+    setPlacing(false);
+    if (created) {
+      setAddress('');
+      setTriggerPrice('');
+    }
+  };
+
+  const recentOrders = orders.slice(0, 25);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-primary" />
+            Limit Orders
+            {hasActiveOrders && (
+              <Badge variant="default" className="ml-2">
+                {orders.filter(o => ACTIVE_LIMIT_ORDER_STATUSES.includes(o.status)).length} active
+              </Badge>
+            )}
+          </CardTitle>
+
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => checkOrders()}
+            disabled={polling || !hasActiveOrders}
+          >
+            <RefreshCw className={`h-4 w-4 ${polling ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        {!wallet.isConnected ? (
+          <p className="text-sm text-muted-foreground mt-1">
+            Connect wallet to watch and fill limit orders
+          </p>
+        ) : lastRun && lastRun.checked > 0 ? (
+          <p className="text-sm text-muted-foreground mt-1">
+            Watching {lastRun.checked} order{lastRun.checked === 1 ? '' : 's'}
+          </p>
+        ) : null}
+      </CardHeader>
+
+      <CardContent className="pt-0 space-y-4">
+        {/* New order */}
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="space-y-1">
+            <Label htmlFor="limit-token-address">Token</Label>
+            <Input
+              id="limit-token-address"
+              placeholder="Token mint address"
+              value={address}
+              onChange={e => setAddress(e.target.value)}
+            />
+            {addressError ? (
+              <p className="text-xs text-destructive">{addressError}</p>
+            ) : tokenInfo ? (
+              <p className="text-xs text-muted-foreground">
+                {tokenInfo.symbol || 'Token'} · now ${formatTriggerPrice(tokenInfo.priceUsd)}
+              </p>
+            ) : null}
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={orderType} onValueChange={v => setOrderType(v as LimitOrderType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="limit_below">{LIMIT_ORDER_TYPE_LABELS.limit_below} (price ≤)</SelectItem>
+                  <SelectItem value="breakout_above">{LIMIT_ORDER_TYPE_LABELS.breakout_above} (price ≥)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="limit-trigger-price">Trigger price (USD)</Label>
+              <Input
+                id="limit-trigger-price"
+                type="number"
+                min="0"
+                step="any"
+                placeholder={tokenInfo ? formatTriggerPrice(tokenInfo.priceUsd) : '0.00'}
+                value={triggerPrice}
+                onChange={e => setTriggerPrice(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="limit-amount">Amount (SOL)</Label>
+              <Input
+                id="limit-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amountSol}
+                onChange={e => setAmountSol(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Expires</Label>
+              <Select value={expiryHours} onValueChange={setExpiryHours}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handlePlace} disabled={placing || !canPlace}>
+              {placing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Place order
+            </Button>
+          </div>
+        </div>
+
+        {/* Orders */}
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : recentOrders.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Target className="h-12 w-12 mx-auto mb-3 opacity-20" />
+            <p>No limit orders yet</p>
+            <p className="text-sm mt-1">Buy a dip or a breakout without watching the chart</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-[300px] pr-4">
+            <div className="space-y-2">
+              {recentOrders.map(order => (
+                <div key={order.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={order.order_type === 'limit_below' ? 'default' : 'secondary'} className="text-xs">
+                        {LIMIT_ORDER_TYPE_LABELS[order.order_type]}
+                      </Badge>
+                      <span className="text-sm font-medium truncate">{order.token_symbol}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {order.amount_sol} SOL when {describeLimitOrder(order)}
+                      {order.last_price_usd ? ` · last $${formatTriggerPrice(order.last_price_usd)}` : ''}
+                      {' · '}
+                      {order.expires_at && ACTIVE_LIMIT_ORDER_STATUSES.includes(order.status)
+                        ? `expires ${formatDistanceToNow(new Date(order.expires_at), { addSuffix: true })}`
+                        : formatDistanceToNow(new Date(order.created_at), { addSuffix: true })}
+                    </p>
+                    {order.error_message && (
+                      <p className="text-xs text-destructive mt-1">{order.error_message}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={STATUS_VARIANTS[order.status] ?? 'outline'} className="text-xs">
+                      {executing === order.id ? <Loader2 className="h-3 w-3 animate-spin" /> : order.status}
+                    </Badge>
+                    {order.tx_hash && (
+                      <a
+                        href={`https://solscan.io/tx/${order.tx_hash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-muted-foreground hover:text-foreground"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    )}
+                    {ACTIVE_LIMIT_ORDER_STATUSES.includes(order.status) && (
+                      <Button size="icon" variant="ghost" onClick={() => cancelOrder(order.id)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
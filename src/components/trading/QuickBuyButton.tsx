@@ -32,7 +32,7 @@ export function QuickBuyButton({
 }: QuickBuyButtonProps) {
   const [selectedAmount, setSelectedAmount] = useState<number | null>(null);
   const [showConfirmation, setShowConfirmation] = useState(false);
-  const { wallet, signAndSendTransaction } = useWallet();
+  const { wallet, signAndSendTransaction, signAllTransactions } = useWallet();
   const { mode } = useAppMode();
   const { toast } = useToast();
 
@@ -123,6 +123,7 @@ export function QuickBuyButton({
           amountSol={selectedAmount || 0.1}
           walletAddress={wallet.address}
           signAndSend={handleSignAndSend}
+          signAll={signAllTransactions}
           onSuccess={handleSuccess}
         />
       )}
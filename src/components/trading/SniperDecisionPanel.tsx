@@ -2,24 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { CheckCircle, XCircle, AlertTriangle, Target, Loader2 } from "lucide-react";
-
-interface SnipeDecision {
-  token: {
-    address: string;
-    symbol: string;
-    name: string;
-    liquidity: number;
-    buyerPosition: number | null;
-    riskScore: number;
-  };
-  approved: boolean;
-  reasons: string[];
-  tradeParams: {
-    amount: number;
-    slippage: number;
-    priority: string;
-  } | null;
-}
+import type { SnipeDecision } from "@/lib/sniperRules";
 
 interface SniperDecisionPanelProps {
   decisions: SnipeDecision[];
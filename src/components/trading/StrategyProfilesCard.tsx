@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Layers, Plus, Trash2, Loader2, ChevronDown, ChevronUp, Play, RefreshCw, CalendarClock, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useStrategyProfiles, type StrategyProfileUpdate } from "@/hooks/useStrategyProfiles";
+import {
+  MAX_SCHEDULE_WINDOWS,
+  WEEKDAY_LABELS,
+  describeSchedule,
+  isValidTimeZone,
+  sanitizeSchedule,
+  type ScheduleWindow,
+  type StrategyProfile,
+} from "@/lib/strategyProfiles";
+import { toast } from "sonner";
+
+const NEW_WINDOW: ScheduleWindow = { days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" };
+
+interface ProfileRowProps {
+  profile: StrategyProfile;
+  isActive: boolean;
+  isScheduled: boolean;
+  busy: boolean;
+  onActivate: (profile: StrategyProfile) => void;
+  onUpdate: (id: string, updates: StrategyProfileUpdate) => void;
+  onUpdateFromCurrent: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function ProfileRow({ profile, isActive, isScheduled, busy, onActivate, onUpdate, onUpdateFromCurrent, onDelete }: ProfileRowProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [timeZone, setTimeZone] = useState(profile.schedule_timezone);
+  const schedule = sanitizeSchedule(profile.schedule);
+
+  const setSchedule = (next: ScheduleWindow[]) => onUpdate(profile.id, { schedule: next });
+  const updateWindow = (index: number, patch: Partial<ScheduleWindow>) =>
+    setSchedule(schedule.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+
+  const toggleDay = (index: number, day: number) => {
+    const days = schedule[index].days;
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b);
+    if (next.length === 0) {
+      toast.error("A window needs at least one day");
+      return;
+    }
+    updateWindow(index, { days: next });
+  };
+
+  return (
+    <div className="rounded-lg border border-border/50 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-foreground truncate flex items-center gap-2">
+            {profile.name}
+            <Badge variant="outline" className="text-xs">v{profile.version}</Badge>
+            {isActive && <Badge className="bg-success/20 text-success border-success/30 text-xs">Active</Badge>}
+            {isScheduled && !isActive && <Badge variant="secondary" className="text-xs">Scheduled now</Badge>}
+            {profile.is_schedule_default && <Badge variant="secondary" className="text-xs">Default</Badge>}
+          </p>
+          <p className="text-xs text-muted-foreground truncate">
+            {describeSchedule(profile.schedule, profile.schedule_timezone)}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant={isActive ? "outline" : "default"} disabled={busy || isActive} onClick={() => onActivate(profile)}>
+            <Play className="h-3 w-3 mr-1" />
+            {isActive ? "Active" : "Activate"}
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => setExpanded((prev) => !prev)}>
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => onDelete(profile.id)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="space-y-3 pt-1">
+          {profile.description && <p className="text-xs text-muted-foreground">{profile.description}</p>}
+
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => onUpdateFromCurrent(profile.id)}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Replace with saved settings
+          </Button>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor={`profile-tz-${profile.id}`}>Time zone</Label>
+              <Input
+                id={`profile-tz-${profile.id}`}
+                value={timeZone}
+                placeholder="e.g. America/New_York"
+                onChange={(e) => setTimeZone(e.target.value)}
+                onBlur={() => {
+                  const trimmed = timeZone.trim();
+                  if (trimmed === profile.schedule_timezone) return;
+                  if (!isValidTimeZone(trimmed)) {
+                    toast.error(`Unknown time zone "${trimmed}"`);
+                    setTimeZone(profile.schedule_timezone);
+                    return;
+                  }
+                  onUpdate(profile.id, { schedule_timezone: trimmed });
+                }}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 pt-5">
+              <Label htmlFor={`profile-default-${profile.id}`} className="text-sm">Use outside scheduled windows</Label>
+              <Switch
+                id={`profile-default-${profile.id}`}
+                checked={profile.is_schedule_default}
+                onCheckedChange={(checked) => onUpdate(profile.id, { is_schedule_default: checked })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {schedule.map((window, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <div className="flex gap-1">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      size="sm"
+                      variant={window.days.includes(day) ? "default" : "outline"}
+                      className="h-7 px-2 text-xs"
+                      onClick={() => toggleDay(index, day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <Input
+                  type="time"
+                  className="w-28 h-8"
+                  value={window.start}
+                  onChange={(e) => e.target.value && updateWindow(index, { start: e.target.value })}
+                />
+                <span className="text-xs text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  className="w-28 h-8"
+                  value={window.end}
+                  onChange={(e) => e.target.value && updateWindow(index, { end: e.target.value })}
+                />
+                <Button size="icon" variant="ghost" onClick={() => setSchedule(schedule.filter((_, i) => i !== index))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={schedule.length >= MAX_SCHEDULE_WINDOWS}
+              onClick={() => setSchedule([...schedule, NEW_WINDOW])}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add window
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              An end time before the start runs past midnight. Where windows overlap, the one that started last wins
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface StrategyProfilesCardProps {
+  onActivated?: () => void;
+}
+
+export function StrategyProfilesCard({ onActivated }: StrategyProfilesCardProps) {
+  const {
+    profiles,
+    activeProfileId,
+    activeProfileVersion,
+    scheduleEnabled,
+    scheduledProfile,
+    activations,
+    loading,
+    busy,
+    createProfile,
+    updateProfile,
+    updateProfileFromCurrent,
+    deleteProfile,
+    activateProfile,
+    setScheduleEnabled,
+  } = useStrategyProfiles({ onActivated });
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const handleCreate = async () => {
+    const created = await createProfile(name, description);
+    if (created) {
+      setName("");
+      setDescription("");
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary" />
+          Strategy Profiles
+        </CardTitle>
+        <CardDescription>
+          Save your sniper and risk settings under a name, switch between them in one click, or let a schedule switch for you
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2 rounded-lg border border-border/50 p-3">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4 text-primary" />
+            <div>
+              <p className="text-sm font-medium text-foreground">Switch on schedule</p>
+              <p className="text-xs text-muted-foreground">
+                {scheduleEnabled
+                  ? scheduledProfile
+                    ? `"${scheduledProfile.name}" is scheduled now`
+                    : "No profile scheduled right now - settings are left as they are"
+                  : "Profiles only change when you activate one"}
+              </p>
+            </div>
+          </div>
+          <Switch checked={scheduleEnabled} onCheckedChange={setScheduleEnabled} />
+        </div>
+
+        {/* Save current settings as a profile */}
+        <div className="space-y-3 rounded-lg border border-border/50 p-3">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="strategy-profile-name">Name</Label>
+              <Input
+                id="strategy-profile-name"
+                placeholder="e.g. Aggressive launch sniping"
+                value={name}
+                maxLength={60}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="strategy-profile-description">Description (optional)</Label>
+              <Input
+                id="strategy-profile-description"
+                placeholder="e.g. Small size, tight stops"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">Captures your saved sniper and risk settings</p>
+            <Button size="sm" onClick={handleCreate} disabled={busy || !name.trim()}>
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Save as profile
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No profiles yet</p>
+        ) : (
+          <div className="space-y-2">
+            {profiles.map((profile) => (
+              <ProfileRow
+                key={profile.id}
+                profile={profile}
+                isActive={profile.id === activeProfileId && profile.version === activeProfileVersion}
+                isScheduled={profile.id === scheduledProfile?.id}
+                busy={busy}
+                onActivate={activateProfile}
+                onUpdate={updateProfile}
+                onUpdateFromCurrent={updateProfileFromCurrent}
+                onDelete={deleteProfile}
+              />
+            ))}
+          </div>
+        )}
+
+        {activations.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Recent switches</p>
+            {activations.slice(0, 5).map((activation) => (
+              <p key={activation.id} className="text-xs text-muted-foreground">
+                {activation.profile_name} v{activation.profile_version} ·{" "}
+                {activation.source === "schedule" ? "schedule" : "manual"} ·{" "}
+                {formatDistanceToNow(new Date(activation.activated_at), { addSuffix: true })}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,7 +21,10 @@ import {
   type TradeParams,
   type PriorityLevel,
   type TransactionStatus as TxStatus,
+  type SignAllTransactions,
+  type SendEvmTransaction,
 } from '@/hooks/useTradeExecution';
+import { EVM_NATIVE_TOKEN, isEvmChain, nativeSymbol, type ExecutionChain } from '@/lib/executionAdapter';
 
 interface TradeConfirmationProps {
   open: boolean;
@@ -32,6 +35,11 @@ interface TradeConfirmationProps {
   amountSol: number;
   walletAddress: string;
   signAndSend: (transaction: VersionedTransaction) => Promise<{ signature: string; success: boolean; error?: string }>;
+  // Enables Jito bundle submission when the user has it switched on
+  signAll?: SignAllTransactions;
+  // EVM tokens: the amount is in the chain's native coin and the swap is sent through this
+  chain?: ExecutionChain;
+  sendEvm?: SendEvmTransaction;
   onSuccess?: (result: { signature: string; positionId?: string }) => void;
 }
 
@@ -51,6 +59,9 @@ export function TradeConfirmation({
   amountSol,
   walletAddress,
   signAndSend,
+  signAll,
+  chain = 'solana',
+  sendEvm,
   onSuccess,
 }: TradeConfirmationProps) {
   const [slippageBps, setSlippageBps] = useState(100); // 1%
@@ -63,28 +74,35 @@ export function TradeConfirmation({
     currentQuote,
     error,
     txSignature,
+    bundle,
     isDemo,
     executeTrade,
     reset,
   } = useTradeExecution();
 
   const isTrading = !['idle', 'confirmed', 'failed'].includes(status);
-  const amountLamports = Math.floor(amountSol * 1e9);
+  const isEvm = isEvmChain(chain);
+  const symbol = nativeSymbol(chain);
+  // 18-decimal wei on EVM, built from gwei so the float never exceeds 2^53
+  const amountBaseUnits = isEvm
+    ? (BigInt(Math.floor(amountSol * 1e9)) * 10n ** 9n).toString()
+    : Math.floor(amountSol * 1e9).toString();
 
   const handleExecute = async () => {
     const params: TradeParams = {
-      inputMint: SOL_MINT,
+      inputMint: isEvm ? EVM_NATIVE_TOKEN : SOL_MINT,
       outputMint: tokenMint,
-      amount: amountLamports.toString(),
+      amount: amountBaseUnits,
       slippageBps,
       priorityLevel,
       tokenSymbol,
       tokenName,
       profitTakePercent: profitTake,
       stopLossPercent: stopLoss,
+      chain,
     };
 
-    const result = await executeTrade(params, walletAddress, signAndSend);
+    const result = await executeTrade(params, walletAddress, signAndSend, signAll, sendEvm);
 
     if (result.success && onSuccess) {
       onSuccess({
@@ -123,8 +141,10 @@ export function TradeConfirmation({
             status={status}
             quote={currentQuote}
             signature={txSignature}
+            bundle={bundle}
             error={error}
             tokenSymbol={tokenSymbol}
+            chain={chain}
             onRetry={handleExecute}
             onClose={handleClose}
           />
@@ -137,7 +157,7 @@ export function TradeConfirmation({
             <div className="bg-muted/50 rounded-lg p-4 space-y-2">
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Amount</span>
-                <span className="font-mono font-medium">{amountSol} SOL</span>
+                <span className="font-mono font-medium">{amountSol} {symbol}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Token</span>
@@ -215,8 +235,8 @@ export function TradeConfirmation({
               </div>
             </div>
 
-            {/* Priority Fee */}
-            <div className="space-y-3">
+            {/* Priority Fee - Solana only, EVM gas is priced by the wallet */}
+            {!isEvm && <div className="space-y-3">
               <Label className="flex items-center gap-2">
                 <Zap className="h-4 w-4" />
                 Transaction Priority
@@ -237,7 +257,7 @@ export function TradeConfirmation({
                   </Button>
                 ))}
               </div>
-            </div>
+            </div>}
 
             {/* Warnings */}
             {slippageBps > 300 && (
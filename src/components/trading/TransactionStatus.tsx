@@ -8,20 +8,25 @@ import {
   Send,
   Wallet,
   Search,
-  Zap
+  Zap,
+  Layers
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import type { TransactionStatus as TxStatus, TradeQuote } from '@/hooks/useTradeExecution';
+import type { TransactionStatus as TxStatus, TradeQuote, JitoBundleState } from '@/hooks/useTradeExecution';
+import type { JitoBundleStatus } from '@/lib/jito';
+import { explorerTxUrl, nativeSymbol, type ExecutionChain } from '@/lib/executionAdapter';
 
 interface TransactionStatusProps {
   status: TxStatus;
   quote?: TradeQuote | null;
   signature?: string | null;
+  bundle?: JitoBundleState | null;
   error?: string | null;
   tokenSymbol?: string;
+  chain?: ExecutionChain;
   onRetry?: () => void;
   onClose?: () => void;
 }
@@ -62,6 +67,12 @@ const STATUS_CONFIG: Record<TxStatus, {
     color: 'text-primary',
     progress: 70,
   },
+  bundling: {
+    label: 'Waiting for Jito bundle...',
+    icon: Layers,
+    color: 'text-primary',
+    progress: 70,
+  },
   confirming: {
     label: 'Confirming transaction...',
     icon: Loader2,
@@ -82,12 +93,21 @@ const STATUS_CONFIG: Record<TxStatus, {
   },
 };
 
+const BUNDLE_STATUS_LABELS: Record<JitoBundleStatus, { label: string; color: string }> = {
+  pending: { label: 'Submitted', color: 'text-primary' },
+  landed: { label: 'Landed', color: 'text-green-500' },
+  fallback: { label: 'Not landed - sent normally', color: 'text-yellow-500' },
+  failed: { label: 'Failed', color: 'text-destructive' },
+};
+
 export function TransactionStatus({
   status,
   quote,
   signature,
+  bundle,
   error,
   tokenSymbol = 'TOKEN',
+  chain = 'solana',
   onRetry,
   onClose,
 }: TransactionStatusProps) {
@@ -162,7 +182,7 @@ export function TransactionStatus({
             <div className="flex justify-between">
               <span className="text-muted-foreground">You pay</span>
               <span className="font-mono font-medium">
-                {quote.inputAmountDecimal.toFixed(4)} SOL
+                {quote.inputAmountDecimal.toFixed(4)} {nativeSymbol(chain)}
               </span>
             </div>
             <div className="flex justify-between">
@@ -193,6 +213,40 @@ export function TransactionStatus({
           </div>
         )}
 
+        {/* Jito Bundle */}
+        {bundle && (
+          <div className="bg-muted/50 rounded-lg p-3 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground flex items-center gap-1">
+                <Layers className="h-3.5 w-3.5" />
+                Jito bundle
+              </span>
+              <span className={cn('font-medium', BUNDLE_STATUS_LABELS[bundle.status].color)}>
+                {BUNDLE_STATUS_LABELS[bundle.status].label}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tip</span>
+              <span className="font-mono">{(bundle.tipLamports / 1e9).toFixed(6)} SOL</span>
+            </div>
+            {bundle.status === 'landed' && bundle.landedSlot && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Landed slot</span>
+                <span className="font-mono">{bundle.landedSlot.toLocaleString()}</span>
+              </div>
+            )}
+            {(bundle.status === 'fallback' || bundle.status === 'failed') && bundle.slotsWaited !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Waited</span>
+                <span className="font-mono">{bundle.slotsWaited} slots</span>
+              </div>
+            )}
+            {bundle.error && bundle.status !== 'landed' && (
+              <p className="text-xs text-muted-foreground break-words">{bundle.error}</p>
+            )}
+          </div>
+        )}
+
         {/* Wallet Prompt */}
         {status === 'awaiting_signature' && (
           <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 text-center">
@@ -233,10 +287,10 @@ export function TransactionStatus({
               variant="outline"
               size="sm"
               className="w-full"
-              onClick={() => window.open(`https://solscan.io/tx/${signature}`, '_blank')}
+              onClick={() => window.open(explorerTxUrl(chain, signature), '_blank')}
             >
               <ExternalLink className="h-4 w-4 mr-2" />
-              View on Solscan
+              View on Explorer
             </Button>
           </div>
         )}
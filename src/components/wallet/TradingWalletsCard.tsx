@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { Wallet, Plus, Trash2, Loader2, ChevronDown, ChevronUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTradingWallets, type TradingWalletUpdate } from "@/hooks/useTradingWallets";
+import { useWallet } from "@/hooks/useWallet";
+import { useSniperSettings } from "@/hooks/useSniperSettings";
+import {
+  sanitizeWalletOverrides,
+  walletDisplayName,
+  type TradingWallet,
+  type WalletSettingsOverrides,
+} from "@/lib/walletProfiles";
+
+type NumericOverrideField = Exclude<
+  keyof WalletSettingsOverrides,
+  "priority" | "trailing_stop_enabled" | "take_profit_ladder" | "category_filters"
+>;
+
+const NUMERIC_FIELDS: { key: NumericOverrideField; label: string; unit: string; step: string }[] = [
+  { key: "trade_amount", label: "Trade amount", unit: "SOL", step: "0.01" },
+  { key: "max_concurrent_trades", label: "Max open positions", unit: "", step: "1" },
+  { key: "profit_take_percentage", label: "Take profit", unit: "%", step: "1" },
+  { key: "stop_loss_percentage", label: "Stop loss", unit: "%", step: "1" },
+  { key: "slippage_tolerance", label: "Slippage", unit: "%", step: "0.5" },
+  { key: "min_liquidity", label: "Min liquidity", unit: "SOL", step: "1" },
+  { key: "max_risk_score", label: "Max risk score", unit: "", step: "1" },
+];
+
+const INHERIT = "inherit";
+
+interface WalletRowProps {
+  wallet: TradingWallet;
+  connected: boolean;
+  baseValues: Partial<Record<NumericOverrideField, number | undefined>>;
+  onUpdate: (id: string, updates: TradingWalletUpdate) => void;
+  onRemove: (id: string) => void;
+}
+
+function WalletRow({ wallet, connected, baseValues, onUpdate, onRemove }: WalletRowProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [label, setLabel] = useState(wallet.label ?? "");
+  const overrides = sanitizeWalletOverrides(wallet.settings_overrides);
+  const overrideCount = Object.keys(overrides).length;
+
+  // Blank input = inherit the shared setting
+  const setOverride = <K extends keyof WalletSettingsOverrides>(key: K, value: WalletSettingsOverrides[K] | undefined) => {
+    const next: WalletSettingsOverrides = { ...overrides };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    onUpdate(wallet.id, { settings_overrides: next });
+  };
+
+  return (
+    <div className="rounded-lg border border-border/50 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-foreground truncate flex items-center gap-2">
+            {walletDisplayName(wallet)}
+            {connected && <Badge className="bg-success/20 text-success border-success/30 text-xs">Connected</Badge>}
+            {overrideCount > 0 && (
+              <Badge variant="outline" className="text-xs">
+                {overrideCount} override{overrideCount !== 1 ? "s" : ""}
+              </Badge>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground font-mono truncate">{wallet.address}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Switch
+            checked={wallet.is_enabled}
+            onCheckedChange={(checked) => onUpdate(wallet.id, { is_enabled: checked })}
+          />
+          <Button size="icon" variant="ghost" onClick={() => setExpanded((prev) => !prev)}>
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => onRemove(wallet.id)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="space-y-3 pt-1">
+          <div className="space-y-1">
+            <Label htmlFor={`wallet-label-${wallet.id}`}>Label</Label>
+            <Input
+              id={`wallet-label-${wallet.id}`}
+              placeholder="e.g. Degen wallet"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              onBlur={() => {
+                if (label.trim() !== (wallet.label ?? "")) onUpdate(wallet.id, { label: label.trim() || null });
+              }}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Leave a field blank to use your sniper settings for this wallet
+          </p>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            {NUMERIC_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`wallet-${wallet.id}-${field.key}`}>
+                  {field.label}
+                  {field.unit && <span className="text-muted-foreground"> ({field.unit})</span>}
+                </Label>
+                <Input
+                  id={`wallet-${wallet.id}-${field.key}`}
+                  type="number"
+                  step={field.step}
+                  placeholder={baseValues[field.key] != null ? String(baseValues[field.key]) : ""}
+                  defaultValue={overrides[field.key] ?? ""}
+                  onBlur={(e) => {
+                    const raw = e.target.value.trim();
+                    const value = raw === "" ? undefined : Number(raw);
+                    if (value === overrides[field.key]) return;
+                    setOverride(field.key, value !== undefined && Number.isFinite(value) ? value : undefined);
+                  }}
+                />
+              </div>
+            ))}
+
+            <div className="space-y-1">
+              <Label>Priority</Label>
+              <Select
+                value={overrides.priority ?? INHERIT}
+                onValueChange={(v) => setOverride("priority", v === INHERIT ? undefined : (v as WalletSettingsOverrides["priority"]))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INHERIT}>Sniper settings</SelectItem>
+                  <SelectItem value="normal">Normal</SelectItem>
+                  <SelectItem value="fast">Fast</SelectItem>
+                  <SelectItem value="turbo">Turbo</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TradingWalletsCard() {
+  const { wallet } = useWallet();
+  const { wallets, loading, addWallet, updateWallet, removeWallet } = useTradingWallets(
+    wallet.network === "solana" ? wallet.address : null
+  );
+  const { settings } = useSniperSettings();
+  const [address, setAddress] = useState("");
+  const [label, setLabel] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const baseValues = Object.fromEntries(
+    NUMERIC_FIELDS.map((field) => [field.key, settings?.[field.key]])
+  ) as Partial<Record<NumericOverrideField, number | undefined>>;
+
+  const handleAdd = async () => {
+    setAdding(true);
+    const created = await addWallet(address, label);
+    setAdding(false);
+    if (created) {
+      setAddress("");
+      setLabel("");
+    }
+  };
+
+  return (
+    <div className="glass rounded-xl p-5 mt-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Wallet className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold text-foreground">Trading Wallets</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Each wallet trades its own strategy and position limit. Positions and trades are tagged with the wallet that made them
+      </p>
+
+      {/* Add wallet */}
+      <div className="space-y-3 rounded-lg border border-border/50 p-3 mb-4">
+        <div className="grid gap-2 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="trading-wallet-address">Solana address</Label>
+            <Input
+              id="trading-wallet-address"
+              placeholder="Wallet public key"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className="font-mono text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trading-wallet-label">Label (optional)</Label>
+            <Input
+              id="trading-wallet-label"
+              placeholder="e.g. Main"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAdd} disabled={adding || !address.trim()}>
+            {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {/* Wallets */}
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : wallets.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No wallets yet - connect a Solana wallet or add one above
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {wallets.map((w) => (
+            <WalletRow
+              key={w.id}
+              wallet={w}
+              connected={w.address === wallet.address}
+              baseValues={baseValues}
+              onUpdate={updateWallet}
+              onRemove={removeWallet}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { Wallet } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ALL_WALLETS,
+  UNASSIGNED_WALLET,
+  walletDisplayName,
+  type TradingWallet,
+  type WalletFilter,
+} from "@/lib/walletProfiles";
+
+interface WalletFilterSelectProps {
+  wallets: Pick<TradingWallet, "address" | "label">[];
+  value: WalletFilter;
+  onChange: (value: WalletFilter) => void;
+  // Offer the "unassigned" option (positions recorded before wallets were tracked)
+  hasUnassigned?: boolean;
+  className?: string;
+}
+
+export function WalletFilterSelect({ wallets, value, onChange, hasUnassigned = false, className }: WalletFilterSelectProps) {
+  // A single wallet and nothing unassigned: every view is the aggregate
+  if (wallets.length < 2 && !hasUnassigned) return null;
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className ?? "w-[180px]"}>
+        <Wallet className="w-4 h-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_WALLETS}>All wallets</SelectItem>
+        {wallets.map((wallet) => (
+          <SelectItem key={wallet.address} value={wallet.address}>
+            {walletDisplayName(wallet)}
+          </SelectItem>
+        ))}
+        {hasUnassigned && <SelectItem value={UNASSIGNED_WALLET}>Untagged</SelectItem>}
+      </SelectContent>
+    </Select>
+  );
+}
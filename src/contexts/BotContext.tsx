@@ -1,25 +1,35 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
-import { useSniperSettings } from '@/hooks/useSniperSettings';
 import { useToast } from '@/hooks/use-toast';
 import { useAppMode } from '@/contexts/AppModeContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_BOT_STATE,
+  botStateFromRow,
+  botStatePatchToRow,
+  parseRunnerSummary,
+  type BotRunnerRow,
+  type BotState,
+  type RunnerSummary,
+  type ScanSpeed,
+} from '@/lib/botRunner';
 
-interface BotState {
-  isBotActive: boolean;
-  autoEntryEnabled: boolean;
-  autoExitEnabled: boolean;
-  scanSpeed: 'slow' | 'normal' | 'fast';
-  isPaused: boolean;
-  lastStartTime: number | null;
-  totalTrades: number;
-  successfulTrades: number;
-  failedTrades: number;
+// What the headless runner last did for this user
+export interface RunnerStatus {
+  walletAddress: string | null;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  lastSummary: RunnerSummary | null;
+  lastError: string | null;
 }
 
 interface BotContextType {
   // State
   botState: BotState;
   isRunning: boolean;
-  
+  // Live mode while signed in: state lives in bot_runner_state and bot-runner trades with the tab closed
+  isServerBacked: boolean;
+  runner: RunnerStatus | null;
+
   // Actions
   startBot: () => void;
   stopBot: () => void;
@@ -27,141 +37,200 @@ interface BotContextType {
   resumeBot: () => void;
   toggleAutoEntry: (enabled: boolean) => void;
   toggleAutoExit: (enabled: boolean) => void;
-  setScanSpeed: (speed: 'slow' | 'normal' | 'fast') => void;
+  setScanSpeed: (speed: ScanSpeed) => void;
+  setRunnerWallet: (address: string | null) => void;
   recordTrade: (success: boolean) => void;
   resetStats: () => void;
 }
 
-const defaultBotState: BotState = {
-  isBotActive: false,
-  autoEntryEnabled: true,
-  autoExitEnabled: true,
-  scanSpeed: 'normal',
-  isPaused: false,
-  lastStartTime: null,
-  totalTrades: 0,
-  successfulTrades: 0,
-  failedTrades: 0,
-};
-
 const BotContext = createContext<BotContextType | undefined>(undefined);
 
 const LOCAL_STORAGE_KEY = 'meme_sniper_bot_state';
 
+function loadLocalBotState(): BotState {
+  try {
+    const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      // Don't restore isBotActive on page reload for safety
+      return { ...DEFAULT_BOT_STATE, ...parsed, isBotActive: false };
+    }
+  } catch (e) {
+    console.error('Failed to load bot state:', e);
+  }
+  return DEFAULT_BOT_STATE;
+}
+
+function runnerStatusFromRow(row: Partial<BotRunnerRow>): RunnerStatus {
+  return {
+    walletAddress: row.wallet_address ?? null,
+    lastRunAt: row.last_run_at ?? null,
+    nextRunAt: row.next_run_at ?? null,
+    lastSummary: parseRunnerSummary(row.last_summary),
+    lastError: row.last_error ?? null,
+  };
+}
+
 export function BotProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const { mode } = useAppMode();
-  
-  // Initialize state from localStorage
-  const [botState, setBotState] = useState<BotState>(() => {
-    try {
-      const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        // Don't restore isBotActive on page reload for safety
-        return { ...defaultBotState, ...parsed, isBotActive: false };
-      }
-    } catch (e) {
-      console.error('Failed to load bot state:', e);
+  // BotProvider sits outside AuthProvider, so it follows the session itself
+  const [userId, setUserId] = useState<string | null>(null);
+  const [botState, setBotState] = useState<BotState>(loadLocalBotState);
+  const [runner, setRunner] = useState<RunnerStatus | null>(null);
+  const botStateRef = useRef(botState);
+  botStateRef.current = botState;
+
+  const isServerBacked = mode === 'live' && !!userId;
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user.id ?? null));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Server-backed: load the runner's row and follow its updates (toggles from other tabs, run results)
+  useEffect(() => {
+    if (!isServerBacked || !userId) {
+      setRunner(null);
+      setBotState(loadLocalBotState());
+      return;
     }
-    return defaultBotState;
-  });
 
-  // Persist state to localStorage (except isBotActive for safety)
+    const applyRow = (row: Partial<BotRunnerRow>) => {
+      setBotState(botStateFromRow(row));
+      setRunner(runnerStatusFromRow(row));
+    };
+
+    supabase
+      .from('bot_runner_state')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Failed to load bot runner state:', error);
+        } else if (data) {
+          applyRow(data);
+        } else {
+          setBotState(DEFAULT_BOT_STATE);
+        }
+      });
+
+    const channel = supabase
+      .channel(`bot_runner_state_${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'bot_runner_state', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') applyRow(payload.new as Partial<BotRunnerRow>);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isServerBacked, userId]);
+
+  // Persist state to localStorage (demo / signed out only - the server row is the source of truth otherwise)
   useEffect(() => {
+    if (isServerBacked) return;
     try {
       const toSave = { ...botState };
       localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(toSave));
     } catch (e) {
       console.error('Failed to save bot state:', e);
     }
-  }, [botState]);
+  }, [botState, isServerBacked]);
+
+  // Local update, mirrored to the runner's row when server-backed
+  const updateBotState = useCallback((patch: Partial<BotState>, extra: Partial<Pick<BotRunnerRow, 'wallet_address' | 'next_run_at'>> = {}) => {
+    setBotState(prev => ({ ...prev, ...patch }));
+    if (!isServerBacked || !userId) return;
+
+    supabase
+      .from('bot_runner_state')
+      .upsert({ user_id: userId, ...botStatePatchToRow(patch), ...extra }, { onConflict: 'user_id' })
+      .then(({ error }) => {
+        if (error) console.error('Failed to save bot runner state:', error);
+      });
+  }, [isServerBacked, userId]);
 
   const startBot = useCallback(() => {
-    setBotState(prev => ({
-      ...prev,
-      isBotActive: true,
-      isPaused: false,
-      lastStartTime: Date.now(),
-    }));
+    // next_run_at = now: the runner picks the bot up on its next tick
+    updateBotState(
+      { isBotActive: true, isPaused: false, lastStartTime: Date.now() },
+      { next_run_at: new Date().toISOString() }
+    );
     toast({
       title: mode === 'demo' ? '🤖 Demo Bot Started' : '🚀 Live Bot Started',
-      description: 'Auto-sniper is now active and scanning for opportunities',
+      description: isServerBacked
+        ? 'Auto-sniper is running server-side - it keeps trading with this tab closed'
+        : 'Auto-sniper is now active and scanning for opportunities',
     });
-  }, [toast, mode]);
+  }, [toast, mode, isServerBacked, updateBotState]);
 
   const stopBot = useCallback(() => {
-    setBotState(prev => ({
-      ...prev,
-      isBotActive: false,
-      isPaused: false,
-    }));
+    updateBotState({ isBotActive: false, isPaused: false });
     toast({
       title: '⏹️ Bot Stopped',
       description: 'Auto-sniper has been deactivated',
     });
-  }, [toast]);
+  }, [toast, updateBotState]);
 
   const pauseBot = useCallback(() => {
-    setBotState(prev => ({
-      ...prev,
-      isPaused: true,
-    }));
+    updateBotState({ isPaused: true });
     toast({
       title: '⏸️ Bot Paused',
       description: 'Scanning paused - positions still monitored',
     });
-  }, [toast]);
+  }, [toast, updateBotState]);
 
   const resumeBot = useCallback(() => {
-    setBotState(prev => ({
-      ...prev,
-      isPaused: false,
-    }));
+    updateBotState({ isPaused: false });
     toast({
       title: '▶️ Bot Resumed',
       description: 'Scanning resumed',
     });
-  }, [toast]);
+  }, [toast, updateBotState]);
 
   const toggleAutoEntry = useCallback((enabled: boolean) => {
-    setBotState(prev => ({
-      ...prev,
-      autoEntryEnabled: enabled,
-    }));
-  }, []);
+    updateBotState({ autoEntryEnabled: enabled });
+  }, [updateBotState]);
 
   const toggleAutoExit = useCallback((enabled: boolean) => {
-    setBotState(prev => ({
-      ...prev,
-      autoExitEnabled: enabled,
-    }));
-  }, []);
+    updateBotState({ autoExitEnabled: enabled });
+  }, [updateBotState]);
 
-  const setScanSpeed = useCallback((speed: 'slow' | 'normal' | 'fast') => {
-    setBotState(prev => ({
-      ...prev,
-      scanSpeed: speed,
-    }));
-  }, []);
+  const setScanSpeed = useCallback((speed: ScanSpeed) => {
+    updateBotState({ scanSpeed: speed });
+  }, [updateBotState]);
+
+  // The wallet the runner evaluates and exits for - the one connected in the Scanner
+  const setRunnerWallet = useCallback((address: string | null) => {
+    if (!isServerBacked || !userId || runner?.walletAddress === address) return;
+    updateBotState({}, { wallet_address: address });
+  }, [isServerBacked, userId, runner?.walletAddress, updateBotState]);
 
   const recordTrade = useCallback((success: boolean) => {
-    setBotState(prev => ({
-      ...prev,
+    const prev = botStateRef.current;
+    updateBotState({
       totalTrades: prev.totalTrades + 1,
       successfulTrades: success ? prev.successfulTrades + 1 : prev.successfulTrades,
       failedTrades: success ? prev.failedTrades : prev.failedTrades + 1,
-    }));
-  }, []);
+    });
+  }, [updateBotState]);
 
   const resetStats = useCallback(() => {
-    setBotState(prev => ({
-      ...prev,
+    updateBotState({
       totalTrades: 0,
       successfulTrades: 0,
       failedTrades: 0,
-    }));
-  }, []);
+    });
+  }, [updateBotState]);
 
   const isRunning = botState.isBotActive && !botState.isPaused;
 
@@ -170,6 +239,8 @@ export function BotProvider({ children }: { children: ReactNode }) {
       value={{
         botState,
         isRunning,
+        isServerBacked,
+        runner,
         startBot,
         stopBot,
         pauseBot,
@@ -177,6 +248,7 @@ export function BotProvider({ children }: { children: ReactNode }) {
         toggleAutoEntry,
         toggleAutoExit,
         setScanSpeed,
+        setRunnerWallet,
         recordTrade,
         resetStats,
       }}
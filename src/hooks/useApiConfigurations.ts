@@ -12,7 +12,8 @@ export type ApiType =
   | 'jupiter'
   | 'raydium'
   | 'rpc_provider'
-  | 'pumpfun';
+  | 'pumpfun'
+  | 'custom_indexer';
 
 export type ApiStatus = 'active' | 'inactive' | 'error' | 'rate_limited';
 
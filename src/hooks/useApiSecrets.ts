@@ -173,6 +173,36 @@ export function useApiSecrets() {
     }
   };
 
+  // Re-encrypts every stored key under the active master key after a new one is added to the keyring
+  const rotateEncryptionKey = async (): Promise<{ success: boolean; message: string }> => {
+    if (!isAdmin) return { success: false, message: 'Admin access required' };
+
+    try {
+      const { data, error } = await supabase.functions.invoke('api-secrets', {
+        body: { action: 'rotate_encryption_key' },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: data.success ? 'Encryption Key Rotated' : 'Rotation Incomplete',
+        description: data.message,
+        variant: data.success ? 'default' : 'destructive',
+      });
+
+      return { success: data.success, message: data.message };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Rotation failed';
+      console.error('Error rotating encryption key:', error);
+      toast({
+        title: 'Error rotating encryption key',
+        description: message,
+        variant: 'destructive',
+      });
+      return { success: false, message };
+    }
+  };
+
   const listRequiredSecrets = async () => {
     if (!isAdmin) return [];
 
@@ -202,6 +232,7 @@ export function useApiSecrets() {
     validateAllSecrets,
     saveApiKey,
     deleteApiKey,
+    rotateEncryptionKey,
     listRequiredSecrets,
   };
 }
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { exportAuditTrailToJSONL } from '@/lib/exportUtils';
+import type { AuditEventType, AuditLevel, AuditLogRecord } from '@/lib/auditTrail';
+
+export interface AuditTrailFilters {
+  search: string;
+  eventType: AuditEventType | 'all';
+  level: AuditLevel | 'all';
+}
+
+// A batch insert arrives as one realtime event per row
+const REALTIME_REFETCH_DELAY_MS = 500;
+const EXPORT_PAGE_SIZE = 1000;
+const EXPORT_MAX_ROWS = 50000;
+
+// Characters that would break a PostgREST or() filter
+const sanitizeSearch = (search: string) => search.replace(/[,()%*\\]/g, ' ').trim();
+
+/**
+ * The user's bot_audit_log, newest first, filtered server-side.
+ * Refetches on realtime inserts, so Edge Function events and flushed activity log entries show up live.
+ */
+export function useAuditTrail(filters: AuditTrailFilters, pageSize = 50) {
+  const [records, setRecords] = useState<AuditLogRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [limit, setLimit] = useState(pageSize);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const refetchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { user } = useAuth();
+
+  const buildQuery = useCallback((userId: string, count?: 'exact') => {
+    let query = supabase
+      .from('bot_audit_log')
+      .select('*', count ? { count } : undefined)
+      .eq('user_id', userId);
+    if (filters.eventType !== 'all') query = query.eq('event_type', filters.eventType);
+    if (filters.level !== 'all') query = query.eq('level', filters.level);
+    const search = sanitizeSearch(filters.search);
+    if (search) {
+      query = query.or(`message.ilike.%${search}%,details.ilike.%${search}%,token_symbol.ilike.%${search}%,token_address.eq.${search}`);
+    }
+    return query;
+  }, [filters.eventType, filters.level, filters.search]);
+
+  const fetchRecords = useCallback(async () => {
+    if (!user) {
+      setRecords([]);
+      setTotal(0);
+      return;
+    }
+    setLoading(true);
+    try {
+      const { data, count, error } = await buildQuery(user.id, 'exact')
+        .order('created_at', { ascending: false })
+        .range(0, limit - 1);
+      if (error) throw error;
+      setRecords((data || []) as AuditLogRecord[]);
+      setTotal(count ?? 0);
+    } catch (err: unknown) {
+      console.error('Failed to fetch audit trail:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, buildQuery, limit]);
+
+  // New filters start again from the first page
+  useEffect(() => {
+    setLimit(pageSize);
+  }, [pageSize, filters.eventType, filters.level, filters.search]);
+
+  useEffect(() => {
+    if (!user) {
+      setRecords([]);
+      return;
+    }
+
+    fetchRecords();
+
+    const channel = supabase
+      .channel(`bot-audit-log-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'bot_audit_log',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          if (refetchTimerRef.current) clearTimeout(refetchTimerRef.current);
+          refetchTimerRef.current = setTimeout(fetchRecords, REALTIME_REFETCH_DELAY_MS);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      if (refetchTimerRef.current) clearTimeout(refetchTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchRecords]);
+
+  const loadMore = useCallback(() => {
+    setLimit((prev) => prev + pageSize);
+  }, [pageSize]);
+
+  // Every matching event (up to EXPORT_MAX_ROWS), paged past the API row limit
+  const exportJsonLines = useCallback(async () => {
+    if (!user) return;
+    setExporting(true);
+    try {
+      const rows: AuditLogRecord[] = [];
+      for (let from = 0; from < EXPORT_MAX_ROWS; from += EXPORT_PAGE_SIZE) {
+        const { data, error } = await buildQuery(user.id)
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .range(from, from + EXPORT_PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as AuditLogRecord[]));
+        if (!data || data.length < EXPORT_PAGE_SIZE) break;
+      }
+      exportAuditTrailToJSONL(rows);
+    } finally {
+      setExporting(false);
+    }
+  }, [user, buildQuery]);
+
+  return {
+    records,
+    total,
+    loading,
+    exporting,
+    hasMore: records.length < total,
+    loadMore,
+    refresh: fetchRecords,
+    exportJsonLines,
+  };
+}
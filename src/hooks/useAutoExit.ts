@@ -1,21 +1,30 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { useNotifications } from '@/hooks/useNotifications';
 import { useWallet } from '@/hooks/useWallet';
 import { addBotLog } from '@/components/scanner/BotActivityLog';
 import { fetchJupiterQuote } from '@/lib/jupiterQuote';
+import { applyPositionSale } from '@/lib/positionAccounting';
+import { LAMPORTS_PER_SOL } from '@/lib/fillReconciler';
+import { EVM_NATIVE_TOKEN, isEvmChain } from '@/lib/executionAdapter';
+import { sendEvmSwap, type SignAndSendResult } from '@/hooks/useTradeExecution';
+
+export type ExitAction = 'hold' | 'take_profit' | 'stop_loss' | 'trailing_stop' | 'ladder_take_profit';
 
 export interface ExitResult {
   positionId: string;
   symbol: string;
-  action: 'hold' | 'take_profit' | 'stop_loss';
+  action: ExitAction;
   currentPrice: number;
   profitLossPercent: number;
   executed: boolean;
   txId?: string;
   error?: string;
   pendingSignature?: boolean;
+  // Partial exits (ladder rungs): fraction of current holdings to sell, rungs filled, size left after
+  sellFraction?: number;
+  ladderSteps?: number[];
+  remainingFraction?: number;
 }
 
 export interface AutoExitSummary {
@@ -23,9 +32,27 @@ export interface AutoExitSummary {
   holding: number;
   takeProfitTriggered: number;
   stopLossTriggered: number;
+  trailingStopTriggered?: number;
+  ladderTakeProfitTriggered?: number;
   executed: number;
 }
 
+const EXIT_ACTION_LABELS: Record<Exclude<ExitAction, 'hold'>, string> = {
+  take_profit: '💰 TAKE PROFIT',
+  stop_loss: '🛑 STOP LOSS',
+  trailing_stop: '📉 TRAILING STOP',
+  ladder_take_profit: '🪜 LADDER TAKE PROFIT',
+};
+
+function exitActionLabel(action: ExitAction): string {
+  return action === 'hold' ? 'HOLD' : EXIT_ACTION_LABELS[action];
+}
+
+// Partial exits sell a fraction of holdings and keep the position open
+function isPartialExit(result: ExitResult): boolean {
+  return typeof result.sellFraction === 'number' && result.sellFraction > 0 && result.sellFraction < 1;
+}
+
 export function useAutoExit() {
   const [checking, setChecking] = useState(false);
   const [lastCheck, setLastCheck] = useState<string | null>(null);
@@ -34,8 +61,7 @@ export function useAutoExit() {
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const isRunningRef = useRef(false);
   const { toast } = useToast();
-  const { addNotification } = useNotifications();
-  const { wallet, signAndSendTransaction, refreshBalance } = useWallet();
+  const { wallet, signAndSendTransaction, sendEvmTransaction, refreshBalance } = useWallet();
 
   // Execute a single pending exit via Jupiter
   const executePendingExit = useCallback(async (result: ExitResult): Promise<boolean> => {
@@ -48,7 +74,8 @@ export function useAutoExit() {
       return false;
     }
 
-    const actionLabel = result.action === 'take_profit' ? '💰 TAKE PROFIT' : '🛑 STOP LOSS';
+    const actionLabel = exitActionLabel(result.action);
+    const partial = isPartialExit(result);
     // Note: At this point we don't have position details yet, so we use symbol
     // Full token name will be logged after DB fetch
     addBotLog({
@@ -56,7 +83,7 @@ export function useAutoExit() {
       category: 'exit',
       message: `${actionLabel} triggered: ${result.symbol}`,
       tokenSymbol: result.symbol,
-      details: `🪙 Token: ${result.symbol}\nCurrent P&L: ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(2)}% | Price: $${result.currentPrice.toFixed(8)}`,
+      details: `🪙 Token: ${result.symbol}\nCurrent P&L: ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(2)}% | Price: $${result.currentPrice.toFixed(8)}${partial ? `\nSelling ${((result.sellFraction ?? 1) * 100).toFixed(1)}% of holdings` : ''}`,
     });
 
     try {
@@ -72,200 +99,250 @@ export function useAutoExit() {
         return false;
       }
 
-      // Build Jupiter swap transaction for the sell.
-      // CRITICAL FIX: Always sell the on-chain balance, not the DB amount.
-      const SOL_MINT = 'So11111111111111111111111111111111111111112';
-
-      const toBaseUnits = (amountDecimal: number, decimals: number): string => {
-        const fixed = Math.max(0, amountDecimal).toFixed(decimals);
-        const [whole, frac = ''] = fixed.split('.');
-        return BigInt(`${whole}${frac.padEnd(decimals, '0')}`).toString();
-      };
-
-      let tokenAmountToSell = Number(position.amount);
-      let tokenDecimals = 6;
-      try {
-        const { data: meta, error: metaError } = await supabase.functions.invoke('token-metadata', {
-          body: { mint: position.token_address, owner: wallet.address },
-        });
-        const bal = Number((meta as any)?.balanceUi);
-        const dec = Number((meta as any)?.decimals);
-        if (!metaError && Number.isFinite(dec) && dec >= 0) tokenDecimals = dec;
-        if (!metaError && Number.isFinite(bal) && bal > 0) tokenAmountToSell = bal;
-      } catch {
-        // ignore
-      }
-
-      if (!Number.isFinite(tokenAmountToSell) || tokenAmountToSell <= 0) {
-        toast({
-          title: 'Nothing to Sell',
-          description: `No on-chain balance found for ${result.symbol}.`,
-          variant: 'destructive',
-        });
+      // Only the wallet holding the tokens can sign their sale (re-triggered every tick, so no bot log)
+      if (position.wallet_address && position.wallet_address !== wallet.address) {
+        console.log(`[AutoExit] ${result.symbol} is held by ${position.wallet_address} - connect it to sign the exit`);
         return false;
       }
 
-      const amountInSmallestUnit = toBaseUnits(tokenAmountToSell, tokenDecimals);
-      
-      // Get Jupiter quote with automatic retry on rate limits
       // Exit slippage is intentionally higher (15%) to ensure positions can close
       const EXIT_SLIPPAGE_BPS = 1500; // 15% - higher for exits to ensure execution
-      
-      let quote: any = null;
-      let swapSource: 'jupiter' | 'raydium' = 'jupiter';
-      
-      // Try Jupiter first
-      const quoteResult = await fetchJupiterQuote({
-        inputMint: position.token_address,
-        outputMint: SOL_MINT,
-        amount: amountInSmallestUnit,
-        slippageBps: EXIT_SLIPPAGE_BPS,
-      });
+      let heldAmount: number;
+      let tokenAmountToSell: number;
+      let signResult: SignAndSendResult;
+      // Native coin (SOL / ETH / BNB) the sell is quoted to return
+      let quotedProceeds: number | null = null;
+
+      if (isEvmChain(position.chain)) {
+        // EVM exits: trade-execution reads the on-chain balance and builds the router sell
+        const sellFraction = partial ? result.sellFraction ?? 1 : 1;
+        const { data, error: fnError } = await supabase.functions.invoke('trade-execution', {
+          body: {
+            action: 'execute',
+            chain: position.chain,
+            inputMint: position.token_address,
+            outputMint: EVM_NATIVE_TOKEN,
+            sellFraction,
+            slippageBps: EXIT_SLIPPAGE_BPS,
+            userPublicKey: wallet.address,
+          },
+        });
+        if (fnError || data?.error) {
+          toast({
+            title: 'Exit Failed',
+            description: data?.error || fnError?.message || `Could not build sell for ${result.symbol}`,
+            variant: 'destructive',
+          });
+          return false;
+        }
 
-      if (quoteResult.ok === true) {
-        quote = quoteResult.quote;
-        swapSource = 'jupiter';
+        tokenAmountToSell = data.quote.inputAmountDecimal;
+        heldAmount = tokenAmountToSell / sellFraction;
+        quotedProceeds = Number(data.quote.outputAmountDecimal) || null;
+        signResult = await sendEvmSwap(data.transactions, sendEvmTransaction);
       } else {
-        // Jupiter failed - try Raydium as fallback
-        addBotLog({
-          level: 'info',
-          category: 'exit',
-          message: `⚡ Jupiter unavailable for ${result.symbol}, trying Raydium...`,
-          tokenSymbol: result.symbol,
-          details: quoteResult.kind === 'RATE_LIMITED' ? 'Jupiter rate limited' : 'No Jupiter route',
+        // Build Jupiter swap transaction for the sell.
+        // CRITICAL FIX: Always sell the on-chain balance, not the DB amount.
+        const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+        const toBaseUnits = (amountDecimal: number, decimals: number): string => {
+          const fixed = Math.max(0, amountDecimal).toFixed(decimals);
+          const [whole, frac = ''] = fixed.split('.');
+          return BigInt(`${whole}${frac.padEnd(decimals, '0')}`).toString();
+        };
+
+        tokenAmountToSell = Number(position.amount);
+        let tokenDecimals = 6;
+        try {
+          const { data: meta, error: metaError } = await supabase.functions.invoke('token-metadata', {
+            body: { mint: position.token_address, owner: wallet.address },
+          });
+          const bal = Number((meta as any)?.balanceUi);
+          const dec = Number((meta as any)?.decimals);
+          if (!metaError && Number.isFinite(dec) && dec >= 0) tokenDecimals = dec;
+          if (!metaError && Number.isFinite(bal) && bal > 0) tokenAmountToSell = bal;
+        } catch {
+          // ignore
+        }
+
+        // Ladder rungs only sell part of what we hold
+        heldAmount = tokenAmountToSell;
+        if (partial) {
+          tokenAmountToSell = heldAmount * (result.sellFraction ?? 1);
+        }
+
+        if (!Number.isFinite(tokenAmountToSell) || tokenAmountToSell <= 0) {
+          toast({
+            title: 'Nothing to Sell',
+            description: `No on-chain balance found for ${result.symbol}.`,
+            variant: 'destructive',
+          });
+          return false;
+        }
+
+        const amountInSmallestUnit = toBaseUnits(tokenAmountToSell, tokenDecimals);
+      
+        // Get Jupiter quote with automatic retry on rate limits
+      
+        let quote: any = null;
+        let swapSource: 'jupiter' | 'raydium' = 'jupiter';
+      
+        // Try Jupiter first
+        const quoteResult = await fetchJupiterQuote({
+          inputMint: position.token_address,
+          outputMint: SOL_MINT,
+          amount: amountInSmallestUnit,
+          slippageBps: EXIT_SLIPPAGE_BPS,
         });
+
+        if (quoteResult.ok === true) {
+          quote = quoteResult.quote;
+          swapSource = 'jupiter';
+        } else {
+          // Jupiter failed - try Raydium as fallback
+          addBotLog({
+            level: 'info',
+            category: 'exit',
+            message: `⚡ Jupiter unavailable for ${result.symbol}, trying Raydium...`,
+            tokenSymbol: result.symbol,
+            details: quoteResult.kind === 'RATE_LIMITED' ? 'Jupiter rate limited' : 'No Jupiter route',
+          });
         
-        try {
-          const raydiumUrl = `https://transaction-v1.raydium.io/compute/swap-base-in?inputMint=${position.token_address}&outputMint=${SOL_MINT}&amount=${amountInSmallestUnit}&slippageBps=${EXIT_SLIPPAGE_BPS}&txVersion=V0`;
-          const raydiumRes = await fetch(raydiumUrl, { signal: AbortSignal.timeout(10000) });
+          try {
+            const raydiumUrl = `https://transaction-v1.raydium.io/compute/swap-base-in?inputMint=${position.token_address}&outputMint=${SOL_MINT}&amount=${amountInSmallestUnit}&slippageBps=${EXIT_SLIPPAGE_BPS}&txVersion=V0`;
+            const raydiumRes = await fetch(raydiumUrl, { signal: AbortSignal.timeout(10000) });
           
-          if (raydiumRes.ok) {
-            const raydiumData = await raydiumRes.json();
-            if (raydiumData?.success) {
-              quote = raydiumData;
-              swapSource = 'raydium';
-              addBotLog({
-                level: 'success',
-                category: 'exit',
-                message: `✅ Raydium route found for ${result.symbol}`,
-                tokenSymbol: result.symbol,
+            if (raydiumRes.ok) {
+              const raydiumData = await raydiumRes.json();
+              if (raydiumData?.success) {
+                quote = raydiumData;
+                swapSource = 'raydium';
+                addBotLog({
+                  level: 'success',
+                  category: 'exit',
+                  message: `✅ Raydium route found for ${result.symbol}`,
+                  tokenSymbol: result.symbol,
+                });
+              }
+            }
+          } catch (raydiumErr) {
+            console.error('[AutoExit] Raydium fallback error:', raydiumErr);
+          }
+        }
+      
+        // If still no quote, report failure
+        if (!quote) {
+          if (quoteResult.ok === false) {
+            if (quoteResult.kind === 'NO_ROUTE') {
+              toast({
+                title: 'No Route Available',
+                description: `Cannot sell ${result.symbol} - no Jupiter or Raydium route`,
+                variant: 'destructive',
+              });
+            } else if (quoteResult.kind === 'RATE_LIMITED') {
+              toast({
+                title: 'Rate Limited',
+                description: 'Jupiter API is busy. Auto-retry in next cycle.',
+                variant: 'destructive',
+              });
+            } else {
+              toast({
+                title: 'Exit Failed',
+                description: quoteResult.message || 'Could not get quote for sell',
+                variant: 'destructive',
               });
             }
           }
-        } catch (raydiumErr) {
-          console.error('[AutoExit] Raydium fallback error:', raydiumErr);
+          return false;
         }
-      }
+
+        const quotedLamports = Number(swapSource === 'jupiter' ? quote.outAmount : quote.data?.outputAmount);
+        quotedProceeds = quotedLamports > 0 ? quotedLamports / LAMPORTS_PER_SOL : null;
+
+        // Build swap transaction based on source
+        let txBytes: Uint8Array;
       
-      // If still no quote, report failure
-      if (!quote) {
-        if (quoteResult.ok === false) {
-          if (quoteResult.kind === 'NO_ROUTE') {
+        if (swapSource === 'jupiter') {
+          // Jupiter swap
+          const swapRes = await fetch('https://lite-api.jup.ag/swap/v1/swap', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              quoteResponse: quote,
+              userPublicKey: wallet.address,
+              wrapAndUnwrapSol: true,
+              dynamicComputeUnitLimit: true,
+              dynamicSlippage: true,
+              priorityLevelWithMaxLamports: { maxLamports: 5000000, priorityLevel: 'high' },
+            }),
+          });
+
+          if (!swapRes.ok) {
             toast({
-              title: 'No Route Available',
-              description: `Cannot sell ${result.symbol} - no Jupiter or Raydium route`,
+              title: 'Swap Build Failed',
+              description: 'Could not build Jupiter swap transaction',
               variant: 'destructive',
             });
-          } else if (quoteResult.kind === 'RATE_LIMITED') {
+            return false;
+          }
+
+          const swapData = await swapRes.json();
+        
+          if (!swapData.swapTransaction) {
             toast({
-              title: 'Rate Limited',
-              description: 'Jupiter API is busy. Auto-retry in next cycle.',
+              title: 'Transaction Error',
+              description: 'Jupiter did not return transaction data',
               variant: 'destructive',
             });
-          } else {
+            return false;
+          }
+        
+          txBytes = Uint8Array.from(atob(swapData.swapTransaction), c => c.charCodeAt(0));
+        } else {
+          // Raydium swap
+          const swapRes = await fetch('https://transaction-v1.raydium.io/transaction/swap-base-in', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              swapResponse: quote,
+              wallet: wallet.address,
+              txVersion: 'V0',
+              wrapSol: false,
+              unwrapSol: true,
+              computeUnitPriceMicroLamports: '500000',
+            }),
+          });
+
+          if (!swapRes.ok) {
             toast({
-              title: 'Exit Failed',
-              description: quoteResult.message || 'Could not get quote for sell',
+              title: 'Swap Build Failed',
+              description: 'Could not build Raydium swap transaction',
               variant: 'destructive',
             });
+            return false;
           }
-        }
-        return false;
-      }
-
-      // Build swap transaction based on source
-      let txBytes: Uint8Array;
-      
-      if (swapSource === 'jupiter') {
-        // Jupiter swap
-        const swapRes = await fetch('https://lite-api.jup.ag/swap/v1/swap', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            quoteResponse: quote,
-            userPublicKey: wallet.address,
-            wrapAndUnwrapSol: true,
-            dynamicComputeUnitLimit: true,
-            dynamicSlippage: true,
-            priorityLevelWithMaxLamports: { maxLamports: 5000000, priorityLevel: 'high' },
-          }),
-        });
-
-        if (!swapRes.ok) {
-          toast({
-            title: 'Swap Build Failed',
-            description: 'Could not build Jupiter swap transaction',
-            variant: 'destructive',
-          });
-          return false;
-        }
 
-        const swapData = await swapRes.json();
-        
-        if (!swapData.swapTransaction) {
-          toast({
-            title: 'Transaction Error',
-            description: 'Jupiter did not return transaction data',
-            variant: 'destructive',
-          });
-          return false;
-        }
+          const swapData = await swapRes.json();
         
-        txBytes = Uint8Array.from(atob(swapData.swapTransaction), c => c.charCodeAt(0));
-      } else {
-        // Raydium swap
-        const swapRes = await fetch('https://transaction-v1.raydium.io/transaction/swap-base-in', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            swapResponse: quote,
-            wallet: wallet.address,
-            txVersion: 'V0',
-            wrapSol: false,
-            unwrapSol: true,
-            computeUnitPriceMicroLamports: '500000',
-          }),
-        });
-
-        if (!swapRes.ok) {
-          toast({
-            title: 'Swap Build Failed',
-            description: 'Could not build Raydium swap transaction',
-            variant: 'destructive',
-          });
-          return false;
-        }
-
-        const swapData = await swapRes.json();
+          if (!swapData.success || !swapData.data?.transaction) {
+            toast({
+              title: 'Transaction Error',
+              description: swapData.msg || 'Raydium did not return transaction data',
+              variant: 'destructive',
+            });
+            return false;
+          }
         
-        if (!swapData.success || !swapData.data?.transaction) {
-          toast({
-            title: 'Transaction Error',
-            description: swapData.msg || 'Raydium did not return transaction data',
-            variant: 'destructive',
-          });
-          return false;
+          txBytes = Uint8Array.from(atob(swapData.data.transaction), c => c.charCodeAt(0));
         }
-        
-        txBytes = Uint8Array.from(atob(swapData.data.transaction), c => c.charCodeAt(0));
-      }
 
-      // Decode and sign transaction
-      const { VersionedTransaction } = await import('@solana/web3.js');
-      const transaction = VersionedTransaction.deserialize(txBytes);
+        // Decode and sign transaction
+        const { VersionedTransaction } = await import('@solana/web3.js');
+        const transaction = VersionedTransaction.deserialize(txBytes);
 
-      // Sign and send via wallet
-      const signResult = await signAndSendTransaction(transaction);
+        // Sign and send via wallet
+        signResult = await signAndSendTransaction(transaction);
+      }
 
       if (!signResult.success) {
         toast({
@@ -276,11 +353,16 @@ export function useAutoExit() {
         return false;
       }
 
+      // SOL per token the sell was quoted at - result.currentPrice is USD
+      const quotedPriceSol = quotedProceeds !== null && tokenAmountToSell > 0 ? quotedProceeds / tokenAmountToSell : null;
+
       // Confirm transaction
       const { data: confirmData, error: confirmError } = await supabase.functions.invoke('confirm-transaction', {
         body: {
           signature: signResult.signature,
           action: 'sell',
+          chain: position.chain,
+          quotedPrice: quotedPriceSol ?? undefined,
         },
       });
 
@@ -289,16 +371,18 @@ export function useAutoExit() {
         // Still mark as executed since tx was broadcast
       }
 
-      // Verify remaining balance before closing
+      // Verify remaining balance before closing (Solana only - EVM trusts the quoted amount)
       let remainingBalance: number | null = null;
-      try {
-        const { data: meta2 } = await supabase.functions.invoke('token-metadata', {
-          body: { mint: position.token_address, owner: wallet.address },
-        });
-        const bal = Number((meta2 as any)?.balanceUi);
-        if (Number.isFinite(bal)) remainingBalance = bal;
-      } catch {
-        // ignore
+      if (!isEvmChain(position.chain)) {
+        try {
+          const { data: meta2 } = await supabase.functions.invoke('token-metadata', {
+            body: { mint: position.token_address, owner: wallet.address },
+          });
+          const bal = Number((meta2 as any)?.balanceUi);
+          if (Number.isFinite(bal)) remainingBalance = bal;
+        } catch {
+          // ignore
+        }
       }
 
       // FIXED: Use percentage-based threshold to avoid false "Partial Exit" scenarios
@@ -307,26 +391,67 @@ export function useAutoExit() {
       const remainingPercent = tokenAmountToSell > 0 && remainingBalance !== null 
         ? (remainingBalance / tokenAmountToSell) * 100 
         : 0;
-      const shouldClose = remainingBalance === null || remainingBalance <= DUST || remainingPercent <= 1;
+      const shouldClose = !partial && (remainingBalance === null || remainingBalance <= DUST || remainingPercent <= 1);
+      const executedLadderSteps = [
+        ...((position.executed_ladder_steps as number[] | null) || []),
+        ...(result.ladderSteps || []),
+      ];
+
+      // Realized P&L for the sold tokens, against their share of the cost basis
+      const soldAmount = remainingBalance !== null
+        ? Math.max(0, heldAmount - remainingBalance)
+        : tokenAmountToSell;
+      const soldForSale = shouldClose ? heldAmount : soldAmount;
+      // Executed fill from confirm-transaction (Solana), else the quote
+      const executedFill = confirmData?.fill as { solAmount: number; priceSol: number } | null | undefined;
+      const exitPriceSol = executedFill?.priceSol ?? quotedPriceSol;
+      const proceedsSol = executedFill?.solAmount ?? (exitPriceSol !== null ? exitPriceSol * soldForSale : null);
+      const sale = applyPositionSale(
+        { ...position, amount: heldAmount },
+        { soldAmount: soldForSale, exitPrice: result.currentPrice, proceedsSol }
+      );
 
-      await supabase
-        .from('positions')
-        .update({
-          ...(shouldClose
-            ? {
-                status: 'closed',
-                closed_at: new Date().toISOString(),
-              }
-            : {
-                status: 'open',
-                amount: remainingBalance,
-              }),
-          exit_reason: result.action,
-          exit_price: result.currentPrice,
-          exit_tx_id: signResult.signature,
-          profit_loss_percent: result.profitLossPercent,
-        })
-        .eq('id', result.positionId);
+      if (partial) {
+        // Ladder rung filled - keep the rest of the position open
+        const remainingAmount = remainingBalance ?? Math.max(0, heldAmount - tokenAmountToSell);
+        await supabase
+          .from('positions')
+          .update({
+            status: 'open',
+            amount: remainingAmount,
+            current_value: remainingAmount * result.currentPrice,
+            remaining_fraction: result.remainingFraction ?? sale.remainingFraction,
+            realized_pnl_sol: sale.totalRealizedPnlSol,
+            profit_loss_value: sale.remainingCostBasisSol * (result.profitLossPercent / 100),
+            executed_ladder_steps: executedLadderSteps,
+          })
+          .eq('id', result.positionId);
+      } else {
+        await supabase
+          .from('positions')
+          .update({
+            ...(shouldClose
+              ? {
+                  status: 'closed',
+                  closed_at: new Date().toISOString(),
+                  remaining_fraction: 0,
+                  realized_pnl_sol: sale.totalRealizedPnlSol,
+                  profit_loss_value: sale.totalRealizedPnlSol,
+                }
+              : {
+                  status: 'open',
+                  amount: remainingBalance,
+                  remaining_fraction: sale.remainingFraction,
+                  realized_pnl_sol: sale.totalRealizedPnlSol,
+                }),
+            exit_reason: result.action,
+            exit_price: result.currentPrice,
+            exit_tx_id: signResult.signature,
+            profit_loss_percent: result.profitLossPercent,
+            executed_ladder_steps: executedLadderSteps,
+          })
+          .eq('id', result.positionId);
+      }
 
       // Log sell to trade_history
       const { data: { user } } = await supabase.auth.getUser();
@@ -335,20 +460,34 @@ export function useAutoExit() {
           .from('trade_history')
           .insert({
             user_id: user.id,
+            position_id: result.positionId,
             token_address: position.token_address,
             token_symbol: position.token_symbol,
             token_name: position.token_name,
             trade_type: 'sell',
-            amount: tokenAmountToSell,
-            price_sol: result.currentPrice,
-            price_usd: null,
+            amount: sale.soldAmount,
+            price_sol: exitPriceSol,
+            price_usd: result.currentPrice,
             status: 'confirmed',
             tx_hash: signResult.signature,
+            realized_pnl_sol: sale.realizedPnlSol,
+          });
+
+        await supabase
+          .from('position_fills')
+          .insert({
+            user_id: user.id,
+            position_id: result.positionId,
+            side: 'sell',
+            amount: sale.soldAmount,
+            sol_amount: proceedsSol ?? 0,
+            price: exitPriceSol,
+            price_usd: result.currentPrice,
+            tx_hash: signResult.signature,
           });
       }
 
       // Success notification & detailed log with position data
-      const exitLabel = result.action === 'take_profit' ? '💰 TAKE PROFIT' : '🛑 STOP LOSS';
       const pnlText = result.profitLossPercent >= 0 ? `+${result.profitLossPercent.toFixed(2)}%` : `${result.profitLossPercent.toFixed(2)}%`;
       const entryPrice = position.entry_price_usd || position.entry_price || 0;
       const exitValue = result.currentPrice * tokenAmountToSell;
@@ -357,17 +496,18 @@ export function useAutoExit() {
       const tokenName = position.token_name || result.symbol;
       
       addBotLog({
-        level: result.action === 'take_profit' ? 'success' : 'warning',
+        level: result.action === 'stop_loss' ? 'warning' : 'success',
         category: 'exit',
-        message: `✅ SELL FILLED: ${tokenName} (${result.symbol})`,
+        eventType: 'trade',
+        message: `✅ ${partial ? 'PARTIAL SELL' : 'SELL'} FILLED: ${tokenName} (${result.symbol})`,
         tokenSymbol: result.symbol,
-        details: `🪙 Token: ${tokenName} (${result.symbol})\n📊 Entry: $${entryPrice.toFixed(8)} → Exit: $${result.currentPrice.toFixed(8)}\nP&L: ${pnlText} ($${pnlValue >= 0 ? '+' : ''}${pnlValue.toFixed(4)}) | Reason: ${result.action.replace('_', ' ')}\nTokens Sold: ${tokenAmountToSell.toLocaleString()} | Exit Value: $${exitValue.toFixed(4)}\n🔗 TX: ${signResult.signature}`,
+        details: `🪙 Token: ${tokenName} (${result.symbol})\n📊 Entry: $${entryPrice.toFixed(8)} → Exit: $${result.currentPrice.toFixed(8)}\nP&L: ${pnlText} ($${pnlValue >= 0 ? '+' : ''}${pnlValue.toFixed(4)}) | Reason: ${result.action.replace(/_/g, ' ')}\nTokens Sold: ${tokenAmountToSell.toLocaleString()} | Exit Value: $${exitValue.toFixed(4)}\n🔗 TX: ${signResult.signature}`,
       });
 
       toast({
-        title: result.action === 'take_profit' ? '💰 Take Profit Executed!' : '🛑 Stop Loss Executed!',
-        description: `${result.symbol} sold at ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(1)}%`,
-        variant: result.action === 'take_profit' ? 'default' : 'destructive',
+        title: `${actionLabel} Executed!`,
+        description: `${partial ? `${((result.sellFraction ?? 1) * 100).toFixed(0)}% of ` : ''}${result.symbol} sold at ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(1)}%`,
+        variant: result.action === 'stop_loss' ? 'destructive' : 'default',
       });
 
       refreshBalance();
@@ -380,9 +520,10 @@ export function useAutoExit() {
       addBotLog({
         level: 'error',
         category: 'exit',
+        eventType: 'trade',
         message: `❌ SELL FAILED: ${result.symbol}`,
         tokenSymbol: result.symbol,
-        details: `🪙 Token: ${result.symbol}\nReason: ${error.message || 'Unknown error'}\nPrice at failure: $${result.currentPrice.toFixed(8)} | P&L: ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(2)}%\nAttempted: ${result.action.replace('_', ' ')} exit`,
+        details: `🪙 Token: ${result.symbol}\nReason: ${error.message || 'Unknown error'}\nPrice at failure: $${result.currentPrice.toFixed(8)} | P&L: ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(2)}%\nAttempted: ${result.action.replace(/_/g, ' ')} exit`,
       });
 
       toast({
@@ -392,7 +533,7 @@ export function useAutoExit() {
       });
       return false;
     }
-  }, [wallet, signAndSendTransaction, refreshBalance, toast]);
+  }, [wallet, signAndSendTransaction, sendEvmTransaction, refreshBalance, toast]);
 
   const checkExitConditions = useCallback(async (executeExits: boolean = true): Promise<{
     results: ExitResult[];
@@ -460,7 +601,7 @@ export function useAutoExit() {
       
       // Log illiquid position warnings
       noRouteExits.forEach((result) => {
-        const actionLabel = result.action === 'take_profit' ? '💰 TAKE PROFIT' : '🛑 STOP LOSS';
+        const actionLabel = exitActionLabel(result.action);
         addBotLog({
           level: 'warning',
           category: 'exit',
@@ -491,7 +632,7 @@ export function useAutoExit() {
             category: 'exit',
             message: `🔐 Requesting wallet signature: ${exitResult.symbol}`,
             tokenSymbol: exitResult.symbol,
-            details: `${exitResult.action === 'take_profit' ? 'Take Profit' : 'Stop Loss'} triggered - awaiting user confirmation\nP&L: ${exitResult.profitLossPercent >= 0 ? '+' : ''}${exitResult.profitLossPercent.toFixed(2)}%`,
+            details: `${exitActionLabel(exitResult.action)} triggered - awaiting user confirmation\nP&L: ${exitResult.profitLossPercent >= 0 ? '+' : ''}${exitResult.profitLossPercent.toFixed(2)}%`,
           });
           
           const success = await executePendingExit(exitResult);
@@ -502,8 +643,10 @@ export function useAutoExit() {
         setPendingExits([]);
       }
 
-      // Notify on exits (only for non-force-closed)
-      if ((summary.takeProfitTriggered || 0) > 0 || (summary.stopLossTriggered || 0) > 0) {
+      // Toast on exits (auto-exit already saved the notifications server-side)
+      const exitsTriggered = (summary.takeProfitTriggered || 0) + (summary.stopLossTriggered || 0) +
+        (summary.trailingStopTriggered || 0) + (summary.ladderTakeProfitTriggered || 0);
+      if (exitsTriggered > 0) {
         exitResults.forEach((result) => {
           // Skip force-closed - already handled above
           if (result.txId === 'force_closed_no_route') return;
@@ -513,23 +656,17 @@ export function useAutoExit() {
               title: '💰 Take Profit Hit!',
               description: `${result.symbol} closed at +${result.profitLossPercent.toFixed(1)}%`,
             });
-            addNotification({
-              title: `Take Profit: ${result.symbol}`,
-              message: `Closed at +${result.profitLossPercent.toFixed(1)}% profit`,
-              type: 'trade',
-              metadata: { positionId: result.positionId, action: result.action },
-            });
           } else if (result.executed && result.action === 'stop_loss') {
             toast({
               title: '🛑 Stop Loss Hit',
               description: `${result.symbol} closed at ${result.profitLossPercent.toFixed(1)}%`,
               variant: 'destructive',
             });
-            addNotification({
-              title: `Stop Loss: ${result.symbol}`,
-              message: `Closed at ${result.profitLossPercent.toFixed(1)}% loss`,
-              type: 'error',
-              metadata: { positionId: result.positionId, action: result.action },
+          } else if (result.executed && (result.action === 'trailing_stop' || result.action === 'ladder_take_profit')) {
+            const pnl = `${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(1)}%`;
+            toast({
+              title: `${exitActionLabel(result.action)} Hit`,
+              description: `${result.symbol} ${isPartialExit(result) ? 'partially sold' : 'closed'} at ${pnl}`,
             });
           }
         });
@@ -543,7 +680,7 @@ export function useAutoExit() {
       setChecking(false);
       isRunningRef.current = false;
     }
-  }, [toast, addNotification, wallet.isConnected, executePendingExit]);
+  }, [toast, wallet.isConnected, executePendingExit]);
 
   // Default monitor interval: 30 seconds - balanced between responsiveness and API load
   const DEFAULT_MONITOR_INTERVAL_MS = 30000;
@@ -1,40 +1,10 @@
 import { useState, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { useNotifications } from '@/hooks/useNotifications';
 import { useAppMode } from '@/contexts/AppModeContext';
+import type { TokenData, SnipeDecision } from '@/lib/sniperRules';
 
-export interface TokenData {
-  address: string;
-  name: string;
-  symbol: string;
-  chain: string;
-  liquidity: number;
-  liquidityLocked: boolean;
-  lockPercentage: number | null;
-  buyerPosition: number | null;
-  riskScore: number;
-  categories: string[];
-  priceUsd?: number;
-  // Scanner validation flags - CRITICAL for trade execution
-  isPumpFun?: boolean;      // True if on Pump.fun bonding curve
-  isTradeable?: boolean;    // True if scanner verified tradability
-  canBuy?: boolean;         // True if buy is possible
-  canSell?: boolean;        // True if sell is possible
-  source?: string;          // API source (e.g., 'Pump.fun', 'DexScreener')
-  safetyReasons?: string[]; // Array of safety check results
-}
-
-export interface SnipeDecision {
-  token: TokenData;
-  approved: boolean;
-  reasons: string[];
-  tradeParams: {
-    amount: number;
-    slippage: number;
-    priority: string;
-  } | null;
-}
+export type { TokenData, SnipeDecision } from '@/lib/sniperRules';
 
 export interface ExecutedTrade {
   token: string;
@@ -71,6 +41,8 @@ export interface EvaluateTokensOptions {
    * show its own UX.
    */
   suppressOpportunityToast?: boolean;
+  /** Trading wallet to evaluate for: its strategy overrides and open-position slots apply. */
+  walletAddress?: string | null;
 }
 
 export function useAutoSniper() {
@@ -78,7 +50,6 @@ export function useAutoSniper() {
   const [result, setResult] = useState<AutoSniperResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
-  const { addNotification } = useNotifications();
   const { mode } = useAppMode();
   
   // Demo mode guard
@@ -156,7 +127,7 @@ export function useAutoSniper() {
       console.log(`[Auto-sniper] Evaluating ${validTokens.length} tokens (filtered from ${tokens.length}):`, validTokens.map(t => `${t.symbol}(${t.source || 'unknown'})`).join(', '));
 
       const { data, error: fnError } = await supabase.functions.invoke('auto-sniper', {
-        body: { tokens: validTokens, executeOnApproval },
+        body: { tokens: validTokens, executeOnApproval, walletAddress: options?.walletAddress ?? undefined },
       });
 
       if (fnError) throw fnError;
@@ -171,35 +142,14 @@ export function useAutoSniper() {
       const executed = data.summary?.executed || 0;
       const executedTrades = data.executedTrades || [];
       
-      // Send notifications for each executed trade
+      // Toast each signal (auto-sniper already saved the notifications server-side)
       if (executeOnApproval && executed > 0) {
         executedTrades.forEach((trade: ExecutedTrade) => {
           if (!trade.error) {
-            // Send toast notification
             toast({
               title: '🎯 Trade Executed!',
               description: `Bought ${trade.token} - Position opened`,
             });
-            
-            // Add to notification center
-            addNotification({
-              title: `Trade Executed: ${trade.token}`,
-              message: `Auto-sniper bought ${trade.token}. Position ID: ${trade.positionId?.slice(0, 8) || 'N/A'}`,
-              type: 'trade',
-              metadata: {
-                token: trade.token,
-                txId: trade.txId,
-                positionId: trade.positionId,
-                settings: data.settings,
-              },
-            });
-          } else {
-            // Notify about failed trade
-            addNotification({
-              title: `Trade Failed: ${trade.token}`,
-              message: trade.error,
-              type: 'error',
-            });
           }
         });
 
@@ -229,7 +179,7 @@ export function useAutoSniper() {
       setLoading(false);
       evaluatingRef.current = false;
     }
-  }, [toast, addNotification, isDemo]);
+  }, [toast, isDemo]);
 
   const clearResult = useCallback(() => {
     setResult(null);
@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export type CopySizingMode = 'fixed_sol' | 'leader_percent';
+
+export interface CopyLeader {
+  id: string;
+  user_id: string;
+  leader_address: string;
+  leader_name: string | null;
+  sizing_mode: CopySizingMode;
+  fixed_amount_sol: number;   // SOL per mirrored buy (fixed_sol)
+  leader_percent: number;     // % of the leader's SOL size (leader_percent)
+  max_per_trade_sol: number;  // Cap per mirrored buy
+  copy_sells: boolean;
+  is_active: boolean;
+  last_signature: string | null;
+  last_checked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CopyLeaderInput = Pick<CopyLeader, 'leader_address'> &
+  Partial<Pick<CopyLeader, 'leader_name' | 'sizing_mode' | 'fixed_amount_sol' | 'leader_percent' | 'max_per_trade_sol' | 'copy_sells' | 'is_active'>>;
+
+export function useCopyLeaders() {
+  const [leaders, setLeaders] = useState<CopyLeader[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchLeaders = useCallback(async () => {
+    if (!user) {
+      setLeaders([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('copy_leaders')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setLeaders((data as unknown as CopyLeader[]) || []);
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error fetching leaders',
+        description: err.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  const addLeader = useCallback(async (leader: CopyLeaderInput) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('copy_leaders')
+        .insert({ ...leader, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setLeaders(prev => [...prev, data as unknown as CopyLeader]);
+      toast({ title: 'Leader added', description: `Following ${leader.leader_name || leader.leader_address.slice(0, 8)}` });
+      return data as unknown as CopyLeader;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error adding leader',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [user, toast]);
+
+  const updateLeader = useCallback(async (id: string, updates: Partial<CopyLeaderInput>) => {
+    try {
+      const { data, error } = await supabase
+        .from('copy_leaders')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setLeaders(prev => prev.map(l => (l.id === id ? data as unknown as CopyLeader : l)));
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error updating leader',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [toast]);
+
+  const removeLeader = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('copy_leaders')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setLeaders(prev => prev.filter(l => l.id !== id));
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error removing leader',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchLeaders();
+  }, [fetchLeaders]);
+
+  return {
+    leaders,
+    loading,
+    fetchLeaders,
+    addLeader,
+    updateLeader,
+    removeLeader,
+  };
+}
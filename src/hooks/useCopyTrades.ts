@@ -2,6 +2,11 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/hooks/useWallet';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export type CopyTradeStatus = 'pending' | 'executing' | 'executed' | 'failed' | 'skipped';
 
 export interface CopyTrade {
   id: string;
@@ -11,18 +16,40 @@ export interface CopyTrade {
   token_address: string;
   token_symbol: string;
   action: 'buy' | 'sell';
-  amount: number;
-  price: number;
+  amount: number; // Buys: SOL to spend. Sells: token amount the leader sold
+  price: number;  // Leader fill price (SOL per token)
   tx_id: string | null;
-  status: 'pending' | 'executed' | 'failed';
+  status: CopyTradeStatus;
   created_at: string;
+  leader_id?: string | null;
+  leader_tx_signature?: string | null;
+  leader_amount_sol?: number | null;
+  sell_percent?: number | null;
+  error_message?: string | null;
+  execute_after?: string | null;
+  executed_at?: string | null;
+}
+
+const toBaseUnits = (amountDecimal: number, decimals: number): string => {
+  const fixed = Math.max(0, amountDecimal).toFixed(decimals);
+  const [whole, frac = ''] = fixed.split('.');
+  return BigInt(`${whole}${frac.padEnd(decimals, '0')}`).toString();
+};
+
+function base64ToBytes(base64: string): Uint8Array {
+  const bin = globalThis.atob(base64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
 }
 
 export function useCopyTrades() {
   const [trades, setTrades] = useState<CopyTrade[]>([]);
   const [loading, setLoading] = useState(true);
+  const [executing, setExecuting] = useState<string | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
+  const { wallet, signAndSendTransaction } = useWallet();
 
   const fetchTrades = useCallback(async () => {
     // CRITICAL: Don't fetch if no user is logged in
@@ -82,6 +109,158 @@ export function useCopyTrades() {
     }
   }, [toast]);
 
+  const updateStatus = useCallback(async (id: string, updates: Partial<CopyTrade>) => {
+    await supabase
+      .from('copy_trades' as never)
+      .update(updates as never)
+      .eq('id', id);
+  }, []);
+
+  // Mirror a detected leader trade through trade-execution (wallet signs, like trade signals)
+  // Status: pending -> executing -> executed | failed | skipped
+  const executeCopyTrade = useCallback(async (trade: CopyTrade): Promise<boolean> => {
+    if (!user || !wallet.isConnected || !wallet.address) {
+      return false;
+    }
+
+    if (trade.status !== 'pending') return false;
+
+    // Claim the row so a second tab/worker doesn't execute it too
+    const { data: claimed } = await supabase
+      .from('copy_trades' as never)
+      .update({ status: 'executing' } as never)
+      .eq('id', trade.id)
+      .eq('status', 'pending')
+      .select('id');
+    if (!claimed || (claimed as unknown[]).length === 0) return false;
+
+    setExecuting(trade.id);
+
+    try {
+      let inputMint = SOL_MINT;
+      let outputMint = trade.token_address;
+      let amount = String(Math.floor(trade.amount * 1e9));
+      let position: { id: string; amount: number } | null = null;
+      let sellAmount = 0;
+      let heldAmount = 0;
+
+      if (trade.action === 'sell') {
+        const { data: openPosition } = await supabase
+          .from('positions')
+          .select('id, amount')
+          .eq('user_id', user.id)
+          .eq('token_address', trade.token_address)
+          .eq('status', 'open')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (!openPosition) {
+          await updateStatus(trade.id, { status: 'skipped', error_message: 'No open position to mirror the sell' });
+          return false;
+        }
+        position = openPosition as { id: string; amount: number };
+
+        // Sell the same share of our on-chain balance the leader sold of theirs
+        heldAmount = Number(position.amount);
+        let decimals = 6;
+        const { data: meta, error: metaError } = await supabase.functions.invoke('token-metadata', {
+          body: { mint: trade.token_address, owner: wallet.address },
+        });
+        const balanceUi = Number((meta as { balanceUi?: number } | null)?.balanceUi);
+        const metaDecimals = Number((meta as { decimals?: number } | null)?.decimals);
+        if (!metaError && Number.isFinite(metaDecimals) && metaDecimals >= 0) decimals = metaDecimals;
+        if (!metaError && Number.isFinite(balanceUi) && balanceUi > 0) heldAmount = balanceUi;
+
+        sellAmount = heldAmount * Math.min(100, trade.sell_percent ?? 100) / 100;
+        if (!Number.isFinite(sellAmount) || sellAmount <= 0) {
+          await updateStatus(trade.id, { status: 'skipped', error_message: 'No token balance to sell' });
+          return false;
+        }
+
+        inputMint = trade.token_address;
+        outputMint = SOL_MINT;
+        amount = toBaseUnits(sellAmount, decimals);
+      }
+
+      const { data: tradeData, error: tradeError } = await supabase.functions.invoke('trade-execution', {
+        body: {
+          action: 'execute',
+          inputMint,
+          outputMint,
+          amount,
+          slippageBps: trade.action === 'sell' ? 1500 : 1000,
+          userPublicKey: wallet.address,
+          priorityLevel: 'high',
+          tokenSymbol: trade.action === 'buy' ? trade.token_symbol : undefined,
+        },
+      });
+
+      if (tradeError || !tradeData?.success) {
+        throw new Error(tradeData?.error || tradeError?.message || 'Failed to build transaction');
+      }
+
+      const { VersionedTransaction } = await import('@solana/web3.js');
+      const transaction = VersionedTransaction.deserialize(base64ToBytes(tradeData.swapTransaction));
+      const signResult = await signAndSendTransaction(transaction);
+
+      if (signResult.error) {
+        throw new Error(signResult.error);
+      }
+
+      if (trade.action === 'buy') {
+        // Open the position trade-execution created
+        await supabase.functions.invoke('confirm-transaction', {
+          body: { signature: signResult.signature, positionId: tradeData.positionId, fillId: tradeData.fillId, action: 'buy' },
+        });
+      } else if (position) {
+        // trade-execution records a pending position for every swap - a sell doesn't open one
+        if (tradeData.positionId) {
+          await supabase.from('positions').delete().eq('id', tradeData.positionId).eq('status', 'pending');
+        }
+
+        const remaining = Math.max(0, heldAmount - sellAmount);
+        if ((trade.sell_percent ?? 100) >= 99) {
+          await supabase.functions.invoke('confirm-transaction', {
+            body: { signature: signResult.signature, positionId: position.id, action: 'sell' },
+          });
+        } else {
+          await supabase
+            .from('positions')
+            .update({ amount: remaining })
+            .eq('id', position.id);
+        }
+      }
+
+      await updateStatus(trade.id, {
+        status: 'executed',
+        tx_id: signResult.signature,
+        executed_at: new Date().toISOString(),
+        error_message: null,
+      });
+
+      toast({
+        title: trade.action === 'buy' ? '👥 Copy Buy Executed' : '👥 Copy Sell Executed',
+        description: `Mirrored ${trade.leader_name || trade.leader_address.slice(0, 6)} on ${trade.token_symbol}`,
+      });
+
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error('Copy trade execution error:', err);
+      await updateStatus(trade.id, { status: 'failed', error_message: err.message || 'Copy trade failed' });
+
+      toast({
+        title: 'Copy Trade Failed',
+        description: err.message || 'Failed to mirror leader trade',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setExecuting(null);
+    }
+  }, [user, wallet, signAndSendTransaction, toast, updateStatus]);
+
   useEffect(() => {
     if (!user) {
       setTrades([]);
@@ -113,7 +292,9 @@ export function useCopyTrades() {
   return {
     trades,
     loading,
+    executing,
     fetchTrades,
     addCopyTrade,
+    executeCopyTrade,
   };
 }
\ No newline at end of file
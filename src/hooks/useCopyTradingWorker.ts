@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { CopyTrade } from '@/hooks/useCopyTrades';
+
+// Leader wallets are polled on this cadence while the worker runs
+const POLL_INTERVAL_MS = 20000;
+
+export interface CopyTraderRunResult {
+  enabled: boolean;
+  detected: number;
+  skipped: number;
+  leaders: number;
+  message?: string;
+  errors?: { leader: string; error: string }[];
+}
+
+interface UseCopyTradingWorkerOptions {
+  enabled: boolean;
+  trades: CopyTrade[];
+  executeCopyTrade: (trade: CopyTrade) => Promise<boolean>;
+}
+
+/**
+ * Copy-trading loop: asks the copy-trader edge function to scan leader wallets,
+ * then mirrors due pending trades one at a time (each needs a wallet signature).
+ */
+export function useCopyTradingWorker({ enabled, trades, executeCopyTrade }: UseCopyTradingWorkerOptions) {
+  const [lastRun, setLastRun] = useState<CopyTraderRunResult | null>(null);
+  const [polling, setPolling] = useState(false);
+  const runningRef = useRef(false);
+
+  const pollLeaders = useCallback(async (): Promise<CopyTraderRunResult | null> => {
+    if (runningRef.current) return null;
+    runningRef.current = true;
+    setPolling(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('copy-trader', { body: {} });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setLastRun(data as CopyTraderRunResult);
+      return data as CopyTraderRunResult;
+    } catch (error: unknown) {
+      console.error('[CopyTrading] Leader scan failed:', error);
+      return null;
+    } finally {
+      runningRef.current = false;
+      setPolling(false);
+    }
+  }, []);
+
+  // Execute the oldest due pending trade; the realtime update re-triggers for the next one
+  const executingRef = useRef(false);
+  useEffect(() => {
+    if (!enabled || executingRef.current) return;
+
+    const now = Date.now();
+    const due = trades
+      .filter(t => t.status === 'pending' && (!t.execute_after || new Date(t.execute_after).getTime() <= now))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+    if (due.length === 0) return;
+
+    executingRef.current = true;
+    executeCopyTrade(due[0]).finally(() => {
+      executingRef.current = false;
+    });
+  }, [enabled, trades, executeCopyTrade, lastRun]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    pollLeaders();
+    const interval = setInterval(pollLeaders, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, pollLeaders]);
+
+  return {
+    lastRun,
+    polling,
+    pollLeaders,
+  };
+}
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useNotifications } from '@/hooks/useNotifications';
+import type { LimitOrder } from '@/hooks/useLimitOrders';
+
+// Trigger prices are re-checked on this cadence while the worker runs
+const POLL_INTERVAL_MS = 15000;
+
+export interface LimitOrderTransition {
+  id: string;
+  token_symbol: string;
+  decision: 'trigger' | 'expire' | 'rearm';
+  price_usd: number | null;
+}
+
+export interface LimitOrderRunResult {
+  checked: number;
+  triggered: number;
+  expired: number;
+  rearmed: number;
+  transitions: LimitOrderTransition[];
+}
+
+interface UseLimitOrderWorkerOptions {
+  enabled: boolean;
+  hasActiveOrders: boolean;
+  orders: LimitOrder[];
+  executeLimitOrder: (order: LimitOrder) => Promise<boolean>;
+}
+
+/**
+ * Limit-order loop: asks the limit-orders edge function to check trigger prices and expiry,
+ * then executes triggered orders one at a time (each needs a wallet signature).
+ */
+export function useLimitOrderWorker({ enabled, hasActiveOrders, orders, executeLimitOrder }: UseLimitOrderWorkerOptions) {
+  const [lastRun, setLastRun] = useState<LimitOrderRunResult | null>(null);
+  const [polling, setPolling] = useState(false);
+  const runningRef = useRef(false);
+  const { addNotification } = useNotifications();
+
+  const checkOrders = useCallback(async (): Promise<LimitOrderRunResult | null> => {
+    if (runningRef.current) return null;
+    runningRef.current = true;
+    setPolling(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('limit-orders', { body: {} });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const result = data as LimitOrderRunResult;
+      for (const transition of result.transitions || []) {
+        if (transition.decision === 'expire') {
+          addNotification({
+            title: 'Limit Order Expired',
+            message: `${transition.token_symbol} order expired without filling`,
+            type: 'info',
+            metadata: { orderId: transition.id },
+          });
+        }
+      }
+
+      setLastRun(result);
+      return result;
+    } catch (error: unknown) {
+      console.error('[LimitOrders] Price check failed:', error);
+      return null;
+    } finally {
+      runningRef.current = false;
+      setPolling(false);
+    }
+  }, [addNotification]);
+
+  // Execute the earliest triggered order; the realtime update re-triggers for the next one
+  const executingRef = useRef(false);
+  useEffect(() => {
+    if (!enabled || executingRef.current) return;
+
+    const due = orders
+      .filter(o => o.status === 'triggered')
+      .sort((a, b) => new Date(a.triggered_at ?? a.created_at).getTime() - new Date(b.triggered_at ?? b.created_at).getTime());
+
+    if (due.length === 0) return;
+
+    executingRef.current = true;
+    executeLimitOrder(due[0]).finally(() => {
+      executingRef.current = false;
+    });
+  }, [enabled, orders, executeLimitOrder, lastRun]);
+
+  useEffect(() => {
+    if (!enabled || !hasActiveOrders) return;
+
+    checkOrders();
+    const interval = setInterval(checkOrders, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, hasActiveOrders, checkOrders]);
+
+  return {
+    lastRun,
+    polling,
+    checkOrders,
+  };
+}
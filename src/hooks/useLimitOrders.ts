@@ -0,0 +1,278 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/hooks/useWallet';
+import { useNotifications } from '@/hooks/useNotifications';
+import { describeLimitOrder, type LimitOrderStatus, type LimitOrderType } from '@/lib/limitOrders';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface LimitOrder {
+  id: string;
+  user_id: string;
+  token_address: string;
+  token_symbol: string;
+  token_name: string | null;
+  chain: string;
+  order_type: LimitOrderType;
+  trigger_price_usd: number;
+  amount_sol: number;
+  slippage_bps: number;
+  status: LimitOrderStatus;
+  expires_at: string | null;
+  last_price_usd: number | null;
+  last_checked_at: string | null;
+  triggered_at: string | null;
+  triggered_price_usd: number | null;
+  position_id: string | null;
+  tx_hash: string | null;
+  error_message: string | null;
+  filled_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LimitOrderInput = Pick<LimitOrder, 'token_address' | 'token_symbol' | 'order_type' | 'trigger_price_usd' | 'amount_sol'> &
+  Partial<Pick<LimitOrder, 'token_name' | 'slippage_bps' | 'expires_at'>>;
+
+function base64ToBytes(base64: string): Uint8Array {
+  const bin = globalThis.atob(base64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+export function useLimitOrders() {
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [executing, setExecuting] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { wallet, signAndSendTransaction } = useWallet();
+  const { addNotification } = useNotifications();
+
+  const fetchOrders = useCallback(async () => {
+    if (!user) {
+      setOrders([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('limit_orders')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setOrders((data as unknown as LimitOrder[]) || []);
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error fetching limit orders',
+        description: err.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  const placeOrder = useCallback(async (order: LimitOrderInput) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('limit_orders')
+        .insert({ ...order, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setOrders(prev => [data as unknown as LimitOrder, ...prev]);
+      toast({
+        title: 'Limit order placed',
+        description: `Buy ${order.amount_sol} SOL of ${order.token_symbol} when ${describeLimitOrder(order)}`,
+      });
+      return data as unknown as LimitOrder;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error placing limit order',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [user, toast]);
+
+  // Only resting orders can be cancelled - an executing order is already waiting on a signature
+  const cancelOrder = useCallback(async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('limit_orders')
+        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+        .eq('id', id)
+        .in('status', ['open', 'triggered'])
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('Order is no longer open');
+      }
+
+      setOrders(prev => prev.map(o => (o.id === id ? { ...o, status: 'cancelled' } : o)));
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error cancelling order',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [toast]);
+
+  const updateStatus = useCallback(async (id: string, updates: Partial<LimitOrder>) => {
+    await supabase
+      .from('limit_orders')
+      .update(updates)
+      .eq('id', id);
+  }, []);
+
+  // Buy through trade-execution once the worker has marked the order triggered (wallet signs)
+  // Status: triggered -> executing -> filled | failed
+  const executeLimitOrder = useCallback(async (order: LimitOrder): Promise<boolean> => {
+    if (!user || !wallet.isConnected || !wallet.address) {
+      return false;
+    }
+
+    if (order.status !== 'triggered') return false;
+
+    // Claim the row so a second tab/worker doesn't execute it too
+    const { data: claimed } = await supabase
+      .from('limit_orders')
+      .update({ status: 'executing' })
+      .eq('id', order.id)
+      .eq('status', 'triggered')
+      .select('id');
+    if (!claimed || claimed.length === 0) return false;
+
+    setExecuting(order.id);
+
+    try {
+      const { data: tradeData, error: tradeError } = await supabase.functions.invoke('trade-execution', {
+        body: {
+          action: 'execute',
+          inputMint: SOL_MINT,
+          outputMint: order.token_address,
+          amount: String(Math.floor(order.amount_sol * 1e9)),
+          slippageBps: order.slippage_bps,
+          userPublicKey: wallet.address,
+          priorityLevel: 'high',
+          tokenSymbol: order.token_symbol,
+          tokenName: order.token_name ?? undefined,
+        },
+      });
+
+      if (tradeError || !tradeData?.success) {
+        throw new Error(tradeData?.error || tradeError?.message || 'Failed to build transaction');
+      }
+
+      const { VersionedTransaction } = await import('@solana/web3.js');
+      const transaction = VersionedTransaction.deserialize(base64ToBytes(tradeData.swapTransaction));
+      const signResult = await signAndSendTransaction(transaction);
+
+      if (signResult.error) {
+        throw new Error(signResult.error);
+      }
+
+      await supabase.functions.invoke('confirm-transaction', {
+        body: { signature: signResult.signature, positionId: tradeData.positionId, fillId: tradeData.fillId, action: 'buy' },
+      });
+
+      await updateStatus(order.id, {
+        status: 'filled',
+        tx_hash: signResult.signature,
+        position_id: tradeData.positionId ?? null,
+        filled_at: new Date().toISOString(),
+        error_message: null,
+      });
+
+      const description = `Bought ${order.amount_sol} SOL of ${order.token_symbol} (${describeLimitOrder(order)})`;
+      toast({ title: '🎯 Limit Order Filled', description });
+      addNotification({
+        title: 'Limit Order Filled',
+        message: description,
+        type: 'trade',
+        event_type: 'trade_filled',
+        metadata: { orderId: order.id, tokenAddress: order.token_address, txHash: signResult.signature },
+      });
+
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error('Limit order execution error:', err);
+      await updateStatus(order.id, { status: 'failed', error_message: err.message || 'Limit order failed' });
+
+      toast({
+        title: 'Limit Order Failed',
+        description: err.message || 'Failed to execute limit order',
+        variant: 'destructive',
+      });
+      addNotification({
+        title: 'Limit Order Failed',
+        message: `${order.token_symbol}: ${err.message || 'Failed to execute limit order'}`,
+        type: 'error',
+        event_type: 'trade_filled',
+      });
+      return false;
+    } finally {
+      setExecuting(null);
+    }
+  }, [user, wallet, signAndSendTransaction, toast, addNotification, updateStatus]);
+
+  useEffect(() => {
+    if (!user) {
+      setOrders([]);
+      return;
+    }
+
+    fetchOrders();
+
+    const channel = supabase
+      .channel('limit-orders-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'limit_orders',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchOrders()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchOrders]);
+
+  return {
+    orders,
+    loading,
+    executing,
+    fetchOrders,
+    placeOrder,
+    cancelOrder,
+    executeLimitOrder,
+  };
+}
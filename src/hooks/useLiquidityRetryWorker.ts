@@ -342,6 +342,7 @@ export function useLiquidityRetryWorker() {
       addBotLog({
         level: 'success',
         category: 'exit',
+        eventType: 'trade',
         message: `✅ SELL FILLED: ${position.token_symbol}`,
         tokenSymbol: position.token_symbol,
         details: `Sold via ${routeResult.source} after waiting for liquidity.\nTX: ${swapResult.signature}`,
@@ -358,6 +359,7 @@ export function useLiquidityRetryWorker() {
       addBotLog({
         level: 'error',
         category: 'exit',
+        eventType: 'trade',
         message: `❌ Swap failed: ${position.token_symbol}`,
         tokenSymbol: position.token_symbol,
         details: swapResult.error,
@@ -226,7 +226,8 @@ export function useLiveTradingOrchestrator() {
             position.entryPrice,
             position.tokenAmount,
             settings.profit_take_percentage,
-            settings.stop_loss_percentage
+            settings.stop_loss_percentage,
+            wallet.address
           );
 
           // Log comprehensive trade details with liquidity, safety, position info
@@ -239,6 +240,7 @@ export function useLiveTradingOrchestrator() {
           addBotLog({
             level: 'success',
             category: 'trade',
+            eventType: 'trade',
             message: `✅ BUY FILLED: ${finalName} (${finalSymbol})`,
             tokenSymbol: finalSymbol,
             tokenAddress: token.address,
@@ -280,6 +282,7 @@ export function useLiveTradingOrchestrator() {
       addBotLog({
         level: 'error',
         category: 'trade',
+        eventType: 'trade',
         message: `❌ BUY FAILED: ${token.name} (${token.symbol})`,
         tokenSymbol: token.symbol,
         tokenAddress: token.address,
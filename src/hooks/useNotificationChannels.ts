@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  validateChannelConfig,
+  type NotificationChannelRow,
+  type NotificationChannelType,
+  type NotificationEventType,
+} from '@/lib/notificationChannels';
+
+export interface NotificationChannel extends NotificationChannelRow {
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationChannelInput {
+  channel_type: NotificationChannelType;
+  name: string;
+  config: Record<string, unknown>;
+  event_types?: NotificationEventType[];
+}
+
+export type NotificationChannelUpdate = Partial<Pick<NotificationChannel, 'name' | 'is_enabled' | 'config' | 'event_types'>>;
+
+export function useNotificationChannels() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [testing, setTesting] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchChannels = useCallback(async () => {
+    if (!user) {
+      setChannels([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('notification_channels')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setChannels((data as unknown as NotificationChannel[]) || []);
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error fetching notification channels',
+        description: err.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  const createChannel = useCallback(async (input: NotificationChannelInput) => {
+    if (!user) return null;
+
+    const configError = validateChannelConfig(input.channel_type, input.config);
+    if (configError) {
+      toast({ title: 'Invalid channel', description: configError, variant: 'destructive' });
+      return null;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('notification_channels')
+        .insert({ ...input, config: input.config as Json, event_types: input.event_types ?? [], user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const channel = data as unknown as NotificationChannel;
+      setChannels(prev => [...prev, channel]);
+      toast({ title: 'Channel added', description: `${channel.name} will receive notifications` });
+      return channel;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error adding channel',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [user, toast]);
+
+  const updateChannel = useCallback(async (id: string, updates: NotificationChannelUpdate) => {
+    const previous = channels;
+    setChannels(prev => prev.map(c => (c.id === id ? { ...c, ...updates } : c)));
+
+    try {
+      const row = { ...updates, config: updates.config as Json | undefined };
+      const { error } = await supabase
+        .from('notification_channels')
+        .update(row)
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      setChannels(previous);
+      toast({
+        title: 'Error updating channel',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [channels, toast]);
+
+  const deleteChannel = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('notification_channels')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setChannels(prev => prev.filter(c => c.id !== id));
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error deleting channel',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [toast]);
+
+  // Sends a sample notification through the channel; the result is also stored on the row
+  const testChannel = useCallback(async (id: string) => {
+    setTesting(id);
+    try {
+      const { data, error } = await supabase.functions.invoke('notifications', {
+        body: { action: 'test', channelId: id },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Delivery failed');
+
+      toast({ title: 'Test sent', description: 'Check the channel for the test notification' });
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Test failed',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setTesting(null);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!user) {
+      setChannels([]);
+      return;
+    }
+
+    fetchChannels();
+
+    const channel = supabase
+      .channel('notification-channels-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notification_channels',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchChannels()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchChannels]);
+
+  return {
+    channels,
+    loading,
+    testing,
+    fetchChannels,
+    createChannel,
+    updateChannel,
+    deleteChannel,
+    testChannel,
+  };
+}
@@ -1,115 +1,230 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import type { Tables } from '@/integrations/supabase/types';
+import type { NotificationEventType, NotificationType } from '@/lib/notificationChannels';
 
 export interface Notification {
   id: string;
   title: string;
   message: string;
-  type: 'info' | 'success' | 'warning' | 'error' | 'trade';
+  type: NotificationType;
+  event_type: NotificationEventType;
+  source?: string | null;
   read: boolean;
   created_at: string;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, unknown>;
 }
 
-const NOTIFICATIONS_STORAGE_KEY_PREFIX = 'meme_sniper_notifications_';
-const MAX_NOTIFICATIONS = 50;
-
-// Get user-specific storage key
-const getStorageKey = (userId: string | null): string => {
-  return userId ? `${NOTIFICATIONS_STORAGE_KEY_PREFIX}${userId}` : `${NOTIFICATIONS_STORAGE_KEY_PREFIX}anonymous`;
-};
-
-// Load notifications from localStorage for specific user
-const loadFromStorage = (userId: string | null): Notification[] => {
-  try {
-    const key = getStorageKey(userId);
-    const stored = localStorage.getItem(key);
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (error) {
-    console.error('Failed to load notifications from storage:', error);
-  }
-  return [];
-};
-
-// Save notifications to localStorage for specific user
-const saveToStorage = (notifications: Notification[], userId: string | null) => {
-  try {
-    // Keep only the most recent notifications
-    const trimmed = notifications.slice(0, MAX_NOTIFICATIONS);
-    const key = getStorageKey(userId);
-    localStorage.setItem(key, JSON.stringify(trimmed));
-  } catch (error) {
-    console.error('Failed to save notifications to storage:', error);
-  }
+export type NewNotification = Omit<Notification, 'id' | 'created_at' | 'read' | 'event_type' | 'source'> & {
+  event_type?: NotificationEventType;
 };
 
+const MAX_NOTIFICATIONS = 50;
+const NOTIFICATION_TYPES: NotificationType[] = ['info', 'success', 'warning', 'error', 'trade'];
+
+const fromRow = (row: Tables<'notifications'>): Notification => ({
+  id: row.id,
+  title: row.title,
+  message: row.message,
+  type: NOTIFICATION_TYPES.includes(row.type as NotificationType) ? (row.type as NotificationType) : 'info',
+  event_type: (row.event_type as NotificationEventType) || 'general',
+  source: row.source,
+  read: row.read ?? false,
+  created_at: row.created_at,
+  metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+});
+
+const newestFirst = (a: Notification, b: Notification) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+/**
+ * Notification center backed by the notifications table.
+ * Edge functions (auto-exit, auto-sniper, risk-check, trade-execution) write rows server-side,
+ * so alerts raised while the app was closed show up on the next load and live over realtime.
+ * Signed-out sessions keep an in-memory list only.
+ */
 export function useNotifications() {
   const { user } = useAuth();
   const userId = user?.id ?? null;
-  
-  // Initialize with user-specific notifications
+
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(false);
+  // Several components mount this hook at once; each needs its own realtime channel
+  const channelIdRef = useRef(crypto.randomUUID());
 
-  // CRITICAL: Load user-specific notifications when user changes
-  useEffect(() => {
-    setNotifications(loadFromStorage(userId));
+  const upsertLocal = useCallback((notification: Notification) => {
+    setNotifications(prev =>
+      [notification, ...prev.filter(n => n.id !== notification.id)].sort(newestFirst).slice(0, MAX_NOTIFICATIONS)
+    );
+  }, []);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(MAX_NOTIFICATIONS);
+
+      if (error) throw error;
+      setNotifications((data || []).map(fromRow));
+    } catch (error: unknown) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setLoading(false);
+    }
   }, [userId]);
 
+  useEffect(() => {
+    fetchNotifications();
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications-${channelIdRef.current}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => upsertLocal(fromRow(payload.new as Tables<'notifications'>))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const updated = fromRow(payload.new as Tables<'notifications'>);
+          setNotifications(prev => prev.map(n => (n.id === updated.id ? updated : n)));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const removedId = (payload.old as { id?: string }).id;
+          setNotifications(prev => prev.filter(n => n.id !== removedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchNotifications, upsertLocal]);
+
   // Calculate unread count
   useEffect(() => {
     setUnreadCount(notifications.filter(n => !n.read).length);
   }, [notifications]);
 
-  // Persist to user-specific localStorage whenever notifications change
-  useEffect(() => {
-    saveToStorage(notifications, userId);
-  }, [notifications, userId]);
-
   // Mark notification as read
-  const markAsRead = useCallback((notificationId: string) => {
-    setNotifications(prev => 
-      prev.map(n => 
+  const markAsRead = useCallback(async (notificationId: string) => {
+    setNotifications(prev =>
+      prev.map(n =>
         n.id === notificationId ? { ...n, read: true } : n
       )
     );
-  }, []);
+    if (!userId) return;
+
+    const { error } = await supabase.from('notifications').update({ read: true }).eq('id', notificationId);
+    if (error) console.error('Failed to mark notification as read:', error);
+  }, [userId]);
 
   // Mark all as read
-  const markAllAsRead = useCallback(() => {
+  const markAllAsRead = useCallback(async () => {
     setNotifications(prev => prev.map(n => ({ ...n, read: true })));
-  }, []);
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+    if (error) console.error('Failed to mark notifications as read:', error);
+  }, [userId]);
 
-  // Add a new notification
-  const addNotification = useCallback((notification: Omit<Notification, 'id' | 'created_at' | 'read'>) => {
-    const newNotification: Notification = {
+  // Add a new notification - saved server-side so it also reaches the user's delivery channels
+  const addNotification = useCallback(async (notification: NewNotification): Promise<Notification | null> => {
+    const local: Notification = {
       ...notification,
+      event_type: notification.event_type ?? 'general',
+      source: 'app',
       id: crypto.randomUUID(),
       created_at: new Date().toISOString(),
       read: false,
     };
-    setNotifications(prev => [newNotification, ...prev].slice(0, MAX_NOTIFICATIONS));
-    return newNotification;
-  }, []);
+
+    if (!userId) {
+      upsertLocal(local);
+      return local;
+    }
+
+    try {
+      const { data, error } = await supabase.functions.invoke('notifications', {
+        body: {
+          action: 'create',
+          title: notification.title,
+          message: notification.message,
+          type: notification.type,
+          event_type: local.event_type,
+          metadata: notification.metadata,
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const saved = { ...local, id: data.id as string };
+      upsertLocal(saved);
+      return saved;
+    } catch (error: unknown) {
+      // Edge function unreachable: keep the notification in the table even without channel delivery
+      console.error('Failed to send notification, saving directly:', error);
+      const { data, error: insertError } = await supabase
+        .from('notifications')
+        .insert({
+          user_id: userId,
+          title: local.title,
+          message: local.message,
+          type: local.type,
+          event_type: local.event_type,
+          source: local.source,
+          metadata: (local.metadata ?? {}) as Tables<'notifications'>['metadata'],
+        })
+        .select()
+        .single();
+
+      if (insertError || !data) {
+        console.error('Failed to save notification:', insertError);
+        return null;
+      }
+      const saved = fromRow(data);
+      upsertLocal(saved);
+      return saved;
+    }
+  }, [userId, upsertLocal]);
 
   // Delete a notification
-  const deleteNotification = useCallback((notificationId: string) => {
+  const deleteNotification = useCallback(async (notificationId: string) => {
     setNotifications(prev => prev.filter(n => n.id !== notificationId));
-  }, []);
+    if (!userId) return;
+
+    const { error } = await supabase.from('notifications').delete().eq('id', notificationId);
+    if (error) console.error('Failed to delete notification:', error);
+  }, [userId]);
 
   // Clear all notifications
-  const clearAll = useCallback(() => {
+  const clearAll = useCallback(async () => {
     setNotifications([]);
-  }, []);
+    if (!userId) return;
 
-  // Refresh (reload from storage)
-  const refresh = useCallback(() => {
-    setLoading(true);
-    setNotifications(loadFromStorage(userId));
-    setLoading(false);
+    const { error } = await supabase.from('notifications').delete().eq('user_id', userId);
+    if (error) console.error('Failed to clear notifications:', error);
   }, [userId]);
 
   return {
@@ -121,6 +236,6 @@ export function useNotifications() {
     addNotification,
     deleteNotification,
     clearAll,
-    refresh,
+    refresh: fetchNotifications,
   };
 }
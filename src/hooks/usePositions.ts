@@ -4,6 +4,14 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { fetchDexScreenerPrices, fetchDexScreenerTokenMetadata, isLikelyRealSolanaMint } from '@/lib/dexscreener';
 import { isPlaceholderText } from '@/lib/formatters';
+import {
+  applyPositionSale,
+  positionCostBasisSol,
+  positionFillSummary,
+  type PositionFill,
+  type PositionSaleResult,
+} from '@/lib/positionAccounting';
+import type { PriorityFeeEstimate } from '@/lib/priorityFees';
 export interface Position {
   id: string;
   user_id: string;
@@ -26,6 +34,15 @@ export interface Position {
   exit_reason: string | null;
   exit_price: number | null;
   exit_tx_id: string | null;
+  peak_price?: number | null;
+  remaining_fraction?: number | null;
+  executed_ladder_steps?: number[] | null;
+  exit_strategy?: Record<string, unknown> | null;
+  realized_pnl_sol?: number | null; // Booked by sells so far (partial sells included)
+  fills?: PositionFill[]; // Confirmed position_fills (open positions only)
+  wallet_address?: string | null; // Trading wallet that holds the position
+  strategy_profile_name?: string | null; // Strategy profile active when the position was opened
+  strategy_profile_version?: number | null;
   created_at: string;
   updated_at: string;
   closed_at: string | null;
@@ -34,12 +51,15 @@ export interface Position {
 export interface ExitResult {
   positionId: string;
   symbol: string;
-  action: 'hold' | 'take_profit' | 'stop_loss';
+  action: 'hold' | 'take_profit' | 'stop_loss' | 'trailing_stop' | 'ladder_take_profit';
   currentPrice: number;
   profitLossPercent: number;
   executed: boolean;
   txId?: string;
   error?: string;
+  sellFraction?: number;
+  ladderSteps?: number[];
+  remainingFraction?: number;
 }
 
 export interface AutoExitSummary {
@@ -47,6 +67,8 @@ export interface AutoExitSummary {
   holding: number;
   takeProfitTriggered: number;
   stopLossTriggered: number;
+  trailingStopTriggered?: number;
+  ladderTakeProfitTriggered?: number;
   executed: number;
 }
 
@@ -120,9 +142,35 @@ export function usePositions() {
 
       const rawPositions = ((data as unknown as Position[]) || []).map((p) => ({ ...p }));
 
+      // Attach fill history to open positions so P&L uses the multi-entry cost basis
+      const openIds = rawPositions.filter((p) => p.status === 'open').map((p) => p.id);
+      if (openIds.length > 0) {
+        const { data: fillRows, error: fillsError } = await supabase
+          .from('position_fills')
+          .select('position_id, side, amount, sol_amount, price_usd, status, created_at')
+          .in('position_id', openIds)
+          .eq('status', 'confirmed')
+          .order('created_at', { ascending: true });
+
+        if (fillsError) {
+          console.warn('[Positions] Failed to load fills:', fillsError);
+        } else {
+          const fillsByPosition = new Map<string, PositionFill[]>();
+          for (const row of fillRows || []) {
+            const list = fillsByPosition.get(row.position_id) || [];
+            list.push({ ...row, side: row.side as PositionFill['side'] });
+            fillsByPosition.set(row.position_id, list);
+          }
+          for (const p of rawPositions) {
+            const fills = fillsByPosition.get(p.id);
+            if (fills) p.fills = fills;
+          }
+        }
+      }
+
       // Only replace positions when the server data actually changed,
       // OR when explicitly forced (after closing/creating positions).
-      const nextSig = rawPositions.map((p) => `${p.id}:${p.updated_at}:${p.status}`).join('|');
+      const nextSig = rawPositions.map((p) => `${p.id}:${p.updated_at}:${p.status}:${p.fills?.length ?? 0}`).join('|');
       if (shouldForce || nextSig !== lastServerSignatureRef.current) {
         lastServerSignatureRef.current = nextSig;
         setPositions(rawPositions);
@@ -220,7 +268,8 @@ export function usePositions() {
     entryPrice: number,
     amount: number,
     profitTakePercent: number,
-    stopLossPercent: number
+    stopLossPercent: number,
+    walletAddress?: string | null
   ): Promise<Position | null> => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -243,6 +292,7 @@ export function usePositions() {
           current_value: entryValue,
           profit_take_percent: profitTakePercent,
           stop_loss_percent: stopLossPercent,
+          wallet_address: walletAddress ?? null,
         })
         .select()
         .single();
@@ -321,10 +371,12 @@ export function usePositions() {
         return { results: data.results || [], summary: { total: 0, holding: 0, takeProfitTriggered: 0, stopLossTriggered: 0, executed: 0 } };
       }
       
-      if ((summary.takeProfitTriggered || 0) > 0 || (summary.stopLossTriggered || 0) > 0) {
+      const trailingCount = summary.trailingStopTriggered || 0;
+      const ladderCount = summary.ladderTakeProfitTriggered || 0;
+      if ((summary.takeProfitTriggered || 0) > 0 || (summary.stopLossTriggered || 0) > 0 || trailingCount > 0 || ladderCount > 0) {
         toast({
           title: 'Exit Conditions Met',
-          description: `Take Profit: ${summary.takeProfitTriggered || 0}, Stop Loss: ${summary.stopLossTriggered || 0}${executeExits ? `, Executed: ${summary.executed || 0}` : ''}`,
+          description: `Take Profit: ${summary.takeProfitTriggered || 0}, Stop Loss: ${summary.stopLossTriggered || 0}${trailingCount > 0 ? `, Trailing Stop: ${trailingCount}` : ''}${ladderCount > 0 ? `, Ladder: ${ladderCount}` : ''}${executeExits ? `, Executed: ${summary.executed || 0}` : ''}`,
           variant: (summary.stopLossTriggered || 0) > 0 ? 'destructive' : 'default',
         });
       }
@@ -383,11 +435,11 @@ export function usePositions() {
       ));
 
       const currentValue = position.amount * safeExitPrice;
-      const entryValue = position.entry_value || (position.amount * position.entry_price);
       const entryPriceForCalc = position.entry_price_usd ?? position.entry_price;
       const profitLossPercent = ((safeExitPrice - entryPriceForCalc) / entryPriceForCalc) * 100;
-      // Use entry_value for accurate P&L $ calculation
-      const profitLossValue = entryValue * (profitLossPercent / 100);
+      // Closing books the rest of the position; P&L includes earlier partial sells
+      const sale = applyPositionSale(position, { soldAmount: position.amount, exitPrice: safeExitPrice });
+      const profitLossValue = sale.totalRealizedPnlSol;
 
       // Build update payload - include exit_tx_id if provided
       const updatePayload: Record<string, unknown> = {
@@ -398,6 +450,8 @@ export function usePositions() {
         current_value: currentValue,
         profit_loss_percent: profitLossPercent,
         profit_loss_value: profitLossValue,
+        realized_pnl_sol: sale.totalRealizedPnlSol,
+        remaining_fraction: 0,
         closed_at: new Date().toISOString(),
       };
       
@@ -478,6 +532,111 @@ export function usePositions() {
     }
   }, [toast, fetchPositions]);
 
+  // Book a confirmed sell of all or part of a position (25/50/75% or a custom amount)
+  // Partial sells shrink size and cost basis; near-full sells close the position.
+  // Either way the sold portion gets its own trade_history row with its realized P&L.
+  const recordPositionSale = useCallback(async (
+    positionId: string,
+    soldAmount: number,
+    exitPrice: number,
+    options: {
+      txHash?: string | null;
+      proceedsSol?: number | null;
+      heldAmount?: number | null;
+      priorityFee?: Pick<PriorityFeeEstimate, 'lamports' | 'level'> | null;
+    } = {}
+  ): Promise<PositionSaleResult | null> => {
+    const position = positionsRef.current.find(p => p.id === positionId);
+    if (!position) {
+      forceNextFetchRef.current = true;
+      fetchPositions(true);
+      return null;
+    }
+
+    const safeExitPrice = Number.isFinite(exitPrice) && exitPrice > 0
+      ? exitPrice
+      : (position.current_price ?? position.entry_price);
+    const heldAmount = options.heldAmount && options.heldAmount > 0 ? options.heldAmount : position.amount;
+
+    const sale = applyPositionSale(
+      { ...position, amount: heldAmount },
+      { soldAmount, exitPrice: safeExitPrice, proceedsSol: options.proceedsSol }
+    );
+
+    try {
+      if (sale.isFullExit) {
+        const closed = await closePosition(positionId, safeExitPrice, options.txHash);
+        if (!closed) return null;
+      } else {
+        const entryPriceForCalc = position.entry_price_usd ?? position.entry_price;
+        const profitLossPercent = entryPriceForCalc > 0
+          ? ((safeExitPrice - entryPriceForCalc) / entryPriceForCalc) * 100
+          : 0;
+
+        const { error } = await supabase
+          .from('positions')
+          .update({
+            amount: sale.remainingAmount,
+            remaining_fraction: sale.remainingFraction,
+            realized_pnl_sol: sale.totalRealizedPnlSol,
+            current_price: safeExitPrice,
+            current_value: sale.remainingAmount * safeExitPrice,
+            profit_loss_percent: profitLossPercent,
+            profit_loss_value: sale.remainingCostBasisSol * (profitLossPercent / 100),
+          })
+          .eq('id', positionId);
+
+        if (error) throw error;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const { error: historyError } = await supabase.from('trade_history').insert({
+          user_id: user.id,
+          position_id: positionId,
+          token_address: position.token_address,
+          token_symbol: position.token_symbol,
+          token_name: position.token_name,
+          trade_type: 'sell',
+          amount: sale.soldAmount,
+          price_sol: options.proceedsSol && sale.soldAmount > 0 ? options.proceedsSol / sale.soldAmount : null,
+          price_usd: safeExitPrice,
+          status: 'confirmed',
+          tx_hash: options.txHash ?? null,
+          realized_pnl_sol: sale.realizedPnlSol,
+          priority_fee_lamports: options.priorityFee?.lamports ?? null,
+          priority_fee_level: options.priorityFee?.level ?? null,
+        });
+        if (historyError) console.error('Failed to log sell to trade_history:', historyError);
+
+        // Keep the fill history in step so the multi-entry cost basis still covers what's held
+        const { error: fillError } = await supabase.from('position_fills').insert({
+          user_id: user.id,
+          position_id: positionId,
+          side: 'sell',
+          amount: sale.soldAmount,
+          sol_amount: options.proceedsSol ?? 0,
+          price: safeExitPrice,
+          price_usd: safeExitPrice,
+          tx_hash: options.txHash ?? null,
+        });
+        if (fillError) console.error('Failed to record sell fill:', fillError);
+      }
+
+      forceNextFetchRef.current = true;
+      fetchPositions(true);
+      return sale;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error updating position',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [toast, fetchPositions, closePosition]);
+
   // Fetch real-time prices for open positions and update UI state
   // CRITICAL: Use entry_price_usd for P&L calculations to ensure unit consistency
   // Uses deep comparison to only update positions whose prices have actually changed
@@ -518,13 +677,16 @@ export function usePositions() {
           
           const currentValue = p.amount * currentPriceUsd;
           
+          // Multi-entry positions: average cost from the fill history when it covers what's held
+          const fillSummary = positionFillSummary(p, p.fills);
+
           // CRITICAL: Use entry_price_usd for P&L if available, otherwise use entry_price
           // This ensures unit consistency (USD vs USD)
-          const entryPriceForCalc = p.entry_price_usd ?? p.entry_price;
+          const entryPriceForCalc = fillSummary?.avgEntryPriceUsd ?? p.entry_price_usd ?? p.entry_price;
           
-          // Use entry_value (actual SOL invested) for P&L dollar value calculation
+          // Use the SOL cost basis of what's still held (entry_value, shrunk by partial sells)
           // This is more accurate than amount * entry_price for tiny token amounts
-          const entryValueForCalc = p.entry_value ?? (p.amount * entryPriceForCalc);
+          const costBasisForCalc = fillSummary?.costBasisSol ?? positionCostBasisSol(p);
           
           // If we didn't have entry_price_usd, try to backfill it from current price structure
           // This handles legacy positions that were stored with SOL entry prices
@@ -541,10 +703,10 @@ export function usePositions() {
           const MAX_REASONABLE_LOSS = -99.99;
           profitLossPercent = Math.max(MAX_REASONABLE_LOSS, Math.min(MAX_REASONABLE_GAIN, profitLossPercent));
           
-          // P&L $ value uses entry_value (SOL invested) as baseline for accuracy
-          // Formula: entryValue * (1 + profitLossPercent/100) - entryValue
-          // Which simplifies to: entryValue * profitLossPercent/100
-          const profitLossValue = entryValueForCalc * (profitLossPercent / 100);
+          // P&L $ value uses the remaining cost basis (SOL invested) as baseline for accuracy
+          // Formula: costBasis * (1 + profitLossPercent/100) - costBasis
+          // Which simplifies to: costBasis * profitLossPercent/100
+          const profitLossValue = costBasisForCalc * (profitLossPercent / 100);
 
           // Check if metadata needs enrichment (name/symbol are placeholders)
           const needsMetadataEnrichment = isPlaceholderText(p.token_name) || isPlaceholderText(p.token_symbol);
@@ -706,6 +868,7 @@ export function usePositions() {
     createPosition,
     checkExitConditions,
     closePosition,
+    recordPositionSale,
     updatePricesFromDexScreener,
   };
 }
\ No newline at end of file
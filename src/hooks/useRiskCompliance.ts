@@ -2,8 +2,11 @@ import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import type { GuardrailStatus, GuardrailUsage } from '@/lib/riskGuardrails';
+import { DEFAULT_HOLDER_RISK_SETTINGS, type HolderAnalysis, type HolderRiskSettings } from '@/lib/holderAnalysis';
+import type { SellSimulation, SellSimulationStatus } from '@/lib/sellSimulation';
 
-export interface RiskSettings {
+export interface RiskSettings extends HolderRiskSettings {
   emergency_stop_active: boolean;
   circuit_breaker_enabled: boolean;
   circuit_breaker_loss_threshold: number;
@@ -13,6 +16,10 @@ export interface RiskSettings {
   require_ownership_renounced: boolean;
   require_liquidity_locked: boolean;
   max_tax_percent: number;
+  max_daily_loss_sol: number;     // 0 = off
+  max_open_exposure_sol: number;  // 0 = off
+  max_token_exposure_sol: number; // 0 = off
+  max_trades_per_hour: number;    // 0 = off
 }
 
 export interface RiskCheckResult {
@@ -25,7 +32,19 @@ export interface RiskCheckResult {
     ownershipRenounced: { passed: boolean; renounced: boolean };
     liquidityLocked: { passed: boolean; locked: boolean; percentage: number | null };
     taxCheck: { passed: boolean; buyTax: number; sellTax: number };
+    holders?: {
+      passed: boolean;
+      analyzed: boolean;
+      holderCount: number | null;
+      topHolderPercent: number | null;
+      top10Percent: number | null;
+      clusteredPercent: number | null;
+      devHoldingPercent: number | null;
+    };
+    sellSimulation?: { passed: boolean; status: SellSimulationStatus | null; reason: string };
   };
+  holderAnalysis?: HolderAnalysis | null;
+  sellSimulation?: SellSimulation | null;
   rejectionReasons: string[];
   circuitBreakerTriggered: boolean;
   emergencyStopActive: boolean;
@@ -46,6 +65,9 @@ export interface RiskCheckLog {
   risk_score: number;
   passed_checks: boolean;
   rejection_reasons: string[];
+  top10_holder_percent: number | null;
+  dev_holding_percent: number | null;
+  sell_simulation: SellSimulation | null;
   checked_at: string;
 }
 
@@ -59,6 +81,11 @@ const defaultSettings: RiskSettings = {
   require_ownership_renounced: true,
   require_liquidity_locked: true,
   max_tax_percent: 10,
+  max_daily_loss_sol: 0,
+  max_open_exposure_sol: 0,
+  max_token_exposure_sol: 0,
+  max_trades_per_hour: 0,
+  ...DEFAULT_HOLDER_RISK_SETTINGS,
 };
 
 export function useRiskCompliance() {
@@ -66,6 +93,8 @@ export function useRiskCompliance() {
   const [loading, setLoading] = useState(false);
   const [checkLoading, setCheckLoading] = useState(false);
   const [logs, setLogs] = useState<RiskCheckLog[]>([]);
+  const [guardrails, setGuardrails] = useState<GuardrailStatus[]>([]);
+  const [guardrailUsage, setGuardrailUsage] = useState<GuardrailUsage | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
 
@@ -85,6 +114,20 @@ export function useRiskCompliance() {
     }
   }, [user]);
 
+  const fetchGuardrails = useCallback(async () => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase.functions.invoke('risk-check', {
+        body: { action: 'get_guardrails' },
+      });
+      if (error) throw error;
+      setGuardrails(data.guardrails || []);
+      setGuardrailUsage(data.usage || null);
+    } catch (err: unknown) {
+      console.error('Failed to fetch guardrail usage:', err);
+    }
+  }, [user]);
+
   const updateSettings = useCallback(async (updates: Partial<RiskSettings>) => {
     if (!user) return;
     setLoading(true);
@@ -95,12 +138,13 @@ export function useRiskCompliance() {
       if (error) throw error;
       if (data.settings) setSettings(data.settings);
       toast({ title: 'Settings Updated', description: 'Risk settings saved successfully' });
+      fetchGuardrails();
     } catch (err: any) {
       toast({ title: 'Error', description: err.message, variant: 'destructive' });
     } finally {
       setLoading(false);
     }
-  }, [user, toast]);
+  }, [user, toast, fetchGuardrails]);
 
   const toggleEmergencyStop = useCallback(async (active: boolean) => {
     if (!user) return;
@@ -180,12 +224,19 @@ export function useRiskCompliance() {
     fetchSettings();
   }, [fetchSettings]);
 
+  useEffect(() => {
+    fetchGuardrails();
+  }, [fetchGuardrails]);
+
   return {
     settings,
     loading,
     checkLoading,
     logs,
+    guardrails,
+    guardrailUsage,
     fetchSettings,
+    fetchGuardrails,
     updateSettings,
     toggleEmergencyStop,
     resetCircuitBreaker,
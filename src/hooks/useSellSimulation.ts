@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { SellSimulation, SellSimulationVerdict } from '@/lib/sellSimulation';
+
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * Round-trip sell simulation for one token. risk-check serves it from the per-mint cache
+ * (or simulates a tiny buy + sell) and judges it against the user's max tax.
+ */
+export function useSellSimulation(tokenAddress: string | null | undefined) {
+  const [simulation, setSimulation] = useState<SellSimulation | null>(null);
+  const [verdict, setVerdict] = useState<SellSimulationVerdict | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  const runSimulation = useCallback(async () => {
+    if (!user || !tokenAddress || !SOLANA_ADDRESS.test(tokenAddress)) {
+      setSimulation(null);
+      setVerdict(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('risk-check', {
+        body: { action: 'simulate_sell', tokens: [{ address: tokenAddress }] },
+      });
+      if (error) throw error;
+      setSimulation(data.simulation ?? null);
+      setVerdict(data.verdict ?? null);
+    } catch (err: unknown) {
+      console.error('Failed to run sell simulation:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, tokenAddress]);
+
+  useEffect(() => {
+    runSimulation();
+  }, [runSimulation]);
+
+  return { simulation, verdict, loading, refresh: runSimulation };
+}
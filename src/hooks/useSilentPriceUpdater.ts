@@ -8,6 +8,8 @@
 
 import { useCallback, useRef, useEffect } from 'react';
 import { fetchDexScreenerPrices, isLikelyRealSolanaMint } from '@/lib/dexscreener';
+import { priceSampleBatches } from '@/lib/candles';
+import { supabase } from '@/integrations/supabase/client';
 
 export interface PriceData {
   address: string;
@@ -40,6 +42,20 @@ function hasPriceChanged(oldPrice: number, newPrice: number): boolean {
   return percentChange > 0.01;
 }
 
+/**
+ * Feed fetched prices into token_candles (fire-and-forget; the RPC rejects signed-out sessions)
+ */
+function recordPriceSamples(priceMap: Map<string, { priceUsd: number }>, sampledAt: number): void {
+  const samples = [...priceMap.entries()].map(([tokenAddress, data]) => ({
+    tokenAddress,
+    priceUsd: data.priceUsd,
+    sampledAt,
+  }));
+  for (const batch of priceSampleBatches(samples)) {
+    supabase.rpc('record_price_samples', { samples: batch }).then(() => undefined, () => undefined);
+  }
+}
+
 /**
  * Deep compare price data to determine if an update is needed
  */
@@ -98,6 +114,8 @@ export function useSilentPriceUpdater(
         return;
       }
 
+      recordPriceSamples(priceMap, now);
+
       // Build update map - only include prices that have actually changed
       const updatedPrices = new Map<string, PriceData>();
       
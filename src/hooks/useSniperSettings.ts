@@ -2,9 +2,18 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { normalizeRuleConfig, type SnipeRuleConfig } from '@/lib/sniperRules';
+import { DEFAULT_JITO_SETTINGS, type JitoTipStrategy } from '@/lib/jito';
+import { DEFAULT_MAX_PRIORITY_FEE_SOL } from '@/lib/priorityFees';
 
 export type SnipingPriority = 'normal' | 'fast' | 'turbo';
 
+// A single rung of a take-profit ladder
+export interface TakeProfitStep {
+  profit_percent: number; // P&L % that triggers this step
+  sell_percent: number;   // % of the ORIGINAL position size to sell
+}
+
 export interface SniperSettings {
   id?: string;
   user_id: string;
@@ -22,6 +31,28 @@ export interface SniperSettings {
   slippage_tolerance?: number;
   // Optional max risk score threshold (0-100)
   max_risk_score?: number;
+  // Trailing stop: close the rest when price drops this % below its peak
+  trailing_stop_enabled?: boolean;
+  trailing_stop_percent?: number;
+  // Peak gain % required before the trailing stop arms
+  trailing_stop_activation_percent?: number;
+  // Tiered take-profit ladder (replaces the fixed take profit once configured)
+  take_profit_ladder?: TakeProfitStep[];
+  // Sniper rule chain: per-rule enable flag, array order = evaluation order
+  rule_config?: SnipeRuleConfig[];
+  // Buying a token already held adds to that position at weighted-average cost
+  average_into_positions?: boolean;
+  // token-scanner discovery sources this user skips (source ids from the registry)
+  disabled_token_sources?: string[];
+  // Jito bundle execution for trade-execution swaps
+  jito_enabled?: boolean;
+  jito_tip_lamports?: number;
+  jito_tip_strategy?: JitoTipStrategy;
+  jito_max_tip_lamports?: number;
+  // Slots to wait for the bundle before sending the swap normally
+  jito_fallback_slots?: number;
+  // Upper bound on the priority fee paid per trade, in SOL
+  max_priority_fee_sol?: number;
 }
 
 const defaultSettings: Omit<SniperSettings, 'user_id'> = {
@@ -37,6 +68,19 @@ const defaultSettings: Omit<SniperSettings, 'user_id'> = {
   target_buyer_positions: [1, 2, 3, 4, 5], // Allow all buyer positions 1-5
   slippage_tolerance: 15, // 15% default for meme coins
   max_risk_score: 70, // Default max risk score
+  trailing_stop_enabled: false,
+  trailing_stop_percent: 25, // 25% drawdown from peak
+  trailing_stop_activation_percent: 0, // Armed immediately
+  take_profit_ladder: [],
+  rule_config: normalizeRuleConfig([]),
+  average_into_positions: false,
+  disabled_token_sources: [],
+  jito_enabled: DEFAULT_JITO_SETTINGS.enabled,
+  jito_tip_lamports: DEFAULT_JITO_SETTINGS.tipLamports,
+  jito_tip_strategy: DEFAULT_JITO_SETTINGS.tipStrategy,
+  jito_max_tip_lamports: DEFAULT_JITO_SETTINGS.maxTipLamports,
+  jito_fallback_slots: DEFAULT_JITO_SETTINGS.fallbackSlots,
+  max_priority_fee_sol: DEFAULT_MAX_PRIORITY_FEE_SOL,
 };
 
 export function useSniperSettings() {
@@ -79,6 +123,19 @@ export function useSniperSettings() {
           target_buyer_positions: (typedData.target_buyer_positions as number[]) || [2, 3],
           slippage_tolerance: (typedData.slippage_tolerance as number) ?? defaultSettings.slippage_tolerance,
           max_risk_score: (typedData.max_risk_score as number) ?? defaultSettings.max_risk_score,
+          trailing_stop_enabled: (typedData.trailing_stop_enabled as boolean) ?? defaultSettings.trailing_stop_enabled,
+          trailing_stop_percent: (typedData.trailing_stop_percent as number) ?? defaultSettings.trailing_stop_percent,
+          trailing_stop_activation_percent: (typedData.trailing_stop_activation_percent as number) ?? defaultSettings.trailing_stop_activation_percent,
+          take_profit_ladder: (typedData.take_profit_ladder as TakeProfitStep[]) || [],
+          rule_config: normalizeRuleConfig(typedData.rule_config),
+          average_into_positions: (typedData.average_into_positions as boolean) ?? defaultSettings.average_into_positions,
+          disabled_token_sources: (typedData.disabled_token_sources as string[]) || [],
+          jito_enabled: (typedData.jito_enabled as boolean) ?? defaultSettings.jito_enabled,
+          jito_tip_lamports: (typedData.jito_tip_lamports as number) ?? defaultSettings.jito_tip_lamports,
+          jito_tip_strategy: (typedData.jito_tip_strategy as JitoTipStrategy) ?? defaultSettings.jito_tip_strategy,
+          jito_max_tip_lamports: (typedData.jito_max_tip_lamports as number) ?? defaultSettings.jito_max_tip_lamports,
+          jito_fallback_slots: (typedData.jito_fallback_slots as number) ?? defaultSettings.jito_fallback_slots,
+          max_priority_fee_sol: (typedData.max_priority_fee_sol as number) ?? defaultSettings.max_priority_fee_sol,
         });
       } else {
         // Return default settings for new users
@@ -108,6 +165,9 @@ export function useSniperSettings() {
         ...settings,
         ...newSettings,
         user_id: user.id,
+        // Hand-edited settings no longer match the strategy profile they were loaded from
+        active_profile_id: null,
+        active_profile_version: null,
       };
 
       const { data, error } = await supabase
@@ -134,6 +194,19 @@ export function useSniperSettings() {
         target_buyer_positions: (typedData.target_buyer_positions as number[]) || [2, 3],
         slippage_tolerance: (typedData.slippage_tolerance as number) ?? defaultSettings.slippage_tolerance,
         max_risk_score: (typedData.max_risk_score as number) ?? defaultSettings.max_risk_score,
+        trailing_stop_enabled: (typedData.trailing_stop_enabled as boolean) ?? defaultSettings.trailing_stop_enabled,
+        trailing_stop_percent: (typedData.trailing_stop_percent as number) ?? defaultSettings.trailing_stop_percent,
+        trailing_stop_activation_percent: (typedData.trailing_stop_activation_percent as number) ?? defaultSettings.trailing_stop_activation_percent,
+        take_profit_ladder: (typedData.take_profit_ladder as TakeProfitStep[]) || [],
+        rule_config: normalizeRuleConfig(typedData.rule_config),
+        average_into_positions: (typedData.average_into_positions as boolean) ?? defaultSettings.average_into_positions,
+        disabled_token_sources: (typedData.disabled_token_sources as string[]) || [],
+        jito_enabled: (typedData.jito_enabled as boolean) ?? defaultSettings.jito_enabled,
+        jito_tip_lamports: (typedData.jito_tip_lamports as number) ?? defaultSettings.jito_tip_lamports,
+        jito_tip_strategy: (typedData.jito_tip_strategy as JitoTipStrategy) ?? defaultSettings.jito_tip_strategy,
+        jito_max_tip_lamports: (typedData.jito_max_tip_lamports as number) ?? defaultSettings.jito_max_tip_lamports,
+        jito_fallback_slots: (typedData.jito_fallback_slots as number) ?? defaultSettings.jito_fallback_slots,
+        max_priority_fee_sol: (typedData.max_priority_fee_sol as number) ?? defaultSettings.max_priority_fee_sol,
       });
 
       toast({ title: 'Settings saved successfully' });
@@ -0,0 +1,358 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  needsActivation,
+  profileActivationPatch,
+  resolveScheduledProfile,
+  sanitizeProfileRiskSettings,
+  sanitizeProfileSniperSettings,
+  sanitizeSchedule,
+  type ActivationSource,
+  type ActiveProfileRef,
+  type ScheduleWindow,
+  type StrategyProfile,
+} from '@/lib/strategyProfiles';
+
+export type StrategyProfileUpdate = Partial<Pick<StrategyProfile, 'name' | 'description' | 'schedule_timezone' | 'is_schedule_default'>> & {
+  schedule?: ScheduleWindow[];
+};
+
+export interface ProfileActivation {
+  id: string;
+  profile_id: string | null;
+  profile_name: string;
+  profile_version: number;
+  source: ActivationSource;
+  activated_at: string;
+}
+
+// The browser applies the schedule while open; bot-runner applies it for server-backed bots
+const SCHEDULE_CHECK_INTERVAL_MS = 60_000;
+const ACTIVATION_HISTORY_LIMIT = 20;
+
+/**
+ * Named strategy profiles (strategy_profiles) and which one user_sniper_settings was loaded from.
+ * onActivated runs after a profile's settings were written, so settings screens can refetch.
+ */
+export function useStrategyProfiles(options?: { onActivated?: () => void }) {
+  const [profiles, setProfiles] = useState<StrategyProfile[]>([]);
+  const [active, setActive] = useState<ActiveProfileRef | null>(null);
+  const [scheduleEnabled, setScheduleEnabledState] = useState(false);
+  const [activations, setActivations] = useState<ProfileActivation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const onActivated = options?.onActivated;
+  const lastScheduledAttempt = useRef<{ key: string; at: number } | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!user) {
+      setProfiles([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [profilesResult, settingsResult, activationsResult] = await Promise.all([
+        supabase.from('strategy_profiles').select('*').eq('user_id', user.id).order('name', { ascending: true }),
+        supabase
+          .from('user_sniper_settings')
+          .select('active_profile_id, active_profile_version, profile_schedule_enabled')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('strategy_profile_activations')
+          .select('id, profile_id, profile_name, profile_version, source, activated_at')
+          .eq('user_id', user.id)
+          .order('activated_at', { ascending: false })
+          .limit(ACTIVATION_HISTORY_LIMIT),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      setProfiles((profilesResult.data || []) as StrategyProfile[]);
+      setActive(settingsResult.data
+        ? { active_profile_id: settingsResult.data.active_profile_id, active_profile_version: settingsResult.data.active_profile_version }
+        : null);
+      setScheduleEnabledState(settingsResult.data?.profile_schedule_enabled ?? false);
+      setActivations((activationsResult.data || []) as ProfileActivation[]);
+    } catch (error: unknown) {
+      console.error('Failed to fetch strategy profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setProfiles([]);
+      return;
+    }
+
+    fetchProfiles();
+
+    const channel = supabase
+      .channel(`strategy-profiles-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'strategy_profiles',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchProfiles()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchProfiles]);
+
+  // The saved settings as a profile snapshot - what the bot trades with right now
+  const snapshotCurrentSettings = useCallback(async () => {
+    if (!user) throw new Error('Not signed in');
+    const [{ data: sniper, error: sniperError }, { data: risk, error: riskError }] = await Promise.all([
+      supabase.from('user_sniper_settings').select('*').eq('user_id', user.id).maybeSingle(),
+      supabase.from('risk_settings' as never).select('*').eq('user_id', user.id).maybeSingle(),
+    ]);
+    if (sniperError) throw sniperError;
+    if (riskError) throw riskError;
+    if (!sniper) throw new Error('Save your sniper settings before creating a profile');
+    return {
+      sniper_settings: sanitizeProfileSniperSettings(sniper) as Json,
+      risk_settings: sanitizeProfileRiskSettings(risk) as Json,
+    };
+  }, [user]);
+
+  const createProfile = useCallback(async (name: string, description?: string) => {
+    if (!user) return null;
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast({ title: 'Name required', description: 'Give the profile a name', variant: 'destructive' });
+      return null;
+    }
+
+    setBusy(true);
+    try {
+      const snapshot = await snapshotCurrentSettings();
+      const { data, error } = await supabase
+        .from('strategy_profiles')
+        .insert({
+          user_id: user.id,
+          name: trimmed,
+          description: description?.trim() || null,
+          schedule_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+          ...snapshot,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      const profile = data as StrategyProfile;
+      setProfiles(prev => [...prev, profile].sort((a, b) => a.name.localeCompare(b.name)));
+      toast({ title: 'Profile saved', description: `"${trimmed}" captures your current settings` });
+      return profile;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({ title: 'Error saving profile', description: err.message, variant: 'destructive' });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, [user, snapshotCurrentSettings, toast]);
+
+  const updateProfile = useCallback(async (id: string, updates: StrategyProfileUpdate) => {
+    if (!user) return false;
+    const previous = profiles;
+    const row = updates.schedule ? { ...updates, schedule: sanitizeSchedule(updates.schedule) as unknown as Json } : updates;
+    setProfiles(prev => prev.map(p => {
+      if (p.id === id) return { ...p, ...row };
+      return updates.is_schedule_default ? { ...p, is_schedule_default: false } : p;
+    }));
+
+    try {
+      // Only one default per user (unique index)
+      if (updates.is_schedule_default) {
+        const { error } = await supabase
+          .from('strategy_profiles')
+          .update({ is_schedule_default: false })
+          .eq('user_id', user.id)
+          .eq('is_schedule_default', true)
+          .neq('id', id);
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from('strategy_profiles')
+        .update(row as { name?: string; description?: string | null; schedule?: Json; schedule_timezone?: string; is_schedule_default?: boolean })
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      setProfiles(previous);
+      toast({ title: 'Error updating profile', description: err.message, variant: 'destructive' });
+      return false;
+    }
+  }, [user, profiles, toast]);
+
+  // Overwrite a profile's settings with the saved ones (new version); if it's the active one it stays active
+  const updateProfileFromCurrent = useCallback(async (id: string) => {
+    if (!user) return false;
+    setBusy(true);
+    try {
+      const snapshot = await snapshotCurrentSettings();
+      const { data, error } = await supabase
+        .from('strategy_profiles')
+        .update(snapshot)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      const profile = data as StrategyProfile;
+      setProfiles(prev => prev.map(p => (p.id === id ? profile : p)));
+
+      if (active?.active_profile_id === id) {
+        await supabase
+          .from('user_sniper_settings')
+          .update({ active_profile_version: profile.version })
+          .eq('user_id', user.id);
+        setActive({ active_profile_id: id, active_profile_version: profile.version });
+      }
+
+      toast({ title: 'Profile updated', description: `"${profile.name}" is now version ${profile.version}` });
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({ title: 'Error updating profile', description: err.message, variant: 'destructive' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }, [user, active, snapshotCurrentSettings, toast]);
+
+  // Positions keep the profile name they were opened under
+  const deleteProfile = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('strategy_profiles')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setProfiles(prev => prev.filter(p => p.id !== id));
+      if (active?.active_profile_id === id) setActive(null);
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({ title: 'Error deleting profile', description: err.message, variant: 'destructive' });
+      return false;
+    }
+  }, [active, toast]);
+
+  const activateProfile = useCallback(async (profile: StrategyProfile, source: ActivationSource = 'manual') => {
+    if (!user) return false;
+    setBusy(true);
+    try {
+      const patch = profileActivationPatch(profile);
+      const { error: sniperError } = await supabase
+        .from('user_sniper_settings')
+        .upsert({ ...patch.sniper, user_id: user.id } as never, { onConflict: 'user_id' });
+      if (sniperError) throw sniperError;
+
+      if (Object.keys(patch.risk).length > 0) {
+        const { error: riskError } = await supabase
+          .from('risk_settings' as never)
+          .upsert({ ...patch.risk, user_id: user.id } as never, { onConflict: 'user_id' });
+        if (riskError) throw riskError;
+      }
+
+      const { data: activation } = await supabase
+        .from('strategy_profile_activations')
+        .insert({
+          user_id: user.id,
+          profile_id: profile.id,
+          profile_name: profile.name,
+          profile_version: profile.version,
+          source,
+        })
+        .select('id, profile_id, profile_name, profile_version, source, activated_at')
+        .single();
+
+      setActive({ active_profile_id: profile.id, active_profile_version: profile.version });
+      if (activation) setActivations(prev => [activation as ProfileActivation, ...prev].slice(0, ACTIVATION_HISTORY_LIMIT));
+      toast({
+        title: source === 'schedule' ? 'Scheduled profile activated' : 'Profile activated',
+        description: `Now trading with "${profile.name}"`,
+      });
+      onActivated?.();
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({ title: 'Error activating profile', description: err.message, variant: 'destructive' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }, [user, toast, onActivated]);
+
+  const setScheduleEnabled = useCallback(async (enabled: boolean) => {
+    if (!user) return;
+    setScheduleEnabledState(enabled);
+    const { error } = await supabase
+      .from('user_sniper_settings')
+      .upsert({ user_id: user.id, profile_schedule_enabled: enabled }, { onConflict: 'user_id' });
+    if (error) {
+      setScheduleEnabledState(!enabled);
+      toast({ title: 'Error updating schedule', description: error.message, variant: 'destructive' });
+    }
+  }, [user, toast]);
+
+  const scheduledProfile = scheduleEnabled ? resolveScheduledProfile(profiles, new Date()) : null;
+
+  // Switch when a window opens or closes while the page is open
+  useEffect(() => {
+    if (!scheduleEnabled || loading || busy) return;
+
+    const check = () => {
+      const target = resolveScheduledProfile(profiles, new Date());
+      if (!target || !needsActivation(active, target)) return;
+
+      // A failed switch is retried on the next tick, not on every re-render
+      const key = `${target.id}:${target.version}`;
+      const last = lastScheduledAttempt.current;
+      if (last?.key === key && Date.now() - last.at < SCHEDULE_CHECK_INTERVAL_MS) return;
+      lastScheduledAttempt.current = { key, at: Date.now() };
+      activateProfile(target, 'schedule');
+    };
+
+    check();
+    const interval = setInterval(check, SCHEDULE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [scheduleEnabled, loading, busy, profiles, active, activateProfile]);
+
+  return {
+    profiles,
+    activeProfileId: active?.active_profile_id ?? null,
+    activeProfileVersion: active?.active_profile_version ?? null,
+    scheduleEnabled,
+    scheduledProfile,
+    activations,
+    loading,
+    busy,
+    createProfile,
+    updateProfile,
+    updateProfileFromCurrent,
+    deleteProfile,
+    activateProfile,
+    setScheduleEnabled,
+    refetch: fetchProfiles,
+  };
+}
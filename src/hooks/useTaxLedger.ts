@@ -0,0 +1,102 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { exportRealizedGainsToCSV, exportTaxLedgerToCSV } from '@/lib/exportUtils';
+import {
+  buildTaxLedger,
+  ledgerTradesFromHistory,
+  summarizeRealizedGains,
+  type LotMethod,
+  type LotSelection,
+  type RealizedGainsSummary,
+  type TradeHistoryLedgerRow,
+} from '@/lib/taxLots';
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 50000;
+
+/**
+ * Tax-lot exports over the user's whole trade_history.
+ * The ledger is rebuilt on each export, since lot matching depends on every earlier trade.
+ */
+export function useTaxLedger() {
+  const [exporting, setExporting] = useState(false);
+  const { user } = useAuth();
+
+  const loadLedger = useCallback(async (method: LotMethod) => {
+    if (!user) throw new Error('Sign in to export tax reports');
+    const rows: TradeHistoryLedgerRow[] = [];
+    for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('trade_history')
+        .select('id, created_at, trade_type, status, token_address, token_symbol, wallet_address, position_id, amount, price_sol, price_usd, quoted_price_sol, priority_fee_lamports, network_fee_lamports, tx_hash, positions(entry_price_usd, chain)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      rows.push(...((data || []) as TradeHistoryLedgerRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const selections: LotSelection[] = [];
+    if (method === 'specific') {
+      const { data, error } = await supabase
+        .from('tax_lot_selections')
+        .select('sell_trade_id, lot_trade_id, amount')
+        .eq('user_id', user.id);
+      if (error) throw error;
+      selections.push(...(data || []).map((row) => ({
+        sellTradeId: row.sell_trade_id,
+        lotId: row.lot_trade_id,
+        amount: Number(row.amount),
+      })));
+    }
+
+    const ledger = buildTaxLedger(ledgerTradesFromHistory(rows), method, selections);
+    ledger.warnings.forEach((warning) => console.warn('[TaxLedger]', warning));
+    return ledger;
+  }, [user]);
+
+  const exportLedger = useCallback(async (method: LotMethod) => {
+    setExporting(true);
+    try {
+      const ledger = await loadLedger(method);
+      exportTaxLedgerToCSV(ledger);
+      return ledger.warnings;
+    } finally {
+      setExporting(false);
+    }
+  }, [loadLedger]);
+
+  const exportRealizedGains = useCallback(async (method: LotMethod, year: number): Promise<RealizedGainsSummary> => {
+    setExporting(true);
+    try {
+      const ledger = await loadLedger(method);
+      exportRealizedGainsToCSV(ledger, year);
+      return summarizeRealizedGains(ledger, year);
+    } finally {
+      setExporting(false);
+    }
+  }, [loadLedger]);
+
+  // Replace the lots identified for one sale; an empty list falls back to FIFO
+  const saveLotSelections = useCallback(async (sellTradeId: string, picks: { lotId: string; amount: number }[]) => {
+    if (!user) throw new Error('Sign in to identify tax lots');
+    const { error: deleteError } = await supabase
+      .from('tax_lot_selections')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('sell_trade_id', sellTradeId);
+    if (deleteError) throw deleteError;
+
+    const rows = picks
+      .filter((pick) => pick.amount > 0)
+      .map((pick) => ({ user_id: user.id, sell_trade_id: sellTradeId, lot_trade_id: pick.lotId, amount: pick.amount }));
+    if (rows.length === 0) return;
+    const { error } = await supabase.from('tax_lot_selections').insert(rows);
+    if (error) throw error;
+  }, [user]);
+
+  return { exporting, loadLedger, exportLedger, exportRealizedGains, saveLotSelections };
+}
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_CANDLE_LIMIT,
+  fillCandleGaps,
+  tradeMarkers,
+  type Candle,
+  type CandleResolution,
+  type TradeMarker,
+} from '@/lib/candles';
+
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const REFRESH_INTERVAL_MS = 30000;
+
+/**
+ * OHLCV candles for one token plus markers for the user's own buys and sells.
+ * token-candles serves sampled candles and, when GeckoTerminal is configured, backfills from the pool.
+ */
+export function useTokenCandles(
+  tokenAddress: string | null | undefined,
+  pairAddress: string | null | undefined,
+  resolution: CandleResolution
+) {
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [markers, setMarkers] = useState<TradeMarker[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  const fetchCandles = useCallback(async () => {
+    if (!user || !tokenAddress || !SOLANA_ADDRESS.test(tokenAddress)) {
+      setCandles([]);
+      setMarkers([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const [candleResult, tradesResult] = await Promise.all([
+        supabase.functions.invoke('token-candles', {
+          body: {
+            tokenAddress,
+            pairAddress: pairAddress && SOLANA_ADDRESS.test(pairAddress) ? pairAddress : undefined,
+            resolution,
+            limit: DEFAULT_CANDLE_LIMIT,
+          },
+        }),
+        supabase
+          .from('trade_history')
+          .select('trade_type, price_usd, amount, tx_hash, created_at')
+          .eq('user_id', user.id)
+          .eq('token_address', tokenAddress)
+          .order('created_at', { ascending: true }),
+      ]);
+      if (candleResult.error) throw candleResult.error;
+      if (tradesResult.error) throw tradesResult.error;
+
+      const filled = fillCandleGaps((candleResult.data?.candles ?? []) as Candle[], resolution);
+      setCandles(filled);
+      setMarkers(tradeMarkers(tradesResult.data ?? [], filled, resolution));
+    } catch (err: unknown) {
+      console.error('Failed to fetch token candles:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, tokenAddress, pairAddress, resolution]);
+
+  useEffect(() => {
+    fetchCandles();
+    const interval = setInterval(fetchCandles, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchCandles]);
+
+  return { candles, markers, loading, refresh: fetchCandles };
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { listTokenSources, type TokenSourceConfig, type TokenSourceDescriptor } from '@/lib/tokenSources';
+
+// Discovery sources token-scanner can run for this platform (built-ins plus custom indexers)
+export function useTokenSources() {
+  const [sources, setSources] = useState<TokenSourceDescriptor[]>(() => listTokenSources([]));
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('api_configurations')
+          .select('id, api_type, api_name, base_url, is_enabled, rate_limit_per_minute');
+
+        if (error) throw error;
+        // Keys aren't needed to list sources
+        const configs: TokenSourceConfig[] = (data || []).map(c => ({ ...c, api_key_encrypted: null }));
+        if (!cancelled) setSources(listTokenSources(configs));
+      } catch (error: unknown) {
+        console.error('Failed to load token sources:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { sources, loading };
+}
@@ -1,8 +1,19 @@
 import { useState, useCallback } from 'react';
-import { VersionedTransaction } from '@solana/web3.js';
+import { PublicKey, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAppMode } from '@/contexts/AppModeContext';
+import type { JitoBundlePlan, JitoBundleStatus } from '@/lib/jito';
+import type { PriorityFeeEstimate } from '@/lib/priorityFees';
+import {
+  EVM_NATIVE_TOKEN,
+  explorerTxUrl,
+  isEvmChain,
+  isEvmNativeToken,
+  type EvmChain,
+  type EvmTransactionRequest,
+  type ExecutionChain,
+} from '@/lib/executionAdapter';
 
 // Common token addresses
 export const SOL_MINT = 'So11111111111111111111111111111111111111112';
@@ -14,6 +25,7 @@ export type TransactionStatus =
   | 'building_tx' 
   | 'awaiting_signature' 
   | 'broadcasting' 
+  | 'bundling' 
   | 'confirming' 
   | 'confirmed' 
   | 'failed';
@@ -40,6 +52,8 @@ export interface TradeParams {
   tokenName?: string;
   profitTakePercent?: number;
   stopLossPercent?: number;
+  // Defaults to solana. EVM amounts are in wei, with EVM_NATIVE_TOKEN as the ETH / BNB side
+  chain?: ExecutionChain;
 }
 
 export interface TradeResult {
@@ -49,14 +63,37 @@ export interface TradeResult {
   quote?: TradeQuote;
   error?: string;
   explorerUrl?: string;
+  // Priority fee trade-execution sized for this swap
+  priorityFee?: PriorityFeeEstimate;
 }
 
-interface SignAndSendResult {
+export interface SignAndSendResult {
   signature: string;
   success: boolean;
   error?: string;
 }
 
+// Signs without sending - needed to submit the swap and the tip transfer together as a Jito bundle
+export type SignAllTransactions = (transactions: VersionedTransaction[]) => Promise<VersionedTransaction[] | null>;
+
+// useWallet().sendEvmTransaction
+export type SendEvmTransaction = (tx: EvmTransactionRequest, waitForReceipt?: boolean) => Promise<SignAndSendResult>;
+
+export interface EvmSellOptions {
+  chain: EvmChain;
+  sendEvm: SendEvmTransaction;
+  sellFraction?: number; // Share of the wallet's balance, resolved on-chain by trade-execution
+}
+
+export interface JitoBundleState {
+  status: JitoBundleStatus;
+  tipLamports: number;
+  bundleId?: string | null;
+  landedSlot?: number | null;
+  slotsWaited?: number;
+  error?: string;
+}
+
 function base64ToBytes(base64: string): Uint8Array {
   // Browser-safe base64 decode (avoids Node's Buffer)
   const bin = globalThis.atob(base64);
@@ -65,16 +102,89 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
+function bytesToBase64(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return globalThis.btoa(bin);
+}
+
+// Tip transfer to a Jito tip account, sharing the swap's blockhash so both expire together
+function buildTipTransaction(walletAddress: string, swap: VersionedTransaction, jito: JitoBundlePlan): VersionedTransaction {
+  const payer = new PublicKey(walletAddress);
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: swap.message.recentBlockhash,
+    instructions: [
+      SystemProgram.transfer({
+        fromPubkey: payer,
+        toPubkey: new PublicKey(jito.tipAccount),
+        lamports: jito.tipLamports,
+      }),
+    ],
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+// Send trade-execution's EVM transactions in order - approvals must be mined before the swap spends them
+export async function sendEvmSwap(transactions: EvmTransactionRequest[], sendEvm: SendEvmTransaction): Promise<SignAndSendResult> {
+  let result: SignAndSendResult = { signature: '', success: false, error: 'No transaction to send' };
+  for (const tx of transactions) {
+    result = await sendEvm(tx, tx.kind === 'approve');
+    if (!result.success) break;
+  }
+  return result;
+}
+
 export function useTradeExecution() {
   const [status, setStatus] = useState<TransactionStatus>('idle');
   const [currentQuote, setCurrentQuote] = useState<TradeQuote | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [txSignature, setTxSignature] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<JitoBundleState | null>(null);
   const { toast } = useToast();
   const { mode } = useAppMode();
 
   const isDemo = mode === 'demo';
 
+  // Sign swap + tip together and let jito-bundle submit them; it sends the swap alone if the bundle doesn't land
+  const signAndSendBundle = useCallback(async (
+    transaction: VersionedTransaction,
+    jito: JitoBundlePlan,
+    walletAddress: string,
+    signAll: SignAllTransactions
+  ): Promise<SignAndSendResult> => {
+    const signed = await signAll([transaction, buildTipTransaction(walletAddress, transaction, jito)]);
+    if (!signed || signed.length !== 2) {
+      return { signature: '', success: false, error: 'Transaction rejected' };
+    }
+
+    setStatus('bundling');
+    setBundle({ status: 'pending', tipLamports: jito.tipLamports });
+
+    const { data, error: bundleError } = await supabase.functions.invoke('jito-bundle', {
+      body: {
+        transactions: signed.map(tx => bytesToBase64(tx.serialize())),
+        fallbackSlots: jito.fallbackSlots,
+      },
+    });
+
+    if (bundleError || !data?.signature) {
+      const message = data?.error || bundleError?.message || 'Bundle submission failed';
+      setBundle({ status: 'failed', tipLamports: jito.tipLamports, error: message });
+      return { signature: '', success: false, error: message };
+    }
+
+    setBundle({
+      status: data.status,
+      tipLamports: jito.tipLamports,
+      bundleId: data.bundleId,
+      landedSlot: data.landedSlot,
+      slotsWaited: data.slotsWaited,
+      error: data.error,
+    });
+    return { signature: data.signature, success: data.success, error: data.error };
+  }, []);
+
   // Get a quote without building transaction
   const getQuote = useCallback(async (params: Omit<TradeParams, 'priorityLevel'>): Promise<TradeQuote | null> => {
     if (isDemo) {
@@ -135,7 +245,9 @@ export function useTradeExecution() {
   const executeTrade = useCallback(async (
     params: TradeParams,
     walletAddress: string,
-    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>
+    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>,
+    signAll?: SignAllTransactions,
+    sendEvm?: SendEvmTransaction
   ): Promise<TradeResult> => {
     // Demo mode simulation
     if (isDemo) {
@@ -181,6 +293,7 @@ export function useTradeExecution() {
     setStatus('fetching_quote');
     setError(null);
     setTxSignature(null);
+    setBundle(null);
 
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -204,6 +317,7 @@ export function useTradeExecution() {
           tokenName: params.tokenName,
           profitTakePercent: params.profitTakePercent,
           stopLossPercent: params.stopLossPercent,
+          chain: params.chain,
         },
       });
 
@@ -211,17 +325,30 @@ export function useTradeExecution() {
       if (data.error) throw new Error(data.error);
 
       const quote = data.quote as TradeQuote;
+      const priorityFee = data.priorityFee as PriorityFeeEstimate | undefined;
+      const chain: ExecutionChain = data.chain ?? 'solana';
       setCurrentQuote(quote);
 
       // Step 2: Deserialize and sign transaction
       setStatus('awaiting_signature');
-      
-      const swapTransactionBytes = base64ToBytes(data.swapTransaction);
-      const transaction = VersionedTransaction.deserialize(swapTransactionBytes);
 
-      // Step 3: Sign and send
-      setStatus('broadcasting');
-      const signResult = await signAndSend(transaction);
+      let signResult: SignAndSendResult;
+      if (isEvmChain(chain)) {
+        if (!sendEvm) throw new Error('Connect an EVM wallet to trade this token');
+        signResult = await sendEvmSwap(data.transactions, sendEvm);
+      } else {
+        const swapTransactionBytes = base64ToBytes(data.swapTransaction);
+        const transaction = VersionedTransaction.deserialize(swapTransactionBytes);
+
+        // Step 3: Sign and send (as a Jito bundle when enabled and the wallet can sign without sending)
+        const jito = data.jito as JitoBundlePlan | null;
+        if (jito && signAll) {
+          signResult = await signAndSendBundle(transaction, jito, walletAddress, signAll);
+        } else {
+          setStatus('broadcasting');
+          signResult = await signAndSend(transaction);
+        }
+      }
 
       if (!signResult.success) {
         throw new Error(signResult.error || 'Transaction rejected');
@@ -235,7 +362,9 @@ export function useTradeExecution() {
         body: {
           signature: signResult.signature,
           positionId: data.positionId,
+          fillId: data.fillId,
           action: 'buy',
+          chain,
         },
       });
 
@@ -252,12 +381,32 @@ export function useTradeExecution() {
           description: `Successfully swapped ${params.tokenSymbol || 'token'}`,
         });
 
+        // Log buys with the priority fee paid so overpaying shows up in Transaction History
+        if ((params.inputMint === SOL_MINT || isEvmNativeToken(params.inputMint)) && quote.outputAmountDecimal > 0) {
+          const { error: historyError } = await supabase.from('trade_history').insert({
+            user_id: session.user.id,
+            position_id: data.positionId ?? null,
+            token_address: params.outputMint,
+            token_symbol: params.tokenSymbol || null,
+            token_name: params.tokenName || params.tokenSymbol || null,
+            trade_type: 'buy',
+            amount: quote.outputAmountDecimal,
+            price_sol: quote.inputAmountDecimal / quote.outputAmountDecimal,
+            status: 'confirmed',
+            tx_hash: signResult.signature,
+            priority_fee_lamports: priorityFee?.lamports ?? null,
+            priority_fee_level: priorityFee?.level ?? null,
+          });
+          if (historyError) console.error('Failed to log trade history:', historyError);
+        }
+
         return {
           success: true,
           signature: signResult.signature,
           positionId: data.positionId,
           quote,
-          explorerUrl: `https://solscan.io/tx/${signResult.signature}`,
+          explorerUrl: explorerTxUrl(chain, signResult.signature),
+          priorityFee,
         };
       } else {
         setStatus('failed');
@@ -274,7 +423,7 @@ export function useTradeExecution() {
           success: false,
           signature: signResult.signature,
           error: failError,
-          explorerUrl: `https://solscan.io/tx/${signResult.signature}`,
+          explorerUrl: explorerTxUrl(chain, signResult.signature),
         };
       }
     } catch (err: any) {
@@ -293,7 +442,7 @@ export function useTradeExecution() {
         error: message,
       };
     }
-  }, [isDemo, toast]);
+  }, [isDemo, toast, signAndSendBundle]);
 
   // Sell/close a position
   const sellPosition = useCallback(async (
@@ -301,7 +450,9 @@ export function useTradeExecution() {
     amount: string,
     positionId: string,
     walletAddress: string,
-    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>
+    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>,
+    signAll?: SignAllTransactions,
+    evm?: EvmSellOptions
   ): Promise<TradeResult> => {
     if (isDemo) {
       setStatus('confirmed');
@@ -314,6 +465,7 @@ export function useTradeExecution() {
 
     setStatus('fetching_quote');
     setError(null);
+    setBundle(null);
 
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -328,24 +480,38 @@ export function useTradeExecution() {
         body: {
           action: 'execute',
           inputMint: tokenMint,
-          outputMint: SOL_MINT,
+          outputMint: evm ? EVM_NATIVE_TOKEN : SOL_MINT,
           amount,
           slippageBps: 150, // Slightly higher for sells
           userPublicKey: walletAddress,
           priorityLevel: 'high', // Fast exit
+          chain: evm?.chain,
+          sellFraction: evm?.sellFraction,
         },
       });
 
       if (fnError) throw fnError;
       if (data.error) throw new Error(data.error);
 
+      const sellQuote = data.quote as TradeQuote | undefined;
+
       // Sign and send
       setStatus('awaiting_signature');
-      const swapTransactionBytes = base64ToBytes(data.swapTransaction);
-      const transaction = VersionedTransaction.deserialize(swapTransactionBytes);
-
-      setStatus('broadcasting');
-      const signResult = await signAndSend(transaction);
+      let signResult: SignAndSendResult;
+      if (evm) {
+        signResult = await sendEvmSwap(data.transactions, evm.sendEvm);
+      } else {
+        const swapTransactionBytes = base64ToBytes(data.swapTransaction);
+        const transaction = VersionedTransaction.deserialize(swapTransactionBytes);
+
+        const jito = data.jito as JitoBundlePlan | null;
+        if (jito && signAll) {
+          signResult = await signAndSendBundle(transaction, jito, walletAddress, signAll);
+        } else {
+          setStatus('broadcasting');
+          signResult = await signAndSend(transaction);
+        }
+      }
 
       if (!signResult.success) {
         throw new Error(signResult.error || 'Transaction rejected');
@@ -360,6 +526,11 @@ export function useTradeExecution() {
           signature: signResult.signature,
           positionId,
           action: 'sell',
+          chain: evm?.chain,
+          // Lets confirm-transaction record how far the fill landed from the quote
+          quotedPrice: sellQuote && sellQuote.inputAmountDecimal > 0
+            ? sellQuote.outputAmountDecimal / sellQuote.inputAmountDecimal
+            : undefined,
         },
       });
 
@@ -375,7 +546,8 @@ export function useTradeExecution() {
           signature: signResult.signature,
           positionId,
           quote: data.quote,
-          explorerUrl: `https://solscan.io/tx/${signResult.signature}`,
+          explorerUrl: explorerTxUrl(evm?.chain ?? 'solana', signResult.signature),
+          priorityFee: data.priorityFee,
         };
       } else {
         throw new Error(confirmData?.error || 'Failed to confirm sell');
@@ -396,13 +568,14 @@ export function useTradeExecution() {
         error: message,
       };
     }
-  }, [isDemo, toast]);
+  }, [isDemo, toast, signAndSendBundle]);
 
   const reset = useCallback(() => {
     setStatus('idle');
     setCurrentQuote(null);
     setError(null);
     setTxSignature(null);
+    setBundle(null);
   }, []);
 
   return {
@@ -410,6 +583,7 @@ export function useTradeExecution() {
     currentQuote,
     error,
     txSignature,
+    bundle,
     isDemo,
     getQuote,
     executeTrade,
@@ -16,6 +16,7 @@ export interface TradeHistoryEntry {
   price_usd: number | null;
   status: string | null;
   tx_hash: string | null;
+  wallet_address?: string | null;
   created_at: string;
 }
 
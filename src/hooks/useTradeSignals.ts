@@ -188,11 +188,28 @@ export function useTradeSignals() {
         .eq('id', signal.id);
 
       // Step 5: Update position status if created
-      if (tradeData.positionId) {
+      if (tradeData.averaged) {
+        // Bought into an existing position - confirm-transaction folds the fill in at average cost
+        await supabase.functions.invoke('confirm-transaction', {
+          body: {
+            signature: signResult.signature,
+            positionId: tradeData.positionId,
+            fillId: tradeData.fillId,
+            action: 'buy',
+          },
+        });
+      } else if (tradeData.positionId) {
         await supabase
           .from('positions')
           .update({ status: 'open' })
           .eq('id', tradeData.positionId);
+
+        if (tradeData.fillId) {
+          await supabase
+            .from('position_fills')
+            .update({ status: 'confirmed', tx_hash: signResult.signature })
+            .eq('id', tradeData.fillId);
+        }
       }
 
       toast({
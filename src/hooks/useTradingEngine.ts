@@ -12,18 +12,24 @@ import { VersionedTransaction } from '@solana/web3.js';
 import { useToast } from '@/hooks/use-toast';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { supabase } from '@/integrations/supabase/client';
+import { averageIntoPosition } from '@/lib/positionAccounting';
+import type { PriorityLevel } from '@/lib/priorityFees';
 
 // Extended config with TP/SL settings for position persistence
 export interface TradingEngineConfig {
   buyAmount?: number;
   slippage?: number;
   priorityFee?: number;
+  // Level the priority fee was estimated at, recorded on trade_history with the fee
+  priorityLevel?: PriorityLevel;
   minLiquidity?: number;
   maxRiskScore?: number;
   skipRiskCheck?: boolean;
   // Position management settings
   profitTakePercent?: number;
   stopLossPercent?: number;
+  // Add to an open position in the same token at weighted-average cost
+  averageIntoPosition?: boolean;
 }
 
 import {
@@ -281,34 +287,78 @@ export function useTradingEngine() {
               console.log('[TradingEngine] Could not fetch USD price, will use DexScreener later');
             }
             
-            console.log(`[TradingEngine] Saving position with TP: ${profitTakePercent}%, SL: ${stopLossPercent}%`);
+            // Averaging: fold this buy into this wallet's open position in the same token, if any
+            const { data: openPosition } = config?.averageIntoPosition
+              ? await supabase
+                  .from('positions')
+                  .select('*')
+                  .eq('user_id', user.id)
+                  .eq('wallet_address', walletAddress)
+                  .eq('token_address', position.tokenAddress)
+                  .eq('status', 'open')
+                  .order('created_at', { ascending: false })
+                  .limit(1)
+                  .maybeSingle()
+              : { data: null };
+
+            console.log(openPosition
+              ? `[TradingEngine] Averaging into position ${openPosition.id}`
+              : `[TradingEngine] Saving position with TP: ${profitTakePercent}%, SL: ${stopLossPercent}%`);
             
-            const { data: savedPosition, error: dbError } = await supabase
-              .from('positions')
-              .insert({
-                user_id: user.id,
-                token_address: position.tokenAddress,
-                token_symbol: position.tokenSymbol,
-                token_name: position.tokenName || position.tokenSymbol,
-                chain: 'solana',
-                // Store both SOL and USD entry prices for flexibility
-                entry_price: entryPriceUsd ?? position.entryPrice, // Use USD if available
-                entry_price_usd: entryPriceUsd, // Explicit USD column
-                current_price: entryPriceUsd ?? position.entryPrice,
-                amount: position.tokenAmount,
-                entry_value: entryValue,
-                current_value: entryPriceUsd ? position.tokenAmount * entryPriceUsd : entryValue,
-                profit_take_percent: profitTakePercent,
-                stop_loss_percent: stopLossPercent,
-                status: 'open',
-              })
-              .select()
-              .single();
+            const { data: savedPosition, error: dbError } = openPosition
+              ? await supabase
+                  .from('positions')
+                  .update(averageIntoPosition(openPosition, {
+                    amount: position.tokenAmount,
+                    solAmount: entryValue,
+                    price: entryPriceUsd ?? position.entryPrice,
+                    priceUsd: entryPriceUsd,
+                  }))
+                  .eq('id', openPosition.id)
+                  .select()
+                  .single()
+              : await supabase
+                  .from('positions')
+                  .insert({
+                    user_id: user.id,
+                    token_address: position.tokenAddress,
+                    token_symbol: position.tokenSymbol,
+                    token_name: position.tokenName || position.tokenSymbol,
+                    chain: 'solana',
+                    // Store both SOL and USD entry prices for flexibility
+                    entry_price: entryPriceUsd ?? position.entryPrice, // Use USD if available
+                    entry_price_usd: entryPriceUsd, // Explicit USD column
+                    current_price: entryPriceUsd ?? position.entryPrice,
+                    amount: position.tokenAmount,
+                    entry_value: entryValue,
+                    current_value: entryPriceUsd ? position.tokenAmount * entryPriceUsd : entryValue,
+                    profit_take_percent: profitTakePercent,
+                    stop_loss_percent: stopLossPercent,
+                    status: 'open',
+                    wallet_address: walletAddress,
+                  })
+                  .select()
+                  .single();
 
             if (dbError) {
               console.error('[TradingEngine] Failed to persist position:', dbError);
             } else {
               console.log('[TradingEngine] Position saved to database:', savedPosition?.id);
+
+              const { error: fillError } = await supabase
+                .from('position_fills')
+                .insert({
+                  user_id: user.id,
+                  position_id: savedPosition.id,
+                  wallet_address: walletAddress,
+                  side: 'buy',
+                  amount: position.tokenAmount,
+                  sol_amount: entryValue,
+                  price: entryPriceUsd ?? position.entryPrice,
+                  price_usd: entryPriceUsd,
+                  tx_hash: position.entryTxHash,
+                });
+              if (fillError) console.error('[TradingEngine] Failed to record buy fill:', fillError);
             }
 
             // Log to trade_history for Transaction History display
@@ -316,6 +366,8 @@ export function useTradingEngine() {
               .from('trade_history')
               .insert({
                 user_id: user.id,
+                position_id: savedPosition?.id ?? null,
+                wallet_address: walletAddress,
                 token_address: position.tokenAddress,
                 token_symbol: position.tokenSymbol,
                 token_name: position.tokenName || position.tokenSymbol,
@@ -325,6 +377,8 @@ export function useTradingEngine() {
                 price_usd: entryPriceUsd,
                 status: 'confirmed',
                 tx_hash: position.entryTxHash,
+                priority_fee_lamports: config?.priorityFee ?? null,
+                priority_fee_level: config?.priorityLevel ?? null,
               });
 
             if (historyError) {
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  sanitizeWalletOverrides,
+  type TradingWallet,
+  type WalletSettingsOverrides,
+} from '@/lib/walletProfiles';
+
+export type TradingWalletUpdate = Partial<Pick<TradingWallet, 'label' | 'is_enabled'>> & {
+  settings_overrides?: WalletSettingsOverrides;
+};
+
+// Solana base58 public key
+const SOLANA_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * The user's registered trading wallets (user_wallets), each with its own strategy overrides.
+ * Pass the connected address to register it the first time it's seen, so its trades can be told apart.
+ */
+export function useTradingWallets(connectedAddress?: string | null) {
+  const [wallets, setWallets] = useState<TradingWallet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchWallets = useCallback(async () => {
+    if (!user) {
+      setWallets([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('user_wallets')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setWallets((data || []) as TradingWallet[]);
+    } catch (error: unknown) {
+      console.error('Failed to fetch trading wallets:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setWallets([]);
+      return;
+    }
+
+    fetchWallets();
+
+    const channel = supabase
+      .channel(`user-wallets-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'user_wallets',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchWallets()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchWallets]);
+
+  const addWallet = useCallback(async (address: string, label?: string, options?: { silent?: boolean }) => {
+    if (!user) return null;
+
+    const trimmed = address.trim();
+    if (!SOLANA_ADDRESS_PATTERN.test(trimmed)) {
+      toast({ title: 'Invalid wallet', description: 'Enter a Solana wallet address', variant: 'destructive' });
+      return null;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('user_wallets')
+        .upsert(
+          { user_id: user.id, address: trimmed, label: label?.trim() || null },
+          { onConflict: 'user_id,address', ignoreDuplicates: true }
+        )
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null; // Already registered
+
+      const wallet = data as TradingWallet;
+      setWallets(prev => (prev.some(w => w.id === wallet.id) ? prev : [...prev, wallet]));
+      if (!options?.silent) {
+        toast({ title: 'Wallet added', description: `${trimmed.slice(0, 4)}…${trimmed.slice(-4)} can now trade its own strategy` });
+      }
+      return wallet;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({ title: 'Error adding wallet', description: err.message, variant: 'destructive' });
+      return null;
+    }
+  }, [user, toast]);
+
+  const updateWallet = useCallback(async (id: string, updates: TradingWalletUpdate) => {
+    const previous = wallets;
+    const row = updates.settings_overrides
+      ? { ...updates, settings_overrides: sanitizeWalletOverrides(updates.settings_overrides) as Json }
+      : updates;
+    setWallets(prev => prev.map(w => (w.id === id ? { ...w, ...row } : w)));
+
+    try {
+      const { error } = await supabase
+        .from('user_wallets')
+        .update(row as { label?: string | null; is_enabled?: boolean; settings_overrides?: Json })
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      setWallets(previous);
+      toast({ title: 'Error updating wallet', description: err.message, variant: 'destructive' });
+      return false;
+    }
+  }, [wallets, toast]);
+
+  // Past positions and trades keep their wallet_address, so they still filter by it
+  const removeWallet = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('user_wallets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setWallets(prev => prev.filter(w => w.id !== id));
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({ title: 'Error removing wallet', description: err.message, variant: 'destructive' });
+      return false;
+    }
+  }, [toast]);
+
+  // First trade from a new wallet: register it so the auto-sniper can give it its own slots
+  useEffect(() => {
+    if (loading || !connectedAddress || !SOLANA_ADDRESS_PATTERN.test(connectedAddress)) return;
+    if (wallets.some(w => w.address === connectedAddress)) return;
+    addWallet(connectedAddress, undefined, { silent: true });
+  }, [loading, connectedAddress, wallets, addWallet]);
+
+  return {
+    wallets,
+    loading,
+    addWallet,
+    updateWallet,
+    removeWallet,
+    refetch: fetchWallets,
+  };
+}
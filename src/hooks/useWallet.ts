@@ -3,9 +3,11 @@ import { Connection, PublicKey, LAMPORTS_PER_SOL, Transaction, VersionedTransact
 import { BrowserProvider, formatEther } from 'ethers';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { EvmTransactionRequest } from '@/lib/executionAdapter';
 
 export type WalletType = 'phantom' | 'solflare' | 'backpack' | 'metamask' | 'walletconnect';
-export type BlockchainNetwork = 'solana' | 'ethereum' | 'bsc';
+export type BlockchainNetwork = 'solana' | 'ethereum' | 'bsc' | 'base';
+type EvmNetwork = Exclude<BlockchainNetwork, 'solana'>;
 
 export interface WalletState {
   isConnected: boolean;
@@ -67,6 +69,31 @@ const SOLANA_RPC_ENDPOINTS = [
 
 const BSC_CHAIN_ID = '0x38';
 const ETH_CHAIN_ID = '0x1';
+const BASE_CHAIN_ID = '0x2105';
+
+const EVM_CHAIN_IDS: Record<EvmNetwork, string> = {
+  ethereum: ETH_CHAIN_ID,
+  bsc: BSC_CHAIN_ID,
+  base: BASE_CHAIN_ID,
+};
+
+// wallet_addEthereumChain params for networks MetaMask doesn't ship with
+const ADDABLE_CHAINS: Partial<Record<EvmNetwork, object>> = {
+  bsc: {
+    chainId: BSC_CHAIN_ID,
+    chainName: 'BNB Smart Chain',
+    nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+    rpcUrls: ['https://bsc-dataseed.binance.org/'],
+    blockExplorerUrls: ['https://bscscan.com/'],
+  },
+  base: {
+    chainId: BASE_CHAIN_ID,
+    chainName: 'Base',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: ['https://mainnet.base.org'],
+    blockExplorerUrls: ['https://basescan.org/'],
+  },
+};
 
 const WALLET_STORAGE_KEY = 'connected_wallet';
 
@@ -333,7 +360,7 @@ export function useWallet() {
     }
   }, [toast, getSolanaBalance, saveWalletConnection]);
 
-  const connectMetaMask = useCallback(async (targetNetwork: 'ethereum' | 'bsc' = 'ethereum') => {
+  const connectMetaMask = useCallback(async (targetNetwork: EvmNetwork = 'ethereum') => {
     const provider = window.ethereum;
 
     if (!provider?.isMetaMask) {
@@ -348,7 +375,7 @@ export function useWallet() {
 
     setIsConnecting(true);
     try {
-      const targetChainId = targetNetwork === 'bsc' ? BSC_CHAIN_ID : ETH_CHAIN_ID;
+      const targetChainId = EVM_CHAIN_IDS[targetNetwork];
       
       const accounts = await provider.request({ method: 'eth_requestAccounts' });
       const address = accounts[0];
@@ -359,16 +386,11 @@ export function useWallet() {
           params: [{ chainId: targetChainId }],
         });
       } catch (switchError: any) {
-        if (switchError.code === 4902 && targetNetwork === 'bsc') {
+        const addableChain = ADDABLE_CHAINS[targetNetwork];
+        if (switchError.code === 4902 && addableChain) {
           await provider.request({
             method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: BSC_CHAIN_ID,
-              chainName: 'BNB Smart Chain',
-              nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
-              rpcUrls: ['https://bsc-dataseed.binance.org/'],
-              blockExplorerUrls: ['https://bscscan.com/'],
-            }],
+            params: [addableChain],
           });
         }
       }
@@ -514,6 +536,42 @@ export function useWallet() {
     }
   }, [wallet, toast, getSolanaProvider]);
 
+  // Sign several Solana transactions with one wallet prompt (Jito bundles)
+  const signAllTransactions = useCallback(async <T extends Transaction | VersionedTransaction>(
+    transactions: T[]
+  ): Promise<T[] | null> => {
+    if (!wallet.isConnected || !wallet.walletType || wallet.network !== 'solana') {
+      toast({
+        title: 'Wallet not connected',
+        description: 'Please connect a Solana wallet first',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    const provider = getSolanaProvider(wallet.walletType);
+    if (!provider?.signAllTransactions) {
+      toast({
+        title: 'Provider not found',
+        description: 'Wallet provider cannot sign multiple transactions',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    try {
+      return await provider.signAllTransactions(transactions);
+    } catch (error: unknown) {
+      const err = error as { code?: number; message?: string };
+      toast({
+        title: err.code === 4001 ? 'Transaction rejected' : 'Signing failed',
+        description: err.code === 4001 ? 'You rejected the transaction' : err.message || 'Failed to sign transactions',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [wallet, toast, getSolanaProvider]);
+
   // Sign and send a Solana transaction
   const signAndSendTransaction = useCallback(async (
     transaction: Transaction | VersionedTransaction,
@@ -570,6 +628,66 @@ export function useWallet() {
     }
   }, [wallet, toast, getSolanaProvider, refreshBalance]);
 
+  // Send an EVM transaction built by trade-execution, switching MetaMask to its chain first.
+  // waitForReceipt holds until it's mined - an approve has to land before the swap spending it.
+  const sendEvmTransaction = useCallback(async (
+    tx: EvmTransactionRequest,
+    waitForReceipt = false
+  ): Promise<SignTransactionResult> => {
+    const provider = window.ethereum;
+    if (!wallet.isConnected || wallet.walletType !== 'metamask' || !provider) {
+      return {
+        signature: '',
+        success: false,
+        error: 'EVM wallet not connected',
+      };
+    }
+
+    try {
+      const chainId = `0x${tx.chainId.toString(16)}`;
+      const currentChainId = await provider.request({ method: 'eth_chainId' });
+      if (currentChainId !== chainId) {
+        await provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+      }
+
+      const signer = await new BrowserProvider(provider).getSigner();
+      const response = await signer.sendTransaction({ to: tx.to, data: tx.data, value: BigInt(tx.value) });
+      if (waitForReceipt) {
+        const receipt = await response.wait();
+        if (receipt?.status !== 1) throw new Error('Transaction reverted');
+      }
+
+      toast({
+        title: 'Transaction sent',
+        description: `Hash: ${response.hash.slice(0, 10)}...`,
+      });
+
+      setTimeout(() => refreshBalance(), 2000);
+
+      return {
+        signature: response.hash,
+        success: true,
+      };
+    } catch (error: unknown) {
+      const err = error as { code?: number | string; shortMessage?: string; message?: string };
+      const errorMessage = err.code === 4001 || err.code === 'ACTION_REJECTED'
+        ? 'Transaction rejected by user'
+        : err.shortMessage || err.message || 'Transaction failed';
+
+      toast({
+        title: 'Transaction failed',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+
+      return {
+        signature: '',
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }, [wallet, toast, refreshBalance]);
+
   // Sign a message (for verification purposes)
   const signMessage = useCallback(async (message: string): Promise<Uint8Array | null> => {
     if (!wallet.isConnected || !wallet.walletType || wallet.network !== 'solana') {
@@ -781,7 +899,9 @@ export function useWallet() {
     pendingDisconnect,
     refreshBalance,
     signTransaction,
+    signAllTransactions,
     signAndSendTransaction,
+    sendEvmTransaction,
     signMessage,
     getSolanaConnection,
   };
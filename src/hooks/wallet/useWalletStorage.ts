@@ -2,7 +2,7 @@
 import { useCallback } from 'react';
 
 export type WalletType = 'phantom' | 'solflare' | 'backpack' | 'metamask' | 'walletconnect';
-export type BlockchainNetwork = 'solana' | 'ethereum' | 'bsc';
+export type BlockchainNetwork = 'solana' | 'ethereum' | 'bsc' | 'base';
 
 interface StoredWalletConnection {
   walletType: WalletType;
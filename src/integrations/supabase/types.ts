@@ -119,50 +119,247 @@ export type Database = {
         }
         Relationships: []
       }
+      bot_audit_log: {
+        Row: {
+          category: string
+          created_at: string
+          dedupe_key: string | null
+          details: string | null
+          event_type: string
+          id: string
+          level: string
+          message: string
+          occurred_at: string
+          payload: Json
+          source: string
+          token_address: string | null
+          token_symbol: string | null
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          dedupe_key?: string | null
+          details?: string | null
+          event_type: string
+          id?: string
+          level?: string
+          message: string
+          occurred_at?: string
+          payload?: Json
+          source: string
+          token_address?: string | null
+          token_symbol?: string | null
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          dedupe_key?: string | null
+          details?: string | null
+          event_type?: string
+          id?: string
+          level?: string
+          message?: string
+          occurred_at?: string
+          payload?: Json
+          source?: string
+          token_address?: string | null
+          token_symbol?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bot_runner_state: {
+        Row: {
+          auto_entry_enabled: boolean
+          auto_exit_enabled: boolean
+          created_at: string
+          failed_trades: number
+          is_bot_active: boolean
+          is_paused: boolean
+          last_error: string | null
+          last_run_at: string | null
+          last_start_time: string | null
+          last_summary: Json | null
+          next_run_at: string
+          scan_speed: string
+          seen_tokens: string[]
+          successful_trades: number
+          total_trades: number
+          updated_at: string
+          user_id: string
+          wallet_address: string | null
+        }
+        Insert: {
+          auto_entry_enabled?: boolean
+          auto_exit_enabled?: boolean
+          created_at?: string
+          failed_trades?: number
+          is_bot_active?: boolean
+          is_paused?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          last_start_time?: string | null
+          last_summary?: Json | null
+          next_run_at?: string
+          scan_speed?: string
+          seen_tokens?: string[]
+          successful_trades?: number
+          total_trades?: number
+          updated_at?: string
+          user_id: string
+          wallet_address?: string | null
+        }
+        Update: {
+          auto_entry_enabled?: boolean
+          auto_exit_enabled?: boolean
+          created_at?: string
+          failed_trades?: number
+          is_bot_active?: boolean
+          is_paused?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          last_start_time?: string | null
+          last_summary?: Json | null
+          next_run_at?: string
+          scan_speed?: string
+          seen_tokens?: string[]
+          successful_trades?: number
+          total_trades?: number
+          updated_at?: string
+          user_id?: string
+          wallet_address?: string | null
+        }
+        Relationships: []
+      }
+      copy_leaders: {
+        Row: {
+          copy_sells: boolean
+          created_at: string
+          fixed_amount_sol: number
+          id: string
+          is_active: boolean
+          last_checked_at: string | null
+          last_signature: string | null
+          leader_address: string
+          leader_name: string | null
+          leader_percent: number
+          max_per_trade_sol: number
+          sizing_mode: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          copy_sells?: boolean
+          created_at?: string
+          fixed_amount_sol?: number
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string | null
+          last_signature?: string | null
+          leader_address: string
+          leader_name?: string | null
+          leader_percent?: number
+          max_per_trade_sol?: number
+          sizing_mode?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          copy_sells?: boolean
+          created_at?: string
+          fixed_amount_sol?: number
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string | null
+          last_signature?: string | null
+          leader_address?: string
+          leader_name?: string | null
+          leader_percent?: number
+          max_per_trade_sol?: number
+          sizing_mode?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       copy_trades: {
         Row: {
           action: string
           amount: number
           created_at: string
+          error_message: string | null
+          execute_after: string | null
+          executed_at: string | null
           id: string
           leader_address: string
+          leader_amount_sol: number | null
+          leader_id: string | null
           leader_name: string | null
+          leader_tx_signature: string | null
           price: number
+          sell_percent: number | null
           status: string | null
           token_address: string
           token_symbol: string
           tx_id: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
           action: string
           amount: number
           created_at?: string
+          error_message?: string | null
+          execute_after?: string | null
+          executed_at?: string | null
           id?: string
           leader_address: string
+          leader_amount_sol?: number | null
+          leader_id?: string | null
           leader_name?: string | null
+          leader_tx_signature?: string | null
           price: number
+          sell_percent?: number | null
           status?: string | null
           token_address: string
           token_symbol: string
           tx_id?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
           action?: string
           amount?: number
           created_at?: string
+          error_message?: string | null
+          execute_after?: string | null
+          executed_at?: string | null
           id?: string
           leader_address?: string
+          leader_amount_sol?: number | null
+          leader_id?: string | null
           leader_name?: string | null
+          leader_tx_signature?: string | null
           price?: number
+          sell_percent?: number | null
           status?: string | null
           token_address?: string
           token_symbol?: string
           tx_id?: string | null
+          updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "copy_trades_leader_id_fkey"
+            columns: ["leader_id"]
+            isOneToOne: false
+            referencedRelation: "copy_leaders"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       disclaimer_acknowledgments: {
         Row: {
@@ -185,36 +382,229 @@ export type Database = {
         }
         Relationships: []
       }
+      limit_orders: {
+        Row: {
+          amount_sol: number
+          cancelled_at: string | null
+          chain: string
+          created_at: string
+          error_message: string | null
+          expires_at: string | null
+          filled_at: string | null
+          id: string
+          last_checked_at: string | null
+          last_price_usd: number | null
+          order_type: string
+          position_id: string | null
+          slippage_bps: number
+          status: string
+          token_address: string
+          token_name: string | null
+          token_symbol: string
+          trigger_price_usd: number
+          triggered_at: string | null
+          triggered_price_usd: number | null
+          tx_hash: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount_sol: number
+          cancelled_at?: string | null
+          chain?: string
+          created_at?: string
+          error_message?: string | null
+          expires_at?: string | null
+          filled_at?: string | null
+          id?: string
+          last_checked_at?: string | null
+          last_price_usd?: number | null
+          order_type: string
+          position_id?: string | null
+          slippage_bps?: number
+          status?: string
+          token_address: string
+          token_name?: string | null
+          token_symbol: string
+          trigger_price_usd: number
+          triggered_at?: string | null
+          triggered_price_usd?: number | null
+          tx_hash?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount_sol?: number
+          cancelled_at?: string | null
+          chain?: string
+          created_at?: string
+          error_message?: string | null
+          expires_at?: string | null
+          filled_at?: string | null
+          id?: string
+          last_checked_at?: string | null
+          last_price_usd?: number | null
+          order_type?: string
+          position_id?: string | null
+          slippage_bps?: number
+          status?: string
+          token_address?: string
+          token_name?: string | null
+          token_symbol?: string
+          trigger_price_usd?: number
+          triggered_at?: string | null
+          triggered_price_usd?: number | null
+          tx_hash?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "limit_orders_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_channels: {
+        Row: {
+          channel_type: string
+          config: Json
+          created_at: string
+          event_types: string[]
+          id: string
+          is_enabled: boolean
+          last_delivered_at: string | null
+          last_error: string | null
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel_type: string
+          config?: Json
+          created_at?: string
+          event_types?: string[]
+          id?: string
+          is_enabled?: boolean
+          last_delivered_at?: string | null
+          last_error?: string | null
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel_type?: string
+          config?: Json
+          created_at?: string
+          event_types?: string[]
+          id?: string
+          is_enabled?: boolean
+          last_delivered_at?: string | null
+          last_error?: string | null
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           created_at: string
+          event_type: string
           id: string
           message: string
+          metadata: Json
           read: boolean | null
+          source: string | null
           title: string
           type: string | null
           user_id: string
         }
         Insert: {
           created_at?: string
+          event_type?: string
           id?: string
           message: string
+          metadata?: Json
           read?: boolean | null
+          source?: string | null
           title: string
           type?: string | null
           user_id: string
         }
         Update: {
           created_at?: string
+          event_type?: string
           id?: string
           message?: string
+          metadata?: Json
           read?: boolean | null
+          source?: string | null
           title?: string
           type?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      position_fills: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          position_id: string
+          price: number | null
+          price_usd: number | null
+          side: string
+          sol_amount: number
+          status: string
+          tx_hash: string | null
+          updated_at: string
+          user_id: string
+          wallet_address: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          position_id: string
+          price?: number | null
+          price_usd?: number | null
+          side: string
+          sol_amount?: number
+          status?: string
+          tx_hash?: string | null
+          updated_at?: string
+          user_id: string
+          wallet_address?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          position_id?: string
+          price?: number | null
+          price_usd?: number | null
+          side?: string
+          sol_amount?: number
+          status?: string
+          tx_hash?: string | null
+          updated_at?: string
+          user_id?: string
+          wallet_address?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_fills_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       positions: {
         Row: {
           amount: number
@@ -225,25 +615,37 @@ export type Database = {
           current_value: number | null
           entry_price: number
           entry_price_usd: number | null
+          entry_slippage_pct: number | null
           entry_value: number | null
+          executed_ladder_steps: Json | null
           exit_price: number | null
           exit_reason: string | null
+          exit_slippage_pct: number | null
+          exit_strategy: Json | null
           exit_tx_id: string | null
+          fees_sol: number | null
           id: string
           liquidity_check_count: number | null
           liquidity_last_checked_at: string | null
+          peak_price: number | null
           pnl_percentage: number | null
           profit_loss_percent: number | null
           profit_loss_value: number | null
           profit_take_percent: number | null
+          realized_pnl_sol: number | null
+          remaining_fraction: number | null
           status: string | null
           stop_loss_percent: number | null
+          strategy_profile_id: string | null
+          strategy_profile_name: string | null
+          strategy_profile_version: number | null
           token_address: string
           token_name: string | null
           token_symbol: string | null
           updated_at: string
           user_id: string
           waiting_for_liquidity_since: string | null
+          wallet_address: string | null
         }
         Insert: {
           amount: number
@@ -254,25 +656,37 @@ export type Database = {
           current_value?: number | null
           entry_price: number
           entry_price_usd?: number | null
+          entry_slippage_pct?: number | null
           entry_value?: number | null
+          executed_ladder_steps?: Json | null
           exit_price?: number | null
           exit_reason?: string | null
+          exit_slippage_pct?: number | null
+          exit_strategy?: Json | null
           exit_tx_id?: string | null
+          fees_sol?: number | null
           id?: string
           liquidity_check_count?: number | null
           liquidity_last_checked_at?: string | null
+          peak_price?: number | null
           pnl_percentage?: number | null
           profit_loss_percent?: number | null
           profit_loss_value?: number | null
           profit_take_percent?: number | null
+          realized_pnl_sol?: number | null
+          remaining_fraction?: number | null
           status?: string | null
           stop_loss_percent?: number | null
+          strategy_profile_id?: string | null
+          strategy_profile_name?: string | null
+          strategy_profile_version?: number | null
           token_address: string
           token_name?: string | null
           token_symbol?: string | null
           updated_at?: string
           user_id: string
           waiting_for_liquidity_since?: string | null
+          wallet_address?: string | null
         }
         Update: {
           amount?: number
@@ -283,27 +697,47 @@ export type Database = {
           current_value?: number | null
           entry_price?: number
           entry_price_usd?: number | null
+          entry_slippage_pct?: number | null
           entry_value?: number | null
+          executed_ladder_steps?: Json | null
           exit_price?: number | null
           exit_reason?: string | null
+          exit_slippage_pct?: number | null
+          exit_strategy?: Json | null
           exit_tx_id?: string | null
+          fees_sol?: number | null
           id?: string
           liquidity_check_count?: number | null
           liquidity_last_checked_at?: string | null
+          peak_price?: number | null
           pnl_percentage?: number | null
           profit_loss_percent?: number | null
           profit_loss_value?: number | null
           profit_take_percent?: number | null
+          realized_pnl_sol?: number | null
+          remaining_fraction?: number | null
           status?: string | null
           stop_loss_percent?: number | null
+          strategy_profile_id?: string | null
+          strategy_profile_name?: string | null
+          strategy_profile_version?: number | null
           token_address?: string
           token_name?: string | null
           token_symbol?: string | null
           updated_at?: string
           user_id?: string
           waiting_for_liquidity_since?: string | null
+          wallet_address?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "positions_strategy_profile_id_fkey"
+            columns: ["strategy_profile_id"]
+            isOneToOne: false
+            referencedRelation: "strategy_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -392,6 +826,130 @@ export type Database = {
         }
         Relationships: []
       }
+      strategy_profile_activations: {
+        Row: {
+          activated_at: string
+          id: string
+          profile_id: string | null
+          profile_name: string
+          profile_version: number
+          source: string
+          user_id: string
+        }
+        Insert: {
+          activated_at?: string
+          id?: string
+          profile_id?: string | null
+          profile_name: string
+          profile_version: number
+          source?: string
+          user_id: string
+        }
+        Update: {
+          activated_at?: string
+          id?: string
+          profile_id?: string | null
+          profile_name?: string
+          profile_version?: number
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "strategy_profile_activations_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "strategy_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      strategy_profile_versions: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          profile_id: string
+          risk_settings: Json
+          sniper_settings: Json
+          user_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          profile_id: string
+          risk_settings: Json
+          sniper_settings: Json
+          user_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          profile_id?: string
+          risk_settings?: Json
+          sniper_settings?: Json
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "strategy_profile_versions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "strategy_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      strategy_profiles: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_schedule_default: boolean
+          name: string
+          risk_settings: Json
+          schedule: Json
+          schedule_timezone: string
+          sniper_settings: Json
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_schedule_default?: boolean
+          name: string
+          risk_settings?: Json
+          schedule?: Json
+          schedule_timezone?: string
+          sniper_settings?: Json
+          updated_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_schedule_default?: boolean
+          name?: string
+          risk_settings?: Json
+          schedule?: Json
+          schedule_timezone?: string
+          sniper_settings?: Json
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
       system_logs: {
         Row: {
           created_at: string
@@ -425,13 +983,140 @@ export type Database = {
         }
         Relationships: []
       }
+      tax_lot_selections: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          lot_trade_id: string
+          sell_trade_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          lot_trade_id: string
+          sell_trade_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          lot_trade_id?: string
+          sell_trade_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_lot_selections_lot_trade_id_fkey"
+            columns: ["lot_trade_id"]
+            isOneToOne: false
+            referencedRelation: "trade_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_lot_selections_sell_trade_id_fkey"
+            columns: ["sell_trade_id"]
+            isOneToOne: false
+            referencedRelation: "trade_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      token_candles: {
+        Row: {
+          bucket_start: string
+          close: number
+          first_sample_at: string | null
+          high: number
+          last_sample_at: string | null
+          low: number
+          open: number
+          resolution: string
+          sample_count: number
+          source: string
+          token_address: string
+          updated_at: string
+          volume_usd: number
+        }
+        Insert: {
+          bucket_start: string
+          close: number
+          first_sample_at?: string | null
+          high: number
+          last_sample_at?: string | null
+          low: number
+          open: number
+          resolution: string
+          sample_count?: number
+          source?: string
+          token_address: string
+          updated_at?: string
+          volume_usd?: number
+        }
+        Update: {
+          bucket_start?: string
+          close?: number
+          first_sample_at?: string | null
+          high?: number
+          last_sample_at?: string | null
+          low?: number
+          open?: number
+          resolution?: string
+          sample_count?: number
+          source?: string
+          token_address?: string
+          updated_at?: string
+          volume_usd?: number
+        }
+        Relationships: []
+      }
+      token_sell_simulations: {
+        Row: {
+          buy_tax_percent: number | null
+          result: Json
+          round_trip_loss_percent: number | null
+          sell_tax_percent: number | null
+          simulated_at: string
+          status: string
+          token_address: string
+        }
+        Insert: {
+          buy_tax_percent?: number | null
+          result?: Json
+          round_trip_loss_percent?: number | null
+          sell_tax_percent?: number | null
+          simulated_at?: string
+          status: string
+          token_address: string
+        }
+        Update: {
+          buy_tax_percent?: number | null
+          result?: Json
+          round_trip_loss_percent?: number | null
+          sell_tax_percent?: number | null
+          simulated_at?: string
+          status?: string
+          token_address?: string
+        }
+        Relationships: []
+      }
       trade_history: {
         Row: {
           amount: number
           created_at: string
+          fill_slippage_pct: number | null
           id: string
+          network_fee_lamports: number | null
+          position_id: string | null
           price_sol: number | null
           price_usd: number | null
+          priority_fee_lamports: number | null
+          priority_fee_level: string | null
+          quoted_price_sol: number | null
+          realized_pnl_sol: number | null
           status: string | null
           token_address: string
           token_name: string | null
@@ -439,13 +1124,21 @@ export type Database = {
           trade_type: string
           tx_hash: string | null
           user_id: string
+          wallet_address: string | null
         }
         Insert: {
           amount: number
           created_at?: string
+          fill_slippage_pct?: number | null
           id?: string
+          network_fee_lamports?: number | null
+          position_id?: string | null
           price_sol?: number | null
           price_usd?: number | null
+          priority_fee_lamports?: number | null
+          priority_fee_level?: string | null
+          quoted_price_sol?: number | null
+          realized_pnl_sol?: number | null
           status?: string | null
           token_address: string
           token_name?: string | null
@@ -453,13 +1146,21 @@ export type Database = {
           trade_type: string
           tx_hash?: string | null
           user_id: string
+          wallet_address?: string | null
         }
         Update: {
           amount?: number
           created_at?: string
+          fill_slippage_pct?: number | null
           id?: string
+          network_fee_lamports?: number | null
+          position_id?: string | null
           price_sol?: number | null
           price_usd?: number | null
+          priority_fee_lamports?: number | null
+          priority_fee_level?: string | null
+          quoted_price_sol?: number | null
+          realized_pnl_sol?: number | null
           status?: string | null
           token_address?: string
           token_name?: string | null
@@ -467,8 +1168,17 @@ export type Database = {
           trade_type?: string
           tx_hash?: string | null
           user_id?: string
+          wallet_address?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "trade_history_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       trade_signals: {
         Row: {
@@ -493,6 +1203,7 @@ export type Database = {
           trade_amount: number
           tx_signature: string | null
           user_id: string
+          wallet_address: string | null
         }
         Insert: {
           chain?: string | null
@@ -516,6 +1227,7 @@ export type Database = {
           trade_amount: number
           tx_signature?: string | null
           user_id: string
+          wallet_address?: string | null
         }
         Update: {
           chain?: string | null
@@ -539,9 +1251,78 @@ export type Database = {
           trade_amount?: number
           tx_signature?: string | null
           user_id?: string
+          wallet_address?: string | null
         }
         Relationships: []
       }
+      transaction_fills: {
+        Row: {
+          created_at: string
+          id: string
+          network_fee_lamports: number
+          position_id: string | null
+          price_sol: number
+          priority_fee_lamports: number
+          quoted_price_sol: number | null
+          rent_lamports: number
+          side: string
+          signature: string
+          slippage_pct: number | null
+          slot: number | null
+          sol_amount: number
+          token_address: string
+          token_amount: number
+          user_id: string
+          wallet_address: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          network_fee_lamports?: number
+          position_id?: string | null
+          price_sol: number
+          priority_fee_lamports?: number
+          quoted_price_sol?: number | null
+          rent_lamports?: number
+          side: string
+          signature: string
+          slippage_pct?: number | null
+          slot?: number | null
+          sol_amount: number
+          token_address: string
+          token_amount: number
+          user_id: string
+          wallet_address: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          network_fee_lamports?: number
+          position_id?: string | null
+          price_sol?: number
+          priority_fee_lamports?: number
+          quoted_price_sol?: number | null
+          rent_lamports?: number
+          side?: string
+          signature?: string
+          slippage_pct?: number | null
+          slot?: number | null
+          sol_amount?: number
+          token_address?: string
+          token_amount?: number
+          user_id?: string
+          wallet_address?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_fills_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_activity_logs: {
         Row: {
           activity_category: string
@@ -598,56 +1379,148 @@ export type Database = {
       }
       user_sniper_settings: {
         Row: {
+          active_profile_id: string | null
+          active_profile_version: number | null
+          average_into_positions: boolean
           category_filters: Json | null
           created_at: string
+          disabled_token_sources: string[]
           id: string
+          jito_enabled: boolean
+          jito_fallback_slots: number
+          jito_max_tip_lamports: number
+          jito_tip_lamports: number
+          jito_tip_strategy: string
           max_concurrent_trades: number | null
+          max_priority_fee_sol: number
           max_risk_score: number | null
           min_liquidity: number | null
           priority: string | null
+          profile_schedule_enabled: boolean
           profit_take_percentage: number | null
+          rule_config: Json | null
           slippage_tolerance: number | null
           stop_loss_percentage: number | null
+          take_profit_ladder: Json | null
           target_buyer_positions: Json | null
           token_blacklist: Json | null
           token_whitelist: Json | null
           trade_amount: number | null
+          trailing_stop_activation_percent: number | null
+          trailing_stop_enabled: boolean | null
+          trailing_stop_percent: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          active_profile_id?: string | null
+          active_profile_version?: number | null
+          average_into_positions?: boolean
           category_filters?: Json | null
           created_at?: string
+          disabled_token_sources?: string[]
           id?: string
+          jito_enabled?: boolean
+          jito_fallback_slots?: number
+          jito_max_tip_lamports?: number
+          jito_tip_lamports?: number
+          jito_tip_strategy?: string
           max_concurrent_trades?: number | null
+          max_priority_fee_sol?: number
           max_risk_score?: number | null
           min_liquidity?: number | null
           priority?: string | null
+          profile_schedule_enabled?: boolean
           profit_take_percentage?: number | null
+          rule_config?: Json | null
           slippage_tolerance?: number | null
           stop_loss_percentage?: number | null
+          take_profit_ladder?: Json | null
           target_buyer_positions?: Json | null
           token_blacklist?: Json | null
           token_whitelist?: Json | null
           trade_amount?: number | null
+          trailing_stop_activation_percent?: number | null
+          trailing_stop_enabled?: boolean | null
+          trailing_stop_percent?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          active_profile_id?: string | null
+          active_profile_version?: number | null
+          average_into_positions?: boolean
           category_filters?: Json | null
           created_at?: string
+          disabled_token_sources?: string[]
           id?: string
+          jito_enabled?: boolean
+          jito_fallback_slots?: number
+          jito_max_tip_lamports?: number
+          jito_tip_lamports?: number
+          jito_tip_strategy?: string
           max_concurrent_trades?: number | null
+          max_priority_fee_sol?: number
           max_risk_score?: number | null
           min_liquidity?: number | null
           priority?: string | null
+          profile_schedule_enabled?: boolean
           profit_take_percentage?: number | null
+          rule_config?: Json | null
           slippage_tolerance?: number | null
           stop_loss_percentage?: number | null
+          take_profit_ladder?: Json | null
           target_buyer_positions?: Json | null
           token_blacklist?: Json | null
           token_whitelist?: Json | null
           trade_amount?: number | null
+          trailing_stop_activation_percent?: number | null
+          trailing_stop_enabled?: boolean | null
+          trailing_stop_percent?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_sniper_settings_active_profile_id_fkey"
+            columns: ["active_profile_id"]
+            isOneToOne: false
+            referencedRelation: "strategy_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_wallets: {
+        Row: {
+          address: string
+          chain: string
+          created_at: string
+          id: string
+          is_enabled: boolean
+          label: string | null
+          settings_overrides: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          chain?: string
+          created_at?: string
+          id?: string
+          is_enabled?: boolean
+          label?: string | null
+          settings_overrides?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          chain?: string
+          created_at?: string
+          id?: string
+          is_enabled?: boolean
+          label?: string | null
+          settings_overrides?: Json
           updated_at?: string
           user_id?: string
         }
@@ -666,6 +1539,7 @@ export type Database = {
         }
         Returns: boolean
       }
+      record_price_samples: { Args: { samples: Json }; Returns: number }
     }
     Enums: {
       app_role: "admin" | "user"
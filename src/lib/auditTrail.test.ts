@@ -0,0 +1,108 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  auditEventToRow,
+  auditRowsToJsonLines,
+  exitTriggerAuditEvent,
+  guardrailSkipAuditEvent,
+  snipeDecisionAuditEvent,
+  type AuditLogRecord,
+} from './auditTrail';
+import type { SnipeDecision } from './sniperRules';
+import { DEFAULT_GUARDRAIL_LIMITS, evaluateGuardrails } from './riskGuardrails';
+import { mockAddress } from '@/test/mocks/fixtures';
+
+const USER = '7d1c2f3e-0000-4000-8000-000000000001';
+const TOKEN = mockAddress(95);
+
+const decision: SnipeDecision = {
+  token: {
+    address: TOKEN,
+    name: 'Test Token',
+    symbol: 'TEST',
+    chain: 'solana',
+    liquidity: 12,
+    liquidityLocked: false,
+    lockPercentage: null,
+    buyerPosition: 3,
+    riskScore: 40,
+    categories: ['animals'],
+  },
+  approved: false,
+  reasons: ['✓ Liquidity: 12 SOL >= 5 SOL', '✓ Buyer position #3', '✗ Simulated sell failed'],
+  failedRule: 'sell_simulation',
+  tradeParams: null,
+};
+
+describe('audit trail', () => {
+  it('keeps every rule reason of a snipe decision', () => {
+    const row = auditEventToRow(USER, snipeDecisionAuditEvent(decision, 'auto-sniper'));
+
+    expect(row).toMatchObject({
+      user_id: USER,
+      event_type: 'snipe_decision',
+      level: 'skip',
+      category: 'evaluate',
+      message: 'Rejected TEST at sell_simulation',
+      token_address: TOKEN,
+      source: 'auto-sniper',
+      dedupe_key: null,
+    });
+    expect(row.details?.split('\n')).toEqual(decision.reasons);
+    expect(row.payload).toMatchObject({ approved: false, failedRule: 'sell_simulation', reasons: decision.reasons });
+  });
+
+  it('dedupes exit triggers per position, rung and outcome', () => {
+    const exit = {
+      positionId: 'pos-1',
+      tokenAddress: TOKEN,
+      tokenSymbol: 'TEST',
+      reason: 'ladder_take_profit' as const,
+      outcome: 'pending_signature' as const,
+      profitLossPercent: 52.5,
+      currentPrice: 0.0015,
+      sellFraction: 0.25,
+      ladderSteps: [0],
+      executedSteps: 0,
+    };
+
+    const pending = exitTriggerAuditEvent(exit, 'auto-exit');
+    expect(pending.message).toBe('ladder_take_profit triggered for TEST at +52.50% (25.0% of holdings) - pending signature');
+    expect(pending.dedupeKey).toBe('exit:pos-1:ladder_take_profit:0:pending_signature');
+    expect(exitTriggerAuditEvent({ ...exit, outcome: 'executed' }, 'auto-exit').dedupeKey).not.toBe(pending.dedupeKey);
+    expect(exitTriggerAuditEvent({ ...exit, executedSteps: 1 }, 'auto-exit').dedupeKey).not.toBe(pending.dedupeKey);
+  });
+
+  it('records a guardrail-skipped buy once per signal and guardrail', () => {
+    const usage = { dailyLossSol: 0.6, openExposureSol: 0, tokenExposureSol: 0, tradesLastHour: 0 };
+    const result = evaluateGuardrails({ ...DEFAULT_GUARDRAIL_LIMITS, max_daily_loss_sol: 0.5 }, usage, 0.1);
+
+    const event = guardrailSkipAuditEvent({
+      tokenAddress: TOKEN,
+      tokenSymbol: 'TEST',
+      tradeAmount: 0.1,
+      reason: result.reason!,
+      statuses: result.statuses,
+      signalId: 'sig-1',
+    }, 'bot-runner');
+    expect(event).toMatchObject({ eventType: 'risk_check', level: 'skip', category: 'trade', source: 'bot-runner' });
+    expect(event.message).toBe('Skipped buy of TEST: Daily loss limit reached: 0.600 / 0.5 SOL');
+    expect(event.dedupeKey).toBe('guardrail:sig-1:daily_loss');
+    expect(event.payload).toMatchObject({ guardrail: 'daily_loss', tradeAmount: 0.1, signalId: 'sig-1' });
+  });
+
+  it('exports rows as JSON Lines, oldest first', () => {
+    const base = auditEventToRow(USER, snipeDecisionAuditEvent(decision, 'auto-sniper'));
+    const rows: AuditLogRecord[] = [
+      { ...base, id: 'b', created_at: '2026-02-11T10:00:02.000Z' },
+      { ...base, id: 'a', created_at: '2026-02-11T10:00:01.000Z', message: 'line\nbreak' },
+    ];
+
+    const jsonl = auditRowsToJsonLines(rows);
+    const lines = jsonl.split('\n');
+    expect(jsonl.endsWith('\n')).toBe(true);
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0])).toMatchObject({ id: 'a', message: 'line\nbreak' });
+    expect(JSON.parse(lines[1]).id).toBe('b');
+  });
+});
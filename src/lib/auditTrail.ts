@@ -0,0 +1,5 @@
+/**
+ * Audit trail - browser entry point
+ * Re-exports the shared bot_audit_log event builders so the activity log and Edge Functions write the same rows
+ */
+export * from '../../supabase/functions/_shared/audit-trail.ts';
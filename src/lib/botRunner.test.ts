@@ -0,0 +1,54 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_BOT_STATE,
+  botStateFromRow,
+  botStatePatchToRow,
+  nextRunAt,
+  rememberTokens,
+  runnerPhases,
+  unseenTokens,
+} from './botRunner';
+
+describe('bot runner', () => {
+  it('maps rows to bot state and writes back only the patched fields', () => {
+    expect(botStateFromRow(null)).toBe(DEFAULT_BOT_STATE);
+    expect(botStateFromRow({
+      is_bot_active: true,
+      scan_speed: 'warp',
+      last_start_time: '2026-02-13T10:00:00.000Z',
+      total_trades: 4,
+    })).toEqual({
+      ...DEFAULT_BOT_STATE,
+      isBotActive: true,
+      lastStartTime: Date.parse('2026-02-13T10:00:00.000Z'),
+      totalTrades: 4,
+    });
+    expect(botStatePatchToRow({ isPaused: true, scanSpeed: 'fast', lastStartTime: null })).toEqual({
+      is_paused: true,
+      scan_speed: 'fast',
+      last_start_time: null,
+    });
+  });
+
+  it('keeps watching exits while paused and schedules by scan speed', () => {
+    const running = { ...DEFAULT_BOT_STATE, isBotActive: true };
+    expect(runnerPhases(running)).toEqual({ entries: true, exits: true });
+    expect(runnerPhases({ ...running, isPaused: true })).toEqual({ entries: false, exits: true });
+    expect(runnerPhases({ ...running, autoEntryEnabled: false, autoExitEnabled: false })).toEqual({ entries: false, exits: false });
+    expect(runnerPhases(DEFAULT_BOT_STATE)).toEqual({ entries: false, exits: false });
+
+    const now = Date.parse('2026-02-13T10:00:00.000Z');
+    expect(nextRunAt('fast', now)).toBe('2026-02-13T10:00:15.000Z');
+    expect(nextRunAt('slow', now)).toBe('2026-02-13T10:01:00.000Z');
+  });
+
+  it('evaluates each token once and forgets the oldest past the limit', () => {
+    const tokens = [{ address: 'a' }, { address: 'b' }, { address: 'c' }];
+    expect(unseenTokens(tokens, ['b']).map((t) => t.address)).toEqual(['a', 'c']);
+    expect(unseenTokens(tokens, null)).toHaveLength(3);
+
+    expect(rememberTokens(['a', 'b'], ['c', 'a', 'c'])).toEqual(['b', 'c', 'a']);
+    expect(rememberTokens(['a', 'b', 'c'], ['d', 'e'], 3)).toEqual(['c', 'd', 'e']);
+  });
+});
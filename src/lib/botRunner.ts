@@ -0,0 +1,5 @@
+/**
+ * Bot runner - browser entry point
+ * Re-exports the shared bot state mapping and runner cadence behind the Scanner's controls
+ */
+export * from '../../supabase/functions/_shared/bot-runner.ts';
@@ -0,0 +1,81 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  aggregateSamples,
+  fillCandleGaps,
+  parseGeckoTerminalOhlcv,
+  priceSampleBatches,
+  tradeMarkers,
+} from './candles';
+import { mockAddress } from '@/test/mocks/fixtures';
+
+const TOKEN = mockAddress(90);
+const T0 = Date.UTC(2026, 1, 10, 12, 0, 0);
+const MINUTE = 60_000;
+
+describe('candles', () => {
+  it('buckets samples into OHLC candles in time order', () => {
+    const samples = [
+      { tokenAddress: TOKEN, priceUsd: 1.2, sampledAt: T0 + 4 * MINUTE },
+      { tokenAddress: TOKEN, priceUsd: 1.0, sampledAt: T0 + 10_000 },
+      { tokenAddress: TOKEN, priceUsd: 0.9, sampledAt: T0 + 2 * MINUTE },
+      { tokenAddress: TOKEN, priceUsd: 1.5, sampledAt: T0 + 6 * MINUTE },
+      { tokenAddress: TOKEN, priceUsd: 0, sampledAt: T0 + 7 * MINUTE },
+    ];
+
+    expect(aggregateSamples(samples, '5m')).toEqual([
+      { bucketStart: T0, open: 1.0, high: 1.2, low: 0.9, close: 1.2, volumeUsd: 0, sampleCount: 3, source: 'sampled' },
+      { bucketStart: T0 + 5 * MINUTE, open: 1.5, high: 1.5, low: 1.5, close: 1.5, volumeUsd: 0, sampleCount: 1, source: 'sampled' },
+    ]);
+    expect(aggregateSamples(samples, '1h')).toHaveLength(1);
+
+    const batches = priceSampleBatches(Array.from({ length: 150 }, (_, i) => ({ tokenAddress: TOKEN, priceUsd: 1, sampledAt: T0 + i })));
+    expect(batches.map((b) => b.length)).toEqual([100, 50]);
+  });
+
+  it('parses GeckoTerminal OHLCV newest-first into ascending candles', () => {
+    const t = T0 / 1000;
+    const body = {
+      data: {
+        attributes: {
+          ohlcv_list: [
+            [t + 300, 2, 2.5, 1.8, 2.2, 1500],
+            [t, 1, 2.1, 0.9, 2, 3200],
+            [t + 600, 'bad'],
+          ],
+        },
+      },
+    };
+
+    const candles = parseGeckoTerminalOhlcv(body, '5m');
+    expect(candles.map((c) => c.bucketStart)).toEqual([T0, T0 + 5 * MINUTE]);
+    expect(candles[0]).toMatchObject({ open: 1, high: 2.1, low: 0.9, close: 2, volumeUsd: 3200, source: 'geckoterminal' });
+    expect(parseGeckoTerminalOhlcv({ errors: [] }, '5m')).toEqual([]);
+  });
+
+  it('fills gaps with flat candles and pins trades to their bucket', () => {
+    const candles = fillCandleGaps(
+      aggregateSamples([
+        { tokenAddress: TOKEN, priceUsd: 1, sampledAt: T0 },
+        { tokenAddress: TOKEN, priceUsd: 2, sampledAt: T0 + 3 * MINUTE },
+      ], '1m'),
+      '1m'
+    );
+    expect(candles.map((c) => c.close)).toEqual([1, 1, 1, 2]);
+    expect(candles[1]).toMatchObject({ open: 1, high: 1, low: 1, sampleCount: 0 });
+
+    const trade = (trade_type: string, minutes: number, price_usd: number | null = 1.5) => ({
+      trade_type,
+      price_usd,
+      amount: 100,
+      tx_hash: null,
+      created_at: new Date(T0 + minutes * MINUTE + 30_000).toISOString(),
+    });
+    const markers = tradeMarkers(
+      [trade('sell', 2), trade('buy', 1), trade('buy', 9), trade('sell', 3, null)],
+      candles,
+      '1m'
+    );
+    expect(markers.map((m) => [m.side, m.bucketStart])).toEqual([['buy', T0 + MINUTE], ['sell', T0 + 2 * MINUTE]]);
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * OHLCV candles - browser entry point
+ * Re-exports the shared candle logic so the chart buckets samples and trades the same way token-candles does
+ */
+export * from '../../supabase/functions/_shared/candles.ts';
@@ -0,0 +1,93 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { Interface } from 'ethers';
+import {
+  EVM_CHAINS,
+  EVM_NATIVE_TOKEN,
+  createEvmAdapter,
+  decodeUintArray,
+  encodeGetAmountsOut,
+  encodeSwapExactNativeForTokens,
+  encodeSwapExactTokensForNative,
+  type EvmRpc,
+} from './executionAdapter';
+
+const ROUTER = new Interface([
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+]);
+const ERC20 = new Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const WALLET = '0x2222222222222222222222222222222222222222';
+const NOW = 1_700_000_000_000;
+
+// Constant-product pool priced off getAmountsOut calldata, plus a fixed allowance
+function fakeRpc(allowance: bigint): EvmRpc {
+  const reserveIn = 1_000n * 10n ** 18n;
+  const reserveOut = 1_000_000n * 10n ** 18n;
+  return {
+    call: async <T>(_method: string, params: unknown[] = []) => {
+      const { to, data } = params[0] as { to: string; data: string };
+      if (to === EVM_CHAINS.base.router) {
+        const [amountIn, path] = ROUTER.decodeFunctionData('getAmountsOut', data);
+        const out = (amountIn * 997n * reserveOut) / (reserveIn * 1000n + amountIn * 997n);
+        return ROUTER.encodeFunctionResult('getAmountsOut', [[amountIn, ...path.slice(1).map(() => out)]]) as T;
+      }
+      return ERC20.encodeFunctionResult('allowance', [allowance]) as T;
+    },
+  };
+}
+
+describe('execution adapter', () => {
+  it('encodes router calls exactly like the ABI', () => {
+    const path = [EVM_CHAINS.ethereum.wrappedNative, TOKEN];
+    expect(encodeGetAmountsOut(10n ** 18n, path)).toBe(ROUTER.encodeFunctionData('getAmountsOut', [10n ** 18n, path]));
+    expect(encodeSwapExactNativeForTokens(5n, path, WALLET, 1_700_000_300)).toBe(
+      ROUTER.encodeFunctionData('swapExactETHForTokensSupportingFeeOnTransferTokens', [5n, path, WALLET, 1_700_000_300])
+    );
+    expect(encodeSwapExactTokensForNative(7n, 5n, [...path].reverse(), WALLET, 1_700_000_300)).toBe(
+      ROUTER.encodeFunctionData('swapExactTokensForETHSupportingFeeOnTransferTokens', [7n, 5n, [...path].reverse(), WALLET, 1_700_000_300])
+    );
+    expect(decodeUintArray(ROUTER.encodeFunctionResult('getAmountsOut', [[1n, 2n, 3n]]))).toEqual([1n, 2n, 3n]);
+  });
+
+  it('quotes a buy with slippage and price impact, then builds a payable swap', async () => {
+    const adapter = createEvmAdapter('base', fakeRpc(0n), { now: () => NOW });
+    const quote = await adapter.quote({ inputToken: EVM_NATIVE_TOKEN, outputToken: TOKEN, amount: String(10n ** 19n), slippageBps: 500 });
+
+    expect(quote.venue).toBe('uniswap-v2');
+    expect(BigInt(quote.minOutAmount)).toBe((BigInt(quote.outAmount) * 9500n) / 10_000n);
+    // 10 ETH into a 1,000 ETH pool moves the price ~1%
+    expect(quote.priceImpactPct).toBeGreaterThan(0.9);
+    expect(quote.priceImpactPct).toBeLessThan(1.1);
+
+    const swap = await adapter.buildSwap(quote, WALLET);
+    expect(swap.transactions).toHaveLength(1);
+    expect(swap.transactions[0]).toMatchObject({ kind: 'swap', chainId: 8453, to: EVM_CHAINS.base.router, value: '0x8ac7230489e80000' });
+    const [minOut, path, to, deadline] = ROUTER.decodeFunctionData('swapExactETHForTokensSupportingFeeOnTransferTokens', swap.transactions[0].data);
+    expect(minOut.toString()).toBe(quote.minOutAmount);
+    expect(path).toEqual([EVM_CHAINS.base.wrappedNative, TOKEN]);
+    expect(to).toBe(WALLET);
+    expect(Number(deadline)).toBe(NOW / 1000 + 300);
+  });
+
+  it('approves the router for exactly the sell amount only when the allowance falls short', async () => {
+    const amount = 5n * 10n ** 18n;
+    const sell = { inputToken: TOKEN, outputToken: EVM_NATIVE_TOKEN, amount: amount.toString(), slippageBps: 1000 };
+
+    const unapproved = createEvmAdapter('base', fakeRpc(0n));
+    const first = await unapproved.buildSwap(await unapproved.quote(sell), WALLET);
+    expect(first.transactions.map((tx) => tx.kind)).toEqual(['approve', 'swap']);
+    expect(ERC20.decodeFunctionData('approve', first.transactions[0].data).map(String)).toEqual([EVM_CHAINS.base.router, amount.toString()]);
+
+    const approved = createEvmAdapter('base', fakeRpc(amount));
+    const second = await approved.buildSwap(await approved.quote(sell), WALLET);
+    expect(second.transactions.map((tx) => tx.kind)).toEqual(['swap']);
+    await expect(approved.quote({ ...sell, outputToken: TOKEN })).rejects.toThrow('Invalid Base swap');
+  });
+});
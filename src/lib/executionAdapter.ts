@@ -0,0 +1,5 @@
+/**
+ * Execution adapters - browser entry point
+ * Re-exports the EVM chain table, router calldata and the chain-agnostic swap types trade-execution returns
+ */
+export * from '../../supabase/functions/_shared/execution-adapter.ts';
@@ -1,4 +1,6 @@
 import { format } from 'date-fns';
+import { auditRowsToJsonLines, type AuditLogRecord } from '@/lib/auditTrail';
+import { realizedGainsToCsv, taxLedgerToCsv, type TaxLedger } from '@/lib/taxLots';
 
 export interface TradeRecord {
   id: string;
@@ -18,6 +20,16 @@ export interface TradeRecord {
   closed_at: string | null;
 }
 
+/**
+ * Quote a CSV cell when it holds a comma, quote or newline
+ */
+export function escapeCSV(value: string): string {
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
 /**
  * Export trades to CSV format
  */
@@ -63,13 +75,6 @@ export function exportTradesToCSV(trades: TradeRecord[], filename?: string): voi
   ]);
 
   // Escape CSV values
-  const escapeCSV = (value: string): string => {
-    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-      return `"${value.replace(/"/g, '""')}"`;
-    }
-    return value;
-  };
-
   const csvContent = [
     headers.join(','),
     ...rows.map((row) => row.map((cell) => escapeCSV(String(cell))).join(',')),
@@ -269,3 +274,67 @@ export function exportTradesToJSON(trades: TradeRecord[], filename?: string): vo
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 }
+
+/**
+ * Export audit trail rows as JSON Lines (one event per line, oldest first)
+ */
+export function exportAuditTrailToJSONL(rows: AuditLogRecord[], filename?: string): void {
+  if (!rows || rows.length === 0) {
+    throw new Error('No audit events to export');
+  }
+
+  const jsonlContent = auditRowsToJsonLines(rows);
+  const blob = new Blob([jsonlContent], { type: 'application/x-ndjson' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename || `audit_trail_${format(new Date(), 'yyyy-MM-dd')}.jsonl`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export the full tax-lot ledger (every buy and every lot relieved) as CSV
+ */
+export function exportTaxLedgerToCSV(ledger: TaxLedger, filename?: string): void {
+  if (ledger.lots.length === 0 && ledger.disposals.length === 0) {
+    throw new Error('No trades to export');
+  }
+
+  const blob = new Blob([taxLedgerToCsv(ledger)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename || `tax_ledger_${ledger.method}_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export one calendar year's realized gains (one row per lot sold) as CSV
+ */
+export function exportRealizedGainsToCSV(ledger: TaxLedger, year: number, filename?: string): void {
+  if (!ledger.disposals.some((d) => new Date(d.trade.timestamp).getUTCFullYear() === year)) {
+    throw new Error(`No sales in ${year}`);
+  }
+
+  const blob = new Blob([realizedGainsToCsv(ledger, year)], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename || `realized_gains_${year}_${ledger.method}.csv`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
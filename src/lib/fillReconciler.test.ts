@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { mockAddress } from '@/test/mocks/fixtures';
+import { WSOL_MINT, fillSlippagePct, parseSwapFill, type ParsedSwapTransaction } from './fillReconciler';
+
+const OWNER = mockAddress(1);
+const MINT = mockAddress(2);
+const POOL = mockAddress(3);
+
+function tokenBalance(accountIndex: number, mint: string, owner: string, amount: number, decimals = 6) {
+  return { accountIndex, mint, owner, uiTokenAmount: { amount: String(amount), decimals } };
+}
+
+function swapTx(meta: Partial<NonNullable<ParsedSwapTransaction['meta']>>): ParsedSwapTransaction {
+  return {
+    meta: { err: null, fee: 25_000, preBalances: [], postBalances: [], ...meta },
+    transaction: {
+      signatures: ['sig'],
+      message: { accountKeys: [{ pubkey: OWNER }, { pubkey: mockAddress(4) }, { pubkey: POOL }] },
+    },
+  };
+}
+
+describe('fill reconciler', () => {
+  it('prices a buy from balance deltas, fees in and new token account rent out', () => {
+    const rent = 2_039_280;
+    const fill = parseSwapFill(swapTx({
+      // 1 SOL swapped + 25k lamports fee + rent for the new token account
+      preBalances: [5_000_000_000, 0, 0],
+      postBalances: [5_000_000_000 - 1_000_000_000 - 25_000 - rent, rent, 0],
+      preTokenBalances: [tokenBalance(2, MINT, POOL, 900_000_000_000)],
+      postTokenBalances: [
+        tokenBalance(1, MINT, OWNER, 9_500_000_000),
+        tokenBalance(2, MINT, POOL, 890_500_000_000),
+      ],
+    }), 'buy');
+
+    expect(fill).toMatchObject({
+      owner: OWNER,
+      mint: MINT,
+      tokenAmount: 9500,
+      solAmount: 1.000025,
+      networkFeeLamports: 5000,
+      priorityFeeLamports: 20_000,
+      rentLamports: rent,
+    });
+    expect(fill!.price).toBeCloseTo(1.000025 / 9500, 12);
+  });
+
+  it('counts wrapped SOL received on a sell and ignores failed transactions', () => {
+    const sell = swapTx({
+      preBalances: [1_000_000_000, 2_039_280, 2_039_280],
+      postBalances: [1_000_000_000 - 25_000, 2_039_280, 2_039_280],
+      preTokenBalances: [tokenBalance(1, MINT, OWNER, 4_000_000_000), tokenBalance(2, WSOL_MINT, OWNER, 0, 9)],
+      postTokenBalances: [tokenBalance(1, MINT, OWNER, 0), tokenBalance(2, WSOL_MINT, OWNER, 500_000_000, 9)],
+    });
+
+    const fill = parseSwapFill(sell, 'sell', MINT);
+    expect(fill).toMatchObject({ tokenAmount: 4000, solAmount: 0.499975, rentLamports: 0 });
+    expect(parseSwapFill(sell, 'buy')).toBeNull();
+    expect(parseSwapFill({ ...sell, meta: { ...sell.meta!, err: { InstructionError: [2, 'Custom'] } } }, 'sell')).toBeNull();
+  });
+
+  it('signs slippage so positive is always worse than quoted', () => {
+    expect(fillSlippagePct('buy', 0.0001, 0.000102)).toBeCloseTo(2, 9);
+    expect(fillSlippagePct('sell', 0.0001, 0.000097)).toBeCloseTo(3, 9);
+    expect(fillSlippagePct('sell', 0.0001, 0.000101)).toBeCloseTo(-1, 9);
+    expect(fillSlippagePct('buy', null, 0.0001)).toBeNull();
+  });
+
+  it('does not read a sell quoted in USD as slippage', () => {
+    // Filled at 0.0000005 SOL per token; with SOL at $200 the USD quote is 0.0001
+    expect(fillSlippagePct('sell', 0.0001, 0.0000005)).toBeNull();
+    expect(fillSlippagePct('sell', 0.00000052, 0.0000005)).toBeCloseTo(3.846, 3);
+  });
+});
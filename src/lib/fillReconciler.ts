@@ -0,0 +1,5 @@
+/**
+ * Fill reconciler - browser entry point
+ * Re-exports the balance-delta parser confirm-transaction uses to record executed prices
+ */
+export * from '../../supabase/functions/_shared/fill-reconciler.ts';
@@ -3,6 +3,8 @@
  * Use these throughout the app for consistent display
  */
 
+import { summarizeFills, type PositionFill } from './positionAccounting';
+
 /**
  * Format percentage value with consistent 2 decimal places and +/- sign
  * @param value - The percentage value
@@ -65,16 +67,27 @@ export function formatCurrency(value: number | null | undefined, showSign = true
  * @param profitLossPercent - The P&L percentage
  * @param fallbackEntryPrice - Fallback entry price if entry_value is null
  * @param amount - Token amount for fallback calculation
+ * @param fills - Position fill history; when present its cost basis wins over entry_value
  * @returns The calculated P&L dollar value
  */
 export function calculatePnLValue(
   entryValue: number | null | undefined,
   profitLossPercent: number | null | undefined,
   fallbackEntryPrice?: number | null,
-  amount?: number | null
+  amount?: number | null,
+  fills?: PositionFill[] | null
 ): number {
   const pnlPercent = profitLossPercent ?? 0;
   
+  // Multi-entry positions: average-cost basis of what's held, or everything bought once closed
+  if (fills && fills.length > 0) {
+    const summary = summarizeFills(fills);
+    if (summary.buyCount > 0) {
+      const basis = summary.amount > 0 ? summary.costBasisSol : summary.totalBuySol;
+      return basis * (pnlPercent / 100);
+    }
+  }
+
   // Use entry_value if available
   if (entryValue && entryValue > 0) {
     return entryValue * (pnlPercent / 100);
@@ -0,0 +1,108 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import {
+  DEFAULT_HOLDER_RISK_SETTINGS,
+  analyzeTokenHolders,
+  parseMintAccount,
+  scoreHolderRisk,
+} from './holderAnalysis';
+import { RAYDIUM_AMM_OWNER, mockAddress } from '@/test/mocks/fixtures';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const MINT = mockAddress(60);
+const POOL_AUTHORITY = mockAddress(61);
+const FUNDER = mockAddress(62);
+const [A, B, C, DEPLOYER] = [mockAddress(70), mockAddress(71), mockAddress(72), mockAddress(73)];
+const INCINERATOR = '1nc1nerator11111111111111111111111111111111';
+
+function mintData(supply: bigint, mintAuthority: string | null = null): string {
+  const data = new Uint8Array(82);
+  const view = new DataView(data.buffer);
+  if (mintAuthority) {
+    view.setUint32(0, 1, true);
+    data.set(new PublicKey(mintAuthority).toBytes(), 4);
+  }
+  view.setBigUint64(36, supply, true);
+  data[44] = 6;
+  data[45] = 1;
+  return toBase64(data);
+}
+
+function tokenAccountData(owner: string, amount: bigint): string {
+  const data = new Uint8Array(165);
+  data.set(new PublicKey(MINT).toBytes(), 0);
+  data.set(new PublicKey(owner).toBytes(), 32);
+  new DataView(data.buffer).setBigUint64(64, amount, true);
+  return toBase64(data);
+}
+
+// Minimal RPC: 1000 supply split between a Raydium vault, a burn and four wallets; A, B and C share a funder
+function mockRpc() {
+  const balances: [string, bigint][] = [
+    [POOL_AUTHORITY, 400n], [A, 150n], [B, 100n], [C, 80n], [DEPLOYER, 50n], [INCINERATOR, 20n],
+  ];
+  const funders: Record<string, string> = { [A]: FUNDER, [B]: FUNDER, [C]: FUNDER, [MINT]: DEPLOYER };
+  const tokenAccount = (i: number) => mockAddress(100 + i);
+
+  const handlers: Record<string, (params: unknown[]) => unknown> = {
+    getAccountInfo: () => ({ value: { data: [mintData(1000n), 'base64'], owner: 'Tokenkeg' } }),
+    getTokenLargestAccounts: () => ({ value: balances.map((_, i) => ({ address: tokenAccount(i) })) }),
+    getMultipleAccounts: ([addresses, options]) => ({
+      value: (addresses as string[]).map((address) => {
+        if ((options as { dataSlice?: unknown }).dataSlice) {
+          return { data: ['', 'base64'], owner: address === POOL_AUTHORITY ? RAYDIUM_AMM_OWNER : '11111111111111111111111111111111' };
+        }
+        const [owner, amount] = balances[Number(new PublicKey(address).toBytes()[0]) - 100];
+        return { data: [tokenAccountData(owner, amount), 'base64'], owner: 'Tokenkeg' };
+      }),
+    }),
+    getSignaturesForAddress: ([address]) => [{ signature: `first-${address}` }],
+    getTransaction: ([signature]) => {
+      const payer = funders[String(signature).replace('first-', '')];
+      return payer ? { transaction: { message: { accountKeys: [payer] } } } : null;
+    },
+  };
+
+  return {
+    call: async <T,>(method: string, params: unknown[] = []) => handlers[method](params) as T,
+  };
+}
+
+describe('holder analysis', () => {
+  it('parses mint supply, decimals and authorities', () => {
+    const mint = parseMintAccount(mintData(123_456_789n, FUNDER));
+    expect(mint).toEqual({ mintAuthority: FUNDER, freezeAuthority: null, supply: 123_456_789n, decimals: 6 });
+  });
+
+  it('excludes pools and burns, finds funding clusters and the deployer', async () => {
+    const analysis = await analyzeTokenHolders(mockRpc(), MINT);
+
+    expect(analysis.excluded.map((e) => e.label)).toEqual(['Raydium AMM v4', 'Incinerator']);
+    expect(analysis.holderCount).toBe(4);
+    expect(analysis.topHolderPercent).toBe(15);
+    expect(analysis.top10Percent).toBe(38);
+    expect(analysis.clusters).toEqual([{ funder: FUNDER, wallets: [A, B, C], percent: 33 }]);
+    expect(analysis.deployer).toBe(DEPLOYER);
+    expect(analysis.devHoldingPercent).toBe(5);
+    expect(() => JSON.stringify(analysis)).not.toThrow();
+
+    const score = scoreHolderRisk(analysis, DEFAULT_HOLDER_RISK_SETTINGS);
+    expect(score.points).toBe(DEFAULT_HOLDER_RISK_SETTINGS.holder_cluster_weight);
+    expect(score.clusterTripped).toBe(true);
+    expect(score.concentrationTripped).toBe(false);
+  });
+
+  it('ignores a tripped signal whose weight is zero', async () => {
+    const analysis = await analyzeTokenHolders(mockRpc(), MINT);
+    const score = scoreHolderRisk(analysis, {
+      ...DEFAULT_HOLDER_RISK_SETTINGS,
+      max_top10_holder_percent: 30,
+      holder_cluster_weight: 0,
+    });
+
+    expect(score.points).toBe(DEFAULT_HOLDER_RISK_SETTINGS.holder_concentration_weight);
+    expect(score.reasons).toEqual(['Top 10 holders own 38.0% (max 30%)']);
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * On-chain holder analysis - browser entry point
+ * Re-exports the shared analyzer risk-check uses so the trading engine scores holders the same way
+ */
+export * from '../../supabase/functions/_shared/holder-analysis.ts';
@@ -0,0 +1,53 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { Keypair, PublicKey, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import {
+  DEFAULT_JITO_SETTINGS,
+  encodeBase58,
+  parseJitoSettings,
+  resolveJitoTip,
+  transactionSignature,
+} from './jito';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+describe('jito helpers', () => {
+  it('sizes percentile tips between the configured minimum and maximum', () => {
+    const settings = parseJitoSettings({
+      jito_enabled: true,
+      jito_tip_lamports: 50_000,
+      jito_tip_strategy: 'p75',
+      jito_max_tip_lamports: 1_000_000,
+    });
+
+    expect(resolveJitoTip(settings, { landed_tips_75th_percentile: 0.0002 })).toBe(200_000);
+    expect(resolveJitoTip(settings, { landed_tips_75th_percentile: 0.00001 })).toBe(50_000);
+    expect(resolveJitoTip(settings, { landed_tips_75th_percentile: 0.5 })).toBe(1_000_000);
+    expect(resolveJitoTip(settings, null)).toBe(50_000);
+  });
+
+  it('falls back to defaults for missing or invalid settings', () => {
+    expect(parseJitoSettings(null)).toEqual(DEFAULT_JITO_SETTINGS);
+    expect(parseJitoSettings({ jito_tip_strategy: 'p99', jito_fallback_slots: -3 })).toMatchObject({
+      enabled: false,
+      tipStrategy: 'fixed',
+      fallbackSlots: DEFAULT_JITO_SETTINGS.fallbackSlots,
+    });
+  });
+
+  it('reads the transaction id from a signed wire-format transaction', () => {
+    const payer = Keypair.generate();
+    const message = new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: new PublicKey(new Uint8Array(32).fill(7)).toBase58(),
+      instructions: [SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: payer.publicKey, lamports: 1 })],
+    }).compileToV0Message();
+    const tx = new VersionedTransaction(message);
+
+    expect(transactionSignature(toBase64(tx.serialize()))).toBeNull();
+
+    tx.sign([payer]);
+    expect(transactionSignature(toBase64(tx.serialize()))).toBe(encodeBase58(tx.signatures[0]));
+    expect(encodeBase58(payer.publicKey.toBytes())).toBe(payer.publicKey.toBase58());
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Jito bundles - browser entry point
+ * Re-exports the shared tip / bundle helpers trade-execution and the jito-bundle function use
+ */
+export * from '../../supabase/functions/_shared/jito.ts';
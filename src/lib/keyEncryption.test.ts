@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { decryptSecret, deriveKeyring, encryptSecret, parseKeyring, reencryptSecret, withDecryptOnlyKeys } from './keyEncryption';
+
+const key = (fill: number) => btoa(String.fromCharCode(...new Uint8Array(32).fill(fill)));
+
+describe('key encryption', () => {
+  it('round-trips through a versioned envelope and rejects tampering', async () => {
+    const keyring = parseKeyring(`k1:${key(1)}`)!;
+    const stored = await encryptSecret('birdeye-secret', keyring);
+
+    expect(stored).toMatch(/^v1:k1:[A-Za-z0-9+/=]+:[A-Za-z0-9+/=]+$/);
+    expect(stored).not.toContain('birdeye-secret');
+    expect(await encryptSecret('birdeye-secret', keyring)).not.toBe(stored);
+    expect(await decryptSecret(stored, keyring)).toEqual({ value: 'birdeye-secret', keyId: 'k1', needsReencryption: false });
+
+    const [version, id, wrapped, payload] = stored.split(':');
+    const flipped = `${payload.slice(0, -4)}${payload.slice(-4) === 'AAAA' ? 'BBBB' : 'AAAA'}`;
+    expect((await decryptSecret([version, id, wrapped, flipped].join(':'), keyring)).value).toBeNull();
+  });
+
+  it('rotates by re-wrapping onto the active key, keeping the old one readable until then', async () => {
+    const before = parseKeyring(`k1:${key(1)}`)!;
+    const after = parseKeyring(`k1:${key(1)},k2:${key(2)}`)!;
+    expect(after.activeId).toBe('k2');
+
+    const stored = await encryptSecret('jupiter-secret', before);
+    expect(await decryptSecret(stored, after)).toMatchObject({ value: 'jupiter-secret', needsReencryption: true });
+
+    const rotated = (await reencryptSecret(stored, after))!;
+    expect(rotated.startsWith('v1:k2:')).toBe(true);
+    expect(rotated.split(':')[3]).toBe(stored.split(':')[3]);
+    expect(await reencryptSecret(rotated, after)).toBeNull();
+    expect((await decryptSecret(rotated, parseKeyring(`k2:${key(2)}`)!)).value).toBe('jupiter-secret');
+    expect(() => parseKeyring(`k1:${key(1)}`, 'k9')).toThrow(/not in the keyring/);
+  });
+
+  it('keeps reading keys stored under the service-role-derived key once a keyring is configured', async () => {
+    const derived = await deriveKeyring('service-role-key', 'srk');
+    const stored = await encryptSecret('helius-secret', derived);
+    expect(stored.startsWith('v1:srk:')).toBe(true);
+
+    const keyring = withDecryptOnlyKeys(parseKeyring(`k1:${key(1)}`)!, derived);
+    expect(keyring.activeId).toBe('k1');
+    expect(await decryptSecret(stored, keyring)).toMatchObject({ value: 'helius-secret', keyId: 'srk', needsReencryption: true });
+
+    const rotated = (await reencryptSecret(stored, keyring))!;
+    expect(rotated.startsWith('v1:k1:')).toBe(true);
+    expect((await decryptSecret(rotated, keyring)).value).toBe('helius-secret');
+    expect((await encryptSecret('new-secret', keyring)).startsWith('v1:k1:')).toBe(true);
+
+    // A configured key that reuses the id is not replaced by the derived one
+    const clash = withDecryptOnlyKeys(parseKeyring(`srk:${key(3)}`)!, derived);
+    expect((await decryptSecret(stored, clash)).value).toBeNull();
+  });
+
+  it('reads legacy enc:, aes: and plaintext values and flags them for migration', async () => {
+    const keyring = parseKeyring(`k1:${key(1)}`)!;
+    const xorKey = 'x'.repeat(32);
+    const xorHex = Array.from(new TextEncoder().encode('legacy-key'))
+      .map((b, i) => (b ^ xorKey.charCodeAt(i % 32)).toString(16).padStart(2, '0'))
+      .join('');
+
+    expect(await decryptSecret(`enc:${btoa('old-key')}`, keyring)).toMatchObject({ value: 'old-key', needsReencryption: true });
+    expect(await decryptSecret(`aes:${xorHex}`, keyring, xorKey)).toMatchObject({ value: 'legacy-key', needsReencryption: true });
+    expect(await decryptSecret('plain-key', keyring)).toMatchObject({ value: 'plain-key', needsReencryption: true });
+
+    const migrated = (await reencryptSecret(`aes:${xorHex}`, keyring, xorKey))!;
+    expect((await decryptSecret(migrated, keyring)).value).toBe('legacy-key');
+  });
+});
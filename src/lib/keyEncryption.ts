@@ -0,0 +1,5 @@
+/**
+ * Key encryption - browser entry point
+ * Re-exports the envelope format api-secrets stores API keys in, for tests and tooling
+ */
+export * from '../../supabase/functions/_shared/key-encryption.ts';
@@ -0,0 +1,5 @@
+/**
+ * Limit orders - browser entry point
+ * Re-exports the shared module the limit-orders worker evaluates triggers with
+ */
+export * from '../../supabase/functions/_shared/limit-orders.ts';
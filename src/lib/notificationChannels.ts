@@ -0,0 +1,5 @@
+/**
+ * Notification channels - browser entry point
+ * Re-exports the shared module the notify helper delivers alerts with
+ */
+export * from '../../supabase/functions/_shared/notification-channels.ts';
@@ -0,0 +1,5 @@
+/**
+ * Position accounting - browser entry point
+ * Re-exports the shared module auto-exit books sales with, so partial sells add up the same everywhere
+ */
+export * from '../../supabase/functions/_shared/position-accounting.ts';
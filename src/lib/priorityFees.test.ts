@@ -0,0 +1,34 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRIORITY_FEES, estimatePriorityFee, priorityFeeAccounts } from './priorityFees';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const MINT = '7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr';
+const POOL = '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2';
+
+const samples = (fees: number[]) => fees.map((prioritizationFee, i) => ({ slot: 1000 + i, prioritizationFee }));
+
+describe('priority fee estimation', () => {
+  it('prices each level at its percentile of recent fees', () => {
+    const recent = samples([0, 0, 1_000, 2_000, 3_000, 4_000, 5_000, 10_000, 20_000, 100_000]);
+
+    expect(estimatePriorityFee(recent, 'medium')).toMatchObject({ microLamportsPerCu: 3_000, lamports: 900, source: 'recent' });
+    expect(estimatePriorityFee(recent, 'veryHigh')).toMatchObject({ microLamportsPerCu: 100_000, lamports: 30_000 });
+    expect(estimatePriorityFee([], 'high')).toMatchObject({ lamports: DEFAULT_PRIORITY_FEES.high, source: 'default' });
+  });
+
+  it('caps the whole-transaction fee at the max SOL per trade', () => {
+    const estimate = estimatePriorityFee(samples([50_000_000]), 'high', { maxFeeSol: 0.001 });
+
+    expect(estimate.capped).toBe(true);
+    expect(estimate.lamports).toBe(1_000_000);
+    expect(estimate.microLamportsPerCu).toBe(3_333_333);
+  });
+
+  it('collects the mint and route pools, skipping SOL and duplicates', () => {
+    const quote = { routePlan: [{ swapInfo: { ammKey: POOL } }, { swapInfo: { ammKey: POOL } }] };
+
+    expect(priorityFeeAccounts([SOL, MINT], quote)).toEqual([MINT, POOL]);
+    expect(priorityFeeAccounts([MINT], { data: { routePlan: [{ poolId: POOL }] } }, null)).toEqual([MINT, POOL]);
+  });
+});
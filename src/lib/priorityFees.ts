@@ -0,0 +1,5 @@
+/**
+ * Priority fees - browser entry point
+ * Re-exports the shared estimator trade-execution prices swaps with
+ */
+export * from '../../supabase/functions/_shared/priority-fees.ts';
@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  computeGuardrailUsage,
+  evaluateGuardrails,
+  DEFAULT_GUARDRAIL_LIMITS,
+  type GuardrailPositionRow,
+} from './riskGuardrails';
+
+const NOW = new Date('2026-02-10T15:00:00Z');
+
+const position = (overrides: Partial<GuardrailPositionRow>): GuardrailPositionRow => ({
+  id: 'pos',
+  token_address: 'mint',
+  status: 'open',
+  entry_value: 1,
+  remaining_fraction: 1,
+  profit_loss_percent: 0,
+  created_at: '2026-02-09T10:00:00Z',
+  closed_at: null,
+  ...overrides,
+});
+
+describe('risk guardrails', () => {
+  it('counts a partially sold losing position toward the daily loss before it closes', () => {
+    const laddered = position({ id: 'laddered', entry_value: 2, remaining_fraction: 0.5, profit_loss_percent: -40 });
+    const sells = [
+      { position_id: 'laddered', realized_pnl_sol: -0.4, created_at: '2026-02-10T12:00:00Z' },
+      // Booked yesterday - not part of today's loss
+      { position_id: 'laddered', realized_pnl_sol: -0.3, created_at: '2026-02-09T23:00:00Z' },
+    ];
+
+    const usage = computeGuardrailUsage([laddered], NOW, undefined, sells);
+    expect(usage.dailyLossSol).toBeCloseTo(0.4);
+    expect(usage.openExposureSol).toBeCloseTo(1);
+
+    const result = evaluateGuardrails({ ...DEFAULT_GUARDRAIL_LIMITS, max_daily_loss_sol: 0.4 }, usage, 0.1);
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toMatch(/Daily loss limit/);
+  });
+
+  it('does not count a closed position twice when its sells booked the P&L', () => {
+    const closed = position({
+      id: 'closed',
+      status: 'closed',
+      profit_loss_percent: -50,
+      closed_at: '2026-02-10T13:00:00Z',
+    });
+    const legacy = position({
+      id: 'legacy',
+      status: 'closed',
+      profit_loss_percent: -20,
+      closed_at: '2026-02-10T14:00:00Z',
+    });
+    const sells = [
+      { position_id: 'closed', realized_pnl_sol: -0.2, created_at: '2026-02-10T11:00:00Z' },
+      { position_id: 'closed', realized_pnl_sol: -0.3, created_at: '2026-02-10T13:00:00Z' },
+    ];
+
+    // 0.5 booked by sells + 0.2 estimated for the legacy close with no booked sell
+    expect(computeGuardrailUsage([closed, legacy], NOW, undefined, sells).dailyLossSol).toBeCloseTo(0.7);
+  });
+
+  it('keeps ETH / BNB positions out of SOL amounts but counts them as trades', () => {
+    const sol = position({ id: 'sol', entry_value: 1, created_at: '2026-02-10T14:30:00Z' });
+    const eth = position({ id: 'eth', chain: 'ethereum', entry_value: 0.5, created_at: '2026-02-10T14:40:00Z' });
+    const bnb = position({ id: 'bnb', chain: 'bsc', status: 'closed', profit_loss_percent: -50, entry_value: 3, closed_at: '2026-02-10T12:00:00Z' });
+    const sells = [
+      { position_id: 'eth', realized_pnl_sol: -0.2, created_at: '2026-02-10T14:50:00Z' },
+      { position_id: 'sol', realized_pnl_sol: -0.1, created_at: '2026-02-10T14:55:00Z' },
+    ];
+
+    const usage = computeGuardrailUsage([sol, eth, bnb], NOW, undefined, sells);
+    expect(usage).toMatchObject({ openExposureSol: 1, tradesLastHour: 2 });
+    expect(usage.dailyLossSol).toBeCloseTo(0.1);
+
+    // An ETH-funded buy adds a trade but no SOL
+    const limits = { ...DEFAULT_GUARDRAIL_LIMITS, max_trades_per_hour: 2 };
+    expect(evaluateGuardrails(limits, usage, 0, true).allowed).toBe(false);
+    expect(evaluateGuardrails(limits, usage).allowed).toBe(true);
+  });
+
+  it('counts buys averaged into an open position toward the trade rate', () => {
+    const older = position({ id: 'older', created_at: '2026-02-10T12:00:00Z' });
+    const fresh = position({ id: 'fresh', created_at: '2026-02-10T14:20:00Z' });
+    const legacy = position({ id: 'legacy', created_at: '2026-02-10T14:25:00Z' });
+    const buys = [
+      // Two averaging buys into a position opened before the hour, one outside it
+      { position_id: 'older', created_at: '2026-02-10T14:30:00Z' },
+      { position_id: 'older', created_at: '2026-02-10T14:45:00Z' },
+      { position_id: 'older', created_at: '2026-02-10T13:30:00Z' },
+      // Opening fill plus one averaging buy; legacy has no fills and counts once
+      { position_id: 'fresh', created_at: '2026-02-10T14:20:00Z' },
+      { position_id: 'fresh', created_at: '2026-02-10T14:50:00Z' },
+    ];
+
+    const usage = computeGuardrailUsage([older, fresh, legacy], NOW, undefined, [], buys);
+    expect(usage.tradesLastHour).toBe(5);
+    expect(computeGuardrailUsage([older, fresh, legacy], NOW).tradesLastHour).toBe(2);
+
+    const result = evaluateGuardrails({ ...DEFAULT_GUARDRAIL_LIMITS, max_trades_per_hour: 5 }, usage, 0.1);
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toMatch(/Max trades per hour/);
+  });
+
+  it('falls back to entry value x final P&L when no sells are given', () => {
+    const closed = position({ status: 'closed', profit_loss_percent: -25, entry_value: 2, closed_at: '2026-02-10T09:00:00Z' });
+    expect(computeGuardrailUsage([closed], NOW).dailyLossSol).toBeCloseTo(0.5);
+  });
+});
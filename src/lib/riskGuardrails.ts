@@ -0,0 +1,5 @@
+/**
+ * SOL guardrails - browser entry point
+ * Re-exports the shared module trade-execution enforces, so utilization shown matches what blocks trades
+ */
+export * from '../../supabase/functions/_shared/risk-guardrails.ts';
@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildRpcEndpoints, createRpcPool } from './rpcPool';
+import { requestUrl, resetFetchHandler, setFetchHandler } from '@/test/mocks/fetch';
+
+const PRIMARY = 'https://primary.rpc.mock';
+const BACKUP = 'https://backup.rpc.mock';
+
+const rpcResult = (result: unknown) =>
+  new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, result }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('rpc pool (offline)', () => {
+  afterEach(() => resetFetchHandler());
+
+  it('orders configured endpoints before the public fallback and drops duplicates', () => {
+    const endpoints = buildRpcEndpoints(
+      { primary: PRIMARY, helius: BACKUP, quicknode: '', useHelius: true },
+      [{ name: 'env', url: PRIMARY }]
+    );
+
+    expect(endpoints.map((e) => e.url)).toEqual([BACKUP, PRIMARY, 'https://api.mainnet-beta.solana.com']);
+  });
+
+  it('fails over on 429 and prefers the healthy endpoint afterwards', async () => {
+    const calls: string[] = [];
+    setFetchHandler(async (input) => {
+      const url = requestUrl(input);
+      calls.push(url);
+      return url === PRIMARY ? new Response('rate limited', { status: 429 }) : rpcResult(1234);
+    });
+
+    const pool = createRpcPool([
+      { name: 'primary', url: PRIMARY, priority: 0 },
+      { name: 'backup', url: BACKUP, priority: 1 },
+    ]);
+
+    await expect(pool.call<number>('getSlot')).resolves.toBe(1234);
+    expect(calls).toEqual([PRIMARY, BACKUP]);
+
+    // Primary is cooling down, so the next call goes straight to the backup
+    await pool.call<number>('getSlot');
+    expect(calls).toEqual([PRIMARY, BACKUP, BACKUP]);
+    expect(pool.activeUrl()).toBe(BACKUP);
+
+    const report = pool.report();
+    expect(report.find((r) => r.name === 'primary')?.state).toBe('offline');
+    expect(report.find((r) => r.name === 'backup')?.active).toBe(true);
+  });
+
+  it('surfaces the last failing status when every endpoint is down', async () => {
+    setFetchHandler(async () => new Response('unavailable', { status: 503 }));
+
+    const pool = createRpcPool([
+      { name: 'primary', url: PRIMARY, priority: 0 },
+      { name: 'backup', url: BACKUP, priority: 1 },
+    ]);
+
+    await expect(pool.call('getSlot')).rejects.toThrow('RPC error 503');
+  });
+});
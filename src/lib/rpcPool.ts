@@ -0,0 +1,5 @@
+/**
+ * Solana RPC pool - browser entry point
+ * Re-exports the shared health-scored endpoint pool the edge functions route RPC calls through
+ */
+export * from '../../supabase/functions/_shared/rpc-pool.ts';
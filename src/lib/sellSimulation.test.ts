@@ -0,0 +1,102 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import {
+  associatedTokenAddress,
+  evaluateSellSimulation,
+  simulateSellRoundTrip,
+  type SwapQuote,
+  type SwapRouter,
+} from './sellSimulation';
+import { mockAddress } from '@/test/mocks/fixtures';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const ATA_PROGRAM = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+const SOL = 'So11111111111111111111111111111111111111112';
+const MINT = mockAddress(80);
+const HOLDER = mockAddress(81);
+
+const ata = (owner: string) =>
+  PublicKey.findProgramAddressSync(
+    [new PublicKey(owner).toBuffer(), new PublicKey(TOKEN_PROGRAM).toBuffer(), new PublicKey(MINT).toBuffer()],
+    new PublicKey(ATA_PROGRAM)
+  )[0].toBase58();
+
+function tokenAccountData(owner: string, amount: bigint): string {
+  const data = new Uint8Array(165);
+  data.set(new PublicKey(MINT).toBytes(), 0);
+  data.set(new PublicKey(owner).toBytes(), 32);
+  new DataView(data.buffer).setBigUint64(64, amount, true);
+  return toBase64(data);
+}
+
+const HOLDER_LAMPORTS = 1_000_000_000;
+const HOLDER_TOKENS = 5_000_000n;
+
+// Holder with 5M tokens and 1 SOL; the simulations credit `tokensCredited` on the buy and `solCredited` on the sell
+function mockRpc(opts: { tokensCredited: bigint; solCredited: number; sellError?: unknown; sellLogs?: string[] }) {
+  const tokenAccount = ata(HOLDER);
+  const handlers: Record<string, (params: unknown[]) => unknown> = {
+    getTokenLargestAccounts: () => ({ value: [{ address: tokenAccount }] }),
+    getMultipleAccounts: ([, options]) => ((options as { dataSlice?: unknown }).dataSlice
+      ? { value: [{ data: ['', 'base64'], owner: '11111111111111111111111111111111', lamports: HOLDER_LAMPORTS }] }
+      : { value: [{ data: [tokenAccountData(HOLDER, HOLDER_TOKENS), 'base64'], owner: TOKEN_PROGRAM, lamports: 2_039_280 }] }),
+    simulateTransaction: ([tx]) => (tx === 'buy-tx'
+      ? { value: { err: null, logs: [], accounts: [{ data: [tokenAccountData(HOLDER, HOLDER_TOKENS + opts.tokensCredited), 'base64'], owner: TOKEN_PROGRAM, lamports: 2_039_280 }] } }
+      : { value: {
+        err: opts.sellError ?? null,
+        logs: opts.sellLogs ?? [],
+        accounts: [{ data: ['', 'base64'], owner: '11111111111111111111111111111111', lamports: HOLDER_LAMPORTS - 5_000 + opts.solCredited }],
+      } }),
+  };
+  return { call: async <T,>(method: string, params: unknown[] = []) => handlers[method](params) as T };
+}
+
+// 0.01 SOL buys 1M tokens; 1M tokens sells for 0.009 SOL
+const router: SwapRouter = {
+  quote: async (input: string) => ({ outAmount: input === SOL ? '1000000' : '9000000' }),
+  swapTransaction: async (quote: SwapQuote) => (quote.outAmount === '1000000' ? 'buy-tx' : 'sell-tx'),
+};
+
+describe('sell simulation', () => {
+  it('derives associated token addresses like web3.js', async () => {
+    expect(await associatedTokenAddress(HOLDER, MINT, TOKEN_PROGRAM)).toBe(ata(HOLDER));
+  });
+
+  it('measures buy and sell tax against the quotes', async () => {
+    const simulation = await simulateSellRoundTrip(mockRpc({ tokensCredited: 950_000n, solCredited: 8_100_000 }), MINT, { router });
+
+    expect(simulation.status).toBe('sellable');
+    expect(simulation.probeWallet).toBe(HOLDER);
+    expect(simulation.buy).toMatchObject({ ok: true, simulatedOut: '950000', taxPercent: 5 });
+    expect(simulation.sell).toMatchObject({ ok: true, simulatedOut: '8100000', taxPercent: 10 });
+    expect(simulation.roundTripLossPercent).toBe(23.05);
+    expect(evaluateSellSimulation(simulation, 10).passed).toBe(true);
+    expect(evaluateSellSimulation(simulation, 8)).toEqual({
+      passed: false,
+      reason: '✗ Simulated tax Buy: 5%, Sell: 10% above max 8%',
+    });
+  });
+
+  it('flags a token whose sell leg fails to simulate', async () => {
+    const simulation = await simulateSellRoundTrip(
+      mockRpc({
+        tokensCredited: 1_000_000n,
+        solCredited: 0,
+        sellError: { InstructionError: [3, { Custom: 6000 }] },
+        sellLogs: ['Program log: Instruction: Transfer', 'Program log: Error: transfers are paused'],
+      }),
+      MINT,
+      { router }
+    );
+
+    expect(simulation.status).toBe('unsellable');
+    expect(simulation.buy.ok).toBe(true);
+    expect(evaluateSellSimulation(simulation, 10)).toEqual({
+      passed: false,
+      reason: '✗ Sell simulation failed - {"InstructionError":[3,{"Custom":6000}]}: Program log: Error: transfers are paused',
+    });
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Sell-simulation honeypot check - browser entry point
+ * Re-exports the shared round-trip simulation so the UI reads results and verdicts the same way risk-check does
+ */
+export * from '../../supabase/functions/_shared/sell-simulation.ts';
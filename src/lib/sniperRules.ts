@@ -0,0 +1,5 @@
+/**
+ * Sniper rules engine - browser entry point
+ * Re-exports the shared module auto-sniper runs, so UI decisions can't drift from the server's
+ */
+export * from '../../supabase/functions/_shared/sniper-rules.ts';
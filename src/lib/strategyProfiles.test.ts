@@ -0,0 +1,83 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  needsActivation,
+  profileActivationPatch,
+  resolveScheduledProfile,
+  sanitizeSchedule,
+  type StrategyProfile,
+} from './strategyProfiles';
+
+const profile = (overrides: Partial<StrategyProfile>): StrategyProfile => ({
+  id: 'p',
+  user_id: 'u',
+  name: 'Profile',
+  description: null,
+  version: 1,
+  sniper_settings: {},
+  risk_settings: {},
+  schedule: [],
+  schedule_timezone: 'UTC',
+  is_schedule_default: false,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const aggressive = profile({
+  id: 'aggressive',
+  name: 'Aggressive launch sniping',
+  schedule: [{ days: WEEKDAYS, start: '13:00', end: '21:00' }],
+});
+const overnight = profile({
+  id: 'overnight',
+  name: 'Conservative overnight',
+  schedule: [{ days: [0, 1, 2, 3, 4, 5, 6], start: '22:00', end: '06:00' }],
+});
+const fallback = profile({ id: 'fallback', name: 'Default', is_schedule_default: true });
+
+describe('strategy profiles', () => {
+  it('drops malformed schedule windows and unknown days', () => {
+    expect(sanitizeSchedule([
+      { days: [5, 1, 1, 9], start: '09:00', end: '17:30' },
+      { days: [2], start: '25:00', end: '02:00' },
+      { days: [], start: '01:00', end: '02:00' },
+      'daily',
+    ])).toEqual([{ days: [1, 5], start: '09:00', end: '17:30' }]);
+  });
+
+  it('picks the scheduled profile, including windows past midnight and the default outside them', () => {
+    const profiles = [aggressive, overnight, fallback];
+
+    // Tuesday 2026-02-10 15:00 UTC
+    expect(resolveScheduledProfile(profiles, new Date('2026-02-10T15:00:00Z'))?.id).toBe('aggressive');
+    // Saturday 03:00 falls in Friday's overnight window
+    expect(resolveScheduledProfile(profiles, new Date('2026-02-14T03:00:00Z'))?.id).toBe('overnight');
+    // Tuesday 10:00 is outside every window
+    expect(resolveScheduledProfile(profiles, new Date('2026-02-10T10:00:00Z'))?.id).toBe('fallback');
+    expect(resolveScheduledProfile([aggressive], new Date('2026-02-10T10:00:00Z'))).toBeNull();
+
+    // Same instant, New York clock: Tuesday 10:00 local is not 15:00 UTC
+    const newYork = { ...aggressive, schedule_timezone: 'America/New_York', schedule: [{ days: [2], start: '10:00', end: '11:00' }] };
+    expect(resolveScheduledProfile([newYork], new Date('2026-02-10T15:30:00Z'))?.id).toBe('aggressive');
+  });
+
+  it('builds activation patches from known fields and re-activates edited profiles', () => {
+    const edited = profile({
+      id: 'aggressive',
+      version: 3,
+      sniper_settings: { trade_amount: 0.5, priority: 'turbo', user_id: 'someone-else', active_profile_id: 'x' },
+      risk_settings: { max_trades_per_hour: 20, emergency_stop_active: false },
+    });
+
+    expect(profileActivationPatch(edited)).toEqual({
+      sniper: { trade_amount: 0.5, priority: 'turbo', active_profile_id: 'aggressive', active_profile_version: 3 },
+      risk: { max_trades_per_hour: 20 },
+    });
+    expect(needsActivation({ active_profile_id: 'aggressive', active_profile_version: 3 }, edited)).toBe(false);
+    expect(needsActivation({ active_profile_id: 'aggressive', active_profile_version: 2 }, edited)).toBe(true);
+    expect(needsActivation(null, edited)).toBe(true);
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Strategy profiles - browser entry point
+ * Re-exports the shared profile field lists, activation patches and schedule resolution used by bot-runner
+ */
+export * from '../../supabase/functions/_shared/strategy-profiles.ts';
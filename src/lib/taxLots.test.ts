@@ -0,0 +1,173 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  buildTaxLedger,
+  ledgerTradesFromHistory,
+  realizedGainsToCsv,
+  summarizeRealizedGains,
+  taxLedgerToCsv,
+  type LedgerTrade,
+  type TradeHistoryLedgerRow,
+} from './taxLots';
+
+const MINT = 'BonkMint111';
+
+function trade(overrides: Partial<LedgerTrade> & Pick<LedgerTrade, 'id' | 'timestamp' | 'side' | 'amount' | 'priceSol'>): LedgerTrade {
+  return {
+    tokenAddress: MINT,
+    tokenSymbol: 'BONK',
+    walletAddress: 'wallet-1',
+    positionId: null,
+    priceUsd: null,
+    quotedPriceSol: null,
+    feeLamports: 0,
+    reconciled: false,
+    txHash: null,
+    ...overrides,
+  };
+}
+
+// SOL at $100 on the buys and $200 on the sell
+const trades = [
+  trade({ id: 'b1', timestamp: '2025-01-10T00:00:00.000Z', side: 'buy', amount: 1000, priceSol: 0.001, priceUsd: 0.1, positionId: 'p1', feeLamports: 10_000_000 }),
+  trade({ id: 'b2', timestamp: '2026-03-01T00:00:00.000Z', side: 'buy', amount: 1000, priceSol: 0.002, priceUsd: 0.2, positionId: 'p2' }),
+  trade({ id: 's1', timestamp: '2026-06-01T00:00:00.000Z', side: 'sell', amount: 1000, priceSol: 0.003, priceUsd: 0.6, positionId: 'p2', feeLamports: 5_000_000 }),
+];
+
+describe('tax lots', () => {
+  it('relieves lots by FIFO or LIFO, with fees in basis and proceeds', () => {
+    const fifo = buildTaxLedger(trades, 'fifo').disposals[0].reliefs;
+    // Basis 1 SOL + 0.01 SOL fee ($101); proceeds 3 SOL - 0.005 SOL fee ($599)
+    expect(fifo).toHaveLength(1);
+    expect(fifo[0]).toMatchObject({ lotId: 'b1', term: 'long' });
+    expect(fifo[0].costSol).toBeCloseTo(1.01, 9);
+    expect(fifo[0].costUsd).toBeCloseTo(101, 9);
+    expect(fifo[0].gainSol).toBeCloseTo(1.985, 9);
+    expect(fifo[0].gainUsd).toBeCloseTo(498, 9);
+
+    const [lifo] = buildTaxLedger(trades, 'lifo').disposals[0].reliefs;
+    expect(lifo).toMatchObject({ lotId: 'b2', term: 'short' });
+    expect(lifo.gainUsd).toBeCloseTo(599 - 200, 9);
+  });
+
+  it('relieves the lots picked for a sale under specific ID and the rest FIFO', () => {
+    const history = [
+      ...trades.slice(0, 2),
+      trade({ id: 'b3', timestamp: '2026-04-01T00:00:00.000Z', side: 'buy', amount: 1000, priceSol: 0.0025, priceUsd: 0.5 }),
+      trade({ id: 's2', timestamp: '2026-06-01T00:00:00.000Z', side: 'sell', amount: 1500, priceSol: 0.003, priceUsd: 0.6 }),
+    ];
+    const ledger = buildTaxLedger(history, 'specific', [
+      { sellTradeId: 's2', lotId: 'b3', amount: 600 },
+      { sellTradeId: 's2', lotId: 'b2', amount: 400 },
+      { sellTradeId: 'other-sale', lotId: 'b1', amount: 1000 },
+    ]);
+
+    const [sale] = ledger.disposals;
+    expect(sale.reliefs.map((r) => [r.lotId, r.amount])).toEqual([['b3', 600], ['b2', 400], ['b1', 500]]);
+    expect(sale.openLots.map((lot) => [lot.lotId, lot.remaining])).toEqual([['b1', 1000], ['b2', 1000], ['b3', 1000]]);
+    expect(ledger.warnings).toEqual([expect.stringMatching(/500 of the sale on 2026-06-01 not identified/)]);
+
+    // With nothing picked, specific ID is FIFO
+    const unpicked = buildTaxLedger(history, 'specific').disposals[0].reliefs;
+    expect(unpicked.map((r) => [r.lotId, r.amount])).toEqual([['b1', 1000], ['b2', 500]]);
+  });
+
+  it('splits a sale across lots and flags quantity with no recorded buy', () => {
+    const ledger = buildTaxLedger([
+      ...trades.slice(0, 2),
+      trade({ id: 's2', timestamp: '2026-06-01T00:00:00.000Z', side: 'sell', amount: 2500, priceSol: 0.003, priceUsd: 0.6 }),
+    ], 'fifo');
+
+    const reliefs = ledger.disposals[0].reliefs;
+    expect(reliefs.map((r) => [r.lotId, r.amount])).toEqual([['b1', 1000], ['b2', 1000], [null, 500]]);
+    expect(reliefs[2]).toMatchObject({ costUsd: null, gainUsd: null });
+    expect(ledger.warnings).toHaveLength(1);
+    expect(ledger.lots.every((lot) => lot.remaining === 0)).toBe(true);
+
+    const summary = summarizeRealizedGains(ledger, 2026);
+    expect(summary).toMatchObject({ disposals: 1, unknownBasis: 1 });
+    expect(summary.longTermGainUsd).toBeCloseTo(600 - 101, 9);
+    expect(summary.shortTermGainUsd).toBeCloseTo(600 - 200, 9);
+  });
+
+  it('maps reconciled history rows and writes importable CSVs', () => {
+    const [buy] = ledgerTradesFromHistory([{
+      id: 'h1', created_at: '2026-02-01T12:00:00.000Z', trade_type: 'buy', status: 'confirmed',
+      token_address: MINT, token_symbol: 'BONK, Inc', wallet_address: 'w', position_id: 'p1',
+      amount: 500, price_sol: 0.0021, price_usd: null, quoted_price_sol: 0.002,
+      priority_fee_lamports: 20_000, network_fee_lamports: 5000, tx_hash: 'sig1',
+      positions: { entry_price_usd: 0.3 },
+    }]);
+    // Reconciled price already includes fees; USD comes from the position at the quoted SOL rate
+    expect(buy).toMatchObject({ priceUsd: 0.3, quotedPriceSol: 0.002, feeLamports: 25_000, reconciled: true });
+    const ledger = buildTaxLedger([buy, trade({ id: 's', timestamp: '2026-04-01T00:00:00.000Z', side: 'sell', amount: 500, priceSol: 0.004, priceUsd: 0.8, txHash: 'sig2' })], 'fifo');
+    expect(ledger.lots[0].costSol).toBeCloseTo(1.05, 9);
+    expect(ledger.lots[0].costUsd).toBeCloseTo(157.5, 9);
+
+    const gains = realizedGainsToCsv(ledger, 2026).split('\n');
+    expect(gains[0]).toMatch(/^Description,Token Address,Date Acquired,Date Sold,Proceeds \(USD\)/);
+    expect(gains[1]).toBe(`500.000000 BONK,${MINT},2026-02-01,2026-04-01,400.00,157.50,242.50,2.000000000,1.050000000,0.950000000,Short-term,FIFO,h1,sig2`);
+    expect(realizedGainsToCsv(ledger, 2025).split('\n')).toHaveLength(1);
+
+    const rows = taxLedgerToCsv(ledger).split('\n');
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toMatch(/^2026-02-01T12:00:00\.000Z,BUY,"BONK, Inc",/);
+    expect(rows[2]).toContain('SELL');
+  });
+
+  it('values auto-exit sells by their SOL fill, counting USD-only sells toward USD gains', () => {
+    const row = (overrides: Partial<TradeHistoryLedgerRow>): TradeHistoryLedgerRow => ({
+      id: 'h', created_at: '2026-03-01T00:00:00.000Z', trade_type: 'buy', status: 'confirmed',
+      token_address: MINT, token_symbol: 'BONK', wallet_address: 'w', position_id: 'p1',
+      amount: 1_000_000, price_sol: 0.0000004, price_usd: 0.00008, quoted_price_sol: null,
+      priority_fee_lamports: null, network_fee_lamports: null, tx_hash: null,
+      ...overrides,
+    });
+    const ledger = buildTaxLedger(ledgerTradesFromHistory([
+      row({ id: 'buy' }),
+      // useAutoExit after confirm-transaction: SOL fill in price_sol, the live USD price in price_usd
+      row({
+        id: 'exit', created_at: '2026-03-02T00:00:00.000Z', trade_type: 'sell', amount: 500_000,
+        price_sol: 0.0000005, quoted_price_sol: 0.0000005, price_usd: 0.0001, tx_hash: 'sig',
+      }),
+      // auto-exit via the trade API when it reports no SOL proceeds
+      row({ id: 'api-exit', created_at: '2026-03-03T00:00:00.000Z', trade_type: 'sell', amount: 500_000, price_sol: null, price_usd: 0.00012 }),
+    ]), 'fifo');
+
+    const [exit, apiExit] = ledger.disposals;
+    expect(exit.proceedsSol).toBeCloseTo(0.25, 9);
+    expect(exit.proceedsUsd).toBeCloseTo(50, 9);
+    expect(exit.reliefs[0].gainSol).toBeCloseTo(0.05, 9);
+    expect(apiExit.proceedsSol).toBeNull();
+    expect(apiExit.reliefs[0].gainUsd).toBeCloseTo(20, 9);
+
+    const summary = summarizeRealizedGains(ledger, 2026);
+    expect(summary).toMatchObject({ disposals: 2, unknownBasis: 0 });
+    expect(summary.shortTermGainUsd).toBeCloseTo(30, 9);
+    expect(summary.gainSol).toBeCloseTo(0.05, 9);
+  });
+
+  it('does not count fees twice on rows reconciled without a quote and leaves EVM trades out', () => {
+    const row = (overrides: Partial<TradeHistoryLedgerRow>): TradeHistoryLedgerRow => ({
+      id: 'h', created_at: '2026-03-01T00:00:00.000Z', trade_type: 'buy', status: 'confirmed',
+      token_address: MINT, token_symbol: 'BONK', wallet_address: 'w', position_id: 'p1',
+      amount: 1000, price_sol: 0.001, price_usd: 0.1, quoted_price_sol: null,
+      priority_fee_lamports: 20_000, network_fee_lamports: 5000, tx_hash: 'sig',
+      positions: { entry_price_usd: 0.1, chain: 'solana' },
+      ...overrides,
+    });
+    const history = ledgerTradesFromHistory([
+      row({ id: 'buy' }),
+      // Scanner exit confirmed with no quote: fee-inclusive fill price, no quoted_price_sol
+      row({ id: 'sell', created_at: '2026-03-02T00:00:00.000Z', trade_type: 'sell', price_sol: 0.003, price_usd: 0.3 }),
+      // ETH-funded buy with its ETH price in price_sol
+      row({ id: 'eth-buy', token_address: '0xtoken', price_sol: 0.5, positions: { entry_price_usd: 1500, chain: 'ethereum' } }),
+    ]);
+    expect(history.map((t) => t.id)).toEqual(['buy', 'sell']);
+
+    const ledger = buildTaxLedger(history, 'fifo');
+    expect(ledger.lots[0].costSol).toBeCloseTo(1, 9);
+    expect(ledger.disposals[0].proceedsSol).toBeCloseTo(3, 9);
+    expect(ledger.disposals[0].reliefs[0].gainSol).toBeCloseTo(2, 9);
+  });
+});
@@ -0,0 +1,408 @@
+/**
+ * Tax-lot ledger over trade_history
+ * Every buy opens a lot; every sell relieves lots by FIFO, LIFO or specific identification (the
+ * lots picked for that sale in tax_lot_selections, anything left FIFO). Realized gains are kept in
+ * SOL and in USD at the time of each trade, with network + priority fees added to cost basis on
+ * buys and taken off proceeds on sells.
+ */
+
+import { escapeCSV } from '@/lib/exportUtils';
+
+export type LotMethod = 'fifo' | 'lifo' | 'specific';
+
+export const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  specific: 'Specific ID',
+};
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+// Remaining lot quantity below this share of the lot is rounding dust
+const DUST_RATIO = 1e-9;
+
+export interface LedgerTrade {
+  id: string;
+  timestamp: string;
+  side: 'buy' | 'sell';
+  tokenAddress: string;
+  tokenSymbol: string | null;
+  walletAddress: string | null;
+  positionId: string | null;
+  amount: number;
+  priceSol: number | null;
+  priceUsd: number | null;
+  quotedPriceSol: number | null; // Pre-trade quote, when one was recorded
+  feeLamports: number;
+  reconciled: boolean; // priceSol came from the on-chain fill and already includes fees
+  txHash: string | null;
+}
+
+export interface TaxLot {
+  id: string; // The opening buy's trade id
+  trade: LedgerTrade;
+  amount: number;
+  remaining: number;
+  costSol: number | null;
+  costUsd: number | null;
+}
+
+// A lot picked for a sale under specific identification (a tax_lot_selections row)
+export interface LotSelection {
+  sellTradeId: string;
+  lotId: string;
+  amount: number;
+}
+
+export interface OpenLot {
+  lotId: string;
+  acquiredAt: string;
+  remaining: number;
+}
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface LotRelief {
+  lotId: string | null; // null = sold more than the recorded buys cover, basis unknown
+  acquiredAt: string | null;
+  amount: number;
+  costSol: number | null;
+  costUsd: number | null;
+  proceedsSol: number | null;
+  proceedsUsd: number | null;
+  gainSol: number | null;
+  gainUsd: number | null;
+  term: HoldingTerm | null;
+}
+
+export interface Disposal {
+  trade: LedgerTrade;
+  proceedsSol: number | null;
+  proceedsUsd: number | null;
+  feeSol: number;
+  feeUsd: number | null;
+  reliefs: LotRelief[];
+  openLots: OpenLot[]; // Lots of the token open just before the sale - the choices for specific identification
+}
+
+export interface TaxLedger {
+  method: LotMethod;
+  lots: TaxLot[];
+  disposals: Disposal[];
+  warnings: string[];
+}
+
+// trade_history row with the opening position's USD entry (for buys logged without price_usd) and chain
+export interface TradeHistoryLedgerRow {
+  id: string;
+  created_at: string;
+  trade_type: string;
+  status: string | null;
+  token_address: string;
+  token_symbol: string | null;
+  wallet_address: string | null;
+  position_id: string | null;
+  amount: number;
+  price_sol: number | null;
+  price_usd: number | null;
+  quoted_price_sol: number | null;
+  priority_fee_lamports: number | null;
+  network_fee_lamports: number | null;
+  tx_hash: string | null;
+  positions?: { entry_price_usd: number | null; chain?: string | null } | null;
+}
+
+// Solana trades only: EVM trades carry ETH / BNB prices in price_sol and are left out of the SOL ledger
+export function ledgerTradesFromHistory(rows: TradeHistoryLedgerRow[]): LedgerTrade[] {
+  return rows
+    .filter((row) => (row.status ?? 'confirmed') === 'confirmed' && (row.trade_type === 'buy' || row.trade_type === 'sell'))
+    .filter((row) => (row.positions?.chain ?? 'solana') === 'solana')
+    .filter((row) => Number(row.amount) > 0)
+    .map((row) => ({
+      id: row.id,
+      timestamp: row.created_at,
+      side: row.trade_type as 'buy' | 'sell',
+      tokenAddress: row.token_address,
+      tokenSymbol: row.token_symbol,
+      walletAddress: row.wallet_address,
+      positionId: row.position_id,
+      amount: Number(row.amount),
+      priceSol: row.price_sol != null ? Number(row.price_sol) : null,
+      priceUsd: row.price_usd != null
+        ? Number(row.price_usd)
+        : row.trade_type === 'buy' && row.positions?.entry_price_usd != null
+          ? Number(row.positions.entry_price_usd)
+          : null,
+      quotedPriceSol: row.quoted_price_sol != null ? Number(row.quoted_price_sol) : null,
+      feeLamports: Number(row.priority_fee_lamports ?? 0) + Number(row.network_fee_lamports ?? 0),
+      // Only fill reconciliation (confirm-transaction) sets the network fee
+      reconciled: row.network_fee_lamports != null,
+      txHash: row.tx_hash,
+    }));
+}
+
+const scale = (value: number | null, ratio: number) => (value === null ? null : value * ratio);
+const minus = (a: number | null, b: number | null) => (a === null || b === null ? null : a - b);
+
+// Trade value and fee in SOL and in USD at the trade's own SOL/USD rate
+function valueTrade(trade: LedgerTrade) {
+  const feeSol = trade.feeLamports / LAMPORTS_PER_SOL;
+  const refPriceSol = trade.quotedPriceSol ?? trade.priceSol;
+  const solUsd = trade.priceUsd != null && refPriceSol ? trade.priceUsd / refPriceSol : null;
+
+  const grossSol = trade.priceSol != null ? trade.amount * trade.priceSol : null;
+  const grossUsd = grossSol !== null && solUsd !== null
+    ? grossSol * solUsd
+    : trade.priceUsd != null ? trade.amount * trade.priceUsd : null;
+  const feeUsd = solUsd !== null ? feeSol * solUsd : null;
+  // Reconciled prices already carry the fees
+  const feeAdjustSol = trade.reconciled ? 0 : feeSol;
+  const feeAdjustUsd = trade.reconciled ? 0 : feeUsd ?? 0;
+
+  return { grossSol, grossUsd, feeSol, feeUsd, feeAdjustSol, feeAdjustUsd };
+}
+
+function holdingTerm(acquiredAt: string, disposedAt: string): HoldingTerm {
+  const acquired = new Date(acquiredAt);
+  const oneYearLater = new Date(acquired);
+  oneYearLater.setUTCFullYear(acquired.getUTCFullYear() + 1);
+  return new Date(disposedAt) > oneYearLater ? 'long' : 'short';
+}
+
+// Lots to relieve in order, each with the most it may give: the picked lots first under specific
+// identification, then every open lot by FIFO (LIFO when chosen)
+function orderLots(open: TaxLot[], method: LotMethod, picks: LotSelection[]): { lot: TaxLot; limit: number; picked: boolean }[] {
+  const fifo = [...open].sort((a, b) => a.trade.timestamp.localeCompare(b.trade.timestamp));
+  const ordered = (method === 'lifo' ? fifo.reverse() : fifo).map((lot) => ({ lot, limit: Infinity, picked: false }));
+  if (method !== 'specific') return ordered;
+  const picked = picks.flatMap((pick) => {
+    const lot = open.find((candidate) => candidate.id === pick.lotId);
+    return lot ? [{ lot, limit: pick.amount, picked: true }] : [];
+  });
+  return [...picked, ...ordered];
+}
+
+export function buildTaxLedger(trades: LedgerTrade[], method: LotMethod, selections: LotSelection[] = []): TaxLedger {
+  const ordered = [...trades].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp) || (a.side === b.side ? 0 : a.side === 'buy' ? -1 : 1)
+  );
+  const lots: TaxLot[] = [];
+  const openLots = new Map<string, TaxLot[]>();
+  const disposals: Disposal[] = [];
+  const warnings: string[] = [];
+  const picksBySale = new Map<string, LotSelection[]>();
+  for (const selection of selections) {
+    picksBySale.set(selection.sellTradeId, [...(picksBySale.get(selection.sellTradeId) ?? []), selection]);
+  }
+
+  for (const trade of ordered) {
+    const value = valueTrade(trade);
+
+    if (trade.side === 'buy') {
+      const lot: TaxLot = {
+        id: trade.id,
+        trade,
+        amount: trade.amount,
+        remaining: trade.amount,
+        costSol: value.grossSol !== null ? value.grossSol + value.feeAdjustSol : null,
+        costUsd: value.grossUsd !== null ? value.grossUsd + value.feeAdjustUsd : null,
+      };
+      lots.push(lot);
+      openLots.set(trade.tokenAddress, [...(openLots.get(trade.tokenAddress) ?? []), lot]);
+      continue;
+    }
+
+    const proceedsSol = value.grossSol !== null ? value.grossSol - value.feeAdjustSol : null;
+    const proceedsUsd = value.grossUsd !== null ? value.grossUsd - value.feeAdjustUsd : null;
+    const reliefs: LotRelief[] = [];
+    let toRelieve = trade.amount;
+    let identified = 0;
+    const open = openLots.get(trade.tokenAddress) ?? [];
+    const available = open.map((lot) => ({ lotId: lot.id, acquiredAt: lot.trade.timestamp, remaining: lot.remaining }));
+
+    for (const { lot, limit, picked } of orderLots(open, method, picksBySale.get(trade.id) ?? [])) {
+      if (toRelieve <= trade.amount * DUST_RATIO) break;
+      const amount = Math.min(lot.remaining, toRelieve, limit);
+      if (amount <= 0) continue;
+      if (picked) identified += amount;
+      lot.remaining -= amount;
+      if (lot.remaining <= lot.amount * DUST_RATIO) lot.remaining = 0;
+      toRelieve -= amount;
+
+      const costSol = scale(lot.costSol, amount / lot.amount);
+      const costUsd = scale(lot.costUsd, amount / lot.amount);
+      const shareSol = scale(proceedsSol, amount / trade.amount);
+      const shareUsd = scale(proceedsUsd, amount / trade.amount);
+      reliefs.push({
+        lotId: lot.id,
+        acquiredAt: lot.trade.timestamp,
+        amount,
+        costSol,
+        costUsd,
+        proceedsSol: shareSol,
+        proceedsUsd: shareUsd,
+        gainSol: minus(shareSol, costSol),
+        gainUsd: minus(shareUsd, costUsd),
+        term: holdingTerm(lot.trade.timestamp, trade.timestamp),
+      });
+    }
+    openLots.set(trade.tokenAddress, open.filter((lot) => lot.remaining > 0));
+
+    if (method === 'specific' && identified < trade.amount * (1 - DUST_RATIO)) {
+      warnings.push(`${trade.tokenSymbol || trade.tokenAddress}: ${trade.amount - identified} of the sale on ${trade.timestamp.slice(0, 10)} not identified to lots - relieved FIFO`);
+    }
+
+    if (toRelieve > trade.amount * DUST_RATIO) {
+      warnings.push(`${trade.tokenSymbol || trade.tokenAddress}: sold ${toRelieve} more than recorded buys on ${trade.timestamp.slice(0, 10)} - cost basis unknown`);
+      reliefs.push({
+        lotId: null,
+        acquiredAt: null,
+        amount: toRelieve,
+        costSol: null,
+        costUsd: null,
+        proceedsSol: scale(proceedsSol, toRelieve / trade.amount),
+        proceedsUsd: scale(proceedsUsd, toRelieve / trade.amount),
+        gainSol: null,
+        gainUsd: null,
+        term: null,
+      });
+    }
+
+    disposals.push({ trade, proceedsSol, proceedsUsd, feeSol: value.feeSol, feeUsd: value.feeUsd, reliefs, openLots: available });
+  }
+
+  return { method, lots, disposals, warnings };
+}
+
+export function disposalYears(ledger: TaxLedger): number[] {
+  return [...new Set(ledger.disposals.map((d) => new Date(d.trade.timestamp).getUTCFullYear()))].sort((a, b) => b - a);
+}
+
+export interface RealizedGainsSummary {
+  year: number;
+  disposals: number;
+  proceedsUsd: number;
+  costUsd: number;
+  shortTermGainUsd: number;
+  longTermGainUsd: number;
+  gainSol: number;
+  unknownBasis: number; // Reliefs left out of the USD totals
+}
+
+export function summarizeRealizedGains(ledger: TaxLedger, year: number): RealizedGainsSummary {
+  const summary: RealizedGainsSummary = {
+    year, disposals: 0, proceedsUsd: 0, costUsd: 0, shortTermGainUsd: 0, longTermGainUsd: 0, gainSol: 0, unknownBasis: 0,
+  };
+  for (const disposal of ledger.disposals) {
+    if (new Date(disposal.trade.timestamp).getUTCFullYear() !== year) continue;
+    summary.disposals++;
+    for (const relief of disposal.reliefs) {
+      // Sales logged with a USD price only (no SOL fill) still count toward the USD totals
+      summary.gainSol += relief.gainSol ?? 0;
+      if (relief.gainUsd === null) {
+        summary.unknownBasis++;
+        continue;
+      }
+      summary.proceedsUsd += relief.proceedsUsd ?? 0;
+      summary.costUsd += relief.costUsd ?? 0;
+      if (relief.term === 'long') summary.longTermGainUsd += relief.gainUsd;
+      else summary.shortTermGainUsd += relief.gainUsd;
+    }
+  }
+  return summary;
+}
+
+const num = (value: number | null | undefined, decimals: number) =>
+  value === null || value === undefined || !Number.isFinite(value) ? '' : value.toFixed(decimals);
+const isoDate = (timestamp: string | null) => (timestamp ? new Date(timestamp).toISOString().slice(0, 10) : '');
+
+function toCsv(headers: string[], rows: string[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCSV).join(',')).join('\n');
+}
+
+/**
+ * Realized gains for one calendar year (UTC), one row per lot relieved - Form 8949 style columns,
+ * ISO dates and plain numbers so spreadsheet and tax tools import it without cleanup.
+ */
+export function realizedGainsToCsv(ledger: TaxLedger, year: number): string {
+  const headers = [
+    'Description', 'Token Address', 'Date Acquired', 'Date Sold',
+    'Proceeds (USD)', 'Cost Basis (USD)', 'Gain or Loss (USD)',
+    'Proceeds (SOL)', 'Cost Basis (SOL)', 'Gain or Loss (SOL)',
+    'Term', 'Lot Method', 'Lot ID', 'Tx Hash',
+  ];
+  const rows: string[][] = [];
+  for (const disposal of ledger.disposals) {
+    const { trade } = disposal;
+    if (new Date(trade.timestamp).getUTCFullYear() !== year) continue;
+    for (const relief of disposal.reliefs) {
+      rows.push([
+        `${num(relief.amount, 6)} ${trade.tokenSymbol || trade.tokenAddress}`,
+        trade.tokenAddress,
+        relief.acquiredAt ? isoDate(relief.acquiredAt) : 'UNKNOWN',
+        isoDate(trade.timestamp),
+        num(relief.proceedsUsd, 2), num(relief.costUsd, 2), num(relief.gainUsd, 2),
+        num(relief.proceedsSol, 9), num(relief.costSol, 9), num(relief.gainSol, 9),
+        relief.term === 'long' ? 'Long-term' : relief.term === 'short' ? 'Short-term' : '',
+        LOT_METHOD_LABELS[ledger.method],
+        relief.lotId ?? '',
+        trade.txHash ?? '',
+      ]);
+    }
+  }
+  return toCsv(headers, rows);
+}
+
+// Every buy and every lot relieved by a sell, in trade order
+export function taxLedgerToCsv(ledger: TaxLedger): string {
+  const headers = [
+    'Date', 'Event', 'Token Symbol', 'Token Address', 'Wallet', 'Quantity',
+    'Price (SOL)', 'Price (USD)', 'Fee (SOL)', 'Fee (USD)',
+    'Lot ID', 'Date Acquired', 'Cost Basis (SOL)', 'Cost Basis (USD)',
+    'Proceeds (SOL)', 'Proceeds (USD)', 'Gain or Loss (SOL)', 'Gain or Loss (USD)',
+    'Term', 'Lot Method', 'Tx Hash',
+  ];
+  // Date, event, token, wallet, quantity, then the trade's prices and fee
+  const tradeColumns = (trade: LedgerTrade, amount: number, feeSol: number, feeUsd: number | null) => [
+    new Date(trade.timestamp).toISOString(),
+    trade.side === 'buy' ? 'BUY' : 'SELL',
+    trade.tokenSymbol ?? '',
+    trade.tokenAddress,
+    trade.walletAddress ?? '',
+    num(amount, 9),
+    num(trade.priceSol, 12),
+    num(trade.priceUsd, 12),
+    num(feeSol, 9),
+    num(feeUsd, 4),
+  ];
+  const method = LOT_METHOD_LABELS[ledger.method];
+
+  const events: { timestamp: string; rows: string[][] }[] = ledger.lots.map((lot) => {
+    const { feeSol, feeUsd } = valueTrade(lot.trade);
+    return {
+      timestamp: lot.trade.timestamp,
+      rows: [[
+        ...tradeColumns(lot.trade, lot.amount, feeSol, feeUsd),
+        lot.id, isoDate(lot.trade.timestamp), num(lot.costSol, 9), num(lot.costUsd, 2),
+        '', '', '', '', '', method, lot.trade.txHash ?? '',
+      ]],
+    };
+  });
+  for (const disposal of ledger.disposals) {
+    const { trade } = disposal;
+    events.push({
+      timestamp: trade.timestamp,
+      rows: disposal.reliefs.map((relief) => [
+        ...tradeColumns(trade, relief.amount, disposal.feeSol * (relief.amount / trade.amount), scale(disposal.feeUsd, relief.amount / trade.amount)),
+        relief.lotId ?? '', relief.acquiredAt ? isoDate(relief.acquiredAt) : 'UNKNOWN',
+        num(relief.costSol, 9), num(relief.costUsd, 2),
+        num(relief.proceedsSol, 9), num(relief.proceedsUsd, 2), num(relief.gainSol, 9), num(relief.gainUsd, 2),
+        relief.term === 'long' ? 'Long-term' : relief.term === 'short' ? 'Short-term' : '',
+        method, trade.txHash ?? '',
+      ]),
+    });
+  }
+
+  // Stable sort keeps buys ahead of sells at the same instant, as the ledger relieved them
+  events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return toCsv(headers, events.flatMap((event) => event.rows));
+}
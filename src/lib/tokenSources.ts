@@ -0,0 +1,5 @@
+/**
+ * Token discovery sources - browser entry point
+ * Re-exports the registry token-scanner runs, so the per-user source toggles list the same sources
+ */
+export * from '../../supabase/functions/_shared/token-sources.ts';
@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import { executeExit, quickSnipe } from './controller';
+import { getJupiterPrice } from './jupiter-trader';
+import { applyPositionSale } from '@/lib/positionAccounting';
+import { buildExitStrategy, evaluateExitStrategy } from '../../../supabase/functions/_shared/exit-strategy.ts';
+import { createMockNetwork, type MockNetwork } from '@/test/mocks/network';
+import { createMockWallet } from '@/test/mocks/wallet';
+import { HONEYPOT_RUGCHECK_REPORT, mockAddress, type MockToken } from '@/test/mocks/fixtures';
+
+describe('trading flow (offline)', () => {
+  let network: MockNetwork;
+  let token: MockToken;
+
+  beforeEach(() => {
+    network = createMockNetwork().install();
+    token = network.addToken({ mint: mockAddress(42), symbol: 'WIFX', name: 'Wif Extra', priceUsd: 0.0015 });
+  });
+
+  it('buys, monitors the price and exits at take profit', async () => {
+    const wallet = createMockWallet();
+
+    // Buy: liquidity-check -> RugCheck -> Jupiter quote/swap -> RPC send + status
+    const flow = await quickSnipe(token.mint, {
+      walletAddress: wallet.address,
+      signTransaction: wallet.signTransaction,
+      config: { buyAmount: 0.5, minLiquidity: 100 },
+    });
+
+    expect(flow.status).toBe('SUCCESS');
+    expect(flow.stages.liquidityDetection?.riskAssessment?.passed).toBe(true);
+    const position = flow.position!;
+    expect(position.tokenSymbol).toBe('WIFX');
+    expect(position.solSpent).toBe(0.5);
+    expect(position.tokenAmount).toBeCloseTo(50_000, 3); // 0.5 SOL at $0.0015 with SOL at $150
+    expect(position.jupiterEnabled).toBe(true);
+    expect(network.rpcCalls('sendTransaction')).toHaveLength(1);
+    expect(network.rpcCalls('getSignatureStatuses')).toHaveLength(1);
+
+    // Monitor: same evaluation auto-exit runs on each tick
+    const entryPriceUsd = (await getJupiterPrice(token.mint))!;
+    const strategy = buildExitStrategy(null, { profitTakePercent: 100, stopLossPercent: 20 });
+    const monitored = {
+      token_symbol: 'WIFX',
+      entry_price: position.entryPrice,
+      entry_price_usd: entryPriceUsd,
+      profit_take_percent: 100,
+      stop_loss_percent: 20,
+    };
+
+    network.setPrice(token.mint, 0.0024);
+    const holdDecision = evaluateExitStrategy(monitored, (await getJupiterPrice(token.mint))!, strategy);
+    expect(holdDecision.shouldExit).toBe(false);
+    expect(holdDecision.profitLossPercent).toBeCloseTo(60, 6);
+
+    network.setPrice(token.mint, 0.0031);
+    const exitDecision = evaluateExitStrategy(monitored, (await getJupiterPrice(token.mint))!, strategy);
+    expect(exitDecision.shouldExit).toBe(true);
+    expect(exitDecision.reason).toBe('take_profit');
+
+    // Exit: sell the whole position back to SOL and book the result
+    const exit = await executeExit(token.mint, position.tokenAmount, {
+      walletAddress: wallet.address,
+      signTransaction: wallet.signTransaction,
+    });
+
+    expect(exit.success).toBe(true);
+    expect(exit.txHash).toEqual(expect.any(String));
+    expect(exit.txHash).not.toBe(position.entryTxHash);
+    expect(network.rpcCalls('sendTransaction')).toHaveLength(2);
+    expect(exit.solReceived).toBeCloseTo(1.0333, 3);
+
+    const sale = applyPositionSale(
+      { amount: position.tokenAmount, entry_price: position.entryPrice, entry_price_usd: entryPriceUsd, entry_value: position.solSpent },
+      { soldAmount: position.tokenAmount, exitPrice: 0.0031, proceedsSol: exit.solReceived }
+    );
+    expect(sale.isFullExit).toBe(true);
+    expect(sale.realizedPnlSol).toBeCloseTo(0.5333, 3);
+  });
+
+  it('stops before buying when RugCheck flags a honeypot', async () => {
+    network.updateToken(token.mint, { rugcheck: HONEYPOT_RUGCHECK_REPORT });
+    const wallet = createMockWallet();
+
+    const flow = await quickSnipe(token.mint, {
+      walletAddress: wallet.address,
+      signTransaction: wallet.signTransaction,
+      config: { minLiquidity: 100 },
+    });
+
+    expect(flow.status).toBe('FAILED');
+    expect(flow.stages.liquidityDetection?.status).toBe('RISK_FAILED');
+    expect(flow.error).toContain('Honeypot risk');
+    expect(network.requestsTo('jupiter-swap')).toHaveLength(0);
+    expect(wallet.signed).toHaveLength(0);
+  });
+
+  it('fails when liquidity-check finds no tradable pool', async () => {
+    network.updateToken(token.mint, { tradable: false });
+    const wallet = createMockWallet();
+
+    const flow = await quickSnipe(token.mint, {
+      walletAddress: wallet.address,
+      signTransaction: wallet.signTransaction,
+    });
+
+    expect(flow.status).toBe('FAILED');
+    expect(flow.stages.liquidityDetection?.status).toBe('LP_NOT_FOUND');
+    expect(network.requestsTo('rugcheck')).toHaveLength(0);
+  });
+
+  it('reports a failed exit when the wallet rejects the signature', async () => {
+    const wallet = createMockWallet({ rejectWith: 'User rejected the request' });
+
+    const exit = await executeExit(token.mint, 50_000, {
+      walletAddress: wallet.address,
+      signTransaction: wallet.signTransaction,
+    });
+
+    expect(exit.success).toBe(false);
+    expect(exit.error).toContain('User rejected the request');
+    expect(network.rpcCalls('sendTransaction')).toHaveLength(0);
+  });
+});
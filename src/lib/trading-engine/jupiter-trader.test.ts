@@ -0,0 +1,101 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import { checkJupiterIndex, executeJupiterTrade, getJupiterPrice } from './jupiter-trader';
+import { createTradingConfig, SOL_MINT } from './config';
+import { createMockNetwork, type MockNetwork } from '@/test/mocks/network';
+import { createMockWallet } from '@/test/mocks/wallet';
+import { mockAddress, type MockToken } from '@/test/mocks/fixtures';
+
+describe('jupiter-trader (offline)', () => {
+  let network: MockNetwork;
+  let token: MockToken;
+  const config = createTradingConfig();
+
+  beforeEach(() => {
+    network = createMockNetwork().install();
+    token = network.addToken({ mint: mockAddress(51), symbol: 'BONKX', decimals: 6, priceUsd: 0.00003 });
+  });
+
+  it('sells using the decimals Jupiter reports for the mint', async () => {
+    const wallet = createMockWallet();
+
+    const result = await executeJupiterTrade(
+      { tokenAddress: token.mint, mode: 'SELL', amount: 1_000_000, slippage: 0.1, priorityFee: 50_000 },
+      wallet.address,
+      wallet.signTransaction,
+      config
+    );
+
+    expect(result.status).toBe('TRADE_COMPLETE');
+    expect(result.route).toBe('Raydium');
+    expect(result.outputAmount).toBeCloseTo(0.2, 9); // 1M tokens at $0.00003 with SOL at $150
+
+    const [quote] = network.requestsTo('jupiter-quote');
+    expect(new URL(quote.url).searchParams.get('amount')).toBe('1000000000000');
+    expect(new URL(quote.url).searchParams.get('outputMint')).toBe(SOL_MINT);
+    expect(network.requestsTo('jupiter-swap')[0].body).toMatchObject({
+      userPublicKey: wallet.address,
+      prioritizationFeeLamports: 50_000,
+    });
+  });
+
+  it('falls back to the token-metadata function when Jupiter has no token entry', async () => {
+    network.failNext('jupiter-tokens', 404);
+    const wallet = createMockWallet();
+
+    const result = await executeJupiterTrade(
+      { tokenAddress: token.mint, mode: 'SELL', amount: 1_000_000, slippage: 0.1, priorityFee: 0 },
+      wallet.address,
+      wallet.signTransaction,
+      config
+    );
+
+    expect(result.status).toBe('TRADE_COMPLETE');
+    expect(network.requestsTo('token-metadata')).toHaveLength(1);
+    expect(new URL(network.requestsTo('jupiter-quote')[0].url).searchParams.get('amount')).toBe('1000000000000');
+  });
+
+  it('moves to the fallback quote endpoint when the primary is rate limited', async () => {
+    network.failNext('jupiter-quote', 429);
+    const wallet = createMockWallet();
+
+    const result = await executeJupiterTrade(
+      { tokenAddress: token.mint, mode: 'BUY', amount: 0.1, slippage: 0.1, priorityFee: 0 },
+      wallet.address,
+      wallet.signTransaction,
+      config
+    );
+
+    expect(result.status).toBe('TRADE_COMPLETE');
+    const quoteHosts = network.requestsTo('jupiter-quote').map(r => new URL(r.url).hostname);
+    expect(quoteHosts).toEqual(['quote-api.jup.ag', 'lite-api.jup.ag']);
+  });
+
+  it('returns NO_ROUTE without building a swap for an unindexed token', async () => {
+    network.updateToken(token.mint, { tradable: false });
+    const wallet = createMockWallet();
+
+    const result = await executeJupiterTrade(
+      { tokenAddress: token.mint, mode: 'BUY', amount: 0.1, slippage: 0.1, priorityFee: 0 },
+      wallet.address,
+      wallet.signTransaction,
+      config
+    );
+
+    expect(result.status).toBe('NO_ROUTE');
+    expect(network.requestsTo('jupiter-swap')).toHaveLength(0);
+    expect(wallet.signed).toHaveLength(0);
+  });
+
+  it('reports index status and price from the quote and price APIs', async () => {
+    await expect(checkJupiterIndex(token.mint)).resolves.toMatchObject({
+      isIndexed: true,
+      hasRoutes: true,
+      availableDexes: ['Raydium'],
+    });
+    await expect(getJupiterPrice(token.mint)).resolves.toBe(0.00003);
+
+    network.setPrice(token.mint, 0.00006);
+    await expect(getJupiterPrice(token.mint)).resolves.toBe(0.00006);
+  });
+});
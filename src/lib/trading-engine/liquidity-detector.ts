@@ -18,6 +18,8 @@ import type {
   TradingEventCallback,
 } from './types';
 import { API_ENDPOINTS, SOL_MINT, USDC_MINT } from './config';
+import { getRpcPool } from './rpc-pool-validator';
+import { analyzeTokenHolders } from '@/lib/holderAnalysis';
 
 // ============================================
 // TYPES
@@ -302,6 +304,7 @@ async function assessRisk(
   let hasFreezeAuthority = false;
   let holderCount = 0;
   let topHolderPercent = 0;
+  let holdersKnown = false;
   
   try {
     // Check RugCheck API
@@ -348,20 +351,35 @@ async function assessRisk(
       if (data.topHolders) {
         holderCount = data.totalHolders || data.topHolders.length;
         topHolderPercent = data.topHolders[0]?.pct || 0;
-        
-        if (holderCount < config.riskFilters.minHolders) {
-          reasons.push(`Only ${holderCount} holders (min: ${config.riskFilters.minHolders})`);
-        }
-        
-        if (topHolderPercent > config.riskFilters.maxOwnershipPercent) {
-          reasons.push(`Top holder owns ${topHolderPercent.toFixed(1)}% (max: ${config.riskFilters.maxOwnershipPercent}%)`);
-        }
+        holdersKnown = true;
       }
     }
   } catch {
     reasons.push('Could not verify token safety (RugCheck unavailable)');
     overallScore = 50;
   }
+
+  // RugCheck had no holder data - read the largest holders on-chain (pools and burns excluded)
+  if (!holdersKnown) {
+    try {
+      const analysis = await analyzeTokenHolders(getRpcPool(), tokenAddress, { distributionOnly: true });
+      holderCount = analysis.holderCount;
+      topHolderPercent = analysis.topHolderPercent;
+      holdersKnown = true;
+    } catch {
+      reasons.push('Could not read token holders on-chain');
+    }
+  }
+
+  if (holdersKnown) {
+    if (holderCount < config.riskFilters.minHolders) {
+      reasons.push(`Only ${holderCount} holders (min: ${config.riskFilters.minHolders})`);
+    }
+
+    if (topHolderPercent > config.riskFilters.maxOwnershipPercent) {
+      reasons.push(`Top holder owns ${topHolderPercent.toFixed(1)}% (max: ${config.riskFilters.maxOwnershipPercent}%)`);
+    }
+  }
   
   const passed = 
     overallScore <= config.maxRiskScore &&
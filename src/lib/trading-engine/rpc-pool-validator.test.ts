@@ -0,0 +1,83 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import { detectTradablePoolRPC, simulateRaydiumSwapRPC } from './rpc-pool-validator';
+import { SOL_MINT } from './config';
+import { createMockNetwork, type MockNetwork } from '@/test/mocks/network';
+import {
+  MOCK_WALLET,
+  RAYDIUM_AMM_OWNER,
+  createRaydiumPoolAccountData,
+  mockAddress,
+} from '@/test/mocks/fixtures';
+
+const POOL = mockAddress(90);
+const TOKEN = mockAddress(91);
+
+describe('rpc-pool-validator (offline)', () => {
+  let network: MockNetwork;
+
+  beforeEach(() => {
+    network = createMockNetwork().install();
+  });
+
+  it('discards a pool account that does not exist', async () => {
+    const result = await detectTradablePoolRPC(POOL);
+
+    expect(result.status).toBe('DISCARDED');
+    expect(result.reason).toBe('Pool account does not exist on-chain');
+    expect(network.rpcCalls('getAccountInfo')).toHaveLength(1);
+  });
+
+  it('discards accounts not owned by the Raydium AMM program', async () => {
+    network.setAccount(POOL, { data: createRaydiumPoolAccountData(), owner: mockAddress(3) });
+
+    const result = await detectTradablePoolRPC(POOL);
+
+    expect(result.status).toBe('DISCARDED');
+    expect(result.reason).toContain('Not a Raydium AMM pool');
+  });
+
+  it('waits while the pool open time is still ahead of the chain clock', async () => {
+    network.setAccount(POOL, {
+      data: createRaydiumPoolAccountData({ openTime: network.blockTime + 90, baseMint: SOL_MINT, quoteMint: TOKEN }),
+      owner: RAYDIUM_AMM_OWNER,
+    });
+
+    const result = await detectTradablePoolRPC(POOL);
+
+    expect(result.status).toBe('WAITING');
+    expect(result.reason).toBe('Pool not open yet. Opens in 90 seconds');
+    expect(result.blockHeight).toBe(network.slot);
+  });
+
+  it('waits on an uninitialized pool', async () => {
+    network.setAccount(POOL, {
+      data: createRaydiumPoolAccountData({ status: 0 }),
+      owner: RAYDIUM_AMM_OWNER,
+    });
+
+    const result = await detectTradablePoolRPC(POOL);
+
+    expect(result.status).toBe('WAITING');
+    expect(result.reason).toBe('Pool not initialized. Status: 0');
+  });
+
+  it('simulates a swap against the pool through simulateTransaction', async () => {
+    network.setAccount(POOL, { data: createRaydiumPoolAccountData(), owner: RAYDIUM_AMM_OWNER });
+
+    await expect(simulateRaydiumSwapRPC(POOL, SOL_MINT, TOKEN, 1_000_000, MOCK_WALLET)).resolves.toEqual({
+      status: 'SIM_OK',
+    });
+    expect(network.rpcCalls('simulateTransaction')).toHaveLength(1);
+  });
+
+  it('maps pool-not-open simulation errors to NOT_READY', async () => {
+    network.setAccount(POOL, { data: createRaydiumPoolAccountData(), owner: RAYDIUM_AMM_OWNER });
+    network.setSimulationError({ InstructionError: [0, { Custom: 'NotOpenTimeYet' }] });
+
+    const result = await simulateRaydiumSwapRPC(POOL, SOL_MINT, TOKEN, 1_000_000, MOCK_WALLET);
+
+    expect(result.status).toBe('NOT_READY');
+    expect(result.error).toContain('NotOpenTimeYet');
+  });
+});
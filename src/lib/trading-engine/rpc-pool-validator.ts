@@ -13,8 +13,9 @@
  * 6. RPC swap simulation succeeds
  */
 
-import { Connection, PublicKey, Transaction, VersionedTransaction, SimulatedTransactionResponse } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction, VersionedTransaction, SimulatedTransactionResponse, type FetchFn } from '@solana/web3.js';
 import { SOL_MINT, PROGRAM_IDS } from './config';
+import { buildRpcEndpoints, createRpcPool, type RpcPool } from '@/lib/rpcPool';
 
 // ============================================
 // TYPES
@@ -63,21 +64,32 @@ const RAYDIUM_AMM_LAYOUT = {
 // RPC CONNECTION HELPER
 // ============================================
 
+let rpcPool: RpcPool | null = null;
 let rpcConnection: Connection | null = null;
 
+function getRpcPool(): RpcPool {
+  if (rpcPool) return rpcPool;
+
+  // Environment RPCs first, public endpoint last; the pool fails over between them
+  rpcPool = createRpcPool(
+    buildRpcEndpoints(null, [
+      { name: 'window', url: typeof window !== 'undefined' ? (window as { __SOLANA_RPC_URL__?: string }).__SOLANA_RPC_URL__ : undefined },
+      { name: 'helius', url: import.meta.env?.VITE_HELIUS_RPC_URL },
+      { name: 'quicknode', url: import.meta.env?.VITE_QUICKNODE_RPC_URL },
+      { name: 'env', url: import.meta.env?.VITE_SOLANA_RPC_URL },
+    ])
+  );
+  return rpcPool;
+}
+
 function getRpcConnection(): Connection {
   if (rpcConnection) return rpcConnection;
   
-  // Use environment RPC or fallback to public endpoints
-  const rpcUrl = 
-    (typeof window !== 'undefined' && (window as any).__SOLANA_RPC_URL__) ||
-    import.meta.env?.VITE_HELIUS_RPC_URL ||
-    import.meta.env?.VITE_QUICKNODE_RPC_URL ||
-    'https://api.mainnet-beta.solana.com';
-  
-  rpcConnection = new Connection(rpcUrl, {
+  const pool = getRpcPool();
+  rpcConnection = new Connection(pool.activeUrl(), {
     commitment: 'confirmed',
     confirmTransactionInitialTimeout: 30000,
+    fetch: ((_input, init) => pool.request(init ?? {})) as FetchFn,
   });
   
   return rpcConnection;
@@ -331,7 +343,8 @@ export async function simulateRaydiumSwapRPC(
     );
     
     // Simulate the transaction using legacy format
-    const simulation = await connection.simulateTransaction(transaction, []);
+    // No signers: an empty list makes web3.js throw "No signers" before the RPC call
+    const simulation = await connection.simulateTransaction(transaction);
     
     if (simulation.value.err) {
       // Check if it's a "pool not ready" type error
@@ -535,6 +548,7 @@ function sleep(ms: number): Promise<void> {
 // ============================================
 
 export {
+  getRpcPool,
   getRpcConnection,
   waitForBlocks,
   sleep,
@@ -14,6 +14,9 @@ export const TRADING_LIMITS = {
   TAKE_PROFIT: { min: 5, max: 1000, default: 100 },
   STOP_LOSS: { min: 1, max: 95, default: 20 },
   MAX_CONCURRENT_TRADES: { min: 1, max: 20, default: 3 },
+  TRAILING_STOP: { min: 1, max: 90, default: 25 },
+  TRAILING_STOP_ACTIVATION: { min: 0, max: 1000, default: 0 },
+  LADDER_STEPS: { min: 0, max: 10 },
 } as const;
 
 /**
@@ -85,6 +88,48 @@ export function validateStopLoss(value: number): ValidationResult {
   );
 }
 
+/**
+ * Validate trailing stop percentage
+ */
+export function validateTrailingStop(value: number): ValidationResult {
+  return validateRange(
+    value,
+    TRADING_LIMITS.TRAILING_STOP.min,
+    TRADING_LIMITS.TRAILING_STOP.max,
+    'Trailing stop'
+  );
+}
+
+/**
+ * Validate a take-profit ladder (sell percentages are of the original position size)
+ */
+export function validateTakeProfitLadder(
+  ladder: { profit_percent: number; sell_percent: number }[]
+): ValidationResult {
+  if (ladder.length > TRADING_LIMITS.LADDER_STEPS.max) {
+    return { isValid: false, error: `Take-profit ladder can have at most ${TRADING_LIMITS.LADDER_STEPS.max} steps` };
+  }
+
+  for (const [index, step] of ladder.entries()) {
+    const trigger = validateRange(step.profit_percent, 1, TRADING_LIMITS.TAKE_PROFIT.max, `Step ${index + 1} trigger`);
+    if (!trigger.isValid) return trigger;
+    const sell = validateRange(step.sell_percent, 1, 100, `Step ${index + 1} sell amount`);
+    if (!sell.isValid) return sell;
+  }
+
+  const triggers = ladder.map((step) => step.profit_percent);
+  if (new Set(triggers).size !== triggers.length) {
+    return { isValid: false, error: 'Take-profit ladder steps must have different triggers' };
+  }
+
+  const totalSell = ladder.reduce((sum, step) => sum + step.sell_percent, 0);
+  if (totalSell > 100) {
+    return { isValid: false, error: `Take-profit ladder sells ${totalSell}% of the position (max 100%)` };
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Validate all sniper settings
  */
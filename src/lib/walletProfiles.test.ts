@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  ALL_WALLETS,
+  UNASSIGNED_WALLET,
+  filterByWallet,
+  resolveWalletSettings,
+  sanitizeWalletOverrides,
+  walletsInUse,
+} from './walletProfiles';
+import { mockAddress } from '@/test/mocks/fixtures';
+
+const MAIN = mockAddress(96);
+const DEGEN = mockAddress(97);
+
+const base = {
+  trade_amount: 0.1,
+  max_concurrent_trades: 3,
+  profit_take_percentage: 100,
+  stop_loss_percentage: 20,
+  priority: 'normal' as const,
+  token_blacklist: ['x'],
+};
+
+describe('wallet profiles', () => {
+  it('keeps only known overrides with valid values', () => {
+    expect(sanitizeWalletOverrides({
+      trade_amount: 0.5,
+      max_concurrent_trades: 2.7,
+      stop_loss_percentage: 250,
+      priority: 'ludicrous',
+      trailing_stop_enabled: true,
+      take_profit_ladder: [{ profit_percent: 50, sell_percent: 25 }, { profit_percent: -1, sell_percent: 10 }],
+      token_blacklist: ['y'],
+    })).toEqual({
+      trade_amount: 0.5,
+      max_concurrent_trades: 2,
+      trailing_stop_enabled: true,
+      take_profit_ladder: [{ profit_percent: 50, sell_percent: 25 }],
+    });
+    expect(sanitizeWalletOverrides(null)).toEqual({});
+    expect(sanitizeWalletOverrides(['trade_amount'])).toEqual({});
+  });
+
+  it('layers a wallet profile over the shared settings', () => {
+    const degen = resolveWalletSettings(base, { trade_amount: 0.02, max_concurrent_trades: 10, priority: 'turbo' });
+    expect(degen).toEqual({ ...base, trade_amount: 0.02, max_concurrent_trades: 10, priority: 'turbo' });
+    expect(resolveWalletSettings(base, undefined)).toBe(base);
+    expect(resolveWalletSettings(base, { token_blacklist: [] })).toBe(base);
+  });
+
+  it('filters rows per wallet and lists every wallet in use', () => {
+    const rows = [
+      { id: 'a', wallet_address: MAIN },
+      { id: 'b', wallet_address: DEGEN },
+      { id: 'c', wallet_address: null },
+      { id: 'd', wallet_address: MAIN },
+    ];
+
+    expect(filterByWallet(rows, ALL_WALLETS)).toBe(rows);
+    expect(filterByWallet(rows, MAIN).map((r) => r.id)).toEqual(['a', 'd']);
+    expect(filterByWallet(rows, UNASSIGNED_WALLET).map((r) => r.id)).toEqual(['c']);
+    expect(walletsInUse([{ address: MAIN, label: 'Main' }], rows)).toEqual([
+      { address: MAIN, label: 'Main' },
+      { address: DEGEN, label: null },
+    ]);
+  });
+});
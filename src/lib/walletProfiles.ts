@@ -0,0 +1,5 @@
+/**
+ * Wallet profiles - browser entry point
+ * Re-exports the shared per-wallet settings overrides and wallet filters used by auto-sniper and auto-exit
+ */
+export * from '../../supabase/functions/_shared/wallet-profiles.ts';
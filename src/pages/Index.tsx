@@ -1,4 +1,4 @@
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import AppLayout from "@/components/layout/AppLayout";
 import StatsGrid from "@/components/dashboard/StatsGrid";
 import WalletBanner from "@/components/dashboard/WalletBanner";
@@ -8,12 +8,15 @@ import ActiveTradesCard from "@/components/dashboard/ActiveTradesCard";
 import MarketOverview from "@/components/dashboard/MarketOverview";
 import QuickActions from "@/components/dashboard/QuickActions";
 import RecentActivity from "@/components/dashboard/RecentActivity";
+import { WalletFilterSelect } from "@/components/wallet/WalletFilterSelect";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { usePositions } from "@/hooks/usePositions";
 import { useWallet } from "@/hooks/useWallet";
+import { useTradingWallets } from "@/hooks/useTradingWallets";
+import { ALL_WALLETS, filterByWallet, walletsInUse, type WalletFilter } from "@/lib/walletProfiles";
 import { useAppMode } from "@/contexts/AppModeContext";
 import { useDemoPortfolio } from "@/contexts/DemoPortfolioContext";
 import { useDisplayUnit } from "@/contexts/DisplayUnitContext";
@@ -22,9 +25,19 @@ import { TrendingUp, ArrowUpRight, FlaskConical, Coins, RotateCcw } from "lucide
 import { useToast } from "@/hooks/use-toast";
 
 function Index() {
-  const { openPositions: realOpenPositions, closedPositions: realClosedPositions, positions: allPositions, loading: positionsLoading } = usePositions();
+  const { openPositions: liveOpenPositions, closedPositions: liveClosedPositions, positions: livePositions, loading: positionsLoading } = usePositions();
   const { wallet } = useWallet();
+  const { wallets: tradingWallets } = useTradingWallets(wallet.network === 'solana' ? wallet.address : null);
+  const [walletFilter, setWalletFilter] = useState<WalletFilter>(ALL_WALLETS);
+
+  // Live stats per trading wallet, or aggregated across all of them
+  const realOpenPositions = useMemo(() => filterByWallet(liveOpenPositions, walletFilter), [liveOpenPositions, walletFilter]);
+  const realClosedPositions = useMemo(() => filterByWallet(liveClosedPositions, walletFilter), [liveClosedPositions, walletFilter]);
+  const allPositions = useMemo(() => filterByWallet(livePositions, walletFilter), [livePositions, walletFilter]);
+  const filterWallets = useMemo(() => walletsInUse(tradingWallets, livePositions), [tradingWallets, livePositions]);
+  const hasUntaggedPositions = useMemo(() => livePositions.some(p => !p.wallet_address), [livePositions]);
   const { isDemo } = useAppMode();
+  const showWalletFilter = !isDemo && (filterWallets.length > 1 || hasUntaggedPositions);
   const { toast } = useToast();
   const { formatPrimaryValue, displayUnit } = useDisplayUnit();
   
@@ -216,6 +229,14 @@ function Index() {
           openPositionsCount={openPositions.length}
           closedPositionsCount={closedPositions.length}
           winCount={winCount}
+          walletFilter={showWalletFilter && (
+            <WalletFilterSelect
+              wallets={filterWallets}
+              value={walletFilter}
+              onChange={setWalletFilter}
+              hasUnassigned={hasUntaggedPositions}
+            />
+          )}
         />
 
         {/* Main Content Grid - Mobile stacked */}
@@ -3,10 +3,19 @@ import AppLayout from "@/components/layout/AppLayout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { useSniperSettings } from "@/hooks/useSniperSettings";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSniperSettings, type TakeProfitStep } from "@/hooks/useSniperSettings";
 import { useWallet } from "@/hooks/useWallet";
+import { useTokenSources } from "@/hooks/useTokenSources";
+import { StrategyProfilesCard } from "@/components/trading/StrategyProfilesCard";
 import { isValidSolanaAddress } from "@/lib/sniperValidation";
+import { TRADING_LIMITS, validateTakeProfitLadder, validateTrailingStop } from "@/lib/validation";
+import { normalizeRuleConfig, SNIPE_RULE_DEFINITIONS, type SnipeRuleId } from "@/lib/sniperRules";
+import { DEFAULT_JITO_SETTINGS, JITO_TIP_STRATEGIES, type JitoTipStrategy } from "@/lib/jito";
+import { DEFAULT_MAX_PRIORITY_FEE_SOL } from "@/lib/priorityFees";
 import {
   Save,
   Loader2,
@@ -16,12 +25,22 @@ import {
   Star,
   Info,
   ListFilter,
+  TrendingDown,
+  Layers,
+  Trash2,
+  ListOrdered,
+  ArrowUp,
+  ArrowDown,
+  Radar,
+  Zap,
+  Gauge,
 } from "lucide-react";
 import { toast } from "sonner";
 
 const MemeSniperSettings = forwardRef<HTMLDivElement, object>(function MemeSniperSettings(_props, ref) {
-  const { settings, loading, saving, saveSettings, updateField } = useSniperSettings();
+  const { settings, loading, saving, saveSettings, updateField, fetchSettings } = useSniperSettings();
   const { wallet, connectPhantom, disconnect } = useWallet();
+  const { sources: tokenSources } = useTokenSources();
   const [newBlacklistToken, setNewBlacklistToken] = useState('');
   const [newWhitelistToken, setNewWhitelistToken] = useState('');
 
@@ -35,6 +54,21 @@ const MemeSniperSettings = forwardRef<HTMLDivElement, object>(function MemeSnipe
 
   const handleSave = async () => {
     if (!settings) return;
+
+    if (settings.trailing_stop_enabled) {
+      const trailingCheck = validateTrailingStop(settings.trailing_stop_percent ?? TRADING_LIMITS.TRAILING_STOP.default);
+      if (!trailingCheck.isValid) {
+        toast.error(trailingCheck.error);
+        return;
+      }
+    }
+
+    const ladderCheck = validateTakeProfitLadder(settings.take_profit_ladder || []);
+    if (!ladderCheck.isValid) {
+      toast.error(ladderCheck.error);
+      return;
+    }
+
     try {
       await saveSettings(settings);
     } catch {
@@ -94,6 +128,50 @@ const MemeSniperSettings = forwardRef<HTMLDivElement, object>(function MemeSnipe
     toast.success('Token removed from whitelist');
   };
 
+  const ladder = settings?.take_profit_ladder || [];
+  const ladderTotalSell = ladder.reduce((sum, step) => sum + (step.sell_percent || 0), 0);
+
+  const addLadderStep = () => {
+    if (!settings) return;
+    if (ladder.length >= TRADING_LIMITS.LADDER_STEPS.max) {
+      toast.error(`Maximum ${TRADING_LIMITS.LADDER_STEPS.max} ladder steps`);
+      return;
+    }
+    const lastTrigger = ladder.length > 0 ? ladder[ladder.length - 1].profit_percent : 0;
+    updateField('take_profit_ladder', [
+      ...ladder,
+      { profit_percent: lastTrigger + 50, sell_percent: Math.max(0, Math.min(30, 100 - ladderTotalSell)) },
+    ]);
+  };
+
+  const ruleConfig = normalizeRuleConfig(settings?.rule_config);
+
+  const toggleRule = (id: SnipeRuleId, enabled: boolean) => {
+    if (!settings) return;
+    updateField('rule_config', ruleConfig.map((rule) => (rule.id === id ? { ...rule, enabled } : rule)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (!settings || target < 0 || target >= ruleConfig.length) return;
+    const next = [...ruleConfig];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateField('rule_config', next);
+  };
+
+  const updateLadderStep = (index: number, field: keyof TakeProfitStep, value: number) => {
+    if (!settings) return;
+    updateField(
+      'take_profit_ladder',
+      ladder.map((step, i) => (i === index ? { ...step, [field]: Number.isFinite(value) ? value : 0 } : step))
+    );
+  };
+
+  const removeLadderStep = (index: number) => {
+    if (!settings) return;
+    updateField('take_profit_ladder', ladder.filter((_, i) => i !== index));
+  };
+
   if (loading) {
     return (
       <AppLayout>
@@ -142,6 +220,8 @@ const MemeSniperSettings = forwardRef<HTMLDivElement, object>(function MemeSnipe
           </Button>
         </div>
 
+          <StrategyProfilesCard onActivated={fetchSettings} />
+
           {/* Info Card */}
           <Card className="mb-6 border-primary/20 bg-primary/5">
             <CardContent className="pt-4">
@@ -269,6 +349,363 @@ const MemeSniperSettings = forwardRef<HTMLDivElement, object>(function MemeSnipe
               </CardContent>
             </Card>
         </div>
+
+          {/* Position Averaging */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="h-5 w-5 text-primary" />
+                Position Averaging
+              </CardTitle>
+              <CardDescription>
+                What happens when you buy a token you already hold.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="average-into-positions" className="font-medium">Add to existing position</Label>
+                <Switch
+                  id="average-into-positions"
+                  checked={settings.average_into_positions ?? false}
+                  onCheckedChange={(checked) => updateField('average_into_positions', checked)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                New buys are added to the open position at a weighted-average entry price instead of opening a second
+                position. Every buy and sell is kept as a fill, and P&amp;L uses the combined cost basis.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Token Sources */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Radar className="h-5 w-5 text-primary" />
+                Token Sources
+              </CardTitle>
+              <CardDescription>
+                Where the scanner discovers new tokens. Sources switched off by an admin aren't listed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {tokenSources.map((source) => {
+                const disabled = settings.disabled_token_sources ?? [];
+                return (
+                  <div key={source.id} className="flex items-center justify-between">
+                    <Label htmlFor={`token-source-${source.id}`} className="font-medium">{source.label}</Label>
+                    <Switch
+                      id={`token-source-${source.id}`}
+                      checked={!disabled.includes(source.id)}
+                      onCheckedChange={(checked) => updateField(
+                        'disabled_token_sources',
+                        checked ? disabled.filter((id) => id !== source.id) : [...disabled, source.id]
+                      )}
+                    />
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {/* Priority Fees */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="h-5 w-5 text-primary" />
+                Priority Fees
+              </CardTitle>
+              <CardDescription>
+                Fees follow what recent slots paid to write the same token and pool: normal pays the median, fast the
+                75th percentile and turbo the 95th.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1.5">
+              <Label htmlFor="max-priority-fee" className="text-xs">Maximum priority fee per trade (SOL)</Label>
+              <Input
+                id="max-priority-fee"
+                type="number"
+                min={0.000001}
+                step={0.001}
+                value={settings.max_priority_fee_sol ?? DEFAULT_MAX_PRIORITY_FEE_SOL}
+                onChange={(e) => updateField('max_priority_fee_sol', parseFloat(e.target.value) || DEFAULT_MAX_PRIORITY_FEE_SOL)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Estimates above this are cut down to it. The fee paid is stored with each trade in your history.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Jito Bundles */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Zap className="h-5 w-5 text-primary" />
+                Jito Bundles
+              </CardTitle>
+              <CardDescription>
+                Send manual buys and sells as a Jito bundle with a validator tip to land faster and avoid sandwiching.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="jito-enabled" className="font-medium">Use Jito bundles</Label>
+                <Switch
+                  id="jito-enabled"
+                  checked={settings.jito_enabled ?? false}
+                  onCheckedChange={(checked) => updateField('jito_enabled', checked)}
+                />
+              </div>
+              {settings.jito_enabled && (
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Tip strategy</Label>
+                    <Select
+                      value={settings.jito_tip_strategy ?? DEFAULT_JITO_SETTINGS.tipStrategy}
+                      onValueChange={(value) => updateField('jito_tip_strategy', value as JitoTipStrategy)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {JITO_TIP_STRATEGIES.map((strategy) => (
+                          <SelectItem key={strategy.id} value={strategy.id}>
+                            {strategy.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {JITO_TIP_STRATEGIES.find((s) => s.id === settings.jito_tip_strategy)?.description}
+                    </p>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="jito-tip" className="text-xs">
+                      {settings.jito_tip_strategy === 'fixed' ? 'Tip (SOL)' : 'Minimum tip (SOL)'}
+                    </Label>
+                    <Input
+                      id="jito-tip"
+                      type="number"
+                      min={0.000001}
+                      step={0.00001}
+                      value={(settings.jito_tip_lamports ?? DEFAULT_JITO_SETTINGS.tipLamports) / 1e9}
+                      onChange={(e) => updateField('jito_tip_lamports', Math.round((parseFloat(e.target.value) || 0) * 1e9))}
+                    />
+                  </div>
+                  {settings.jito_tip_strategy !== 'fixed' && (
+                    <div className="space-y-1.5">
+                      <Label htmlFor="jito-max-tip" className="text-xs">Maximum tip (SOL)</Label>
+                      <Input
+                        id="jito-max-tip"
+                        type="number"
+                        min={0.000001}
+                        step={0.0001}
+                        value={(settings.jito_max_tip_lamports ?? DEFAULT_JITO_SETTINGS.maxTipLamports) / 1e9}
+                        onChange={(e) => updateField('jito_max_tip_lamports', Math.round((parseFloat(e.target.value) || 0) * 1e9))}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-1.5">
+                    <Label htmlFor="jito-fallback-slots" className="text-xs">Fall back after (slots)</Label>
+                    <Input
+                      id="jito-fallback-slots"
+                      type="number"
+                      min={1}
+                      max={150}
+                      value={settings.jito_fallback_slots ?? DEFAULT_JITO_SETTINGS.fallbackSlots}
+                      onChange={(e) => updateField('jito_fallback_slots', parseInt(e.target.value) || DEFAULT_JITO_SETTINGS.fallbackSlots)}
+                    />
+                  </div>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                If the bundle hasn't landed within the slot limit (one slot is ~0.4s) the swap is sent on its own
+                with its normal priority fee and no tip is paid. Your wallet is asked to sign both transactions at once.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Exit Strategy */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5 text-primary" />
+                Exit Strategy
+              </CardTitle>
+              <CardDescription>
+                Trailing stop and take-profit ladder used by auto-exit. Applies to new positions; your stop loss ({settings.stop_loss_percentage}%) always stays active.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {/* Trailing Stop */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <TrendingDown className="h-4 w-4 text-warning" />
+                    <Label htmlFor="trailing-stop-enabled" className="font-medium">Trailing Stop</Label>
+                  </div>
+                  <Switch
+                    id="trailing-stop-enabled"
+                    checked={settings.trailing_stop_enabled ?? false}
+                    onCheckedChange={(checked) => updateField('trailing_stop_enabled', checked)}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Tracks the highest price since entry and sells the rest when price falls this far below it.
+                  While enabled, the fixed take profit ({settings.profit_take_percentage}%) is replaced by the trailing stop.
+                </p>
+                {settings.trailing_stop_enabled && (
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div className="space-y-1.5">
+                      <Label htmlFor="trailing-stop-percent" className="text-xs">Drop from peak (%)</Label>
+                      <Input
+                        id="trailing-stop-percent"
+                        type="number"
+                        min={TRADING_LIMITS.TRAILING_STOP.min}
+                        max={TRADING_LIMITS.TRAILING_STOP.max}
+                        value={settings.trailing_stop_percent ?? TRADING_LIMITS.TRAILING_STOP.default}
+                        onChange={(e) => updateField('trailing_stop_percent', parseFloat(e.target.value) || 0)}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="trailing-stop-activation" className="text-xs">Arm after gain of (%)</Label>
+                      <Input
+                        id="trailing-stop-activation"
+                        type="number"
+                        min={TRADING_LIMITS.TRAILING_STOP_ACTIVATION.min}
+                        max={TRADING_LIMITS.TRAILING_STOP_ACTIVATION.max}
+                        value={settings.trailing_stop_activation_percent ?? TRADING_LIMITS.TRAILING_STOP_ACTIVATION.default}
+                        onChange={(e) => updateField('trailing_stop_activation_percent', parseFloat(e.target.value) || 0)}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Take-Profit Ladder */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="font-medium">Take-Profit Ladder</Label>
+                  <Button size="sm" variant="outline" onClick={addLadderStep}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Step
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Sell part of the original position at each profit level. Whatever is left rides with the trailing stop
+                  (or the fixed take profit once every step has filled).
+                </p>
+                {ladder.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">No ladder steps - positions exit all at once</p>
+                ) : (
+                  <div className="space-y-2">
+                    {ladder.map((step, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center gap-2 p-2.5 bg-secondary/40 rounded-lg border border-border/50"
+                      >
+                        <span className="text-xs text-muted-foreground w-6 shrink-0">#{index + 1}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">Sell</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={step.sell_percent}
+                          onChange={(e) => updateLadderStep(index, 'sell_percent', parseFloat(e.target.value))}
+                          className="h-8 w-20"
+                        />
+                        <span className="text-xs text-muted-foreground shrink-0">% at +</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={TRADING_LIMITS.TAKE_PROFIT.max}
+                          value={step.profit_percent}
+                          onChange={(e) => updateLadderStep(index, 'profit_percent', parseFloat(e.target.value))}
+                          className="h-8 w-24"
+                        />
+                        <span className="text-xs text-muted-foreground shrink-0">%</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 ml-auto text-destructive hover:text-destructive hover:bg-destructive/20"
+                          onClick={() => removeLadderStep(index)}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Badge
+                      variant={ladderTotalSell > 100 ? 'destructive' : 'secondary'}
+                      className="text-xs"
+                    >
+                      {ladderTotalSell}% sold by ladder · {Math.max(0, 100 - ladderTotalSell)}% rides
+                    </Badge>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Rule Chain */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListOrdered className="h-5 w-5 text-primary" />
+                Sniper Rule Chain
+              </CardTitle>
+              <CardDescription>
+                Rules run top to bottom and stop at the first failure. The auto-sniper, scanner and backtester all use this order.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {ruleConfig.map((rule, index) => {
+                const definition = SNIPE_RULE_DEFINITIONS.find((d) => d.id === rule.id);
+                if (!definition) return null;
+                return (
+                  <div
+                    key={rule.id}
+                    className={`flex items-center gap-3 p-2.5 rounded-lg border border-border/50 ${
+                      rule.enabled ? 'bg-secondary/40' : 'bg-muted/20 opacity-60'
+                    }`}
+                  >
+                    <span className="text-xs text-muted-foreground w-6 shrink-0">#{index + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{definition.label}</span>
+                        {definition.locked && (
+                          <Badge variant="outline" className="text-[10px] h-4">Required</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">{definition.description}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === 0}
+                      onClick={() => moveRule(index, -1)}
+                    >
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === ruleConfig.length - 1}
+                      onClick={() => moveRule(index, 1)}
+                    >
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </Button>
+                    <Switch
+                      checked={rule.enabled}
+                      disabled={definition.locked}
+                      onCheckedChange={(checked) => toggleRule(rule.id, checked)}
+                    />
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
       </div>
     </AppLayout>
   );
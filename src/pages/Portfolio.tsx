@@ -13,6 +13,10 @@ import { useDisplayUnit } from "@/contexts/DisplayUnitContext";
 import SolTradesBanner from "@/components/dashboard/SolTradesBanner";
 import { TransactionHistory } from "@/components/portfolio/TransactionHistory";
 import { isPlaceholderTokenText } from "@/lib/dexscreener";
+import { addBotLog } from "@/components/scanner/BotActivityLog";
+import { WalletFilterSelect } from "@/components/wallet/WalletFilterSelect";
+import { useTradingWallets } from "@/hooks/useTradingWallets";
+import { ALL_WALLETS, filterByWallet, walletsInUse, type WalletFilter } from "@/lib/walletProfiles";
 import { 
   TrendingUp, 
   TrendingDown,
@@ -87,7 +91,8 @@ const PositionRow = ({ position, onClose, compact = false, formatValue }: Positi
     position.entry_value,
     position.profit_loss_percent,
     position.entry_price,
-    position.amount
+    position.amount,
+    position.fills
   );
 
   const exitInfo = position.status === 'closed' ? getExitReasonDisplay(position.exit_reason) : null;
@@ -118,6 +123,11 @@ const PositionRow = ({ position, onClose, compact = false, formatValue }: Positi
                 {exitInfo?.label}
               </Badge>
             )}
+            {position.strategy_profile_name && (
+              <Badge variant="outline" className="text-xs text-muted-foreground">
+                {position.strategy_profile_name} v{position.strategy_profile_version}
+              </Badge>
+            )}
           </div>
           <p className="text-xs text-muted-foreground truncate">
             Entry: ${position.entry_price.toFixed(8)} • {formatDistanceToNow(new Date(position.created_at), { addSuffix: true })}
@@ -170,8 +180,8 @@ const PositionRow = ({ position, onClose, compact = false, formatValue }: Positi
 
 function Portfolio() {
   const { 
-    openPositions, 
-    closedPositions, 
+    openPositions: allOpenPositions, 
+    closedPositions: allClosedPositions, 
     loading, 
     closePosition,
     fetchPositions,
@@ -195,18 +205,43 @@ function Portfolio() {
   const [autoMonitor, setAutoMonitor] = useState(false);
   const [autoExecute, setAutoExecute] = useState(true);
   const { wallet, connectPhantom, disconnect } = useWallet();
+  const { wallets: tradingWallets } = useTradingWallets(wallet.network === 'solana' ? wallet.address : null);
+  const [walletFilter, setWalletFilter] = useState<WalletFilter>(ALL_WALLETS);
+
+  // Stats, tabs and transactions follow the wallet filter; the exit monitor always covers every wallet
+  const openPositions = useMemo(() => filterByWallet(allOpenPositions, walletFilter), [allOpenPositions, walletFilter]);
+  const closedPositions = useMemo(() => filterByWallet(allClosedPositions, walletFilter), [allClosedPositions, walletFilter]);
+  const walletTrades = useMemo(() => filterByWallet(trades, walletFilter), [trades, walletFilter]);
+  const filterWallets = useMemo(
+    () => walletsInUse(tradingWallets, [...allOpenPositions, ...allClosedPositions]),
+    [tradingWallets, allOpenPositions, allClosedPositions]
+  );
+  const hasUntaggedPositions = useMemo(
+    () => [...allOpenPositions, ...allClosedPositions].some(p => !p.wallet_address),
+    [allOpenPositions, allClosedPositions]
+  );
 
   // Sync auto monitor state with hook
   React.useEffect(() => {
-    if (autoMonitor && openPositions.length > 0 && wallet.isConnected) {
+    if (autoMonitor && allOpenPositions.length > 0 && wallet.isConnected) {
       startAutoExitMonitor(30000);
     } else {
       stopAutoExitMonitor();
     }
-  }, [autoMonitor, openPositions.length, wallet.isConnected, startAutoExitMonitor, stopAutoExitMonitor]);
+  }, [autoMonitor, allOpenPositions.length, wallet.isConnected, startAutoExitMonitor, stopAutoExitMonitor]);
 
   const handleClosePosition = async (position: Position) => {
-    await closePosition(position.id, position.current_price ?? position.entry_price);
+    const exitPrice = position.current_price ?? position.entry_price;
+    addBotLog({
+      level: 'warning',
+      category: 'trade',
+      eventType: 'manual_override',
+      message: `Manually closed ${position.token_symbol}`,
+      tokenSymbol: position.token_symbol,
+      tokenAddress: position.token_address,
+      payload: { positionId: position.id, exitPrice },
+    });
+    await closePosition(position.id, exitPrice);
   };
 
   const handleCheckNow = () => {
@@ -284,14 +319,22 @@ function Portfolio() {
               {lastExitCheck && ` • Last check: ${formatDistanceToNow(new Date(lastExitCheck), { addSuffix: true })}`}
             </p>
           </div>
-          <Button
-            variant="glow"
-            onClick={() => fetchPositions(true)}
-            disabled={loading}
-          >
-            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
-            Refresh
-          </Button>
+          <div className="flex items-center gap-2">
+            <WalletFilterSelect
+              wallets={filterWallets}
+              value={walletFilter}
+              onChange={setWalletFilter}
+              hasUnassigned={hasUntaggedPositions}
+            />
+            <Button
+              variant="glow"
+              onClick={() => fetchPositions(true)}
+              disabled={loading}
+            >
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* SOL Trades Banner */}
@@ -416,7 +459,7 @@ function Portfolio() {
                       <Switch
                         checked={autoMonitor}
                         onCheckedChange={setAutoMonitor}
-                        disabled={openPositions.length === 0}
+                        disabled={allOpenPositions.length === 0}
                       />
                       <span className="text-sm text-muted-foreground">Monitor</span>
                       {isMonitoring && (
@@ -438,7 +481,7 @@ function Portfolio() {
                       variant="outline"
                       size="sm"
                       onClick={handleCheckNow}
-                      disabled={checkingExits || openPositions.length === 0}
+                      disabled={checkingExits || allOpenPositions.length === 0}
                     >
                       {checkingExits ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <Play className="w-4 h-4 mr-1" />}
                       Check Now
@@ -579,7 +622,7 @@ function Portfolio() {
           {/* Transaction History Tab */}
           <TabsContent value="history">
             <TransactionHistory 
-              trades={trades} 
+              trades={walletTrades} 
               loading={tradesLoading} 
               onRefetch={() => refetchTrades({ forceBackfill: true })} 
               onForceSync={forceSync}
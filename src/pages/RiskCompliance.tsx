@@ -8,8 +8,10 @@ import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useRiskCompliance, RiskCheckLog } from "@/hooks/useRiskCompliance";
+import { useRiskCompliance, RiskCheckLog, RiskSettings } from "@/hooks/useRiskCompliance";
+import type { GuardrailStatus } from "@/lib/riskGuardrails";
 import { formatDistanceToNow } from "date-fns";
 import {
   Shield,
@@ -32,14 +34,52 @@ import {
   Check,
   X,
   AlertOctagon,
+  Gauge,
+  Users,
+  ArrowLeftRight,
 } from "lucide-react";
 
+type GuardrailSettingKey = keyof Pick<
+  RiskSettings,
+  "max_daily_loss_sol" | "max_open_exposure_sol" | "max_token_exposure_sol" | "max_trades_per_hour"
+>;
+
+const GUARDRAIL_FIELDS: { key: GuardrailSettingKey; label: string; unit: string; step: number; hint: string }[] = [
+  { key: "max_daily_loss_sol", label: "Max Daily Loss", unit: "SOL", step: 0.1, hint: "Net realized loss since 00:00 UTC" },
+  { key: "max_open_exposure_sol", label: "Max Open Exposure", unit: "SOL", step: 0.1, hint: "Total SOL in open positions" },
+  { key: "max_token_exposure_sol", label: "Max Exposure per Token", unit: "SOL", step: 0.1, hint: "SOL in any single token" },
+  { key: "max_trades_per_hour", label: "Max Trades per Hour", unit: "trades", step: 1, hint: "Filled buys in a rolling hour" },
+];
+
+type HolderSettingKey = keyof Pick<
+  RiskSettings,
+  | "max_top10_holder_percent"
+  | "max_dev_holding_percent"
+  | "min_cluster_wallets"
+  | "holder_concentration_weight"
+  | "holder_cluster_weight"
+  | "dev_holding_weight"
+>;
+
+const HOLDER_FIELDS: { key: HolderSettingKey; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { key: "max_top10_holder_percent", label: "Max Top-10 Holding", unit: "%", min: 5, max: 100, step: 5 },
+  { key: "holder_concentration_weight", label: "Concentration Weight", unit: "pts", min: 0, max: 100, step: 5 },
+  { key: "min_cluster_wallets", label: "Cluster Size", unit: "wallets", min: 2, max: 10, step: 1 },
+  { key: "holder_cluster_weight", label: "Cluster Weight", unit: "pts", min: 0, max: 100, step: 5 },
+  { key: "max_dev_holding_percent", label: "Max Deployer Holding", unit: "%", min: 0, max: 50, step: 1 },
+  { key: "dev_holding_weight", label: "Deployer Weight", unit: "pts", min: 0, max: 100, step: 5 },
+];
+
+const formatGuardrailValue = (status: GuardrailStatus, value: number) =>
+  status.id === "trades_per_hour" ? `${value}` : `${value.toFixed(3)} SOL`;
+
 const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskCompliance(_props, ref) {
   const {
     settings,
     loading,
     checkLoading,
     logs,
+    guardrails,
     updateSettings,
     toggleEmergencyStop,
     resetCircuitBreaker,
@@ -309,6 +349,34 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                               <CheckIcon passed={checkResult.results[0].checks.taxCheck.passed} />
                             </span>
                           </div>
+                          {checkResult.results[0].checks.sellSimulation?.status && (
+                            <div className="flex items-center justify-between p-2 bg-background/50 rounded col-span-2">
+                              <span className="flex items-center gap-2">
+                                <ArrowLeftRight className="w-4 h-4" /> Sell Simulation
+                              </span>
+                              <span className="flex items-center gap-2">
+                                <span className="text-muted-foreground text-xs">
+                                  {checkResult.results[0].checks.sellSimulation.reason.replace(/^[✓✗⚠]\s*/u, "")}
+                                </span>
+                                <CheckIcon passed={checkResult.results[0].checks.sellSimulation.passed} />
+                              </span>
+                            </div>
+                          )}
+                          {checkResult.results[0].checks.holders && (
+                            <div className="flex items-center justify-between p-2 bg-background/50 rounded col-span-2">
+                              <span className="flex items-center gap-2">
+                                <Users className="w-4 h-4" /> Holders
+                              </span>
+                              <span className="flex items-center gap-2">
+                                <span className="text-muted-foreground text-xs">
+                                  Top 10: {checkResult.results[0].checks.holders.top10Percent?.toFixed(1) ?? "–"}%
+                                  {" | "}Clustered: {checkResult.results[0].checks.holders.clusteredPercent?.toFixed(1) ?? "–"}%
+                                  {" | "}Deployer: {checkResult.results[0].checks.holders.devHoldingPercent?.toFixed(1) ?? "–"}%
+                                </span>
+                                <CheckIcon passed={checkResult.results[0].checks.holders.passed} />
+                              </span>
+                            </div>
+                          )}
                         </div>
 
                         {checkResult.results[0].rejectionReasons.length > 0 && (
@@ -383,6 +451,43 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                     )}
                   </CardContent>
                 </Card>
+
+                {/* Guardrail Utilization */}
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Gauge className="w-5 h-5" />
+                      SOL Guardrails
+                    </CardTitle>
+                    <CardDescription>
+                      Enforced server-side before every buy - sells are never blocked
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid md:grid-cols-2 gap-6">
+                    {guardrails.map((status) => {
+                      const percent = status.enabled ? Math.min(100, (status.used / status.limit) * 100) : 0;
+                      return (
+                        <div key={status.id} className="space-y-2">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium">{status.label}</span>
+                            <span className={`font-mono ${status.breached ? "text-red-500" : "text-muted-foreground"}`}>
+                              {status.enabled
+                                ? `${formatGuardrailValue(status, status.used)} / ${formatGuardrailValue(status, status.limit)}`
+                                : "Off"}
+                            </span>
+                          </div>
+                          <Progress
+                            value={percent}
+                            className={`h-2 ${percent >= 90 ? "[&>div]:bg-red-500" : percent >= 70 ? "[&>div]:bg-yellow-500" : ""}`}
+                          />
+                        </div>
+                      );
+                    })}
+                    {guardrails.length === 0 && (
+                      <p className="text-sm text-muted-foreground md:col-span-2">Guardrail usage unavailable</p>
+                    )}
+                  </CardContent>
+                </Card>
               </div>
             </TabsContent>
 
@@ -479,6 +584,97 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                   </CardContent>
                 </Card>
 
+                {/* Holder Analysis */}
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="w-5 h-5" />
+                      Holder Analysis
+                    </CardTitle>
+                    <CardDescription>
+                      On-chain check of the largest holders (pools and burns excluded). Each tripped signal adds its
+                      weight to the risk score - set a weight to 0 to ignore that signal.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
+                      <div>
+                        <p className="font-medium">Analyze Holders On-Chain</p>
+                        <p className="text-xs text-muted-foreground">
+                          Top-10 concentration, wallets funded from the same source, deployer holdings
+                        </p>
+                      </div>
+                      <Switch
+                        checked={settings.holder_analysis_enabled}
+                        onCheckedChange={(checked) => updateSettings({ holder_analysis_enabled: checked })}
+                        disabled={loading}
+                      />
+                    </div>
+                    {settings.holder_analysis_enabled && (
+                      <div className="grid md:grid-cols-2 gap-6">
+                        {HOLDER_FIELDS.map((field) => (
+                          <div key={field.key} className="space-y-3">
+                            <div className="flex items-center justify-between">
+                              <Label>{field.label}</Label>
+                              <span className="font-mono text-sm">
+                                {settings[field.key]} {field.unit}
+                              </span>
+                            </div>
+                            <Slider
+                              value={[Number(settings[field.key])]}
+                              onValueChange={([value]) => updateSettings({ [field.key]: value })}
+                              min={field.min}
+                              max={field.max}
+                              step={field.step}
+                              disabled={loading}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* SOL Guardrails */}
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Gauge className="w-5 h-5" />
+                      SOL Guardrails
+                    </CardTitle>
+                    <CardDescription>
+                      Hard limits on new buys, checked before any transaction is built. Set 0 to disable.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid md:grid-cols-2 gap-6">
+                    {GUARDRAIL_FIELDS.map((field) => (
+                      <div key={field.key} className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor={`guardrail-${field.key}`}>{field.label}</Label>
+                          <span className="text-xs text-muted-foreground">{field.unit}</span>
+                        </div>
+                        <Input
+                          id={`guardrail-${field.key}`}
+                          key={`${field.key}-${settings[field.key]}`}
+                          type="number"
+                          defaultValue={Number(settings[field.key] ?? 0)}
+                          min={0}
+                          step={field.step}
+                          onBlur={(e) => {
+                            const raw = field.step >= 1 ? parseInt(e.target.value) : parseFloat(e.target.value);
+                            const val = !isNaN(raw) && raw > 0 ? raw : 0;
+                            if (val !== Number(settings[field.key] ?? 0)) {
+                              updateSettings({ [field.key]: val });
+                            }
+                          }}
+                          disabled={loading}
+                        />
+                        <p className="text-xs text-muted-foreground">{field.hint}</p>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
                 {/* Circuit Breaker */}
                 <Card className="lg:col-span-2">
                   <CardHeader>
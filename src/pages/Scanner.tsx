@@ -4,14 +4,17 @@ import AppLayout from "@/components/layout/AppLayout";
 import LiquidityBotPanel from "@/components/trading/LiquidityBotPanel";
 import SniperDecisionPanel from "@/components/trading/SniperDecisionPanel";
 import { TradeSignalPanel } from "@/components/trading/TradeSignalPanel";
+import { CopyTradingPanel } from "@/components/trading/CopyTradingPanel";
+import { LimitOrdersPanel } from "@/components/trading/LimitOrdersPanel";
 import LiquidityMonitor from "@/components/scanner/LiquidityMonitor";
 import PerformancePanel from "@/components/scanner/PerformancePanel";
 
-import BotActivityLog, { addBotLog, clearBotLogs } from "@/components/scanner/BotActivityLog";
+import BotActivityLog, { addBotLog } from "@/components/scanner/BotActivityLog";
 import RecoveryControls from "@/components/scanner/RecoveryControls";
 import ApiHealthWidget from "@/components/scanner/ApiHealthWidget";
 import PaidApiAlert from "@/components/scanner/PaidApiAlert";
 import BotPreflightCheck from "@/components/scanner/BotPreflightCheck";
+import BotRunnerStatus from "@/components/scanner/BotRunnerStatus";
 import ExitPreviewModal from "@/components/scanner/ExitPreviewModal";
 import NoRouteExitModal from "@/components/scanner/NoRouteExitModal";
 import StatsCard from "@/components/StatsCard";
@@ -30,7 +33,11 @@ import { useWallet } from "@/hooks/useWallet";
 import { useWalletModal } from "@/hooks/useWalletModal";
 import { useTradeExecution, SOL_MINT, type TradeParams, type PriorityLevel } from "@/hooks/useTradeExecution";
 import { useTradingEngine } from "@/hooks/useTradingEngine";
+import { usePriorityFees } from "@/hooks/usePriorityFees";
 import { usePositions } from "@/hooks/usePositions";
+import { useTradingWallets } from "@/hooks/useTradingWallets";
+import type { TradeSignal } from "@/hooks/useTradeSignals";
+import { applyPositionSale, FULL_EXIT_FRACTION } from "@/lib/positionAccounting";
 import { useToast } from "@/hooks/use-toast";
 import { useNotifications } from "@/hooks/useNotifications";
 import { useAppMode } from "@/contexts/AppModeContext";
@@ -41,6 +48,9 @@ import { useDisplayUnit } from "@/contexts/DisplayUnitContext";
 import { reconcilePositionsWithPools } from "@/lib/positionMetadataReconciler";
 import { fetchDexScreenerTokenMetadata } from "@/lib/dexscreener";
 import { isPlaceholderText } from "@/lib/formatters";
+import { evaluateSnipeRules } from "@/lib/sniperRules";
+import { findTradingWallet, resolveWalletSettings, walletDisplayName } from "@/lib/walletProfiles";
+import { SNIPING_PRIORITY_LEVELS } from "@/lib/priorityFees";
 import { Wallet, TrendingUp, Zap, Activity, AlertTriangle, X, FlaskConical, Coins, RotateCcw, DollarSign } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
@@ -49,7 +59,7 @@ import { ToastAction } from "@/components/ui/toast";
 const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref) {
   const { tokens, loading, scanTokens, errors, apiErrors, isDemo, cleanup, lastScanStats } = useTokenScanner();
   const { settings, saving, saveSettings, updateField } = useSniperSettings();
-  const { evaluateTokens, result: sniperResult, loading: sniperLoading } = useAutoSniper();
+  const { result: sniperResult, loading: sniperLoading } = useAutoSniper();
   const { startAutoExitMonitor, stopAutoExitMonitor, isMonitoring } = useAutoExit();
   const {
     waitingPositions,
@@ -66,9 +76,11 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   const { tokens: walletTokens, loading: loadingWalletTokens, refetch: refetchWalletTokens } = useWalletTokens({ minValueUsd: 0.01 });
   const { executeTrade, sellPosition } = useTradeExecution();
   const { snipeToken, exitPosition, status: engineStatus, isExecuting: engineExecuting } = useTradingEngine();
-  const { wallet, connectPhantom, disconnect, signAndSendTransaction, refreshBalance } = useWallet();
+  const { wallet, connectPhantom, disconnect, signAndSendTransaction, refreshBalance, getSolanaConnection } = useWallet();
+  const { wallets: tradingWallets } = useTradingWallets(wallet.network === 'solana' ? wallet.address : null);
+  const { estimateFee } = usePriorityFees(getSolanaConnection());
   const { openModal: openWalletModal } = useWalletModal();
-  const { openPositions: realOpenPositions, closedPositions: realClosedPositions, fetchPositions, closePosition: markPositionClosed } = usePositions();
+  const { openPositions: realOpenPositions, closedPositions: realClosedPositions, fetchPositions, closePosition: markPositionClosed, recordPositionSale } = usePositions();
   const { toast } = useToast();
   const { addNotification } = useNotifications();
   const { mode } = useAppMode();
@@ -114,7 +126,10 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     toggleAutoEntry,
     toggleAutoExit,
     setScanSpeed: setBotScanSpeed,
+    setRunnerWallet,
     recordTrade,
+    isServerBacked,
+    runner,
   } = useBotContext();
 
   // Local aliases from bot context for easier access
@@ -124,6 +139,12 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   const scanSpeed = botState.scanSpeed;
   const isPaused = botState.isPaused;
   
+  // The server-side runner trades for the Solana wallet connected here
+  useEffect(() => {
+    if (!isServerBacked || !wallet.isConnected || wallet.network !== 'solana' || !wallet.address) return;
+    setRunnerWallet(wallet.address);
+  }, [isServerBacked, wallet.isConnected, wallet.network, wallet.address, setRunnerWallet]);
+
   const [showApiErrors, setShowApiErrors] = useState(true);
   
   // Confirmation dialogs
@@ -137,6 +158,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   // Exit Preview Modal state
   const [exitPreviewPosition, setExitPreviewPosition] = useState<any | null>(null);
   const [showExitPreview, setShowExitPreview] = useState(false);
+  const [exitPreviewSellPercent, setExitPreviewSellPercent] = useState(100);
   
   // Sync Positions state
   const [syncingPositions, setSyncingPositions] = useState(false);
@@ -268,7 +290,8 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   }, [wallet.address, signAndSendTransaction]);
 
   // Handler to open the exit preview modal instead of exiting directly
-  const handleOpenExitPreview = useCallback((positionId: string, currentPrice: number) => {
+  // sellPercent preselects a partial exit (25/50/75%) in the modal
+  const handleOpenExitPreview = useCallback((positionId: string, currentPrice: number, sellPercent = 100) => {
     if (isDemo) {
       closeDemoPosition(positionId, currentPrice, "manual");
       const position = openDemoPositions.find((p) => p.id === positionId);
@@ -308,6 +331,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
       ...position,
       current_price: currentPrice,
     });
+    setExitPreviewSellPercent(sellPercent);
     setShowExitPreview(true);
   }, [
     isDemo,
@@ -326,7 +350,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   ]);
 
   // Actual exit execution - called from modal
-  const handleConfirmExitFromModal = useCallback(async (positionId: string, amountToSell: number, currentPrice: number) => {
+  const handleConfirmExitFromModal = useCallback(async (positionId: string, amountToSell: number, currentPrice: number, heldAmount?: number) => {
     const position = realOpenPositions.find((p) => p.id === positionId);
     if (!position || !wallet.address) return;
 
@@ -334,17 +358,21 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
       ? currentPrice
       : (position.current_price ?? position.entry_price);
 
-    // Use the on-chain balance passed from the modal
+    // Amount chosen in the modal (all or part of the on-chain balance)
     const tokenAmountToSell = amountToSell;
+    const heldBefore = heldAmount && heldAmount > 0 ? heldAmount : amountToSell;
+    const isPartialRequest = tokenAmountToSell < heldBefore * FULL_EXIT_FRACTION;
 
     // Use 3-stage engine for Jupiter exit (better routing)
     addBotLog({
       level: 'info',
       category: 'trade',
+      eventType: 'manual_override',
       message: 'Exiting position via Jupiter',
       tokenSymbol: position.token_symbol,
       tokenAddress: position.token_address,
       details: `Selling ${tokenAmountToSell.toFixed(6)} tokens`,
+      payload: { positionId, amountToSell: tokenAmountToSell, heldAmount: heldBefore, price: safeExitPrice },
     });
 
     const showForceCloseToast = (title: string, description: string) => {
@@ -380,12 +408,13 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     };
 
     try {
+      const exitFee = await estimateFee('high', [position.token_address], settings?.max_priority_fee_sol);
       const result = await exitPosition(
         position.token_address,
         tokenAmountToSell,
         wallet.address,
         (tx) => signAndSendTransaction(tx),
-        { slippage: 0.15 } // 15% slippage for exits
+        { slippage: 0.15, priorityFee: exitFee.lamports } // 15% slippage for exits
       );
 
       if (result.success) {
@@ -426,33 +455,38 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
         // A partial sell is only meaningful if remaining balance is >1% of original amount
         // This prevents rounding errors from triggering misleading notifications
         const DUST = 1e-6;
-        const remainingPercent = tokenAmountToSell > 0 && remainingBalance !== null 
-          ? (remainingBalance / tokenAmountToSell) * 100 
-          : 0;
-        const isSignificantRemaining = remainingBalance !== null && remainingBalance > DUST && remainingPercent > 1;
+        const remainingPercent = heldBefore > 0 && remainingBalance !== null 
+          ? (remainingBalance / heldBefore) * 100 
+          : (isPartialRequest ? 100 : 0);
+        const isSignificantRemaining = remainingBalance !== null
+          ? remainingBalance > DUST && remainingPercent > 1
+          : isPartialRequest;
         
         if (isSignificantRemaining) {
-          // Update position with remaining balance
-          await supabase
-            .from('positions')
-            .update({ amount: remainingBalance, updated_at: new Date().toISOString() })
-            .eq('id', positionId);
-
-          // Calculate how much was sold
-          const soldAmount = tokenAmountToSell - remainingBalance;
-          const soldPercent = tokenAmountToSell > 0 ? ((soldAmount / tokenAmountToSell) * 100).toFixed(1) : '0';
+          // Book the sold portion; the rest of the position stays open at its remaining cost basis
+          const soldAmount = remainingBalance !== null
+            ? Math.max(0, heldBefore - remainingBalance)
+            : tokenAmountToSell;
+          const soldPercent = heldBefore > 0 ? ((soldAmount / heldBefore) * 100).toFixed(1) : '0';
+
+          const sale = await recordPositionSale(positionId, soldAmount, safeExitPrice, {
+            txHash: result.txHash,
+            proceedsSol: result.solReceived,
+            heldAmount: heldBefore,
+            priorityFee: exitFee,
+          });
 
           toast({
             title: 'Partial Exit Completed',
-            description: `Sold ${soldPercent}% (${soldAmount.toFixed(6)} tokens). ${remainingBalance.toFixed(6)} ${position.token_symbol} remaining in wallet.`,
+            description: `Sold ${soldPercent}% (${soldAmount.toFixed(6)} tokens)${sale ? `, realized ${sale.realizedPnlSol >= 0 ? '+' : ''}${sale.realizedPnlSol.toFixed(4)} SOL` : ''}. ${(remainingBalance ?? heldBefore - soldAmount).toFixed(6)} ${position.token_symbol} remaining.`,
           });
 
           addBotLog({
-            level: 'warning',
+            level: isPartialRequest ? 'success' : 'warning',
             category: 'trade',
             message: 'Partial sell executed',
             tokenSymbol: position.token_symbol,
-            details: `Sold ${soldAmount.toFixed(6)}, remaining: ${remainingBalance.toFixed(6)}`,
+            details: `Sold ${soldAmount.toFixed(6)}, remaining: ${(remainingBalance ?? heldBefore - soldAmount).toFixed(6)}`,
           });
 
           await fetchPositions(true);
@@ -463,6 +497,11 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
         // IMPORTANT: A successful on-chain sell does NOT automatically update our positions table.
         // Mark the position closed so it is removed from Active Trades immediately.
         // CRITICAL FIX: Pass the transaction hash so it's recorded in the database
+        const finalSale = applyPositionSale(position, {
+          soldAmount: position.amount,
+          exitPrice: safeExitPrice,
+          proceedsSol: result.solReceived,
+        });
         const closed = await markPositionClosed(positionId, safeExitPrice, result.txHash);
 
         if (closed) {
@@ -480,6 +519,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
             if (user) {
               await supabase.from('trade_history').insert({
                 user_id: user.id,
+                position_id: positionId,
                 token_address: position.token_address,
                 token_symbol: position.token_symbol,
                 token_name: position.token_name,
@@ -489,6 +529,9 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
                 price_usd: safeExitPrice,
                 status: 'confirmed',
                 tx_hash: result.txHash,
+                realized_pnl_sol: finalSale.realizedPnlSol,
+                priority_fee_lamports: exitFee.lamports,
+                priority_fee_level: exitFee.level,
               });
             }
           } catch (historyErr) {
@@ -554,6 +597,21 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
               details: `TX: ${raydiumResult.signature}`,
             });
 
+            if (isPartialRequest) {
+              await recordPositionSale(positionId, tokenAmountToSell, safeExitPrice, {
+                txHash: raydiumResult.signature,
+                heldAmount: heldBefore,
+              });
+              toast({
+                title: 'Partial Exit via Raydium',
+                description: `Sold ${tokenAmountToSell.toFixed(6)} ${position.token_symbol} using Raydium fallback`,
+              });
+              await fetchPositions(true);
+              refreshBalance();
+              return;
+            }
+
+            const finalSale = applyPositionSale(position, { soldAmount: position.amount, exitPrice: safeExitPrice });
             const closed = await markPositionClosed(positionId, safeExitPrice, raydiumResult.signature);
             if (closed) {
               toast({
@@ -567,6 +625,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
                 if (user) {
                   await supabase.from('trade_history').insert({
                     user_id: user.id,
+                    position_id: positionId,
                     token_address: position.token_address,
                     token_symbol: position.token_symbol,
                     token_name: position.token_name,
@@ -576,6 +635,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
                     price_usd: safeExitPrice,
                     status: 'confirmed',
                     tx_hash: raydiumResult.signature,
+                    realized_pnl_sol: finalSale.realizedPnlSol,
                   });
                 }
               } catch (historyErr) {
@@ -648,10 +708,13 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     realOpenPositions,
     wallet.address,
     exitPosition,
+    estimateFee,
+    settings?.max_priority_fee_sol,
     signAndSendTransaction,
     fetchPositions,
     refreshBalance,
     markPositionClosed,
+    recordPositionSale,
     toast,
     tryRaydiumSwap,
   ]);
@@ -831,11 +894,216 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     return () => clearInterval(cleanupInterval);
   }, [isBotActive, isPaused]);
   
+  // Live mode: bot-runner scans and evaluates server-side (so entries continue with the tab closed);
+  // while this tab is open with the runner's wallet connected, it signs the signals the runner approved
+  const executeRunnerSignals = useCallback(async () => {
+    if (!settings) return;
+
+    if (!wallet.isConnected || wallet.network !== 'solana' || !wallet.address) {
+      addBotLog({ level: 'warning', category: 'trade', message: 'Connect wallet to enable live trading' });
+      return;
+    }
+
+    // The connected wallet trades its own strategy and position slots; the settings panel edits the shared base
+    const tradingWallet = findTradingWallet(tradingWallets, wallet.address);
+    if (tradingWallet?.is_enabled === false) {
+      addBotLog({ level: 'skip', category: 'trade', message: `Trading disabled for wallet ${walletDisplayName(tradingWallet)}` });
+      return;
+    }
+    const walletSettings = resolveWalletSettings(settings, tradingWallet?.settings_overrides);
+    const walletOpenPositions = realOpenPositions.filter(p => !p.wallet_address || p.wallet_address === wallet.address);
+
+    const balanceSol = parseFloat(String(wallet.balance || '').replace(/[^\d.]/g, '')) || 0;
+    const tradeAmountSol = walletSettings.trade_amount || 0;
+    const feeBufferSol = 0.01;
+
+    if (tradeAmountSol <= 0 || balanceSol < tradeAmountSol + feeBufferSol) {
+      if (balanceSol < tradeAmountSol + feeBufferSol) {
+        addBotLog({ 
+          level: 'warning', 
+          category: 'trade', 
+          message: 'Insufficient SOL balance',
+          details: `Have: ${balanceSol.toFixed(4)} SOL | Need: ${(tradeAmountSol + feeBufferSol).toFixed(4)} SOL`,
+        });
+      }
+      return;
+    }
+
+    if (liveTradeInFlightRef.current) {
+      return; // Trade already in progress
+    }
+
+    // bot-runner already scanned and evaluated server-side - sign the signals it approved for this wallet
+    const { data: signalRows, error: signalsError } = await supabase
+      .from('trade_signals')
+      .select('*')
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .or(`wallet_address.eq.${wallet.address},wallet_address.is.null`)
+      .order('created_at', { ascending: true });
+    if (signalsError) {
+      addBotLog({ level: 'warning', category: 'trade', message: 'Could not load runner signals', details: signalsError.message });
+      return;
+    }
+
+    const approved = ((signalRows || []) as unknown as TradeSignal[])
+      .filter((signal) => !tradedTokensRef.current.has(signal.token_address))
+      .map((signal) => ({
+        signalId: signal.id,
+        token: {
+          address: signal.token_address,
+          symbol: signal.token_symbol,
+          liquidity: signal.liquidity,
+          riskScore: signal.risk_score,
+          buyerPosition: (signal.metadata?.buyer_position as number | null | undefined) ?? null,
+          canSell: true as boolean | undefined,
+        },
+        tradeParams: { slippage: signal.slippage },
+      }));
+    if (approved.length === 0) return;
+
+    addBotLog({
+      level: 'success',
+      category: 'evaluate',
+      message: `${approved.length} runner signal(s) ready to sign`,
+      details: approved.map(d => d.token.symbol).join(', '),
+    });
+
+    const availableSlots = Math.max(0, (walletSettings.max_concurrent_trades || 0) - walletOpenPositions.length);
+    if (availableSlots <= 0) {
+      addBotLog({ level: 'skip', category: 'trade', message: 'Max positions reached' });
+      return;
+    }
+
+    const maxAffordableTrades = Math.max(0, Math.floor((balanceSol - feeBufferSol) / tradeAmountSol));
+    const tradesThisCycle = Math.min(availableSlots, maxAffordableTrades, 3, approved.length);
+
+    if (tradesThisCycle <= 0) return;
+
+    const toExecute = approved.slice(0, tradesThisCycle);
+    
+    addBotLog({
+      level: 'info',
+      category: 'trade',
+      message: `🚀 Executing ${toExecute.length} live trade(s)`,
+      details: `Tokens: ${toExecute.map(t => t.token.symbol).join(', ')}\n⚙️ Settings: ${tradeAmountSol} SOL | Slippage: ${walletSettings.slippage_tolerance || 15}% | TP: ${walletSettings.profit_take_percentage}% | SL: ${walletSettings.stop_loss_percentage}% | Min Liq: ${walletSettings.min_liquidity} SOL`,
+    });
+
+    liveTradeInFlightRef.current = true;
+    try {
+      for (const next of toExecute) {
+        // CRITICAL: Pre-validate token is sellable before executing buy
+        if (next.token.canSell === false) {
+          addBotLog({
+            level: 'warning',
+            category: 'trade',
+            message: `⚠️ Skipped: ${next.token.symbol} (not sellable)`,
+            tokenSymbol: next.token.symbol,
+            tokenAddress: next.token.address,
+            details: `Token rejected - cannot be sold after purchase\n💧 Liquidity: $${next.token.liquidity?.toLocaleString() || 'N/A'} | 🛡️ Safety: ${100 - (next.token.riskScore || 0)}/100`,
+          });
+          continue;
+        }
+        
+        // CRITICAL: Mark token as traded BEFORE execution to prevent race conditions
+        tradedTokensRef.current.add(next.token.address);
+        
+        const buyerPos = next.token.buyerPosition ? `#${next.token.buyerPosition}` : 'N/A';
+        const safetyScore = next.token.riskScore != null ? `${100 - next.token.riskScore}/100` : 'N/A';
+        const liqText = next.token.liquidity ? `$${next.token.liquidity.toLocaleString()}` : 'N/A';
+        
+        addBotLog({
+          level: 'info',
+          category: 'trade',
+          message: `📝 Starting trade: ${next.token.symbol}`,
+          tokenSymbol: next.token.symbol,
+          tokenAddress: next.token.address,
+          details: `💧 Liquidity: ${liqText} | 👤 Buyer Pos: ${buyerPos} | 🛡️ Safety: ${safetyScore}\n⚙️ Amount: ${tradeAmountSol} SOL | Slippage: ${walletSettings.slippage_tolerance || 15}% | Priority: ${walletSettings.priority}`,
+        });
+
+        // Use user settings for slippage and priority, with sensible defaults
+        const slippagePct = next.tradeParams?.slippage ?? walletSettings.slippage_tolerance ?? 15;
+        
+        // Priority fee from recent fees on the token's mint and pool, capped at the user's max fee
+        const priorityFee = await estimateFee(
+          SNIPING_PRIORITY_LEVELS[walletSettings.priority] ?? 'medium',
+          [next.token.address, tokens.find((t) => t.address === next.token.address)?.pairAddress],
+          walletSettings.max_priority_fee_sol
+        );
+
+        const result = await snipeToken(
+          next.token.address,
+          wallet.address,
+          (tx) => signAndSendTransaction(tx),
+          {
+            buyAmount: tradeAmountSol,
+            slippage: slippagePct / 100,
+            priorityFee: priorityFee.lamports,
+            priorityLevel: priorityFee.level,
+            minLiquidity: walletSettings.min_liquidity,
+            // Use user's max risk score from settings, default to 70
+            maxRiskScore: walletSettings.max_risk_score ?? 70,
+            // Skip risk check for pre-verified tokens from scanner
+            skipRiskCheck: true,
+            // Pass user's TP/SL settings for position persistence
+            profitTakePercent: walletSettings.profit_take_percentage,
+            stopLossPercent: walletSettings.stop_loss_percentage,
+            averageIntoPosition: walletSettings.average_into_positions,
+          }
+        );
+
+        if (result?.status === 'SUCCESS' && result.position) {
+          const entryVal = (result.position.entryPrice || 0) * (result.position.tokenAmount || 0);
+          addBotLog({ 
+            level: 'success', 
+            category: 'trade', 
+            message: `✅ BUY FILLED: ${next.token.symbol}`,
+            tokenSymbol: next.token.symbol,
+            tokenAddress: next.token.address,
+            details: `💧 Liquidity: ${liqText} | 👤 Buyer Pos: ${buyerPos} | 🛡️ Safety: ${safetyScore}\n📊 Entry: $${result.position.entryPrice?.toFixed(8)} | Tokens: ${result.position.tokenAmount?.toLocaleString(undefined, { maximumFractionDigits: 2 })} | Value: $${entryVal.toFixed(4)} | SOL: ${result.position.solSpent?.toFixed(4)}\n⚙️ TP: ${walletSettings.profit_take_percentage}% | SL: ${walletSettings.stop_loss_percentage}%\n🔗 TX: ${result.position.entryTxHash || 'N/A'}`,
+          });
+          recordTrade(true);
+          await supabase
+            .from('trade_signals')
+            .update({ status: 'executed', executed_at: new Date().toISOString(), tx_signature: result.position.entryTxHash ?? null })
+            .eq('id', next.signalId);
+          await fetchPositions();
+          refreshBalance();
+          await new Promise(r => setTimeout(r, 500));
+        } else {
+          const failReason = result?.error || 'Trade failed - unknown error';
+          addBotLog({ 
+            level: 'error', 
+            category: 'trade', 
+            message: `❌ BUY FAILED: ${next.token.symbol}`,
+            tokenSymbol: next.token.symbol,
+            tokenAddress: next.token.address,
+            details: `💧 Liquidity: ${liqText} | 👤 Buyer Pos: ${buyerPos} | 🛡️ Safety: ${safetyScore}\n❗ Reason: ${failReason}\n⚙️ Attempted: ${tradeAmountSol} SOL | Slippage: ${walletSettings.slippage_tolerance || 15}%\n📍 Token: ${next.token.address}`,
+          });
+          recordTrade(false);
+          await supabase.from('trade_signals').update({ status: 'cancelled' }).eq('id', next.signalId);
+          break; // Stop on first failure
+        }
+      }
+    } catch (err: unknown) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      addBotLog({ level: 'error', category: 'trade', message: `Trade error: ${errorMsg}` });
+      toast({ title: 'Trade Error', description: errorMsg, variant: 'destructive' });
+    } finally {
+      liveTradeInFlightRef.current = false;
+    }
+  }, [
+    settings, realOpenPositions, tradingWallets, tokens,
+    wallet.isConnected, wallet.network, wallet.address, wallet.balance,
+    snipeToken, estimateFee, recordTrade,
+    signAndSendTransaction, refreshBalance, fetchPositions, toast,
+  ]);
+
   // Main evaluation function - extracted for reuse
   // Bot can run if active and not paused - autoEntryEnabled only controls NEW trade entries
   const runBotEvaluation = useCallback(async () => {
     // Bot must be active to run evaluations, but autoEntry only gates new trades
-    if (!isBotActive || tokens.length === 0 || !settings) {
+    if (!isBotActive || !settings) {
       return;
     }
     
@@ -843,6 +1111,13 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     if (!autoEntryEnabled) {
       return;
     }
+
+    if (!isDemo) {
+      await executeRunnerSignals();
+      return;
+    }
+
+    if (tokens.length === 0) return;
     
     // Filter for tokens we haven't processed yet AND haven't traded
     // tradedTokensRef is NEVER cleared during bot session - prevents duplicate buys
@@ -903,20 +1178,15 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     if (isDemo) {
       batch.forEach(t => processedTokensRef.current.add(t.address));
       
-      // Use more lenient matching for demo mode
-      const targetPositions = settings.target_buyer_positions || [1, 2, 3, 4, 5];
-      const minLiq = settings.min_liquidity || 5;
-      const maxRisk = settings.max_risk_score || 70;
-      
-      const approvedToken = tokenData.find(t => 
-        // Check buyer position OR allow if position is unknown (null)
-        (t.buyerPosition === null || (t.buyerPosition && targetPositions.includes(t.buyerPosition))) && 
-        t.riskScore < maxRisk &&
-        t.liquidity >= minLiq &&
-        t.isTradeable !== false && // Must be tradeable
-        t.canBuy !== false && // Must be buyable
-        t.canSell !== false // CRITICAL: Must be sellable to avoid stuck positions
-      );
+      // Same rule chain as auto-sniper (local checks only - demo makes no network calls)
+      let approvedToken: TokenData | undefined;
+      for (const t of tokenData) {
+        const outcome = await evaluateSnipeRules(t, settings);
+        if (outcome.approved) {
+          approvedToken = t;
+          break;
+        }
+      }
       
       if (approvedToken && settings.trade_amount && demoBalance >= settings.trade_amount) {
         // CRITICAL: Mark token as traded BEFORE execution to prevent race conditions
@@ -991,188 +1261,9 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
       }
       return;
     }
-
-    // Live mode execution
-    if (!wallet.isConnected || wallet.network !== 'solana' || !wallet.address) {
-      addBotLog({ level: 'warning', category: 'trade', message: 'Connect wallet to enable live trading' });
-      return;
-    }
-
-    const balanceSol = parseFloat(String(wallet.balance || '').replace(/[^\d.]/g, '')) || 0;
-    const tradeAmountSol = settings.trade_amount || 0;
-    const feeBufferSol = 0.01;
-
-    if (tradeAmountSol <= 0 || balanceSol < tradeAmountSol + feeBufferSol) {
-      if (balanceSol < tradeAmountSol + feeBufferSol) {
-        addBotLog({ 
-          level: 'warning', 
-          category: 'trade', 
-          message: 'Insufficient SOL balance',
-          details: `Have: ${balanceSol.toFixed(4)} SOL | Need: ${(tradeAmountSol + feeBufferSol).toFixed(4)} SOL`,
-        });
-      }
-      return;
-    }
-
-    if (liveTradeInFlightRef.current) {
-      return; // Trade already in progress
-    }
-
-    // Evaluate tokens
-    const evaluation = await evaluateTokens(tokenData, false, undefined, { suppressOpportunityToast: true });
-    if (!evaluation) {
-      return;
-    }
-
-    batch.forEach(t => processedTokensRef.current.add(t.address));
-    const approved = evaluation.decisions?.filter((d) => d.approved) || [];
-    
-    if (approved.length === 0) {
-      // Get rejected tokens with their primary rejection reasons
-      const rejected = evaluation.decisions?.filter(d => !d.approved) || [];
-      const rejectionSummary = rejected.slice(0, 3).map(d => {
-        const reason = d.reasons.find(r => r.startsWith('✗')) || d.reasons[0] || 'N/A';
-        return `${d.token.symbol}: ${reason}`;
-      }).join(' | ');
-      
-      addBotLog({ 
-        level: 'skip', 
-        category: 'evaluate', 
-        message: `${rejected.length} token(s) did not pass filters`,
-        details: rejectionSummary || undefined,
-      });
-      return;
-    }
-
-    addBotLog({
-      level: 'success',
-      category: 'evaluate',
-      message: `${approved.length} token(s) approved for trading`,
-      details: approved.map(d => d.token.symbol).join(', '),
-    });
-
-    const availableSlots = Math.max(0, (settings.max_concurrent_trades || 0) - openPositions.length);
-    if (availableSlots <= 0) {
-      addBotLog({ level: 'skip', category: 'trade', message: 'Max positions reached' });
-      return;
-    }
-
-    const maxAffordableTrades = Math.max(0, Math.floor((balanceSol - feeBufferSol) / tradeAmountSol));
-    const tradesThisCycle = Math.min(availableSlots, maxAffordableTrades, 3, approved.length);
-
-    if (tradesThisCycle <= 0) return;
-
-    const toExecute = approved.slice(0, tradesThisCycle);
-    
-    addBotLog({
-      level: 'info',
-      category: 'trade',
-      message: `🚀 Executing ${toExecute.length} live trade(s)`,
-      details: `Tokens: ${toExecute.map(t => t.token.symbol).join(', ')}\n⚙️ Settings: ${tradeAmountSol} SOL | Slippage: ${settings.slippage_tolerance || 15}% | TP: ${settings.profit_take_percentage}% | SL: ${settings.stop_loss_percentage}% | Min Liq: ${settings.min_liquidity} SOL`,
-    });
-
-    liveTradeInFlightRef.current = true;
-    try {
-      for (const next of toExecute) {
-        // CRITICAL: Pre-validate token is sellable before executing buy
-        if (next.token.canSell === false) {
-          addBotLog({
-            level: 'warning',
-            category: 'trade',
-            message: `⚠️ Skipped: ${next.token.symbol} (not sellable)`,
-            tokenSymbol: next.token.symbol,
-            tokenAddress: next.token.address,
-            details: `Token rejected - cannot be sold after purchase\n💧 Liquidity: $${next.token.liquidity?.toLocaleString() || 'N/A'} | 🛡️ Safety: ${100 - (next.token.riskScore || 0)}/100`,
-          });
-          continue;
-        }
-        
-        // CRITICAL: Mark token as traded BEFORE execution to prevent race conditions
-        tradedTokensRef.current.add(next.token.address);
-        
-        const buyerPos = next.token.buyerPosition ? `#${next.token.buyerPosition}` : 'N/A';
-        const safetyScore = next.token.riskScore != null ? `${100 - next.token.riskScore}/100` : 'N/A';
-        const liqText = next.token.liquidity ? `$${next.token.liquidity.toLocaleString()}` : 'N/A';
-        
-        addBotLog({
-          level: 'info',
-          category: 'trade',
-          message: `📝 Starting trade: ${next.token.symbol}`,
-          tokenSymbol: next.token.symbol,
-          tokenAddress: next.token.address,
-          details: `💧 Liquidity: ${liqText} | 👤 Buyer Pos: ${buyerPos} | 🛡️ Safety: ${safetyScore}\n⚙️ Amount: ${tradeAmountSol} SOL | Slippage: ${settings.slippage_tolerance || 15}% | Priority: ${settings.priority}`,
-        });
-
-        // Use user settings for slippage and priority, with sensible defaults
-        const slippagePct = next.tradeParams?.slippage ?? settings.slippage_tolerance ?? 15;
-        
-        // Priority fee mapping - configurable based on user's priority setting
-        const priorityFeeMap: Record<string, number> = {
-          turbo: 500000,  // 0.0005 SOL
-          fast: 200000,   // 0.0002 SOL
-          normal: 100000, // 0.0001 SOL
-        };
-        const priorityFee = priorityFeeMap[settings.priority] || priorityFeeMap.normal;
-
-        const result = await snipeToken(
-          next.token.address,
-          wallet.address,
-          (tx) => signAndSendTransaction(tx),
-          {
-            buyAmount: tradeAmountSol,
-            slippage: slippagePct / 100,
-            priorityFee,
-            minLiquidity: settings.min_liquidity,
-            // Use user's max risk score from settings, default to 70
-            maxRiskScore: settings.max_risk_score ?? 70,
-            // Skip risk check for pre-verified tokens from scanner
-            skipRiskCheck: true,
-            // Pass user's TP/SL settings for position persistence
-            profitTakePercent: settings.profit_take_percentage,
-            stopLossPercent: settings.stop_loss_percentage,
-          }
-        );
-
-        if (result?.status === 'SUCCESS' && result.position) {
-          const entryVal = (result.position.entryPrice || 0) * (result.position.tokenAmount || 0);
-          addBotLog({ 
-            level: 'success', 
-            category: 'trade', 
-            message: `✅ BUY FILLED: ${next.token.symbol}`,
-            tokenSymbol: next.token.symbol,
-            tokenAddress: next.token.address,
-            details: `💧 Liquidity: ${liqText} | 👤 Buyer Pos: ${buyerPos} | 🛡️ Safety: ${safetyScore}\n📊 Entry: $${result.position.entryPrice?.toFixed(8)} | Tokens: ${result.position.tokenAmount?.toLocaleString(undefined, { maximumFractionDigits: 2 })} | Value: $${entryVal.toFixed(4)} | SOL: ${result.position.solSpent?.toFixed(4)}\n⚙️ TP: ${settings.profit_take_percentage}% | SL: ${settings.stop_loss_percentage}%\n🔗 TX: ${result.position.entryTxHash || 'N/A'}`,
-          });
-          recordTrade(true);
-          await fetchPositions();
-          refreshBalance();
-          await new Promise(r => setTimeout(r, 500));
-        } else {
-          const failReason = result?.error || 'Trade failed - unknown error';
-          addBotLog({ 
-            level: 'error', 
-            category: 'trade', 
-            message: `❌ BUY FAILED: ${next.token.symbol}`,
-            tokenSymbol: next.token.symbol,
-            tokenAddress: next.token.address,
-            details: `💧 Liquidity: ${liqText} | 👤 Buyer Pos: ${buyerPos} | 🛡️ Safety: ${safetyScore}\n❗ Reason: ${failReason}\n⚙️ Attempted: ${tradeAmountSol} SOL | Slippage: ${settings.slippage_tolerance || 15}%\n📍 Token: ${next.token.address}`,
-          });
-          recordTrade(false);
-          break; // Stop on first failure
-        }
-      }
-    } catch (err: unknown) {
-      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
-      addBotLog({ level: 'error', category: 'trade', message: `Trade error: ${errorMsg}` });
-      toast({ title: 'Trade Error', description: errorMsg, variant: 'destructive' });
-    } finally {
-      liveTradeInFlightRef.current = false;
-    }
   }, [
-    tokens, isBotActive, autoEntryEnabled, settings, isDemo, openPositions.length,
-    wallet.isConnected, wallet.network, wallet.address, wallet.balance,
-    demoBalance, solPrice, evaluateTokens, snipeToken, recordTrade,
-    signAndSendTransaction, refreshBalance, fetchPositions, toast,
+    tokens, isBotActive, autoEntryEnabled, settings, isDemo, executeRunnerSignals,
+    demoBalance, solPrice, toast,
     deductBalance, addBalance, addDemoPosition, updateDemoPosition, closeDemoPosition,
   ]);
 
@@ -1269,6 +1360,13 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
       });
     }
     
+    addBotLog({
+      level: 'info',
+      category: 'system',
+      eventType: 'manual_override',
+      message: `Bot ${active ? 'activated' : 'deactivated'} by user (${isDemo ? 'demo' : 'live'} mode)`,
+    });
+
     // Use BotContext to persist state
     if (active) {
       startBot();
@@ -1332,14 +1430,14 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
 
   // Recovery control handlers
   const handleForceScan = useCallback(() => {
-    addBotLog({ level: 'info', category: 'system', message: 'Force scan triggered' });
+    addBotLog({ level: 'info', category: 'system', eventType: 'manual_override', message: 'Force scan triggered' });
     if (settings?.min_liquidity) {
       scanTokens(settings.min_liquidity);
     }
   }, [settings?.min_liquidity, scanTokens]);
 
   const handleForceEvaluate = useCallback(() => {
-    addBotLog({ level: 'info', category: 'system', message: 'Force evaluate triggered' });
+    addBotLog({ level: 'info', category: 'system', eventType: 'manual_override', message: 'Force evaluate triggered' });
     // Clear the last eval timestamp to bypass throttle
     processedTokensRef.current.clear();
   }, []);
@@ -1347,7 +1445,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   const handleClearProcessed = useCallback(() => {
     const count = processedTokensRef.current.size;
     processedTokensRef.current.clear();
-    addBotLog({ level: 'info', category: 'system', message: `Cleared ${count} processed tokens from cache` });
+    addBotLog({ level: 'info', category: 'system', eventType: 'manual_override', message: `Cleared ${count} processed tokens from cache` });
     toast({ title: 'Cache Cleared', description: `Cleared ${count} tokens from processed cache` });
   }, [toast]);
 
@@ -1390,8 +1488,11 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
           addBotLog({
             level: 'success',
             category: 'trade',
+            eventType: 'manual_override',
             message: `Force closed: ${position.token_symbol}`,
             tokenAddress: position.token_address,
+            tokenSymbol: position.token_symbol,
+            payload: { positionId: position.id, exitPrice },
           });
         } else {
           failedCount++;
@@ -1424,13 +1525,12 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   const handleResetBot = useCallback(() => {
     stopBot();
     processedTokensRef.current.clear();
-    clearBotLogs();
     if (isDemo) {
       stopDemoMonitor();
     } else {
       stopAutoExitMonitor();
     }
-    addBotLog({ level: 'warning', category: 'system', message: 'Bot reset - all state cleared' });
+    addBotLog({ level: 'warning', category: 'system', eventType: 'manual_override', message: 'Bot reset - all state cleared' });
     toast({ title: 'Bot Reset', description: 'Bot deactivated and cache cleared' });
   }, [isDemo, stopDemoMonitor, stopAutoExitMonitor, stopBot, toast]);
 
@@ -1632,6 +1732,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
         position={exitPreviewPosition}
         walletAddress={wallet.address || ''}
         onConfirmExit={handleConfirmExitFromModal}
+        initialSellPercent={exitPreviewSellPercent}
       />
       
       {/* No Route Exit Modal */}
@@ -1825,6 +1926,8 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
                 openPositionsCount={openPositions.length}
                 onConnectWallet={connectPhantom}
               />
+
+              {isServerBacked && <BotRunnerStatus runner={runner} isBotActive={isBotActive} />}
               
               {/* Liquidity Bot Panel - All settings in one place */}
               <LiquidityBotPanel
@@ -1859,6 +1962,12 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
               {/* Trade Signals - Live mode only */}
               {!isDemo && <TradeSignalPanel />}
 
+              {/* Copy Trading - Live mode only */}
+              {!isDemo && <CopyTradingPanel />}
+
+              {/* Limit Orders - Live mode only */}
+              {!isDemo && <LimitOrdersPanel />}
+
               {/* Sniper Decisions - Live mode debug */}
               {!isDemo && (
                 <SniperDecisionPanel
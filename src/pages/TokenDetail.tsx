@@ -33,6 +33,7 @@ import { TokenTradingPanel } from '@/components/token/TokenTradingPanel';
 import { TokenSafetyInfo } from '@/components/token/TokenSafetyInfo';
 import { TokenPriceChart } from '@/components/token/TokenPriceChart';
 import { useToast } from '@/hooks/use-toast';
+import { useSellSimulation } from '@/hooks/useSellSimulation';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -75,6 +76,8 @@ export default function TokenDetail() {
   const [loading, setLoading] = useState(true);
   const [copied, setCopied] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  // Demo tokens are not on-chain - nothing to simulate
+  const sellSimulation = useSellSimulation(isDemo ? null : token?.address);
 
   useEffect(() => {
     // Try to get token data from URL params (passed from scanner)
@@ -540,11 +543,11 @@ export default function TokenDetail() {
               </TabsList>
 
               <TabsContent value="chart" className="mt-4">
-                <TokenPriceChart token={token} />
+                <TokenPriceChart token={token} demo={isDemo} />
               </TabsContent>
 
               <TabsContent value="safety" className="mt-4">
-                <TokenSafetyInfo token={token} />
+                <TokenSafetyInfo token={token} sellSimulation={isDemo ? undefined : sellSimulation} />
               </TabsContent>
 
               <TabsContent value="info" className="mt-4">
@@ -7,6 +7,8 @@ import { WalletConnect } from "@/components/WalletConnect";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { useSniperSettings } from "@/hooks/useSniperSettings";
+import { NotificationChannelsCard } from "@/components/notifications/NotificationChannelsCard";
+import { TradingWalletsCard } from "@/components/wallet/TradingWalletsCard";
 import { toast } from "sonner";
 import {
   Settings,
@@ -134,7 +136,7 @@ const UserSettings = forwardRef<HTMLDivElement, object>(function UserSettings(_p
                   Token Lists
                 </h1>
                 <p className="text-muted-foreground text-sm">
-                  Manage your token blacklist and whitelist
+                  Manage your token blacklist, whitelist and notification channels
                 </p>
               </div>
             </div>
@@ -319,6 +321,12 @@ const UserSettings = forwardRef<HTMLDivElement, object>(function UserSettings(_p
               </div>
             </div>
           </div>
+
+          {/* Trading Wallets */}
+          <TradingWalletsCard />
+
+          {/* Notification Channels */}
+          <NotificationChannelsCard />
         </div>
       </main>
     </div>
@@ -0,0 +1,48 @@
+/**
+ * Global fetch dispatcher for tests
+ * Kept free of library imports: setup.ts must install it before @solana/web3.js or the
+ * Supabase client load and capture globalThis.fetch
+ */
+
+export type FetchHandler = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+interface DispatcherSlot {
+  handler: FetchHandler;
+}
+
+const DISPATCHER_KEY = Symbol.for('trading-harness.fetch-dispatcher');
+
+export function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+// Default handler: any request a test didn't mock fails loudly instead of going live
+export const offlineHandler: FetchHandler = async (input, init) => {
+  throw new Error(`Unmocked network request in test: ${init?.method ?? 'GET'} ${requestUrl(input)}`);
+};
+
+function dispatcherSlot(): DispatcherSlot | undefined {
+  return (globalThis as unknown as Record<symbol, DispatcherSlot | undefined>)[DISPATCHER_KEY];
+}
+
+// Route globalThis.fetch through a swappable handler (idempotent across test files)
+export function installFetchDispatcher(): void {
+  if (dispatcherSlot()) return;
+
+  const slot: DispatcherSlot = { handler: offlineHandler };
+  (globalThis as unknown as Record<symbol, DispatcherSlot>)[DISPATCHER_KEY] = slot;
+  globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => slot.handler(input, init)) as typeof fetch;
+}
+
+export function setFetchHandler(handler: FetchHandler): void {
+  const slot = dispatcherSlot();
+  if (!slot) throw new Error('Fetch dispatcher not installed - is src/test/setup.ts configured?');
+  slot.handler = handler;
+}
+
+export function resetFetchHandler(): void {
+  const slot = dispatcherSlot();
+  if (slot) slot.handler = offlineHandler;
+}
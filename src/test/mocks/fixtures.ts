@@ -0,0 +1,103 @@
+/**
+ * Deterministic fixtures for the offline trading harness
+ * Addresses are derived from a seed byte so every run sees the same mints, pools and wallets
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { PROGRAM_IDS } from '@/lib/trading-engine/config';
+
+export interface RugCheckRisk {
+  name: string;
+  level: string;
+  description?: string;
+}
+
+export interface RugCheckReport {
+  score: number;
+  risks: RugCheckRisk[];
+  topHolders: { pct: number }[];
+  totalHolders: number;
+}
+
+export interface MockToken {
+  mint: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  priceUsd: number;
+  liquiditySol: number;
+  liquidityUsd: number;
+  poolAddress: string;
+  dexId: string;
+  tradable: boolean; // false = liquidity-check discards it and Jupiter has no route
+  rugcheck: RugCheckReport;
+}
+
+export type MockTokenInput = Partial<MockToken> & Pick<MockToken, 'mint'>;
+
+export const MOCK_SOL_PRICE_USD = 150;
+export const MOCK_RPC_URL = 'https://api.mainnet-beta.solana.com';
+
+// Base58 address built from 32 copies of the seed byte
+export function mockAddress(seed: number): string {
+  return new PublicKey(new Uint8Array(32).fill(seed)).toBase58();
+}
+
+export const MOCK_WALLET = mockAddress(7);
+
+export const CLEAN_RUGCHECK_REPORT: RugCheckReport = {
+  score: 12,
+  risks: [],
+  topHolders: [{ pct: 8.5 }, { pct: 4.1 }],
+  totalHolders: 420,
+};
+
+export const HONEYPOT_RUGCHECK_REPORT: RugCheckReport = {
+  score: 88,
+  risks: [
+    { name: 'Honeypot', level: 'danger', description: 'Sells are blocked by the token program' },
+    { name: 'Mint Authority still enabled', level: 'warn' },
+  ],
+  topHolders: [{ pct: 72 }],
+  totalHolders: 3,
+};
+
+export function createMockToken(input: MockTokenInput): MockToken {
+  const liquiditySol = input.liquiditySol ?? 500;
+  return {
+    symbol: 'MOCK',
+    name: 'Mock Token',
+    decimals: 9,
+    priceUsd: 0.0015,
+    poolAddress: mockAddress(200),
+    dexId: 'raydium',
+    tradable: true,
+    rugcheck: CLEAN_RUGCHECK_REPORT,
+    ...input,
+    liquiditySol,
+    liquidityUsd: input.liquidityUsd ?? liquiditySol * MOCK_SOL_PRICE_USD,
+  };
+}
+
+export interface MockPoolAccountOptions {
+  status?: number;      // 1 / 6 = initialized
+  openTime?: number;    // Unix seconds
+  baseMint?: string;
+  quoteMint?: string;
+  owner?: string;
+}
+
+// Raw Raydium AMM v4 account bytes laid out at the offsets rpc-pool-validator reads
+export function createRaydiumPoolAccountData(options: MockPoolAccountOptions = {}): Uint8Array {
+  const data = new Uint8Array(752);
+  const view = new DataView(data.buffer);
+  view.setUint8(0, options.status ?? 6);
+  view.setBigUint64(8, BigInt(options.openTime ?? 0), true);
+  view.setUint8(24, 9);
+  view.setUint8(25, 9);
+  data.set(new PublicKey(options.baseMint ?? mockAddress(101)).toBytes(), 72);
+  data.set(new PublicKey(options.quoteMint ?? mockAddress(102)).toBytes(), 104);
+  return data;
+}
+
+export const RAYDIUM_AMM_OWNER = PROGRAM_IDS.raydiumAmm;
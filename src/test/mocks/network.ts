@@ -0,0 +1,552 @@
+/**
+ * Offline network layer for the trading harness
+ * Emulates the Jupiter quote/swap/price/token APIs, RugCheck reports, DexScreener pairs,
+ * the liquidity-check / token-metadata edge functions and the Solana JSON-RPC methods the
+ * trading engine uses. Anything else throws so a test can never reach a live endpoint.
+ */
+
+import { PublicKey, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { SOL_MINT } from '@/lib/trading-engine/config';
+import { offlineHandler, requestUrl, setFetchHandler, type FetchHandler } from './fetch';
+import {
+  MOCK_RPC_URL,
+  MOCK_SOL_PRICE_USD,
+  createMockToken,
+  mockAddress,
+  type MockToken,
+  type MockTokenInput,
+} from './fixtures';
+
+export type MockService =
+  | 'jupiter-quote'
+  | 'jupiter-swap'
+  | 'jupiter-price'
+  | 'jupiter-tokens'
+  | 'rugcheck'
+  | 'dexscreener'
+  | 'liquidity-check'
+  | 'token-metadata'
+  | 'solana-rpc';
+
+export interface RecordedRequest {
+  service: MockService;
+  method: string;
+  url: string;
+  body: unknown;
+  rpcMethod?: string;
+}
+
+export interface MockAccount {
+  data: Uint8Array;
+  owner: string;
+  lamports?: number;
+  executable?: boolean;
+}
+
+export interface MockSignatureStatus {
+  slot: number;
+  err: unknown;
+  confirmationStatus: 'processed' | 'confirmed' | 'finalized';
+}
+
+export interface MockNetworkOptions {
+  solPriceUsd?: number;
+  slot?: number;
+  blockTime?: number;
+  rpcUrl?: string;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown[];
+}
+
+interface JupiterQuote {
+  inputMint: string;
+  inAmount: string;
+  outputMint: string;
+  outAmount: string;
+  slippageBps: number;
+}
+
+// ============================================
+// ENCODING HELPERS
+// ============================================
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function encodeBase58(bytes: Uint8Array): string {
+  const digits = [0];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  let leadingZeros = '';
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    leadingZeros += '1';
+  }
+  return leadingZeros + digits.reverse().map(d => BASE58_ALPHABET[d]).join('');
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let bin = '';
+  for (const byte of bytes) bin += String.fromCharCode(byte);
+  return globalThis.btoa(bin);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const bin = globalThis.atob(base64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function parseBody(init?: RequestInit): unknown {
+  if (typeof init?.body !== 'string') return null;
+  try {
+    return JSON.parse(init.body);
+  } catch {
+    return init.body;
+  }
+}
+
+// ============================================
+// MOCK NETWORK
+// ============================================
+
+export type MockNetwork = ReturnType<typeof createMockNetwork>;
+
+export function createMockNetwork(options: MockNetworkOptions = {}) {
+  const solPriceUsd = options.solPriceUsd ?? MOCK_SOL_PRICE_USD;
+  const rpcOrigin = new URL(options.rpcUrl ?? MOCK_RPC_URL).origin;
+
+  const tokens = new Map<string, MockToken>();
+  const accounts = new Map<string, MockAccount>();
+  const signatures = new Map<string, MockSignatureStatus>();
+  const failures = new Map<MockService, number[]>();
+  const requests: RecordedRequest[] = [];
+
+  let slot = options.slot ?? 250_000_000;
+  let blockTime = options.blockTime ?? 1_760_000_000;
+  let simulationError: unknown = null;
+  let sendError: string | null = null;
+  let signatureCounter = 0;
+
+  const priceInSol = (token: MockToken) => token.priceUsd / solPriceUsd;
+  const currentBlockhash = () => mockAddress((slot % 200) + 30);
+
+  function routeFor(url: URL, method: string): MockService | null {
+    if (url.hostname === 'lite-api.jup.ag' || url.hostname === 'quote-api.jup.ag') {
+      if (url.pathname.endsWith('/quote')) return 'jupiter-quote';
+      if (url.pathname.endsWith('/swap')) return 'jupiter-swap';
+      if (url.pathname.startsWith('/price')) return 'jupiter-price';
+      if (url.pathname.startsWith('/tokens')) return 'jupiter-tokens';
+    }
+    if (url.hostname === 'api.rugcheck.xyz') return 'rugcheck';
+    if (url.hostname === 'api.dexscreener.com') return 'dexscreener';
+    if (url.pathname === '/functions/v1/liquidity-check') return 'liquidity-check';
+    if (url.pathname === '/functions/v1/token-metadata') return 'token-metadata';
+    if (url.origin === rpcOrigin && method === 'POST') return 'solana-rpc';
+    return null;
+  }
+
+  // ---------- Jupiter ----------
+
+  function jupiterQuote(url: URL): Response {
+    const inputMint = url.searchParams.get('inputMint') ?? '';
+    const outputMint = url.searchParams.get('outputMint') ?? '';
+    const amount = Number(url.searchParams.get('amount') ?? '0');
+    const slippageBps = Number(url.searchParams.get('slippageBps') ?? '50');
+
+    const token = tokens.get(inputMint === SOL_MINT ? outputMint : inputMint);
+    if (!token || !token.tradable || amount <= 0) {
+      return json({ error: 'Could not find any route', errorCode: 'COULD_NOT_FIND_ANY_ROUTE' }, 400);
+    }
+
+    const outAmount = inputMint === SOL_MINT
+      ? Math.floor((amount / 1e9 / priceInSol(token)) * Math.pow(10, token.decimals))
+      : Math.floor((amount / Math.pow(10, token.decimals)) * priceInSol(token) * 1e9);
+    const label = token.dexId.includes('raydium') ? 'Raydium' : token.dexId;
+
+    return json({
+      inputMint,
+      inAmount: String(amount),
+      outputMint,
+      outAmount: String(outAmount),
+      otherAmountThreshold: String(Math.floor(outAmount * (1 - slippageBps / 10000))),
+      swapMode: 'ExactIn',
+      slippageBps,
+      priceImpactPct: '0.0012',
+      routePlan: [
+        {
+          swapInfo: {
+            ammKey: token.poolAddress,
+            label,
+            inputMint,
+            outputMint,
+            inAmount: String(amount),
+            outAmount: String(outAmount),
+            feeAmount: '0',
+            feeMint: inputMint,
+          },
+          percent: 100,
+        },
+      ],
+      contextSlot: slot,
+      timeTaken: 0.002,
+    });
+  }
+
+  function jupiterSwap(body: unknown): Response {
+    const { quoteResponse, userPublicKey, prioritizationFeeLamports } =
+      (body ?? {}) as { quoteResponse?: JupiterQuote; userPublicKey?: string; prioritizationFeeLamports?: number };
+
+    if (!quoteResponse?.outAmount || !userPublicKey) {
+      return json({ error: 'Invalid swap request' }, 400);
+    }
+
+    const payer = new PublicKey(userPublicKey);
+    const tokenMint = quoteResponse.inputMint === SOL_MINT ? quoteResponse.outputMint : quoteResponse.inputMint;
+    const pool = tokens.get(tokenMint)?.poolAddress ?? mockAddress(200);
+
+    // A real (unsigned) v0 transaction so signers can deserialize and forward it
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: currentBlockhash(),
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey: payer,
+          toPubkey: new PublicKey(pool),
+          lamports: quoteResponse.inputMint === SOL_MINT ? Number(quoteResponse.inAmount) : 0,
+        }),
+      ],
+    }).compileToV0Message();
+
+    return json({
+      swapTransaction: bytesToBase64(new VersionedTransaction(message).serialize()),
+      lastValidBlockHeight: slot + 150,
+      prioritizationFeeLamports: prioritizationFeeLamports ?? 0,
+    });
+  }
+
+  function jupiterPrice(url: URL): Response {
+    const ids = (url.searchParams.get('ids') ?? '').split(',').filter(Boolean);
+    const data: Record<string, { id: string; price: number }> = {};
+    for (const id of ids) {
+      if (id === SOL_MINT) {
+        data[id] = { id, price: solPriceUsd };
+        continue;
+      }
+      const token = tokens.get(id);
+      if (token?.tradable) data[id] = { id, price: token.priceUsd };
+    }
+    return json({ data, timeTaken: 0.001 });
+  }
+
+  function jupiterToken(url: URL): Response {
+    const mint = url.pathname.split('/').pop() ?? '';
+    const token = tokens.get(mint);
+    if (!token) return json({ error: 'Token not found' }, 404);
+    return json({ address: token.mint, symbol: token.symbol, name: token.name, decimals: token.decimals });
+  }
+
+  // ---------- RugCheck / DexScreener ----------
+
+  function rugcheckReport(url: URL): Response {
+    const match = url.pathname.match(/^\/v1\/tokens\/([^/]+)\/report/);
+    const token = match ? tokens.get(match[1]) : undefined;
+    if (!token) return json({ error: 'not found' }, 404);
+    return json({ mint: token.mint, ...token.rugcheck });
+  }
+
+  function dexPair(token: MockToken) {
+    return {
+      chainId: 'solana',
+      dexId: token.dexId,
+      pairAddress: token.poolAddress,
+      baseToken: { address: token.mint, name: token.name, symbol: token.symbol },
+      quoteToken: { address: SOL_MINT, name: 'Wrapped SOL', symbol: 'SOL' },
+      priceNative: String(priceInSol(token)),
+      priceUsd: String(token.priceUsd),
+      liquidity: { usd: token.liquidityUsd, base: token.liquidityUsd / 2 / token.priceUsd, quote: token.liquiditySol },
+      volume: { h24: token.liquidityUsd * 2 },
+      priceChange: { h24: 0 },
+      fdv: token.priceUsd * 1_000_000_000,
+      pairCreatedAt: (blockTime - 3600) * 1000,
+    };
+  }
+
+  function dexscreener(url: URL): Response {
+    const pairMatch = url.pathname.match(/^\/latest\/dex\/pairs\/solana\/([^/]+)/);
+    if (pairMatch) {
+      const token = [...tokens.values()].find(t => t.poolAddress === pairMatch[1] && t.tradable);
+      return json({ schemaVersion: '1.0.0', pairs: token ? [dexPair(token)] : null, pair: token ? dexPair(token) : null });
+    }
+
+    const mints = decodeURIComponent(url.pathname.replace(/^\/latest\/dex\/tokens\//, '')).split(',');
+    const pairs = mints
+      .map(mint => tokens.get(mint))
+      .filter((token): token is MockToken => !!token && token.tradable)
+      .map(dexPair);
+    return json({ schemaVersion: '1.0.0', pairs: pairs.length > 0 ? pairs : null });
+  }
+
+  // ---------- Edge functions ----------
+
+  function liquidityCheck(body: unknown): Response {
+    const { tokenAddress } = (body ?? {}) as { tokenAddress?: string };
+    const token = tokenAddress ? tokens.get(tokenAddress) : undefined;
+    if (!token || !token.tradable) {
+      return json({ status: 'DISCARDED', reason: 'No tradeable route found' });
+    }
+    return json({
+      status: 'TRADABLE',
+      source: token.dexId,
+      dexId: token.dexId,
+      tokenSymbol: token.symbol,
+      tokenName: token.name,
+      liquidity: token.liquiditySol,
+      poolAddress: token.poolAddress,
+      baseMint: SOL_MINT,
+      tokenStatus: { tradable: true, stage: 'LP_LIVE' },
+    });
+  }
+
+  function tokenMetadata(body: unknown): Response {
+    const { mint } = (body ?? {}) as { mint?: string };
+    const token = mint ? tokens.get(mint) : undefined;
+    if (!token) return json({ error: 'Mint not found' }, 404);
+    return json({ mint: token.mint, symbol: token.symbol, name: token.name, decimals: token.decimals });
+  }
+
+  // ---------- Solana JSON-RPC ----------
+
+  function rpcResult(request: JsonRpcRequest): { result?: unknown; error?: { code: number; message: string } } {
+    const params = request.params ?? [];
+    const context = { slot };
+
+    switch (request.method) {
+      case 'getSlot':
+        return { result: slot };
+      case 'getBlockHeight':
+        return { result: slot };
+      case 'getBlockTime':
+        return { result: blockTime };
+      case 'getHealth':
+        return { result: 'ok' };
+      case 'getVersion':
+        return { result: { 'solana-core': '2.1.0', 'feature-set': 0 } };
+      case 'getLatestBlockhash':
+        return { result: { context, value: { blockhash: currentBlockhash(), lastValidBlockHeight: slot + 150 } } };
+      case 'getBalance': {
+        const account = accounts.get(String(params[0]));
+        return { result: { context, value: account?.lamports ?? 0 } };
+      }
+      case 'getAccountInfo': {
+        const account = accounts.get(String(params[0]));
+        return {
+          result: {
+            context,
+            value: account
+              ? {
+                  data: [bytesToBase64(account.data), 'base64'],
+                  executable: account.executable ?? false,
+                  lamports: account.lamports ?? 6_124_800,
+                  owner: account.owner,
+                  rentEpoch: 0,
+                  space: account.data.length,
+                }
+              : null,
+          },
+        };
+      }
+      case 'simulateTransaction':
+        return {
+          result: {
+            context,
+            value: {
+              err: simulationError,
+              logs: simulationError ? ['Program log: simulation failed'] : ['Program log: simulation ok'],
+              accounts: null,
+              unitsConsumed: 42_000,
+              returnData: null,
+            },
+          },
+        };
+      case 'sendTransaction': {
+        if (sendError) return { error: { code: -32002, message: sendError } };
+        // Validates the payload is a real transaction before "landing" it
+        VersionedTransaction.deserialize(base64ToBytes(String(params[0])));
+        signatureCounter++;
+        const signature = encodeBase58(new Uint8Array(64).fill(signatureCounter % 255 + 1));
+        signatures.set(signature, { slot: slot + 1, err: null, confirmationStatus: 'confirmed' });
+        return { result: signature };
+      }
+      case 'getSignatureStatuses': {
+        const list = (params[0] as string[]) ?? [];
+        return {
+          result: {
+            context,
+            value: list.map(sig => {
+              const status = signatures.get(sig);
+              return status ? { ...status, confirmations: status.confirmationStatus === 'finalized' ? null : 1 } : null;
+            }),
+          },
+        };
+      }
+      default:
+        return { error: { code: -32601, message: `Method not found: ${request.method}` } };
+    }
+  }
+
+  function solanaRpc(body: unknown): Response {
+    const batch = Array.isArray(body);
+    const calls = (batch ? body : [body]) as JsonRpcRequest[];
+    const responses = calls.map(call => ({ jsonrpc: '2.0', id: call.id, ...rpcResult(call) }));
+    return json(batch ? responses : responses[0]);
+  }
+
+  // ---------- Dispatch ----------
+
+  const handler: FetchHandler = async (input, init) => {
+    const href = requestUrl(input);
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const url = new URL(href);
+    const service = routeFor(url, method);
+    if (!service) return offlineHandler(input, init);
+
+    const body = parseBody(init);
+    if (service === 'solana-rpc') {
+      for (const call of (Array.isArray(body) ? body : [body]) as JsonRpcRequest[]) {
+        requests.push({ service, method, url: href, body: call, rpcMethod: call?.method });
+      }
+    } else {
+      requests.push({ service, method, url: href, body });
+    }
+
+    const queued = failures.get(service);
+    if (queued && queued.length > 0) {
+      const status = queued.shift()!;
+      return json({ error: `Mock ${service} failure (${status})` }, status);
+    }
+
+    switch (service) {
+      case 'jupiter-quote':
+        return jupiterQuote(url);
+      case 'jupiter-swap':
+        return jupiterSwap(body);
+      case 'jupiter-price':
+        return jupiterPrice(url);
+      case 'jupiter-tokens':
+        return jupiterToken(url);
+      case 'rugcheck':
+        return rugcheckReport(url);
+      case 'dexscreener':
+        return dexscreener(url);
+      case 'liquidity-check':
+        return liquidityCheck(body);
+      case 'token-metadata':
+        return tokenMetadata(body);
+      case 'solana-rpc':
+        return solanaRpc(body);
+    }
+  };
+
+  const network = {
+    handler,
+    requests,
+
+    // Route globalThis.fetch to this network until the test ends
+    install() {
+      setFetchHandler(handler);
+      return network;
+    },
+
+    addToken(input: MockTokenInput): MockToken {
+      const token = createMockToken(input);
+      tokens.set(token.mint, token);
+      return token;
+    },
+
+    getToken(mint: string): MockToken | undefined {
+      return tokens.get(mint);
+    },
+
+    updateToken(mint: string, changes: Partial<Omit<MockToken, 'mint'>>): MockToken {
+      const token = tokens.get(mint);
+      if (!token) throw new Error(`Unknown mock token ${mint}`);
+      const updated = { ...token, ...changes };
+      tokens.set(mint, updated);
+      return updated;
+    },
+
+    setPrice(mint: string, priceUsd: number): MockToken {
+      return network.updateToken(mint, { priceUsd });
+    },
+
+    // Respond to the next `times` requests for a service with an HTTP error
+    failNext(service: MockService, status: number, times = 1) {
+      const queue = failures.get(service) ?? [];
+      for (let i = 0; i < times; i++) queue.push(status);
+      failures.set(service, queue);
+    },
+
+    setAccount(address: string, account: MockAccount | null) {
+      if (account) accounts.set(address, account);
+      else accounts.delete(address);
+    },
+
+    setSimulationError(err: unknown) {
+      simulationError = err;
+    },
+
+    setSendError(message: string | null) {
+      sendError = message;
+    },
+
+    setSignatureStatus(signature: string, status: MockSignatureStatus) {
+      signatures.set(signature, status);
+    },
+
+    advanceSlots(count: number) {
+      slot += count;
+      blockTime += Math.round(count * 0.4);
+    },
+
+    get slot() {
+      return slot;
+    },
+
+    get blockTime() {
+      return blockTime;
+    },
+
+    requestsTo(service: MockService): RecordedRequest[] {
+      return requests.filter(r => r.service === service);
+    },
+
+    rpcCalls(method?: string): RecordedRequest[] {
+      return requests.filter(r => r.service === 'solana-rpc' && (!method || r.rpcMethod === method));
+    },
+  };
+
+  return network;
+}
@@ -0,0 +1,41 @@
+/**
+ * Test wallet for the trading harness
+ * Stands in for the browser wallet: deserializes the Jupiter transaction, sends it through the
+ * mocked Solana RPC and confirms it with getSignatureStatuses
+ */
+
+import { Connection, VersionedTransaction } from '@solana/web3.js';
+import type { UnsignedTransaction } from '@/lib/trading-engine/types';
+import { MOCK_RPC_URL, MOCK_WALLET } from './fixtures';
+import { base64ToBytes } from './network';
+
+export interface MockWalletOptions {
+  address?: string;
+  rpcUrl?: string;
+  rejectWith?: string; // Simulates the user rejecting the signature prompt
+}
+
+export function createMockWallet(options: MockWalletOptions = {}) {
+  const address = options.address ?? MOCK_WALLET;
+  const connection = new Connection(options.rpcUrl ?? MOCK_RPC_URL, 'confirmed');
+  const signed: UnsignedTransaction[] = [];
+
+  const signTransaction = async (tx: UnsignedTransaction): Promise<{ signature: string; error?: string }> => {
+    signed.push(tx);
+    if (options.rejectWith) return { signature: '', error: options.rejectWith };
+
+    try {
+      const transaction = VersionedTransaction.deserialize(base64ToBytes(tx.serializedTransaction));
+      const signature = await connection.sendRawTransaction(transaction.serialize(), { skipPreflight: true });
+      const { value } = await connection.getSignatureStatuses([signature]);
+      if (!value[0] || value[0].err) {
+        return { signature, error: 'Transaction not confirmed' };
+      }
+      return { signature };
+    } catch (error) {
+      return { signature: '', error: error instanceof Error ? error.message : 'Send failed' };
+    }
+  };
+
+  return { address, connection, signed, signTransaction };
+}
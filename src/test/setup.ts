@@ -0,0 +1,30 @@
+/**
+ * Vitest setup - keeps every test offline
+ * Libraries like @solana/web3.js capture globalThis.fetch when they load, so a single
+ * dispatcher is installed up front and tests swap the handler behind it (see mocks/network.ts)
+ */
+
+import { afterEach } from 'vitest';
+import { installFetchDispatcher, resetFetchHandler } from './mocks/fetch';
+
+installFetchDispatcher();
+
+// Trading-engine tests run in the node environment (web3.js byte checks fail across jsdom's realm),
+// where the Supabase client still expects a localStorage for its session
+if (typeof globalThis.localStorage === 'undefined') {
+  const store = new Map<string, string>();
+  globalThis.localStorage = {
+    get length() {
+      return store.size;
+    },
+    key: (index: number) => [...store.keys()][index] ?? null,
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, String(value)),
+    removeItem: (key: string) => void store.delete(key),
+    clear: () => store.clear(),
+  };
+}
+
+afterEach(() => {
+  resetFetchHandler();
+});
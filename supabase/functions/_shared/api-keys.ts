@@ -2,6 +2,15 @@
 // This provides a single source of truth for API type to secret name mapping
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  decryptSecret,
+  deriveKeyring,
+  encryptSecret,
+  parseKeyring,
+  reencryptSecret,
+  withDecryptOnlyKeys,
+  type Keyring,
+} from "./key-encryption.ts";
 
 // Complete mapping of API types to their secret/environment variable names
 // Only includes APIs actually used in the application
@@ -46,79 +55,91 @@ export const API_VALIDATION_ENDPOINTS: Record<string, {
   liquidity_lock: { url: 'https://api.team.finance/v1/lockups', method: 'GET', requiresKey: true, skipHttpTest: true },
 };
 
-// Simple XOR encryption with a key derived from service role key
-// This provides actual encryption (not just encoding) while staying compatible with edge functions
-const getEncryptionKey = (): string => {
-  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-  // Use last 32 chars of service role key as encryption key (always available in edge functions)
-  return serviceKey.slice(-32);
-};
+// Keyring for stored API keys: API_KEY_ENCRYPTION_KEYS ("id:base64key,...", active = API_KEY_ENCRYPTION_KEY_ID
+// or the last entry). Without it a single key is derived from the service role key; once a keyring is
+// configured that derived key stays decrypt-only so values written before it can still be read and rotated.
+let keyringPromise: Promise<Keyring> | null = null;
 
-// XOR-based encryption - simple but effective when combined with RLS and service role access
-const xorEncrypt = (text: string, key: string): string => {
-  const textBytes = new TextEncoder().encode(text);
-  const keyBytes = new TextEncoder().encode(key);
-  const result = new Uint8Array(textBytes.length);
-  
-  for (let i = 0; i < textBytes.length; i++) {
-    result[i] = textBytes[i] ^ keyBytes[i % keyBytes.length];
-  }
-  
-  // Convert to hex string for storage
-  return Array.from(result).map(b => b.toString(16).padStart(2, '0')).join('');
+const getKeyring = (): Promise<Keyring> => {
+  keyringPromise ??= (async () => {
+    const configured = parseKeyring(Deno.env.get('API_KEY_ENCRYPTION_KEYS'), Deno.env.get('API_KEY_ENCRYPTION_KEY_ID'));
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const derived = serviceKey ? await deriveKeyring(serviceKey, 'srk') : null;
+    if (configured) return derived ? withDecryptOnlyKeys(configured, derived) : configured;
+    if (!derived) throw new Error('No API key encryption keyring configured');
+    return derived;
+  })();
+  return keyringPromise;
 };
 
-const xorDecrypt = (hexString: string, key: string): string => {
-  // Convert hex string back to bytes
-  const bytes = new Uint8Array(hexString.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
-  const keyBytes = new TextEncoder().encode(key);
-  const result = new Uint8Array(bytes.length);
-  
-  for (let i = 0; i < bytes.length; i++) {
-    result[i] = bytes[i] ^ keyBytes[i % keyBytes.length];
-  }
-  
-  return new TextDecoder().decode(result);
-};
+// Key of the legacy aes: XOR values - the last 32 chars of the service role key
+const getLegacyXorKey = (): string => (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').slice(-32);
 
-// Encryption/decryption for API keys stored in database
-// Uses XOR encryption with service role key derivation
-export const encryptKey = (key: string): string => {
-  const encryptionKey = getEncryptionKey();
-  if (!encryptionKey) {
-    // Fallback to base64 if no encryption key available (shouldn't happen in edge functions)
-    return 'enc:' + btoa(key);
-  }
-  const encrypted = xorEncrypt(key, encryptionKey);
-  return 'aes:' + encrypted; // New prefix to distinguish from old base64 encoding
-};
+export const getActiveEncryptionKeyId = async (): Promise<string> => (await getKeyring()).activeId;
 
-export const decryptKey = (encrypted: string | null): string | null => {
+export const encryptKey = async (key: string): Promise<string> => encryptSecret(key, await getKeyring());
+
+export const decryptKey = async (encrypted: string | null): Promise<string | null> => {
   if (!encrypted) return null;
-  
-  // Handle new AES-style encryption
-  if (encrypted.startsWith('aes:')) {
-    const encryptionKey = getEncryptionKey();
-    if (!encryptionKey) return null;
+  const keyring = await getKeyring();
+  const { value, needsReencryption } = await decryptSecret(encrypted, keyring, getLegacyXorKey());
+
+  // Migrate on read: legacy or rotated-out values are rewritten under the active key.
+  // Matching on the old ciphertext makes it a no-op when another request got there first.
+  if (value !== null && needsReencryption) {
     try {
-      return xorDecrypt(encrypted.substring(4), encryptionKey);
-    } catch {
-      return null;
+      const reencrypted = await reencryptSecret(encrypted, keyring, getLegacyXorKey());
+      if (reencrypted) {
+        const { error } = await getServiceClient()
+          .from('api_configurations')
+          .update({ api_key_encrypted: reencrypted })
+          .eq('api_key_encrypted', encrypted);
+        if (error) throw error;
+        console.log(`[ApiKeys] Re-encrypted a stored key under ${keyring.activeId}`);
+      }
+    } catch (error) {
+      console.error('[ApiKeys] Failed to re-encrypt stored key:', error);
     }
   }
-  
-  // Handle legacy base64 encoding for backward compatibility
-  if (encrypted.startsWith('enc:')) {
+
+  return value;
+};
+
+// Re-encrypt every stored key under the active master key (after adding a new key to the keyring)
+export async function rotateStoredKeys(): Promise<{ activeKeyId: string; rotated: number; current: number; failed: string[] }> {
+  const supabase = getServiceClient();
+  const keyring = await getKeyring();
+  const { data: configs, error } = await supabase
+    .from('api_configurations')
+    .select('id, api_type, api_key_encrypted')
+    .not('api_key_encrypted', 'is', null);
+  if (error) throw new Error(`Failed to load API configurations: ${error.message}`);
+
+  let rotated = 0;
+  let current = 0;
+  const failed: string[] = [];
+  for (const config of configs ?? []) {
     try {
-      return atob(encrypted.substring(4));
-    } catch {
-      return null;
+      const reencrypted = await reencryptSecret(config.api_key_encrypted, keyring, getLegacyXorKey());
+      if (!reencrypted) {
+        current++;
+        continue;
+      }
+      const { error: updateError } = await supabase
+        .from('api_configurations')
+        .update({ api_key_encrypted: reencrypted, updated_at: new Date().toISOString() })
+        .eq('id', config.id)
+        .eq('api_key_encrypted', config.api_key_encrypted);
+      if (updateError) throw updateError;
+      rotated++;
+    } catch (rotateError) {
+      console.error(`[ApiKeys] Failed to rotate key for ${config.api_type}:`, rotateError);
+      failed.push(config.api_type);
     }
   }
-  
-  // Not encrypted, return as-is
-  return encrypted;
-};
+
+  return { activeKeyId: keyring.activeId, rotated, current, failed };
+}
 
 // Validate internal service token for edge-to-edge calls
 export const validateInternalToken = (token: string | null): boolean => {
@@ -159,7 +180,7 @@ export async function getApiKey(apiType: string): Promise<string | null> {
     .maybeSingle();
   
   if (config?.api_key_encrypted) {
-    const decrypted = decryptKey(config.api_key_encrypted);
+    const decrypted = await decryptKey(config.api_key_encrypted);
     if (decrypted) return decrypted;
   }
   
@@ -189,7 +210,7 @@ export async function getApiConfig(apiType: string): Promise<{
   }
   
   const apiKey = config.api_key_encrypted 
-    ? decryptKey(config.api_key_encrypted) 
+    ? await decryptKey(config.api_key_encrypted) 
     : Deno.env.get(API_SECRET_MAPPING[apiType]) || null;
   
   return {
@@ -323,7 +344,7 @@ export async function getAllApiKeyStatus(): Promise<Record<string, {
   
   for (const [apiType, secretName] of Object.entries(API_SECRET_MAPPING)) {
     const dbKey = dbKeys.get(apiType);
-    const hasDbKey = dbKey && decryptKey(dbKey);
+    const hasDbKey = dbKey && await decryptKey(dbKey);
     const envValue = Deno.env.get(secretName);
     
     let source: 'database' | 'environment' | 'none' = 'none';
@@ -0,0 +1,237 @@
+/**
+ * Append-only audit trail shared by Edge Functions and the browser
+ * Pure logic: turning snipe decisions, risk checks, exit triggers and manual overrides into
+ * bot_audit_log rows, and serialising rows as JSON Lines for export
+ *
+ * Rows are immutable once written (enforced by a trigger); only account deletion removes them.
+ */
+
+import type { SnipeDecision } from './sniper-rules.ts';
+import type { ExitReason } from './exit-strategy.ts';
+import type { GuardrailStatus } from './risk-guardrails.ts';
+
+export type AuditEventType = 'snipe_decision' | 'risk_check' | 'exit_trigger' | 'manual_override' | 'trade' | 'activity';
+export type AuditLevel = 'info' | 'success' | 'warning' | 'error' | 'skip';
+export type AuditCategory = 'scan' | 'evaluate' | 'trade' | 'exit' | 'system';
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  snipe_decision: 'Snipe decision',
+  risk_check: 'Risk check',
+  exit_trigger: 'Exit trigger',
+  manual_override: 'Manual override',
+  trade: 'Trade',
+  activity: 'Activity',
+};
+
+export const AUDIT_EVENT_TYPES = Object.keys(AUDIT_EVENT_LABELS) as AuditEventType[];
+
+// Only browser-written rows may use this source (RLS rejects anything else from clients)
+export const CLIENT_AUDIT_SOURCE = 'client';
+
+export interface AuditEvent {
+  eventType: AuditEventType;
+  level: AuditLevel;
+  category: AuditCategory;
+  message: string;
+  details?: string | null;
+  tokenAddress?: string | null;
+  tokenSymbol?: string | null;
+  payload?: Record<string, unknown>;
+  source: string;
+  // Written at most once per user - repeated ticks for the same state are dropped
+  dedupeKey?: string | null;
+  // When it happened (defaults to now); created_at records when the row reached the server
+  occurredAt?: string;
+}
+
+// bot_audit_log insert
+export interface AuditEventRow {
+  user_id: string;
+  event_type: AuditEventType;
+  level: AuditLevel;
+  category: AuditCategory;
+  message: string;
+  details: string | null;
+  token_address: string | null;
+  token_symbol: string | null;
+  payload: Record<string, unknown>;
+  source: string;
+  dedupe_key: string | null;
+  occurred_at: string;
+}
+
+// bot_audit_log row as read back
+export interface AuditLogRecord extends AuditEventRow {
+  id: string;
+  created_at: string;
+}
+
+export function isAuditEventType(value: unknown): value is AuditEventType {
+  return typeof value === 'string' && value in AUDIT_EVENT_LABELS;
+}
+
+export function auditEventToRow(userId: string, event: AuditEvent): AuditEventRow {
+  return {
+    user_id: userId,
+    event_type: event.eventType,
+    level: event.level,
+    category: event.category,
+    message: event.message,
+    details: event.details ?? null,
+    token_address: event.tokenAddress ?? null,
+    token_symbol: event.tokenSymbol ?? null,
+    payload: event.payload ?? {},
+    source: event.source,
+    dedupe_key: event.dedupeKey ?? null,
+    occurred_at: event.occurredAt ?? new Date().toISOString(),
+  };
+}
+
+// Every rule reason is kept so the row explains the verdict on its own
+export function snipeDecisionAuditEvent(decision: SnipeDecision, source: string): AuditEvent {
+  const { token } = decision;
+  return {
+    eventType: 'snipe_decision',
+    level: decision.approved ? 'success' : 'skip',
+    category: 'evaluate',
+    message: decision.approved
+      ? `Approved ${token.symbol} for sniping`
+      : `Rejected ${token.symbol}${decision.failedRule ? ` at ${decision.failedRule}` : ''}`,
+    details: decision.reasons.join('\n'),
+    tokenAddress: token.address,
+    tokenSymbol: token.symbol,
+    payload: {
+      approved: decision.approved,
+      failedRule: decision.failedRule ?? null,
+      reasons: decision.reasons,
+      tradeParams: decision.tradeParams,
+      token: {
+        liquidity: token.liquidity,
+        riskScore: token.riskScore,
+        buyerPosition: token.buyerPosition ?? null,
+        priceUsd: token.priceUsd ?? null,
+      },
+    },
+    source,
+  };
+}
+
+export interface RiskCheckAuditInput {
+  tokenAddress: string;
+  tokenSymbol?: string | null;
+  passed: boolean;
+  riskScore: number;
+  rejectionReasons: string[];
+  checks: Record<string, unknown>;
+}
+
+export function riskCheckAuditEvent(check: RiskCheckAuditInput, source: string): AuditEvent {
+  const label = check.tokenSymbol || check.tokenAddress;
+  return {
+    eventType: 'risk_check',
+    level: check.passed ? 'success' : 'warning',
+    category: 'evaluate',
+    message: `Risk check ${check.passed ? 'passed' : 'failed'} for ${label} (score ${check.riskScore})`,
+    details: check.rejectionReasons.length ? check.rejectionReasons.join('\n') : null,
+    tokenAddress: check.tokenAddress,
+    tokenSymbol: check.tokenSymbol ?? null,
+    payload: {
+      passed: check.passed,
+      riskScore: check.riskScore,
+      rejectionReasons: check.rejectionReasons,
+      checks: check.checks,
+    },
+    source,
+  };
+}
+
+export type ExitTriggerOutcome = 'executed' | 'pending_signature' | 'no_route' | 'failed' | 'detected';
+
+export interface ExitTriggerAuditInput {
+  positionId: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  reason: ExitReason;
+  outcome: ExitTriggerOutcome;
+  profitLossPercent: number;
+  currentPrice: number;
+  sellFraction: number;
+  ladderSteps: number[];
+  // Ladder rungs already sold - a new rung is a new trigger
+  executedSteps: number;
+  txId?: string | null;
+  error?: string | null;
+}
+
+const EXIT_OUTCOME_LEVELS: Record<ExitTriggerOutcome, AuditLevel> = {
+  executed: 'success',
+  pending_signature: 'info',
+  no_route: 'error',
+  failed: 'error',
+  detected: 'info',
+};
+
+// auto-exit re-evaluates every tick, so a trigger is recorded once per position, rung and outcome
+export function exitTriggerAuditEvent(exit: ExitTriggerAuditInput, source: string): AuditEvent {
+  const pnl = `${exit.profitLossPercent >= 0 ? '+' : ''}${exit.profitLossPercent.toFixed(2)}%`;
+  const portion = exit.sellFraction < 1 ? ` (${(exit.sellFraction * 100).toFixed(1)}% of holdings)` : '';
+  return {
+    eventType: 'exit_trigger',
+    level: EXIT_OUTCOME_LEVELS[exit.outcome],
+    category: 'exit',
+    message: `${exit.reason} triggered for ${exit.tokenSymbol} at ${pnl}${portion} - ${exit.outcome.replace('_', ' ')}`,
+    details: exit.error ?? null,
+    tokenAddress: exit.tokenAddress,
+    tokenSymbol: exit.tokenSymbol,
+    payload: {
+      positionId: exit.positionId,
+      reason: exit.reason,
+      outcome: exit.outcome,
+      profitLossPercent: exit.profitLossPercent,
+      currentPrice: exit.currentPrice,
+      sellFraction: exit.sellFraction,
+      ladderSteps: exit.ladderSteps,
+      txId: exit.txId ?? null,
+    },
+    source,
+    dedupeKey: `exit:${exit.positionId}:${exit.reason}:${exit.executedSteps}:${exit.outcome}`,
+  };
+}
+
+export interface GuardrailSkipAuditInput {
+  tokenAddress: string;
+  tokenSymbol?: string | null;
+  tradeAmount: number;
+  reason: string;
+  statuses: GuardrailStatus[];
+  signalId?: string | null;
+}
+
+// A buy skipped because it would breach a guardrail; recorded once per signal and guardrail
+export function guardrailSkipAuditEvent(skip: GuardrailSkipAuditInput, source: string): AuditEvent {
+  const breached = skip.statuses.find((status) => status.breached);
+  return {
+    eventType: 'risk_check',
+    level: 'skip',
+    category: 'trade',
+    message: `Skipped buy of ${skip.tokenSymbol || skip.tokenAddress}: ${skip.reason}`,
+    tokenAddress: skip.tokenAddress,
+    tokenSymbol: skip.tokenSymbol ?? null,
+    payload: {
+      guardrail: breached?.id ?? null,
+      tradeAmount: skip.tradeAmount,
+      signalId: skip.signalId ?? null,
+      guardrails: skip.statuses,
+    },
+    source,
+    dedupeKey: skip.signalId ? `guardrail:${skip.signalId}:${breached?.id}` : null,
+  };
+}
+
+// One JSON object per line, oldest first, with a trailing newline
+export function auditRowsToJsonLines(rows: AuditLogRecord[]): string {
+  return [...rows]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+    .map((row) => `${JSON.stringify(row)}\n`)
+    .join('');
+}
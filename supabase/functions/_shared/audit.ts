@@ -0,0 +1,28 @@
+/**
+ * Server-side audit trail writes for Edge Functions
+ * Appends to bot_audit_log with the service client. Never throws: a failed audit write
+ * must not fail the trade path.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { auditEventToRow, type AuditEvent } from "./audit-trail.ts";
+
+export async function recordAuditEvents(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  events: AuditEvent[]
+): Promise<void> {
+  if (!events.length) return;
+  try {
+    // DO NOTHING on a repeated dedupe key; rows without one never conflict
+    const { error } = await supabase
+      .from('bot_audit_log')
+      .upsert(events.map((event) => auditEventToRow(userId, event)), {
+        onConflict: 'user_id,dedupe_key',
+        ignoreDuplicates: true,
+      });
+    if (error) console.error('[Audit] Failed to write audit events:', error.message);
+  } catch (error) {
+    console.error('[Audit] Audit write error:', error);
+  }
+}
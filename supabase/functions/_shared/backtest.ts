@@ -0,0 +1,288 @@
+/**
+ * Offline backtesting engine for Edge Functions and scripts
+ * Replays recorded trade_signals through the sniper entry rules and the auto-exit strategy
+ * Pure logic (no network / DB access) so it can run headless against fixture data
+ */
+
+import { evaluateSnipeRules, type SniperRuleSettings, type TokenData } from './sniper-rules.ts';
+import {
+  buildExitStrategy,
+  evaluateExitStrategy,
+  type ExitStrategyPosition,
+  type ExitStrategySettings,
+} from './exit-strategy.ts';
+
+// Subset of a trade_signals row
+export interface BacktestSignal {
+  id?: string;
+  token_address: string;
+  token_symbol: string;
+  token_name: string;
+  chain?: string | null;
+  created_at: string;
+  liquidity: number | null;
+  price_usd: number | null;
+  risk_score: number | null;
+  is_pump_fun?: boolean | null;
+  source?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface PricePoint {
+  timestamp: string;
+  price: number; // USD
+}
+
+// Price series keyed by token address, any order (sorted before replay)
+export type PriceSeries = Record<string, PricePoint[]>;
+
+export interface BacktestSettings extends SniperRuleSettings, ExitStrategySettings {
+  trade_amount: number;
+  max_concurrent_trades: number;
+  profit_take_percentage: number;
+  stop_loss_percentage: number;
+}
+
+export interface BacktestParameterSet {
+  name: string;
+  settings: Partial<BacktestSettings>;
+}
+
+export interface BacktestTrade {
+  signalId?: string;
+  tokenAddress: string;
+  symbol: string;
+  entryTime: string;
+  exitTime: string;
+  entryPrice: number;
+  exitPrice: number;
+  exitReasons: string[];
+  profitLossPercent: number; // Size-weighted across partial exits
+  profitLossSol: number;
+}
+
+export interface BacktestReport {
+  name: string;
+  settings: BacktestSettings;
+  signalsEvaluated: number;
+  approved: number;
+  rejected: number;
+  skippedNoPriceData: number;
+  skippedMaxConcurrent: number;
+  trades: BacktestTrade[];
+  wins: number;
+  losses: number;
+  winRate: number;            // % of closed trades with positive P&L
+  totalPnlSol: number;
+  avgPnlPercent: number;
+  maxDrawdownSol: number;     // Largest peak-to-trough drop of cumulative realized P&L
+  maxDrawdownPercent: number; // Same, vs capital at risk (trade_amount * max_concurrent_trades)
+  rejectionReasons: Record<string, number>;
+}
+
+// IMPORTANT: These MUST match the defaults in auto-sniper and useSniperSettings.ts
+export const DEFAULT_BACKTEST_SETTINGS: BacktestSettings = {
+  min_liquidity: 5,
+  profit_take_percentage: 100,
+  stop_loss_percentage: 20,
+  trade_amount: 0.1,
+  max_concurrent_trades: 3,
+  category_filters: ['animals', 'parody', 'trend', 'utility'],
+  token_blacklist: [],
+  token_whitelist: [],
+  max_risk_score: 70,
+  rule_config: [],
+  trailing_stop_enabled: false,
+  trailing_stop_percent: 25,
+  trailing_stop_activation_percent: 0,
+  take_profit_ladder: [],
+};
+
+function metaValue<T>(signal: BacktestSignal, key: string): T | undefined {
+  const value = signal.metadata?.[key];
+  return value === undefined || value === null ? undefined : value as T;
+}
+
+// Rebuild the scanner token the sniper saw from a recorded signal
+export function signalToToken(signal: BacktestSignal): TokenData {
+  const categories = metaValue<unknown[]>(signal, 'categories');
+  return {
+    address: signal.token_address,
+    name: signal.token_name,
+    symbol: signal.token_symbol,
+    chain: signal.chain || 'solana',
+    liquidity: Number(signal.liquidity ?? 0),
+    liquidityLocked: metaValue<boolean>(signal, 'liquidity_locked') === true,
+    lockPercentage: metaValue<number>(signal, 'lock_percentage') ?? null,
+    buyerPosition: metaValue<number>(signal, 'buyer_position') ?? null,
+    riskScore: Number(signal.risk_score ?? 0),
+    categories: Array.isArray(categories) ? categories.map(String) : [],
+    priceUsd: signal.price_usd ?? undefined,
+    isPumpFun: signal.is_pump_fun ?? undefined,
+    canSell: metaValue<boolean>(signal, 'can_sell'),
+    source: signal.source ?? undefined,
+  };
+}
+
+function sortedSeries(points: PricePoint[] | undefined): PricePoint[] {
+  return (points || [])
+    .filter((p) => Number.isFinite(p.price) && p.price > 0 && !Number.isNaN(Date.parse(p.timestamp)))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+// Walk the price series from entry until the exit strategy closes the position (or data runs out)
+function simulateTrade(
+  signal: BacktestSignal,
+  series: PricePoint[],
+  settings: BacktestSettings
+): BacktestTrade | null {
+  const signalTime = Date.parse(signal.created_at);
+  const entryIndex = series.findIndex((p) => Date.parse(p.timestamp) >= signalTime);
+  if (entryIndex === -1) return null;
+
+  const entryPrice = signal.price_usd && signal.price_usd > 0 ? signal.price_usd : series[entryIndex].price;
+  const strategy = buildExitStrategy(settings);
+  const position: ExitStrategyPosition = {
+    token_symbol: signal.token_symbol,
+    entry_price: entryPrice,
+    entry_price_usd: entryPrice,
+    profit_take_percent: strategy.profit_take_percent,
+    stop_loss_percent: strategy.stop_loss_percent,
+    peak_price: entryPrice,
+    remaining_fraction: 1,
+    executed_ladder_steps: [],
+  };
+
+  const exitReasons: string[] = [];
+  let weightedPnlPercent = 0;
+  let exitPoint = series[series.length - 1];
+
+  for (let i = entryIndex + 1; i < series.length; i++) {
+    const point = series[i];
+    const decision = evaluateExitStrategy(position, point.price, strategy);
+    position.peak_price = decision.peakPrice;
+    if (!decision.shouldExit || !decision.reason) continue;
+
+    const remaining = position.remaining_fraction ?? 1;
+    weightedPnlPercent += (remaining - decision.remainingFractionAfter) * decision.profitLossPercent;
+    position.remaining_fraction = decision.remainingFractionAfter;
+    position.executed_ladder_steps = [...(position.executed_ladder_steps || []), ...decision.ladderSteps];
+    exitReasons.push(decision.reason);
+
+    if (decision.remainingFractionAfter <= 0) {
+      exitPoint = point;
+      break;
+    }
+  }
+
+  // Whatever is still held when the data ends is marked to the last price
+  const remaining = position.remaining_fraction ?? 0;
+  if (remaining > 0) {
+    const lastPnl = ((exitPoint.price - entryPrice) / entryPrice) * 100;
+    weightedPnlPercent += remaining * lastPnl;
+    exitReasons.push('end_of_data');
+  }
+
+  return {
+    signalId: signal.id,
+    tokenAddress: signal.token_address,
+    symbol: signal.token_symbol,
+    entryTime: series[entryIndex].timestamp,
+    exitTime: exitPoint.timestamp,
+    entryPrice,
+    exitPrice: exitPoint.price,
+    exitReasons,
+    profitLossPercent: weightedPnlPercent,
+    profitLossSol: settings.trade_amount * (weightedPnlPercent / 100),
+  };
+}
+
+// Run one parameter set over the recorded signals
+// Network-backed rule parts (risk API, live route lookup) aren't replayed - only their local checks
+export async function runBacktest(
+  signals: BacktestSignal[],
+  prices: PriceSeries,
+  parameterSet: BacktestParameterSet
+): Promise<BacktestReport> {
+  const settings: BacktestSettings = { ...DEFAULT_BACKTEST_SETTINGS, ...parameterSet.settings };
+  const ordered = [...signals].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+
+  const trades: BacktestTrade[] = [];
+  const rejectionReasons: Record<string, number> = {};
+  let approved = 0;
+  let skippedNoPriceData = 0;
+  let skippedMaxConcurrent = 0;
+
+  for (const signal of ordered) {
+    const token = signalToToken(signal);
+    const outcome = await evaluateSnipeRules(token, settings);
+    if (!outcome.approved) {
+      const failedReason = outcome.reasons[outcome.reasons.length - 1];
+      rejectionReasons[failedReason] = (rejectionReasons[failedReason] || 0) + 1;
+      continue;
+    }
+    approved++;
+
+    // Respect max_concurrent_trades: positions still open at signal time block new entries
+    const signalTime = Date.parse(signal.created_at);
+    const openAtSignal = trades.filter((t) => Date.parse(t.exitTime) > signalTime).length;
+    if (openAtSignal >= settings.max_concurrent_trades) {
+      skippedMaxConcurrent++;
+      continue;
+    }
+
+    const trade = simulateTrade(signal, sortedSeries(prices[signal.token_address]), settings);
+    if (!trade) {
+      skippedNoPriceData++;
+      continue;
+    }
+    trades.push(trade);
+  }
+
+  // Realized equity curve in exit order for drawdown
+  let equity = 0;
+  let peakEquity = 0;
+  let maxDrawdownSol = 0;
+  for (const trade of [...trades].sort((a, b) => Date.parse(a.exitTime) - Date.parse(b.exitTime))) {
+    equity += trade.profitLossSol;
+    peakEquity = Math.max(peakEquity, equity);
+    maxDrawdownSol = Math.max(maxDrawdownSol, peakEquity - equity);
+  }
+
+  const wins = trades.filter((t) => t.profitLossSol > 0).length;
+  const capitalAtRisk = settings.trade_amount * settings.max_concurrent_trades;
+
+  return {
+    name: parameterSet.name,
+    settings,
+    signalsEvaluated: ordered.length,
+    approved,
+    rejected: ordered.length - approved,
+    skippedNoPriceData,
+    skippedMaxConcurrent,
+    trades,
+    wins,
+    losses: trades.length - wins,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    totalPnlSol: equity,
+    avgPnlPercent: trades.length > 0
+      ? trades.reduce((sum, t) => sum + t.profitLossPercent, 0) / trades.length
+      : 0,
+    maxDrawdownSol,
+    maxDrawdownPercent: capitalAtRisk > 0 ? (maxDrawdownSol / capitalAtRisk) * 100 : 0,
+    rejectionReasons,
+  };
+}
+
+// Compare several parameter sets over the same data
+export async function runBacktestSweep(
+  signals: BacktestSignal[],
+  prices: PriceSeries,
+  parameterSets: BacktestParameterSet[]
+): Promise<BacktestReport[]> {
+  const reports: BacktestReport[] = [];
+  for (const set of parameterSets) {
+    reports.push(await runBacktest(signals, prices, set));
+  }
+  return reports;
+}
@@ -0,0 +1,162 @@
+/**
+ * Headless bot runner state shared by the bot-runner Edge Function and the browser
+ * Pure logic: mapping bot_runner_state rows to the Scanner's bot state, the runner's cadence
+ * per scan speed, and the rolling list of tokens it has already evaluated
+ */
+
+export type ScanSpeed = 'slow' | 'normal' | 'fast';
+
+export interface BotState {
+  isBotActive: boolean;
+  autoEntryEnabled: boolean;
+  autoExitEnabled: boolean;
+  scanSpeed: ScanSpeed;
+  isPaused: boolean;
+  lastStartTime: number | null;
+  totalTrades: number;
+  successfulTrades: number;
+  failedTrades: number;
+}
+
+export const DEFAULT_BOT_STATE: BotState = {
+  isBotActive: false,
+  autoEntryEnabled: true,
+  autoExitEnabled: true,
+  scanSpeed: 'normal',
+  isPaused: false,
+  lastStartTime: null,
+  totalTrades: 0,
+  successfulTrades: 0,
+  failedTrades: 0,
+};
+
+// Same cadence as the Scanner's live scans
+export const SCAN_INTERVAL_MS: Record<ScanSpeed, number> = {
+  slow: 60_000,
+  normal: 30_000,
+  fast: 15_000,
+};
+
+// Token addresses remembered per user so each cycle only evaluates new listings
+export const SEEN_TOKEN_LIMIT = 200;
+
+// What one runner cycle did, stored on the row for the Scanner's live view
+export interface RunnerSummary {
+  scanned: number;
+  evaluated: number;
+  approved: number;
+  signals: number;
+  executed: number;
+  exitsTriggered: number;
+  exitsExecuted: number;
+}
+
+// bot_runner_state row as read back
+export interface BotRunnerRow {
+  user_id: string;
+  is_bot_active: boolean;
+  auto_entry_enabled: boolean;
+  auto_exit_enabled: boolean;
+  scan_speed: string;
+  is_paused: boolean;
+  last_start_time: string | null;
+  total_trades: number;
+  successful_trades: number;
+  failed_trades: number;
+  wallet_address: string | null;
+  seen_tokens: string[] | null;
+  last_run_at: string | null;
+  next_run_at: string;
+  last_summary: unknown;
+  last_error: string | null;
+  updated_at: string;
+}
+
+// The columns the Scanner controls; the run columns belong to bot-runner
+export type BotStateColumns = Pick<
+  BotRunnerRow,
+  | 'is_bot_active'
+  | 'auto_entry_enabled'
+  | 'auto_exit_enabled'
+  | 'scan_speed'
+  | 'is_paused'
+  | 'last_start_time'
+  | 'total_trades'
+  | 'successful_trades'
+  | 'failed_trades'
+>;
+
+export function isScanSpeed(value: unknown): value is ScanSpeed {
+  return value === 'slow' || value === 'normal' || value === 'fast';
+}
+
+export function botStateFromRow(row: Partial<BotRunnerRow> | null | undefined): BotState {
+  if (!row) return DEFAULT_BOT_STATE;
+  return {
+    isBotActive: row.is_bot_active ?? DEFAULT_BOT_STATE.isBotActive,
+    autoEntryEnabled: row.auto_entry_enabled ?? DEFAULT_BOT_STATE.autoEntryEnabled,
+    autoExitEnabled: row.auto_exit_enabled ?? DEFAULT_BOT_STATE.autoExitEnabled,
+    scanSpeed: isScanSpeed(row.scan_speed) ? row.scan_speed : DEFAULT_BOT_STATE.scanSpeed,
+    isPaused: row.is_paused ?? DEFAULT_BOT_STATE.isPaused,
+    lastStartTime: row.last_start_time ? Date.parse(row.last_start_time) : null,
+    totalTrades: row.total_trades ?? 0,
+    successfulTrades: row.successful_trades ?? 0,
+    failedTrades: row.failed_trades ?? 0,
+  };
+}
+
+// Only the fields present in the patch, so a toggle never overwrites counters the runner just bumped
+export function botStatePatchToRow(patch: Partial<BotState>): Partial<BotStateColumns> {
+  const row: Partial<BotStateColumns> = {};
+  if (patch.isBotActive !== undefined) row.is_bot_active = patch.isBotActive;
+  if (patch.autoEntryEnabled !== undefined) row.auto_entry_enabled = patch.autoEntryEnabled;
+  if (patch.autoExitEnabled !== undefined) row.auto_exit_enabled = patch.autoExitEnabled;
+  if (patch.scanSpeed !== undefined) row.scan_speed = patch.scanSpeed;
+  if (patch.isPaused !== undefined) row.is_paused = patch.isPaused;
+  if (patch.lastStartTime !== undefined) {
+    row.last_start_time = patch.lastStartTime === null ? null : new Date(patch.lastStartTime).toISOString();
+  }
+  if (patch.totalTrades !== undefined) row.total_trades = patch.totalTrades;
+  if (patch.successfulTrades !== undefined) row.successful_trades = patch.successfulTrades;
+  if (patch.failedTrades !== undefined) row.failed_trades = patch.failedTrades;
+  return row;
+}
+
+// Paused bots stop scanning and entering but keep watching their exits
+export function runnerPhases(state: BotState): { entries: boolean; exits: boolean } {
+  return {
+    entries: state.isBotActive && !state.isPaused && state.autoEntryEnabled,
+    exits: state.isBotActive && state.autoExitEnabled,
+  };
+}
+
+export function nextRunAt(speed: ScanSpeed, now = Date.now()): string {
+  return new Date(now + SCAN_INTERVAL_MS[speed]).toISOString();
+}
+
+export function unseenTokens<T extends { address: string }>(tokens: T[], seen: string[] | null | undefined): T[] {
+  const seenSet = new Set(seen ?? []);
+  return tokens.filter((t) => t.address && !seenSet.has(t.address));
+}
+
+// Newest addresses last; the oldest fall off once the list passes the limit
+export function rememberTokens(seen: string[] | null | undefined, addresses: string[], limit = SEEN_TOKEN_LIMIT): string[] {
+  const next = (seen ?? []).filter((a) => !addresses.includes(a));
+  next.push(...new Set(addresses));
+  return next.slice(-limit);
+}
+
+export function parseRunnerSummary(raw: unknown): RunnerSummary | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const input = raw as Record<string, unknown>;
+  const count = (key: keyof RunnerSummary) => (typeof input[key] === 'number' ? (input[key] as number) : 0);
+  return {
+    scanned: count('scanned'),
+    evaluated: count('evaluated'),
+    approved: count('approved'),
+    signals: count('signals'),
+    executed: count('executed'),
+    exitsTriggered: count('exitsTriggered'),
+    exitsExecuted: count('exitsExecuted'),
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * OHLCV candles shared by the token-candles Edge Function and the browser chart
+ * Pure logic: bucketing price samples into 1m/5m/15m/1h candles, GeckoTerminal OHLCV parsing,
+ * and placing the user's trades on the candles they fall in
+ *
+ * Samples are merged server-side by public.record_price_samples (same buckets as candleBucketStart).
+ */
+
+export type CandleResolution = '1m' | '5m' | '15m' | '1h';
+export type CandleSource = 'sampled' | 'geckoterminal';
+
+export const CANDLE_RESOLUTION_SECONDS: Record<CandleResolution, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+};
+
+export const CANDLE_RESOLUTIONS = Object.keys(CANDLE_RESOLUTION_SECONDS) as CandleResolution[];
+
+// record_price_samples rejects larger batches
+export const MAX_PRICE_SAMPLES_PER_CALL = 100;
+
+export const DEFAULT_CANDLE_LIMIT = 120;
+export const MAX_CANDLE_LIMIT = 500;
+
+export interface PriceSample {
+  tokenAddress: string;
+  priceUsd: number;
+  sampledAt: number; // ms
+}
+
+export interface Candle {
+  bucketStart: number; // ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volumeUsd: number;
+  sampleCount: number;
+  source: CandleSource;
+}
+
+// token_candles row
+export interface CandleRow {
+  token_address: string;
+  resolution: CandleResolution;
+  bucket_start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume_usd: number;
+  sample_count: number;
+  source: CandleSource;
+}
+
+// record_price_samples argument item (a type alias so it is assignable to Json)
+export type PriceSampleRow = {
+  token_address: string;
+  price_usd: number;
+  sampled_at: string;
+};
+
+export interface TradeMarker {
+  bucketStart: number;
+  side: 'buy' | 'sell';
+  priceUsd: number;
+  amount: number;
+  txHash: string | null;
+  createdAt: string;
+}
+
+// Subset of a trade_history row
+export interface MarkerTrade {
+  trade_type: string;
+  price_usd: number | null;
+  amount: number;
+  tx_hash: string | null;
+  created_at: string;
+}
+
+export function isCandleResolution(value: unknown): value is CandleResolution {
+  return typeof value === 'string' && value in CANDLE_RESOLUTION_SECONDS;
+}
+
+export function candleBucketStart(timestampMs: number, resolution: CandleResolution): number {
+  const size = CANDLE_RESOLUTION_SECONDS[resolution] * 1000;
+  return Math.floor(timestampMs / size) * size;
+}
+
+// Valid samples as record_price_samples arguments, split into batches the function accepts
+export function priceSampleBatches(samples: PriceSample[]): PriceSampleRow[][] {
+  const rows = samples
+    .filter((s) => Number.isFinite(s.priceUsd) && s.priceUsd > 0)
+    .map((s) => ({
+      token_address: s.tokenAddress,
+      price_usd: s.priceUsd,
+      sampled_at: new Date(s.sampledAt).toISOString(),
+    }));
+
+  const batches: PriceSampleRow[][] = [];
+  for (let i = 0; i < rows.length; i += MAX_PRICE_SAMPLES_PER_CALL) {
+    batches.push(rows.slice(i, i + MAX_PRICE_SAMPLES_PER_CALL));
+  }
+  return batches;
+}
+
+// In-memory equivalent of record_price_samples for one token (oldest candle first)
+export function aggregateSamples(samples: PriceSample[], resolution: CandleResolution): Candle[] {
+  const buckets = new Map<number, Candle>();
+  const ordered = [...samples]
+    .filter((s) => Number.isFinite(s.priceUsd) && s.priceUsd > 0)
+    .sort((a, b) => a.sampledAt - b.sampledAt);
+
+  for (const sample of ordered) {
+    const bucketStart = candleBucketStart(sample.sampledAt, resolution);
+    const candle = buckets.get(bucketStart);
+    if (!candle) {
+      buckets.set(bucketStart, {
+        bucketStart,
+        open: sample.priceUsd,
+        high: sample.priceUsd,
+        low: sample.priceUsd,
+        close: sample.priceUsd,
+        volumeUsd: 0,
+        sampleCount: 1,
+        source: 'sampled',
+      });
+      continue;
+    }
+    candle.high = Math.max(candle.high, sample.priceUsd);
+    candle.low = Math.min(candle.low, sample.priceUsd);
+    candle.close = sample.priceUsd;
+    candle.sampleCount += 1;
+  }
+
+  return [...buckets.values()].sort((a, b) => a.bucketStart - b.bucketStart);
+}
+
+/**
+ * Flat candles (open = high = low = close = previous close, no volume) for buckets nobody sampled,
+ * so the chart's time axis stays evenly spaced
+ */
+export function fillCandleGaps(candles: Candle[], resolution: CandleResolution): Candle[] {
+  const size = CANDLE_RESOLUTION_SECONDS[resolution] * 1000;
+  const filled: Candle[] = [];
+  for (const candle of candles) {
+    const previous = filled[filled.length - 1];
+    if (previous) {
+      for (let t = previous.bucketStart + size; t < candle.bucketStart; t += size) {
+        filled.push({ ...previous, bucketStart: t, open: previous.close, high: previous.close, low: previous.close, volumeUsd: 0, sampleCount: 0 });
+      }
+    }
+    filled.push(candle);
+  }
+  return filled;
+}
+
+export function candleFromRow(row: Pick<CandleRow, 'bucket_start' | 'open' | 'high' | 'low' | 'close' | 'volume_usd' | 'sample_count' | 'source'>): Candle {
+  return {
+    bucketStart: Date.parse(row.bucket_start),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volumeUsd: Number(row.volume_usd) || 0,
+    sampleCount: Number(row.sample_count) || 0,
+    source: row.source,
+  };
+}
+
+export function candleToRow(tokenAddress: string, resolution: CandleResolution, candle: Candle): CandleRow {
+  return {
+    token_address: tokenAddress,
+    resolution,
+    bucket_start: new Date(candle.bucketStart).toISOString(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume_usd: candle.volumeUsd,
+    sample_count: candle.sampleCount,
+    source: candle.source,
+  };
+}
+
+// GeckoTerminal /pools/{pool}/ohlcv/{timeframe}?aggregate= for a resolution
+export function geckoTerminalTimeframe(resolution: CandleResolution): { timeframe: 'minute' | 'hour'; aggregate: number } {
+  return resolution === '1h'
+    ? { timeframe: 'hour', aggregate: 1 }
+    : { timeframe: 'minute', aggregate: CANDLE_RESOLUTION_SECONDS[resolution] / 60 };
+}
+
+/**
+ * GeckoTerminal OHLCV response -> candles, oldest first.
+ * ohlcv_list entries are [unix seconds, open, high, low, close, volume USD], newest first.
+ */
+export function parseGeckoTerminalOhlcv(body: unknown, resolution: CandleResolution): Candle[] {
+  const list = (body as { data?: { attributes?: { ohlcv_list?: unknown[] } } } | null)?.data?.attributes?.ohlcv_list;
+  if (!Array.isArray(list)) return [];
+
+  const candles: Candle[] = [];
+  for (const entry of list) {
+    if (!Array.isArray(entry) || entry.length < 6) continue;
+    const [time, open, high, low, close, volume] = entry.map(Number);
+    if (![time, open, high, low, close].every(Number.isFinite) || close <= 0) continue;
+    candles.push({
+      bucketStart: candleBucketStart(time * 1000, resolution),
+      open,
+      high,
+      low,
+      close,
+      volumeUsd: Number.isFinite(volume) ? volume : 0,
+      sampleCount: 0,
+      source: 'geckoterminal',
+    });
+  }
+  return candles.sort((a, b) => a.bucketStart - b.bucketStart);
+}
+
+// Buys and sells with a USD price that fall inside the charted range, pinned to their candle
+export function tradeMarkers(trades: MarkerTrade[], candles: Candle[], resolution: CandleResolution): TradeMarker[] {
+  if (!candles.length) return [];
+  const first = candles[0].bucketStart;
+  const last = candles[candles.length - 1].bucketStart;
+
+  return trades
+    .filter((t) => (t.trade_type === 'buy' || t.trade_type === 'sell') && t.price_usd !== null && t.price_usd > 0)
+    .map((t) => ({
+      bucketStart: candleBucketStart(Date.parse(t.created_at), resolution),
+      side: t.trade_type as 'buy' | 'sell',
+      priceUsd: Number(t.price_usd),
+      amount: t.amount,
+      txHash: t.tx_hash,
+      createdAt: t.created_at,
+    }))
+    .filter((m) => m.bucketStart >= first && m.bucketStart <= last)
+    .sort((a, b) => a.bucketStart - b.bucketStart);
+}
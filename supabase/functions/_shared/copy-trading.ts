@@ -0,0 +1,214 @@
+/**
+ * Copy-trading helpers for Edge Functions
+ * Pure logic: leader swap detection from parsed RPC transactions, sizing and global limits
+ */
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Leader SOL changes below this are fees/rent, not swaps
+const MIN_SWAP_SOL = 0.001;
+
+export type CopySizingMode = 'fixed_sol' | 'leader_percent';
+
+export interface CopyLeader {
+  id: string;
+  user_id: string;
+  leader_address: string;
+  leader_name: string | null;
+  sizing_mode: CopySizingMode;
+  fixed_amount_sol: number;
+  leader_percent: number;
+  max_per_trade_sol: number;
+  copy_sells: boolean;
+  is_active: boolean;
+  last_signature: string | null;
+}
+
+// Global limits from admin_settings.copy_trading (stored as strings by the admin UI)
+export interface CopyTradingLimits {
+  enabled: boolean;
+  maxWalletsToFollow: number;
+  maxCopyAmount: number;     // SOL cap per copied trade
+  copyDelaySeconds: number;  // Wait before mirroring a leader trade
+  blacklistedWallets: string[];
+  whitelistedTokens: string[]; // Empty = any token
+}
+
+export interface LeaderSwap {
+  signature: string;
+  action: 'buy' | 'sell';
+  tokenAddress: string;
+  tokenAmount: number;   // UI amount the leader bought/sold
+  solAmount: number;     // SOL the leader spent/received
+  price: number;         // SOL per token
+  sellPercent: number | null; // % of the leader's holding sold (sells only)
+  blockTime: number | null;
+}
+
+// Minimal shape of a jsonParsed getTransaction result
+interface ParsedTokenBalance {
+  mint: string;
+  owner?: string;
+  uiTokenAmount?: { uiAmount: number | null; uiAmountString?: string };
+}
+
+export interface ParsedTransaction {
+  blockTime?: number | null;
+  meta?: {
+    err: unknown;
+    fee?: number;
+    preBalances?: number[];
+    postBalances?: number[];
+    preTokenBalances?: ParsedTokenBalance[];
+    postTokenBalances?: ParsedTokenBalance[];
+  } | null;
+  transaction?: {
+    message?: {
+      accountKeys?: (string | { pubkey: string })[];
+    };
+  };
+}
+
+function splitList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).map((s) => s.trim()).filter(Boolean);
+  if (typeof value !== 'string') return [];
+  return value.split(/[\s,]+/).map((s) => s.trim()).filter(Boolean);
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : fallback;
+}
+
+// IMPORTANT: Defaults MUST match copy_trading defaults in useAdminSettings.ts
+export function parseCopyTradingLimits(raw: unknown): CopyTradingLimits {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    enabled: value.enabled === true,
+    maxWalletsToFollow: Math.max(0, Math.floor(toNumber(value.maxWalletsToFollow, 10))),
+    maxCopyAmount: Math.max(0, toNumber(value.maxCopyAmount, 0.5)),
+    copyDelaySeconds: Math.max(0, toNumber(value.copyDelay, 0)),
+    blacklistedWallets: splitList(value.blacklistedWallets),
+    whitelistedTokens: splitList(value.whitelistedTokens),
+  };
+}
+
+function uiAmount(balance: ParsedTokenBalance | undefined): number {
+  if (!balance?.uiTokenAmount) return 0;
+  const amount = balance.uiTokenAmount.uiAmount ?? parseFloat(balance.uiTokenAmount.uiAmountString || '0');
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+// Detect a SOL <-> token swap from the leader's balance changes.
+// Returns null for failed transactions, transfers and multi-token swaps we can't mirror.
+export function detectLeaderSwap(
+  signature: string,
+  tx: ParsedTransaction | null,
+  leaderAddress: string
+): LeaderSwap | null {
+  const meta = tx?.meta;
+  if (!tx || !meta || meta.err) return null;
+
+  const keys = (tx.transaction?.message?.accountKeys || []).map((k) => (typeof k === 'string' ? k : k.pubkey));
+  const leaderIndex = keys.indexOf(leaderAddress);
+  if (leaderIndex === -1) return null;
+
+  // Native SOL delta (fee added back when the leader paid it)
+  const pre = meta.preBalances?.[leaderIndex] ?? 0;
+  const post = meta.postBalances?.[leaderIndex] ?? 0;
+  const fee = leaderIndex === 0 ? meta.fee ?? 0 : 0;
+  let solDelta = (post - pre + fee) / 1e9;
+
+  // Token deltas for accounts owned by the leader
+  const deltas = new Map<string, { pre: number; post: number }>();
+  for (const balance of meta.preTokenBalances || []) {
+    if (balance.owner !== leaderAddress) continue;
+    const entry = deltas.get(balance.mint) || { pre: 0, post: 0 };
+    entry.pre += uiAmount(balance);
+    deltas.set(balance.mint, entry);
+  }
+  for (const balance of meta.postTokenBalances || []) {
+    if (balance.owner !== leaderAddress) continue;
+    const entry = deltas.get(balance.mint) || { pre: 0, post: 0 };
+    entry.post += uiAmount(balance);
+    deltas.set(balance.mint, entry);
+  }
+
+  // Wrapped SOL counts as SOL
+  const wsol = deltas.get(SOL_MINT);
+  if (wsol) {
+    solDelta += wsol.post - wsol.pre;
+    deltas.delete(SOL_MINT);
+  }
+
+  const changed = [...deltas.entries()].filter(([, d]) => Math.abs(d.post - d.pre) > 0);
+  if (changed.length !== 1 || Math.abs(solDelta) < MIN_SWAP_SOL) return null;
+
+  const [tokenAddress, { pre: tokenPre, post: tokenPost }] = changed[0];
+  const tokenDelta = tokenPost - tokenPre;
+
+  // Buy: SOL out, token in. Sell: token out, SOL in. Anything else isn't a swap.
+  if (tokenDelta > 0 && solDelta < 0) {
+    const solAmount = -solDelta;
+    return {
+      signature,
+      action: 'buy',
+      tokenAddress,
+      tokenAmount: tokenDelta,
+      solAmount,
+      price: solAmount / tokenDelta,
+      sellPercent: null,
+      blockTime: tx.blockTime ?? null,
+    };
+  }
+
+  if (tokenDelta < 0 && solDelta > 0) {
+    const tokenAmount = -tokenDelta;
+    return {
+      signature,
+      action: 'sell',
+      tokenAddress,
+      tokenAmount,
+      solAmount: solDelta,
+      price: solDelta / tokenAmount,
+      sellPercent: tokenPre > 0 ? Math.min(100, (tokenAmount / tokenPre) * 100) : 100,
+      blockTime: tx.blockTime ?? null,
+    };
+  }
+
+  return null;
+}
+
+// SOL size for a mirrored buy: leader sizing, capped by the leader's and the platform's max
+export function computeCopyBuySize(
+  leader: Pick<CopyLeader, 'sizing_mode' | 'fixed_amount_sol' | 'leader_percent' | 'max_per_trade_sol'>,
+  leaderSolAmount: number,
+  limits: Pick<CopyTradingLimits, 'maxCopyAmount'>
+): number {
+  const raw = leader.sizing_mode === 'leader_percent'
+    ? leaderSolAmount * (toNumber(leader.leader_percent, 0) / 100)
+    : toNumber(leader.fixed_amount_sol, 0);
+
+  const caps = [toNumber(leader.max_per_trade_sol, Infinity), limits.maxCopyAmount].filter((c) => c > 0);
+  const size = Math.min(raw, ...caps);
+  return Number.isFinite(size) && size > 0 ? Math.floor(size * 1e6) / 1e6 : 0;
+}
+
+// Why a detected leader trade won't be mirrored (null = mirror it)
+export function getCopySkipReason(
+  swap: LeaderSwap,
+  leader: Pick<CopyLeader, 'copy_sells'>,
+  limits: CopyTradingLimits,
+  buySize: number
+): string | null {
+  if (limits.whitelistedTokens.length > 0 && !limits.whitelistedTokens.includes(swap.tokenAddress)) {
+    return 'Token not on platform copy-trading whitelist';
+  }
+  if (swap.action === 'sell' && !leader.copy_sells) {
+    return 'Sell mirroring disabled for this leader';
+  }
+  if (swap.action === 'buy' && buySize <= 0) {
+    return 'Copy size is zero after limits';
+  }
+  return null;
+}
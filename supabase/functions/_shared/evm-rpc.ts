@@ -0,0 +1,37 @@
+/**
+ * EVM RPC pools and execution adapters for Edge Functions
+ * Endpoints per chain: ETHEREUM_RPC_URL / BASE_RPC_URL / BSC_RPC_URL, then the chain's public RPC.
+ * Pools live at module scope like the Solana pool, so failover health survives warm requests.
+ */
+
+import { createRpcPool, maskRpcUrl, type RpcEndpointConfig, type RpcPool } from "./rpc-pool.ts";
+import { createEvmAdapter, EVM_CHAINS, type EvmChain, type EvmExecutionAdapter } from "./execution-adapter.ts";
+
+const ENV_RPC_URLS: Record<EvmChain, string> = {
+  ethereum: 'ETHEREUM_RPC_URL',
+  base: 'BASE_RPC_URL',
+  bsc: 'BSC_RPC_URL',
+};
+
+const pools = new Map<EvmChain, RpcPool>();
+
+export function getEvmRpc(chain: EvmChain): RpcPool {
+  const existing = pools.get(chain);
+  if (existing) return existing;
+
+  const endpoints: RpcEndpointConfig[] = [];
+  const envUrl = Deno.env.get(ENV_RPC_URLS[chain])?.trim();
+  if (envUrl?.startsWith('http')) endpoints.push({ name: 'env', url: envUrl, priority: 0 });
+  endpoints.push({ name: 'public', url: EVM_CHAINS[chain].publicRpcUrl, priority: endpoints.length });
+
+  const pool = createRpcPool(endpoints, {
+    onFailure: (endpoint, failure) => console.warn(`[RPC] ${chain} ${endpoint.name} failed (${failure.error}) - failing over`),
+  });
+  pools.set(chain, pool);
+  console.log(`[RPC] ${chain} pool: ${endpoints.map((e) => `${e.name}=${maskRpcUrl(e.url)}`).join(', ')}`);
+  return pool;
+}
+
+export function getEvmAdapter(chain: EvmChain): EvmExecutionAdapter {
+  return createEvmAdapter(chain, getEvmRpc(chain));
+}
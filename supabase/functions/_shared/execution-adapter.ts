@@ -0,0 +1,351 @@
+/**
+ * Chain-agnostic swap execution shared by Edge Functions and the browser
+ * An ExecutionAdapter quotes a swap and builds it unsigned for the user's wallet to sign.
+ * Solana (Jupiter / Raydium / Pump.fun) is implemented in trade-execution; EVM chains trade through
+ * a Uniswap-V2-style router with the adapter below, which only needs a JSON-RPC transport.
+ */
+
+import type { PriorityFeeEstimate } from './priority-fees.ts';
+
+export type EvmChain = 'ethereum' | 'base' | 'bsc';
+export type ExecutionChain = 'solana' | EvmChain;
+
+export interface EvmChainConfig {
+  chainId: number;
+  name: string;
+  nativeSymbol: string;
+  wrappedNative: string;
+  router: string;
+  routerName: string;
+  publicRpcUrl: string;
+  explorerUrl: string;
+  geckoTerminalNetwork: string;
+}
+
+export const EVM_CHAINS: Record<EvmChain, EvmChainConfig> = {
+  ethereum: {
+    chainId: 1,
+    name: 'Ethereum',
+    nativeSymbol: 'ETH',
+    wrappedNative: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+    routerName: 'uniswap-v2',
+    publicRpcUrl: 'https://ethereum-rpc.publicnode.com',
+    explorerUrl: 'https://etherscan.io',
+    geckoTerminalNetwork: 'eth',
+  },
+  base: {
+    chainId: 8453,
+    name: 'Base',
+    nativeSymbol: 'ETH',
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+    router: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24',
+    routerName: 'uniswap-v2',
+    publicRpcUrl: 'https://mainnet.base.org',
+    explorerUrl: 'https://basescan.org',
+    geckoTerminalNetwork: 'base',
+  },
+  bsc: {
+    chainId: 56,
+    name: 'BNB Smart Chain',
+    nativeSymbol: 'BNB',
+    wrappedNative: '0xbb4CdB9CBd36B01bD1cBaEf60aF814a3F6F0Ee75',
+    router: '0x10ED43C718714eb63d5aA57B78B54704E256024E',
+    routerName: 'pancakeswap-v2',
+    publicRpcUrl: 'https://bsc-dataseed.binance.org',
+    explorerUrl: 'https://bscscan.com',
+    geckoTerminalNetwork: 'bsc',
+  },
+};
+
+// Stands in for the chain's native coin as inputMint / outputMint on EVM trades (EIP-7528)
+export const EVM_NATIVE_TOKEN = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+export const EVM_NATIVE_DECIMALS = 18;
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+export function isEvmChain(chain: unknown): chain is EvmChain {
+  return typeof chain === 'string' && Object.prototype.hasOwnProperty.call(EVM_CHAINS, chain);
+}
+
+export function isExecutionChain(chain: unknown): chain is ExecutionChain {
+  return chain === 'solana' || isEvmChain(chain);
+}
+
+export function isEvmAddress(address: string | null | undefined): boolean {
+  return typeof address === 'string' && EVM_ADDRESS.test(address);
+}
+
+export function isEvmNativeToken(address: string | null | undefined): boolean {
+  return typeof address === 'string' && address.toLowerCase() === EVM_NATIVE_TOKEN.toLowerCase();
+}
+
+export function nativeSymbol(chain: ExecutionChain): string {
+  return chain === 'solana' ? 'SOL' : EVM_CHAINS[chain].nativeSymbol;
+}
+
+export function explorerTxUrl(chain: ExecutionChain, hash: string): string {
+  return chain === 'solana' ? `https://solscan.io/tx/${hash}` : `${EVM_CHAINS[chain].explorerUrl}/tx/${hash}`;
+}
+
+export interface SwapQuoteRequest {
+  inputToken: string;
+  outputToken: string;
+  amount: string; // Base units of inputToken
+  slippageBps: number;
+}
+
+export interface ExecutionQuote {
+  chain: ExecutionChain;
+  venue: string; // jupiter | raydium | pumpfun | uniswap-v2 | pancakeswap-v2
+  inputToken: string;
+  outputToken: string;
+  inputAmount: string;
+  outAmount: string;
+  minOutAmount: string;
+  priceImpactPct: number;
+  slippageBps: number;
+  raw?: unknown; // Venue payload buildSwap needs (Jupiter quote, Raydium compute, bonding curve)
+}
+
+export interface EvmTransactionRequest {
+  kind: 'approve' | 'swap';
+  chainId: number;
+  to: string;
+  data: string;
+  value: string; // Hex wei
+}
+
+export type UnsignedSwap =
+  | { chain: 'solana'; swapTransaction: string; priorityFee: PriorityFeeEstimate }
+  // Sent in order - an approve comes first when the router can't spend the token yet
+  | { chain: EvmChain; transactions: EvmTransactionRequest[] };
+
+export interface ExecutionAdapter {
+  chain: ExecutionChain;
+  nativeToken: string;
+  nativeDecimals: number;
+  nativeSymbol: string;
+  isTokenAddress: (address: string) => boolean;
+  tokenDecimals: (token: string) => Promise<number>;
+  quote: (request: SwapQuoteRequest) => Promise<ExecutionQuote>;
+  buildSwap: (quote: ExecutionQuote, wallet: string) => Promise<UnsignedSwap>;
+}
+
+export interface SolanaExecutionAdapter extends ExecutionAdapter {
+  chain: 'solana';
+  buildSwap: (quote: ExecutionQuote, wallet: string) => Promise<Extract<UnsignedSwap, { chain: 'solana' }>>;
+}
+
+export interface EvmExecutionAdapter extends ExecutionAdapter {
+  chain: EvmChain;
+  config: EvmChainConfig;
+  buildSwap: (quote: ExecutionQuote, wallet: string) => Promise<Extract<UnsignedSwap, { chain: EvmChain }>>;
+  tokenBalance: (token: string, owner: string) => Promise<bigint>;
+}
+
+// The slice of RpcPool the EVM adapter needs
+export interface EvmRpc {
+  call: <T>(method: string, params?: unknown[]) => Promise<T>;
+}
+
+// ---------- ABI encoding (only the handful of router / ERC-20 calls used here) ----------
+
+const SELECTORS = {
+  getAmountsOut: '0xd06ca61f',
+  swapExactETHForTokens: '0xb6f9de95', // ...SupportingFeeOnTransferTokens
+  swapExactTokensForETH: '0x791ac947', // ...SupportingFeeOnTransferTokens
+  approve: '0x095ea7b3',
+  allowance: '0xdd62ed3e',
+  decimals: '0x313ce567',
+  balanceOf: '0x70a08231',
+};
+
+function word(value: bigint | number): string {
+  return BigInt(value).toString(16).padStart(64, '0');
+}
+
+function addressWord(address: string): string {
+  return address.slice(2).toLowerCase().padStart(64, '0');
+}
+
+function addressArray(addresses: string[]): string {
+  return word(addresses.length) + addresses.map(addressWord).join('');
+}
+
+export function toHexQuantity(value: bigint): string {
+  return `0x${value.toString(16)}`;
+}
+
+export function encodeGetAmountsOut(amountIn: bigint, path: string[]): string {
+  return SELECTORS.getAmountsOut + word(amountIn) + word(0x40) + addressArray(path);
+}
+
+export function encodeSwapExactNativeForTokens(minOut: bigint, path: string[], to: string, deadline: number): string {
+  return SELECTORS.swapExactETHForTokens + word(minOut) + word(0x80) + addressWord(to) + word(deadline) + addressArray(path);
+}
+
+export function encodeSwapExactTokensForNative(
+  amountIn: bigint,
+  minOut: bigint,
+  path: string[],
+  to: string,
+  deadline: number
+): string {
+  return SELECTORS.swapExactTokensForETH + word(amountIn) + word(minOut) + word(0xa0) + addressWord(to) + word(deadline) + addressArray(path);
+}
+
+export function encodeApprove(spender: string, amount: bigint): string {
+  return SELECTORS.approve + addressWord(spender) + word(amount);
+}
+
+export function decodeUint(hex: string): bigint {
+  const body = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (!body) throw new Error('Empty call result');
+  return BigInt(`0x${body.slice(0, 64)}`);
+}
+
+export function decodeUintArray(hex: string): bigint[] {
+  const body = hex.startsWith('0x') ? hex.slice(2) : hex;
+  const words = body.match(/.{64}/g) ?? [];
+  const start = Number(BigInt(`0x${words[0] ?? '0'}`)) / 32;
+  const length = Number(BigInt(`0x${words[start] ?? '0'}`));
+  return words.slice(start + 1, start + 1 + length).map((w) => BigInt(`0x${w}`));
+}
+
+export function applySlippage(amount: bigint, slippageBps: number): bigint {
+  const bps = BigInt(Math.min(10_000, Math.max(0, Math.round(slippageBps))));
+  return (amount * (10_000n - bps)) / 10_000n;
+}
+
+// ---------- EVM adapter ----------
+
+const DEFAULT_DEADLINE_SECONDS = 300;
+// Quote a sliver of the trade as well and compare rates - a V2 pool's impact without reading reserves
+const SPOT_PROBE_DIVISOR = 1000n;
+
+export interface EvmAdapterOptions {
+  deadlineSeconds?: number;
+  now?: () => number;
+}
+
+export function createEvmAdapter(chain: EvmChain, rpc: EvmRpc, options: EvmAdapterOptions = {}): EvmExecutionAdapter {
+  const config = EVM_CHAINS[chain];
+  const now = options.now ?? Date.now;
+  const deadlineSeconds = options.deadlineSeconds ?? DEFAULT_DEADLINE_SECONDS;
+
+  const ethCall = (to: string, data: string) => rpc.call<string>('eth_call', [{ to, data }, 'latest']);
+
+  const amountsOut = async (amountIn: bigint, path: string[]): Promise<bigint> => {
+    let amounts: bigint[];
+    try {
+      amounts = decodeUintArray(await ethCall(config.router, encodeGetAmountsOut(amountIn, path)));
+    } catch (error) {
+      // Reverts when the pair doesn't exist or has no reserves
+      throw new Error(`ROUTE_NOT_FOUND: No ${config.routerName} pool on ${config.name} (${error instanceof Error ? error.message : error})`);
+    }
+    const out = amounts[amounts.length - 1];
+    if (!out) throw new Error(`ROUTE_NOT_FOUND: ${config.routerName} returned no output - insufficient liquidity`);
+    return out;
+  };
+
+  // Native <-> token through the wrapped native pair
+  const pathFor = (inputToken: string, outputToken: string): string[] => {
+    if (isEvmNativeToken(inputToken) && isEvmAddress(outputToken)) return [config.wrappedNative, outputToken];
+    if (isEvmAddress(inputToken) && isEvmNativeToken(outputToken)) return [inputToken, config.wrappedNative];
+    throw new Error(`Invalid ${config.name} swap: one side must be ${config.nativeSymbol} (${EVM_NATIVE_TOKEN})`);
+  };
+
+  const tokenBalance = async (token: string, owner: string): Promise<bigint> =>
+    decodeUint(await ethCall(token, SELECTORS.balanceOf + addressWord(owner)));
+
+  return {
+    chain,
+    config,
+    nativeToken: EVM_NATIVE_TOKEN,
+    nativeDecimals: EVM_NATIVE_DECIMALS,
+    nativeSymbol: config.nativeSymbol,
+    isTokenAddress: (address) => isEvmAddress(address) && !isEvmNativeToken(address),
+    tokenBalance,
+
+    async tokenDecimals(token) {
+      if (isEvmNativeToken(token)) return EVM_NATIVE_DECIMALS;
+      const decimals = Number(decodeUint(await ethCall(token, SELECTORS.decimals)));
+      if (!Number.isInteger(decimals) || decimals > 36) throw new Error(`Invalid decimals: ${decimals}`);
+      return decimals;
+    },
+
+    async quote(request) {
+      const path = pathFor(request.inputToken, request.outputToken);
+      const amountIn = BigInt(request.amount);
+      if (amountIn <= 0n) throw new Error('Invalid amount');
+
+      const probeIn = amountIn / SPOT_PROBE_DIVISOR;
+      const [out, probeOut] = await Promise.all([
+        amountsOut(amountIn, path),
+        probeIn > 0n ? amountsOut(probeIn, path).catch(() => 0n) : Promise.resolve(0n),
+      ]);
+      const spotOut = probeIn > 0n ? (probeOut * amountIn) / probeIn : 0n;
+      const priceImpactPct = spotOut > 0n && out < spotOut
+        ? Number(((spotOut - out) * 1_000_000n) / spotOut) / 10_000
+        : 0;
+
+      return {
+        chain,
+        venue: config.routerName,
+        inputToken: request.inputToken,
+        outputToken: request.outputToken,
+        inputAmount: amountIn.toString(),
+        outAmount: out.toString(),
+        minOutAmount: applySlippage(out, request.slippageBps).toString(),
+        priceImpactPct,
+        slippageBps: request.slippageBps,
+        raw: { path },
+      };
+    },
+
+    async buildSwap(quote, wallet) {
+      if (!isEvmAddress(wallet)) throw new Error(`Invalid ${config.name} wallet address`);
+      const path = pathFor(quote.inputToken, quote.outputToken);
+      const amountIn = BigInt(quote.inputAmount);
+      const minOut = BigInt(quote.minOutAmount);
+      const deadline = Math.floor(now() / 1000) + deadlineSeconds;
+
+      if (isEvmNativeToken(quote.inputToken)) {
+        return {
+          chain,
+          transactions: [{
+            kind: 'swap',
+            chainId: config.chainId,
+            to: config.router,
+            data: encodeSwapExactNativeForTokens(minOut, path, wallet, deadline),
+            value: toHexQuantity(amountIn),
+          }],
+        };
+      }
+
+      const allowance = decodeUint(
+        await ethCall(quote.inputToken, SELECTORS.allowance + addressWord(wallet) + addressWord(config.router))
+      );
+      const transactions: EvmTransactionRequest[] = [];
+      if (allowance < amountIn) {
+        // Exact-amount approval: the router never holds an open-ended allowance
+        transactions.push({
+          kind: 'approve',
+          chainId: config.chainId,
+          to: quote.inputToken,
+          data: encodeApprove(config.router, amountIn),
+          value: '0x0',
+        });
+      }
+      transactions.push({
+        kind: 'swap',
+        chainId: config.chainId,
+        to: config.router,
+        data: encodeSwapExactTokensForNative(amountIn, minOut, path, wallet, deadline),
+        value: '0x0',
+      });
+      return { chain, transactions };
+    },
+  };
+}
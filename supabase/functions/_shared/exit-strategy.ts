@@ -0,0 +1,237 @@
+/**
+ * Exit strategy evaluation for Edge Functions
+ * Pure logic (no network / DB access): fixed TP/SL, trailing stops and tiered take-profit ladders
+ */
+
+// A single rung of a take-profit ladder
+export interface TakeProfitStep {
+  profit_percent: number; // P&L % (vs entry) that triggers this step
+  sell_percent: number;   // % of the ORIGINAL position size to sell at this step
+}
+
+export interface ExitStrategy {
+  profit_take_percent: number;
+  stop_loss_percent: number;
+  trailing_stop_enabled: boolean;
+  trailing_stop_percent: number;            // Drawdown % from the high-water mark that closes the position
+  trailing_stop_activation_percent: number; // Peak gain % required before the trailing stop arms
+  take_profit_ladder: TakeProfitStep[];
+}
+
+export type ExitReason = 'take_profit' | 'stop_loss' | 'trailing_stop' | 'ladder_take_profit';
+
+// Position fields the evaluator needs (subset of the positions row)
+export interface ExitStrategyPosition {
+  token_symbol: string;
+  entry_price: number;
+  entry_price_usd: number | null;
+  profit_take_percent: number;
+  stop_loss_percent: number;
+  peak_price?: number | null;
+  remaining_fraction?: number | null;
+  executed_ladder_steps?: number[] | null;
+  exit_strategy?: Partial<ExitStrategy> | null;
+}
+
+// Settings fields the evaluator needs (subset of the user_sniper_settings row)
+export interface ExitStrategySettings {
+  profit_take_percentage?: number | null;
+  stop_loss_percentage?: number | null;
+  trailing_stop_enabled?: boolean | null;
+  trailing_stop_percent?: number | null;
+  trailing_stop_activation_percent?: number | null;
+  take_profit_ladder?: unknown;
+}
+
+export interface ExitDecision {
+  shouldExit: boolean;
+  reason: ExitReason | null;
+  profitLossPercent: number;
+  peakPrice: number;
+  sellFraction: number;           // Fraction of CURRENT holdings to sell (1 = close position)
+  ladderSteps: number[];          // Ladder step indices filled by this exit
+  remainingFractionAfter: number; // Fraction of the original size left after this exit
+}
+
+// IMPORTANT: These MUST match the defaults in useSniperSettings.ts
+export const DEFAULT_TRAILING_STOP_PERCENT = 25;
+export const DEFAULT_TRAILING_STOP_ACTIVATION_PERCENT = 0;
+
+// SANITY CHECK bounds for P&L (-100% to +10000%) - beyond this indicates a data error
+const MAX_REASONABLE_GAIN = 10000; // 100x = +10000%
+const MAX_REASONABLE_LOSS = -99.99; // Can't lose more than 100%
+
+// Remaining size below this fraction of the original is treated as dust and closed
+const DUST_FRACTION = 0.01;
+
+function toNumber(value: unknown, fallback: number): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : fallback;
+}
+
+// Parse a ladder from a JSONB column, dropping invalid rungs and sorting by trigger
+export function normalizeLadder(raw: unknown): TakeProfitStep[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((step) => ({
+      profit_percent: toNumber(step?.profit_percent, NaN),
+      sell_percent: toNumber(step?.sell_percent, NaN),
+    }))
+    .filter((step) =>
+      Number.isFinite(step.profit_percent) && step.profit_percent > 0 &&
+      Number.isFinite(step.sell_percent) && step.sell_percent > 0 && step.sell_percent <= 100
+    )
+    .sort((a, b) => a.profit_percent - b.profit_percent);
+}
+
+// Build a strategy snapshot from user settings (stored on positions.exit_strategy at entry)
+export function buildExitStrategy(
+  settings: ExitStrategySettings | null | undefined,
+  overrides: { profitTakePercent?: number; stopLossPercent?: number } = {}
+): ExitStrategy {
+  return {
+    profit_take_percent: toNumber(overrides.profitTakePercent ?? settings?.profit_take_percentage, 100),
+    stop_loss_percent: toNumber(overrides.stopLossPercent ?? settings?.stop_loss_percentage, 20),
+    trailing_stop_enabled: settings?.trailing_stop_enabled === true,
+    trailing_stop_percent: toNumber(settings?.trailing_stop_percent, DEFAULT_TRAILING_STOP_PERCENT),
+    trailing_stop_activation_percent: toNumber(
+      settings?.trailing_stop_activation_percent,
+      DEFAULT_TRAILING_STOP_ACTIVATION_PERCENT
+    ),
+    take_profit_ladder: normalizeLadder(settings?.take_profit_ladder),
+  };
+}
+
+// Resolve the strategy for a position: its own snapshot first, then the owner's current settings.
+// The position's TP/SL columns always win over the settings defaults.
+export function resolveExitStrategy(
+  position: ExitStrategyPosition,
+  settings: ExitStrategySettings | null | undefined
+): ExitStrategy {
+  const fallback = buildExitStrategy(settings, {
+    profitTakePercent: position.profit_take_percent,
+    stopLossPercent: position.stop_loss_percent,
+  });
+
+  const snapshot = position.exit_strategy;
+  if (!snapshot || typeof snapshot !== 'object') return fallback;
+
+  return {
+    profit_take_percent: toNumber(snapshot.profit_take_percent, fallback.profit_take_percent),
+    stop_loss_percent: toNumber(snapshot.stop_loss_percent, fallback.stop_loss_percent),
+    trailing_stop_enabled: typeof snapshot.trailing_stop_enabled === 'boolean'
+      ? snapshot.trailing_stop_enabled
+      : fallback.trailing_stop_enabled,
+    trailing_stop_percent: toNumber(snapshot.trailing_stop_percent, fallback.trailing_stop_percent),
+    trailing_stop_activation_percent: toNumber(
+      snapshot.trailing_stop_activation_percent,
+      fallback.trailing_stop_activation_percent
+    ),
+    take_profit_ladder: snapshot.take_profit_ladder !== undefined
+      ? normalizeLadder(snapshot.take_profit_ladder)
+      : fallback.take_profit_ladder,
+  };
+}
+
+// Check if (part of) a position should exit at the current price
+// CRITICAL: Use entry_price_usd for USD-based price comparisons
+// Order: stop loss -> trailing stop -> ladder rungs -> fixed take profit
+export function evaluateExitStrategy(
+  position: ExitStrategyPosition,
+  currentPrice: number,
+  strategy: ExitStrategy
+): ExitDecision {
+  const remainingFraction = Math.min(1, Math.max(0, toNumber(position.remaining_fraction, 1)));
+  const hold = (profitLossPercent: number, peakPrice: number): ExitDecision => ({
+    shouldExit: false,
+    reason: null,
+    profitLossPercent,
+    peakPrice,
+    sellFraction: 0,
+    ladderSteps: [],
+    remainingFractionAfter: remainingFraction,
+  });
+
+  // CRITICAL: Validate input prices to prevent overflow
+  if (!currentPrice || currentPrice <= 0 || !Number.isFinite(currentPrice)) {
+    console.log(`[ExitStrategy] Invalid current price for ${position.token_symbol}: ${currentPrice}`);
+    return hold(0, position.peak_price ?? 0);
+  }
+
+  // Use USD entry price if available (currentPrice from DexScreener is in USD)
+  const entryPrice = position.entry_price_usd ?? position.entry_price;
+  if (!entryPrice || entryPrice <= 0 || !Number.isFinite(entryPrice)) {
+    console.log(`[ExitStrategy] Invalid entry price for ${position.token_symbol}: entry_price_usd=${position.entry_price_usd}, entry_price=${position.entry_price}`);
+    return hold(0, position.peak_price ?? currentPrice);
+  }
+
+  let profitLossPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
+  if (profitLossPercent > MAX_REASONABLE_GAIN || profitLossPercent < MAX_REASONABLE_LOSS) {
+    console.log(`[ExitStrategy] Suspicious P&L for ${position.token_symbol}: ${profitLossPercent.toFixed(2)}% - entry: $${entryPrice}, current: $${currentPrice}`);
+    profitLossPercent = Math.max(MAX_REASONABLE_LOSS, Math.min(MAX_REASONABLE_GAIN, profitLossPercent));
+  }
+
+  // High-water mark: never below entry, only ratchets up
+  const peakPrice = Math.max(position.peak_price ?? entryPrice, entryPrice, currentPrice);
+
+  const fullExit = (reason: ExitReason, ladderSteps: number[] = []): ExitDecision => ({
+    shouldExit: true,
+    reason,
+    profitLossPercent,
+    peakPrice,
+    sellFraction: 1,
+    ladderSteps,
+    remainingFractionAfter: 0,
+  });
+
+  // 1. Hard stop loss always closes whatever is left
+  if (profitLossPercent <= -strategy.stop_loss_percent) {
+    return fullExit('stop_loss');
+  }
+
+  // 2. Trailing stop - arms once the peak gain reaches the activation threshold
+  if (strategy.trailing_stop_enabled && strategy.trailing_stop_percent > 0) {
+    const peakGainPercent = ((peakPrice - entryPrice) / entryPrice) * 100;
+    const trailTrigger = peakPrice * (1 - strategy.trailing_stop_percent / 100);
+    if (peakGainPercent >= strategy.trailing_stop_activation_percent && currentPrice <= trailTrigger) {
+      return fullExit('trailing_stop');
+    }
+  }
+
+  // 3. Ladder rungs - fill every rung the price has crossed that hasn't executed yet
+  const executed = new Set(position.executed_ladder_steps || []);
+  const ladder = strategy.take_profit_ladder;
+  const crossedSteps = ladder
+    .map((step, index) => ({ step, index }))
+    .filter(({ step, index }) => !executed.has(index) && profitLossPercent >= step.profit_percent);
+
+  if (crossedSteps.length > 0 && remainingFraction > 0) {
+    const ladderSteps = crossedSteps.map(({ index }) => index);
+    const requested = crossedSteps.reduce((sum, { step }) => sum + step.sell_percent / 100, 0);
+    const sellOfOriginal = Math.min(remainingFraction, requested);
+    const remainingAfter = remainingFraction - sellOfOriginal;
+
+    if (remainingAfter <= DUST_FRACTION) {
+      return fullExit('ladder_take_profit', ladderSteps);
+    }
+
+    return {
+      shouldExit: true,
+      reason: 'ladder_take_profit',
+      profitLossPercent,
+      peakPrice,
+      sellFraction: sellOfOriginal / remainingFraction,
+      ladderSteps,
+      remainingFractionAfter: remainingAfter,
+    };
+  }
+
+  // 4. Fixed take profit - only when the rest isn't riding a trailing stop
+  // and every ladder rung has already been filled
+  const ladderDone = ladder.every((_, index) => executed.has(index));
+  if (!strategy.trailing_stop_enabled && ladderDone && profitLossPercent >= strategy.profit_take_percent) {
+    return fullExit('take_profit');
+  }
+
+  return hold(profitLossPercent, peakPrice);
+}
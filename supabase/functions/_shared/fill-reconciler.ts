@@ -0,0 +1,141 @@
+/**
+ * Fill reconciliation for confirmed Solana swaps
+ * Reads what a transaction really moved from its pre/post SOL and token balances, so positions
+ * and trade history record the executed price (slippage, fees, partial fills) rather than the quote.
+ */
+
+export const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+export const LAMPORTS_PER_SOL = 1_000_000_000;
+export const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5000;
+// A fill this far from its quote means the quote was in another unit (e.g. USD), not slippage
+export const MAX_FILL_QUOTE_RATIO = 5;
+
+export type FillSide = 'buy' | 'sell';
+
+interface ParsedTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string; decimals: number };
+}
+
+// The subset of a jsonParsed getTransaction result the reconciler reads
+export interface ParsedSwapTransaction {
+  slot?: number;
+  meta: {
+    err: unknown;
+    fee: number;
+    preBalances: number[];
+    postBalances: number[];
+    preTokenBalances?: ParsedTokenBalance[] | null;
+    postTokenBalances?: ParsedTokenBalance[] | null;
+  } | null;
+  transaction: {
+    signatures?: string[];
+    message: { accountKeys: Array<string | { pubkey: string }> };
+  };
+}
+
+export interface SwapFill {
+  side: FillSide;
+  owner: string;
+  mint: string;
+  tokenAmount: number; // Tokens received (buy) or sold (sell)
+  solAmount: number; // SOL spent including fees (buy) or received net of fees (sell)
+  price: number; // SOL per token, fees included
+  networkFeeLamports: number;
+  priorityFeeLamports: number;
+  rentLamports: number; // Token account rent paid (+) or refunded (-); refundable, so kept out of solAmount
+}
+
+function accountKey(key: string | { pubkey: string }): string {
+  return typeof key === 'string' ? key : key.pubkey;
+}
+
+function uiAmount(balance: ParsedTokenBalance): number {
+  return Number(balance.uiTokenAmount.amount) / 10 ** balance.uiTokenAmount.decimals;
+}
+
+// Net change of the owner's token balances per mint, in UI units
+function ownerTokenDeltas(
+  pre: ParsedTokenBalance[],
+  post: ParsedTokenBalance[],
+  owner: string
+): Map<string, number> {
+  const deltas = new Map<string, number>();
+  for (const balance of post) {
+    if (balance.owner !== owner) continue;
+    deltas.set(balance.mint, (deltas.get(balance.mint) ?? 0) + uiAmount(balance));
+  }
+  for (const balance of pre) {
+    if (balance.owner !== owner) continue;
+    deltas.set(balance.mint, (deltas.get(balance.mint) ?? 0) - uiAmount(balance));
+  }
+  return deltas;
+}
+
+/**
+ * The swap as the fee payer experienced it. Wrapped SOL held in a persistent account counts as SOL;
+ * rent for token accounts opened or closed by the swap does not. Null when the transaction failed or
+ * moved nothing in the expected direction.
+ */
+export function parseSwapFill(tx: ParsedSwapTransaction | null, side: FillSide, mint?: string): SwapFill | null {
+  const meta = tx?.meta;
+  if (!tx || !meta || meta.err) return null;
+
+  const keys = tx.transaction.message.accountKeys.map(accountKey);
+  const owner = keys[0];
+  if (!owner) return null;
+
+  const pre = meta.preTokenBalances ?? [];
+  const post = meta.postTokenBalances ?? [];
+  const deltas = ownerTokenDeltas(pre, post, owner);
+
+  const direction = side === 'buy' ? 1 : -1;
+  const tokenMint = mint ?? [...deltas.entries()]
+    .filter(([m, delta]) => m !== WSOL_MINT && delta * direction > 0)
+    .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))[0]?.[0];
+  if (!tokenMint) return null;
+
+  const tokenAmount = (deltas.get(tokenMint) ?? 0) * direction;
+  if (!(tokenAmount > 0)) return null;
+
+  // Owner token accounts created (rent paid) or closed (rent refunded) by this transaction
+  const ownedIndexes = (balances: ParsedTokenBalance[]) =>
+    new Set(balances.filter((b) => b.owner === owner).map((b) => b.accountIndex));
+  const preOwned = ownedIndexes(pre);
+  const postOwned = ownedIndexes(post);
+  let rentLamports = 0;
+  for (const index of postOwned) if (!preOwned.has(index)) rentLamports += meta.postBalances[index] ?? 0;
+  for (const index of preOwned) if (!postOwned.has(index)) rentLamports -= meta.preBalances[index] ?? 0;
+
+  const nativeDelta = (meta.postBalances[0] ?? 0) - (meta.preBalances[0] ?? 0);
+  const wsolDelta = Math.round((deltas.get(WSOL_MINT) ?? 0) * LAMPORTS_PER_SOL);
+  const solLamports = (nativeDelta + wsolDelta + rentLamports) * -direction;
+  if (!(solLamports > 0)) return null;
+
+  const signatures = tx.transaction.signatures?.length || 1;
+  const networkFeeLamports = Math.min(meta.fee, BASE_FEE_LAMPORTS_PER_SIGNATURE * signatures);
+  const solAmount = solLamports / LAMPORTS_PER_SOL;
+
+  return {
+    side,
+    owner,
+    mint: tokenMint,
+    tokenAmount,
+    solAmount,
+    price: solAmount / tokenAmount,
+    networkFeeLamports,
+    priorityFeeLamports: Math.max(0, meta.fee - networkFeeLamports),
+    rentLamports,
+  };
+}
+
+// Percent the fill came in worse than quoted (negative = better): paid more on buys, got less on sells.
+// Null when there is no usable SOL quote to compare against.
+export function fillSlippagePct(side: FillSide, quotedPrice: number | null | undefined, fillPrice: number): number | null {
+  if (!quotedPrice || !(quotedPrice > 0) || !(fillPrice > 0)) return null;
+  const ratio = fillPrice / quotedPrice;
+  if (ratio > MAX_FILL_QUOTE_RATIO || ratio < 1 / MAX_FILL_QUOTE_RATIO) return null;
+  return (side === 'buy' ? ratio - 1 : 1 - ratio) * 100;
+}
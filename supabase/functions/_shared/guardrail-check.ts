@@ -0,0 +1,88 @@
+/**
+ * Buy guardrail checks for Edge Functions
+ * Loads the user's risk_settings limits, positions, today's sells and the last hour's buy fills with the
+ * service client and evaluates them - shared by trade-execution and the bot-runner's trade execution API buys.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isEvmChain, type ExecutionChain } from "./execution-adapter.ts";
+import {
+  computeGuardrailUsage,
+  evaluateGuardrails,
+  guardrailPositionsFilter,
+  parseGuardrailLimits,
+  startOfTradeHour,
+  startOfUtcDay,
+  GUARDRAIL_BUY_FILL_COLUMNS,
+  GUARDRAIL_POSITION_COLUMNS,
+  GUARDRAIL_SELL_COLUMNS,
+  type GuardrailBuyFillRow,
+  type GuardrailCheckResult,
+  type GuardrailPositionRow,
+  type GuardrailSellRow,
+} from "./risk-guardrails.ts";
+
+// Enforce the user's SOL guardrails for a buy of tradeSol; sells are never checked so exits stay possible.
+// EVM buys are paid in ETH / BNB, so only the daily loss and trade rate apply to them.
+export async function checkBuyGuardrails(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  tokenMint: string,
+  tradeSol: number,
+  chain: ExecutionChain = 'solana'
+): Promise<GuardrailCheckResult> {
+  const now = new Date();
+  const [
+    { data: riskSettings },
+    { data: rows, error: rowsError },
+    { data: sells, error: sellsError },
+    { data: buys, error: buysError },
+  ] = await Promise.all([
+    supabase
+      .from('risk_settings')
+      .select('max_daily_loss_sol, max_open_exposure_sol, max_token_exposure_sol, max_trades_per_hour')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('positions')
+      .select(GUARDRAIL_POSITION_COLUMNS)
+      .eq('user_id', userId)
+      .or(guardrailPositionsFilter(now)),
+    supabase
+      .from('trade_history')
+      .select(GUARDRAIL_SELL_COLUMNS)
+      .eq('user_id', userId)
+      .eq('trade_type', 'sell')
+      .gte('created_at', startOfUtcDay(now).toISOString()),
+    supabase
+      .from('position_fills')
+      .select(GUARDRAIL_BUY_FILL_COLUMNS)
+      .eq('user_id', userId)
+      .eq('side', 'buy')
+      .eq('status', 'confirmed')
+      .gte('created_at', startOfTradeHour(now).toISOString()),
+  ]);
+
+  if (rowsError) {
+    throw new Error(`Failed to load positions for guardrail check: ${rowsError.message}`);
+  }
+  if (sellsError) {
+    throw new Error(`Failed to load sells for guardrail check: ${sellsError.message}`);
+  }
+  if (buysError) {
+    throw new Error(`Failed to load buy fills for guardrail check: ${buysError.message}`);
+  }
+
+  const limits = parseGuardrailLimits(riskSettings);
+  const usage = computeGuardrailUsage(
+    (rows || []) as GuardrailPositionRow[],
+    now,
+    tokenMint,
+    (sells || []) as GuardrailSellRow[],
+    (buys || []) as GuardrailBuyFillRow[]
+  );
+  if (isEvmChain(chain)) {
+    return evaluateGuardrails({ ...limits, max_open_exposure_sol: 0, max_token_exposure_sol: 0 }, usage, 0, true);
+  }
+  return evaluateGuardrails(limits, usage, tradeSol);
+}
@@ -0,0 +1,367 @@
+/**
+ * On-chain holder analysis for risk-check and the browser trading engine
+ * Reads the mint and its largest token accounts over RPC: concentration excluding pools/burns,
+ * wallets funded from the same source, and what the deployer still holds
+ */
+
+import { encodeBase58 } from './jito.ts';
+import type { RpcPool } from './rpc-pool.ts';
+
+// Owners whose balances are not "holders": burn addresses and AMM authorities
+export const HOLDER_EXCLUDED_OWNERS: Record<string, string> = {
+  '1nc1nerator11111111111111111111111111111111': 'Incinerator',
+  '11111111111111111111111111111111': 'Burn (system program)',
+  '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1': 'Raydium AMM v4',
+  'GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL': 'Raydium CPMM',
+};
+
+// Token accounts owned by a PDA of one of these programs are pool / bonding-curve vaults
+export const POOL_PROGRAMS: Record<string, string> = {
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': 'Raydium AMM v4',
+  'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C': 'Raydium CPMM',
+  'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK': 'Raydium CLMM',
+  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P': 'Pump.fun',
+  'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA': 'PumpSwap',
+  'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo': 'Meteora DLMM',
+  'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB': 'Meteora pools',
+  'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc': 'Orca Whirlpool',
+};
+
+const TOP_HOLDERS = 10;
+// getSignaturesForAddress page size; a shorter page means we reached the account's first transaction
+const SIGNATURE_PAGE = 1000;
+
+export interface HolderRiskSettings {
+  holder_analysis_enabled: boolean;
+  max_top10_holder_percent: number;
+  max_dev_holding_percent: number;
+  min_cluster_wallets: number;
+  // Points added to the risk score when the signal trips; 0 ignores it
+  holder_concentration_weight: number;
+  holder_cluster_weight: number;
+  dev_holding_weight: number;
+}
+
+export const DEFAULT_HOLDER_RISK_SETTINGS: HolderRiskSettings = {
+  holder_analysis_enabled: true,
+  max_top10_holder_percent: 50,
+  max_dev_holding_percent: 10,
+  min_cluster_wallets: 3,
+  holder_concentration_weight: 25,
+  holder_cluster_weight: 20,
+  dev_holding_weight: 25,
+};
+
+export interface MintInfo {
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  supply: bigint;
+  decimals: number;
+}
+
+export interface TokenHolder {
+  owner: string;
+  amount: string; // raw units, stringified bigint so results stay JSON-safe
+  percent: number;
+}
+
+export interface ExcludedHolder extends TokenHolder {
+  label: string;
+}
+
+export interface HolderCluster {
+  funder: string;
+  wallets: string[];
+  percent: number;
+}
+
+export interface HolderAnalysis {
+  supply: string; // raw units, stringified bigint
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  // Distinct non-pool owners among the largest accounts (getTokenLargestAccounts returns at most 20)
+  holderCount: number;
+  topHolderPercent: number;
+  top10Percent: number;
+  topHolders: TokenHolder[];
+  excluded: ExcludedHolder[];
+  clusters: HolderCluster[];
+  clusteredPercent: number;
+  deployer: string | null;
+  devHoldingPercent: number | null;
+}
+
+export interface HolderRiskScore {
+  points: number;
+  reasons: string[];
+  concentrationTripped: boolean;
+  clusterTripped: boolean;
+  devHoldingTripped: boolean;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const bin = atob(base64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+function readU64(bytes: Uint8Array, offset: number): bigint {
+  let value = 0n;
+  for (let i = 7; i >= 0; i--) value = (value << 8n) | BigInt(bytes[offset + i]);
+  return value;
+}
+
+function readU32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)) + bytes[offset + 3] * 0x1000000;
+}
+
+function readOptionalKey(bytes: Uint8Array, offset: number): string | null {
+  return readU32(bytes, offset) === 1 ? encodeBase58(bytes.slice(offset + 4, offset + 36)) : null;
+}
+
+/**
+ * SPL Token / Token-2022 mint layout: COption<Pubkey> mint authority (36), u64 supply,
+ * u8 decimals, bool initialized, COption<Pubkey> freeze authority (36)
+ */
+export function parseMintAccount(base64Data: string): MintInfo | null {
+  const bytes = base64ToBytes(base64Data);
+  if (bytes.length < 82) return null;
+  return {
+    mintAuthority: readOptionalKey(bytes, 0),
+    supply: readU64(bytes, 36),
+    decimals: bytes[44],
+    freezeAuthority: readOptionalKey(bytes, 46),
+  };
+}
+
+// SPL token account layout: mint (32), owner (32), u64 amount
+export function parseTokenAccount(base64Data: string): { mint: string; owner: string; amount: bigint } | null {
+  const bytes = base64ToBytes(base64Data);
+  if (bytes.length < 72) return null;
+  return {
+    mint: encodeBase58(bytes.slice(0, 32)),
+    owner: encodeBase58(bytes.slice(32, 64)),
+    amount: readU64(bytes, 64),
+  };
+}
+
+export function holderPercent(amount: bigint, supply: bigint): number {
+  if (supply <= 0n) return 0;
+  // Basis points of a basis point keeps four decimals without leaving bigint
+  return Number((amount * 1_000_000n) / supply) / 10_000;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Split token balances into holders and excluded (pool / burn) owners and total them per owner,
+ * largest first. poolOwners maps an owner to a label when its account belongs to an AMM program.
+ */
+export function computeHolderDistribution(
+  balances: { owner: string; amount: bigint }[],
+  supply: bigint,
+  poolOwners: Record<string, string> = {}
+): { holders: TokenHolder[]; excluded: ExcludedHolder[] } {
+  const totals = new Map<string, bigint>();
+  for (const { owner, amount } of balances) {
+    totals.set(owner, (totals.get(owner) ?? 0n) + amount);
+  }
+
+  const holders: TokenHolder[] = [];
+  const excluded: ExcludedHolder[] = [];
+  const largestFirst = [...totals.entries()].sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0));
+  for (const [owner, amount] of largestFirst) {
+    if (amount <= 0n) continue;
+    const holder = { owner, amount: amount.toString(), percent: holderPercent(amount, supply) };
+    const label = HOLDER_EXCLUDED_OWNERS[owner] ?? poolOwners[owner];
+    if (label) excluded.push({ ...holder, label });
+    else holders.push(holder);
+  }
+
+  return { holders, excluded };
+}
+
+// Group holders by the wallet that funded them; only groups of two or more are clusters
+export function detectFundingClusters(holders: TokenHolder[], funders: Record<string, string | null>): HolderCluster[] {
+  const groups = new Map<string, TokenHolder[]>();
+  for (const holder of holders) {
+    const funder = funders[holder.owner];
+    if (!funder || funder === holder.owner) continue;
+    groups.set(funder, [...(groups.get(funder) ?? []), holder]);
+  }
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length >= 2)
+    .map(([funder, members]) => ({
+      funder,
+      wallets: members.map((m) => m.owner),
+      percent: round2(members.reduce((sum, m) => sum + m.percent, 0)),
+    }))
+    .sort((a, b) => b.wallets.length - a.wallets.length || b.percent - a.percent);
+}
+
+export function parseHolderRiskSettings(row: Partial<Record<keyof HolderRiskSettings, unknown>> | null | undefined): HolderRiskSettings {
+  const num = (value: unknown, fallback: number) => {
+    const n = Number(value);
+    return value !== null && value !== undefined && Number.isFinite(n) && n >= 0 ? n : fallback;
+  };
+  const d = DEFAULT_HOLDER_RISK_SETTINGS;
+  return {
+    holder_analysis_enabled: row?.holder_analysis_enabled !== false,
+    max_top10_holder_percent: num(row?.max_top10_holder_percent, d.max_top10_holder_percent),
+    max_dev_holding_percent: num(row?.max_dev_holding_percent, d.max_dev_holding_percent),
+    min_cluster_wallets: Math.max(2, Math.floor(num(row?.min_cluster_wallets, d.min_cluster_wallets))),
+    holder_concentration_weight: num(row?.holder_concentration_weight, d.holder_concentration_weight),
+    holder_cluster_weight: num(row?.holder_cluster_weight, d.holder_cluster_weight),
+    dev_holding_weight: num(row?.dev_holding_weight, d.dev_holding_weight),
+  };
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+// Risk points and reasons for each holder signal over its threshold (signals with weight 0 are ignored)
+export function scoreHolderRisk(analysis: HolderAnalysis, settings: HolderRiskSettings): HolderRiskScore {
+  const reasons: string[] = [];
+  let points = 0;
+
+  const concentrationTripped =
+    settings.holder_concentration_weight > 0 && analysis.top10Percent > settings.max_top10_holder_percent;
+  if (concentrationTripped) {
+    points += settings.holder_concentration_weight;
+    reasons.push(`Top 10 holders own ${analysis.top10Percent.toFixed(1)}% (max ${settings.max_top10_holder_percent}%)`);
+  }
+
+  const largest = analysis.clusters[0];
+  const clusterTripped =
+    settings.holder_cluster_weight > 0 && !!largest && largest.wallets.length >= settings.min_cluster_wallets;
+  if (clusterTripped) {
+    points += settings.holder_cluster_weight;
+    reasons.push(
+      `${largest.wallets.length} top holders funded by ${shortAddress(largest.funder)} hold ${largest.percent.toFixed(1)}%`
+    );
+  }
+
+  const devHoldingTripped =
+    settings.dev_holding_weight > 0 &&
+    analysis.devHoldingPercent !== null &&
+    analysis.devHoldingPercent > settings.max_dev_holding_percent;
+  if (devHoldingTripped) {
+    points += settings.dev_holding_weight;
+    reasons.push(
+      `Deployer ${shortAddress(analysis.deployer ?? '')} still holds ${analysis.devHoldingPercent?.toFixed(1)}% ` +
+      `(max ${settings.max_dev_holding_percent}%)`
+    );
+  }
+
+  return { points, reasons, concentrationTripped, clusterTripped, devHoldingTripped };
+}
+
+type RpcCaller = Pick<RpcPool, 'call'>;
+
+interface AccountInfoValue {
+  data: [string, string];
+  owner: string;
+}
+
+// Fee payer of the oldest transaction we can see for an address (null when it has more history than one page)
+async function firstSigner(rpc: RpcCaller, address: string): Promise<string | null> {
+  const signatures = await rpc.call<{ signature: string }[]>('getSignaturesForAddress', [address, { limit: SIGNATURE_PAGE }]);
+  if (!signatures?.length || signatures.length >= SIGNATURE_PAGE) return null;
+
+  const tx = await rpc.call<{ transaction?: { message?: { accountKeys?: (string | { pubkey: string })[] } } } | null>(
+    'getTransaction',
+    [signatures[signatures.length - 1].signature, { encoding: 'json', maxSupportedTransactionVersion: 0 }]
+  );
+  const payer = tx?.transaction?.message?.accountKeys?.[0];
+  return typeof payer === 'string' ? payer : payer?.pubkey ?? null;
+}
+
+async function ownerBalance(rpc: RpcCaller, owner: string, mint: string): Promise<bigint> {
+  const result = await rpc.call<{ value: { account: AccountInfoValue }[] }>('getTokenAccountsByOwner', [
+    owner,
+    { mint },
+    { encoding: 'base64' },
+  ]);
+  return (result?.value ?? []).reduce((sum, { account }) => sum + (parseTokenAccount(account.data[0])?.amount ?? 0n), 0n);
+}
+
+/**
+ * Full holder analysis for a mint. excludeOwners adds known pool accounts (e.g. the Pump.fun bonding curve).
+ * Funding lookups cover the top holders only; a holder whose first transaction we can't see has no funder.
+ * distributionOnly skips the funding and deployer lookups (about two RPC calls per top holder).
+ */
+export async function analyzeTokenHolders(
+  rpc: RpcCaller,
+  mint: string,
+  options: { excludeOwners?: Record<string, string>; distributionOnly?: boolean } = {}
+): Promise<HolderAnalysis> {
+  const [mintAccount, largest] = await Promise.all([
+    rpc.call<{ value: AccountInfoValue | null }>('getAccountInfo', [mint, { encoding: 'base64' }]),
+    rpc.call<{ value: { address: string }[] }>('getTokenLargestAccounts', [mint]),
+  ]);
+
+  const mintInfo = mintAccount?.value ? parseMintAccount(mintAccount.value.data[0]) : null;
+  if (!mintInfo) throw new Error('Mint account not found');
+
+  const tokenAccounts = (largest?.value ?? []).map((a) => a.address);
+  const accounts = tokenAccounts.length
+    ? await rpc.call<{ value: (AccountInfoValue | null)[] }>('getMultipleAccounts', [tokenAccounts, { encoding: 'base64' }])
+    : { value: [] };
+  const balances = (accounts?.value ?? [])
+    .map((a) => (a ? parseTokenAccount(a.data[0]) : null))
+    .filter((a): a is { mint: string; owner: string; amount: bigint } => !!a && a.mint === mint);
+
+  // Owner accounts held by an AMM / launchpad program are pool vault authorities, not wallets
+  const owners = [...new Set(balances.map((b) => b.owner))];
+  const poolOwners: Record<string, string> = { ...options.excludeOwners };
+  if (owners.length) {
+    const ownerAccounts = await rpc.call<{ value: (AccountInfoValue | null)[] }>('getMultipleAccounts', [
+      owners,
+      { encoding: 'base64', dataSlice: { offset: 0, length: 0 } },
+    ]);
+    ownerAccounts?.value?.forEach((account, i) => {
+      const program = account ? POOL_PROGRAMS[account.owner] : undefined;
+      if (program) poolOwners[owners[i]] = program;
+    });
+  }
+
+  const { holders, excluded } = computeHolderDistribution(balances, mintInfo.supply, poolOwners);
+  const top = holders.slice(0, TOP_HOLDERS);
+
+  const [funderEntries, deployer] = options.distributionOnly
+    ? [[], null]
+    : await Promise.all([
+      Promise.all(top.map(async (h) => [h.owner, await firstSigner(rpc, h.owner).catch(() => null)] as const)),
+      firstSigner(rpc, mint).catch(() => null),
+    ]);
+  const clusters = detectFundingClusters(top, Object.fromEntries(funderEntries));
+
+  const deployerWallet = options.distributionOnly ? null : deployer ?? mintInfo.mintAuthority;
+  let devHoldingPercent: number | null = null;
+  if (deployerWallet) {
+    const held = holders.find((h) => h.owner === deployerWallet);
+    devHoldingPercent = held
+      ? held.percent
+      : holderPercent(await ownerBalance(rpc, deployerWallet, mint).catch(() => 0n), mintInfo.supply);
+  }
+
+  return {
+    supply: mintInfo.supply.toString(),
+    decimals: mintInfo.decimals,
+    mintAuthority: mintInfo.mintAuthority,
+    freezeAuthority: mintInfo.freezeAuthority,
+    holderCount: holders.length,
+    topHolderPercent: round2(top[0]?.percent ?? 0),
+    top10Percent: round2(top.reduce((sum, h) => sum + h.percent, 0)),
+    topHolders: top,
+    excluded,
+    clusters,
+    clusteredPercent: round2(clusters.reduce((sum, c) => sum + c.percent, 0)),
+    deployer: deployerWallet,
+    devHoldingPercent: devHoldingPercent === null ? null : round2(devHoldingPercent),
+  };
+}
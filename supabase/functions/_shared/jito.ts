@@ -0,0 +1,195 @@
+/**
+ * Jito bundle helpers for trade-execution, the jito-bundle Edge Function and the browser
+ * Pure logic: tip sizing, bundle status mapping and transaction signature extraction
+ */
+
+export const JITO_BLOCK_ENGINE_URL = 'https://mainnet.block-engine.jito.wtf';
+export const JITO_TIP_FLOOR_URL = 'https://bundles.jito.wtf/api/v1/bundles/tip_floor';
+
+// Jito's mainnet tip accounts - any one of them works, spreading tips avoids write-lock contention
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
+export type JitoTipStrategy = 'fixed' | 'p50' | 'p75' | 'p95';
+
+export const JITO_TIP_STRATEGIES: { id: JitoTipStrategy; label: string; description: string }[] = [
+  { id: 'fixed', label: 'Fixed', description: 'Always tip the configured amount' },
+  { id: 'p50', label: 'Median', description: 'Match the median landed tip, never below the configured amount' },
+  { id: 'p75', label: '75th percentile', description: 'Outbid most bundles on busy launches' },
+  { id: 'p95', label: '95th percentile', description: 'Aggressive - for the hottest launches' },
+];
+
+export type JitoBundleStatus = 'pending' | 'landed' | 'failed' | 'fallback';
+
+export interface JitoSettings {
+  enabled: boolean;
+  tipLamports: number;
+  tipStrategy: JitoTipStrategy;
+  maxTipLamports: number;
+  fallbackSlots: number;
+}
+
+export const DEFAULT_JITO_SETTINGS: JitoSettings = {
+  enabled: false,
+  tipLamports: 100_000, // 0.0001 SOL
+  tipStrategy: 'fixed',
+  maxTipLamports: 2_000_000, // 0.002 SOL
+  fallbackSlots: 20, // ~8s
+};
+
+// Landed-tip percentiles from the tip floor API, in SOL
+export interface JitoTipFloor {
+  landed_tips_50th_percentile?: number;
+  landed_tips_75th_percentile?: number;
+  landed_tips_95th_percentile?: number;
+}
+
+// Subset of a user_sniper_settings row
+export interface JitoSettingsRow {
+  jito_enabled?: boolean | null;
+  jito_tip_lamports?: number | null;
+  jito_tip_strategy?: string | null;
+  jito_max_tip_lamports?: number | null;
+  jito_fallback_slots?: number | null;
+}
+
+// What trade-execution hands the client so it can add the tip transfer and submit the bundle
+export interface JitoBundlePlan {
+  tipLamports: number;
+  tipAccount: string;
+  fallbackSlots: number;
+}
+
+function isTipStrategy(value: unknown): value is JitoTipStrategy {
+  return JITO_TIP_STRATEGIES.some((s) => s.id === value);
+}
+
+function positiveInt(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function parseJitoSettings(row: JitoSettingsRow | null | undefined): JitoSettings {
+  if (!row) return { ...DEFAULT_JITO_SETTINGS };
+  const tipLamports = positiveInt(row.jito_tip_lamports, DEFAULT_JITO_SETTINGS.tipLamports);
+  return {
+    enabled: row.jito_enabled === true,
+    tipLamports,
+    tipStrategy: isTipStrategy(row.jito_tip_strategy) ? row.jito_tip_strategy : DEFAULT_JITO_SETTINGS.tipStrategy,
+    maxTipLamports: Math.max(tipLamports, positiveInt(row.jito_max_tip_lamports, DEFAULT_JITO_SETTINGS.maxTipLamports)),
+    fallbackSlots: positiveInt(row.jito_fallback_slots, DEFAULT_JITO_SETTINGS.fallbackSlots),
+  };
+}
+
+/**
+ * Tip for the next bundle. Percentile strategies follow the tip floor but stay between the
+ * configured tip (floor) and maxTipLamports (cap); without tip floor data the configured tip is used.
+ */
+export function resolveJitoTip(settings: JitoSettings, tipFloor: JitoTipFloor | null): number {
+  if (settings.tipStrategy === 'fixed' || !tipFloor) return settings.tipLamports;
+
+  const percentileSol = {
+    p50: tipFloor.landed_tips_50th_percentile,
+    p75: tipFloor.landed_tips_75th_percentile,
+    p95: tipFloor.landed_tips_95th_percentile,
+  }[settings.tipStrategy];
+  if (typeof percentileSol !== 'number' || !Number.isFinite(percentileSol)) return settings.tipLamports;
+
+  const lamports = Math.ceil(percentileSol * 1e9);
+  return Math.min(settings.maxTipLamports, Math.max(settings.tipLamports, lamports));
+}
+
+export function pickJitoTipAccount(random: () => number = Math.random): string {
+  return JITO_TIP_ACCOUNTS[Math.floor(random() * JITO_TIP_ACCOUNTS.length) % JITO_TIP_ACCOUNTS.length];
+}
+
+// getInflightBundleStatuses reports Invalid / Pending / Failed / Landed
+export function mapInflightBundleStatus(status: string | null | undefined): JitoBundleStatus {
+  switch (status) {
+    case 'Landed':
+      return 'landed';
+    case 'Failed':
+    case 'Invalid':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export function encodeBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  let out = '';
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    out += '1';
+  }
+  for (let i = digits.length - 1; i >= 0; i--) out += BASE58_ALPHABET[digits[i]];
+  return out;
+}
+
+export function decodeBase58(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character: ${char}`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+  return Uint8Array.from(bytes.reverse());
+}
+
+/**
+ * Fee-payer signature of a signed, base64 wire-format transaction (its transaction id).
+ * The wire format starts with a compact-u16 signature count followed by 64-byte signatures.
+ */
+export function transactionSignature(base64Tx: string): string | null {
+  const bin = atob(base64Tx);
+  if (bin.length < 65) return null;
+
+  let offset = 0;
+  let count = 0;
+  for (let shift = 0; shift < 21; shift += 7) {
+    const byte = bin.charCodeAt(offset++);
+    count |= (byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) break;
+  }
+  if (count < 1 || bin.length < offset + 64) return null;
+
+  const signature = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) signature[i] = bin.charCodeAt(offset + i);
+  if (signature.every((b) => b === 0)) return null; // unsigned
+  return encodeBase58(signature);
+}
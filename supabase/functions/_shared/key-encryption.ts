@@ -0,0 +1,186 @@
+/**
+ * AES-GCM envelope encryption for API keys stored in api_configurations
+ * Each value gets its own random data key; the data key is wrapped with a master key from the
+ * keyring, whose ID is stored in the prefix - so rotating the master key only re-wraps data keys.
+ *
+ * Stored format: v1:<keyId>:<base64 iv + wrapped data key>:<base64 iv + ciphertext>
+ * The wrapped data key is authenticated against its key ID, so a swapped prefix fails to decrypt.
+ * Legacy values (aes: XOR hex, enc: base64, bare plaintext) still decrypt and are flagged for re-encryption.
+ */
+
+export const ENVELOPE_VERSION = 'v1';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export interface Keyring {
+  activeId: string;
+  keys: Map<string, Uint8Array>; // keyId -> 256-bit master key
+}
+
+export interface DecryptedSecret {
+  value: string | null;
+  keyId: string | null; // Master key that wrapped it; null for legacy values
+  needsReencryption: boolean; // Legacy format or wrapped by a key other than the active one
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+function importAesKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+async function seal(key: CryptoKey, plaintext: Uint8Array, aad: string): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(aad) },
+    key,
+    plaintext
+  );
+  return concat(iv, new Uint8Array(ciphertext));
+}
+
+async function open(key: CryptoKey, sealed: Uint8Array, aad: string): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.slice(0, IV_BYTES), additionalData: new TextEncoder().encode(aad) },
+    key,
+    sealed.slice(IV_BYTES)
+  );
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * Keyring from "id:base64key,id:base64key" (e.g. API_KEY_ENCRYPTION_KEYS). The active key defaults
+ * to the last entry, so rotating is appending a new key and keeping the old ones until re-encrypted.
+ */
+export function parseKeyring(spec: string | null | undefined, activeId?: string | null): Keyring | null {
+  const keys = new Map<string, Uint8Array>();
+  let lastId: string | null = null;
+  for (const entry of (spec ?? '').split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    if (separator < 1 || !KEY_ID_PATTERN.test(id)) throw new Error(`Invalid encryption key entry "${id || entry.slice(0, 8)}"`);
+    const raw = fromBase64(entry.slice(separator + 1));
+    if (raw.length !== KEY_BYTES) throw new Error(`Encryption key ${id} must be ${KEY_BYTES} bytes (base64)`);
+    keys.set(id, raw);
+    lastId = id;
+  }
+  if (!lastId) return null;
+
+  const active = activeId?.trim() || lastId;
+  if (!keys.has(active)) throw new Error(`Active encryption key ${active} is not in the keyring`);
+  return { activeId: active, keys };
+}
+
+// Single-key keyring derived from an existing secret, for deployments without a configured keyring
+export async function deriveKeyring(secret: string, id: string): Promise<Keyring> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`api-key-encryption:${secret}`));
+  return { activeId: id, keys: new Map([[id, new Uint8Array(digest)]]) };
+}
+
+// Adds keys that can still unwrap older values but never become active; ids already in the keyring win
+export function withDecryptOnlyKeys(keyring: Keyring, ...fallbacks: Keyring[]): Keyring {
+  const keys = new Map(keyring.keys);
+  for (const fallback of fallbacks) {
+    for (const [id, key] of fallback.keys) if (!keys.has(id)) keys.set(id, key);
+  }
+  return { activeId: keyring.activeId, keys };
+}
+
+export function isEnvelope(stored: string): boolean {
+  return stored.startsWith(`${ENVELOPE_VERSION}:`);
+}
+
+export async function encryptSecret(plaintext: string, keyring: Keyring): Promise<string> {
+  const masterKey = await importAesKey(keyring.keys.get(keyring.activeId)!);
+  const dataKeyRaw = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  const header = `${ENVELOPE_VERSION}:${keyring.activeId}`;
+
+  const wrappedKey = await seal(masterKey, dataKeyRaw, header);
+  const payload = await seal(await importAesKey(dataKeyRaw), new TextEncoder().encode(plaintext), ENVELOPE_VERSION);
+  return `${header}:${toBase64(wrappedKey)}:${toBase64(payload)}`;
+}
+
+function parseEnvelope(stored: string): { keyId: string; wrappedKey: Uint8Array; payload: Uint8Array } {
+  const [version, keyId, wrappedKey, payload] = stored.split(':');
+  if (version !== ENVELOPE_VERSION || !keyId || !wrappedKey || !payload) throw new Error('Malformed encrypted value');
+  return { keyId, wrappedKey: fromBase64(wrappedKey), payload: fromBase64(payload) };
+}
+
+async function unwrapDataKey(keyId: string, wrappedKey: Uint8Array, keyring: Keyring): Promise<Uint8Array> {
+  const raw = keyring.keys.get(keyId);
+  if (!raw) throw new Error(`Encryption key ${keyId} is not in the keyring`);
+  return open(await importAesKey(raw), wrappedKey, `${ENVELOPE_VERSION}:${keyId}`);
+}
+
+// The pre-envelope XOR cipher keyed by the last 32 chars of the service role key
+function xorDecrypt(hex: string, key: string): string {
+  const bytes = new Uint8Array(hex.match(/.{1,2}/g)?.map((byte) => parseInt(byte, 16)) || []);
+  const keyBytes = new TextEncoder().encode(key);
+  return new TextDecoder().decode(bytes.map((byte, i) => byte ^ keyBytes[i % keyBytes.length]));
+}
+
+/**
+ * Decrypt any stored format. Tampered or undecryptable values come back as null rather than throwing,
+ * so callers fall back to environment secrets the same way they do for a missing key.
+ */
+export async function decryptSecret(
+  stored: string | null | undefined,
+  keyring: Keyring,
+  legacyXorKey = ''
+): Promise<DecryptedSecret> {
+  if (!stored) return { value: null, keyId: null, needsReencryption: false };
+
+  try {
+    if (isEnvelope(stored)) {
+      const { keyId, wrappedKey, payload } = parseEnvelope(stored);
+      const dataKey = await importAesKey(await unwrapDataKey(keyId, wrappedKey, keyring));
+      const plaintext = await open(dataKey, payload, ENVELOPE_VERSION);
+      return { value: new TextDecoder().decode(plaintext), keyId, needsReencryption: keyId !== keyring.activeId };
+    }
+    if (stored.startsWith('aes:')) {
+      return { value: legacyXorKey ? xorDecrypt(stored.slice(4), legacyXorKey) : null, keyId: null, needsReencryption: !!legacyXorKey };
+    }
+    if (stored.startsWith('enc:')) {
+      return { value: atob(stored.slice(4)), keyId: null, needsReencryption: true };
+    }
+    return { value: stored, keyId: null, needsReencryption: true };
+  } catch (error) {
+    console.error('[KeyEncryption] Failed to decrypt stored key:', error instanceof Error ? error.message : error);
+    return { value: null, keyId: null, needsReencryption: false };
+  }
+}
+
+/**
+ * Move a stored value onto the active master key. Envelopes only get their data key re-wrapped;
+ * legacy values are encrypted from scratch. Returns null when it is already current.
+ */
+export async function reencryptSecret(stored: string, keyring: Keyring, legacyXorKey = ''): Promise<string | null> {
+  if (isEnvelope(stored)) {
+    const { keyId, wrappedKey, payload } = parseEnvelope(stored);
+    if (keyId === keyring.activeId) return null;
+    const dataKeyRaw = await unwrapDataKey(keyId, wrappedKey, keyring);
+    const header = `${ENVELOPE_VERSION}:${keyring.activeId}`;
+    const rewrapped = await seal(await importAesKey(keyring.keys.get(keyring.activeId)!), dataKeyRaw, header);
+    return `${header}:${toBase64(rewrapped)}:${toBase64(payload)}`;
+  }
+
+  const { value } = await decryptSecret(stored, keyring, legacyXorKey);
+  if (value === null) throw new Error('Stored key could not be decrypted');
+  return encryptSecret(value, keyring);
+}
@@ -0,0 +1,73 @@
+/**
+ * Limit-order helpers for the limit-orders Edge Function and the browser
+ * Pure logic: trigger / expiry / re-arm decisions for resting buy orders
+ */
+
+// A triggered order that hasn't been executed within this window is re-checked against the live price
+export const TRIGGER_STALE_MS = 5 * 60 * 1000;
+
+export type LimitOrderType = 'limit_below' | 'breakout_above';
+
+export type LimitOrderStatus =
+  | 'open'
+  | 'triggered'
+  | 'executing'
+  | 'filled'
+  | 'cancelled'
+  | 'expired'
+  | 'failed';
+
+// Statuses the worker still acts on; everything else is terminal
+export const ACTIVE_LIMIT_ORDER_STATUSES: LimitOrderStatus[] = ['open', 'triggered'];
+
+export const LIMIT_ORDER_TYPE_LABELS: Record<LimitOrderType, string> = {
+  limit_below: 'Buy the dip',
+  breakout_above: 'Buy the breakout',
+};
+
+// Subset of a limit_orders row
+export interface LimitOrderRow {
+  order_type: LimitOrderType;
+  trigger_price_usd: number;
+  status: LimitOrderStatus;
+  expires_at: string | null;
+  triggered_at?: string | null;
+}
+
+export type LimitOrderDecision = 'trigger' | 'expire' | 'rearm' | 'wait';
+
+export function isLimitOrderExpired(order: Pick<LimitOrderRow, 'expires_at'>, now: Date): boolean {
+  return !!order.expires_at && Date.parse(order.expires_at) <= now.getTime();
+}
+
+// limit_below fills at or under the trigger, breakout_above at or over it
+export function isLimitPriceMet(orderType: LimitOrderType, triggerPriceUsd: number, priceUsd: number): boolean {
+  if (!(priceUsd > 0) || !(triggerPriceUsd > 0)) return false;
+  return orderType === 'limit_below' ? priceUsd <= triggerPriceUsd : priceUsd >= triggerPriceUsd;
+}
+
+// What the worker should do with an active order given the latest USD price (null = unknown)
+export function evaluateLimitOrder(order: LimitOrderRow, priceUsd: number | null, now: Date): LimitOrderDecision {
+  if (!ACTIVE_LIMIT_ORDER_STATUSES.includes(order.status)) return 'wait';
+  if (isLimitOrderExpired(order, now)) return 'expire';
+  if (priceUsd === null) return 'wait';
+
+  const met = isLimitPriceMet(order.order_type, order.trigger_price_usd, priceUsd);
+
+  if (order.status === 'open') return met ? 'trigger' : 'wait';
+
+  // Triggered but nobody executed it in time: only keep it armed while the price still qualifies
+  const triggeredAt = order.triggered_at ? Date.parse(order.triggered_at) : now.getTime();
+  return !met && now.getTime() - triggeredAt >= TRIGGER_STALE_MS ? 'rearm' : 'wait';
+}
+
+export function describeLimitOrder(order: Pick<LimitOrderRow, 'order_type' | 'trigger_price_usd'>): string {
+  const comparator = order.order_type === 'limit_below' ? '≤' : '≥';
+  return `price ${comparator} $${formatTriggerPrice(order.trigger_price_usd)}`;
+}
+
+export function formatTriggerPrice(price: number): string {
+  if (!Number.isFinite(price)) return '0';
+  if (price >= 1) return price.toFixed(4);
+  return price.toPrecision(4);
+}
@@ -0,0 +1,176 @@
+/**
+ * Notification event types and outbound delivery channels
+ * Pure logic (no network / DB access) shared by the notify helper and the browser settings UI
+ */
+
+export type NotificationType = 'info' | 'success' | 'warning' | 'error' | 'trade';
+
+export type NotificationEventType =
+  | 'trade_signal'
+  | 'trade_filled'
+  | 'position_exit'
+  | 'exit_pending'
+  | 'exit_blocked'
+  | 'risk_alert'
+  | 'general';
+
+export interface NotificationEventInfo {
+  id: NotificationEventType;
+  label: string;
+  description: string;
+}
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventInfo[] = [
+  { id: 'trade_signal', label: 'Sniper signals', description: 'Auto-sniper approved a token and queued a buy' },
+  { id: 'trade_filled', label: 'Fills', description: 'Limit orders and copy trades that filled or failed' },
+  { id: 'position_exit', label: 'Exits', description: 'Take profit, stop loss, trailing stop and ladder sells' },
+  { id: 'exit_pending', label: 'Exit needs signature', description: 'An exit triggered and is waiting for your wallet' },
+  { id: 'exit_blocked', label: 'Exit blocked', description: 'An exit triggered but the token has no swap route' },
+  { id: 'risk_alert', label: 'Risk alerts', description: 'Honeypots, circuit breaker trips and guardrail blocks' },
+  { id: 'general', label: 'Other', description: 'Everything else the app reports' },
+];
+
+export type NotificationChannelType = 'webhook' | 'telegram' | 'email';
+
+export interface NotificationChannelField {
+  key: string;
+  label: string;
+  placeholder: string;
+  required: boolean;
+  secret?: boolean;
+}
+
+export interface NotificationChannelInfo {
+  label: string;
+  description: string;
+  fields: NotificationChannelField[];
+}
+
+export const NOTIFICATION_CHANNEL_TYPES: Record<NotificationChannelType, NotificationChannelInfo> = {
+  webhook: {
+    label: 'Webhook',
+    description: 'POSTs a JSON payload to any HTTPS endpoint',
+    fields: [
+      { key: 'url', label: 'URL', placeholder: 'https://example.com/hooks/sniper', required: true },
+      { key: 'secret', label: 'Signing secret', placeholder: 'Optional - signs the body (HMAC-SHA256)', required: false, secret: true },
+    ],
+  },
+  telegram: {
+    label: 'Telegram bot',
+    description: 'Sends a message through a Telegram-compatible bot API',
+    fields: [
+      { key: 'bot_token', label: 'Bot token', placeholder: '123456:ABC-DEF...', required: true, secret: true },
+      { key: 'chat_id', label: 'Chat ID', placeholder: '-1001234567890', required: true },
+      { key: 'api_base_url', label: 'API base URL', placeholder: 'https://api.telegram.org', required: false },
+    ],
+  },
+  email: {
+    label: 'Email',
+    description: 'Sends an email through the server SMTP relay',
+    fields: [
+      { key: 'to', label: 'Email address', placeholder: 'you@example.com', required: true },
+    ],
+  },
+};
+
+// Subset of a notification_channels row
+export interface NotificationChannelRow {
+  id: string;
+  user_id: string;
+  channel_type: NotificationChannelType;
+  name: string;
+  is_enabled: boolean;
+  config: Record<string, unknown>;
+  event_types: string[];
+  last_delivered_at?: string | null;
+  last_error?: string | null;
+}
+
+export interface NotificationPayload {
+  notification_id: string | null;
+  event_type: NotificationEventType;
+  type: NotificationType;
+  title: string;
+  message: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function configString(config: Record<string, unknown>, key: string): string {
+  const value = config[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function isNotificationEventType(value: unknown): value is NotificationEventType {
+  return NOTIFICATION_EVENT_TYPES.some((event) => event.id === value);
+}
+
+// Returns an error message, or null when the config can be delivered to
+export function validateChannelConfig(type: NotificationChannelType, config: Record<string, unknown>): string | null {
+  const info = NOTIFICATION_CHANNEL_TYPES[type];
+  if (!info) return `Unknown channel type: ${type}`;
+
+  for (const field of info.fields) {
+    if (field.required && !configString(config, field.key)) {
+      return `${field.label} is required`;
+    }
+  }
+
+  if (type === 'webhook' && !/^https:\/\//i.test(configString(config, 'url'))) {
+    return 'Webhook URL must use https://';
+  }
+  if (type === 'telegram') {
+    const base = configString(config, 'api_base_url');
+    if (base && !/^https:\/\//i.test(base)) return 'API base URL must use https://';
+  }
+  if (type === 'email' && !EMAIL_RE.test(configString(config, 'to'))) {
+    return 'Enter a valid email address';
+  }
+
+  return null;
+}
+
+// An empty event list subscribes the channel to every event type
+export function channelWantsEvent(channel: Pick<NotificationChannelRow, 'is_enabled' | 'event_types'>, eventType: NotificationEventType): boolean {
+  if (!channel.is_enabled) return false;
+  return !channel.event_types || channel.event_types.length === 0 || channel.event_types.includes(eventType);
+}
+
+export function formatNotificationText(payload: Pick<NotificationPayload, 'title' | 'message'>): string {
+  return `${payload.title}\n${payload.message}`;
+}
+
+export function buildTelegramRequest(
+  config: Record<string, unknown>,
+  payload: NotificationPayload
+): { url: string; body: Record<string, unknown> } {
+  const base = (configString(config, 'api_base_url') || 'https://api.telegram.org').replace(/\/+$/, '');
+  return {
+    url: `${base}/bot${configString(config, 'bot_token')}/sendMessage`,
+    body: {
+      chat_id: configString(config, 'chat_id'),
+      text: formatNotificationText(payload),
+      disable_web_page_preview: true,
+    },
+  };
+}
+
+export function buildEmailMessage(payload: NotificationPayload): { subject: string; text: string } {
+  const event = NOTIFICATION_EVENT_TYPES.find((e) => e.id === payload.event_type);
+  return {
+    subject: `[Sniper] ${payload.title}`,
+    text: `${payload.message}\n\n${event?.label ?? payload.event_type} · ${payload.created_at}`,
+  };
+}
+
+// Hide secrets when echoing a channel config back to the browser
+export function maskChannelConfig(type: NotificationChannelType, config: Record<string, unknown>): Record<string, unknown> {
+  const masked: Record<string, unknown> = { ...config };
+  for (const field of NOTIFICATION_CHANNEL_TYPES[type]?.fields ?? []) {
+    const value = configString(config, field.key);
+    if (field.secret && value) masked[field.key] = `••••${value.slice(-4)}`;
+  }
+  return masked;
+}
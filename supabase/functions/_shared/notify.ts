@@ -0,0 +1,194 @@
+/**
+ * Server-side notifications for Edge Functions
+ * Writes the notifications row (read by the bell over realtime) and fans it out to the
+ * user's delivery channels. Never throws: a failed alert must not fail the trade path.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import {
+  buildEmailMessage,
+  buildTelegramRequest,
+  channelWantsEvent,
+  type NotificationChannelRow,
+  type NotificationEventType,
+  type NotificationPayload,
+  type NotificationType,
+} from "./notification-channels.ts";
+
+const DELIVERY_TIMEOUT_MS = 5000;
+
+export interface NotifyOptions {
+  userId: string;
+  eventType: NotificationEventType;
+  title: string;
+  message: string;
+  type?: NotificationType;
+  metadata?: Record<string, unknown>;
+  source: string;
+  // Skip the alert if one with the same key was written inside the window (repeated ticks, re-checks)
+  dedupeKey?: string;
+  dedupeWindowMs?: number;
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sendEmail(to: string, payload: NotificationPayload): Promise<void> {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('SMTP_FROM');
+  if (!hostname || !from) {
+    throw new Error('Email delivery is not configured (SMTP_HOST / SMTP_FROM)');
+  }
+
+  const port = Number(Deno.env.get('SMTP_PORT') || 465);
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port,
+      tls: port === 465,
+      auth: username && password ? { username, password } : undefined,
+    },
+  });
+
+  const { subject, text } = buildEmailMessage(payload);
+  try {
+    await client.send({ from, to, subject, content: text });
+  } finally {
+    await client.close();
+  }
+}
+
+export async function deliverToChannel(channel: NotificationChannelRow, payload: NotificationPayload): Promise<void> {
+  const config = channel.config || {};
+
+  switch (channel.channel_type) {
+    case 'webhook': {
+      const body = JSON.stringify(payload);
+      const headers: Record<string, string> = {};
+      if (typeof config.secret === 'string' && config.secret) {
+        headers['X-Signature-256'] = `sha256=${await hmacSha256Hex(config.secret, body)}`;
+      }
+      await postJson(String(config.url), body, headers);
+      return;
+    }
+    case 'telegram': {
+      const request = buildTelegramRequest(config, payload);
+      await postJson(request.url, JSON.stringify(request.body));
+      return;
+    }
+    case 'email':
+      await sendEmail(String(config.to), payload);
+      return;
+    default:
+      throw new Error(`Unknown channel type: ${channel.channel_type}`);
+  }
+}
+
+// Records the outcome on the channel row so the settings page can show the last error
+export async function recordDelivery(
+  supabase: ReturnType<typeof createClient>,
+  channelId: string,
+  error: unknown
+): Promise<void> {
+  const update = error
+    ? { last_error: error instanceof Error ? error.message : String(error) }
+    : { last_delivered_at: new Date().toISOString(), last_error: null };
+  await supabase.from('notification_channels').update(update).eq('id', channelId);
+}
+
+export async function notifyUser(
+  supabase: ReturnType<typeof createClient>,
+  options: NotifyOptions
+): Promise<string | null> {
+  try {
+    const metadata: Record<string, unknown> = { ...(options.metadata || {}) };
+
+    if (options.dedupeKey) {
+      metadata.dedupe_key = options.dedupeKey;
+      const since = new Date(Date.now() - (options.dedupeWindowMs ?? 60 * 60 * 1000)).toISOString();
+      const { data: existing } = await supabase
+        .from('notifications')
+        .select('id')
+        .eq('user_id', options.userId)
+        .eq('metadata->>dedupe_key', options.dedupeKey)
+        .gte('created_at', since)
+        .limit(1);
+      if (existing && existing.length > 0) return null;
+    }
+
+    const { data: row, error } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: options.userId,
+        title: options.title,
+        message: options.message,
+        type: options.type || 'info',
+        event_type: options.eventType,
+        source: options.source,
+        metadata,
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error) {
+      console.error('[Notify] Failed to write notification:', error.message);
+      return null;
+    }
+
+    const { data: channels } = await supabase
+      .from('notification_channels')
+      .select('*')
+      .eq('user_id', options.userId)
+      .eq('is_enabled', true);
+
+    const targets = ((channels || []) as NotificationChannelRow[]).filter((c) => channelWantsEvent(c, options.eventType));
+    if (targets.length > 0) {
+      const payload: NotificationPayload = {
+        notification_id: row.id,
+        event_type: options.eventType,
+        type: options.type || 'info',
+        title: options.title,
+        message: options.message,
+        metadata,
+        created_at: row.created_at,
+      };
+
+      await Promise.allSettled(
+        targets.map(async (channel) => {
+          try {
+            await deliverToChannel(channel, payload);
+            await recordDelivery(supabase, channel.id, null);
+          } catch (deliveryError) {
+            console.error(`[Notify] ${channel.channel_type} delivery failed:`, deliveryError);
+            await recordDelivery(supabase, channel.id, deliveryError);
+          }
+        })
+      );
+    }
+
+    return row.id;
+  } catch (error) {
+    console.error('[Notify] Unexpected error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Position accounting for partial and full sells, averaging in and fill history
+ * Pure logic shared by auto-exit and the browser so realized / unrealized P&L agree everywhere
+ */
+
+// Selling at least this share of the held amount closes the position (the rest is dust)
+export const FULL_EXIT_FRACTION = 0.99;
+
+// Subset of a positions row
+export interface AccountingPosition {
+  amount: number;                     // Tokens currently held
+  entry_price: number;
+  entry_price_usd?: number | null;
+  entry_value?: number | null;        // SOL spent on the original buy
+  remaining_fraction?: number | null; // Share of the original size still held (1 = untouched)
+  realized_pnl_sol?: number | null;   // P&L already booked by earlier partial sells
+}
+
+export interface PositionSale {
+  soldAmount: number;         // Tokens sold
+  exitPrice: number;          // Same unit as entry_price_usd ?? entry_price
+  proceedsSol?: number | null; // SOL actually received, when known (beats the price estimate)
+}
+
+export interface PositionSaleResult {
+  soldAmount: number;
+  soldFraction: number;          // Of the held amount
+  remainingAmount: number;
+  remainingFraction: number;     // Of the original size
+  costBasisSoldSol: number;
+  remainingCostBasisSol: number;
+  realizedPnlSol: number;        // This sale only
+  realizedPnlPercent: number;    // This sale only
+  totalRealizedPnlSol: number;   // Including earlier partial sells
+  isFullExit: boolean;
+}
+
+function finite(value: unknown, fallback = 0): number {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : fallback;
+}
+
+function clampFraction(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function entryPriceForCalc(position: AccountingPosition): number {
+  return finite(position.entry_price_usd ?? position.entry_price);
+}
+
+// SOL cost of the tokens still held
+export function positionCostBasisSol(position: AccountingPosition): number {
+  const entryValue = finite(position.entry_value, finite(position.amount) * finite(position.entry_price));
+  return Math.max(0, entryValue * clampFraction(finite(position.remaining_fraction, 1)));
+}
+
+// Unrealized P&L of what's still held - cost basis shrinks with each partial sell
+export function positionUnrealizedPnl(
+  position: AccountingPosition,
+  currentPrice: number
+): { costBasisSol: number; pnlPercent: number; pnlSol: number } {
+  const entry = entryPriceForCalc(position);
+  const costBasisSol = positionCostBasisSol(position);
+  const pnlPercent = entry > 0 && currentPrice > 0 ? ((currentPrice - entry) / entry) * 100 : 0;
+  return { costBasisSol, pnlPercent, pnlSol: costBasisSol * (pnlPercent / 100) };
+}
+
+// Book a sale of soldAmount tokens against the position
+export function applyPositionSale(position: AccountingPosition, sale: PositionSale): PositionSaleResult {
+  const held = Math.max(0, finite(position.amount));
+  const soldAmount = Math.min(held, Math.max(0, finite(sale.soldAmount)));
+  const rawFraction = held > 0 ? soldAmount / held : 1;
+  const isFullExit = rawFraction >= FULL_EXIT_FRACTION;
+  const soldFraction = isFullExit ? 1 : rawFraction;
+
+  const costBasisSol = positionCostBasisSol(position);
+  const costBasisSoldSol = costBasisSol * soldFraction;
+
+  const entry = entryPriceForCalc(position);
+  const pricePnlPercent = entry > 0 && sale.exitPrice > 0 ? ((sale.exitPrice - entry) / entry) * 100 : 0;
+  const proceeds = sale.proceedsSol !== undefined && sale.proceedsSol !== null ? finite(sale.proceedsSol, NaN) : NaN;
+
+  const realizedPnlSol = Number.isFinite(proceeds) && proceeds > 0
+    ? proceeds - costBasisSoldSol
+    : costBasisSoldSol * (pricePnlPercent / 100);
+  const realizedPnlPercent = costBasisSoldSol > 0 ? (realizedPnlSol / costBasisSoldSol) * 100 : pricePnlPercent;
+
+  const remainingFraction = clampFraction(finite(position.remaining_fraction, 1)) * (1 - soldFraction);
+
+  return {
+    soldAmount,
+    soldFraction,
+    remainingAmount: isFullExit ? 0 : held - soldAmount,
+    remainingFraction,
+    costBasisSoldSol,
+    remainingCostBasisSol: costBasisSol - costBasisSoldSol,
+    realizedPnlSol,
+    realizedPnlPercent,
+    totalRealizedPnlSol: finite(position.realized_pnl_sol) + realizedPnlSol,
+    isFullExit,
+  };
+}
+
+// ============================================================================
+// Multi-entry positions: averaging in and per-position fill history
+// ============================================================================
+
+export type FillSide = 'buy' | 'sell';
+
+// Subset of a position_fills row
+export interface PositionFill {
+  side: FillSide;
+  amount: number;            // Tokens bought / sold
+  sol_amount: number;        // SOL spent (buy) or received (sell)
+  price_usd?: number | null;
+  status?: string | null;    // Only 'confirmed' fills count
+  created_at?: string;
+}
+
+export interface FillSummary {
+  amount: number;              // Tokens still held
+  costBasisSol: number;        // Average-cost basis of what's held
+  avgEntryPriceSol: number;    // SOL per held token
+  avgEntryPriceUsd: number | null;
+  realizedPnlSol: number;      // Sells booked against average cost
+  totalBuySol: number;         // SOL spent across every buy
+  buyCount: number;
+}
+
+export interface PositionBuy {
+  amount: number;            // Tokens received
+  solAmount: number;         // SOL spent
+  price: number;             // Same unit as the position's entry_price
+  priceUsd?: number | null;
+}
+
+// Fields to write back to the positions row after averaging in
+export interface AveragedPosition {
+  amount: number;
+  entry_price: number;
+  entry_price_usd: number | null;
+  entry_value: number;
+  remaining_fraction: number;
+  executed_ladder_steps: number[];
+}
+
+// Replay confirmed fills oldest-first with the average-cost method
+export function summarizeFills(fills: PositionFill[]): FillSummary {
+  const ordered = fills
+    .filter((f) => !f.status || f.status === 'confirmed')
+    .slice()
+    .sort((a, b) => (a.created_at ? Date.parse(a.created_at) : 0) - (b.created_at ? Date.parse(b.created_at) : 0));
+
+  let amount = 0;
+  let costBasisSol = 0;
+  let usdCost = 0;
+  let usdKnown = true;
+  let realizedPnlSol = 0;
+  let totalBuySol = 0;
+  let buyCount = 0;
+
+  for (const fill of ordered) {
+    const qty = Math.max(0, finite(fill.amount));
+    const sol = Math.max(0, finite(fill.sol_amount));
+    if (qty === 0) continue;
+
+    if (fill.side === 'buy') {
+      const priceUsd = finite(fill.price_usd, NaN);
+      if (Number.isFinite(priceUsd) && priceUsd > 0) usdCost += qty * priceUsd;
+      else usdKnown = false;
+      amount += qty;
+      costBasisSol += sol;
+      totalBuySol += sol;
+      buyCount++;
+    } else if (amount > 0) {
+      const fraction = Math.min(1, qty / amount);
+      const costSold = costBasisSol * fraction;
+      if (sol > 0) realizedPnlSol += sol - costSold;
+      costBasisSol -= costSold;
+      usdCost -= usdCost * fraction;
+      amount = fraction >= 1 ? 0 : amount - qty;
+    }
+  }
+
+  return {
+    amount,
+    costBasisSol,
+    avgEntryPriceSol: amount > 0 ? costBasisSol / amount : 0,
+    avgEntryPriceUsd: usdKnown && amount > 0 && buyCount > 0 ? usdCost / amount : null,
+    realizedPnlSol,
+    totalBuySol,
+    buyCount,
+  };
+}
+
+// Fill-history cost basis for a held position, or null when the fills don't account for
+// what's held (legacy positions without fills, or sells booked without a fill)
+export function positionFillSummary(
+  position: AccountingPosition,
+  fills?: PositionFill[] | null
+): FillSummary | null {
+  if (!fills || fills.length === 0) return null;
+  const summary = summarizeFills(fills);
+  const held = finite(position.amount);
+  if (summary.buyCount === 0 || held <= 0) return null;
+  return Math.abs(summary.amount - held) / held <= 1 - FULL_EXIT_FRACTION ? summary : null;
+}
+
+// Add a buy to an open position at weighted-average cost.
+// The merged position becomes the new "original size" (remaining_fraction resets to 1), so every
+// take-profit ladder step is re-armed to sell its share of the larger position.
+export function averageIntoPosition(position: AccountingPosition, buy: PositionBuy): AveragedPosition {
+  const held = Math.max(0, finite(position.amount));
+  const added = Math.max(0, finite(buy.amount));
+  const total = held + added;
+  const weighted = (current: number, incoming: number) =>
+    total > 0 ? (held * current + added * incoming) / total : incoming;
+
+  const entryPriceUsd = position.entry_price_usd ?? null;
+  const buyPriceUsd = finite(buy.priceUsd, NaN);
+
+  return {
+    amount: total,
+    entry_price: weighted(finite(position.entry_price), finite(buy.price)),
+    entry_price_usd: entryPriceUsd !== null && Number.isFinite(buyPriceUsd) && buyPriceUsd > 0
+      ? weighted(finite(entryPriceUsd), buyPriceUsd)
+      : entryPriceUsd,
+    entry_value: positionCostBasisSol(position) + Math.max(0, finite(buy.solAmount)),
+    remaining_fraction: 1,
+    executed_ladder_steps: [],
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Token price lookup shared by Edge Functions that act on live prices (auto-exit, limit-orders)
+ * DexScreener first (no key), then GeckoTerminal and Birdeye from api_configurations
+ */
+
+import { EVM_CHAINS, isEvmChain } from './execution-adapter.ts';
+import { decryptKey } from './api-keys.ts';
+
+// Subset of an api_configurations row
+export interface ApiConfig {
+  id: string;
+  api_type: string;
+  api_name: string;
+  base_url: string;
+  api_key_encrypted: string | null;
+  is_enabled: boolean;
+}
+
+interface DexScreenerPair {
+  chainId?: string;
+  priceUsd?: string;
+  liquidity?: { usd?: number };
+}
+
+// Get API key from environment (secure) with fallback to database (legacy)
+export async function resolveApiKey(apiType: string, dbApiKey: string | null): Promise<string | null> {
+  // Priority 1: Environment variable (Supabase Secrets - secure)
+  const envKey = Deno.env.get(`${apiType.toUpperCase()}_API_KEY`);
+  if (envKey) {
+    console.log(`Using secure environment variable for ${apiType}`);
+    return envKey;
+  }
+
+  // Priority 2: Database fallback (legacy - less secure)
+  if (dbApiKey) {
+    console.log(`Warning: Using database-stored API key for ${apiType} - migrate to Supabase Secrets`);
+    return decryptKey(dbApiKey);
+  }
+
+  return null;
+}
+
+// Fetch current USD price from external APIs
+export async function fetchCurrentPrice(
+  tokenAddress: string,
+  chain: string,
+  apiConfigs: ApiConfig[]
+): Promise<number | null> {
+  // Try DexScreener first (no API key required, most reliable)
+  try {
+    const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (response.ok) {
+      const data = await response.json();
+      // Get best pair by liquidity - DexScreener's chain ids match positions.chain
+      const pairs: DexScreenerPair[] = data.pairs?.filter((p: DexScreenerPair) => p.chainId === chain) || [];
+      if (pairs.length > 0) {
+        const bestPair = pairs.reduce((best, curr) =>
+          (curr?.liquidity?.usd || 0) > (best?.liquidity?.usd || 0) ? curr : best
+        );
+        if (bestPair?.priceUsd) {
+          return parseFloat(bestPair.priceUsd);
+        }
+      }
+    }
+  } catch (e) {
+    console.error('DexScreener price fetch error:', e);
+  }
+
+  // Try GeckoTerminal
+  const geckoConfig = apiConfigs.find(c => c.api_type === 'geckoterminal' && c.is_enabled);
+  if (geckoConfig) {
+    try {
+      const networkId = isEvmChain(chain) ? EVM_CHAINS[chain].geckoTerminalNetwork : 'solana';
+      const response = await fetch(`${geckoConfig.base_url}/api/v2/networks/${networkId}/tokens/${tokenAddress}`, {
+        signal: AbortSignal.timeout(5000),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        if (data.data?.attributes?.price_usd) {
+          return parseFloat(data.data.attributes.price_usd);
+        }
+      }
+    } catch (e) {
+      console.error('GeckoTerminal price fetch error:', e);
+    }
+  }
+
+  // Try Birdeye (Solana) - uses secure API key retrieval
+  const birdeyeConfig = apiConfigs.find(c => c.api_type === 'birdeye' && c.is_enabled);
+  if (birdeyeConfig && chain === 'solana') {
+    const apiKey = await resolveApiKey('birdeye', birdeyeConfig.api_key_encrypted);
+    if (apiKey) {
+      try {
+        const response = await fetch(`${birdeyeConfig.base_url}/defi/price?address=${tokenAddress}`, {
+          headers: { 'X-API-KEY': apiKey },
+          signal: AbortSignal.timeout(5000),
+        });
+        if (response.ok) {
+          const data = await response.json();
+          if (data.data?.value) {
+            return parseFloat(data.data.value);
+          }
+        }
+      } catch (e) {
+        console.error('Birdeye price fetch error:', e);
+      }
+    }
+  }
+
+  return null;
+}
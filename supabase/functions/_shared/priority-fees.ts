@@ -0,0 +1,130 @@
+/**
+ * Priority-fee estimation for trade-execution and the browser trading engine
+ * Pure logic: percentiles over getRecentPrioritizationFees samples for the accounts a swap writes to,
+ * converted to a per-transaction fee and capped at the user's SOL limit
+ */
+
+export type PriorityLevel = 'low' | 'medium' | 'high' | 'veryHigh';
+
+// user_sniper_settings.priority -> priority level
+export const SNIPING_PRIORITY_LEVELS: Record<string, PriorityLevel> = {
+  normal: 'medium',
+  fast: 'high',
+  turbo: 'veryHigh',
+};
+
+// Percentile of recent per-slot fees each level pays
+export const PRIORITY_FEE_PERCENTILES: Record<PriorityLevel, number> = {
+  low: 25,
+  medium: 50,
+  high: 75,
+  veryHigh: 95,
+};
+
+// Whole-transaction fees (lamports) used when the RPC has no samples
+export const DEFAULT_PRIORITY_FEES: Record<PriorityLevel, number> = {
+  low: 10_000,
+  medium: 50_000,
+  high: 200_000,
+  veryHigh: 1_000_000,
+};
+
+// Compute units a routed swap typically uses; Jupiter sets the exact limit via dynamicComputeUnitLimit
+export const SWAP_COMPUTE_UNITS = 300_000;
+
+export const DEFAULT_MAX_PRIORITY_FEE_SOL = 0.005;
+
+// getRecentPrioritizationFees accepts at most 128 addresses
+const MAX_FEE_ACCOUNTS = 128;
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface PrioritizationFeeSample {
+  slot: number;
+  prioritizationFee: number; // micro-lamports per compute unit
+}
+
+export interface PriorityFeeEstimate {
+  level: PriorityLevel;
+  microLamportsPerCu: number;
+  lamports: number; // whole-transaction priority fee
+  percentile: number;
+  sampleCount: number;
+  capped: boolean;
+  source: 'recent' | 'default';
+}
+
+export interface PriorityFeeOptions {
+  computeUnits?: number;
+  maxFeeSol?: number | null;
+}
+
+export function isPriorityLevel(value: unknown): value is PriorityLevel {
+  return typeof value === 'string' && value in PRIORITY_FEE_PERCENTILES;
+}
+
+// Nearest-rank percentile
+export function feePercentile(values: number[], percentile: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+/**
+ * Writable accounts a swap contends on: the non-SOL mints plus every pool in the route
+ * (Jupiter routePlan ammKey, Raydium routePlan poolId) and the Pump.fun bonding curve.
+ */
+export function priorityFeeAccounts(mints: (string | null | undefined)[], quote?: unknown, bondingCurve?: string | null): string[] {
+  const accounts: (string | null | undefined)[] = mints.filter((m) => m !== SOL_MINT);
+
+  // Jupiter quotes carry routePlan at the top level, Raydium's under data
+  const route = quote as { routePlan?: unknown[]; data?: { routePlan?: unknown[] } } | null | undefined;
+  for (const step of route?.routePlan ?? route?.data?.routePlan ?? []) {
+    const s = step as { swapInfo?: { ammKey?: string }; poolId?: string };
+    accounts.push(s?.swapInfo?.ammKey, s?.poolId);
+  }
+  accounts.push(bondingCurve);
+
+  return [...new Set(accounts.filter((a): a is string => typeof a === 'string' && a.length >= 32))].slice(0, MAX_FEE_ACCOUNTS);
+}
+
+function lamportsFor(microLamportsPerCu: number, computeUnits: number): number {
+  return Math.ceil((microLamportsPerCu * computeUnits) / 1_000_000);
+}
+
+/**
+ * Fee for one swap at the given level. Zero-fee slots count toward the percentile (quiet accounts
+ * should stay cheap); the default bucket only applies when there are no samples at all.
+ */
+export function estimatePriorityFee(
+  samples: PrioritizationFeeSample[] | null | undefined,
+  level: PriorityLevel,
+  options: PriorityFeeOptions = {}
+): PriorityFeeEstimate {
+  const computeUnits = options.computeUnits ?? SWAP_COMPUTE_UNITS;
+  const percentile = PRIORITY_FEE_PERCENTILES[level];
+  const fees = (samples ?? [])
+    .map((s) => s.prioritizationFee)
+    .filter((f) => Number.isFinite(f) && f >= 0);
+
+  let microLamportsPerCu: number;
+  let source: PriorityFeeEstimate['source'];
+  if (fees.length > 0) {
+    microLamportsPerCu = Math.ceil(feePercentile(fees, percentile));
+    source = 'recent';
+  } else {
+    microLamportsPerCu = Math.floor((DEFAULT_PRIORITY_FEES[level] * 1_000_000) / computeUnits);
+    source = 'default';
+  }
+
+  let lamports = lamportsFor(microLamportsPerCu, computeUnits);
+  let capped = false;
+  const maxLamports = options.maxFeeSol && options.maxFeeSol > 0 ? Math.floor(options.maxFeeSol * 1e9) : null;
+  if (maxLamports !== null && lamports > maxLamports) {
+    lamports = maxLamports;
+    microLamportsPerCu = Math.floor((maxLamports * 1_000_000) / computeUnits);
+    capped = true;
+  }
+
+  return { level, microLamportsPerCu, lamports, percentile, sampleCount: fees.length, capped, source };
+}
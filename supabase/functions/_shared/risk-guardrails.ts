@@ -0,0 +1,251 @@
+/**
+ * SOL-denominated trading guardrails for Edge Functions
+ * Pure logic: usage is derived from the user's positions, today's sells and the last hour's buy fills,
+ * limits from risk_settings
+ */
+
+export interface GuardrailLimits {
+  max_daily_loss_sol: number;      // Net realized loss since 00:00 UTC (0 = off)
+  max_open_exposure_sol: number;   // SOL cost basis across open positions (0 = off)
+  max_token_exposure_sol: number;  // SOL cost basis in any one token (0 = off)
+  max_trades_per_hour: number;     // Buys in a rolling hour (0 = off)
+}
+
+// Subset of a positions row needed to compute usage
+export interface GuardrailPositionRow {
+  id: string;
+  token_address: string;
+  chain?: string | null;           // ETH / BNB positions are kept out of the SOL amounts
+  status: string | null;
+  entry_value: number | null;
+  remaining_fraction?: number | null;
+  profit_loss_percent: number | null;
+  created_at: string;
+  closed_at: string | null;
+}
+
+// Subset of a trade_history sell row: P&L booked by each sell, partial exits included
+export interface GuardrailSellRow {
+  position_id: string | null;
+  realized_pnl_sol: number | null;
+  created_at: string;
+}
+
+// Subset of a confirmed position_fills buy row: averaging buys add a fill, not a position
+export interface GuardrailBuyFillRow {
+  position_id: string;
+  created_at: string;
+}
+
+export interface GuardrailUsage {
+  dailyLossSol: number;
+  openExposureSol: number;
+  tokenExposureSol: number; // For the token being checked (0 when none given)
+  tradesLastHour: number;
+}
+
+export type GuardrailId = 'daily_loss' | 'open_exposure' | 'token_exposure' | 'trades_per_hour';
+
+export interface GuardrailStatus {
+  id: GuardrailId;
+  label: string;
+  used: number;
+  limit: number;    // 0 = disabled
+  enabled: boolean;
+  breached: boolean; // This trade would exceed the limit
+}
+
+export interface GuardrailCheckResult {
+  allowed: boolean;
+  reason: string | null;
+  statuses: GuardrailStatus[];
+}
+
+// Columns to select from positions for computeGuardrailUsage
+export const GUARDRAIL_POSITION_COLUMNS =
+  'id, token_address, chain, status, entry_value, remaining_fraction, profit_loss_percent, created_at, closed_at';
+
+// IMPORTANT: Defaults MUST match the risk_settings column defaults (all limits off)
+export const DEFAULT_GUARDRAIL_LIMITS: GuardrailLimits = {
+  max_daily_loss_sol: 0,
+  max_open_exposure_sol: 0,
+  max_token_exposure_sol: 0,
+  max_trades_per_hour: 0,
+};
+
+function toLimit(value: unknown): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(num) && num > 0 ? num : 0;
+}
+
+export function parseGuardrailLimits(raw: unknown): GuardrailLimits {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    max_daily_loss_sol: toLimit(value.max_daily_loss_sol),
+    max_open_exposure_sol: toLimit(value.max_open_exposure_sol),
+    max_token_exposure_sol: toLimit(value.max_token_exposure_sol),
+    max_trades_per_hour: Math.floor(toLimit(value.max_trades_per_hour)),
+  };
+}
+
+export function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function startOfTradeHour(now: Date): Date {
+  return new Date(now.getTime() - 60 * 60 * 1000);
+}
+
+// Columns to select from trade_history (trade_type = sell, created_at >= start of the UTC day)
+export const GUARDRAIL_SELL_COLUMNS = 'position_id, realized_pnl_sol, created_at';
+
+// Columns to select from position_fills (side = buy, status = confirmed, created_at >= startOfTradeHour)
+export const GUARDRAIL_BUY_FILL_COLUMNS = 'position_id, created_at';
+
+// PostgREST or-filter selecting every row computeGuardrailUsage can count
+export function guardrailPositionsFilter(now: Date): string {
+  const hourAgo = startOfTradeHour(now).toISOString();
+  const dayStart = startOfUtcDay(now).toISOString();
+  return `status.eq.open,created_at.gte.${hourAgo},closed_at.gte.${dayStart}`;
+}
+
+// SOL still at risk in an open position (partial exits shrink it)
+function openCostBasis(row: GuardrailPositionRow): number {
+  const entry = Number(row.entry_value ?? 0);
+  const remaining = row.remaining_fraction ?? 1;
+  return Number.isFinite(entry) && entry > 0 ? entry * Math.max(0, Math.min(1, remaining)) : 0;
+}
+
+/**
+ * Daily loss is what today's sells booked, so a position laddered out at a loss counts before it closes.
+ * Positions closed today without any booked sell (older rows) fall back to entry value x final P&L %.
+ * Loss and exposure are SOL amounts, so only Solana positions count; the trade rate counts every chain.
+ * Each confirmed buy fill in the hour is a trade, so averaging into an open position counts too;
+ * positions opened without a fill (older rows) count once.
+ */
+export function computeGuardrailUsage(
+  rows: GuardrailPositionRow[],
+  now: Date,
+  tokenAddress?: string,
+  sells: GuardrailSellRow[] = [],
+  buys: GuardrailBuyFillRow[] = []
+): GuardrailUsage {
+  const dayStart = startOfUtcDay(now).getTime();
+  const hourAgo = startOfTradeHour(now).getTime();
+
+  const isSolana = (row: GuardrailPositionRow) => (row.chain ?? 'solana') === 'solana';
+  const otherChainPositions = new Set(rows.filter((row) => !isSolana(row)).map((row) => row.id));
+
+  let realizedPnlSol = 0;
+  const bookedPositions = new Set<string>();
+  for (const sell of sells) {
+    const pnl = Number(sell.realized_pnl_sol);
+    if (sell.realized_pnl_sol === null || !Number.isFinite(pnl) || Date.parse(sell.created_at) < dayStart) continue;
+    if (sell.position_id && otherChainPositions.has(sell.position_id)) continue;
+    realizedPnlSol += pnl;
+    if (sell.position_id) bookedPositions.add(sell.position_id);
+  }
+
+  let openExposureSol = 0;
+  let tokenExposureSol = 0;
+  const buyFills = new Map<string, number>();
+  for (const buy of buys) {
+    if (Date.parse(buy.created_at) < hourAgo) continue;
+    buyFills.set(buy.position_id, (buyFills.get(buy.position_id) ?? 0) + 1);
+  }
+  let tradesLastHour = 0;
+
+  for (const row of rows) {
+    if (row.status === 'open' && isSolana(row)) {
+      const basis = openCostBasis(row);
+      openExposureSol += basis;
+      if (tokenAddress && row.token_address === tokenAddress) tokenExposureSol += basis;
+    }
+
+    if (row.status === 'closed' && isSolana(row) && row.closed_at && Date.parse(row.closed_at) >= dayStart && !bookedPositions.has(row.id)) {
+      const entry = Number(row.entry_value ?? 0);
+      const pct = Number(row.profit_loss_percent ?? 0);
+      if (Number.isFinite(entry) && Number.isFinite(pct)) realizedPnlSol += entry * (pct / 100);
+    }
+
+    // Unsigned pending rows are dropped by confirm-transaction; only filled buys count
+    if ((row.status === 'open' || row.status === 'closed') && Date.parse(row.created_at) >= hourAgo) {
+      tradesLastHour += Math.max(1, buyFills.get(row.id) ?? 0);
+      buyFills.delete(row.id);
+    }
+  }
+  // Buys averaged into positions opened before the hour
+  for (const count of buyFills.values()) tradesLastHour += count;
+
+  return {
+    dailyLossSol: Math.max(0, -realizedPnlSol),
+    openExposureSol,
+    tokenExposureSol,
+    tradesLastHour,
+  };
+}
+
+// Would a buy of tradeSol breach any limit? tradeSol = 0 just reports utilization,
+// unless isBuy marks a buy paid in another coin (only the trade count grows).
+export function evaluateGuardrails(
+  limits: GuardrailLimits,
+  usage: GuardrailUsage,
+  tradeSol = 0,
+  isBuy = tradeSol > 0
+): GuardrailCheckResult {
+  const statuses: GuardrailStatus[] = [
+    {
+      id: 'daily_loss',
+      label: 'Daily realized loss',
+      used: usage.dailyLossSol,
+      limit: limits.max_daily_loss_sol,
+      enabled: limits.max_daily_loss_sol > 0,
+      breached: limits.max_daily_loss_sol > 0 && usage.dailyLossSol >= limits.max_daily_loss_sol,
+    },
+    {
+      id: 'open_exposure',
+      label: 'Open exposure',
+      used: usage.openExposureSol,
+      limit: limits.max_open_exposure_sol,
+      enabled: limits.max_open_exposure_sol > 0,
+      breached: limits.max_open_exposure_sol > 0 && usage.openExposureSol + tradeSol > limits.max_open_exposure_sol,
+    },
+    {
+      id: 'token_exposure',
+      label: 'Exposure per token',
+      used: usage.tokenExposureSol,
+      limit: limits.max_token_exposure_sol,
+      enabled: limits.max_token_exposure_sol > 0,
+      breached: limits.max_token_exposure_sol > 0 && usage.tokenExposureSol + tradeSol > limits.max_token_exposure_sol,
+    },
+    {
+      id: 'trades_per_hour',
+      label: 'Trades per hour',
+      used: usage.tradesLastHour,
+      limit: limits.max_trades_per_hour,
+      enabled: limits.max_trades_per_hour > 0,
+      breached: limits.max_trades_per_hour > 0 && usage.tradesLastHour + (isBuy ? 1 : 0) > limits.max_trades_per_hour,
+    },
+  ];
+
+  const breached = statuses.find((s) => s.breached);
+  let reason: string | null = null;
+  if (breached) {
+    switch (breached.id) {
+      case 'daily_loss':
+        reason = `Daily loss limit reached: ${usage.dailyLossSol.toFixed(3)} / ${limits.max_daily_loss_sol} SOL`;
+        break;
+      case 'open_exposure':
+        reason = `Max open exposure exceeded: ${(usage.openExposureSol + tradeSol).toFixed(3)} / ${limits.max_open_exposure_sol} SOL`;
+        break;
+      case 'token_exposure':
+        reason = `Max exposure per token exceeded: ${(usage.tokenExposureSol + tradeSol).toFixed(3)} / ${limits.max_token_exposure_sol} SOL`;
+        break;
+      case 'trades_per_hour':
+        reason = `Max trades per hour reached: ${usage.tradesLastHour} / ${limits.max_trades_per_hour}`;
+        break;
+    }
+  }
+
+  return { allowed: !breached, reason, statuses };
+}
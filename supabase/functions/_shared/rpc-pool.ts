@@ -0,0 +1,343 @@
+/**
+ * Solana RPC endpoint pool - health scoring and failover
+ * Shared by Edge Functions (endpoints from admin_settings.rpc_endpoints) and the browser trading engine.
+ * No Deno APIs: requests go through the global fetch so the same pool runs on both sides.
+ */
+
+export const DEFAULT_RPC_URL = 'https://api.mainnet-beta.solana.com';
+
+// admin_settings.rpc_endpoints as saved by RpcSettingsPanel
+export interface RpcEndpointsSetting {
+  primary: string;
+  helius: string | null;
+  quicknode: string | null;
+  useHelius: boolean;
+}
+
+export interface RpcEndpointConfig {
+  name: string;
+  url: string;
+  priority: number; // Lower = preferred when health is otherwise equal
+}
+
+export interface RpcEndpointHealth extends RpcEndpointConfig {
+  latencyMs: number | null;   // Moving average of successful requests
+  errorRate: number;          // Moving average, 0..1
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSlot: number | null;
+  lastStatus: number | null;  // HTTP status of the last response (0 = network error / timeout)
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  cooldownUntil: number;      // Skipped (unless nothing else is left) until this time
+}
+
+export type RpcEndpointState = 'online' | 'degraded' | 'offline';
+
+export interface RpcEndpointReport {
+  name: string;
+  url: string;
+  state: RpcEndpointState;
+  latencyMs: number | null;
+  errorRate: number;
+  slotLag: number | null;
+  lastError: string | null;
+  active: boolean;
+}
+
+const LATENCY_SMOOTHING = 0.3;
+const ERROR_SMOOTHING = 0.2;
+const UNKNOWN_LATENCY_MS = 400;
+const MAX_SLOT_LAG_PENALTY = 150;
+const DEGRADED_LATENCY_MS = 1500;
+const DEGRADED_SLOT_LAG = 50;
+
+// JSON-RPC errors that mean "this node is unhealthy", not "the request is wrong"
+const NODE_UNHEALTHY_RPC_CODES = new Set([-32005, -32004, -32016]);
+
+export function isFailoverStatus(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+export function isNodeUnhealthyRpcError(code: unknown): boolean {
+  return typeof code === 'number' && NODE_UNHEALTHY_RPC_CODES.has(code);
+}
+
+// Hide API keys (query strings and long path segments) before logging or storing an endpoint
+export function maskRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname
+      .split('/')
+      .map((segment) => (segment.length > 16 ? `${segment.slice(0, 4)}…` : segment))
+      .join('/');
+    return `${parsed.protocol}//${parsed.host}${path === '/' ? '' : path}${parsed.search ? '?…' : ''}`;
+  } catch {
+    return url.slice(0, 24);
+  }
+}
+
+function isHttpUrl(url: string | null | undefined): url is string {
+  return typeof url === 'string' && /^https?:\/\//i.test(url.trim());
+}
+
+/**
+ * Ordered, de-duplicated endpoint list: the admin setting first (Helius ahead of primary when
+ * useHelius is on), then any extra URLs (env vars), then the public mainnet endpoint as last resort.
+ */
+export function buildRpcEndpoints(
+  setting: Partial<RpcEndpointsSetting> | null,
+  extra: { name: string; url: string | null | undefined }[] = []
+): RpcEndpointConfig[] {
+  const candidates: { name: string; url: string | null | undefined }[] = [];
+  if (setting?.useHelius) candidates.push({ name: 'helius', url: setting.helius });
+  candidates.push({ name: 'primary', url: setting?.primary });
+  if (!setting?.useHelius) candidates.push({ name: 'helius', url: setting?.helius });
+  candidates.push({ name: 'quicknode', url: setting?.quicknode });
+  candidates.push(...extra);
+  candidates.push({ name: 'public', url: DEFAULT_RPC_URL });
+
+  const seen = new Set<string>();
+  const endpoints: RpcEndpointConfig[] = [];
+  for (const candidate of candidates) {
+    if (!isHttpUrl(candidate.url)) continue;
+    const url = candidate.url.trim();
+    if (seen.has(url)) continue;
+    seen.add(url);
+    const name = endpoints.some((e) => e.name === candidate.name) ? `${candidate.name}-${endpoints.length}` : candidate.name;
+    endpoints.push({ name, url, priority: endpoints.length });
+  }
+  return endpoints;
+}
+
+export function createRpcHealth(config: RpcEndpointConfig): RpcEndpointHealth {
+  return {
+    ...config,
+    latencyMs: null,
+    errorRate: 0,
+    requests: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    lastSlot: null,
+    lastStatus: null,
+    lastError: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    cooldownUntil: 0,
+  };
+}
+
+export function recordRpcSuccess(
+  health: RpcEndpointHealth,
+  latencyMs: number,
+  slot: number | null,
+  now: number
+): RpcEndpointHealth {
+  return {
+    ...health,
+    latencyMs: health.latencyMs === null ? latencyMs : health.latencyMs + LATENCY_SMOOTHING * (latencyMs - health.latencyMs),
+    errorRate: health.errorRate * (1 - ERROR_SMOOTHING),
+    requests: health.requests + 1,
+    consecutiveFailures: 0,
+    lastSlot: slot !== null && slot > (health.lastSlot ?? 0) ? slot : health.lastSlot,
+    lastStatus: 200,
+    lastSuccessAt: now,
+    cooldownUntil: 0,
+  };
+}
+
+// Rate limits back off longer than server errors; both double per consecutive failure
+export function recordRpcFailure(
+  health: RpcEndpointHealth,
+  failure: { status: number; error: string },
+  now: number
+): RpcEndpointHealth {
+  const consecutiveFailures = health.consecutiveFailures + 1;
+  const baseMs = failure.status === 429 ? 10_000 : 5_000;
+  const capMs = failure.status === 429 ? 120_000 : 60_000;
+  return {
+    ...health,
+    errorRate: health.errorRate * (1 - ERROR_SMOOTHING) + ERROR_SMOOTHING,
+    requests: health.requests + 1,
+    failures: health.failures + 1,
+    consecutiveFailures,
+    lastStatus: failure.status,
+    lastError: failure.error,
+    lastFailureAt: now,
+    cooldownUntil: now + Math.min(capMs, baseMs * 2 ** (consecutiveFailures - 1)),
+  };
+}
+
+function highestSlot(endpoints: RpcEndpointHealth[]): number | null {
+  const slots = endpoints.map((e) => e.lastSlot).filter((s): s is number => s !== null);
+  return slots.length > 0 ? Math.max(...slots) : null;
+}
+
+export function rpcSlotLag(health: RpcEndpointHealth, maxSlot: number | null): number | null {
+  if (maxSlot === null || health.lastSlot === null) return null;
+  return Math.max(0, maxSlot - health.lastSlot);
+}
+
+// Lower is better: latency plus penalties for recent errors, lagging slots and config order
+export function rpcEndpointScore(health: RpcEndpointHealth, maxSlot: number | null, now: number): number {
+  const cooling = health.cooldownUntil > now ? 100_000 : 0;
+  const latency = health.latencyMs ?? UNKNOWN_LATENCY_MS;
+  const lag = Math.min(rpcSlotLag(health, maxSlot) ?? 0, MAX_SLOT_LAG_PENALTY);
+  return cooling + latency + health.errorRate * 2000 + lag * 20 + health.priority * 25;
+}
+
+export function rankRpcEndpoints(endpoints: RpcEndpointHealth[], now: number): RpcEndpointHealth[] {
+  const maxSlot = highestSlot(endpoints);
+  return [...endpoints].sort((a, b) => rpcEndpointScore(a, maxSlot, now) - rpcEndpointScore(b, maxSlot, now));
+}
+
+export function rpcEndpointState(health: RpcEndpointHealth, maxSlot: number | null, now: number): RpcEndpointState {
+  if (health.cooldownUntil > now && health.consecutiveFailures >= 3) return 'offline';
+  if (health.requests > 0 && health.lastSuccessAt === null) return 'offline';
+  const lag = rpcSlotLag(health, maxSlot) ?? 0;
+  if (
+    health.cooldownUntil > now ||
+    health.errorRate >= 0.2 ||
+    lag > DEGRADED_SLOT_LAG ||
+    (health.latencyMs ?? 0) > DEGRADED_LATENCY_MS
+  ) {
+    return 'degraded';
+  }
+  return 'online';
+}
+
+export function reportRpcEndpoints(endpoints: RpcEndpointHealth[], now: number): RpcEndpointReport[] {
+  const maxSlot = highestSlot(endpoints);
+  const active = rankRpcEndpoints(endpoints, now)[0]?.url;
+  return endpoints.map((e) => ({
+    name: e.name,
+    url: maskRpcUrl(e.url),
+    state: rpcEndpointState(e, maxSlot, now),
+    latencyMs: e.latencyMs === null ? null : Math.round(e.latencyMs),
+    errorRate: Math.round(e.errorRate * 100) / 100,
+    slotLag: rpcSlotLag(e, maxSlot),
+    lastError: e.lastError,
+    active: e.url === active,
+  }));
+}
+
+// Slot from getSlot, or the context.slot most account / balance reads return
+function slotFromRpcResult(result: unknown): number | null {
+  if (typeof result === 'number' && Number.isInteger(result)) return result;
+  const slot = (result as { context?: { slot?: unknown } } | null)?.context?.slot;
+  return typeof slot === 'number' ? slot : null;
+}
+
+export interface RpcPoolOptions {
+  timeoutMs?: number;
+  // Called after every failed attempt (metrics, logging)
+  onFailure?: (endpoint: RpcEndpointHealth, failure: { status: number; error: string }) => void;
+}
+
+export interface RpcPool {
+  // fetch() replacement for JSON-RPC POSTs: tries endpoints healthiest-first, failing over on 429 / 5xx / timeouts
+  request: (init: RequestInit) => Promise<Response>;
+  call: <T>(method: string, params?: unknown[]) => Promise<T>;
+  probe: () => Promise<RpcEndpointReport[]>;
+  endpoints: () => RpcEndpointHealth[];
+  report: () => RpcEndpointReport[];
+  activeUrl: () => string;
+}
+
+export function createRpcPool(configs: RpcEndpointConfig[], options: RpcPoolOptions = {}): RpcPool {
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  let endpoints = (configs.length > 0 ? configs : buildRpcEndpoints(null)).map(createRpcHealth);
+
+  const update = (url: string, next: (h: RpcEndpointHealth) => RpcEndpointHealth) => {
+    endpoints = endpoints.map((e) => (e.url === url ? next(e) : e));
+  };
+
+  const fail = (endpoint: RpcEndpointHealth, status: number, error: string) => {
+    const failure = { status, error };
+    update(endpoint.url, (h) => recordRpcFailure(h, failure, Date.now()));
+    options.onFailure?.(endpoint, failure);
+  };
+
+  // healthy = false means the caller should move on to the next endpoint
+  const attempt = async (endpoint: RpcEndpointHealth, init: RequestInit): Promise<{ response: Response | null; healthy: boolean }> => {
+    const started = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(endpoint.url, { ...init, method: 'POST', signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      const message = error instanceof Error && error.name === 'TimeoutError' ? 'Timeout' : (error instanceof Error ? error.message : 'Network error');
+      fail(endpoint, 0, message);
+      return { response: null, healthy: false };
+    }
+
+    if (isFailoverStatus(response.status)) {
+      fail(endpoint, response.status, `HTTP ${response.status}`);
+      return { response, healthy: false };
+    }
+
+    let slot: number | null = null;
+    try {
+      const body = await response.clone().json();
+      const first = Array.isArray(body) ? body[0] : body;
+      if (isNodeUnhealthyRpcError(first?.error?.code)) {
+        fail(endpoint, response.status, first.error.message || `RPC error ${first.error.code}`);
+        return { response, healthy: false };
+      }
+      slot = slotFromRpcResult(first?.result);
+    } catch {
+      // Non-JSON body - leave it for the caller to report
+    }
+
+    update(endpoint.url, (h) => recordRpcSuccess(h, Date.now() - started, slot, Date.now()));
+    return { response, healthy: true };
+  };
+
+  const request = async (init: RequestInit): Promise<Response> => {
+    let fallback: Response | null = null;
+    for (const endpoint of rankRpcEndpoints(endpoints, Date.now())) {
+      const { response, healthy } = await attempt(endpoint, init);
+      if (healthy && response) return response;
+      fallback = response ?? fallback;
+    }
+    if (fallback) return fallback;
+    throw new Error(`All ${endpoints.length} RPC endpoints failed`);
+  };
+
+  const call = async <T>(method: string, params: unknown[] = []): Promise<T> => {
+    const response = await request({
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`RPC error ${response.status}: ${text.slice(0, 160)}`);
+    }
+    const data = await response.json();
+    if (data?.error) throw new Error(data.error?.message || 'RPC returned an error');
+    return data?.result as T;
+  };
+
+  // getSlot on every endpoint so idle ones get latency / slot lag numbers too
+  const probe = async (): Promise<RpcEndpointReport[]> => {
+    await Promise.all(
+      endpoints.map((endpoint) =>
+        attempt(endpoint, {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getSlot', params: [{ commitment: 'confirmed' }] }),
+        })
+      )
+    );
+    return reportRpcEndpoints(endpoints, Date.now());
+  };
+
+  return {
+    request,
+    call,
+    probe,
+    endpoints: () => endpoints,
+    report: () => reportRpcEndpoints(endpoints, Date.now()),
+    activeUrl: () => rankRpcEndpoints(endpoints, Date.now())[0].url,
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Service calls from the headless bot runner
+ * bot-runner calls token-scanner, auto-sniper and auto-exit for each active user with the service
+ * role key as bearer and the user's id in RUNNER_USER_HEADER, in place of that user's JWT.
+ */
+
+export const RUNNER_USER_HEADER = 'x-runner-user-id';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceRoleKey && req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`;
+}
+
+// The user a runner call acts for; null for ordinary requests, which still need a user JWT
+export function runnerUserId(req: Request): string | null {
+  if (!isServiceRoleRequest(req)) return null;
+  const userId = req.headers.get(RUNNER_USER_HEADER);
+  return userId && UUID.test(userId) ? userId : null;
+}
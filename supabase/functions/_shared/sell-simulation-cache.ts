@@ -0,0 +1,64 @@
+/**
+ * Per-mint cache of sell simulations for Edge Functions
+ * risk-check and auto-sniper share token_sell_simulations, so a mint is only round-tripped once per TTL
+ * whichever function asks first. Unverified results are not cached - the next check retries.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getApiKey } from "./api-keys.ts";
+import { getSolanaRpc } from "./solana-rpc.ts";
+import {
+  createJupiterRouter,
+  isSellSimulationFresh,
+  sellSimulationToRow,
+  simulateSellRoundTrip,
+  type SellSimulation,
+} from "./sell-simulation.ts";
+
+const JUPITER_PAID_API_URL = "https://public.jupiterapi.com";
+
+async function loadCached(supabase: ReturnType<typeof createClient>, mint: string): Promise<SellSimulation | null> {
+  const { data } = await supabase
+    .from('token_sell_simulations')
+    .select('result, simulated_at')
+    .eq('token_address', mint)
+    .maybeSingle();
+  return data && isSellSimulationFresh(data.simulated_at) ? data.result as SellSimulation : null;
+}
+
+// Cached simulation for a mint, running a fresh round trip when the cache is stale. Never throws.
+export async function getSellSimulation(
+  supabase: ReturnType<typeof createClient>,
+  mint: string
+): Promise<SellSimulation> {
+  try {
+    const cached = await loadCached(supabase, mint);
+    if (cached) return cached;
+
+    const jupiterKey = await getApiKey('jupiter');
+    const router = jupiterKey ? createJupiterRouter(JUPITER_PAID_API_URL, jupiterKey) : createJupiterRouter();
+    const simulation = await simulateSellRoundTrip(await getSolanaRpc(), mint, { router });
+
+    if (simulation.status !== 'unverified') {
+      const { error } = await supabase
+        .from('token_sell_simulations')
+        .upsert(sellSimulationToRow(simulation), { onConflict: 'token_address' });
+      if (error) console.error('[SellSim] Failed to cache simulation:', error.message);
+    }
+    console.log(`[SellSim] ${mint}: ${simulation.status} (buy tax ${simulation.buy.taxPercent ?? '?'}%, sell tax ${simulation.sell.taxPercent ?? '?'}%)`);
+    return simulation;
+  } catch (error) {
+    console.error('[SellSim] Simulation error:', error);
+    return {
+      mint,
+      status: 'unverified',
+      probeWallet: null,
+      probeLamports: 0,
+      buy: { ok: false, quotedOut: null, simulatedOut: null, taxPercent: null, error: null },
+      sell: { ok: false, quotedOut: null, simulatedOut: null, taxPercent: null, error: null },
+      roundTripLossPercent: null,
+      error: error instanceof Error ? error.message : String(error),
+      simulatedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Sell-simulation honeypot check for risk-check and auto-sniper
+ * Quotes a tiny SOL -> token -> SOL round trip on Jupiter and runs simulateTransaction on both legs
+ * as an existing holder (it already has the token account and balance the sell leg needs), so a sell
+ * the token blocks, or a tax the quotes don't show, surfaces before we buy
+ */
+
+import { decodeBase58, encodeBase58 } from './jito.ts';
+import { HOLDER_EXCLUDED_OWNERS, parseTokenAccount } from './holder-analysis.ts';
+import type { RpcPool } from './rpc-pool.ts';
+
+export const SELL_SIMULATION_PROBE_LAMPORTS = 10_000_000; // 0.01 SOL
+export const SELL_SIMULATION_TTL_MS = 5 * 60_000;
+export const JUPITER_SWAP_API_URL = 'https://lite-api.jup.ag/swap/v1';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const ASSOCIATED_TOKEN_PROGRAM = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+const SIMULATION_SLIPPAGE_BPS = 1000;
+// Fee for the single signature on a Jupiter swap; simulateTransaction charges it even with sigVerify off
+const BASE_FEE_LAMPORTS = 5_000n;
+// Probe wallet must fund the buy plus fees and the temporary wSOL account rent
+const PROBE_MIN_LAMPORTS = SELL_SIMULATION_PROBE_LAMPORTS + 10_000_000;
+const MAX_ERROR_LOGS = 3;
+
+export type SellSimulationStatus = 'sellable' | 'unsellable' | 'unverified';
+
+export interface SimulatedLeg {
+  ok: boolean;
+  quotedOut: string | null; // raw units from the Jupiter quote
+  simulatedOut: string | null; // raw units the simulation actually credited to the probe wallet
+  taxPercent: number | null;
+  error: string | null;
+}
+
+export interface SellSimulation {
+  mint: string;
+  status: SellSimulationStatus;
+  probeWallet: string | null;
+  probeLamports: number;
+  buy: SimulatedLeg;
+  sell: SimulatedLeg;
+  roundTripLossPercent: number | null;
+  error: string | null; // why the round trip could not be simulated (status unverified)
+  simulatedAt: string;
+}
+
+export interface SellSimulationVerdict {
+  passed: boolean;
+  reason: string;
+}
+
+export interface SwapQuote {
+  outAmount: string;
+  [key: string]: unknown;
+}
+
+// Quote + unsigned swap transaction source; Jupiter by default, injectable for tests
+export interface SwapRouter {
+  quote(inputMint: string, outputMint: string, amount: string): Promise<SwapQuote>;
+  swapTransaction(quote: SwapQuote, userPublicKey: string): Promise<string>; // base64 wire format
+}
+
+// token_sell_simulations row
+export interface SellSimulationRow {
+  token_address: string;
+  status: SellSimulationStatus;
+  buy_tax_percent: number | null;
+  sell_tax_percent: number | null;
+  round_trip_loss_percent: number | null;
+  result: SellSimulation;
+  simulated_at: string;
+}
+
+type RpcCaller = Pick<RpcPool, 'call'>;
+
+interface AccountInfoValue {
+  data: [string, string];
+  owner: string;
+  lamports: number;
+}
+
+interface SimulationValue {
+  err: unknown;
+  logs: string[] | null;
+  accounts: (AccountInfoValue | null)[] | null;
+}
+
+interface ProbeWallet {
+  wallet: string;
+  tokenAccount: string;
+  tokenBalance: bigint;
+  lamports: number;
+}
+
+const emptyLeg = (error: string | null = null): SimulatedLeg => ({
+  ok: false,
+  quotedOut: null,
+  simulatedOut: null,
+  taxPercent: null,
+  error,
+});
+
+// Shortfall of what the chain credited against what the quote promised, in percent (never negative)
+export function effectiveTaxPercent(quoted: bigint, received: bigint): number {
+  if (quoted <= 0n || received >= quoted) return 0;
+  return Number(((quoted - received) * 1_000_000n) / quoted) / 10_000;
+}
+
+export function isSellSimulationFresh(simulatedAt: string, now: number = Date.now(), ttlMs: number = SELL_SIMULATION_TTL_MS): boolean {
+  const at = Date.parse(simulatedAt);
+  return Number.isFinite(at) && now - at < ttlMs;
+}
+
+/**
+ * A sell leg that fails to simulate is a honeypot; otherwise the worse of the simulated buy and
+ * sell taxes must stay within maxTaxPercent. An unverified simulation passes with a warning.
+ */
+export function evaluateSellSimulation(simulation: SellSimulation | null, maxTaxPercent: number): SellSimulationVerdict {
+  if (!simulation || simulation.status === 'unverified') {
+    return { passed: true, reason: `⚠ Sell simulation unavailable${simulation?.error ? ` - ${simulation.error}` : ''}` };
+  }
+  if (simulation.status === 'unsellable') {
+    return { passed: false, reason: `✗ Sell simulation failed - ${simulation.sell.error ?? 'sell reverted'}` };
+  }
+
+  const buyTax = simulation.buy.taxPercent ?? 0;
+  const sellTax = simulation.sell.taxPercent ?? 0;
+  if (Math.max(buyTax, sellTax) > maxTaxPercent) {
+    return { passed: false, reason: `✗ Simulated tax Buy: ${buyTax}%, Sell: ${sellTax}% above max ${maxTaxPercent}%` };
+  }
+  return { passed: true, reason: `✓ Round trip simulated - Buy tax ${buyTax}%, Sell tax ${sellTax}%` };
+}
+
+export function sellSimulationToRow(simulation: SellSimulation): SellSimulationRow {
+  return {
+    token_address: simulation.mint,
+    status: simulation.status,
+    buy_tax_percent: simulation.buy.taxPercent,
+    sell_tax_percent: simulation.sell.taxPercent,
+    round_trip_loss_percent: simulation.roundTripLossPercent,
+    result: simulation,
+    simulated_at: simulation.simulatedAt,
+  };
+}
+
+// ---- Associated token address derivation (PDA: sha256 of seeds + bump that lands off the ed25519 curve) ----
+
+const ED25519_P = 2n ** 255n - 19n;
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = ((base % modulus) + modulus) % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+}
+
+const ED25519_D = ((-121665n * modPow(121666n, ED25519_P - 2n, ED25519_P)) % ED25519_P + ED25519_P) % ED25519_P;
+
+// Whether 32 bytes decode to an ed25519 point: x^2 = (y^2 - 1) / (d*y^2 + 1) must be a square
+function isOnCurve(bytes: Uint8Array): boolean {
+  let y = 0n;
+  for (let i = 31; i >= 0; i--) y = (y << 8n) | BigInt(i === 31 ? bytes[i] & 0x7f : bytes[i]);
+  if (y >= ED25519_P) return false;
+
+  const y2 = (y * y) % ED25519_P;
+  const u = (y2 - 1n + ED25519_P) % ED25519_P;
+  const v = (ED25519_D * y2 + 1n) % ED25519_P;
+  const x2 = (u * modPow(v, ED25519_P - 2n, ED25519_P)) % ED25519_P;
+  if (x2 === 0n) return (bytes[31] & 0x80) === 0;
+  return modPow(x2, (ED25519_P - 1n) / 2n, ED25519_P) === 1n;
+}
+
+async function findProgramAddress(seeds: Uint8Array[], programId: string): Promise<string> {
+  const suffix = new TextEncoder().encode('ProgramDerivedAddress');
+  const program = decodeBase58(programId);
+  for (let bump = 255; bump >= 0; bump--) {
+    const parts = [...seeds, Uint8Array.of(bump), program, suffix];
+    const buffer = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      buffer.set(part, offset);
+      offset += part.length;
+    }
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', buffer));
+    if (!isOnCurve(hash)) return encodeBase58(hash);
+  }
+  throw new Error('Unable to find a viable program address');
+}
+
+export function associatedTokenAddress(owner: string, mint: string, tokenProgram: string): Promise<string> {
+  return findProgramAddress([decodeBase58(owner), decodeBase58(tokenProgram), decodeBase58(mint)], ASSOCIATED_TOKEN_PROGRAM);
+}
+
+// ---- Round trip ----
+
+export function createJupiterRouter(baseUrl: string = JUPITER_SWAP_API_URL, apiKey?: string | null): SwapRouter {
+  const headers: Record<string, string> = { 'Accept': 'application/json', 'Content-Type': 'application/json' };
+  if (apiKey) headers['x-api-key'] = apiKey;
+
+  return {
+    async quote(inputMint, outputMint, amount) {
+      const params = new URLSearchParams({
+        inputMint,
+        outputMint,
+        amount,
+        slippageBps: String(SIMULATION_SLIPPAGE_BPS),
+        swapMode: 'ExactIn',
+      });
+      const response = await fetch(`${baseUrl}/quote?${params}`, { headers, signal: AbortSignal.timeout(10000) });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.outAmount) {
+        throw new Error(data?.error || `Jupiter quote failed: ${response.status}`);
+      }
+      return data as SwapQuote;
+    },
+    async swapTransaction(quote, userPublicKey) {
+      const response = await fetch(`${baseUrl}/swap`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          quoteResponse: quote,
+          userPublicKey,
+          wrapAndUnwrapSol: true,
+          prioritizationFeeLamports: 0,
+          dynamicComputeUnitLimit: false,
+        }),
+        signal: AbortSignal.timeout(15000),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.swapTransaction) {
+        throw new Error(data?.error || `Jupiter swap build failed: ${response.status}`);
+      }
+      return data.swapTransaction as string;
+    },
+  };
+}
+
+/**
+ * Largest holder that can stand in for us: a plain system wallet with SOL for the buy leg whose
+ * tokens sit in its associated token account (the account Jupiter will debit and credit)
+ */
+async function findProbeWallet(rpc: RpcCaller, mint: string): Promise<ProbeWallet | null> {
+  const largest = await rpc.call<{ value: { address: string }[] }>('getTokenLargestAccounts', [mint]);
+  const addresses = (largest?.value ?? []).map((a) => a.address);
+  if (!addresses.length) return null;
+
+  const accounts = await rpc.call<{ value: (AccountInfoValue | null)[] }>('getMultipleAccounts', [addresses, { encoding: 'base64' }]);
+  const candidates = (accounts?.value ?? [])
+    .map((account, i) => {
+      if (!account) return null;
+      const parsed = parseTokenAccount(account.data[0]);
+      return parsed && parsed.mint === mint && parsed.amount > 0n && !HOLDER_EXCLUDED_OWNERS[parsed.owner]
+        ? { ...parsed, tokenAccount: addresses[i], tokenProgram: account.owner }
+        : null;
+    })
+    .filter((c): c is NonNullable<typeof c> => c !== null);
+  if (!candidates.length) return null;
+
+  const owners = await rpc.call<{ value: (AccountInfoValue | null)[] }>('getMultipleAccounts', [
+    candidates.map((c) => c.owner),
+    { encoding: 'base64', dataSlice: { offset: 0, length: 0 } },
+  ]);
+
+  for (const [i, candidate] of candidates.entries()) {
+    const owner = owners?.value?.[i];
+    if (!owner || owner.owner !== SYSTEM_PROGRAM || owner.lamports < PROBE_MIN_LAMPORTS) continue;
+    if (await associatedTokenAddress(candidate.owner, mint, candidate.tokenProgram) !== candidate.tokenAccount) continue;
+    return {
+      wallet: candidate.owner,
+      tokenAccount: candidate.tokenAccount,
+      tokenBalance: candidate.amount,
+      lamports: owner.lamports,
+    };
+  }
+  return null;
+}
+
+function simulationError(value: SimulationValue): string {
+  const logs = (value.logs ?? []).filter((line) => /error|failed|insufficient/i.test(line)).slice(-MAX_ERROR_LOGS);
+  const err = typeof value.err === 'string' ? value.err : JSON.stringify(value.err);
+  return logs.length ? `${err}: ${logs.join(' | ')}` : err;
+}
+
+function simulate(rpc: RpcCaller, transaction: string, account: string): Promise<{ value: SimulationValue }> {
+  return rpc.call<{ value: SimulationValue }>('simulateTransaction', [
+    transaction,
+    {
+      encoding: 'base64',
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'processed',
+      accounts: { encoding: 'base64', addresses: [account] },
+    },
+  ]);
+}
+
+/**
+ * Buy probeLamports of the token and sell the quoted amount back, both simulated as the probe wallet.
+ * Buy tax compares the tokens credited with the buy quote; sell tax compares the SOL credited
+ * (plus the signature fee) with the sell quote. Quote or probe failures leave the mint unverified.
+ */
+export async function simulateSellRoundTrip(
+  rpc: RpcCaller,
+  mint: string,
+  options: { router?: SwapRouter; probeLamports?: number; now?: () => Date } = {}
+): Promise<SellSimulation> {
+  const router = options.router ?? createJupiterRouter();
+  const probeLamports = options.probeLamports ?? SELL_SIMULATION_PROBE_LAMPORTS;
+  const result: SellSimulation = {
+    mint,
+    status: 'unverified',
+    probeWallet: null,
+    probeLamports,
+    buy: emptyLeg(),
+    sell: emptyLeg(),
+    roundTripLossPercent: null,
+    error: null,
+    simulatedAt: (options.now?.() ?? new Date()).toISOString(),
+  };
+
+  const probe = await findProbeWallet(rpc, mint);
+  if (!probe) return { ...result, error: 'No holder wallet to simulate from' };
+  result.probeWallet = probe.wallet;
+
+  let buyQuote: SwapQuote;
+  let sellQuote: SwapQuote;
+  let sellAmount: bigint;
+  try {
+    buyQuote = await router.quote(SOL_MINT, mint, String(probeLamports));
+    sellAmount = BigInt(buyQuote.outAmount) < probe.tokenBalance ? BigInt(buyQuote.outAmount) : probe.tokenBalance;
+    sellQuote = await router.quote(mint, SOL_MINT, sellAmount.toString());
+  } catch (error) {
+    return { ...result, error: `No round-trip route: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  let buyTx: string;
+  let sellTx: string;
+  try {
+    [buyTx, sellTx] = await Promise.all([
+      router.swapTransaction(buyQuote, probe.wallet),
+      router.swapTransaction(sellQuote, probe.wallet),
+    ]);
+  } catch (error) {
+    return { ...result, error: `Swap build failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const [buySim, sellSim] = await Promise.all([
+    simulate(rpc, buyTx, probe.tokenAccount),
+    simulate(rpc, sellTx, probe.wallet),
+  ]);
+
+  result.buy.quotedOut = buyQuote.outAmount;
+  if (buySim?.value && !buySim.value.err) {
+    const post = buySim.value.accounts?.[0] ? parseTokenAccount(buySim.value.accounts[0].data[0])?.amount ?? null : null;
+    const received = post === null ? null : post - probe.tokenBalance;
+    result.buy.ok = true;
+    result.buy.simulatedOut = received?.toString() ?? null;
+    result.buy.taxPercent = received === null ? null : effectiveTaxPercent(BigInt(buyQuote.outAmount), received);
+  } else {
+    result.buy.error = buySim?.value ? simulationError(buySim.value) : 'Simulation returned no result';
+  }
+
+  result.sell.quotedOut = sellQuote.outAmount;
+  if (!sellSim?.value) {
+    return { ...result, sell: { ...result.sell, error: 'Simulation returned no result' }, error: 'Sell simulation returned no result' };
+  }
+  if (sellSim.value.err) {
+    result.sell.error = simulationError(sellSim.value);
+    return { ...result, status: 'unsellable' };
+  }
+
+  const postLamports = sellSim.value.accounts?.[0]?.lamports;
+  const solReceived = postLamports === undefined ? null : BigInt(postLamports) - BigInt(probe.lamports) + BASE_FEE_LAMPORTS;
+  result.sell.ok = true;
+  result.sell.simulatedOut = solReceived?.toString() ?? null;
+  result.sell.taxPercent = solReceived === null ? null : effectiveTaxPercent(BigInt(sellQuote.outAmount), solReceived);
+
+  // SOL back per SOL in, scaled up when the probe held less than the buy quote
+  const tokensBought = result.buy.simulatedOut === null ? null : BigInt(result.buy.simulatedOut);
+  if (solReceived !== null && tokensBought !== null && sellAmount > 0n) {
+    result.roundTripLossPercent = effectiveTaxPercent(BigInt(probeLamports), (solReceived * tokensBought) / sellAmount);
+  }
+
+  return { ...result, status: 'sellable' };
+}
@@ -0,0 +1,380 @@
+/**
+ * Sniper rules engine shared by Edge Functions and the browser
+ * Pure checks (no network / DB access). Network-backed checks (risk API, DEX routes)
+ * are injected as resolvers so auto-sniper, the UI and the backtester run the same chain.
+ *
+ * NOTE: Keep this file free of imports - it is bundled by Vite (src/lib/sniperRules.ts)
+ * as well as loaded by Deno.
+ */
+
+export interface TokenData {
+  address: string;
+  name: string;
+  symbol: string;
+  chain: string;
+  liquidity: number;
+  liquidityLocked: boolean;
+  lockPercentage: number | null;
+  buyerPosition: number | null;
+  riskScore: number;
+  categories: string[];
+  priceUsd?: number;
+  // Scanner validation flags - CRITICAL for bypassing DEX route checks
+  isPumpFun?: boolean;      // From token-scanner: on Pump.fun bonding curve
+  isTradeable?: boolean;    // From token-scanner: verified as tradeable
+  canBuy?: boolean;         // From token-scanner: buy is possible
+  canSell?: boolean;        // From token-scanner: sell is possible
+  source?: string;          // API source (e.g., 'Pump.fun', 'DexScreener')
+  safetyReasons?: string[]; // Safety check results from scanner
+}
+
+// Settings fields the rules need (subset of the user_sniper_settings row)
+export interface SniperRuleSettings {
+  min_liquidity: number;
+  category_filters: string[];
+  token_blacklist: string[];
+  token_whitelist: string[];
+  max_risk_score?: number | null;
+  rule_config?: unknown;
+}
+
+// Settings fields used to build trade params for approved tokens
+export interface SnipeTradeSettings {
+  trade_amount: number;
+  priority: string;
+  slippage_tolerance?: number | null;
+  profit_take_percentage: number;
+  stop_loss_percentage: number;
+  min_liquidity: number;
+  max_concurrent_trades: number;
+}
+
+export interface RuleResult {
+  passed: boolean;
+  reason: string;
+}
+
+export type SnipeRuleId =
+  | 'sellability'
+  | 'liquidity'
+  | 'liquidity_lock'
+  | 'category'
+  | 'buyer_position'
+  | 'blacklist_whitelist'
+  | 'risk'
+  | 'route'
+  | 'sell_simulation';
+
+// Per-user rule toggle; array order is evaluation order
+export interface SnipeRuleConfig {
+  id: SnipeRuleId;
+  enabled: boolean;
+}
+
+export interface SnipeRuleDefinition {
+  id: SnipeRuleId;
+  label: string;
+  description: string;
+  locked?: boolean; // Cannot be disabled (still reorderable)
+}
+
+export interface SnipeRuleResult extends RuleResult {
+  id: SnipeRuleId;
+}
+
+export interface SnipeRuleOutcome {
+  approved: boolean;
+  reasons: string[];
+  ruleResults: SnipeRuleResult[];
+  failedRule: SnipeRuleId | null;
+}
+
+export interface SnipeDecision {
+  token: TokenData;
+  approved: boolean;
+  reasons: string[];
+  failedRule?: SnipeRuleId | null;
+  tradeParams: {
+    amount: number;
+    slippage: number;
+    priority: string;
+    profitTakePercent?: number;
+    stopLossPercent?: number;
+    minLiquidity?: number;
+    maxConcurrentTrades?: number;
+  } | null;
+}
+
+// Network-backed check that runs after the rule's local check passes
+export type SnipeRuleResolver = (token: TokenData) => RuleResult | Promise<RuleResult>;
+
+export interface EvaluateSnipeRulesOptions {
+  resolvers?: Partial<Record<SnipeRuleId, SnipeRuleResolver>>;
+}
+
+// Default chain - same order auto-sniper has always used
+export const SNIPE_RULE_DEFINITIONS: SnipeRuleDefinition[] = [
+  { id: 'sellability', label: 'Sellability', description: 'Reject tokens the scanner marked as unsellable', locked: true },
+  { id: 'liquidity', label: 'Minimum liquidity', description: 'Pool liquidity must meet your minimum' },
+  { id: 'liquidity_lock', label: 'Liquidity lock', description: 'Informational - notes whether LP is locked' },
+  { id: 'category', label: 'Category filters', description: 'Token must match one of your categories' },
+  { id: 'buyer_position', label: 'Buyer position', description: 'Enter as buyer #2-#10 only' },
+  { id: 'blacklist_whitelist', label: 'Blacklist / whitelist', description: 'Apply your token lists' },
+  { id: 'risk', label: 'Risk check', description: 'Risk score ceiling plus honeypot API when configured' },
+  { id: 'route', label: 'Trade route', description: 'A Pump.fun, Jupiter or Raydium route must exist' },
+  { id: 'sell_simulation', label: 'Sell simulation', description: 'Simulated buy and sell must both succeed within your max tax' },
+];
+
+const RULE_IDS = new Set<string>(SNIPE_RULE_DEFINITIONS.map((rule) => rule.id));
+
+// Parse a rule_config JSONB value: unknown/duplicate ids dropped, missing rules appended enabled,
+// locked rules forced on
+export function normalizeRuleConfig(raw: unknown): SnipeRuleConfig[] {
+  const seen = new Set<SnipeRuleId>();
+  const config: SnipeRuleConfig[] = [];
+
+  if (Array.isArray(raw)) {
+    for (const entry of raw) {
+      const id = entry?.id;
+      if (typeof id !== 'string' || !RULE_IDS.has(id) || seen.has(id as SnipeRuleId)) continue;
+      seen.add(id as SnipeRuleId);
+      config.push({ id: id as SnipeRuleId, enabled: entry.enabled !== false });
+    }
+  }
+
+  for (const rule of SNIPE_RULE_DEFINITIONS) {
+    if (!seen.has(rule.id)) config.push({ id: rule.id, enabled: true });
+  }
+
+  return config.map((entry) =>
+    SNIPE_RULE_DEFINITIONS.find((rule) => rule.id === entry.id)?.locked
+      ? { ...entry, enabled: true }
+      : entry
+  );
+}
+
+// Rule 0: CRITICAL - Token must be sellable to avoid stuck positions
+export function checkSellability(token: TokenData): RuleResult {
+  if (token.canSell === false) {
+    return { passed: false, reason: '✗ Token cannot be sold (would create stuck position)' };
+  }
+  return { passed: true, reason: '✓ Token is sellable' };
+}
+
+// Rule 1: Check if liquidity meets user's minimum setting
+export function checkLiquidity(token: TokenData, settings: SniperRuleSettings): RuleResult {
+  const passed = token.liquidity >= settings.min_liquidity;
+  return {
+    passed,
+    reason: passed
+      ? `✓ Liquidity ${token.liquidity.toFixed(2)} SOL meets minimum ${settings.min_liquidity} SOL`
+      : `✗ Liquidity ${token.liquidity.toFixed(2)} SOL below minimum ${settings.min_liquidity} SOL`,
+  };
+}
+
+// Rule 2: Check if liquidity is locked (OPTIONAL - just informational, don't block)
+export function checkLiquidityLock(token: TokenData): RuleResult {
+  // Liquidity lock is informational only - many legitimate tokens don't lock
+  const isLocked = token.liquidityLocked === true;
+  return {
+    passed: true, // Always pass - this is just informational
+    reason: isLocked
+      ? `✓ Liquidity locked${token.lockPercentage ? ` (${token.lockPercentage}%)` : ''}`
+      : '⚠ Liquidity not locked - proceed with caution',
+  };
+}
+
+// Rule 3: Check if token matches user's category filters
+export function checkCategoryMatch(token: TokenData, settings: SniperRuleSettings): RuleResult {
+  // If user didn't set any filters, always pass
+  if (settings.category_filters.length === 0) {
+    return { passed: true, reason: '✓ No category filters applied' };
+  }
+
+  // IMPORTANT: In live scanning, category metadata may be unavailable.
+  // If we have no categories, don't block trading (otherwise nothing ever approves).
+  if (!token.categories || token.categories.length === 0) {
+    return {
+      passed: true,
+      reason: '✓ Category data unavailable - skipping category filter',
+    };
+  }
+
+  const matchedCategories = token.categories.filter((cat) =>
+    settings.category_filters.includes(cat.toLowerCase())
+  );
+
+  const passed = matchedCategories.length > 0;
+  return {
+    passed,
+    reason: passed
+      ? `✓ Matches categories: ${matchedCategories.join(', ')}`
+      : `✗ No match for filters: ${settings.category_filters.join(', ')}`,
+  };
+}
+
+// Rule 4: Check buyer position (allow positions 2-10 for live trading flexibility)
+export function checkBuyerPosition(token: TokenData): RuleResult {
+  const position = token.buyerPosition;
+
+  // If position is unknown, allow the trade (don't block on missing data)
+  if (position === null || position === undefined) {
+    return { passed: true, reason: '✓ Buyer position unknown - allowing trade' };
+  }
+
+  // Allow positions 2-10 (not first buyer, but reasonable entry)
+  const passed = position >= 2 && position <= 10;
+  return {
+    passed,
+    reason: passed
+      ? `✓ Can enter as buyer #${position}`
+      : position < 2
+        ? '✗ Would be first buyer - waiting for others'
+        : `✗ Buyer position #${position} too late (>10)`,
+  };
+}
+
+// Check blacklist/whitelist
+export function checkBlacklistWhitelist(
+  token: TokenData,
+  settings: SniperRuleSettings
+): RuleResult {
+  // Check blacklist first
+  if (settings.token_blacklist.some(addr =>
+    addr.toLowerCase() === token.address.toLowerCase()
+  )) {
+    return { passed: false, reason: '✗ Token is blacklisted by user' };
+  }
+
+  // If whitelist exists and is not empty, token must be on it
+  if (settings.token_whitelist.length > 0) {
+    const onWhitelist = settings.token_whitelist.some(addr =>
+      addr.toLowerCase() === token.address.toLowerCase()
+    );
+    return {
+      passed: onWhitelist,
+      reason: onWhitelist
+        ? '✓ Token is on whitelist'
+        : '✗ Token not on whitelist',
+    };
+  }
+
+  return { passed: true, reason: '✓ Token not blacklisted' };
+}
+
+// Rule 5 (local part): scanner risk score against the user's ceiling (skipped when no ceiling is set)
+export function checkRiskScore(token: TokenData, settings: SniperRuleSettings): RuleResult {
+  if (settings.max_risk_score === null || settings.max_risk_score === undefined) {
+    return { passed: true, reason: '✓ No risk score ceiling applied' };
+  }
+
+  const passed = token.riskScore <= settings.max_risk_score;
+  return {
+    passed,
+    reason: passed
+      ? `✓ Risk score ${token.riskScore} within max ${settings.max_risk_score}`
+      : `✗ Risk score ${token.riskScore} above max ${settings.max_risk_score}`,
+  };
+}
+
+// Rule 6 (local part): what the scanner already knows about tradability
+// The edge function layers the live Pump.fun / Jupiter / Raydium lookup on top
+export function checkRouteFlags(token: TokenData): RuleResult {
+  const isSolanaAddress = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(token.address);
+  if (token.chain !== 'solana' || token.address.startsWith('0x') || !isSolanaAddress) {
+    return { passed: false, reason: '✗ Non-Solana token rejected' };
+  }
+  if (token.canBuy === false) {
+    return { passed: false, reason: '✗ Scanner reports token cannot be bought' };
+  }
+  if (token.isPumpFun === true) {
+    return { passed: true, reason: '✓ Pump.fun bonding curve (verified by scanner)' };
+  }
+  if (token.isTradeable === true) {
+    return { passed: true, reason: '✓ Verified tradeable by token scanner' };
+  }
+  if (token.source === 'Pump.fun') {
+    return { passed: true, reason: '✓ Pump.fun source token' };
+  }
+  return { passed: true, reason: '⚠ Route not verified - scanner data only' };
+}
+
+// Rule 7 (local part): a round trip can only be simulated on-chain
+// The edge function runs the buy + sell simulation; without it the rule passes with a warning
+export function checkSellSimulation(token: TokenData): RuleResult {
+  if (token.canSell === false) {
+    return { passed: false, reason: '✗ Scanner reports token cannot be sold' };
+  }
+  return { passed: true, reason: '⚠ Sell not simulated - scanner data only' };
+}
+
+function runLocalCheck(id: SnipeRuleId, token: TokenData, settings: SniperRuleSettings): RuleResult {
+  switch (id) {
+    case 'sellability': return checkSellability(token);
+    case 'liquidity': return checkLiquidity(token, settings);
+    case 'liquidity_lock': return checkLiquidityLock(token);
+    case 'category': return checkCategoryMatch(token, settings);
+    case 'buyer_position': return checkBuyerPosition(token);
+    case 'blacklist_whitelist': return checkBlacklistWhitelist(token, settings);
+    case 'risk': return checkRiskScore(token, settings);
+    case 'route': return checkRouteFlags(token);
+    case 'sell_simulation': return checkSellSimulation(token);
+  }
+}
+
+// Run the enabled rules in the user's order, stopping at the first failure.
+// A resolver only runs once its rule's local check passes, and its reason replaces the local one.
+export async function evaluateSnipeRules(
+  token: TokenData,
+  settings: SniperRuleSettings,
+  options: EvaluateSnipeRulesOptions = {}
+): Promise<SnipeRuleOutcome> {
+  const reasons: string[] = [];
+  const ruleResults: SnipeRuleResult[] = [];
+
+  for (const { id, enabled } of normalizeRuleConfig(settings.rule_config)) {
+    if (!enabled) continue;
+
+    let result = runLocalCheck(id, token, settings);
+    const resolver = options.resolvers?.[id];
+    if (result.passed && resolver) {
+      result = await resolver(token);
+    }
+
+    reasons.push(result.reason);
+    ruleResults.push({ id, ...result });
+    if (!result.passed) {
+      return { approved: false, reasons, ruleResults, failedRule: id };
+    }
+  }
+
+  return { approved: true, reasons, ruleResults, failedRule: null };
+}
+
+// Slippage: user's configured tolerance, otherwise priority-based
+export function resolveSlippage(settings: Pick<SnipeTradeSettings, 'priority' | 'slippage_tolerance'>): number {
+  return settings.slippage_tolerance ?? (settings.priority === 'turbo' ? 15 : settings.priority === 'fast' ? 10 : 5);
+}
+
+export function buildSnipeDecision(
+  token: TokenData,
+  outcome: SnipeRuleOutcome,
+  settings: SnipeTradeSettings
+): SnipeDecision {
+  return {
+    token,
+    approved: outcome.approved,
+    reasons: outcome.reasons,
+    failedRule: outcome.failedRule,
+    tradeParams: outcome.approved ? {
+      amount: settings.trade_amount,
+      slippage: resolveSlippage(settings),
+      priority: settings.priority,
+      // Include TP/SL for reference
+      profitTakePercent: settings.profit_take_percentage,
+      stopLossPercent: settings.stop_loss_percentage,
+      minLiquidity: settings.min_liquidity,
+      maxConcurrentTrades: settings.max_concurrent_trades,
+    } : null,
+  };
+}
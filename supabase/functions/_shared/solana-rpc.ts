@@ -0,0 +1,108 @@
+/**
+ * Solana RPC client for Edge Functions
+ * Endpoints come from admin_settings.rpc_endpoints (RpcSettingsPanel) plus SOLANA_RPC_URL / HELIUS_RPC_URL.
+ * The pool lives at module scope, so health carries over between requests served by a warm isolate.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildRpcEndpoints,
+  createRpcPool,
+  maskRpcUrl,
+  type RpcEndpointHealth,
+  type RpcEndpointReport,
+  type RpcEndpointsSetting,
+  type RpcPool,
+} from "./rpc-pool.ts";
+
+const SETTINGS_TTL_MS = 60_000;
+// One failure row per endpoint per window keeps api_health_metrics from flooding during an outage
+const FAILURE_METRIC_INTERVAL_MS = 60_000;
+export const RPC_HEALTH_API_TYPE = 'solana_rpc';
+
+let pool: RpcPool | null = null;
+let poolKey = '';
+let loadedAt = 0;
+const lastFailureMetricAt = new Map<string, number>();
+
+function getServiceClient() {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+}
+
+async function loadRpcSetting(): Promise<Partial<RpcEndpointsSetting> | null> {
+  try {
+    const { data } = await getServiceClient()
+      .from('admin_settings')
+      .select('setting_value')
+      .eq('setting_key', 'rpc_endpoints')
+      .maybeSingle();
+    return (data?.setting_value as Partial<RpcEndpointsSetting> | null) ?? null;
+  } catch (error) {
+    console.error('[RPC] Failed to load rpc_endpoints setting:', error);
+    return null;
+  }
+}
+
+function recordFailureMetric(endpoint: RpcEndpointHealth, failure: { status: number; error: string }) {
+  console.warn(`[RPC] ${endpoint.name} failed (${failure.error}) - failing over`);
+  const now = Date.now();
+  if (now - (lastFailureMetricAt.get(endpoint.url) ?? 0) < FAILURE_METRIC_INTERVAL_MS) return;
+  lastFailureMetricAt.set(endpoint.url, now);
+
+  getServiceClient()
+    .from('api_health_metrics')
+    .insert({
+      api_type: RPC_HEALTH_API_TYPE,
+      endpoint: `${endpoint.name} ${maskRpcUrl(endpoint.url)}`,
+      status_code: failure.status || null,
+      is_success: false,
+      error_message: failure.error,
+    })
+    .then(({ error }) => {
+      if (error) console.error('[RPC] Failed to record health metric:', error.message);
+    });
+}
+
+/**
+ * Shared pool for the current isolate. Re-reads the endpoint setting at most once a minute
+ * and only rebuilds the pool (dropping health history) when the endpoint list changed.
+ */
+export async function getSolanaRpc(): Promise<RpcPool> {
+  if (pool && Date.now() - loadedAt < SETTINGS_TTL_MS) return pool;
+
+  const setting = await loadRpcSetting();
+  const endpoints = buildRpcEndpoints(setting, [
+    { name: 'helius-env', url: Deno.env.get('HELIUS_RPC_URL') },
+    { name: 'env', url: Deno.env.get('SOLANA_RPC_URL') },
+  ]);
+  loadedAt = Date.now();
+
+  const key = endpoints.map((e) => e.url).join('|');
+  if (!pool || key !== poolKey) {
+    pool = createRpcPool(endpoints, { onFailure: recordFailureMetric });
+    poolKey = key;
+    console.log(`[RPC] Pool: ${endpoints.map((e) => `${e.name}=${maskRpcUrl(e.url)}`).join(', ')}`);
+  }
+  return pool;
+}
+
+// Probe every endpoint and write one api_health_metrics row each
+export async function reportSolanaRpcHealth(
+  supabase: ReturnType<typeof createClient>
+): Promise<RpcEndpointReport[]> {
+  const rpc = await getSolanaRpc();
+  const reports = await rpc.probe();
+
+  const { error } = await supabase.from('api_health_metrics').insert(
+    reports.map((r) => ({
+      api_type: RPC_HEALTH_API_TYPE,
+      endpoint: `${r.name} ${r.url}`,
+      response_time_ms: r.latencyMs,
+      is_success: r.state !== 'offline',
+      error_message: r.state === 'online' ? null : r.lastError ?? `Slot lag ${r.slotLag ?? 0}`,
+    }))
+  );
+  if (error) console.error('[RPC] Failed to record health metrics:', error.message);
+
+  return reports;
+}
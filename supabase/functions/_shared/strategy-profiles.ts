@@ -0,0 +1,244 @@
+/**
+ * Named strategy profiles shared by Edge Functions and the browser
+ * Pure logic: which user_sniper_settings / risk_settings fields a profile snapshots, turning a profile
+ * into the patches that activate it, and picking the profile a day-of-week / time-of-day schedule wants
+ */
+
+// user_sniper_settings columns a profile carries - everything except identity and profile bookkeeping
+export const PROFILE_SNIPER_FIELDS = [
+  'min_liquidity',
+  'profit_take_percentage',
+  'stop_loss_percentage',
+  'trade_amount',
+  'max_concurrent_trades',
+  'priority',
+  'category_filters',
+  'token_blacklist',
+  'token_whitelist',
+  'target_buyer_positions',
+  'slippage_tolerance',
+  'max_risk_score',
+  'trailing_stop_enabled',
+  'trailing_stop_percent',
+  'trailing_stop_activation_percent',
+  'take_profit_ladder',
+  'rule_config',
+  'average_into_positions',
+  'disabled_token_sources',
+  'jito_enabled',
+  'jito_tip_lamports',
+  'jito_tip_strategy',
+  'jito_max_tip_lamports',
+  'jito_fallback_slots',
+  'max_priority_fee_sol',
+] as const;
+
+// risk_settings columns a profile carries; the emergency stop and a tripped circuit breaker stay per user
+export const PROFILE_RISK_FIELDS = [
+  'circuit_breaker_enabled',
+  'circuit_breaker_loss_threshold',
+  'circuit_breaker_time_window_minutes',
+  'max_risk_score',
+  'require_ownership_renounced',
+  'require_liquidity_locked',
+  'max_tax_percent',
+  'max_daily_loss_sol',
+  'max_open_exposure_sol',
+  'max_token_exposure_sol',
+  'max_trades_per_hour',
+  'holder_analysis_enabled',
+  'max_top10_holder_percent',
+  'max_dev_holding_percent',
+  'min_cluster_wallets',
+  'holder_concentration_weight',
+  'holder_cluster_weight',
+  'dev_holding_weight',
+] as const;
+
+export type ProfileSniperField = typeof PROFILE_SNIPER_FIELDS[number];
+export type ProfileRiskField = typeof PROFILE_RISK_FIELDS[number];
+export type ProfileSniperSettings = Partial<Record<ProfileSniperField, unknown>>;
+export type ProfileRiskSettings = Partial<Record<ProfileRiskField, unknown>>;
+
+// One weekly window; days are the days it starts on, in the profile's time zone
+export interface ScheduleWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string;  // HH:MM
+  end: string;    // HH:MM; at or before start = runs past midnight (equal = all day)
+}
+
+// strategy_profiles row as read back
+export interface StrategyProfile {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  version: number;
+  sniper_settings: unknown;
+  risk_settings: unknown;
+  schedule: unknown;
+  schedule_timezone: string;
+  is_schedule_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ActivationSource = 'manual' | 'schedule';
+
+// The profile (and version) user_sniper_settings was last loaded from
+export interface ActiveProfileRef {
+  active_profile_id: string | null;
+  active_profile_version: number | null;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const MAX_SCHEDULE_WINDOWS = 14;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+function pickFields<F extends string>(raw: unknown, fields: readonly F[]): Partial<Record<F, unknown>> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {};
+  const input = raw as Record<string, unknown>;
+  const picked: Partial<Record<F, unknown>> = {};
+  for (const field of fields) {
+    const value = input[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value === 'number' && !Number.isFinite(value)) continue;
+    picked[field] = value;
+  }
+  return picked;
+}
+
+// Known, non-null fields only - the JSONB columns are user-writable and unknown keys would break the copy
+export function sanitizeProfileSniperSettings(raw: unknown): ProfileSniperSettings {
+  return pickFields(raw, PROFILE_SNIPER_FIELDS);
+}
+
+export function sanitizeProfileRiskSettings(raw: unknown): ProfileRiskSettings {
+  return pickFields(raw, PROFILE_RISK_FIELDS);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function sanitizeSchedule(raw: unknown): ScheduleWindow[] {
+  if (!Array.isArray(raw)) return [];
+  const windows: ScheduleWindow[] = [];
+  for (const entry of raw) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const { days, start, end } = entry as Record<string, unknown>;
+    if (typeof start !== 'string' || typeof end !== 'string' || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) continue;
+    const validDays = Array.isArray(days)
+      ? [...new Set(days.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6))].sort((a, b) => a - b)
+      : [];
+    if (validDays.length === 0) continue;
+    windows.push({ days: validDays, start, end });
+    if (windows.length === MAX_SCHEDULE_WINDOWS) break;
+  }
+  return windows;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Weekday and minute of day at `now` in the given zone (UTC when the zone is unknown)
+export function localClock(now: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAY_LABELS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+// Minutes since the window opened when it covers the clock, otherwise null
+export function minutesIntoWindow(window: ScheduleWindow, clock: { day: number; minutes: number }): number | null {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const previousDay = (clock.day + 6) % 7;
+
+  if (end > start) {
+    return window.days.includes(clock.day) && clock.minutes >= start && clock.minutes < end
+      ? clock.minutes - start
+      : null;
+  }
+  if (window.days.includes(clock.day) && clock.minutes >= start) return clock.minutes - start;
+  if (window.days.includes(previousDay) && clock.minutes < end) return clock.minutes + MINUTES_PER_DAY - start;
+  return null;
+}
+
+/**
+ * The profile the schedule wants active at `now`. When windows of several profiles overlap, the one
+ * that opened most recently wins (an overnight window takes over from an all-week one); outside every
+ * window the user's default profile applies. Null = nothing scheduled, leave the settings alone.
+ */
+export function resolveScheduledProfile<
+  P extends Pick<StrategyProfile, 'id' | 'name' | 'schedule' | 'schedule_timezone' | 'is_schedule_default'>
+>(profiles: P[], now: Date): P | null {
+  let best: { profile: P; elapsed: number } | null = null;
+
+  for (const profile of profiles) {
+    const clock = localClock(now, profile.schedule_timezone);
+    for (const window of sanitizeSchedule(profile.schedule)) {
+      const elapsed = minutesIntoWindow(window, clock);
+      if (elapsed === null) continue;
+      if (!best || elapsed < best.elapsed || (elapsed === best.elapsed && profile.name < best.profile.name)) {
+        best = { profile, elapsed };
+      }
+    }
+  }
+
+  return best?.profile ?? profiles.find((p) => p.is_schedule_default) ?? null;
+}
+
+// Activating again is needed when another profile is active or the active one was edited since
+export function needsActivation(
+  active: ActiveProfileRef | null | undefined,
+  profile: Pick<StrategyProfile, 'id' | 'version'>
+): boolean {
+  return active?.active_profile_id !== profile.id || active?.active_profile_version !== profile.version;
+}
+
+/**
+ * What activating a profile writes: its sniper fields (plus the active profile reference) onto
+ * user_sniper_settings and its risk fields onto risk_settings. Fields the profile doesn't carry keep their current values.
+ */
+export function profileActivationPatch(profile: Pick<StrategyProfile, 'id' | 'version' | 'sniper_settings' | 'risk_settings'>): {
+  sniper: ProfileSniperSettings & ActiveProfileRef;
+  risk: ProfileRiskSettings;
+} {
+  return {
+    sniper: {
+      ...sanitizeProfileSniperSettings(profile.sniper_settings),
+      active_profile_id: profile.id,
+      active_profile_version: profile.version,
+    },
+    risk: sanitizeProfileRiskSettings(profile.risk_settings),
+  };
+}
+
+export function describeSchedule(schedule: unknown, timeZone: string): string {
+  const windows = sanitizeSchedule(schedule);
+  if (windows.length === 0) return 'Not scheduled';
+  return windows
+    .map((w) => {
+      const days = w.days.length === 7 ? 'Daily' : w.days.map((d) => WEEKDAY_LABELS[d]).join(', ');
+      return `${days} ${w.start}–${w.end}`;
+    })
+    .join('; ') + ` (${timeZone})`;
+}
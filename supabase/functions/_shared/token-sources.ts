@@ -0,0 +1,650 @@
+/**
+ * Token discovery sources for token-scanner
+ * Each source is a TokenSourceAdapter (endpoints, parsing, rate limit, health); the registry is
+ * built from api_configurations so sources can be added or disabled without touching the scanner.
+ * No Deno / URL imports: the browser imports the source list to render per-user toggles.
+ */
+
+export const SOL_MINT = "So11111111111111111111111111111111111111112";
+export const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+// Discovery sources report USD liquidity; the scanner filters in SOL
+const USD_PER_SOL_ESTIMATE = 150;
+
+// A source that fails this many runs in a row is skipped until the cooldown passes
+const MAX_CONSECUTIVE_FAILURES = 3;
+const FAILURE_COOLDOWN_MS = 60000;
+
+// Token lifecycle stages (only tradable stages now)
+export type TokenStage = 'LP_LIVE' | 'INDEXING' | 'LISTED';
+
+export interface TokenStatus {
+  tradable: boolean;
+  stage: TokenStage;
+  poolAddress?: string;
+  detectedAtSlot?: number;
+  dexScreener: {
+    pairFound: boolean;
+    retryAt?: number;
+  };
+}
+
+export interface TokenData {
+  id: string;
+  address: string;
+  name: string;
+  symbol: string;
+  chain: string;
+  liquidity: number;
+  liquidityLocked: boolean;
+  lockPercentage: number | null;
+  priceUsd: number;
+  priceChange24h: number;
+  volume24h: number;
+  marketCap: number;
+  holders: number;
+  createdAt: string;
+  earlyBuyers: number;
+  buyerPosition: number | null;
+  riskScore: number;
+  source: string;
+  pairAddress: string;
+  // Safety validation fields
+  isTradeable: boolean;
+  canBuy: boolean;
+  canSell: boolean;
+  freezeAuthority: string | null;
+  mintAuthority: string | null;
+  isPumpFun: boolean;
+  safetyReasons: string[];
+  tokenStatus?: TokenStatus;
+}
+
+// Subset of an api_configurations row
+export interface TokenSourceConfig {
+  id: string;
+  api_type: string;
+  api_name: string;
+  base_url: string;
+  api_key_encrypted: string | null;
+  is_enabled: boolean;
+  rate_limit_per_minute: number | null;
+}
+
+export interface RateLimitPolicy {
+  requestsPerMinute: number; // 0 = unlimited
+}
+
+export interface SourceHealth {
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  cooldownUntil: number | null;
+}
+
+export interface TokenSourceContext {
+  baseUrl: string;
+  apiKey: string | null;
+  minLiquidity: number; // SOL
+}
+
+export interface TokenSourceAdapter {
+  id: string;          // Stable id used for per-user toggles
+  apiType: string;     // api_configurations.api_type (and api_health_metrics.api_type)
+  label: string;
+  defaultBaseUrl: string;
+  needsApiKey: boolean;
+  rateLimit: RateLimitPolicy;
+  timeoutMs: number;
+  stopAfterFirstHit: boolean; // Endpoints are fallbacks rather than complementary feeds
+  maxItemsPerEndpoint: number;
+  endpoints(ctx: TokenSourceContext): string[];
+  headers(ctx: TokenSourceContext): Record<string, string>;
+  // Pull the raw item list out of a response body (null = unexpected shape)
+  extractItems(body: unknown): unknown[] | null;
+  // Map one raw item to TokenData, or null to skip it
+  normalize(item: unknown, ctx: TokenSourceContext): TokenData | null;
+  health(): SourceHealth;
+}
+
+export interface TokenSourceDescriptor {
+  id: string;
+  label: string;
+  apiType: string;
+}
+
+export type TokenSourceRunStatus = 'ok' | 'empty' | 'error' | 'rate_limited' | 'cooling_down' | 'disabled';
+
+export interface TokenSourceRunResult {
+  id: string;
+  label: string;
+  status: TokenSourceRunStatus;
+  added: number;
+  error?: string;
+}
+
+export type ApiHealthLogger = (
+  apiType: string,
+  endpoint: string,
+  responseTimeMs: number,
+  statusCode: number,
+  isSuccess: boolean,
+  errorMessage?: string
+) => Promise<void>;
+
+// ============================================================================
+// Helpers shared by the normalizers
+// ============================================================================
+
+type RawRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): RawRecord {
+  return value && typeof value === 'object' ? value as RawRecord : {};
+}
+
+function num(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// Helper: generate short address format instead of "Unknown"
+export function shortAddress(address: string | null | undefined): string {
+  if (!address || address.length < 10) return 'TOKEN';
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+export function safeTokenName(name: string | null | undefined, address: string): string {
+  if (name && name.trim() && !/^(unknown|unknown token|token|\?\?\?|n\/a)$/i.test(name.trim())) {
+    return name.trim();
+  }
+  return `Token ${shortAddress(address)}`;
+}
+
+export function safeTokenSymbol(symbol: string | null | undefined, address: string): string {
+  if (symbol && symbol.trim() && !/^(unknown|\?\?\?|n\/a)$/i.test(symbol.trim())) {
+    return symbol.trim();
+  }
+  return shortAddress(address);
+}
+
+// The meme side of a pool (skip SOL / USDC)
+function memeSide(baseAddress: string, quoteAddress: string): string {
+  return baseAddress === SOL_MINT || baseAddress === USDC_MINT ? quoteAddress : baseAddress;
+}
+
+function poolDexLabel(dexId: string): 'Raydium' | 'Orca' | null {
+  const id = dexId.toLowerCase();
+  if (id.includes('raydium')) return 'Raydium';
+  if (id.includes('orca')) return 'Orca';
+  return null;
+}
+
+interface TokenFields {
+  id: string;
+  address: string;
+  name: string;
+  symbol: string;
+  liquidityUsd: number;
+  priceUsd: number;
+  priceChange24h: number;
+  volume24h: number;
+  marketCap: number;
+  holders?: number;
+  createdAt?: string;
+  riskScore: number;
+  source: string;
+  pairAddress: string;
+  stage: TokenStage;
+  dexScreenerPairFound?: boolean;
+}
+
+function buildToken(fields: TokenFields): TokenData {
+  return {
+    id: fields.id,
+    address: fields.address,
+    name: fields.name,
+    symbol: fields.symbol,
+    chain: 'solana',
+    liquidity: fields.liquidityUsd / USD_PER_SOL_ESTIMATE,
+    liquidityLocked: false,
+    lockPercentage: null,
+    priceUsd: fields.priceUsd,
+    priceChange24h: fields.priceChange24h,
+    volume24h: fields.volume24h,
+    marketCap: fields.marketCap,
+    holders: fields.holders ?? 0,
+    createdAt: fields.createdAt || new Date().toISOString(),
+    earlyBuyers: Math.floor(Math.random() * 5) + 1,
+    buyerPosition: Math.floor(Math.random() * 3) + 1,
+    riskScore: fields.riskScore,
+    source: fields.source,
+    pairAddress: fields.pairAddress,
+    isTradeable: false, // Will be verified
+    canBuy: false,
+    canSell: false,
+    freezeAuthority: null,
+    mintAuthority: null,
+    isPumpFun: false,
+    safetyReasons: [],
+    tokenStatus: {
+      tradable: false,
+      stage: fields.stage,
+      ...(fields.dexScreenerPairFound && fields.pairAddress ? { poolAddress: fields.pairAddress } : {}),
+      dexScreener: { pairFound: !!fields.dexScreenerPairFound },
+    },
+  };
+}
+
+// ============================================================================
+// Health and rate limiting (per edge isolate, like the scanner's other caches)
+// ============================================================================
+
+const healthState = new Map<string, SourceHealth>();
+const requestLog = new Map<string, number[]>();
+
+function healthFor(id: string): SourceHealth {
+  let state = healthState.get(id);
+  if (!state) {
+    state = { consecutiveFailures: 0, lastError: null, lastSuccessAt: null, cooldownUntil: null };
+    healthState.set(id, state);
+  }
+  return state;
+}
+
+export function recordSourceSuccess(id: string, now = Date.now()): void {
+  const state = healthFor(id);
+  state.consecutiveFailures = 0;
+  state.lastError = null;
+  state.lastSuccessAt = now;
+  state.cooldownUntil = null;
+}
+
+export function recordSourceFailure(id: string, error: string, now = Date.now()): void {
+  const state = healthFor(id);
+  state.consecutiveFailures++;
+  state.lastError = error;
+  if (state.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    state.cooldownUntil = now + FAILURE_COOLDOWN_MS;
+  }
+}
+
+export function isSourceCoolingDown(id: string, now = Date.now()): boolean {
+  const cooldownUntil = healthState.get(id)?.cooldownUntil;
+  return !!cooldownUntil && cooldownUntil > now;
+}
+
+// Take a request slot in the source's rolling minute; false when the budget is spent
+export function acquireRateLimit(id: string, policy: RateLimitPolicy, now = Date.now()): boolean {
+  if (!(policy.requestsPerMinute > 0)) return true;
+  const recent = (requestLog.get(id) || []).filter((t) => now - t < 60000);
+  if (recent.length >= policy.requestsPerMinute) {
+    requestLog.set(id, recent);
+    return false;
+  }
+  recent.push(now);
+  requestLog.set(id, recent);
+  return true;
+}
+
+function rateLimitFrom(config: TokenSourceConfig | undefined, fallbackPerMinute: number): RateLimitPolicy {
+  const configured = Number(config?.rate_limit_per_minute);
+  return { requestsPerMinute: Number.isFinite(configured) && configured > 0 ? configured : fallbackPerMinute };
+}
+
+// ============================================================================
+// Built-in adapters
+// ============================================================================
+
+// GeckoTerminal: Raydium / Orca pools with verified liquidity (new, trending and top-volume feeds)
+function geckoTerminalAdapter(config?: TokenSourceConfig): TokenSourceAdapter {
+  const id = 'geckoterminal';
+  return {
+    id,
+    apiType: 'geckoterminal',
+    label: 'GeckoTerminal',
+    defaultBaseUrl: 'https://api.geckoterminal.com',
+    needsApiKey: false,
+    rateLimit: rateLimitFrom(config, 30),
+    timeoutMs: 10000,
+    stopAfterFirstHit: false,
+    maxItemsPerEndpoint: 20,
+    endpoints: ({ baseUrl }) => [
+      `${baseUrl}/api/v2/networks/solana/new_pools?page=1`,
+      `${baseUrl}/api/v2/networks/solana/trending_pools?page=1`,
+      `${baseUrl}/api/v2/networks/solana/pools?page=1&sort=h24_volume_usd_desc`,
+    ],
+    headers: () => ({ 'Accept': 'application/json' }),
+    extractItems: (body) => {
+      const data = asRecord(body).data;
+      return Array.isArray(data) ? data : null;
+    },
+    normalize: (item) => {
+      const pool = asRecord(item);
+      const attrs = asRecord(pool.attributes);
+      const relationships = asRecord(pool.relationships);
+      const relId = (key: string) => str(asRecord(asRecord(relationships[key]).data).id);
+
+      const dex = poolDexLabel(relId('dex') || str(attrs.dex_id));
+      if (!dex) return null;
+
+      const tokenAddress = memeSide(relId('base_token').replace('solana_', ''), relId('quote_token').replace('solana_', ''));
+      if (!tokenAddress || tokenAddress.length < 32) return null;
+
+      const poolName = str(attrs.name).split('/')[0];
+      const priceChange = asRecord(attrs.price_change_percentage);
+      const volume = asRecord(attrs.volume_usd);
+      return buildToken({
+        id: `gecko-${str(pool.id)}`,
+        address: tokenAddress,
+        name: safeTokenName(poolName, tokenAddress),
+        symbol: safeTokenSymbol(poolName?.slice(0, 10), tokenAddress),
+        liquidityUsd: num(attrs.reserve_in_usd),
+        priceUsd: num(attrs.base_token_price_usd),
+        priceChange24h: num(priceChange.h24),
+        volume24h: num(volume.h24),
+        marketCap: num(attrs.market_cap_usd || attrs.fdv_usd),
+        createdAt: str(attrs.pool_created_at),
+        riskScore: 50,
+        source: `${dex} (GeckoTerminal)`,
+        pairAddress: str(pool.id).replace('solana_', ''),
+        stage: 'LP_LIVE',
+      });
+    },
+    health: () => ({ ...healthFor(id) }),
+  };
+}
+
+// Birdeye: high-volume Solana tokens (public endpoints, key optional)
+function birdeyeAdapter(config?: TokenSourceConfig): TokenSourceAdapter {
+  const id = 'birdeye';
+  return {
+    id,
+    apiType: 'birdeye',
+    label: 'Birdeye',
+    defaultBaseUrl: 'https://public-api.birdeye.so',
+    needsApiKey: true,
+    rateLimit: rateLimitFrom(config, 60),
+    timeoutMs: 10000,
+    stopAfterFirstHit: true,
+    maxItemsPerEndpoint: 50,
+    endpoints: ({ baseUrl }) => [
+      `${baseUrl}/defi/tokenlist?sort_by=v24hUSD&sort_type=desc&limit=20`,
+      `${baseUrl}/defi/txs/token/new?limit=20`,
+    ],
+    headers: ({ apiKey }) => ({
+      'Accept': 'application/json',
+      ...(apiKey ? { 'X-API-KEY': apiKey } : {}),
+    }),
+    extractItems: (body) => {
+      const data = asRecord(asRecord(body).data);
+      const list = data.tokens || data.items;
+      return Array.isArray(list) ? list : null;
+    },
+    normalize: (item) => {
+      const token = asRecord(item);
+      const addr = str(token.address) || str(token.mint);
+      // Skip well-known tokens (SOL, USDC, etc.)
+      if (!addr || addr === SOL_MINT || addr === USDC_MINT || addr.length < 32) return null;
+
+      return buildToken({
+        id: `bird-${addr}`,
+        address: addr,
+        name: safeTokenName(str(token.name), addr),
+        symbol: safeTokenSymbol(str(token.symbol), addr),
+        liquidityUsd: num(token.liquidity || token.lp),
+        priceUsd: num(token.price || token.priceUsd),
+        priceChange24h: num(token.priceChange24hPercent),
+        volume24h: num(token.v24hUSD),
+        marketCap: num(token.mc || token.marketCap),
+        holders: num(token.holder),
+        riskScore: 45,
+        source: 'Raydium (Birdeye)',
+        pairAddress: '',
+        stage: 'LISTED',
+      });
+    },
+    health: () => ({ ...healthFor(id) }),
+  };
+}
+
+// DexScreener: latest Solana pairs (backup discovery source)
+function dexScreenerAdapter(config?: TokenSourceConfig): TokenSourceAdapter {
+  const id = 'dexscreener';
+  return {
+    id,
+    apiType: 'dexscreener',
+    label: 'DexScreener',
+    defaultBaseUrl: 'https://api.dexscreener.com',
+    needsApiKey: false,
+    rateLimit: rateLimitFrom(config, 300),
+    timeoutMs: 8000,
+    stopAfterFirstHit: true,
+    maxItemsPerEndpoint: 25,
+    endpoints: ({ baseUrl }) => [
+      `${baseUrl}/latest/dex/pairs/solana`,
+      `${baseUrl}/token-profiles/latest/v1`,
+    ],
+    headers: () => ({ 'Accept': 'application/json' }),
+    extractItems: (body) => {
+      const pairs = asRecord(body).pairs ?? body;
+      return Array.isArray(pairs) ? pairs : null;
+    },
+    normalize: (item) => {
+      const pair = asRecord(item);
+      const dex = poolDexLabel(str(pair.dexId));
+      if (!dex) return null;
+
+      const baseToken = asRecord(pair.baseToken);
+      const tokenAddress = memeSide(str(baseToken.address), str(asRecord(pair.quoteToken).address));
+      if (!tokenAddress || tokenAddress.length < 32) return null;
+
+      const pairAddress = str(pair.pairAddress);
+      return buildToken({
+        id: `dex-${pairAddress}`,
+        address: tokenAddress,
+        name: safeTokenName(str(baseToken.name), tokenAddress),
+        symbol: safeTokenSymbol(str(baseToken.symbol), tokenAddress),
+        liquidityUsd: num(asRecord(pair.liquidity).usd),
+        priceUsd: num(pair.priceUsd),
+        priceChange24h: num(asRecord(pair.priceChange).h24),
+        volume24h: num(asRecord(pair.volume).h24),
+        marketCap: num(pair.fdv),
+        createdAt: pair.pairCreatedAt ? new Date(num(pair.pairCreatedAt)).toISOString() : undefined,
+        riskScore: 40,
+        source: `${dex} (DexScreener)`,
+        pairAddress,
+        stage: 'LISTED',
+        dexScreenerPairFound: true,
+      });
+    },
+    health: () => ({ ...healthFor(id) }),
+  };
+}
+
+// Custom indexer: any api_configurations row with api_type 'custom_indexer'.
+// GET {base_url}?chain=solana returning { tokens: [...] } (or a bare array) of
+// { address, name?, symbol?, priceUsd?, liquidityUsd?, volume24h?, priceChange24h?, marketCap?, holders?, createdAt?, pairAddress? }
+function customIndexerAdapter(config: TokenSourceConfig): TokenSourceAdapter {
+  const id = `custom_indexer:${config.id}`;
+  return {
+    id,
+    apiType: 'custom_indexer',
+    label: config.api_name || 'Custom indexer',
+    defaultBaseUrl: config.base_url,
+    needsApiKey: true,
+    rateLimit: rateLimitFrom(config, 60),
+    timeoutMs: 8000,
+    stopAfterFirstHit: true,
+    maxItemsPerEndpoint: 50,
+    endpoints: ({ baseUrl }) => [`${baseUrl}${baseUrl.includes('?') ? '&' : '?'}chain=solana`],
+    headers: ({ apiKey }) => ({
+      'Accept': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+    }),
+    extractItems: (body) => {
+      const tokens = Array.isArray(body) ? body : asRecord(body).tokens;
+      return Array.isArray(tokens) ? tokens : null;
+    },
+    normalize: (item) => {
+      const token = asRecord(item);
+      const addr = str(token.address);
+      if (!addr || addr === SOL_MINT || addr === USDC_MINT || addr.length < 32) return null;
+
+      return buildToken({
+        id: `custom-${config.id}-${addr}`,
+        address: addr,
+        name: safeTokenName(str(token.name), addr),
+        symbol: safeTokenSymbol(str(token.symbol), addr),
+        liquidityUsd: num(token.liquidityUsd),
+        priceUsd: num(token.priceUsd),
+        priceChange24h: num(token.priceChange24h),
+        volume24h: num(token.volume24h),
+        marketCap: num(token.marketCap),
+        holders: num(token.holders),
+        createdAt: str(token.createdAt),
+        riskScore: 50,
+        source: `${config.api_name || 'Custom'} (Indexer)`,
+        pairAddress: str(token.pairAddress),
+        stage: 'LISTED',
+      });
+    },
+    health: () => ({ ...healthFor(id) }),
+  };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+// Built-in sources run by default; an api_configurations row can override the base URL / rate
+// limit or switch the source off (is_enabled = false)
+const BUILT_IN_SOURCES: { apiType: string; create: (config?: TokenSourceConfig) => TokenSourceAdapter }[] = [
+  { apiType: 'geckoterminal', create: geckoTerminalAdapter },
+  { apiType: 'birdeye', create: birdeyeAdapter },
+  { apiType: 'dexscreener', create: dexScreenerAdapter },
+];
+
+// Every source available on the platform (what users can toggle)
+export function listTokenSources(configs: TokenSourceConfig[]): TokenSourceDescriptor[] {
+  return buildTokenSourceRegistry(configs).map(({ id, label, apiType }) => ({ id, label, apiType }));
+}
+
+export function buildTokenSourceRegistry(configs: TokenSourceConfig[]): TokenSourceAdapter[] {
+  const adapters: TokenSourceAdapter[] = [];
+
+  for (const { apiType, create } of BUILT_IN_SOURCES) {
+    const config = configs.find((c) => c.api_type === apiType);
+    if (config && !config.is_enabled) continue;
+    adapters.push(create(config));
+  }
+
+  for (const config of configs) {
+    if (config.api_type === 'custom_indexer' && config.is_enabled && config.base_url) {
+      adapters.push(customIndexerAdapter(config));
+    }
+  }
+
+  return adapters;
+}
+
+// Sources this user runs (user_sniper_settings.disabled_token_sources opts out per source)
+export function selectTokenSources(
+  registry: TokenSourceAdapter[],
+  disabledSourceIds: string[] | null | undefined
+): TokenSourceAdapter[] {
+  const disabled = new Set(disabledSourceIds || []);
+  return registry.filter((adapter) => !disabled.has(adapter.id));
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+// Fetch every endpoint of one source, normalizing into `tokens` (deduped by address, filtered by liquidity)
+export async function runTokenSource(
+  adapter: TokenSourceAdapter,
+  ctx: TokenSourceContext,
+  tokens: TokenData[],
+  logApiHealth: ApiHealthLogger
+): Promise<TokenSourceRunResult> {
+  const result: TokenSourceRunResult = { id: adapter.id, label: adapter.label, status: 'empty', added: 0 };
+
+  if (isSourceCoolingDown(adapter.id)) {
+    result.status = 'cooling_down';
+    result.error = adapter.health().lastError ?? undefined;
+    return result;
+  }
+
+  let anySuccess = false;
+  let lastError: string | null = null;
+
+  for (const endpoint of adapter.endpoints(ctx)) {
+    if (!acquireRateLimit(adapter.id, adapter.rateLimit)) {
+      if (!anySuccess) result.status = 'rate_limited';
+      console.log(`[Scanner] ${adapter.label} rate limit reached (${adapter.rateLimit.requestsPerMinute}/min)`);
+      break;
+    }
+
+    const startTime = Date.now();
+    const endpointName = endpoint.split('?')[0].split('/').pop();
+
+    try {
+      console.log(`[Scanner] Fetching from ${adapter.label}: ${endpointName}`);
+      const response = await fetch(endpoint, {
+        headers: adapter.headers(ctx),
+        signal: AbortSignal.timeout(adapter.timeoutMs),
+      });
+      const responseTime = Date.now() - startTime;
+
+      if (!response.ok) {
+        lastError = `HTTP ${response.status}`;
+        await logApiHealth(adapter.apiType, endpoint, responseTime, response.status, false, lastError);
+        console.log(`[Scanner] ${adapter.label} ${endpointName} failed: ${lastError}`);
+        continue;
+      }
+
+      await logApiHealth(adapter.apiType, endpoint, responseTime, response.status, true);
+      anySuccess = true;
+
+      const items = adapter.extractItems(await response.json());
+      if (!items) {
+        console.log(`[Scanner] ${adapter.label}: Unexpected response shape from ${endpointName}`);
+        continue;
+      }
+
+      let addedCount = 0;
+      for (const item of items.slice(0, adapter.maxItemsPerEndpoint)) {
+        const token = adapter.normalize(item, ctx);
+        if (!token || token.liquidity < ctx.minLiquidity) continue;
+        if (tokens.find((t) => t.address === token.address)) continue;
+        tokens.push(token);
+        addedCount++;
+      }
+
+      result.added += addedCount;
+      console.log(`[Scanner] ${adapter.label} (${endpointName}): Added ${addedCount} tokens`);
+
+      if (adapter.stopAfterFirstHit && addedCount > 0) break;
+    } catch (e: unknown) {
+      const responseTime = Date.now() - startTime;
+      lastError = e instanceof Error ? e.message || 'Network error' : 'Network error';
+      await logApiHealth(adapter.apiType, endpoint, responseTime, 0, false, lastError);
+      console.log(`[Scanner] ${adapter.label} error: ${lastError}`);
+    }
+  }
+
+  if (anySuccess) {
+    recordSourceSuccess(adapter.id);
+    if (result.status !== 'rate_limited') result.status = result.added > 0 ? 'ok' : 'empty';
+  } else if (result.status !== 'rate_limited') {
+    recordSourceFailure(adapter.id, lastError || 'No response');
+    result.status = 'error';
+    result.error = lastError || 'No response';
+  }
+
+  return result;
+}
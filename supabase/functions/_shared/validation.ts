@@ -185,6 +185,7 @@ export interface TokenData {
 export interface AutoSniperInput {
   tokens: TokenData[];
   executeOnApproval: boolean;
+  walletAddress: string | undefined;
 }
 
 function validateTokenData(item: unknown, index: number): ValidationResult<TokenData> {
@@ -227,7 +228,7 @@ function validateTokenData(item: unknown, index: number): ValidationResult<Token
 
 export function validateAutoSniperInput(body: unknown): ValidationResult<AutoSniperInput> {
   if (typeof body !== 'object' || body === null) {
-    return { success: true, data: { tokens: [], executeOnApproval: false } };
+    return { success: true, data: { tokens: [], executeOnApproval: false, walletAddress: undefined } };
   }
   
   const obj = body as Record<string, unknown>;
@@ -251,7 +252,13 @@ export function validateAutoSniperInput(body: unknown): ValidationResult<AutoSni
   // Validate executeOnApproval
   const executeOnApproval = typeof obj.executeOnApproval === 'boolean' ? obj.executeOnApproval : false;
   
-  return { success: true, data: { tokens, executeOnApproval } };
+  // Validate walletAddress (optional, selects the wallet's strategy and position slots)
+  let walletAddress: string | undefined = undefined;
+  if (obj.walletAddress !== undefined && typeof obj.walletAddress === 'string' && obj.walletAddress.length >= 32) {
+    walletAddress = obj.walletAddress;
+  }
+  
+  return { success: true, data: { tokens, executeOnApproval, walletAddress } };
 }
 
 // =============== Auto-Exit Validation ===============
@@ -299,7 +306,7 @@ export function validateAutoExitInput(body: unknown): ValidationResult<AutoExitI
 }
 
 // =============== Risk Check Validation ===============
-export type RiskCheckAction = 'get_settings' | 'update_settings' | 'emergency_stop' | 'reset_circuit_breaker' | 'check_tokens' | 'get_logs';
+export type RiskCheckAction = 'get_settings' | 'update_settings' | 'emergency_stop' | 'reset_circuit_breaker' | 'check_tokens' | 'get_logs' | 'get_guardrails' | 'simulate_sell';
 
 export interface RiskCheckToken {
   address: string;
@@ -315,7 +322,7 @@ export interface RiskCheckInput {
   limit?: number;
 }
 
-const RISK_CHECK_ACTIONS: RiskCheckAction[] = ['get_settings', 'update_settings', 'emergency_stop', 'reset_circuit_breaker', 'check_tokens', 'get_logs'];
+const RISK_CHECK_ACTIONS: RiskCheckAction[] = ['get_settings', 'update_settings', 'emergency_stop', 'reset_circuit_breaker', 'check_tokens', 'get_logs', 'get_guardrails', 'simulate_sell'];
 
 export function validateRiskCheckInput(body: unknown): ValidationResult<RiskCheckInput> {
   if (typeof body !== 'object' || body === null) {
@@ -333,7 +340,7 @@ export function validateRiskCheckInput(body: unknown): ValidationResult<RiskChec
   const result: RiskCheckInput = { action };
   
   // Validate action-specific fields
-  if (action === 'check_tokens') {
+  if (action === 'check_tokens' || action === 'simulate_sell') {
     if (obj.tokens !== undefined) {
       if (!Array.isArray(obj.tokens)) {
         return errorResult('tokens must be an array');
@@ -509,3 +516,49 @@ export function validateAdminAnalyticsInput(body: unknown): ValidationResult<Adm
   
   return { success: true, data: result };
 }
+
+// =============== Token Candles Validation ===============
+export type CandleResolutionInput = '1m' | '5m' | '15m' | '1h';
+
+export interface TokenCandlesInput {
+  tokenAddress: string;
+  pairAddress?: string; // pool for the GeckoTerminal OHLCV backfill
+  resolution: CandleResolutionInput;
+  limit: number;
+}
+
+const CANDLE_RESOLUTIONS: CandleResolutionInput[] = ['1m', '5m', '15m', '1h'];
+
+export function validateTokenCandlesInput(body: unknown): ValidationResult<TokenCandlesInput> {
+  if (typeof body !== 'object' || body === null) {
+    return errorResult('Request body is required');
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  const addressResult = validateAddress(obj.tokenAddress, 'tokenAddress');
+  if (!addressResult.success) return errorResult(addressResult.error!);
+
+  const resolutionResult = validateEnum(obj.resolution ?? '5m', 'resolution', CANDLE_RESOLUTIONS);
+  if (!resolutionResult.success) return errorResult(resolutionResult.error!);
+
+  const result: TokenCandlesInput = {
+    tokenAddress: addressResult.data!,
+    resolution: resolutionResult.data!,
+    limit: 120,
+  };
+
+  if (obj.pairAddress !== undefined && obj.pairAddress !== null && obj.pairAddress !== '') {
+    const pairResult = validateAddress(obj.pairAddress, 'pairAddress');
+    if (!pairResult.success) return errorResult(pairResult.error!);
+    result.pairAddress = pairResult.data!;
+  }
+
+  if (obj.limit !== undefined) {
+    const limitResult = validateNumber(obj.limit, 'limit', 1, 500);
+    if (!limitResult.success) return errorResult(limitResult.error!);
+    result.limit = Math.floor(limitResult.data!);
+  }
+
+  return { success: true, data: result };
+}
@@ -0,0 +1,144 @@
+/**
+ * Per-wallet trading profiles shared by Edge Functions and the browser
+ * Pure logic: sanitising a wallet's settings_overrides, layering them over user_sniper_settings,
+ * and filtering positions / trades by the wallet that executed them
+ */
+
+import { normalizeLadder, type TakeProfitStep } from './exit-strategy.ts';
+
+// user_sniper_settings fields a wallet may trade differently
+export interface WalletSettingsOverrides {
+  trade_amount?: number;
+  max_concurrent_trades?: number;
+  min_liquidity?: number;
+  profit_take_percentage?: number;
+  stop_loss_percentage?: number;
+  slippage_tolerance?: number;
+  max_risk_score?: number;
+  priority?: 'normal' | 'fast' | 'turbo';
+  trailing_stop_enabled?: boolean;
+  trailing_stop_percent?: number;
+  trailing_stop_activation_percent?: number;
+  take_profit_ladder?: TakeProfitStep[];
+  category_filters?: string[];
+}
+
+export type WalletOverrideField = keyof WalletSettingsOverrides;
+
+// user_wallets row as read back
+export interface TradingWallet {
+  id: string;
+  user_id: string;
+  address: string;
+  label: string | null;
+  chain: string;
+  is_enabled: boolean;
+  settings_overrides: unknown;
+  created_at: string;
+  updated_at: string;
+}
+
+// Position / trade filter: every wallet, rows recorded before wallets were tracked, or one address
+export const ALL_WALLETS = 'all';
+export const UNASSIGNED_WALLET = 'unassigned';
+export type WalletFilter = typeof ALL_WALLETS | typeof UNASSIGNED_WALLET | string;
+
+const NUMBER_RANGES: Partial<Record<WalletOverrideField, [number, number]>> = {
+  trade_amount: [0.001, 1000],
+  max_concurrent_trades: [1, 100],
+  min_liquidity: [0, 1_000_000],
+  profit_take_percentage: [1, 100_000],
+  stop_loss_percentage: [1, 100],
+  slippage_tolerance: [0.1, 100],
+  max_risk_score: [0, 100],
+  trailing_stop_percent: [1, 100],
+  trailing_stop_activation_percent: [0, 100_000],
+};
+
+const PRIORITIES = new Set(['normal', 'fast', 'turbo']);
+
+export const WALLET_OVERRIDE_FIELDS: WalletOverrideField[] = [
+  'trade_amount',
+  'max_concurrent_trades',
+  'min_liquidity',
+  'profit_take_percentage',
+  'stop_loss_percentage',
+  'slippage_tolerance',
+  'max_risk_score',
+  'priority',
+  'trailing_stop_enabled',
+  'trailing_stop_percent',
+  'trailing_stop_activation_percent',
+  'take_profit_ladder',
+  'category_filters',
+];
+
+// Keeps only known fields with valid values - the JSONB column is user-writable
+export function sanitizeWalletOverrides(raw: unknown): WalletSettingsOverrides {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {};
+  const input = raw as Record<string, unknown>;
+  const overrides: Record<string, unknown> = {};
+
+  for (const [field, [min, max]] of Object.entries(NUMBER_RANGES) as [WalletOverrideField, [number, number]][]) {
+    const value = input[field];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max) {
+      overrides[field] = field === 'max_concurrent_trades' ? Math.floor(value) : value;
+    }
+  }
+  if (typeof input.priority === 'string' && PRIORITIES.has(input.priority)) {
+    overrides.priority = input.priority;
+  }
+  if (typeof input.trailing_stop_enabled === 'boolean') {
+    overrides.trailing_stop_enabled = input.trailing_stop_enabled;
+  }
+  if (input.take_profit_ladder !== undefined) {
+    overrides.take_profit_ladder = normalizeLadder(input.take_profit_ladder);
+  }
+  if (Array.isArray(input.category_filters) && input.category_filters.every((c) => typeof c === 'string')) {
+    overrides.category_filters = input.category_filters;
+  }
+  return overrides as WalletSettingsOverrides;
+}
+
+// The base settings with the wallet's overrides on top; no wallet (or no overrides) returns the base as-is
+export function resolveWalletSettings<T extends object>(base: T, overrides: unknown): T {
+  const sanitized = sanitizeWalletOverrides(overrides);
+  return Object.keys(sanitized).length ? { ...base, ...sanitized } : base;
+}
+
+export function findTradingWallet<W extends Pick<TradingWallet, 'address'>>(
+  wallets: W[],
+  address: string | null | undefined
+): W | undefined {
+  return address ? wallets.find((w) => w.address === address) : undefined;
+}
+
+export function matchesWalletFilter(walletAddress: string | null | undefined, filter: WalletFilter): boolean {
+  if (filter === ALL_WALLETS) return true;
+  if (filter === UNASSIGNED_WALLET) return !walletAddress;
+  return walletAddress === filter;
+}
+
+export function filterByWallet<T extends { wallet_address?: string | null }>(rows: T[], filter: WalletFilter): T[] {
+  return filter === ALL_WALLETS ? rows : rows.filter((row) => matchesWalletFilter(row.wallet_address, filter));
+}
+
+// Registered wallets first, then addresses only seen on rows (e.g. a wallet removed since)
+export function walletsInUse(
+  wallets: Pick<TradingWallet, 'address' | 'label'>[],
+  rows: { wallet_address?: string | null }[]
+): Pick<TradingWallet, 'address' | 'label'>[] {
+  const known = new Set(wallets.map((w) => w.address));
+  const extra: Pick<TradingWallet, 'address' | 'label'>[] = [];
+  for (const row of rows) {
+    if (row.wallet_address && !known.has(row.wallet_address)) {
+      known.add(row.wallet_address);
+      extra.push({ address: row.wallet_address, label: null });
+    }
+  }
+  return [...wallets.map(({ address, label }) => ({ address, label })), ...extra];
+}
+
+export function walletDisplayName(wallet: Pick<TradingWallet, 'address' | 'label'>): string {
+  return wallet.label?.trim() || `${wallet.address.slice(0, 4)}…${wallet.address.slice(-4)}`;
+}
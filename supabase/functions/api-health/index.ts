@@ -1,5 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getApiKey, API_VALIDATION_ENDPOINTS } from "../_shared/api-keys.ts";
+import { reportSolanaRpcHealth } from "../_shared/solana-rpc.ts";
+import type { RpcEndpointReport } from "../_shared/rpc-pool.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -191,6 +194,21 @@ async function checkEndpoint(endpoint: { name: string; type: string }): Promise<
   }
 }
 
+// Summarise the pool as one row: the best endpoint decides the status, failing ones show as lastError
+function rpcPoolStatus(reports: RpcEndpointReport[]): ApiStatus {
+  const best = reports.find((r) => r.active) ?? reports[0];
+  const failing = reports.filter((r) => r.state !== 'online');
+  return {
+    name: 'Solana RPC',
+    status: best?.state ?? 'offline',
+    latency: best?.latencyMs ?? null,
+    lastCheck: new Date().toISOString(),
+    lastError: failing.length > 0
+      ? failing.map((r) => `${r.name}: ${r.lastError ?? r.state}`).join('; ')
+      : undefined,
+  };
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -199,10 +217,17 @@ Deno.serve(async (req) => {
   try {
     console.log('[api-health] Checking API endpoints with configured keys...');
     
-    // Check all endpoints in parallel
-    const results = await Promise.all(
-      API_ENDPOINTS.map(endpoint => checkEndpoint(endpoint))
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     );
+
+    // Check all endpoints in parallel
+    const [results, rpc] = await Promise.all([
+      Promise.all(API_ENDPOINTS.map(endpoint => checkEndpoint(endpoint))),
+      reportSolanaRpcHealth(supabase),
+    ]);
+    results.push(rpcPoolStatus(rpc));
     
     const summary = results.map(r => 
       `${r.name}: ${r.status}${r.latency ? ` (${r.latency}ms)` : ''}${r.hasApiKey ? ' [key]' : ''}`
@@ -212,6 +237,7 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         statuses: results,
+        rpc,
         checkedAt: new Date().toISOString(),
       }),
       { 
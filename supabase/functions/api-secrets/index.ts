@@ -7,6 +7,8 @@ import {
   validateApiKey,
   getAllApiKeyStatus,
   validateInternalToken,
+  rotateStoredKeys,
+  getActiveEncryptionKeyId,
 } from "../_shared/api-keys.ts";
 
 const corsHeaders = {
@@ -56,7 +58,7 @@ serve(async (req) => {
       let apiKeyValue: string | null = null;
       
       if (config?.api_key_encrypted) {
-        apiKeyValue = decryptKey(config.api_key_encrypted);
+        apiKeyValue = await decryptKey(config.api_key_encrypted);
       }
       
       // Fall back to environment variable
@@ -128,7 +130,7 @@ serve(async (req) => {
         .maybeSingle();
       
       if (config?.api_key_encrypted) {
-        const decrypted = decryptKey(config.api_key_encrypted);
+        const decrypted = await decryptKey(config.api_key_encrypted);
         if (decrypted) return decrypted;
       }
       
@@ -141,6 +143,7 @@ serve(async (req) => {
 
       return new Response(JSON.stringify({ 
         secretStatus,
+        activeKeyId: await getActiveEncryptionKeyId(),
         message: 'Secret status retrieved successfully',
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -172,7 +175,7 @@ serve(async (req) => {
 
       console.log(`[api-secrets] Saving API key for ${apiType}, length: ${apiKey.trim().length}`);
       
-      const encryptedKey = encryptKey(apiKey.trim());
+      const encryptedKey = await encryptKey(apiKey.trim());
       console.log(`[api-secrets] Encrypted key prefix: ${encryptedKey.substring(0, 10)}...`);
 
       // Check if configuration exists
@@ -342,6 +345,24 @@ serve(async (req) => {
       });
     }
 
+    // Re-encrypt every stored key under the active master key. Run after adding a new key to
+    // API_KEY_ENCRYPTION_KEYS; the old key can be dropped once nothing failed.
+    if (action === 'rotate_encryption_key') {
+      const result = await rotateStoredKeys();
+
+      console.log(`[AUDIT] API keys re-encrypted by admin ${userId} under ${result.activeKeyId}: ${result.rotated} rotated, ${result.failed.length} failed at ${new Date().toISOString()}`);
+
+      return new Response(JSON.stringify({ 
+        success: result.failed.length === 0,
+        ...result,
+        message: result.failed.length === 0
+          ? `${result.rotated} API key(s) re-encrypted under ${result.activeKeyId} (${result.current} already current)`
+          : `Could not re-encrypt: ${result.failed.join(', ')} - keep the old key until these are re-saved`,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (action === 'list_required_secrets') {
       const secretStatus = await getAllApiKeyStatus();
       
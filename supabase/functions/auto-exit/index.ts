@@ -2,21 +2,31 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateAutoExitInput } from "../_shared/validation.ts";
 import { fetchJupiterQuoteWithRetry } from "../_shared/jupiter-retry.ts";
+import {
+  evaluateExitStrategy,
+  resolveExitStrategy,
+  type ExitReason,
+  type ExitStrategy,
+  type ExitStrategySettings,
+} from "../_shared/exit-strategy.ts";
+import { applyPositionSale, positionCostBasisSol } from "../_shared/position-accounting.ts";
+import { fetchCurrentPrice, resolveApiKey, type ApiConfig } from "../_shared/price-sources.ts";
+import { notifyUser } from "../_shared/notify.ts";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import type { RpcPool } from "../_shared/rpc-pool.ts";
+import { priceSampleBatches, type PriceSample } from "../_shared/candles.ts";
+import { recordAuditEvents } from "../_shared/audit.ts";
+import { exitTriggerAuditEvent, type AuditEvent, type ExitTriggerOutcome } from "../_shared/audit-trail.ts";
+import { findTradingWallet, resolveWalletSettings } from "../_shared/wallet-profiles.ts";
+import { EVM_NATIVE_TOKEN, isEvmAddress, isEvmChain, type ExecutionQuote } from "../_shared/execution-adapter.ts";
+import { getEvmAdapter } from "../_shared/evm-rpc.ts";
+import { runnerUserId } from "../_shared/runner-auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface ApiConfig {
-  id: string;
-  api_type: string;
-  api_name: string;
-  base_url: string;
-  api_key_encrypted: string | null;
-  is_enabled: boolean;
-}
-
 interface Position {
   id: string;
   user_id: string;
@@ -36,6 +46,12 @@ interface Position {
   stop_loss_percent: number;
   status: 'open' | 'closed' | 'pending';
   created_at: string; // Added for external sale detection timing
+  peak_price: number | null; // High-water mark for trailing stops
+  remaining_fraction: number | null; // Fraction of the original size still held (1 = untouched)
+  executed_ladder_steps: number[] | null; // Take-profit ladder step indices already sold
+  realized_pnl_sol: number | null; // P&L booked by earlier partial sells
+  exit_strategy: Partial<ExitStrategy> | null; // Strategy snapshot taken at entry (null = use current settings)
+  wallet_address: string | null; // Trading wallet holding the position (null = recorded before wallets were tracked)
 }
 
 // Helper: generate short address format instead of "Unknown"
@@ -44,6 +60,17 @@ function shortAddress(address: string | null | undefined): string {
   return `${address.slice(0, 4)}…${address.slice(-4)}`;
 }
 
+const EXIT_REASON_LABELS: Record<ExitReason, string> = {
+  take_profit: 'Take Profit',
+  stop_loss: 'Stop Loss',
+  trailing_stop: 'Trailing Stop',
+  ladder_take_profit: 'Ladder Take Profit',
+};
+
+function formatPnlPercent(percent: number): string {
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
 function safeTokenSymbol(symbol: string | null | undefined, address: string): string {
   if (symbol && symbol.trim() && !/^(unknown|\?\?\?|n\/a|token)$/i.test(symbol.trim())) {
     return symbol.trim();
@@ -60,12 +87,16 @@ interface PriceData {
 interface ExitResult {
   positionId: string;
   symbol: string;
-  action: 'hold' | 'take_profit' | 'stop_loss';
+  action: 'hold' | ExitReason;
   currentPrice: number;
   profitLossPercent: number;
   executed: boolean;
   txId?: string;
   error?: string;
+  // Partial exits (ladder rungs): fraction of current holdings to sell, rungs filled, size left after
+  sellFraction?: number;
+  ladderSteps?: number[];
+  remainingFraction?: number;
 }
 
 // SPL Token Mint layout: decimals at offset 44
@@ -76,9 +107,8 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
-async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
-  const res = await fetch(rpcUrl, {
-    method: 'POST',
+async function rpcRequest(rpc: RpcPool, method: string, params: unknown[]): Promise<any> {
+  const res = await rpc.request({
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
   });
@@ -91,9 +121,9 @@ async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Pr
   return data?.result;
 }
 
-async function getMintDecimals(rpcUrl: string, mint: string): Promise<number> {
+async function getMintDecimals(rpc: RpcPool, mint: string): Promise<number> {
   if (mint === 'So11111111111111111111111111111111111111112') return 9;
-  const result = await rpcRequest(rpcUrl, 'getAccountInfo', [mint, { encoding: 'base64' }]);
+  const result = await rpcRequest(rpc, 'getAccountInfo', [mint, { encoding: 'base64' }]);
   const value = result?.value;
   const data = value?.data;
   const base64 = Array.isArray(data) ? data[0] : null;
@@ -110,31 +140,14 @@ function toBaseUnits(amountDecimal: number, decimals: number): string {
   return BigInt(`${whole}${frac.padEnd(decimals, '0')}`).toString();
 }
 
-// Get API key from environment (secure) with fallback to database (legacy)
-function getApiKey(apiType: string, dbApiKey: string | null): string | null {
-  // Priority 1: Environment variable (Supabase Secrets - secure)
-  const envKey = Deno.env.get(`${apiType.toUpperCase()}_API_KEY`);
-  if (envKey) {
-    console.log(`Using secure environment variable for ${apiType}`);
-    return envKey;
-  }
-  
-  // Priority 2: Database fallback (legacy - less secure)
-  if (dbApiKey) {
-    console.log(`Warning: Using database-stored API key for ${apiType} - migrate to Supabase Secrets`);
-    return dbApiKey;
-  }
-  
-  return null;
-}
-
 // Check on-chain token balance to detect externally sold positions
 // CRITICAL: This must NOT trigger for newly created positions (< 60 seconds old)
 // to avoid false "sold_externally" closures due to RPC propagation delays
 async function checkOnChainBalance(
   tokenAddress: string,
   walletAddress: string,
-  positionCreatedAt: string
+  positionCreatedAt: string,
+  chain = 'solana'
 ): Promise<{ hasBalance: boolean; balance: number; skipped: boolean }> {
   try {
     // CRITICAL GUARD: Skip balance check for positions created in the last 60 seconds
@@ -146,13 +159,25 @@ async function checkOnChainBalance(
       console.log(`[AutoExit] Skipping external sale check for ${shortAddress(tokenAddress)} - position only ${Math.round(positionAge / 1000)}s old`);
       return { hasBalance: true, balance: 0, skipped: true };
     }
+
+    // EVM positions: ERC-20 balanceOf on the chain the position was bought on
+    if (isEvmChain(chain)) {
+      if (!isEvmAddress(walletAddress)) return { hasBalance: true, balance: 0, skipped: true };
+      const adapter = getEvmAdapter(chain);
+      const [raw, decimals] = await Promise.all([
+        adapter.tokenBalance(tokenAddress, walletAddress),
+        adapter.tokenDecimals(tokenAddress),
+      ]);
+      const balance = Number(raw) / Math.pow(10, decimals);
+      console.log(`[AutoExit] ${chain} balance for ${shortAddress(tokenAddress)}: ${balance}`);
+      return { hasBalance: raw > 0n, balance, skipped: false };
+    }
     
     // Use Helius or Solana RPC to check token balance
-    const rpcUrl = Deno.env.get('HELIUS_RPC_URL') || Deno.env.get('SOLANA_RPC_URL') || 'https://api.mainnet-beta.solana.com';
+    const rpc = await getSolanaRpc();
     
     // Get token accounts for this mint
-    const response = await fetch(rpcUrl, {
-      method: 'POST',
+    const response = await rpc.request({
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         jsonrpc: '2.0',
@@ -194,98 +219,29 @@ async function checkOnChainBalance(
   }
 }
 
-// Fetch current price from external APIs
-async function fetchCurrentPrice(
-  tokenAddress: string,
-  chain: string,
-  apiConfigs: ApiConfig[]
-): Promise<number | null> {
-  // Try DexScreener first (no API key required, most reliable)
-  try {
-    const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`, {
-      signal: AbortSignal.timeout(5000),
-    });
-    if (response.ok) {
-      const data = await response.json();
-      // Get best pair by liquidity
-      const pairs = data.pairs?.filter((p: any) => p.chainId === 'solana') || [];
-      if (pairs.length > 0) {
-        const bestPair = pairs.reduce((best: any, curr: any) => 
-          (curr?.liquidity?.usd || 0) > (best?.liquidity?.usd || 0) ? curr : best
-        );
-        if (bestPair?.priceUsd) {
-          return parseFloat(bestPair.priceUsd);
-        }
-      }
-    }
-  } catch (e) {
-    console.error('DexScreener price fetch error:', e);
-  }
-
-  // Try GeckoTerminal
-  const geckoConfig = apiConfigs.find(c => c.api_type === 'geckoterminal' && c.is_enabled);
-  if (geckoConfig) {
-    try {
-      const networkId = chain === 'solana' ? 'solana' : chain === 'bsc' ? 'bsc' : 'eth';
-      const response = await fetch(`${geckoConfig.base_url}/api/v2/networks/${networkId}/tokens/${tokenAddress}`, {
-        signal: AbortSignal.timeout(5000),
-      });
-      if (response.ok) {
-        const data = await response.json();
-        if (data.data?.attributes?.price_usd) {
-          return parseFloat(data.data.attributes.price_usd);
-        }
-      }
-    } catch (e) {
-      console.error('GeckoTerminal price fetch error:', e);
-    }
-  }
-
-  // Try Birdeye (Solana) - uses secure API key retrieval
-  const birdeyeConfig = apiConfigs.find(c => c.api_type === 'birdeye' && c.is_enabled);
-  if (birdeyeConfig && chain === 'solana') {
-    const apiKey = getApiKey('birdeye', birdeyeConfig.api_key_encrypted);
-    if (apiKey) {
-      try {
-        const response = await fetch(`${birdeyeConfig.base_url}/defi/price?address=${tokenAddress}`, {
-          headers: { 'X-API-KEY': apiKey },
-          signal: AbortSignal.timeout(5000),
-        });
-        if (response.ok) {
-          const data = await response.json();
-          if (data.data?.value) {
-            return parseFloat(data.data.value);
-          }
-        }
-      } catch (e) {
-        console.error('Birdeye price fetch error:', e);
-      }
-    }
-  }
-
-  return null;
-}
-
 // Execute sell via Jupiter (real on-chain swap)
+// sellFraction < 1 quotes a partial sell of the held amount (take-profit ladder rungs)
 async function executeJupiterSell(
   position: Position,
-  reason: 'take_profit' | 'stop_loss',
-  rpcUrl: string,
-  tokenAmountUiOverride?: number
+  reason: ExitReason,
+  rpc: RpcPool,
+  tokenAmountUiOverride?: number,
+  sellFraction = 1
 ): Promise<{ success: boolean; txId?: string; quote?: any; error?: string }> {
   try {
-    console.log(`[AutoExit] Executing SELL via Jupiter for ${position.token_symbol} - Reason: ${reason}`);
+    console.log(`[AutoExit] Executing SELL via Jupiter for ${position.token_symbol} - Reason: ${reason}${sellFraction < 1 ? ` (${(sellFraction * 100).toFixed(1)}% of holdings)` : ''}`);
     
     const SOL_MINT = 'So11111111111111111111111111111111111111112';
     
-    const tokenAmountUi = (typeof tokenAmountUiOverride === 'number' && tokenAmountUiOverride > 0)
+    const heldAmountUi = (typeof tokenAmountUiOverride === 'number' && tokenAmountUiOverride > 0)
       ? tokenAmountUiOverride
       : position.amount;
+    const tokenAmountUi = heldAmountUi * Math.min(1, Math.max(0, sellFraction));
 
     // Convert token amount to base units using real mint decimals
     let decimals = 6;
     try {
-      decimals = await getMintDecimals(rpcUrl, position.token_address);
+      decimals = await getMintDecimals(rpc, position.token_address);
     } catch {
       decimals = 6;
     }
@@ -333,12 +289,39 @@ async function executeJupiterSell(
   }
 }
 
+// Quote an EVM sell through the chain's router - like Jupiter exits, the wallet signs it in the app
+async function executeEvmSell(
+  position: Position,
+  reason: ExitReason,
+  tokenAmountUi: number,
+  sellFraction = 1
+): Promise<{ success: boolean; txId?: string; quote?: ExecutionQuote; error?: string }> {
+  if (!isEvmChain(position.chain)) return { success: false, error: `Unsupported chain: ${position.chain}` };
+  try {
+    console.log(`[AutoExit] Quoting ${position.chain} SELL for ${position.token_symbol} - Reason: ${reason}`);
+    const adapter = getEvmAdapter(position.chain);
+    const decimals = await adapter.tokenDecimals(position.token_address);
+    const quote = await adapter.quote({
+      inputToken: position.token_address,
+      outputToken: EVM_NATIVE_TOKEN,
+      amount: toBaseUnits(tokenAmountUi * Math.min(1, Math.max(0, sellFraction)), decimals),
+      slippageBps: 1500,
+    });
+    return { success: true, quote, txId: `${quote.venue}_quote_${Date.now()}` };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'EVM sell quote failed';
+    console.error('[AutoExit] EVM sell error:', message);
+    return { success: false, error: message.includes('ROUTE_NOT_FOUND') ? `No route available - ${message}` : message };
+  }
+}
+
 // Execute sell via external trade execution API (if configured)
 async function executeSellViaApi(
   position: Position,
-  reason: 'take_profit' | 'stop_loss',
-  tradeExecutionConfig: ApiConfig
-): Promise<{ success: boolean; txId?: string; error?: string }> {
+  reason: ExitReason,
+  tradeExecutionConfig: ApiConfig,
+  tokenAmount: number = position.amount
+): Promise<{ success: boolean; txId?: string; proceedsSol?: number; error?: string }> {
   try {
     console.log(`[AutoExit] Executing SELL via API for ${position.token_symbol} - Reason: ${reason}`);
     
@@ -346,7 +329,7 @@ async function executeSellViaApi(
       tokenAddress: position.token_address,
       chain: position.chain,
       action: 'sell',
-      amount: position.amount,
+      amount: tokenAmount,
       slippage: 10, // Higher slippage for exit
       reason,
       positionId: position.id,
@@ -356,7 +339,7 @@ async function executeSellViaApi(
       'Content-Type': 'application/json',
     };
     
-    const apiKey = getApiKey('trade_execution', tradeExecutionConfig.api_key_encrypted);
+    const apiKey = await resolveApiKey('trade_execution', tradeExecutionConfig.api_key_encrypted);
     if (apiKey) {
       headers['Authorization'] = `Bearer ${apiKey}`;
     }
@@ -373,9 +356,12 @@ async function executeSellViaApi(
     }
 
     const result = await response.json();
+    // Native coin received, when the API reports the fill
+    const proceedsSol = Number(result.solAmount ?? result.amountOut);
     return { 
       success: true, 
       txId: result.transactionId || result.txId || 'pending',
+      proceedsSol: Number.isFinite(proceedsSol) && proceedsSol > 0 ? proceedsSol : undefined,
     };
   } catch (error) {
     console.error('[AutoExit] API sell error:', error);
@@ -386,54 +372,15 @@ async function executeSellViaApi(
   }
 }
 
-// Check if position should exit
-// CRITICAL: Use entry_price_usd for USD-based price comparisons
-// SANITY CHECK: Clamp P&L to reasonable bounds to prevent numeric overflow
+// Check if position should exit (fixed TP/SL, trailing stop, take-profit ladder)
+// Strategy comes from the position's entry snapshot, falling back to the user's current settings
 function checkExitConditions(
   position: Position,
-  currentPrice: number
-): { shouldExit: boolean; reason: 'take_profit' | 'stop_loss' | null; profitLossPercent: number } {
-  // CRITICAL: Validate input prices to prevent overflow
-  if (!currentPrice || currentPrice <= 0 || !Number.isFinite(currentPrice)) {
-    console.log(`[AutoExit] Invalid current price for ${position.token_symbol}: ${currentPrice}`);
-    return { shouldExit: false, reason: null, profitLossPercent: 0 };
-  }
-  
-  // Use USD entry price if available for accurate P&L
-  // This ensures we compare USD to USD (currentPrice from DexScreener is in USD)
-  const entryPriceForCalc = position.entry_price_usd ?? position.entry_price;
-  
-  // SANITY CHECK: Entry price must be valid
-  if (!entryPriceForCalc || entryPriceForCalc <= 0 || !Number.isFinite(entryPriceForCalc)) {
-    console.log(`[AutoExit] Invalid entry price for ${position.token_symbol}: entry_price_usd=${position.entry_price_usd}, entry_price=${position.entry_price}`);
-    return { shouldExit: false, reason: null, profitLossPercent: 0 };
-  }
-  
-  // Calculate raw P&L
-  let profitLossPercent = ((currentPrice - entryPriceForCalc) / entryPriceForCalc) * 100;
-  
-  // SANITY CHECK: Clamp P&L to reasonable bounds (-100% to +10000%)
-  // Anything beyond this indicates a data error (unit mismatch, stale prices, etc.)
-  const MAX_REASONABLE_GAIN = 10000; // 100x = +10000%
-  const MAX_REASONABLE_LOSS = -99.99; // Can't lose more than 100%
-  
-  if (profitLossPercent > MAX_REASONABLE_GAIN || profitLossPercent < MAX_REASONABLE_LOSS) {
-    console.log(`[AutoExit] Suspicious P&L for ${position.token_symbol}: ${profitLossPercent.toFixed(2)}% - entry: $${entryPriceForCalc}, current: $${currentPrice}`);
-    // If P&L is suspiciously high/low, clamp it but allow exit if threshold met
-    profitLossPercent = Math.max(MAX_REASONABLE_LOSS, Math.min(MAX_REASONABLE_GAIN, profitLossPercent));
-  }
-  
-  // Check take profit
-  if (profitLossPercent >= position.profit_take_percent) {
-    return { shouldExit: true, reason: 'take_profit', profitLossPercent };
-  }
-  
-  // Check stop loss (negative threshold)
-  if (profitLossPercent <= -position.stop_loss_percent) {
-    return { shouldExit: true, reason: 'stop_loss', profitLossPercent };
-  }
-  
-  return { shouldExit: false, reason: null, profitLossPercent };
+  currentPrice: number,
+  userSettings: ExitStrategySettings | null
+) {
+  const strategy = resolveExitStrategy(position, userSettings);
+  return evaluateExitStrategy(position, currentPrice, strategy);
 }
 
 serve(async (req) => {
@@ -460,10 +407,14 @@ serve(async (req) => {
     });
 
     const token = authHeader.slice('Bearer '.length);
-    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
-    const userId = claimsData?.claims?.sub;
+    // bot-runner calls on a user's behalf with the service role key; everyone else needs their own JWT
+    let userId = runnerUserId(req);
+    if (!userId) {
+      const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+      userId = claimsError ? null : claimsData?.claims?.sub ?? null;
+    }
 
-    if (claimsError || !userId) {
+    if (!userId) {
       return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
         status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -497,6 +448,19 @@ serve(async (req) => {
     const hasApiConfigs = apiConfigs && apiConfigs.length > 0;
     console.log(`API configs found: ${hasApiConfigs ? apiConfigs.length : 0}`);
 
+    // Fetch user's exit settings (used for positions without an exit_strategy snapshot)
+    const { data: userSettings } = await supabase
+      .from('user_sniper_settings')
+      .select('profit_take_percentage, stop_loss_percentage, trailing_stop_enabled, trailing_stop_percent, trailing_stop_activation_percent, take_profit_ladder')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    // Per-wallet strategy overrides, applied to positions held by that wallet
+    const { data: tradingWallets } = await supabase
+      .from('user_wallets')
+      .select('address, settings_overrides')
+      .eq('user_id', user.id);
+
     // Fetch user's open positions
     let positionsQuery = supabase
       .from('positions')
@@ -528,18 +492,23 @@ serve(async (req) => {
     const tradeExecutionConfig = apiConfigs?.find((c: ApiConfig) => c.api_type === 'trade_execution');
     const results: ExitResult[] = [];
     const positionUpdates: { id: string; updates: Partial<Position> }[] = [];
+    // Live prices seen this run, merged into token_candles after the loop
+    const priceSamples: PriceSample[] = [];
+    const auditEvents: AuditEvent[] = [];
 
     // Process each position
     for (const position of positions as Position[]) {
       // Check on-chain balance if wallet address provided (detects externally sold tokens)
       // CRITICAL: Pass created_at to prevent false positives on new positions
+      // Positions are checked against the wallet that holds them, not the one that's connected
       let onChainBalanceUi: number | null = null;
       let onChainBalanceSkipped = false;
       if (walletAddress) {
         const { hasBalance, balance, skipped } = await checkOnChainBalance(
           position.token_address, 
-          walletAddress,
-          position.created_at || new Date().toISOString()
+          position.wallet_address || walletAddress,
+          position.created_at || new Date().toISOString(),
+          position.chain
         );
 
         onChainBalanceUi = balance;
@@ -577,6 +546,16 @@ serve(async (req) => {
             },
             severity: 'info',
           });
+
+          await notifyUser(supabase, {
+            userId: user.id,
+            eventType: 'position_exit',
+            title: `Sold Externally: ${safeTokenSymbol(position.token_symbol, position.token_address)}`,
+            message: 'Tokens left the wallet outside the bot - position closed',
+            type: 'info',
+            metadata: { positionId: position.id, tokenAddress: position.token_address, action: 'sold_externally' },
+            source: 'auto-exit',
+          });
           
           results.push({
             positionId: position.id,
@@ -595,6 +574,10 @@ serve(async (req) => {
       // Fetch current price (always try DexScreener first, no config needed)
       let currentPrice: number | null = await fetchCurrentPrice(position.token_address, position.chain, apiConfigs || []);
       
+      if (currentPrice !== null) {
+        priceSamples.push({ tokenAddress: position.token_address, priceUsd: currentPrice, sampledAt: Date.now() });
+      }
+
       // If can't fetch price, use last known price (don't simulate)
       if (currentPrice === null) {
         currentPrice = position.current_price || position.entry_price;
@@ -602,50 +585,65 @@ serve(async (req) => {
       }
 
       // Check exit conditions
-      const { shouldExit, reason, profitLossPercent } = checkExitConditions(position, currentPrice);
+      const {
+        shouldExit,
+        reason,
+        profitLossPercent,
+        peakPrice,
+        sellFraction,
+        ladderSteps,
+        remainingFractionAfter,
+      } = checkExitConditions(position, currentPrice, resolveWalletSettings(
+        (userSettings ?? {}) as ExitStrategySettings,
+        findTradingWallet(tradingWallets ?? [], position.wallet_address)?.settings_overrides
+      ));
+      const isPartialExit = shouldExit && sellFraction < 1;
       
       // Calculate P&L using entry_price_usd for accurate USD-based calculations
       const entryPriceForCalc = position.entry_price_usd ?? position.entry_price;
       const effectiveAmountForValuation = (!onChainBalanceSkipped && typeof onChainBalanceUi === 'number' && onChainBalanceUi > 0)
         ? onChainBalanceUi
         : position.amount;
-      const entryValueForCalc = position.entry_value ?? (effectiveAmountForValuation * entryPriceForCalc);
       const currentValue = effectiveAmountForValuation * currentPrice;
-      // Use entry_value for accurate P&L $ calculation
-      const profitLossValue = entryValueForCalc * (profitLossPercent / 100);
+      // Unrealized P&L on what's still held - cost basis shrinks with partial sells
+      const profitLossValue = positionCostBasisSol(position) * (profitLossPercent / 100);
 
       // Update position with current price data
-      positionUpdates.push({
-        id: position.id,
-        updates: {
-          current_price: currentPrice,
-          current_value: currentValue,
-          profit_loss_percent: profitLossPercent,
-          profit_loss_value: profitLossValue,
-        },
-      });
+      const priceUpdates: Partial<Position> = {
+        current_price: currentPrice,
+        current_value: currentValue,
+        profit_loss_percent: profitLossPercent,
+        profit_loss_value: profitLossValue,
+        peak_price: peakPrice,
+      };
+      positionUpdates.push({ id: position.id, updates: priceUpdates });
 
       if (shouldExit && reason) {
-        console.log(`Exit triggered for ${position.token_symbol}: ${reason} at ${profitLossPercent.toFixed(2)}%`);
+        console.log(`Exit triggered for ${position.token_symbol}: ${reason} at ${profitLossPercent.toFixed(2)}%${isPartialExit ? ` - selling ${(sellFraction * 100).toFixed(1)}% of holdings` : ''}`);
         
         let executed = false;
         let txId: string | undefined;
         let error: string | undefined;
+        let proceedsSol: number | undefined;
+        const heldAmount = effectiveAmountForValuation;
+        const soldAmount = heldAmount * sellFraction;
 
         if (executeExits) {
           // Try external API first, then fallback to Jupiter
           if (tradeExecutionConfig) {
-            const sellResult = await executeSellViaApi(position, reason, tradeExecutionConfig);
+            const sellResult = await executeSellViaApi(position, reason, tradeExecutionConfig, soldAmount);
             executed = sellResult.success;
             txId = sellResult.txId;
             error = sellResult.error;
+            proceedsSol = sellResult.proceedsSol;
           } else {
-            // Use Jupiter for real sell execution
-             const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
+            // Use Jupiter (or the chain's router for EVM positions) for real sell execution
              const tokenAmountForExit = (!onChainBalanceSkipped && typeof onChainBalanceUi === 'number' && onChainBalanceUi > 0)
                ? onChainBalanceUi
                : position.amount;
-             const jupiterResult = await executeJupiterSell(position, reason, rpcUrl, tokenAmountForExit);
+             const jupiterResult = isEvmChain(position.chain)
+               ? await executeEvmSell(position, reason, tokenAmountForExit, sellFraction)
+               : await executeJupiterSell(position, reason, await getSolanaRpc(), tokenAmountForExit, sellFraction);
             
             if (jupiterResult.success && jupiterResult.quote) {
               // Jupiter quote received - mark position with pending_exit and quote info
@@ -654,6 +652,19 @@ serve(async (req) => {
               txId = jupiterResult.txId;
               error = 'PENDING_SIGNATURE: Jupiter quote ready, requires wallet signature';
               console.log(`[AutoExit] Jupiter quote ready for ${position.token_symbol} - requires frontend signature`);
+
+              // Re-sent every tick until signed, so only alert once per position and reason
+              await notifyUser(supabase, {
+                userId: user.id,
+                eventType: 'exit_pending',
+                title: `${EXIT_REASON_LABELS[reason]}: ${safeTokenSymbol(position.token_symbol, position.token_address)}`,
+                message: `Exit triggered at ${formatPnlPercent(profitLossPercent)} - open the app to sign the sell`,
+                type: 'warning',
+                metadata: { positionId: position.id, tokenAddress: position.token_address, action: reason },
+                source: 'auto-exit',
+                dedupeKey: `exit_pending:${position.id}:${reason}:${(position.executed_ladder_steps || []).length}`,
+                dedupeWindowMs: 6 * 60 * 60 * 1000,
+              });
             } else {
               // Jupiter failed - NO FORCE CLOSE
               // Keep position open with warning - user must manually handle illiquid tokens
@@ -682,6 +693,18 @@ serve(async (req) => {
                   },
                   severity: 'warning',
                 });
+
+                await notifyUser(supabase, {
+                  userId: user.id,
+                  eventType: 'exit_blocked',
+                  title: `Exit Blocked: ${safeTokenSymbol(position.token_symbol, position.token_address)}`,
+                  message: `${EXIT_REASON_LABELS[reason]} triggered at ${formatPnlPercent(profitLossPercent)} but no swap route exists - position kept open`,
+                  type: 'error',
+                  metadata: { positionId: position.id, tokenAddress: position.token_address, action: reason },
+                  source: 'auto-exit',
+                  dedupeKey: `exit_blocked:${position.id}:${reason}`,
+                  dedupeWindowMs: 6 * 60 * 60 * 1000,
+                });
               }
               
               executed = false;
@@ -691,8 +714,92 @@ serve(async (req) => {
             }
           }
 
-          if (executed) {
-            // Update position to closed
+          const sale = executed
+            ? applyPositionSale({ ...position, amount: heldAmount }, { soldAmount, exitPrice: currentPrice, proceedsSol })
+            : null;
+          // currentPrice is USD - the SOL price is only known when the API reports what the sell returned
+          const exitPriceSol = sale && proceedsSol && sale.soldAmount > 0 ? proceedsSol / sale.soldAmount : null;
+
+          if (sale) {
+            // Every sale gets its own history row linked to the position
+            await supabase.from('trade_history').insert({
+              user_id: user.id,
+              position_id: position.id,
+              token_address: position.token_address,
+              token_symbol: position.token_symbol,
+              token_name: position.token_name,
+              trade_type: 'sell',
+              amount: sale.soldAmount,
+              price_sol: exitPriceSol,
+              price_usd: currentPrice,
+              status: 'confirmed',
+              tx_hash: txId ?? null,
+              realized_pnl_sol: sale.realizedPnlSol,
+            });
+
+            await supabase.from('position_fills').insert({
+              user_id: user.id,
+              position_id: position.id,
+              side: 'sell',
+              amount: sale.soldAmount,
+              sol_amount: proceedsSol ?? 0,
+              price: exitPriceSol,
+              price_usd: currentPrice,
+              tx_hash: txId ?? null,
+            });
+          }
+
+          if (sale && isPartialExit) {
+            // Ladder rung sold - keep the rest of the position open
+            const remainingAmount = sale.remainingAmount;
+            const remainingCostBasis = sale.remainingCostBasisSol;
+            priceUpdates.current_value = remainingAmount * currentPrice;
+            priceUpdates.profit_loss_value = remainingCostBasis * (profitLossPercent / 100);
+            await supabase
+              .from('positions')
+              .update({
+                amount: remainingAmount,
+                remaining_fraction: remainingFractionAfter,
+                executed_ladder_steps: [...(position.executed_ladder_steps || []), ...ladderSteps],
+                current_price: currentPrice,
+                current_value: remainingAmount * currentPrice,
+                profit_loss_value: priceUpdates.profit_loss_value,
+                realized_pnl_sol: sale.totalRealizedPnlSol,
+                peak_price: peakPrice,
+              })
+              .eq('id', position.id);
+
+            await supabase.from('system_logs').insert({
+              user_id: user.id,
+              event_type: 'ladder_take_profit_exit',
+              event_category: 'trading',
+              message: `Auto-exit ladder take profit: sold ${(sellFraction * 100).toFixed(1)}% of ${position.token_symbol} at ${profitLossPercent.toFixed(2)}%`,
+              metadata: {
+                position_id: position.id,
+                token_symbol: position.token_symbol,
+                ladder_steps: ladderSteps,
+                sold_amount: sale.soldAmount,
+                remaining_amount: remainingAmount,
+                realized_pnl_sol: sale.realizedPnlSol,
+                remaining_fraction: remainingFractionAfter,
+                exit_price: currentPrice,
+                profit_loss_percent: profitLossPercent,
+              },
+              severity: 'info',
+            });
+
+            await notifyUser(supabase, {
+              userId: user.id,
+              eventType: 'position_exit',
+              title: `${EXIT_REASON_LABELS[reason]}: ${safeTokenSymbol(position.token_symbol, position.token_address)}`,
+              message: `Partially sold ${(sellFraction * 100).toFixed(1)}% at ${formatPnlPercent(profitLossPercent)}`,
+              type: 'trade',
+              metadata: { positionId: position.id, action: reason, txId: txId ?? null, realizedPnlSol: sale.realizedPnlSol },
+              source: 'auto-exit',
+            });
+          } else if (sale) {
+            // Update position to closed (P&L = everything booked, earlier partial sells included)
+            priceUpdates.profit_loss_value = sale.totalRealizedPnlSol;
             await supabase
               .from('positions')
               .update({
@@ -704,14 +811,18 @@ serve(async (req) => {
                 current_price: currentPrice,
                 current_value: currentValue,
                 profit_loss_percent: profitLossPercent,
-                profit_loss_value: profitLossValue,
+                profit_loss_value: sale.totalRealizedPnlSol,
+                realized_pnl_sol: sale.totalRealizedPnlSol,
+                peak_price: peakPrice,
+                remaining_fraction: 0,
+                executed_ladder_steps: [...(position.executed_ladder_steps || []), ...ladderSteps],
               })
               .eq('id', position.id);
             
             // Log the exit
             await supabase.from('system_logs').insert({
               user_id: user.id,
-              event_type: reason === 'take_profit' ? 'take_profit_exit' : 'stop_loss_exit',
+              event_type: `${reason}_exit`,
               event_category: 'trading',
               message: `Auto-exit ${reason}: ${position.token_symbol} at ${profitLossPercent.toFixed(2)}%`,
               metadata: {
@@ -720,13 +831,44 @@ serve(async (req) => {
                 entry_price: position.entry_price,
                 exit_price: currentPrice,
                 profit_loss_percent: profitLossPercent,
-                profit_loss_value: profitLossValue,
+                profit_loss_value: sale.totalRealizedPnlSol,
+                peak_price: peakPrice,
               },
-              severity: reason === 'take_profit' ? 'info' : 'warning',
+              severity: reason === 'stop_loss' ? 'warning' : 'info',
+            });
+
+            await notifyUser(supabase, {
+              userId: user.id,
+              eventType: 'position_exit',
+              title: `${EXIT_REASON_LABELS[reason]}: ${safeTokenSymbol(position.token_symbol, position.token_address)}`,
+              message: `Closed at ${formatPnlPercent(profitLossPercent)}`,
+              type: reason === 'stop_loss' ? 'error' : 'trade',
+              metadata: { positionId: position.id, action: reason, txId: txId ?? null, realizedPnlSol: sale.totalRealizedPnlSol },
+              source: 'auto-exit',
             });
           }
         }
 
+        const outcome: ExitTriggerOutcome = !executeExits ? 'detected'
+          : executed ? 'executed'
+          : error?.startsWith('PENDING_SIGNATURE') ? 'pending_signature'
+          : error?.startsWith('NO_ROUTE') ? 'no_route'
+          : 'failed';
+        auditEvents.push(exitTriggerAuditEvent({
+          positionId: position.id,
+          tokenAddress: position.token_address,
+          tokenSymbol: safeTokenSymbol(position.token_symbol, position.token_address),
+          reason,
+          outcome,
+          profitLossPercent,
+          currentPrice,
+          sellFraction,
+          ladderSteps,
+          executedSteps: (position.executed_ladder_steps || []).length,
+          txId,
+          error,
+        }, 'auto-exit'));
+
         results.push({
           positionId: position.id,
           symbol: safeTokenSymbol(position.token_symbol, position.token_address),
@@ -736,6 +878,9 @@ serve(async (req) => {
           executed,
           txId,
           error,
+          sellFraction,
+          ladderSteps,
+          remainingFraction: remainingFractionAfter,
         });
       } else {
         results.push({
@@ -754,6 +899,13 @@ serve(async (req) => {
       await supabase.from('positions').update(updates).eq('id', id);
     }
 
+    await recordAuditEvents(supabase, user.id, auditEvents);
+
+    for (const samples of priceSampleBatches(priceSamples)) {
+      const { error: samplesError } = await supabase.rpc('record_price_samples', { samples });
+      if (samplesError) console.error('Failed to record price samples:', samplesError.message);
+    }
+
     const exitTriggered = results.filter(r => r.action !== 'hold');
     const executedCount = results.filter(r => r.executed).length;
 
@@ -767,6 +919,8 @@ serve(async (req) => {
           holding: results.filter(r => r.action === 'hold').length,
           takeProfitTriggered: results.filter(r => r.action === 'take_profit').length,
           stopLossTriggered: results.filter(r => r.action === 'stop_loss').length,
+          trailingStopTriggered: results.filter(r => r.action === 'trailing_stop').length,
+          ladderTakeProfitTriggered: results.filter(r => r.action === 'ladder_take_profit').length,
           executed: executedCount,
         },
         timestamp: new Date().toISOString(),
@@ -2,6 +2,20 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateAutoSniperInput, type TokenData as ValidatedTokenData } from "../_shared/validation.ts";
 import { fetchJupiterQuoteWithRetry } from "../_shared/jupiter-retry.ts";
+import {
+  buildSnipeDecision,
+  evaluateSnipeRules,
+  resolveSlippage,
+  type SnipeDecision,
+  type TokenData,
+} from "../_shared/sniper-rules.ts";
+import { notifyUser } from "../_shared/notify.ts";
+import { evaluateSellSimulation } from "../_shared/sell-simulation.ts";
+import { getSellSimulation } from "../_shared/sell-simulation-cache.ts";
+import { recordAuditEvents } from "../_shared/audit.ts";
+import { snipeDecisionAuditEvent } from "../_shared/audit-trail.ts";
+import { resolveWalletSettings } from "../_shared/wallet-profiles.ts";
+import { runnerUserId } from "../_shared/runner-auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +27,8 @@ const JUPITER_QUOTE_API = "https://lite-api.jup.ag/swap/v1/quote";
 // Raydium API for route validation (fallback)
 const RAYDIUM_QUOTE_API = "https://transaction-v1.raydium.io/compute/swap-base-in";
 const SOL_MINT = "So11111111111111111111111111111111111111112";
+// risk_settings.max_tax_percent default, used when the user has no risk settings row
+const DEFAULT_MAX_TAX_PERCENT = 10;
 
 interface ApiConfig {
   id: string;
@@ -34,42 +50,9 @@ interface UserSettings {
   category_filters: string[];
   token_blacklist: string[];
   token_whitelist: string[];
-}
-
-interface TokenData {
-  address: string;
-  name: string;
-  symbol: string;
-  chain: string;
-  liquidity: number;
-  liquidityLocked: boolean;
-  lockPercentage: number | null;
-  buyerPosition: number | null;
-  riskScore: number;
-  categories: string[];
-  priceUsd?: number;
-  // Scanner validation flags - CRITICAL for bypassing DEX route checks
-  isPumpFun?: boolean;      // From token-scanner: on Pump.fun bonding curve
-  isTradeable?: boolean;    // From token-scanner: verified as tradeable
-  canBuy?: boolean;         // From token-scanner: buy is possible
-  canSell?: boolean;        // From token-scanner: sell is possible
-  source?: string;          // API source (e.g., 'Pump.fun', 'DexScreener')
-  safetyReasons?: string[]; // Safety check results from scanner
-}
-
-interface SnipeDecision {
-  token: TokenData;
-  approved: boolean;
-  reasons: string[];
-  tradeParams: {
-    amount: number;
-    slippage: number;
-    priority: string;
-    profitTakePercent?: number;
-    stopLossPercent?: number;
-    minLiquidity?: number;
-    maxConcurrentTrades?: number;
-  } | null;
+  max_risk_score?: number | null;
+  slippage_tolerance?: number | null;
+  rule_config?: unknown;
 }
 
 interface RiskCheckResult {
@@ -99,79 +82,6 @@ function getApiKey(apiType: string, dbApiKey: string | null): string | null {
   return null;
 }
 
-// Rule 1: Check if liquidity meets user's minimum setting
-function checkLiquidity(token: TokenData, settings: UserSettings): { passed: boolean; reason: string } {
-  const passed = token.liquidity >= settings.min_liquidity;
-  return {
-    passed,
-    reason: passed 
-      ? `✓ Liquidity ${token.liquidity.toFixed(2)} SOL meets minimum ${settings.min_liquidity} SOL`
-      : `✗ Liquidity ${token.liquidity.toFixed(2)} SOL below minimum ${settings.min_liquidity} SOL`,
-  };
-}
-
-// Rule 2: Check if liquidity is locked (OPTIONAL - just informational, don't block)
-function checkLiquidityLock(token: TokenData): { passed: boolean; reason: string } {
-  // Liquidity lock is informational only - many legitimate tokens don't lock
-  const isLocked = token.liquidityLocked === true;
-  return {
-    passed: true, // Always pass - this is just informational
-    reason: isLocked 
-      ? `✓ Liquidity locked${token.lockPercentage ? ` (${token.lockPercentage}%)` : ''}`
-      : '⚠ Liquidity not locked - proceed with caution',
-  };
-}
-
-// Rule 3: Check if token matches user's category filters
-function checkCategoryMatch(token: TokenData, settings: UserSettings): { passed: boolean; reason: string } {
-  // If user didn't set any filters, always pass
-  if (settings.category_filters.length === 0) {
-    return { passed: true, reason: '✓ No category filters applied' };
-  }
-
-  // IMPORTANT: In live scanning, category metadata may be unavailable.
-  // If we have no categories, don't block trading (otherwise nothing ever approves).
-  if (!token.categories || token.categories.length === 0) {
-    return {
-      passed: true,
-      reason: '✓ Category data unavailable - skipping category filter',
-    };
-  }
-
-  const matchedCategories = token.categories.filter((cat) =>
-    settings.category_filters.includes(cat.toLowerCase())
-  );
-
-  const passed = matchedCategories.length > 0;
-  return {
-    passed,
-    reason: passed
-      ? `✓ Matches categories: ${matchedCategories.join(', ')}`
-      : `✗ No match for filters: ${settings.category_filters.join(', ')}`,
-  };
-}
-
-// Rule 4: Check buyer position (allow positions 2-10 for live trading flexibility)
-function checkBuyerPosition(token: TokenData): { passed: boolean; reason: string } {
-  const position = token.buyerPosition;
-  
-  // If position is unknown, allow the trade (don't block on missing data)
-  if (position === null || position === undefined) {
-    return { passed: true, reason: '✓ Buyer position unknown - allowing trade' };
-  }
-  
-  // Allow positions 2-10 (not first buyer, but reasonable entry)
-  const passed = position >= 2 && position <= 10;
-  return {
-    passed,
-    reason: passed 
-      ? `✓ Can enter as buyer #${position}`
-      : position < 2 
-        ? '✗ Would be first buyer - waiting for others'
-        : `✗ Buyer position #${position} too late (>10)`,
-  };
-}
-
 // Rule 5: Risk API approval (honeypot, blacklist, owner-renounced)
 // IMPORTANT: This check is optional - if API fails, we allow the trade with a warning
 async function checkRiskApproval(
@@ -436,32 +346,19 @@ async function checkTradeRoute(token: TokenData): Promise<{ passed: boolean; rea
   };
 }
 
-// Check blacklist/whitelist
-function checkBlacklistWhitelist(
-  token: TokenData, 
-  settings: UserSettings
-): { passed: boolean; reason: string } {
-  // Check blacklist first
-  if (settings.token_blacklist.some(addr => 
-    addr.toLowerCase() === token.address.toLowerCase()
-  )) {
-    return { passed: false, reason: '✗ Token is blacklisted by user' };
-  }
-
-  // If whitelist exists and is not empty, token must be on it
-  if (settings.token_whitelist.length > 0) {
-    const onWhitelist = settings.token_whitelist.some(addr => 
-      addr.toLowerCase() === token.address.toLowerCase()
-    );
-    return {
-      passed: onWhitelist,
-      reason: onWhitelist 
-        ? '✓ Token is on whitelist'
-        : '✗ Token not on whitelist',
-    };
+// Rule 7: Simulate buying and selling the token back (cached per mint)
+// The route check only proves a buy exists - a honeypot passes it and then blocks the sell
+async function checkSellSimulation(
+  supabase: ReturnType<typeof createClient>,
+  token: TokenData,
+  maxTaxPercent: number
+): Promise<{ passed: boolean; reason: string }> {
+  const simulation = await getSellSimulation(supabase, token.address);
+  const verdict = evaluateSellSimulation(simulation, maxTaxPercent);
+  if (!verdict.passed) {
+    console.log(`[SellSim] ${token.symbol} rejected - ${verdict.reason}`);
   }
-
-  return { passed: true, reason: '✓ Token not blacklisted' };
+  return verdict;
 }
 
 // Create a trade signal for frontend execution (proper wallet signing)
@@ -470,7 +367,8 @@ async function createTradeSignal(
   settings: UserSettings,
   supabase: any,
   userId: string,
-  routeSource?: string
+  routeSource?: string,
+  walletAddress?: string
 ): Promise<{ success: boolean; signalId?: string; error?: string }> {
   try {
     console.log(`Creating trade signal for ${token.symbol}`);
@@ -491,13 +389,14 @@ async function createTradeSignal(
         price_usd: token.priceUsd,
         risk_score: token.riskScore,
         trade_amount: settings.trade_amount,
-        slippage: settings.priority === 'turbo' ? 15 : settings.priority === 'fast' ? 10 : 5,
+        slippage: resolveSlippage(settings),
         priority: settings.priority,
         status: 'pending',
         reasons: [],
         source: routeSource || (token.isPumpFun ? 'pumpfun' : 'jupiter'),
         is_pump_fun: token.isPumpFun || false,
         expires_at: expiresAt,
+        wallet_address: walletAddress ?? null,
         metadata: {
           buyer_position: token.buyerPosition,
           liquidity_locked: token.liquidityLocked,
@@ -572,10 +471,14 @@ serve(async (req) => {
     });
 
     const token = authHeader.slice('Bearer '.length);
-    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
-    const userId = claimsData?.claims?.sub;
+    // bot-runner calls on a user's behalf with the service role key; everyone else needs their own JWT
+    let userId = runnerUserId(req);
+    if (!userId) {
+      const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+      userId = claimsError ? null : claimsData?.claims?.sub ?? null;
+    }
 
-    if (claimsError || !userId) {
+    if (!userId) {
       return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
         status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -597,7 +500,7 @@ serve(async (req) => {
       });
     }
     
-    const { tokens, executeOnApproval } = validationResult.data!;
+    const { tokens, executeOnApproval, walletAddress } = validationResult.data!;
 
     // Default settings to use if user hasn't configured any
     // IMPORTANT: These MUST match the defaults in useSniperSettings.ts
@@ -612,6 +515,8 @@ serve(async (req) => {
       category_filters: ['animals', 'parody', 'trend', 'utility'],
       token_blacklist: [],
       token_whitelist: [],
+      max_risk_score: 70,
+      rule_config: [],
     };
 
     // Fetch user's sniper settings
@@ -621,9 +526,19 @@ serve(async (req) => {
       .eq('user_id', user.id)
       .single();
 
+    // The trading wallet's own strategy overrides sit on top of the user's settings
+    const { data: tradingWallet } = walletAddress
+      ? await supabase
+          .from('user_wallets')
+          .select('is_enabled, settings_overrides')
+          .eq('user_id', user.id)
+          .eq('address', walletAddress)
+          .maybeSingle()
+      : { data: null };
+
     // Use user settings if found, otherwise use defaults
-    const settings: UserSettings = userSettings || defaultSettings;
-    console.log(`Using settings for user ${user.id}:`, userSettings ? 'custom' : 'defaults');
+    const settings: UserSettings = resolveWalletSettings(userSettings || defaultSettings, tradingWallet?.settings_overrides);
+    console.log(`Using settings for user ${user.id}:`, userSettings ? 'custom' : 'defaults', tradingWallet ? `+ wallet ${walletAddress}` : '');
 
     // Fetch API configurations
     const { data: apiConfigs } = await supabase
@@ -637,15 +552,30 @@ serve(async (req) => {
     const honeypotConfig = getApiConfig('honeypot_rugcheck');
     const tradeExecutionConfig = getApiConfig('trade_execution');
 
-    // Check how many open positions user already has
-    const { count: openPositionsCount } = await supabase
+    // Check how many open positions user already has (per wallet when trading from a registered one)
+    let openPositionsQuery = supabase
       .from('positions')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', user.id)
       .eq('status', 'open');
+    if (tradingWallet) {
+      openPositionsQuery = openPositionsQuery.eq('wallet_address', walletAddress);
+    }
+    const { count: openPositionsCount } = await openPositionsQuery;
+
+    // Max tax for the sell simulation lives with the user's risk settings
+    const { data: riskSettings } = await supabase
+      .from('risk_settings')
+      .select('max_tax_percent')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    const maxTaxPercent = Number(riskSettings?.max_tax_percent ?? DEFAULT_MAX_TAX_PERCENT);
 
     const currentOpenPositions = openPositionsCount || 0;
-    const availableSlots = Math.max(0, settings.max_concurrent_trades - currentOpenPositions);
+    // A disabled wallet is still evaluated, but opens no new signals
+    const availableSlots = tradingWallet?.is_enabled === false
+      ? 0
+      : Math.max(0, settings.max_concurrent_trades - currentOpenPositions);
     
     console.log(`User has ${currentOpenPositions} open positions, ${availableSlots} slots available`);
 
@@ -653,119 +583,61 @@ serve(async (req) => {
     const executedTrades: { token: string; txId?: string; error?: string; positionId?: string }[] = [];
     let tradesExecuted = 0;
 
-    // Evaluate each token against the rules
+    // Evaluate each token against the shared rules engine (same chain the UI and backtester run)
     for (const tokenData of tokens as TokenData[]) {
-      const reasons: string[] = [];
-      let allPassed = true;
-
-      // Rule 0: CRITICAL - Token must be sellable to avoid stuck positions
-      if (tokenData.canSell === false) {
-        reasons.push('✗ Token cannot be sold (would create stuck position)');
-        allPassed = false;
-        console.log(`[Sellability] Token ${tokenData.symbol} rejected - not sellable`);
-      }
-
-      // Rule 1: Liquidity check against user's min_liquidity setting
-      if (allPassed) {
-        const liquidityCheck = checkLiquidity(tokenData, settings);
-        reasons.push(liquidityCheck.reason);
-        if (!liquidityCheck.passed) {
-          allPassed = false;
-          console.log(`[Liquidity] Token ${tokenData.symbol} rejected - ${tokenData.liquidity} SOL < ${settings.min_liquidity} SOL minimum`);
-        }
-      }
-
-      // Rule 2: Liquidity lock check (optional - can be bypassed if not required)
-      if (allPassed) {
-        const lockCheck = checkLiquidityLock(tokenData);
-        reasons.push(lockCheck.reason);
-        // Don't fail on lock check alone - just add reason
-      }
-
-      // Rule 3: Category filter check
-      if (allPassed) {
-        const categoryCheck = checkCategoryMatch(tokenData, settings);
-        reasons.push(categoryCheck.reason);
-        if (!categoryCheck.passed) allPassed = false;
-      }
-
-      // Rule 4: Buyer position check
-      if (allPassed) {
-        const positionCheck = checkBuyerPosition(tokenData);
-        reasons.push(positionCheck.reason);
-        if (!positionCheck.passed) allPassed = false;
-      }
-
-      // Check blacklist/whitelist
-      if (allPassed) {
-        const listCheck = checkBlacklistWhitelist(tokenData, settings);
-        reasons.push(listCheck.reason);
-        if (!listCheck.passed) allPassed = false;
-      }
+      let routeSource: string | undefined;
+
+      const outcome = await evaluateSnipeRules(tokenData, settings, {
+        resolvers: {
+          // Rule 5: Risk API check - reports a skip warning when no API is configured
+          risk: async (token) => {
+            const riskCheck = await checkRiskApproval(token, honeypotConfig);
+            // Update token with risk data
+            if (riskCheck.riskData) {
+              token.liquidityLocked = riskCheck.riskData.liquidityLocked;
+              token.lockPercentage = riskCheck.riskData.lockPercentage;
+              token.riskScore = riskCheck.riskData.riskScore;
+            }
+            return riskCheck;
+          },
+          // Rule 6: CRITICAL - Verify Jupiter/Raydium has a route for this token
+          // This prevents ROUTE_NOT_FOUND errors during trade execution
+          route: async (token) => {
+            const routeCheck = await checkTradeRoute(token);
+            routeSource = routeCheck.source;
+            return routeCheck;
+          },
+          // Rule 7: Round-trip simulation - rejects honeypots and tokens taxed above max_tax_percent
+          sell_simulation: (token) => checkSellSimulation(supabase, token, maxTaxPercent),
+        },
+      });
 
-      // Rule 5: Risk API check (only if other rules pass AND API is configured)
-      // Skip risk check if no API configured - don't block trades due to missing config
-      if (allPassed && honeypotConfig) {
-        const riskCheck = await checkRiskApproval(tokenData, honeypotConfig);
-        reasons.push(riskCheck.reason);
-        if (!riskCheck.passed) allPassed = false;
-
-        // Update token with risk data
-        if (riskCheck.riskData) {
-          tokenData.liquidityLocked = riskCheck.riskData.liquidityLocked;
-          tokenData.lockPercentage = riskCheck.riskData.lockPercentage;
-          tokenData.riskScore = riskCheck.riskData.riskScore;
-        }
-      } else if (allPassed && !honeypotConfig) {
-        // No risk API configured - allow trade with warning
-        reasons.push('⚠ Risk check skipped - no API configured');
-        console.log(`Risk check skipped for ${tokenData.symbol} - no honeypot API configured`);
+      if (!outcome.approved) {
+        console.log(`[${outcome.failedRule}] Token ${tokenData.symbol} rejected - ${outcome.reasons[outcome.reasons.length - 1]}`);
       }
 
-      // Rule 6: CRITICAL - Verify Jupiter/Raydium has a route for this token
-      // This prevents ROUTE_NOT_FOUND errors during trade execution
-      if (allPassed) {
-        const routeCheck = await checkTradeRoute(tokenData);
-        reasons.push(routeCheck.reason);
-        if (!routeCheck.passed) {
-          allPassed = false;
-          console.log(`[Route] Token ${tokenData.symbol} rejected - no route available`);
-        }
-      }
-      
       // Log the decision for debugging with settings context
-      console.log(`Token ${tokenData.symbol}: approved=${allPassed} | Settings: ${settings.trade_amount} SOL, TP ${settings.profit_take_percentage}%, SL ${settings.stop_loss_percentage}%, Min Liq ${settings.min_liquidity} SOL`);
+      console.log(`Token ${tokenData.symbol}: approved=${outcome.approved} | Settings: ${settings.trade_amount} SOL, TP ${settings.profit_take_percentage}%, SL ${settings.stop_loss_percentage}%, Min Liq ${settings.min_liquidity} SOL`);
 
-
-      const decision: SnipeDecision = {
-        token: tokenData,
-        approved: allPassed,
-        reasons,
-        tradeParams: allPassed ? {
-          amount: settings.trade_amount,
-          // Use user's configured slippage from settings, fallback to priority-based
-          slippage: (userSettings as any)?.slippage_tolerance ?? (settings.priority === 'turbo' ? 15 : settings.priority === 'fast' ? 10 : 5),
-          priority: settings.priority,
-          // Include TP/SL for reference
-          profitTakePercent: settings.profit_take_percentage,
-          stopLossPercent: settings.stop_loss_percentage,
-          minLiquidity: settings.min_liquidity,
-          maxConcurrentTrades: settings.max_concurrent_trades,
-        } : null,
-      };
+      const decision: SnipeDecision = buildSnipeDecision(tokenData, outcome, settings);
+      const allPassed = decision.approved;
 
       decisions.push(decision);
 
       // Create trade signal if approved and execution is enabled and we have available slots
       if (allPassed && executeOnApproval && tradesExecuted < availableSlots) {
         // Create trade signal for frontend wallet signing (proper production flow)
-        const routeCheck = await checkTradeRoute(tokenData);
+        // Route rule disabled by the user? Look the route up now so the signal has a source.
+        if (routeSource === undefined) {
+          routeSource = (await checkTradeRoute(tokenData)).source;
+        }
         const signalResult = await createTradeSignal(
           tokenData, 
           settings, 
           supabase, 
           user.id,
-          routeCheck.source
+          routeSource,
+          walletAddress
         );
         executedTrades.push({
           token: tokenData.symbol,
@@ -777,9 +649,24 @@ serve(async (req) => {
           tradesExecuted++;
           console.log(`Trade signal created for ${tokenData.symbol}, signal: ${signalResult.signalId}`);
         }
+
+        await notifyUser(supabase, {
+          userId: user.id,
+          eventType: 'trade_signal',
+          title: signalResult.success ? `Trade Signal: ${tokenData.symbol}` : `Trade Failed: ${tokenData.symbol}`,
+          message: signalResult.success
+            ? `Auto-sniper approved ${tokenData.symbol} - buying ${settings.trade_amount} SOL`
+            : signalResult.error || 'Signal creation failed',
+          type: signalResult.success ? 'trade' : 'error',
+          metadata: { token: tokenData.symbol, tokenAddress: tokenData.address, signalId: signalResult.signalId ?? null },
+          source: 'auto-sniper',
+        });
       }
     }
 
+    // Every decision, with all rule reasons, goes to the audit trail
+    await recordAuditEvents(supabase, user.id, decisions.map((d) => snipeDecisionAuditEvent(d, 'auto-sniper')));
+
     const approvedCount = decisions.filter(d => d.approved).length;
     console.log(`Auto-sniper evaluated ${tokens.length} tokens, ${approvedCount} approved, ${tradesExecuted} executed`);
 
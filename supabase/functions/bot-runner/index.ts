@@ -0,0 +1,408 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveApiKey, type ApiConfig } from "../_shared/price-sources.ts";
+import { buildExitStrategy } from "../_shared/exit-strategy.ts";
+import { isServiceRoleRequest, RUNNER_USER_HEADER } from "../_shared/runner-auth.ts";
+import { checkBuyGuardrails } from "../_shared/guardrail-check.ts";
+import { isExecutionChain } from "../_shared/execution-adapter.ts";
+import { recordAuditEvents } from "../_shared/audit.ts";
+import { guardrailSkipAuditEvent } from "../_shared/audit-trail.ts";
+import {
+  botStateFromRow,
+  nextRunAt,
+  rememberTokens,
+  runnerPhases,
+  unseenTokens,
+  type BotRunnerRow,
+  type RunnerSummary,
+} from "../_shared/bot-runner.ts";
+import {
+  needsActivation,
+  profileActivationPatch,
+  resolveScheduledProfile,
+  type ActiveProfileRef,
+  type StrategyProfile,
+} from "../_shared/strategy-profiles.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Users claimed per invocation; pg_cron fires every 15 seconds, so a backlog drains over a few ticks
+const MAX_USERS_PER_RUN = 10;
+
+// Tokens sent to auto-sniper per cycle (same batch the Scanner evaluated)
+const EVALUATION_BATCH = 20;
+
+interface ScannedToken {
+  address: string;
+  name: string;
+  symbol: string;
+  chain: string;
+  liquidity: number;
+  liquidityLocked: boolean;
+  lockPercentage: number | null;
+  buyerPosition: number | null;
+  riskScore: number;
+  priceUsd?: number;
+  canSell?: boolean;
+}
+
+interface PendingSignal {
+  id: string;
+  token_address: string;
+  token_symbol: string;
+  token_name: string;
+  chain: string;
+  price_usd: number | null;
+  trade_amount: number;
+  slippage: number;
+  wallet_address: string | null;
+  metadata: { profit_take_percent?: number; stop_loss_percent?: number } | null;
+}
+
+type Supabase = ReturnType<typeof createClient>;
+
+// Calls another Edge Function as the runner, on behalf of one user
+async function invokeForUser<T>(name: string, userId: string, body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      [RUNNER_USER_HEADER]: userId,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data?.error) {
+    throw new Error(`${name}: ${data?.error || `HTTP ${response.status}`}`);
+  }
+  return data as T;
+}
+
+// Buys through the configured trade execution API - the runner holds no wallet keys, so without one
+// approved signals stay pending until a connected wallet (Scanner or signal panel) signs them.
+// The API bypasses trade-execution, so its guardrails are checked here; a blocked signal is skipped.
+async function executeSignalViaApi(
+  supabase: Supabase,
+  userId: string,
+  signal: PendingSignal,
+  tradeExecutionConfig: ApiConfig
+): Promise<{ success: boolean; skipped?: boolean; txId?: string; error?: string }> {
+  try {
+    const chain = isExecutionChain(signal.chain) ? signal.chain : 'solana';
+    const guardrails = await checkBuyGuardrails(supabase, userId, signal.token_address, signal.trade_amount, chain);
+    if (!guardrails.allowed) {
+      console.log(`[BotRunner] Guardrail skipped ${signal.token_symbol}: ${guardrails.reason}`);
+      await recordAuditEvents(supabase, userId, [guardrailSkipAuditEvent({
+        tokenAddress: signal.token_address,
+        tokenSymbol: signal.token_symbol,
+        tradeAmount: signal.trade_amount,
+        reason: guardrails.reason ?? 'Guardrail breached',
+        statuses: guardrails.statuses,
+        signalId: signal.id,
+      }, 'bot-runner')]);
+      return { success: false, skipped: true, error: guardrails.reason ?? undefined };
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = await resolveApiKey('trade_execution', tradeExecutionConfig.api_key_encrypted);
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${tradeExecutionConfig.base_url}/trade/execute`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        tokenAddress: signal.token_address,
+        chain: signal.chain,
+        action: 'buy',
+        amount: signal.trade_amount,
+        slippage: signal.slippage,
+        walletAddress: signal.wallet_address,
+        signalId: signal.id,
+      }),
+    });
+
+    if (!response.ok) {
+      return { success: false, error: `Trade API error: ${await response.text()}` };
+    }
+
+    const result = await response.json();
+    const txId: string = result.transactionId || result.txId || 'pending';
+
+    await supabase
+      .from('trade_signals')
+      .update({ status: 'executed', executed_at: new Date().toISOString(), tx_signature: txId })
+      .eq('id', signal.id);
+
+    // Only a reported fill can be tracked by auto-exit
+    const tokenAmount = Number(result.tokenAmount ?? result.amountOut);
+    if (Number.isFinite(tokenAmount) && tokenAmount > 0) {
+      const profitTakePercent = signal.metadata?.profit_take_percent ?? 100;
+      const stopLossPercent = signal.metadata?.stop_loss_percent ?? 20;
+      const entryPrice = signal.trade_amount / tokenAmount;
+      const { data: exitSettings } = await supabase
+        .from('user_sniper_settings')
+        .select('profit_take_percentage, stop_loss_percentage, trailing_stop_enabled, trailing_stop_percent, trailing_stop_activation_percent, take_profit_ladder')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      const { error: posError } = await supabase.from('positions').insert({
+        user_id: userId,
+        token_address: signal.token_address,
+        token_symbol: signal.token_symbol,
+        token_name: signal.token_name,
+        chain: signal.chain,
+        entry_price: entryPrice,
+        entry_price_usd: signal.price_usd,
+        current_price: entryPrice,
+        amount: tokenAmount,
+        entry_value: signal.trade_amount,
+        current_value: signal.trade_amount,
+        profit_take_percent: profitTakePercent,
+        stop_loss_percent: stopLossPercent,
+        exit_strategy: buildExitStrategy(exitSettings, { profitTakePercent, stopLossPercent }),
+        status: 'open',
+        wallet_address: signal.wallet_address,
+      });
+      if (posError) console.error(`[BotRunner] Failed to record position for ${signal.token_symbol}:`, posError.message);
+    }
+
+    return { success: true, txId };
+  } catch (error) {
+    console.error('[BotRunner] API buy error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Buy execution failed' };
+  }
+}
+
+// Load the profile the user's schedule wants before the cycle reads any settings
+async function applyProfileSchedule(supabase: Supabase, userId: string): Promise<void> {
+  const { data: active } = await supabase
+    .from('user_sniper_settings')
+    .select('active_profile_id, active_profile_version, profile_schedule_enabled')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!active?.profile_schedule_enabled) return;
+
+  const { data: profiles, error } = await supabase
+    .from('strategy_profiles')
+    .select('*')
+    .eq('user_id', userId);
+  if (error) throw error;
+
+  const profile = resolveScheduledProfile((profiles || []) as StrategyProfile[], new Date());
+  if (!profile || !needsActivation(active as ActiveProfileRef, profile)) return;
+
+  const patch = profileActivationPatch(profile);
+  const { error: sniperError } = await supabase
+    .from('user_sniper_settings')
+    .update(patch.sniper)
+    .eq('user_id', userId);
+  if (sniperError) throw sniperError;
+
+  if (Object.keys(patch.risk).length > 0) {
+    const { error: riskError } = await supabase
+      .from('risk_settings')
+      .upsert({ user_id: userId, ...patch.risk }, { onConflict: 'user_id' });
+    if (riskError) throw riskError;
+  }
+
+  await supabase.from('strategy_profile_activations').insert({
+    user_id: userId,
+    profile_id: profile.id,
+    profile_name: profile.name,
+    profile_version: profile.version,
+    source: 'schedule',
+  });
+  console.log(`[BotRunner] Schedule switched user ${userId} to profile "${profile.name}" v${profile.version}`);
+}
+
+// One cycle for one user: scan -> evaluate (signals) -> execute -> exits
+async function runCycle(supabase: Supabase, row: BotRunnerRow, apiConfigs: ApiConfig[]): Promise<Partial<BotRunnerRow>> {
+  const userId = row.user_id;
+  const state = botStateFromRow(row);
+  const phases = runnerPhases(state);
+  const walletAddress = row.wallet_address ?? undefined;
+  const summary: RunnerSummary = {
+    scanned: 0, evaluated: 0, approved: 0, signals: 0, executed: 0, exitsTriggered: 0, exitsExecuted: 0,
+  };
+  const errors: string[] = [];
+  let seenTokens = row.seen_tokens ?? [];
+  let successfulTrades = 0;
+  let failedTrades = 0;
+
+  try {
+    await applyProfileSchedule(supabase, userId);
+  } catch (error) {
+    errors.push(`Profile schedule: ${error instanceof Error ? error.message : 'switch failed'}`);
+  }
+
+  if (phases.entries) {
+    const [{ data: settings }, { data: riskSettings }] = await Promise.all([
+      supabase.from('user_sniper_settings').select('min_liquidity').eq('user_id', userId).maybeSingle(),
+      supabase.from('risk_settings').select('emergency_stop_active').eq('user_id', userId).maybeSingle(),
+    ]);
+
+    if (riskSettings?.emergency_stop_active) {
+      errors.push('Emergency stop active - entries skipped');
+    } else {
+      try {
+        const scan = await invokeForUser<{ tokens?: ScannedToken[] }>('token-scanner', userId, {
+          ...(settings?.min_liquidity ? { minLiquidity: settings.min_liquidity } : {}),
+        });
+        const tokens = scan.tokens ?? [];
+        summary.scanned = tokens.length;
+
+        const batch = unseenTokens(tokens, seenTokens)
+          .filter((t) => t.canSell !== false)
+          .slice(0, EVALUATION_BATCH);
+
+        if (batch.length > 0) {
+          const evaluation = await invokeForUser<{
+            decisions?: { approved: boolean }[];
+            executedTrades?: { txId?: string; error?: string }[];
+          }>('auto-sniper', userId, { tokens: batch, executeOnApproval: true, walletAddress });
+          seenTokens = rememberTokens(seenTokens, batch.map((t) => t.address));
+          summary.evaluated = batch.length;
+          summary.approved = evaluation.decisions?.filter((d) => d.approved).length ?? 0;
+          summary.signals = evaluation.executedTrades?.filter((t) => t.txId && !t.error).length ?? 0;
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Scan failed');
+      }
+
+      const tradeExecutionConfig = apiConfigs.find((c) => c.api_type === 'trade_execution');
+      if (tradeExecutionConfig) {
+        let signalsQuery = supabase
+          .from('trade_signals')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('status', 'pending')
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: true });
+        if (walletAddress) signalsQuery = signalsQuery.eq('wallet_address', walletAddress);
+        const { data: signals } = await signalsQuery;
+
+        for (const signal of (signals || []) as PendingSignal[]) {
+          const result = await executeSignalViaApi(supabase, userId, signal, tradeExecutionConfig);
+          if (result.skipped) continue;
+          if (result.success) {
+            summary.executed++;
+            successfulTrades++;
+          } else {
+            failedTrades++;
+            errors.push(`${signal.token_symbol}: ${result.error}`);
+            break; // Stop on first failure, like the Scanner
+          }
+        }
+      }
+    }
+  }
+
+  if (phases.exits) {
+    try {
+      const exits = await invokeForUser<{ summary?: Record<string, number> }>('auto-exit', userId, {
+        executeExits: true,
+        walletAddress,
+      });
+      const s = exits.summary ?? {};
+      summary.exitsTriggered = (s.takeProfitTriggered || 0) + (s.stopLossTriggered || 0) +
+        (s.trailingStopTriggered || 0) + (s.ladderTakeProfitTriggered || 0);
+      summary.exitsExecuted = s.executed || 0;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Exit check failed');
+    }
+  }
+
+  return {
+    seen_tokens: seenTokens,
+    last_run_at: new Date().toISOString(),
+    last_summary: summary,
+    last_error: errors.length > 0 ? errors.join(' | ') : null,
+    total_trades: row.total_trades + successfulTrades + failedTrades,
+    successful_trades: row.successful_trades + successfulTrades,
+    failed_trades: row.failed_trades + failedTrades,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Scheduled by pg_cron with the service role key - there is no user session to act for
+    if (!isServiceRoleRequest(req)) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const now = new Date().toISOString();
+
+    const { data: dueRows, error: dueError } = await supabase
+      .from('bot_runner_state')
+      .select('*')
+      .eq('is_bot_active', true)
+      .lte('next_run_at', now)
+      .order('next_run_at', { ascending: true })
+      .limit(MAX_USERS_PER_RUN);
+
+    if (dueError) throw dueError;
+
+    const { data: apiConfigs } = await supabase
+      .from('api_configurations')
+      .select('*')
+      .eq('is_enabled', true);
+
+    const results: { userId: string; summary?: unknown; error?: string | null }[] = [];
+
+    for (const due of (dueRows || []) as BotRunnerRow[]) {
+      const state = botStateFromRow(due);
+
+      // Claim the cycle first: an overlapping invocation finds next_run_at already moved on
+      const { data: claimed } = await supabase
+        .from('bot_runner_state')
+        .update({ next_run_at: nextRunAt(state.scanSpeed) })
+        .eq('user_id', due.user_id)
+        .eq('next_run_at', due.next_run_at)
+        .select('*')
+        .maybeSingle();
+      if (!claimed) continue;
+
+      try {
+        const update = await runCycle(supabase, claimed as BotRunnerRow, (apiConfigs || []) as ApiConfig[]);
+        await supabase.from('bot_runner_state').update(update).eq('user_id', due.user_id);
+        results.push({ userId: due.user_id, summary: update.last_summary, error: update.last_error });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Runner cycle failed';
+        console.error(`[BotRunner] Cycle failed for ${due.user_id}:`, error);
+        await supabase
+          .from('bot_runner_state')
+          .update({ last_run_at: new Date().toISOString(), last_error: message })
+          .eq('user_id', due.user_id);
+        results.push({ userId: due.user_id, error: message });
+      }
+    }
+
+    console.log(`[BotRunner] Ran ${results.length} of ${dueRows?.length ?? 0} due bot(s)`);
+
+    return new Response(
+      JSON.stringify({ ran: results.length, results, timestamp: new Date().toISOString() }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Bot runner error:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,4 +1,10 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { averageIntoPosition } from "../_shared/position-accounting.ts";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import { maskRpcUrl, type RpcPool } from "../_shared/rpc-pool.ts";
+import { explorerTxUrl, isEvmChain, isExecutionChain, type EvmChain, type ExecutionChain } from "../_shared/execution-adapter.ts";
+import { getEvmRpc } from "../_shared/evm-rpc.ts";
+import { fillSlippagePct, parseSwapFill, LAMPORTS_PER_SOL, type ParsedSwapTransaction, type SwapFill } from "../_shared/fill-reconciler.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,18 +14,20 @@ const corsHeaders = {
 interface ConfirmRequest {
   signature: string;
   positionId?: string;
+  fillId?: string; // position_fills row created by trade-execution for this buy
   action: "buy" | "sell";
+  chain?: ExecutionChain; // Defaults to solana; EVM signatures are transaction hashes
+  quotedPrice?: number; // SOL per token the sell was quoted at; buys take it from the pending fill / position
 }
 
 async function confirmTransaction(
-  rpcUrl: string,
+  rpc: RpcPool,
   signature: string,
   maxRetries: number = 30
 ): Promise<{ confirmed: boolean; slot?: number; error?: string }> {
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
-      const response = await fetch(rpcUrl, {
-        method: "POST",
+      const response = await rpc.request({
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           jsonrpc: "2.0",
@@ -61,10 +69,37 @@ async function confirmTransaction(
   return { confirmed: false, error: "Confirmation timeout" };
 }
 
-async function getTransactionDetails(rpcUrl: string, signature: string): Promise<any> {
+// EVM receipts: status 0x1 = mined and succeeded, 0x0 = reverted. Blocks are slower than slots, so poll longer.
+async function confirmEvmTransaction(
+  chain: EvmChain,
+  hash: string,
+  maxRetries: number = 60
+): Promise<{ confirmed: boolean; slot?: number; error?: string }> {
+  const rpc = getEvmRpc(chain);
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      const receipt = await rpc.call<{ status?: string; blockNumber?: string } | null>("eth_getTransactionReceipt", [hash]);
+      if (receipt?.blockNumber) {
+        const block = parseInt(receipt.blockNumber, 16);
+        if (receipt.status === "0x1") {
+          console.log(`[Confirm] ${chain} transaction confirmed in block ${block}`);
+          return { confirmed: true, slot: block };
+        }
+        console.error(`[Confirm] ${chain} transaction reverted in block ${block}`);
+        return { confirmed: false, slot: block, error: "Transaction reverted" };
+      }
+    } catch (error) {
+      console.error(`[Confirm] ${chain} polling error:`, error);
+    }
+    await new Promise((r) => setTimeout(r, 1000));
+  }
+
+  return { confirmed: false, error: "Confirmation timeout" };
+}
+
+async function getTransactionDetails(rpc: RpcPool, signature: string): Promise<ParsedSwapTransaction | null> {
   try {
-    const response = await fetch(rpcUrl, {
-      method: "POST",
+    const response = await rpc.request({
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         jsonrpc: "2.0",
@@ -84,6 +119,186 @@ async function getTransactionDetails(rpcUrl: string, signature: string): Promise
   return null;
 }
 
+// Record what the swap really filled at, and correct the pending fill / position before they settle
+// so entry prices carry the executed price instead of the quote.
+async function reconcileFill(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  body: ConfirmRequest,
+  tx: ParsedSwapTransaction | null
+): Promise<{ fill: SwapFill; slippagePct: number | null } | null> {
+  const { data: position } = body.positionId
+    ? await supabase
+        .from("positions")
+        .select("id, status, token_address, entry_price, entry_price_usd, fees_sol")
+        .eq("id", body.positionId)
+        .eq("user_id", userId)
+        .maybeSingle()
+    : { data: null };
+
+  const fill = parseSwapFill(tx, body.action, position?.token_address);
+  if (!fill) {
+    console.warn(`[Confirm] Could not read a ${body.action} fill from ${body.signature.slice(0, 16)}... - keeping quoted prices`);
+    return null;
+  }
+
+  const { data: pendingFill } = body.fillId
+    ? await supabase
+        .from("position_fills")
+        .select("id, status, price, price_usd")
+        .eq("id", body.fillId)
+        .eq("user_id", userId)
+        .maybeSingle()
+    : { data: null };
+
+  const rawQuote = body.action === "buy"
+    ? Number(pendingFill?.price ?? position?.entry_price) || null
+    : body.quotedPrice ?? null;
+  const slippagePct = fillSlippagePct(body.action, rawQuote, fill.price);
+  // Only keep a quote that is plausibly SOL per token - trade_history reads it from transaction_fills
+  const quotedPrice = slippagePct != null ? rawQuote : null;
+  // USD prices were quoted alongside the SOL price, so they move by the same ratio
+  const fillRatio = quotedPrice ? fill.price / quotedPrice : 1;
+  const feesSol = (fill.networkFeeLamports + fill.priorityFeeLamports) / LAMPORTS_PER_SOL;
+
+  const { error: fillError } = await supabase.from("transaction_fills").upsert({
+    user_id: userId,
+    signature: body.signature,
+    side: fill.side,
+    wallet_address: fill.owner,
+    token_address: fill.mint,
+    position_id: position?.id ?? null,
+    token_amount: fill.tokenAmount,
+    sol_amount: fill.solAmount,
+    price_sol: fill.price,
+    quoted_price_sol: quotedPrice,
+    slippage_pct: slippagePct,
+    network_fee_lamports: fill.networkFeeLamports,
+    priority_fee_lamports: fill.priorityFeeLamports,
+    rent_lamports: fill.rentLamports,
+    slot: tx?.slot ?? null,
+  }, { onConflict: "user_id,signature" });
+  if (fillError) console.error("[Confirm] Failed to record transaction fill:", fillError);
+
+  if (pendingFill?.status === "pending") {
+    await supabase
+      .from("position_fills")
+      .update({
+        amount: fill.tokenAmount,
+        sol_amount: fill.solAmount,
+        price: fill.price,
+        price_usd: pendingFill.price_usd != null ? Number(pendingFill.price_usd) * fillRatio : null,
+      })
+      .eq("id", pendingFill.id)
+      .eq("user_id", userId);
+  }
+
+  if (position) {
+    const fees_sol = Number(position.fees_sol ?? 0) + feesSol;
+    // An opening buy replaces the quoted entry; averaged buys are folded in by settleBuyFill
+    const update = body.action === "buy" && position.status === "pending"
+      ? {
+          entry_price: fill.price,
+          entry_price_usd: position.entry_price_usd != null ? Number(position.entry_price_usd) * fillRatio : null,
+          current_price: fill.price,
+          amount: fill.tokenAmount,
+          entry_value: fill.solAmount,
+          current_value: fill.solAmount,
+          entry_slippage_pct: slippagePct,
+          fees_sol,
+        }
+      : body.action === "sell"
+        ? { exit_slippage_pct: slippagePct, fees_sol }
+        : { fees_sol };
+
+    await supabase
+      .from("positions")
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq("id", position.id)
+      .eq("user_id", userId);
+  }
+
+  // History rows written before confirmation; later inserts are corrected by the apply_transaction_fill trigger
+  const { data: historyRows } = await supabase
+    .from("trade_history")
+    .select("id, price_sol")
+    .eq("user_id", userId)
+    .eq("tx_hash", body.signature)
+    .eq("trade_type", body.action)
+    .is("network_fee_lamports", null);
+
+  for (const row of historyRows ?? []) {
+    // A row's own price_sol may have been written in USD, so it only stands in for a missing quote when plausible
+    const rowQuote = quotedPrice ?? (fillSlippagePct(body.action, row.price_sol, fill.price) != null ? Number(row.price_sol) : null);
+    await supabase
+      .from("trade_history")
+      .update({
+        amount: fill.tokenAmount,
+        price_sol: fill.price,
+        quoted_price_sol: rowQuote,
+        fill_slippage_pct: fillSlippagePct(body.action, rowQuote, fill.price),
+        network_fee_lamports: fill.networkFeeLamports,
+        priority_fee_lamports: fill.priorityFeeLamports,
+      })
+      .eq("id", row.id)
+      .eq("user_id", userId);
+  }
+
+  console.log(
+    `[Confirm] ${fill.side} filled ${fill.tokenAmount} @ ${fill.price} SOL` +
+      (slippagePct != null ? ` (${slippagePct.toFixed(2)}% vs quote)` : "")
+  );
+  return { fill, slippagePct };
+}
+
+// Confirm a pending buy fill. When it was added to an already-open position
+// (averaging), fold it into that position at weighted-average cost.
+async function settleBuyFill(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  fillId: string,
+  signature: string
+): Promise<void> {
+  const { data: fill } = await supabase
+    .from("position_fills")
+    .select("id, position_id, status, amount, sol_amount, price, price_usd")
+    .eq("id", fillId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!fill || fill.status !== "pending") return;
+
+  const { data: position } = await supabase
+    .from("positions")
+    .select("id, status, amount, entry_price, entry_price_usd, entry_value, remaining_fraction")
+    .eq("id", fill.position_id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (position?.status === "open") {
+    const averaged = averageIntoPosition(position, {
+      amount: Number(fill.amount),
+      solAmount: Number(fill.sol_amount),
+      price: Number(fill.price ?? position.entry_price),
+      priceUsd: fill.price_usd,
+    });
+
+    await supabase
+      .from("positions")
+      .update({ ...averaged, updated_at: new Date().toISOString() })
+      .eq("id", position.id)
+      .eq("user_id", userId);
+
+    console.log(`[Confirm] Averaged fill ${fillId} into position ${position.id}`);
+  }
+
+  await supabase
+    .from("position_fills")
+    .update({ status: "confirmed", tx_hash: signature })
+    .eq("id", fillId)
+    .eq("user_id", userId);
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -116,11 +331,40 @@ Deno.serve(async (req) => {
     const body: ConfirmRequest = await req.json();
     console.log(`[Confirm] Checking signature: ${body.signature.slice(0, 16)}...`);
 
-    const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
-    console.log(`[Confirm] Using RPC: ${rpcUrl.slice(0, 40)}...`);
+    const chain = body.chain ?? "solana";
+    if (!isExecutionChain(chain)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid chain: ${chain}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const rpc = isEvmChain(chain) ? null : await getSolanaRpc();
+    if (rpc) console.log(`[Confirm] Using RPC: ${maskRpcUrl(rpc.activeUrl())}`);
 
     // Confirm the transaction
-    const result = await confirmTransaction(rpcUrl, body.signature);
+    const result = isEvmChain(chain)
+      ? await confirmEvmTransaction(chain, body.signature)
+      : await confirmTransaction(rpc!, body.signature);
+
+    // Reconcile before settling, so averaging and the opened position use the executed fill
+    const reconciled = result.confirmed && rpc
+      ? await reconcileFill(supabase, user.id, body, await getTransactionDetails(rpc, body.signature))
+      : null;
+
+    // Settle the fill first: an opening fill's position is still pending at this point
+    if (body.fillId && body.action === "buy") {
+      if (result.confirmed) {
+        await settleBuyFill(supabase, user.id, body.fillId, body.signature);
+      } else {
+        await supabase
+          .from("position_fills")
+          .delete()
+          .eq("id", body.fillId)
+          .eq("user_id", user.id)
+          .eq("status", "pending");
+      }
+    }
 
     if (result.confirmed && body.positionId) {
       // Update position status
@@ -136,9 +380,6 @@ Deno.serve(async (req) => {
 
         console.log(`[Confirm] Position ${body.positionId} marked as open`);
       } else if (body.action === "sell") {
-        // Get transaction details to extract actual exit price
-        const txDetails = await getTransactionDetails(rpcUrl, body.signature);
-        
         await supabase
           .from("positions")
           .update({
@@ -176,9 +417,13 @@ Deno.serve(async (req) => {
       metadata: {
         signature: body.signature,
         positionId: body.positionId,
+        fillId: body.fillId,
         action: body.action,
+        chain,
         slot: result.slot,
         error: result.error,
+        fillPriceSol: reconciled?.fill.price,
+        fillSlippagePct: reconciled?.slippagePct,
       },
     });
 
@@ -189,7 +434,16 @@ Deno.serve(async (req) => {
         signature: body.signature,
         slot: result.slot,
         error: result.error,
-        explorerUrl: `https://solscan.io/tx/${body.signature}`,
+        explorerUrl: explorerTxUrl(chain, body.signature),
+        fill: reconciled
+          ? {
+              tokenAmount: reconciled.fill.tokenAmount,
+              solAmount: reconciled.fill.solAmount,
+              priceSol: reconciled.fill.price,
+              slippagePct: reconciled.slippagePct,
+              feeLamports: reconciled.fill.networkFeeLamports + reconciled.fill.priorityFeeLamports,
+            }
+          : null,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,225 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  computeCopyBuySize,
+  detectLeaderSwap,
+  getCopySkipReason,
+  parseCopyTradingLimits,
+  type CopyLeader,
+  type ParsedTransaction,
+} from "../_shared/copy-trading.ts";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import type { RpcPool } from "../_shared/rpc-pool.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Signatures pulled per leader per run (older activity is skipped, not replayed)
+const SIGNATURE_BATCH = 25;
+
+async function rpcCall<T>(rpc: RpcPool, method: string, params: unknown[]): Promise<T> {
+  const response = await rpc.request({
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`RPC error ${response.status}: ${text.slice(0, 120)}`);
+  }
+
+  const data = await response.json();
+  if (data?.error) {
+    throw new Error(data.error?.message || 'RPC returned an error');
+  }
+  return data.result as T;
+}
+
+interface SignatureInfo {
+  signature: string;
+  err: unknown;
+  blockTime: number | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Auth client for JWT verification (works with signing-keys on custom domains)
+    const authClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.slice('Bearer '.length);
+    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+    const userId = claimsData?.claims?.sub;
+
+    if (claimsError || !userId) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Service client for DB access (admin_settings is admin-only under RLS)
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: copySetting } = await supabase
+      .from('admin_settings')
+      .select('setting_value')
+      .eq('setting_key', 'copy_trading')
+      .maybeSingle();
+
+    const limits = parseCopyTradingLimits(copySetting?.setting_value);
+    if (!limits.enabled) {
+      return new Response(
+        JSON.stringify({ enabled: false, detected: 0, skipped: 0, leaders: 0, message: 'Copy trading is disabled platform-wide' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: leaderRows, error: leadersError } = await supabase
+      .from('copy_leaders')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (leadersError) throw leadersError;
+
+    // Platform caps: blacklisted wallets are never followed, oldest leaders win the slots
+    const leaders = ((leaderRows || []) as CopyLeader[])
+      .filter((l) => !limits.blacklistedWallets.includes(l.leader_address))
+      .slice(0, limits.maxWalletsToFollow);
+
+    const rpc = await getSolanaRpc();
+    const executeAfter = new Date(Date.now() + limits.copyDelaySeconds * 1000).toISOString();
+
+    let detected = 0;
+    let skipped = 0;
+    const errors: { leader: string; error: string }[] = [];
+
+    for (const leader of leaders) {
+      try {
+        const signatures = await rpcCall<SignatureInfo[]>(rpc, 'getSignaturesForAddress', [
+          leader.leader_address,
+          { limit: SIGNATURE_BATCH, ...(leader.last_signature ? { until: leader.last_signature } : {}) },
+        ]);
+
+        const newest = signatures[0]?.signature;
+
+        // First run for this leader: set the cursor only, don't mirror history
+        if (!leader.last_signature || !newest) {
+          await supabase
+            .from('copy_leaders')
+            .update({ last_signature: newest ?? leader.last_signature, last_checked_at: new Date().toISOString() })
+            .eq('id', leader.id);
+          continue;
+        }
+
+        // Oldest first so mirrored trades keep the leader's order
+        for (const sig of [...signatures].reverse()) {
+          if (sig.err) continue;
+
+          const tx = await rpcCall<ParsedTransaction | null>(rpc, 'getTransaction', [
+            sig.signature,
+            { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0, commitment: 'confirmed' },
+          ]);
+
+          const swap = detectLeaderSwap(sig.signature, tx, leader.leader_address);
+          if (!swap) continue;
+
+          const buySize = swap.action === 'buy' ? computeCopyBuySize(leader, swap.solAmount, limits) : 0;
+          const skipReason = getCopySkipReason(swap, leader, limits, buySize);
+
+          const { error: insertError } = await supabase
+            .from('copy_trades')
+            .upsert({
+              user_id: userId,
+              leader_id: leader.id,
+              leader_address: leader.leader_address,
+              leader_name: leader.leader_name,
+              leader_tx_signature: swap.signature,
+              leader_amount_sol: swap.solAmount,
+              token_address: swap.tokenAddress,
+              token_symbol: `${swap.tokenAddress.slice(0, 4)}…${swap.tokenAddress.slice(-4)}`,
+              action: swap.action,
+              // Buys: SOL to spend. Sells: leader token amount (we mirror sell_percent of our holding)
+              amount: swap.action === 'buy' ? buySize : swap.tokenAmount,
+              sell_percent: swap.sellPercent,
+              price: swap.price,
+              status: skipReason ? 'skipped' : 'pending',
+              error_message: skipReason,
+              execute_after: executeAfter,
+            }, { onConflict: 'user_id,leader_tx_signature', ignoreDuplicates: true });
+
+          if (insertError) {
+            console.error(`[CopyTrader] Failed to record ${swap.signature}:`, insertError);
+            continue;
+          }
+
+          if (skipReason) {
+            skipped++;
+          } else {
+            detected++;
+          }
+        }
+
+        await supabase
+          .from('copy_leaders')
+          .update({ last_signature: newest, last_checked_at: new Date().toISOString() })
+          .eq('id', leader.id);
+      } catch (leaderError) {
+        const message = leaderError instanceof Error ? leaderError.message : String(leaderError);
+        console.error(`[CopyTrader] Leader ${leader.leader_address} failed:`, message);
+        errors.push({ leader: leader.leader_address, error: message });
+      }
+    }
+
+    if (detected > 0 || skipped > 0) {
+      await supabase.from('system_logs').insert({
+        user_id: userId,
+        event_type: 'copy_trades_detected',
+        event_category: 'trading',
+        message: `Copy trader queued ${detected} trade(s), skipped ${skipped}`,
+        metadata: { detected, skipped, leaders: leaders.length, copy_delay_seconds: limits.copyDelaySeconds },
+        severity: 'info',
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        enabled: true,
+        detected,
+        skipped,
+        leaders: leaders.length,
+        errors,
+        timestamp: new Date().toISOString(),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Copy trader error:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
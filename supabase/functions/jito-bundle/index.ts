@@ -0,0 +1,222 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  DEFAULT_JITO_SETTINGS,
+  JITO_BLOCK_ENGINE_URL,
+  mapInflightBundleStatus,
+  transactionSignature,
+  type JitoBundleStatus,
+} from "../_shared/jito.ts";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import type { RpcPool } from "../_shared/rpc-pool.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_BUNDLE_TRANSACTIONS = 5;
+const MAX_FALLBACK_SLOTS = 150;
+const POLL_INTERVAL_MS = 800;
+
+interface BundleRequest {
+  transactions: string[]; // signed, base64; the swap first and the tip transfer last
+  fallbackSlots?: number;
+}
+
+interface InflightBundleStatus {
+  bundle_id: string;
+  status: string;
+  landed_slot: number | null;
+}
+
+interface BundleResult {
+  status: JitoBundleStatus;
+  bundleId: string | null;
+  signature: string;
+  landedSlot?: number | null;
+  slotsWaited: number;
+  error?: string;
+}
+
+function blockEngineUrl(): string {
+  return (Deno.env.get("JITO_BLOCK_ENGINE_URL") || JITO_BLOCK_ENGINE_URL).replace(/\/$/, "");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function blockEngineRequest<T>(path: string, method: string, params: unknown[]): Promise<T> {
+  const res = await fetch(`${blockEngineUrl()}/api/v1/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Block engine error ${res.status}: ${text.slice(0, 160)}`);
+  }
+  const data = await res.json();
+  if (data?.error) throw new Error(data.error?.message || "Block engine returned an error");
+  return data?.result as T;
+}
+
+async function getSlot(rpc: RpcPool): Promise<number> {
+  return await rpc.call<number>("getSlot", [{ commitment: "processed" }]);
+}
+
+// The swap may land through the bundle right as we give up on it - never send it twice
+async function swapLandedSlot(rpc: RpcPool, signature: string): Promise<number | null> {
+  const result = await rpc.call<{ value: ({ slot: number; err: unknown } | null)[] }>(
+    "getSignatureStatuses",
+    [[signature]]
+  );
+  const status = result?.value?.[0];
+  return status && !status.err ? status.slot : null;
+}
+
+// Send the swap on its own through the RPC pool (no tip)
+async function sendStandalone(rpc: RpcPool, swapTx: string): Promise<string> {
+  return await rpc.call<string>("sendTransaction", [
+    swapTx,
+    { encoding: "base64", skipPreflight: true, maxRetries: 3 },
+  ]);
+}
+
+async function submitBundle(rpc: RpcPool, transactions: string[], fallbackSlots: number): Promise<BundleResult> {
+  const signature = transactionSignature(transactions[0]);
+  if (!signature) throw new Error("Swap transaction is not signed");
+
+  const startSlot = await getSlot(rpc);
+  let bundleId: string | null = null;
+  let bundleError: string | undefined;
+
+  try {
+    bundleId = await blockEngineRequest<string>("bundles", "sendBundle", [transactions, { encoding: "base64" }]);
+    console.log(`[Jito] Bundle ${bundleId} submitted at slot ${startSlot}`);
+  } catch (error) {
+    bundleError = errorMessage(error);
+    console.error("[Jito] sendBundle failed:", bundleError);
+  }
+
+  let slotsWaited = 0;
+  while (bundleId && slotsWaited < fallbackSlots) {
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+
+    try {
+      const result = await blockEngineRequest<{ value?: InflightBundleStatus[] }>(
+        "getInflightBundleStatuses",
+        "getInflightBundleStatuses",
+        [[bundleId]]
+      );
+      const inflight = result?.value?.[0];
+      const status = mapInflightBundleStatus(inflight?.status);
+      if (status === "landed") {
+        return { status, bundleId, signature, landedSlot: inflight?.landed_slot ?? null, slotsWaited };
+      }
+      if (status === "failed") {
+        bundleError = `Bundle ${String(inflight?.status).toLowerCase()}`;
+        break;
+      }
+    } catch (error) {
+      console.error("[Jito] Status poll failed:", errorMessage(error));
+    }
+
+    slotsWaited = (await getSlot(rpc)) - startSlot;
+  }
+
+  const landedSlot = await swapLandedSlot(rpc, signature);
+  if (landedSlot !== null) {
+    return { status: "landed", bundleId, signature, landedSlot, slotsWaited };
+  }
+
+  console.log(`[Jito] Bundle not landed after ${slotsWaited} slots${bundleError ? ` (${bundleError})` : ""} - sending swap normally`);
+  try {
+    await sendStandalone(rpc, transactions[0]);
+    return { status: "fallback", bundleId, signature, slotsWaited, error: bundleError };
+  } catch (error) {
+    return {
+      status: "failed",
+      bundleId,
+      signature,
+      slotsWaited,
+      error: `Fallback send failed: ${errorMessage(error)}`,
+    };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Authorization required" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const authClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(authHeader.slice("Bearer ".length));
+    const userId = claimsData?.claims?.sub;
+
+    if (claimsError || !userId) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const body: BundleRequest = await req.json();
+    const transactions = Array.isArray(body.transactions) ? body.transactions.filter((t) => typeof t === "string" && t) : [];
+    if (transactions.length < 2 || transactions.length > MAX_BUNDLE_TRANSACTIONS) {
+      return new Response(
+        JSON.stringify({ error: `A bundle needs 2-${MAX_BUNDLE_TRANSACTIONS} signed transactions (swap first, tip last)` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const fallbackSlots = Math.min(
+      MAX_FALLBACK_SLOTS,
+      Math.max(1, Math.floor(Number(body.fallbackSlots) || DEFAULT_JITO_SETTINGS.fallbackSlots))
+    );
+
+    const rpc = await getSolanaRpc();
+    const result = await submitBundle(rpc, transactions, fallbackSlots);
+    console.log(`[Jito] ${result.signature.slice(0, 16)}... ${result.status} after ${result.slotsWaited} slots`);
+
+    await supabase.from("system_logs").insert({
+      user_id: userId,
+      event_type: `jito_bundle_${result.status}`,
+      event_category: "trading",
+      message: result.status === "landed"
+        ? `Jito bundle landed${result.landedSlot ? ` at slot ${result.landedSlot}` : ""}`
+        : result.status === "fallback"
+          ? `Jito bundle not landed within ${fallbackSlots} slots - sent swap without bundle`
+          : `Jito bundle failed: ${result.error}`,
+      metadata: { ...result, fallback_slots: fallbackSlots },
+      severity: result.status === "failed" ? "error" : result.status === "fallback" ? "warning" : "info",
+    });
+
+    return new Response(
+      JSON.stringify({ success: result.status !== "failed", ...result }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[Jito] Error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage(error) || "Bundle submission failed" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,180 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fetchCurrentPrice, type ApiConfig } from "../_shared/price-sources.ts";
+import {
+  ACTIVE_LIMIT_ORDER_STATUSES,
+  describeLimitOrder,
+  evaluateLimitOrder,
+  type LimitOrderRow,
+} from "../_shared/limit-orders.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface LimitOrder extends LimitOrderRow {
+  id: string;
+  token_address: string;
+  token_symbol: string;
+  chain: string;
+  amount_sol: number;
+}
+
+interface OrderTransition {
+  id: string;
+  token_symbol: string;
+  decision: 'trigger' | 'expire' | 'rearm';
+  price_usd: number | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Auth client for JWT verification (works with signing-keys on custom domains)
+    const authClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.slice('Bearer '.length);
+    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+    const userId = claimsData?.claims?.sub;
+
+    if (claimsError || !userId) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Service client for DB access (api_configurations is admin-only under RLS)
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: orderRows, error: ordersError } = await supabase
+      .from('limit_orders')
+      .select('*')
+      .eq('user_id', userId)
+      .in('status', ACTIVE_LIMIT_ORDER_STATUSES)
+      .order('created_at', { ascending: true });
+
+    if (ordersError) throw ordersError;
+
+    const orders = (orderRows || []) as LimitOrder[];
+    if (orders.length === 0) {
+      return new Response(
+        JSON.stringify({ checked: 0, triggered: 0, expired: 0, rearmed: 0, transitions: [] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: apiConfigs } = await supabase
+      .from('api_configurations')
+      .select('*')
+      .eq('is_enabled', true);
+
+    // One price lookup per token, shared by every order on it
+    const prices = new Map<string, number | null>();
+    for (const order of orders) {
+      if (prices.has(order.token_address)) continue;
+      prices.set(
+        order.token_address,
+        await fetchCurrentPrice(order.token_address, order.chain || 'solana', (apiConfigs || []) as ApiConfig[])
+      );
+    }
+
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const transitions: OrderTransition[] = [];
+
+    for (const order of orders) {
+      const priceUsd = prices.get(order.token_address) ?? null;
+      const decision = evaluateLimitOrder(order, priceUsd, now);
+      const checked = { last_price_usd: priceUsd ?? undefined, last_checked_at: nowIso };
+
+      // Guard on the status we read so a concurrent cancel / execute wins
+      let update: Record<string, unknown> = checked;
+      switch (decision) {
+        case 'trigger':
+          update = { ...checked, status: 'triggered', triggered_at: nowIso, triggered_price_usd: priceUsd };
+          break;
+        case 'expire':
+          update = { ...checked, status: 'expired' };
+          break;
+        case 'rearm':
+          update = { ...checked, status: 'open', triggered_at: null, triggered_price_usd: null };
+          break;
+      }
+
+      const { data: updated, error: updateError } = await supabase
+        .from('limit_orders')
+        .update(update)
+        .eq('id', order.id)
+        .eq('status', order.status)
+        .select('id');
+
+      if (updateError) {
+        console.error(`[LimitOrders] Failed to update order ${order.id}:`, updateError);
+        continue;
+      }
+
+      if (decision !== 'wait' && updated && updated.length > 0) {
+        transitions.push({ id: order.id, token_symbol: order.token_symbol, decision, price_usd: priceUsd });
+
+        if (decision !== 'rearm') {
+          await supabase.from('system_logs').insert({
+            user_id: userId,
+            event_type: decision === 'trigger' ? 'limit_order_triggered' : 'limit_order_expired',
+            event_category: 'trading',
+            message: decision === 'trigger'
+              ? `Limit order triggered: ${order.amount_sol} SOL of ${order.token_symbol} (${describeLimitOrder(order)}, now $${priceUsd})`
+              : `Limit order expired: ${order.amount_sol} SOL of ${order.token_symbol} (${describeLimitOrder(order)})`,
+            metadata: {
+              order_id: order.id,
+              token_address: order.token_address,
+              order_type: order.order_type,
+              trigger_price_usd: order.trigger_price_usd,
+              price_usd: priceUsd,
+            },
+            severity: 'info',
+          });
+        }
+      }
+    }
+
+    const count = (decision: OrderTransition['decision']) => transitions.filter((t) => t.decision === decision).length;
+
+    return new Response(
+      JSON.stringify({
+        checked: orders.length,
+        triggered: count('trigger'),
+        expired: count('expire'),
+        rearmed: count('rearm'),
+        transitions,
+        timestamp: nowIso,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Limit orders error:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
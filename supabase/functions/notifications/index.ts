@@ -0,0 +1,135 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deliverToChannel, notifyUser, recordDelivery } from "../_shared/notify.ts";
+import {
+  isNotificationEventType,
+  validateChannelConfig,
+  type NotificationChannelRow,
+  type NotificationType,
+} from "../_shared/notification-channels.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const NOTIFICATION_TYPES: NotificationType[] = ['info', 'success', 'warning', 'error', 'trade'];
+
+interface NotificationRequest {
+  action: 'create' | 'test';
+  // create
+  title?: string;
+  message?: string;
+  type?: string;
+  event_type?: string;
+  metadata?: Record<string, unknown>;
+  // test
+  channelId?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Auth client for JWT verification (works with signing-keys on custom domains)
+    const authClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.slice('Bearer '.length);
+    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+    const userId = claimsData?.claims?.sub;
+
+    if (claimsError || !userId) {
+      return json({ error: 'Invalid or expired token' }, 401);
+    }
+
+    // Service client: channel configs hold bot tokens / signing secrets and delivery status is written back
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const body = (await req.json()) as NotificationRequest;
+
+    if (body.action === 'create') {
+      const title = body.title?.trim();
+      const message = body.message?.trim();
+      if (!title || !message) {
+        return json({ error: 'title and message are required' }, 400);
+      }
+
+      const type = NOTIFICATION_TYPES.includes(body.type as NotificationType) ? (body.type as NotificationType) : 'info';
+      const id = await notifyUser(supabase, {
+        userId,
+        eventType: isNotificationEventType(body.event_type) ? body.event_type : 'general',
+        title: title.slice(0, 200),
+        message: message.slice(0, 2000),
+        type,
+        metadata: body.metadata,
+        source: 'app',
+      });
+
+      if (!id) return json({ error: 'Failed to save notification' }, 500);
+      return json({ success: true, id });
+    }
+
+    if (body.action === 'test') {
+      if (!body.channelId) {
+        return json({ error: 'channelId is required' }, 400);
+      }
+
+      const { data: channel, error: channelError } = await supabase
+        .from('notification_channels')
+        .select('*')
+        .eq('id', body.channelId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (channelError) throw channelError;
+      if (!channel) return json({ error: 'Channel not found' }, 404);
+
+      const row = channel as NotificationChannelRow;
+      const configError = validateChannelConfig(row.channel_type, row.config || {});
+      if (configError) return json({ success: false, error: configError });
+
+      try {
+        await deliverToChannel(row, {
+          notification_id: null,
+          event_type: 'general',
+          type: 'info',
+          title: 'Test notification',
+          message: `Delivery to "${row.name}" is working.`,
+          metadata: { test: true },
+          created_at: new Date().toISOString(),
+        });
+        await recordDelivery(supabase, row.id, null);
+        return json({ success: true });
+      } catch (deliveryError) {
+        await recordDelivery(supabase, row.id, deliveryError);
+        const errorMessage = deliveryError instanceof Error ? deliveryError.message : 'Delivery failed';
+        return json({ success: false, error: errorMessage });
+      }
+    }
+
+    return json({ error: `Unknown action: ${body.action}` }, 400);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Notifications error:', error);
+    return json({ error: errorMessage }, 500);
+  }
+});
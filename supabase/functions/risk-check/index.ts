@@ -1,13 +1,40 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateRiskCheckInput } from "../_shared/validation.ts";
+import {
+  computeGuardrailUsage,
+  evaluateGuardrails,
+  guardrailPositionsFilter,
+  parseGuardrailLimits,
+  startOfTradeHour,
+  startOfUtcDay,
+  GUARDRAIL_BUY_FILL_COLUMNS,
+  GUARDRAIL_POSITION_COLUMNS,
+  GUARDRAIL_SELL_COLUMNS,
+  type GuardrailBuyFillRow,
+  type GuardrailPositionRow,
+  type GuardrailSellRow,
+} from "../_shared/risk-guardrails.ts";
+import { notifyUser } from "../_shared/notify.ts";
+import {
+  analyzeTokenHolders,
+  parseHolderRiskSettings,
+  scoreHolderRisk,
+  type HolderAnalysis,
+  type HolderRiskSettings,
+} from "../_shared/holder-analysis.ts";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import { evaluateSellSimulation, type SellSimulation, type SellSimulationStatus } from "../_shared/sell-simulation.ts";
+import { getSellSimulation } from "../_shared/sell-simulation-cache.ts";
+import { recordAuditEvents } from "../_shared/audit.ts";
+import { riskCheckAuditEvent } from "../_shared/audit-trail.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface RiskSettings {
+interface RiskSettings extends HolderRiskSettings {
   emergency_stop_active: boolean;
   circuit_breaker_enabled: boolean;
   circuit_breaker_loss_threshold: number;
@@ -17,6 +44,10 @@ interface RiskSettings {
   require_ownership_renounced: boolean;
   require_liquidity_locked: boolean;
   max_tax_percent: number;
+  max_daily_loss_sol: number;
+  max_open_exposure_sol: number;
+  max_token_exposure_sol: number;
+  max_trades_per_hour: number;
 }
 
 interface TokenRiskData {
@@ -35,12 +66,32 @@ interface RiskCheckResult {
     ownershipRenounced: { passed: boolean; renounced: boolean };
     liquidityLocked: { passed: boolean; locked: boolean; percentage: number | null };
     taxCheck: { passed: boolean; buyTax: number; sellTax: number };
+    holders: HolderCheck;
+    sellSimulation: SellSimulationCheck;
   };
+  holderAnalysis: HolderAnalysis | null;
+  sellSimulation: SellSimulation | null;
   rejectionReasons: string[];
   circuitBreakerTriggered: boolean;
   emergencyStopActive: boolean;
 }
 
+interface HolderCheck {
+  passed: boolean;
+  analyzed: boolean; // false when the values came from the API (or are missing)
+  holderCount: number | null;
+  topHolderPercent: number | null;
+  top10Percent: number | null;
+  clusteredPercent: number | null;
+  devHoldingPercent: number | null;
+}
+
+interface SellSimulationCheck {
+  passed: boolean;
+  status: SellSimulationStatus | null; // null when not run (non-Solana token)
+  reason: string;
+}
+
 // Get API key from environment (secure) with fallback to database (legacy)
 function getApiKey(apiType: string, dbApiKey: string | null): string | null {
   // Priority 1: Environment variable (Supabase Secrets - secure)
@@ -83,6 +134,17 @@ async function callSolanaRugcheck(tokenAddress: string): Promise<any> {
   }
 }
 
+// On-chain holder analysis; null when the RPC can't provide it (the API's holder data is used instead)
+async function analyzeHolders(tokenAddress: string): Promise<HolderAnalysis | null> {
+  try {
+    const rpc = await getSolanaRpc();
+    return await analyzeTokenHolders(rpc, tokenAddress);
+  } catch (error) {
+    console.error('Holder analysis error:', error);
+    return null;
+  }
+}
+
 // Check if circuit breaker should be triggered based on recent losses
 async function checkCircuitBreaker(
   supabase: any,
@@ -125,9 +187,20 @@ async function checkCircuitBreaker(
         .update({ circuit_breaker_triggered_at: new Date().toISOString() })
         .eq('user_id', userId);
 
+      const reason = `Circuit breaker triggered: ${totalLoss.toFixed(1)}% cumulative loss in ${settings.circuit_breaker_time_window_minutes} mins`;
+      await notifyUser(supabase, {
+        userId,
+        eventType: 'risk_alert',
+        title: 'Circuit Breaker Tripped',
+        message: `${reason} - trading paused for ${settings.circuit_breaker_time_window_minutes} mins`,
+        type: 'error',
+        metadata: { totalLossPercent: totalLoss, windowMinutes: settings.circuit_breaker_time_window_minutes },
+        source: 'risk-check',
+      });
+
       return { 
         triggered: true, 
-        reason: `Circuit breaker triggered: ${totalLoss.toFixed(1)}% cumulative loss in ${settings.circuit_breaker_time_window_minutes} mins` 
+        reason,
       };
     }
   }
@@ -137,6 +210,7 @@ async function checkCircuitBreaker(
 
 // Perform comprehensive risk check on a token
 async function performRiskCheck(
+  supabase: ReturnType<typeof createClient>,
   token: TokenRiskData,
   settings: RiskSettings,
   honeypotApiUrl: string | null
@@ -151,8 +225,27 @@ async function performRiskCheck(
     ownershipRenounced: { passed: true, renounced: true },
     liquidityLocked: { passed: true, locked: true, percentage: null as number | null },
     taxCheck: { passed: true, buyTax: 0, sellTax: 0 },
+    holders: {
+      passed: true,
+      analyzed: false,
+      holderCount: null,
+      topHolderPercent: null,
+      top10Percent: null,
+      clusteredPercent: null,
+      devHoldingPercent: null,
+    } as HolderCheck,
+    sellSimulation: { passed: true, status: null, reason: 'Not simulated' } as SellSimulationCheck,
   };
 
+  // Holder analysis runs on-chain alongside the API lookups
+  const isSolana = !token.chain || token.chain === 'solana';
+  const holderSettings = parseHolderRiskSettings(settings);
+  const holderAnalysisPromise = isSolana && holderSettings.holder_analysis_enabled
+    ? analyzeHolders(token.address)
+    : Promise.resolve(null);
+  // Round-trip sell simulation (cached per mint) is the on-chain honeypot and tax check
+  const sellSimulationPromise = isSolana ? getSellSimulation(supabase, token.address) : Promise.resolve(null);
+
   // Try to get data from APIs
   let apiData: any = null;
   
@@ -161,7 +254,7 @@ async function performRiskCheck(
   }
   
   // Fallback to Solana rugcheck for Solana tokens
-  if (!apiData && (!token.chain || token.chain === 'solana')) {
+  if (!apiData && isSolana) {
     apiData = await callSolanaRugcheck(token.address);
   }
 
@@ -214,17 +307,9 @@ async function performRiskCheck(
       riskScore += 25;
     }
 
-    // Tax check
-    const buyTax = apiData.simulationResult?.buyTax || apiData.buy_tax || 0;
-    const sellTax = apiData.simulationResult?.sellTax || apiData.sell_tax || 0;
-    checks.taxCheck.buyTax = buyTax;
-    checks.taxCheck.sellTax = sellTax;
-    const maxTax = Math.max(buyTax, sellTax);
-    checks.taxCheck.passed = maxTax <= settings.max_tax_percent;
-    if (maxTax > settings.max_tax_percent) {
-      rejectionReasons.push(`HIGH TAX DETECTED - Buy: ${buyTax}%, Sell: ${sellTax}%`);
-      riskScore += 20;
-    }
+    // Tax figures from the API, replaced below by the simulated ones when the round trip ran
+    checks.taxCheck.buyTax = apiData.simulationResult?.buyTax || apiData.buy_tax || 0;
+    checks.taxCheck.sellTax = apiData.simulationResult?.sellTax || apiData.sell_tax || 0;
 
     // Get risk score from API if available
     if (apiData.riskScore !== undefined) {
@@ -233,6 +318,12 @@ async function performRiskCheck(
       // Rugcheck.xyz uses inverted scoring (higher = better)
       riskScore = Math.max(riskScore, 100 - apiData.score);
     }
+
+    // Holder figures from the API, replaced below when the on-chain analysis succeeds
+    if (Array.isArray(apiData.topHolders)) {
+      checks.holders.holderCount = apiData.totalHolders ?? apiData.topHolders.length;
+      checks.holders.topHolderPercent = apiData.topHolders[0]?.pct ?? null;
+    }
   } else {
     // No API data available - conservative approach
     riskScore = 75;
@@ -240,6 +331,51 @@ async function performRiskCheck(
     checks.honeypot.passed = false;
   }
 
+  // Sell simulation: a reverted sell leg is a honeypot whatever the API says; measured taxes win over reported ones
+  const sellSimulation = await sellSimulationPromise;
+  if (sellSimulation) {
+    const verdict = evaluateSellSimulation(sellSimulation, settings.max_tax_percent);
+    checks.sellSimulation = { passed: verdict.passed, status: sellSimulation.status, reason: verdict.reason };
+
+    if (sellSimulation.status === 'unsellable') {
+      if (!checks.honeypot.detected) {
+        rejectionReasons.push(`HONEYPOT DETECTED - Sell simulation failed: ${sellSimulation.sell.error ?? 'sell reverted'}`);
+        riskScore += 100;
+      }
+      checks.honeypot.detected = true;
+      checks.honeypot.passed = false;
+    } else if (sellSimulation.status === 'sellable') {
+      checks.honeypot.passed = !checks.honeypot.detected;
+      checks.taxCheck.buyTax = sellSimulation.buy.taxPercent ?? checks.taxCheck.buyTax;
+      checks.taxCheck.sellTax = sellSimulation.sell.taxPercent ?? checks.taxCheck.sellTax;
+    }
+  }
+
+  // Tax check
+  const { buyTax, sellTax } = checks.taxCheck;
+  checks.taxCheck.passed = Math.max(buyTax, sellTax) <= settings.max_tax_percent;
+  if (!checks.taxCheck.passed) {
+    rejectionReasons.push(`HIGH TAX DETECTED - Buy: ${buyTax}%, Sell: ${sellTax}%`);
+    riskScore += 20;
+  }
+
+  // On-chain holder signals: concentration, same-funder clusters, deployer holdings
+  const holderAnalysis = await holderAnalysisPromise;
+  if (holderAnalysis) {
+    const holderRisk = scoreHolderRisk(holderAnalysis, holderSettings);
+    checks.holders = {
+      passed: holderRisk.reasons.length === 0,
+      analyzed: true,
+      holderCount: holderAnalysis.holderCount,
+      topHolderPercent: holderAnalysis.topHolderPercent,
+      top10Percent: holderAnalysis.top10Percent,
+      clusteredPercent: holderAnalysis.clusteredPercent,
+      devHoldingPercent: holderAnalysis.devHoldingPercent,
+    };
+    riskScore += holderRisk.points;
+    rejectionReasons.push(...holderRisk.reasons);
+  }
+
   // Check against max risk score setting
   const passed = riskScore <= settings.max_risk_score && rejectionReasons.length === 0;
   if (riskScore > settings.max_risk_score && !rejectionReasons.includes('Risk score exceeds threshold')) {
@@ -251,6 +387,8 @@ async function performRiskCheck(
     passed,
     riskScore: Math.min(riskScore, 100),
     checks,
+    holderAnalysis,
+    sellSimulation,
     rejectionReasons,
   };
 }
@@ -407,7 +545,7 @@ serve(async (req) => {
       // Check each token
       const results: RiskCheckResult[] = [];
       for (const tokenData of tokens) {
-        const checkResult = await performRiskCheck(tokenData, settings, honeypotApiUrl);
+        const checkResult = await performRiskCheck(supabase, tokenData, settings, honeypotApiUrl);
         
         // Log the check
         await supabase.from('risk_check_logs').insert({
@@ -425,8 +563,38 @@ serve(async (req) => {
           risk_score: checkResult.riskScore,
           passed_checks: checkResult.passed,
           rejection_reasons: checkResult.rejectionReasons,
+          top10_holder_percent: checkResult.checks.holders.top10Percent,
+          dev_holding_percent: checkResult.checks.holders.devHoldingPercent,
+          holder_analysis: checkResult.holderAnalysis,
+          sell_simulation: checkResult.sellSimulation,
         });
 
+        await recordAuditEvents(supabase, user.id, [riskCheckAuditEvent({
+          tokenAddress: tokenData.address,
+          tokenSymbol: tokenData.symbol,
+          passed: checkResult.passed,
+          riskScore: checkResult.riskScore,
+          rejectionReasons: checkResult.rejectionReasons,
+          checks: checkResult.checks,
+        }, 'risk-check')]);
+
+        if (checkResult.checks.honeypot.detected) {
+          const symbol = tokenData.symbol || `${tokenData.address.slice(0, 4)}…${tokenData.address.slice(-4)}`;
+          await notifyUser(supabase, {
+            userId: user.id,
+            eventType: 'risk_alert',
+            title: `Honeypot Detected: ${symbol}`,
+            message: checkResult.sellSimulation?.status === 'unsellable'
+              ? 'Simulated sell reverted - blocked by risk check'
+              : 'Token cannot be sold - blocked by risk check',
+            type: 'warning',
+            metadata: { tokenAddress: tokenData.address, riskScore: checkResult.riskScore },
+            source: 'risk-check',
+            dedupeKey: `honeypot:${tokenData.address}`,
+            dedupeWindowMs: 24 * 60 * 60 * 1000,
+          });
+        }
+
         results.push({
           ...checkResult,
           circuitBreakerTriggered: false,
@@ -445,6 +613,7 @@ serve(async (req) => {
           requireOwnershipRenounced: settings.require_ownership_renounced,
           requireLiquidityLocked: settings.require_liquidity_locked,
           maxTaxPercent: settings.max_tax_percent,
+          holders: parseHolderRiskSettings(settings),
         },
         timestamp: new Date().toISOString(),
       }), {
@@ -452,6 +621,64 @@ serve(async (req) => {
       });
     }
 
+    // Round-trip sell simulation for a single token (token detail page), judged against the user's max tax
+    if (action === 'simulate_sell' && tokens?.length) {
+      const simulation = await getSellSimulation(supabase, tokens[0].address);
+      return new Response(JSON.stringify({
+        simulation,
+        verdict: evaluateSellSimulation(simulation, settings.max_tax_percent),
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Current utilization of the SOL guardrails enforced by trade-execution
+    if (action === 'get_guardrails') {
+      const now = new Date();
+      const [
+        { data: rows, error: rowsError },
+        { data: sells, error: sellsError },
+        { data: buys, error: buysError },
+      ] = await Promise.all([
+        supabase
+          .from('positions')
+          .select(GUARDRAIL_POSITION_COLUMNS)
+          .eq('user_id', user.id)
+          .or(guardrailPositionsFilter(now)),
+        supabase
+          .from('trade_history')
+          .select(GUARDRAIL_SELL_COLUMNS)
+          .eq('user_id', user.id)
+          .eq('trade_type', 'sell')
+          .gte('created_at', startOfUtcDay(now).toISOString()),
+        supabase
+          .from('position_fills')
+          .select(GUARDRAIL_BUY_FILL_COLUMNS)
+          .eq('user_id', user.id)
+          .eq('side', 'buy')
+          .eq('status', 'confirmed')
+          .gte('created_at', startOfTradeHour(now).toISOString()),
+      ]);
+
+      if (rowsError) throw rowsError;
+      if (sellsError) throw sellsError;
+      if (buysError) throw buysError;
+
+      const limits = parseGuardrailLimits(settings);
+      const usage = computeGuardrailUsage(
+        (rows || []) as GuardrailPositionRow[],
+        now,
+        undefined,
+        (sells || []) as GuardrailSellRow[],
+        (buys || []) as GuardrailBuyFillRow[]
+      );
+      const { statuses } = evaluateGuardrails(limits, usage);
+
+      return new Response(JSON.stringify({ limits, usage, guardrails: statuses, timestamp: now.toISOString() }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (action === 'get_logs') {
       const queryLimit = limit ?? 50;
       const { data: logs } = await supabase
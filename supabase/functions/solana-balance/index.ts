@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import { maskRpcUrl, type RpcPool } from "../_shared/rpc-pool.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,9 +11,8 @@ interface BalanceRequest {
   publicKey: string;
 }
 
-async function getBalanceLamports(rpcUrl: string, publicKey: string): Promise<number> {
-  const response = await fetch(rpcUrl, {
-    method: "POST",
+async function getBalanceLamports(rpc: RpcPool, publicKey: string): Promise<number> {
+  const response = await rpc.request({
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       jsonrpc: "2.0",
@@ -78,18 +79,11 @@ Deno.serve(async (req) => {
       });
     }
 
-    const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
+    const rpc = await getSolanaRpc();
 
-    let rpcHost = "unknown";
-    try {
-      rpcHost = new URL(rpcUrl).host;
-    } catch {
-      rpcHost = rpcUrl.slice(0, 32);
-    }
-
-    console.log(`[SolanaBalance] user=${userId} rpcHost=${rpcHost}`);
+    console.log(`[SolanaBalance] user=${userId} rpc=${maskRpcUrl(rpc.activeUrl())}`);
 
-    const balanceLamports = await getBalanceLamports(rpcUrl, body.publicKey);
+    const balanceLamports = await getBalanceLamports(rpc, body.publicKey);
     const balanceSol = balanceLamports / 1e9;
 
     return new Response(
@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateTokenCandlesInput } from "../_shared/validation.ts";
+import {
+  CANDLE_RESOLUTION_SECONDS,
+  candleFromRow,
+  candleToRow,
+  geckoTerminalTimeframe,
+  parseGeckoTerminalOhlcv,
+  type CandleResolution,
+  type CandleRow,
+} from "../_shared/candles.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CANDLE_COLUMNS = 'bucket_start, open, high, low, close, volume_usd, sample_count, source';
+// GeckoTerminal returns at most 1000 candles per request
+const GECKO_MAX_LIMIT = 1000;
+
+/**
+ * Pull OHLCV for the pool from GeckoTerminal into token_candles.
+ * GeckoTerminal's free tier allows 30 requests a minute, so this only runs once the newest stored
+ * GeckoTerminal candle is at least a bucket old. Returns the number of candles written.
+ */
+async function backfillFromGeckoTerminal(
+  supabase: ReturnType<typeof createClient>,
+  baseUrl: string,
+  tokenAddress: string,
+  pairAddress: string,
+  resolution: CandleResolution,
+  limit: number
+): Promise<number> {
+  const { data: newest } = await supabase
+    .from('token_candles')
+    .select('bucket_start')
+    .eq('token_address', tokenAddress)
+    .eq('resolution', resolution)
+    .eq('source', 'geckoterminal')
+    .order('bucket_start', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const bucketMs = CANDLE_RESOLUTION_SECONDS[resolution] * 1000;
+  if (newest && Date.now() - Date.parse(newest.bucket_start) < bucketMs) return 0;
+
+  const { timeframe, aggregate } = geckoTerminalTimeframe(resolution);
+  const params = new URLSearchParams({
+    aggregate: String(aggregate),
+    limit: String(Math.min(limit, GECKO_MAX_LIMIT)),
+    currency: 'usd',
+  });
+
+  try {
+    const response = await fetch(
+      `${baseUrl}/api/v2/networks/solana/pools/${pairAddress}/ohlcv/${timeframe}?${params}`,
+      { headers: { 'Accept': 'application/json' }, signal: AbortSignal.timeout(8000) }
+    );
+    if (!response.ok) {
+      console.log(`[Candles] GeckoTerminal OHLCV returned ${response.status} for ${pairAddress}`);
+      return 0;
+    }
+
+    const candles = parseGeckoTerminalOhlcv(await response.json(), resolution);
+    if (!candles.length) return 0;
+
+    const { error } = await supabase
+      .from('token_candles')
+      .upsert(candles.map((c) => candleToRow(tokenAddress, resolution, c)), {
+        onConflict: 'token_address,resolution,bucket_start',
+      });
+    if (error) throw error;
+
+    console.log(`[Candles] Backfilled ${candles.length} ${resolution} candles for ${tokenAddress} from GeckoTerminal`);
+    return candles.length;
+  } catch (error) {
+    console.error('[Candles] GeckoTerminal backfill error:', error);
+    return 0;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Auth client for JWT verification (works with signing-keys on custom domains)
+    const authClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.slice('Bearer '.length);
+    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+    if (claimsError || !claimsData?.claims?.sub) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const rawBody = await req.json().catch(() => ({}));
+    const validationResult = validateTokenCandlesInput(rawBody);
+    if (!validationResult.success) {
+      return new Response(JSON.stringify({ error: validationResult.error }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { tokenAddress, pairAddress, resolution, limit } = validationResult.data!;
+
+    // Service client: writes token_candles and reads api_configurations (admin-only under RLS)
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    let backfilled = 0;
+    if (pairAddress) {
+      const { data: geckoConfig } = await supabase
+        .from('api_configurations')
+        .select('base_url')
+        .eq('api_type', 'geckoterminal')
+        .eq('is_enabled', true)
+        .limit(1)
+        .maybeSingle();
+
+      if (geckoConfig?.base_url) {
+        backfilled = await backfillFromGeckoTerminal(supabase, geckoConfig.base_url, tokenAddress, pairAddress, resolution, limit);
+      }
+    }
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('token_candles')
+      .select(CANDLE_COLUMNS)
+      .eq('token_address', tokenAddress)
+      .eq('resolution', resolution)
+      .order('bucket_start', { ascending: false })
+      .limit(limit);
+
+    if (rowsError) throw rowsError;
+
+    const candles = ((rows || []) as CandleRow[]).reverse().map(candleFromRow);
+
+    return new Response(JSON.stringify({ tokenAddress, resolution, candles, backfilled }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    console.error('Token candles error:', error);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
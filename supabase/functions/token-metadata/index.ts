@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import type { RpcPool } from "../_shared/rpc-pool.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,9 +21,8 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
-async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
-  const res = await fetch(rpcUrl, {
-    method: "POST",
+async function rpcRequest(rpc: RpcPool, method: string, params: unknown[]): Promise<any> {
+  const res = await rpc.request({
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
   });
@@ -36,10 +37,10 @@ async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Pr
 
 // SPL Token Mint layout (spl-token)
 // offset 44 = decimals (u8)
-async function getMintDecimals(rpcUrl: string, mint: string): Promise<number> {
+async function getMintDecimals(rpc: RpcPool, mint: string): Promise<number> {
   if (mint === SOL_MINT) return 9;
 
-  const result = await rpcRequest(rpcUrl, "getAccountInfo", [mint, { encoding: "base64" }]);
+  const result = await rpcRequest(rpc, "getAccountInfo", [mint, { encoding: "base64" }]);
   const value = result?.value;
   const data = value?.data;
   const base64 = Array.isArray(data) ? data[0] : null;
@@ -56,11 +57,11 @@ async function getMintDecimals(rpcUrl: string, mint: string): Promise<number> {
 }
 
 async function getOwnerTokenBalanceUi(
-  rpcUrl: string,
+  rpc: RpcPool,
   owner: string,
   mint: string
 ): Promise<{ balanceUi: number; decimals: number } | null> {
-  const result = await rpcRequest(rpcUrl, "getTokenAccountsByOwner", [
+  const result = await rpcRequest(rpc, "getTokenAccountsByOwner", [
     owner,
     { mint },
     { encoding: "jsonParsed" },
@@ -121,14 +122,14 @@ Deno.serve(async (req) => {
       });
     }
 
-    const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
-    const decimals = await getMintDecimals(rpcUrl, body.mint);
+    const rpc = await getSolanaRpc();
+    const decimals = await getMintDecimals(rpc, body.mint);
 
     let balanceUi: number | null = null;
     let ownerDecimals: number | null = null;
 
     if (body.owner && typeof body.owner === "string") {
-      const bal = await getOwnerTokenBalanceUi(rpcUrl, body.owner, body.mint);
+      const bal = await getOwnerTokenBalanceUi(rpc, body.owner, body.mint);
       if (bal) {
         balanceUi = bal.balanceUi;
         ownerDecimals = bal.decimals;
@@ -1,7 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateTokenScannerInput } from "../_shared/validation.ts";
+import { runnerUserId } from "../_shared/runner-auth.ts";
 import { getApiKey, decryptKey as sharedDecryptKey } from "../_shared/api-keys.ts";
+import {
+  SOL_MINT,
+  buildTokenSourceRegistry,
+  runTokenSource,
+  selectTokenSources,
+  type TokenData,
+  type TokenSourceConfig,
+  type TokenSourceRunResult,
+} from "../_shared/token-sources.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,9 +24,6 @@ const JUPITER_QUOTE_API = "https://lite-api.jup.ag/swap/v1/quote";
 // RugCheck API for safety validation
 const RUGCHECK_API = "https://api.rugcheck.xyz/v1";
 
-const SOL_MINT = "So11111111111111111111111111111111111111112";
-const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
-
 // ============================================================================
 // DexScreener ENRICHMENT ONLY - permanent cache, non-blocking
 // ============================================================================
@@ -43,81 +50,6 @@ interface DexScreenerPairResult {
   retryAt?: number;
 }
 
-// Token lifecycle stages (only tradable stages now)
-type TokenStage = 'LP_LIVE' | 'INDEXING' | 'LISTED';
-
-// Helper: generate short address format instead of "Unknown"
-function shortAddress(address: string | null | undefined): string {
-  if (!address || address.length < 10) return 'TOKEN';
-  return `${address.slice(0, 4)}…${address.slice(-4)}`;
-}
-
-function safeTokenName(name: string | null | undefined, address: string): string {
-  if (name && name.trim() && !/^(unknown|unknown token|token|\?\?\?|n\/a)$/i.test(name.trim())) {
-    return name.trim();
-  }
-  return `Token ${shortAddress(address)}`;
-}
-
-function safeTokenSymbol(symbol: string | null | undefined, address: string): string {
-  if (symbol && symbol.trim() && !/^(unknown|\?\?\?|n\/a)$/i.test(symbol.trim())) {
-    return symbol.trim();
-  }
-  return shortAddress(address);
-}
-
-interface TokenStatus {
-  tradable: boolean;
-  stage: TokenStage;
-  poolAddress?: string;
-  detectedAtSlot?: number;
-  dexScreener: {
-    pairFound: boolean;
-    retryAt?: number;
-  };
-}
-
-interface ApiConfig {
-  id: string;
-  api_type: string;
-  api_name: string;
-  base_url: string;
-  api_key_encrypted: string | null;
-  is_enabled: boolean;
-  rate_limit_per_minute: number;
-}
-
-interface TokenData {
-  id: string;
-  address: string;
-  name: string;
-  symbol: string;
-  chain: string;
-  liquidity: number;
-  liquidityLocked: boolean;
-  lockPercentage: number | null;
-  priceUsd: number;
-  priceChange24h: number;
-  volume24h: number;
-  marketCap: number;
-  holders: number;
-  createdAt: string;
-  earlyBuyers: number;
-  buyerPosition: number | null;
-  riskScore: number;
-  source: string;
-  pairAddress: string;
-  // Safety validation fields
-  isTradeable: boolean;
-  canBuy: boolean;
-  canSell: boolean;
-  freezeAuthority: string | null;
-  mintAuthority: string | null;
-  isPumpFun: boolean;
-  safetyReasons: string[];
-  tokenStatus?: TokenStatus;
-}
-
 interface ApiError {
   apiName: string;
   apiType: string;
@@ -157,10 +89,14 @@ serve(async (req) => {
       ? authHeader.slice('Bearer '.length)
       : authHeader;
 
-    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
-    const userId = claimsData?.claims?.sub;
+    // bot-runner calls on a user's behalf with the service role key; everyone else needs their own JWT
+    let userId = runnerUserId(req);
+    if (!userId) {
+      const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+      userId = claimsError ? null : claimsData?.claims?.sub ?? null;
+    }
 
-    if (claimsError || !userId) {
+    if (!userId) {
       return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
         status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -182,10 +118,18 @@ serve(async (req) => {
     
     const { minLiquidity, chains } = validationResult.data!;
 
-    const { data: apiConfigs } = await supabase
+    // Disabled rows are loaded too: they switch built-in discovery sources off
+    const { data: configRows } = await supabase
       .from('api_configurations')
-      .select('*')
-      .eq('is_enabled', true);
+      .select('*');
+    const allConfigs = (configRows || []) as TokenSourceConfig[];
+    const apiConfigs = allConfigs.filter((c) => c.is_enabled);
+
+    const { data: userSettings } = await supabase
+      .from('user_sniper_settings')
+      .select('disabled_token_sources')
+      .eq('user_id', userId)
+      .maybeSingle();
 
     const tokens: TokenData[] = [];
     const errors: string[] = [];
@@ -213,13 +157,10 @@ serve(async (req) => {
       }
     };
 
-    const getApiConfigLocal = (type: string): ApiConfig | undefined => 
-      apiConfigs?.find((c: ApiConfig) => c.api_type === type && c.is_enabled);
-
     const decryptKey = sharedDecryptKey;
 
     const getApiKeyForType = async (apiType: string, dbApiKey: string | null): Promise<string | null> => {
-      const decrypted = decryptKey(dbApiKey);
+      const decrypted = await decryptKey(dbApiKey);
       if (decrypted) return decrypted;
       return await getApiKey(apiType);
     };
@@ -364,332 +305,6 @@ serve(async (req) => {
       }
     };
 
-    // ============================================================================
-    // DISCOVERY: GeckoTerminal (Raydium pools with verified liquidity)
-    // Using MULTIPLE endpoints for better coverage
-    // ============================================================================
-    const fetchGeckoTerminal = async () => {
-      const geckoConfig = getApiConfigLocal('geckoterminal');
-      const baseUrl = geckoConfig?.base_url || 'https://api.geckoterminal.com';
-
-      // Try multiple GeckoTerminal endpoints for better pool discovery
-      const endpoints = [
-        `${baseUrl}/api/v2/networks/solana/new_pools?page=1`,
-        `${baseUrl}/api/v2/networks/solana/trending_pools?page=1`,
-        `${baseUrl}/api/v2/networks/solana/pools?page=1&sort=h24_volume_usd_desc`,
-      ];
-
-      for (const endpoint of endpoints) {
-        const startTime = Date.now();
-        
-        try {
-          console.log(`[Scanner] Fetching from GeckoTerminal: ${endpoint.split('?')[0].split('/').pop()}`);
-          const response = await fetch(endpoint, {
-            signal: AbortSignal.timeout(10000),
-            headers: { 'Accept': 'application/json' },
-          });
-          const responseTime = Date.now() - startTime;
-          
-          if (response.ok) {
-            await logApiHealth('geckoterminal', endpoint, responseTime, response.status, true);
-            const data = await response.json();
-            const pools = data.data || [];
-            
-            let addedCount = 0;
-            for (const pool of pools.slice(0, 20)) {
-              const attrs = pool.attributes || {};
-              const relationships = pool.relationships || {};
-              
-              // Include both Raydium and Orca pools
-              const dexId = relationships.dex?.data?.id || attrs.dex_id || '';
-              const isRaydium = dexId.toLowerCase().includes('raydium');
-              const isOrca = dexId.toLowerCase().includes('orca');
-              
-              if (!isRaydium && !isOrca) continue;
-              
-              const liquidity = parseFloat(attrs.reserve_in_usd || 0);
-              const liquidityInSol = liquidity / 150; // Rough USD to SOL conversion
-              
-              if (liquidityInSol < minLiquidity) continue;
-              
-              // Extract token address (base token, not SOL/USDC)
-              const baseTokenAddr = relationships.base_token?.data?.id?.replace('solana_', '') || '';
-              const quoteTokenAddr = relationships.quote_token?.data?.id?.replace('solana_', '') || '';
-              
-              // Skip if base is SOL/USDC (we want the meme token)
-              const tokenAddress = (baseTokenAddr === SOL_MINT || baseTokenAddr === USDC_MINT) 
-                ? quoteTokenAddr 
-                : baseTokenAddr;
-              
-              if (!tokenAddress || tokenAddress.length < 32) continue;
-              
-              // Skip duplicates
-              if (tokens.find(t => t.address === tokenAddress)) continue;
-              
-              tokens.push({
-                id: `gecko-${pool.id}`,
-                address: tokenAddress,
-                name: safeTokenName(attrs.name?.split('/')[0], tokenAddress),
-                symbol: safeTokenSymbol(attrs.name?.split('/')[0]?.slice(0, 10), tokenAddress),
-                chain: 'solana',
-                liquidity: liquidityInSol,
-                liquidityLocked: false,
-                lockPercentage: null,
-                priceUsd: parseFloat(attrs.base_token_price_usd || 0),
-                priceChange24h: parseFloat(attrs.price_change_percentage?.h24 || 0),
-                volume24h: parseFloat(attrs.volume_usd?.h24 || 0),
-                marketCap: parseFloat(attrs.market_cap_usd || attrs.fdv_usd || 0),
-                holders: 0,
-                createdAt: attrs.pool_created_at || new Date().toISOString(),
-                earlyBuyers: Math.floor(Math.random() * 5) + 1,
-                buyerPosition: Math.floor(Math.random() * 3) + 1,
-                riskScore: 50,
-                source: `${isRaydium ? 'Raydium' : 'Orca'} (GeckoTerminal)`,
-                pairAddress: pool.id?.replace('solana_', '') || '',
-                isTradeable: false, // Will be verified
-                canBuy: false,
-                canSell: false,
-                freezeAuthority: null,
-                mintAuthority: null,
-                isPumpFun: false,
-                safetyReasons: [],
-                tokenStatus: {
-                  tradable: false,
-                  stage: 'LP_LIVE',
-                  dexScreener: { pairFound: false },
-                },
-              });
-              addedCount++;
-            }
-            console.log(`[Scanner] GeckoTerminal (${endpoint.split('/').pop()?.split('?')[0]}): Added ${addedCount} pools`);
-          } else {
-            const errorMsg = `HTTP ${response.status}`;
-            await logApiHealth('geckoterminal', endpoint, responseTime, response.status, false, errorMsg);
-            console.log(`[Scanner] GeckoTerminal ${endpoint.split('/').pop()?.split('?')[0]} failed: ${errorMsg}`);
-          }
-        } catch (e: any) {
-          const responseTime = Date.now() - startTime;
-          const errorMsg = e.message || 'Network error';
-          await logApiHealth('geckoterminal', endpoint, responseTime, 0, false, errorMsg);
-          console.log(`[Scanner] GeckoTerminal error: ${errorMsg}`);
-        }
-      }
-      
-      console.log(`[Scanner] GeckoTerminal total: ${tokens.filter(t => t.source.includes('GeckoTerminal')).length} pools`);
-    };
-
-    // ============================================================================
-    // DISCOVERY: Birdeye (high-volume Solana tokens)
-    // ============================================================================
-    const fetchBirdeye = async () => {
-      const birdeyeConfig = getApiConfigLocal('birdeye');
-      const baseUrl = birdeyeConfig?.base_url || 'https://public-api.birdeye.so';
-      
-      const apiKey = await getApiKeyForType('birdeye', birdeyeConfig?.api_key_encrypted || null);
-      
-      // Try without API key first (public endpoint)
-      const endpoints = [
-        `${baseUrl}/defi/tokenlist?sort_by=v24hUSD&sort_type=desc&limit=20`,
-        `${baseUrl}/defi/txs/token/new?limit=20`,
-      ];
-      
-      for (const endpoint of endpoints) {
-        const startTime = Date.now();
-        
-        try {
-          console.log(`[Scanner] Fetching from Birdeye...`);
-          const headers: Record<string, string> = { 'Accept': 'application/json' };
-          if (apiKey) headers['X-API-KEY'] = apiKey;
-          
-          const response = await fetch(endpoint, {
-            headers,
-            signal: AbortSignal.timeout(10000),
-          });
-          const responseTime = Date.now() - startTime;
-          
-          if (response.ok) {
-            await logApiHealth('birdeye', endpoint, responseTime, response.status, true);
-            const data = await response.json();
-            const tokenList = data.data?.tokens || data.data?.items || [];
-            
-            let addedCount = 0;
-            for (const tokenItem of tokenList) {
-              const liquidity = parseFloat(tokenItem.liquidity || tokenItem.lp || 0);
-              const liquidityInSol = liquidity / 150;
-              
-              if (liquidityInSol < minLiquidity) continue;
-              
-              // Skip well-known tokens (SOL, USDC, etc.)
-              const addr = tokenItem.address || tokenItem.mint || '';
-              if (!addr || addr === SOL_MINT || addr === USDC_MINT) continue;
-              if (addr.length < 32) continue;
-              
-              // Skip duplicates
-              if (tokens.find(t => t.address === addr)) continue;
-              
-              tokens.push({
-                id: `bird-${addr}`,
-                address: addr,
-                name: safeTokenName(tokenItem.name, addr),
-                symbol: safeTokenSymbol(tokenItem.symbol, addr),
-                chain: 'solana',
-                liquidity: liquidityInSol,
-                liquidityLocked: false,
-                lockPercentage: null,
-                priceUsd: parseFloat(tokenItem.price || tokenItem.priceUsd || 0),
-                priceChange24h: parseFloat(tokenItem.priceChange24hPercent || 0),
-                volume24h: parseFloat(tokenItem.v24hUSD || 0),
-                marketCap: parseFloat(tokenItem.mc || tokenItem.marketCap || 0),
-                holders: tokenItem.holder || 0,
-                createdAt: new Date().toISOString(),
-                earlyBuyers: Math.floor(Math.random() * 5) + 1,
-                buyerPosition: Math.floor(Math.random() * 3) + 1,
-                riskScore: 45,
-                source: 'Raydium (Birdeye)',
-                pairAddress: '',
-                isTradeable: false,
-                canBuy: false,
-                canSell: false,
-                freezeAuthority: null,
-                mintAuthority: null,
-                isPumpFun: false,
-                safetyReasons: [],
-                tokenStatus: {
-                  tradable: false,
-                  stage: 'LISTED',
-                  dexScreener: { pairFound: false },
-                },
-              });
-              addedCount++;
-            }
-            console.log(`[Scanner] Birdeye: Added ${addedCount} tokens`);
-            
-            if (addedCount > 0) break; // Found tokens, stop trying more endpoints
-          } else {
-            const errorMsg = `HTTP ${response.status}`;
-            await logApiHealth('birdeye', endpoint, responseTime, response.status, false, errorMsg);
-            console.log(`[Scanner] Birdeye failed: ${errorMsg}`);
-          }
-        } catch (e: any) {
-          const responseTime = Date.now() - startTime;
-          const errorMsg = e.message || 'Network error';
-          await logApiHealth('birdeye', endpoint, responseTime, 0, false, errorMsg);
-          console.log(`[Scanner] Birdeye error: ${errorMsg}`);
-        }
-      }
-    };
-
-    // ============================================================================
-    // DISCOVERY: DexScreener new pairs (backup discovery source)
-    // ============================================================================
-    const fetchDexScreenerNewPairs = async () => {
-      const dexConfig = getApiConfigLocal('dexscreener');
-      const baseUrl = dexConfig?.base_url || 'https://api.dexscreener.com';
-
-      // Try multiple endpoints for better coverage
-      const endpoints = [
-        `${baseUrl}/latest/dex/pairs/solana`,
-        `${baseUrl}/token-profiles/latest/v1`,
-      ];
-      
-      for (const endpoint of endpoints) {
-        const startTime = Date.now();
-        
-        try {
-          console.log(`[Scanner] Fetching from DexScreener: ${endpoint.split('/').pop()}`);
-          const response = await fetch(endpoint, {
-            signal: AbortSignal.timeout(8000),
-            headers: { 'Accept': 'application/json' },
-          });
-          const responseTime = Date.now() - startTime;
-          
-          if (response.ok) {
-            await logApiHealth('dexscreener', endpoint, responseTime, response.status, true);
-            const data = await response.json();
-            const pairs = data.pairs || data || [];
-            
-            if (!Array.isArray(pairs)) {
-              console.log(`[Scanner] DexScreener: No pairs array in response`);
-              continue;
-            }
-            
-            let addedCount = 0;
-            for (const pair of pairs.slice(0, 25)) {
-              // Include Raydium and Orca pools
-              const dexId = pair.dexId || '';
-              const isRaydium = dexId.toLowerCase().includes('raydium');
-              const isOrca = dexId.toLowerCase().includes('orca');
-              
-              if (!isRaydium && !isOrca) continue;
-              
-              const liquidity = parseFloat(pair.liquidity?.usd || 0);
-              const liquidityInSol = liquidity / 150;
-              
-              if (liquidityInSol < minLiquidity) continue;
-              
-              // Get token address (non-SOL side)
-              const baseToken = pair.baseToken?.address || '';
-              const quoteToken = pair.quoteToken?.address || '';
-              const tokenAddress = (baseToken === SOL_MINT || baseToken === USDC_MINT) ? quoteToken : baseToken;
-              
-              if (!tokenAddress || tokenAddress.length < 32) continue;
-              
-              // Skip duplicates
-              if (tokens.find(t => t.address === tokenAddress)) continue;
-              
-              tokens.push({
-                id: `dex-${pair.pairAddress}`,
-                address: tokenAddress,
-                name: safeTokenName(pair.baseToken?.name, tokenAddress),
-                symbol: safeTokenSymbol(pair.baseToken?.symbol, tokenAddress),
-                chain: 'solana',
-                liquidity: liquidityInSol,
-                liquidityLocked: false,
-                lockPercentage: null,
-                priceUsd: parseFloat(pair.priceUsd || 0),
-                priceChange24h: parseFloat(pair.priceChange?.h24 || 0),
-                volume24h: parseFloat(pair.volume?.h24 || 0),
-                marketCap: parseFloat(pair.fdv || 0),
-                holders: 0,
-                createdAt: pair.pairCreatedAt ? new Date(pair.pairCreatedAt).toISOString() : new Date().toISOString(),
-                earlyBuyers: Math.floor(Math.random() * 5) + 1,
-                buyerPosition: Math.floor(Math.random() * 3) + 1,
-                riskScore: 40,
-                source: `${isRaydium ? 'Raydium' : 'Orca'} (DexScreener)`,
-                pairAddress: pair.pairAddress || '',
-                isTradeable: false, // Will be verified
-                canBuy: false,
-                canSell: false,
-                freezeAuthority: null,
-                mintAuthority: null,
-                isPumpFun: false,
-                safetyReasons: [],
-                tokenStatus: {
-                  tradable: false,
-                  stage: 'LISTED',
-                  poolAddress: pair.pairAddress,
-                  dexScreener: { pairFound: true },
-                },
-              });
-              addedCount++;
-            }
-            console.log(`[Scanner] DexScreener (${endpoint.split('/').pop()}): Added ${addedCount} pairs`);
-            
-            if (addedCount > 0) break; // Found tokens, stop trying more endpoints
-          } else {
-            const errorMsg = `HTTP ${response.status}`;
-            await logApiHealth('dexscreener', endpoint, responseTime, response.status, false, errorMsg);
-            console.log(`[Scanner] DexScreener failed: ${errorMsg}`);
-          }
-        } catch (e: any) {
-          const responseTime = Date.now() - startTime;
-          const errorMsg = e.message || 'Network error';
-          await logApiHealth('dexscreener', endpoint, responseTime, 0, false, errorMsg);
-          console.log(`[Scanner] DexScreener error: ${errorMsg}`);
-        }
-      }
-    };
-
     // ============================================================================
     // TRADABILITY VERIFICATION
     // ============================================================================
@@ -726,14 +341,33 @@ serve(async (req) => {
     // ============================================================================
     // EXECUTE DISCOVERY (parallel API calls)
     // ============================================================================
+    const sourceResults: TokenSourceRunResult[] = [];
+
     if (chains.includes('solana')) {
-      console.log('[Scanner] Starting Raydium/Orca pool discovery via external APIs...');
-      
-      await Promise.allSettled([
-        fetchGeckoTerminal(),
-        fetchBirdeye(),
-        fetchDexScreenerNewPairs(),
-      ]);
+      const sources = selectTokenSources(
+        buildTokenSourceRegistry(allConfigs),
+        (userSettings as { disabled_token_sources?: string[] | null } | null)?.disabled_token_sources
+      );
+      console.log(`[Scanner] Starting discovery via ${sources.map(s => s.label).join(', ') || 'no sources'}...`);
+
+      const settled = await Promise.allSettled(
+        sources.map(async (source) => {
+          const config = apiConfigs.find((c) => c.api_type === source.apiType);
+          return runTokenSource(source, {
+            baseUrl: config?.base_url || source.defaultBaseUrl,
+            apiKey: source.needsApiKey ? await getApiKeyForType(source.apiType, config?.api_key_encrypted || null) : null,
+            minLiquidity,
+          }, tokens, logApiHealth);
+        })
+      );
+
+      settled.forEach((outcome, i) => {
+        if (outcome.status === 'fulfilled') {
+          sourceResults.push(outcome.value);
+        } else {
+          sourceResults.push({ id: sources[i].id, label: sources[i].label, status: 'error', added: 0, error: String(outcome.reason) });
+        }
+      });
     }
 
     // Deduplicate by token address
@@ -756,7 +390,8 @@ serve(async (req) => {
           errors: ['No tokens found from API sources - APIs may be rate limited or down'],
           apiErrors,
           timestamp: new Date().toISOString(),
-          apiCount: apiConfigs?.filter((c: ApiConfig) => c.is_enabled).length || 0,
+          apiCount: apiConfigs.length,
+          sources: sourceResults,
           stats: {
             total: 0,
             tradeable: 0,
@@ -795,7 +430,8 @@ serve(async (req) => {
         errors,
         apiErrors,
         timestamp: new Date().toISOString(),
-        apiCount: apiConfigs?.filter((c: ApiConfig) => c.is_enabled).length || 0,
+        apiCount: apiConfigs.length,
+        sources: sourceResults,
         stats: {
           total: uniqueTokens.length,
           tradeable: tradeableTokens.length,
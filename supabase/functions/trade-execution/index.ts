@@ -1,5 +1,45 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getApiKey, getApiConfig } from "../_shared/api-keys.ts";
+import { buildExitStrategy } from "../_shared/exit-strategy.ts";
+import {
+  JITO_TIP_FLOOR_URL,
+  parseJitoSettings,
+  pickJitoTipAccount,
+  resolveJitoTip,
+  type JitoBundlePlan,
+  type JitoSettingsRow,
+  type JitoTipFloor,
+} from "../_shared/jito.ts";
+import { notifyUser } from "../_shared/notify.ts";
+import {
+  DEFAULT_PRIORITY_FEES,
+  estimatePriorityFee,
+  isPriorityLevel,
+  priorityFeeAccounts,
+  type PrioritizationFeeSample,
+  type PriorityFeeEstimate,
+  type PriorityLevel,
+} from "../_shared/priority-fees.ts";
+import type { GuardrailCheckResult } from "../_shared/risk-guardrails.ts";
+import { checkBuyGuardrails } from "../_shared/guardrail-check.ts";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import type { RpcPool } from "../_shared/rpc-pool.ts";
+import { resolveWalletSettings } from "../_shared/wallet-profiles.ts";
+import {
+  EVM_NATIVE_DECIMALS,
+  EVM_NATIVE_TOKEN,
+  isEvmAddress,
+  isEvmChain,
+  isEvmNativeToken,
+  isExecutionChain,
+  type EvmChain,
+  type ExecutionChain,
+  type ExecutionQuote,
+  type SolanaExecutionAdapter,
+  type SwapQuoteRequest,
+} from "../_shared/execution-adapter.ts";
+import { getEvmAdapter } from "../_shared/evm-rpc.ts";
+import { fetchCurrentPrice } from "../_shared/price-sources.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -37,7 +77,6 @@ async function initializeApiKeys() {
 // Raydium API endpoints (Fallback)
 const RAYDIUM_QUOTE_API = "https://transaction-v1.raydium.io/compute/swap-base-in";
 const RAYDIUM_SWAP_API = "https://transaction-v1.raydium.io/transaction/swap-base-in";
-const RAYDIUM_FEE_API = "https://api-v3.raydium.io/main/auto-fee";
 
 // Pump.fun API endpoints
 const PUMPFUN_API = "https://frontend-api.pump.fun";
@@ -56,9 +95,8 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
-async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
-  const res = await fetch(rpcUrl, {
-    method: "POST",
+async function rpcRequest(rpc: RpcPool, method: string, params: unknown[]): Promise<any> {
+  const res = await rpc.request({
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
   });
@@ -71,9 +109,9 @@ async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Pr
   return data?.result;
 }
 
-async function getMintDecimals(rpcUrl: string, mint: string): Promise<number> {
+async function getMintDecimals(rpc: RpcPool, mint: string): Promise<number> {
   if (mint === SOL_MINT) return 9;
-  const result = await rpcRequest(rpcUrl, "getAccountInfo", [mint, { encoding: "base64" }]);
+  const result = await rpcRequest(rpc, "getAccountInfo", [mint, { encoding: "base64" }]);
   const value = result?.value;
   const data = value?.data;
   const base64 = Array.isArray(data) ? data[0] : null;
@@ -99,7 +137,8 @@ interface SwapRequest {
 }
 
 interface TradeRequest {
-  action: "quote" | "swap" | "execute" | "validate";
+  action: "quote" | "swap" | "execute" | "validate"; // "swap" is Solana-only
+  chain?: ExecutionChain; // Defaults to solana; EVM trades use EVM_NATIVE_TOKEN for the native side
   inputMint?: string;
   outputMint?: string;
   amount?: string;
@@ -112,6 +151,9 @@ interface TradeRequest {
   profitTakePercent?: number;
   stopLossPercent?: number;
   isPumpFun?: boolean;
+  averageIntoPosition?: boolean; // Overrides user_sniper_settings.average_into_positions
+  executionMode?: "standard" | "jito"; // Overrides user_sniper_settings.jito_enabled
+  sellFraction?: number; // EVM sells: share of the wallet's token balance, in place of amount
 }
 
 interface TokenValidation {
@@ -125,14 +167,6 @@ interface TokenValidation {
   reasons: string[];
 }
 
-// Priority fee levels in microLamports
-const PRIORITY_FEES = {
-  low: 10000,
-  medium: 50000,
-  high: 200000,
-  veryHigh: 1000000,
-};
-
 // Retry configuration
 const RETRY_CONFIG = {
   maxRetries: 3,
@@ -369,7 +403,7 @@ async function getJupiterSwap(request: SwapRequest): Promise<any> {
       quoteResponse: request.quoteResponse,
       userPublicKey: request.userPublicKey,
       wrapAndUnwrapSol: true,
-      prioritizationFeeLamports: request.priorityFee || PRIORITY_FEES.medium,
+      prioritizationFeeLamports: request.priorityFee ?? DEFAULT_PRIORITY_FEES.medium,
       dynamicComputeUnitLimit: true,
     }),
     signal: AbortSignal.timeout(20000),
@@ -477,7 +511,8 @@ async function getPumpFunSwap(
   tokenMint: string,
   amount: number,
   wallet: string,
-  slippageBps: number
+  slippageBps: number,
+  priorityFeeSol = 0.0005
 ): Promise<any> {
   console.log(`[Pump.fun] Building ${action} transaction for ${wallet}, amount: ${amount}`);
 
@@ -491,7 +526,7 @@ async function getPumpFunSwap(
       amount: amount,
       denominatedInSol: action === "buy" ? "true" : "false",
       slippage: slippageBps / 100, // Convert basis points to percentage
-      priorityFee: 0.0005, // 0.0005 SOL priority fee
+      priorityFee: priorityFeeSol,
       pool: "pump",
     }),
     signal: AbortSignal.timeout(15000),
@@ -512,29 +547,616 @@ async function getPumpFunSwap(
   return { swapTransaction: base64Tx, isPumpFun: true };
 }
 
-// Get dynamic priority fee
-async function getPriorityFee(level: "low" | "medium" | "high" | "veryHigh"): Promise<number> {
+// Priority fee from what recent slots paid to write the swap's accounts, capped at the user's max_priority_fee_sol
+async function getPriorityFee(
+  rpc: RpcPool,
+  level: PriorityLevel,
+  accounts: string[],
+  maxFeeSol?: number | null
+): Promise<PriorityFeeEstimate> {
+  let samples: PrioritizationFeeSample[] = [];
   try {
-    const response = await fetch(RAYDIUM_FEE_API, {
-      signal: AbortSignal.timeout(5000),
-    });
+    samples = await rpc.call<PrioritizationFeeSample[]>("getRecentPrioritizationFees", [accounts]) ?? [];
+  } catch (error) {
+    console.error("[Fee] Failed to fetch recent prioritization fees:", error);
+  }
+
+  const estimate = estimatePriorityFee(samples, level, { maxFeeSol });
+  console.log(
+    `[Fee] ${level}: ${estimate.microLamportsPerCu} µL/CU = ${estimate.lamports} lamports ` +
+    `(p${estimate.percentile} of ${estimate.sampleCount} slots over ${accounts.length} accounts${estimate.capped ? ", capped" : ""})`
+  );
+  return estimate;
+}
+
+async function getJitoTipFloor(): Promise<JitoTipFloor | null> {
+  try {
+    const response = await fetch(JITO_TIP_FLOOR_URL, { signal: AbortSignal.timeout(3000) });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return (Array.isArray(data) ? data[0] : data) ?? null;
+  } catch (error) {
+    console.error("[Jito] Failed to fetch tip floor:", error);
+    return null;
+  }
+}
+
+type ExecutionSettingsRow = JitoSettingsRow & { max_priority_fee_sol?: number | null };
+
+// Per-user execution settings: Jito bundling and the priority-fee cap
+async function getExecutionSettings(
+  supabase: ReturnType<typeof createClient>,
+  userId: string
+): Promise<ExecutionSettingsRow | null> {
+  const { data } = await supabase
+    .from("user_sniper_settings")
+    .select("jito_enabled, jito_tip_lamports, jito_tip_strategy, jito_max_tip_lamports, jito_fallback_slots, max_priority_fee_sol")
+    .eq("user_id", userId)
+    .maybeSingle();
+  return data as ExecutionSettingsRow | null;
+}
+
+// Tip + fallback settings when this trade should go out as a Jito bundle, null for the standard send path
+async function getJitoPlan(
+  row: ExecutionSettingsRow | null,
+  executionMode?: "standard" | "jito"
+): Promise<JitoBundlePlan | null> {
+  if (executionMode === "standard") return null;
+
+  const settings = parseJitoSettings(row);
+  if (!settings.enabled && executionMode !== "jito") return null;
+
+  const tipFloor = settings.tipStrategy === "fixed" ? null : await getJitoTipFloor();
+  const plan = {
+    tipLamports: resolveJitoTip(settings, tipFloor),
+    tipAccount: pickJitoTipAccount(),
+    fallbackSlots: settings.fallbackSlots,
+  };
+  console.log(`[Jito] Bundle mode: tip ${plan.tipLamports} lamports (${settings.tipStrategy}), fallback after ${plan.fallbackSlots} slots`);
+  return plan;
+}
+
+async function guardrailRejection(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  tokenMint: string,
+  tradeSol: number,
+  result: GuardrailCheckResult
+): Promise<Response> {
+  console.log(`[Trade] Guardrail blocked buy${tradeSol > 0 ? ` of ${tradeSol} SOL` : ""} of ${tokenMint}: ${result.reason}`);
+
+  await supabase.from("system_logs").insert({
+    user_id: userId,
+    event_type: "guardrail_blocked",
+    event_category: "risk",
+    message: result.reason,
+    metadata: { token_address: tokenMint, trade_sol: tradeSol, guardrails: result.statuses },
+    severity: "warning",
+  });
+
+  // Scanners retry on every tick, so repeat blocks by the same guardrail collapse into one alert
+  const breached = result.statuses.find((s) => s.breached);
+  const dedupeScope = breached?.id === "token_exposure" ? `:${tokenMint}` : "";
+  await notifyUser(supabase, {
+    userId,
+    eventType: "risk_alert",
+    title: "Buy Blocked by Guardrail",
+    message: result.reason || `Buy of ${tradeSol} SOL blocked`,
+    type: "warning",
+    metadata: { tokenAddress: tokenMint, tradeSol },
+    source: "trade-execution",
+    dedupeKey: `guardrail:${breached?.id}${dedupeScope}`,
+    dedupeWindowMs: 15 * 60 * 1000,
+  });
+
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: result.reason,
+      errorCode: "GUARDRAIL_BLOCKED",
+      retryable: false,
+      guardrails: result.statuses,
+    }),
+    { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// What the Solana adapter's quote carries through to buildSwap
+interface SolanaQuotePayload {
+  quoteData: any;
+  bondingCurve: string | null; // Pump.fun bonding curve account, written by pump swaps
+}
+
+// Pump.fun bonding curve first (new tokens are rarely on Jupiter/Raydium yet), then Jupiter, then Raydium
+async function getSolanaQuote(request: SwapQuoteRequest): Promise<ExecutionQuote> {
+  const pumpCheck = await isPumpFunToken(request.outputToken);
+  let quoteData: any;
+  let source = "jupiter";
+
+  if (pumpCheck.isPumpFun) {
+    source = "pumpfun";
+    const virtualSolReserves = pumpCheck.bondingCurve?.virtual_sol_reserves || 0;
+    const virtualTokenReserves = pumpCheck.bondingCurve?.virtual_token_reserves || 0;
     
-    if (response.ok) {
-      const data = await response.json();
-      if (data.success && data.data?.default) {
-        switch (level) {
-          case "veryHigh": return data.data.default.vh;
-          case "high": return data.data.default.h;
-          case "medium": return data.data.default.m;
-          case "low": return Math.floor(data.data.default.m / 2);
+    if (virtualSolReserves > 0 && virtualTokenReserves > 0) {
+      const price = virtualSolReserves / virtualTokenReserves;
+      const inputAmount = parseInt(request.amount);
+      const outputAmount = Math.floor(inputAmount / price);
+      
+      console.log(`[Pump.fun] Token is on bonding curve. Price: ${price}, Output: ${outputAmount}`);
+      
+      quoteData = {
+        inputAmount,
+        outAmount: outputAmount,
+        priceImpactPct: 1.5,
+      };
+    } else {
+      console.log(`[Pump.fun] Invalid bonding curve reserves, trying DEX...`);
+      pumpCheck.isPumpFun = false; // Force fallback to DEX
+    }
+  }
+  
+  // Only try Jupiter/Raydium if NOT a Pump.fun token
+  if (!pumpCheck.isPumpFun) {
+    const quoteRequest = {
+      inputMint: request.inputToken,
+      outputMint: request.outputToken,
+      amount: request.amount,
+      slippageBps: request.slippageBps,
+    };
+    try {
+      quoteData = await getJupiterQuote(quoteRequest);
+      source = "jupiter";
+    } catch (jupiterError: any) {
+      const jupErrorMsg = jupiterError?.message || String(jupiterError);
+      console.log(`[Trade] Jupiter failed: ${jupErrorMsg}, trying Raydium...`);
+      
+      try {
+        const raydiumQuote = await getRaydiumQuote(quoteRequest);
+        quoteData = {
+          inputAmount: parseInt(request.amount),
+          outAmount: raydiumQuote.data.outputAmount,
+          otherAmountThreshold: raydiumQuote.data.otherAmountThreshold,
+          priceImpactPct: raydiumQuote.data.priceImpactPct || 0,
+          raydiumData: raydiumQuote,
+        };
+        source = "raydium";
+      } catch (raydiumError: any) {
+        const rayErrorMsg = raydiumError?.message || String(raydiumError);
+        console.log(`[Trade] Raydium also failed: ${rayErrorMsg}`);
+        
+        // Provide user-friendly error messages based on failure type
+        const isNotTradable = jupErrorMsg.includes('TOKEN_NOT_TRADABLE') || jupErrorMsg.includes('not tradable');
+        const isNoRoute = rayErrorMsg.includes('ROUTE_NOT_FOUND');
+        
+        if (isNotTradable || isNoRoute) {
+          // Only suggest Pump.fun if API check actually failed (not if it confirmed token isn't there)
+          // AND the token shows signs of being very new (no DEX routes)
+          if (pumpCheck.apiError && !pumpCheck.confirmedNotPumpFun) {
+            throw new Error(
+              `🔄 Token may still be on Pump.fun bonding curve but API verification failed. ` +
+              `This is a very new token that hasn't graduated to DEXs yet. ` +
+              `Try again in a few minutes or trade directly on pump.fun website.`
+            );
+          }
+          
+          // Token is confirmed NOT on Pump.fun but still not tradeable on DEXs
+          throw new Error(
+            `❌ Token not available for trading yet.\n\n` +
+            `This token exists but has no active trading routes on Jupiter or Raydium.\n\n` +
+            `Possible reasons:\n` +
+            `• Token liquidity pool is not yet indexed by DEX aggregators\n` +
+            `• Token may be on a different DEX (check DexScreener for exact pool)\n` +
+            `• Liquidity may have been recently added or removed\n\n` +
+            `💡 Try: Check DexScreener.com for the token's actual trading venue.`
+          );
         }
+        throw new Error(
+          `⚠️ No trading route found. Token may have insufficient liquidity.\n` +
+          `Jupiter: ${jupErrorMsg}\nRaydium: ${rayErrorMsg}`
+        );
       }
     }
-  } catch (error) {
-    console.error("[Fee] Failed to fetch dynamic fees:", error);
+  }
+
+  const outAmount = String(quoteData.outAmount || quoteData.outputAmount);
+  const minOutAmount = quoteData.otherAmountThreshold
+    ? String(quoteData.otherAmountThreshold)
+    : String(Math.floor(Number(outAmount) * (1 - request.slippageBps / 10_000)));
+  const payload: SolanaQuotePayload = {
+    quoteData,
+    bondingCurve: pumpCheck.isPumpFun ? pumpCheck.bondingCurve?.bonding_curve ?? null : null,
+  };
+
+  return {
+    chain: "solana",
+    venue: source,
+    inputToken: request.inputToken,
+    outputToken: request.outputToken,
+    inputAmount: request.amount,
+    outAmount,
+    minOutAmount,
+    priceImpactPct: Number(quoteData.priceImpactPct) || 0,
+    slippageBps: request.slippageBps,
+    raw: payload,
+  };
+}
+
+// The Solana ExecutionAdapter: Jupiter / Raydium / Pump.fun swaps paying a priority fee
+// sized from what recent slots paid for the route's accounts
+function createSolanaAdapter(
+  rpc: RpcPool,
+  fees: { level: PriorityLevel; maxFeeSol?: number | null }
+): SolanaExecutionAdapter {
+  return {
+    chain: "solana",
+    nativeToken: SOL_MINT,
+    nativeDecimals: 9,
+    nativeSymbol: "SOL",
+    isTokenAddress: (address) => SOLANA_ADDRESS.test(address) && address !== SOL_MINT,
+    tokenDecimals: (mint) => getMintDecimals(rpc, mint),
+    quote: getSolanaQuote,
+
+    async buildSwap(quote, wallet) {
+      const { quoteData, bondingCurve } = quote.raw as SolanaQuotePayload;
+      const priorityFee = await getPriorityFee(
+        rpc,
+        fees.level,
+        priorityFeeAccounts(
+          [quote.inputToken, quote.outputToken],
+          quote.venue === "raydium" ? quoteData.raydiumData : quoteData,
+          bondingCurve
+        ),
+        fees.maxFeeSol
+      );
+
+      let swapTransaction: string;
+      if (quote.venue === "pumpfun") {
+        const amountInSol = parseInt(quote.inputAmount) / 1e9;
+        const swapData = await getPumpFunSwap(
+          "buy",
+          quote.outputToken,
+          amountInSol,
+          wallet,
+          quote.slippageBps,
+          priorityFee.lamports / 1e9
+        );
+        swapTransaction = swapData.swapTransaction;
+      } else if (quote.venue === "raydium") {
+        const swapData = await getRaydiumSwap(quoteData.raydiumData, wallet, priorityFee.microLamportsPerCu);
+        swapTransaction = swapData.data?.[0]?.transaction;
+      } else {
+        const swapData = await getJupiterSwap({
+          quoteResponse: quoteData,
+          userPublicKey: wallet,
+          priorityFee: priorityFee.lamports,
+        });
+        swapTransaction = swapData.swapTransaction;
+      }
+
+      return { chain: "solana", swapTransaction, priorityFee };
+    },
+  };
+}
+
+// Symbol / name to store on the position - placeholders are replaced from DexScreener (and Jupiter on Solana)
+async function resolveTokenMetadata(
+  tokenAddress: string,
+  chain: ExecutionChain,
+  tokenSymbol?: string,
+  tokenName?: string
+): Promise<{ tokenSymbol: string; tokenName: string }> {
+  let finalTokenSymbol = tokenSymbol;
+  let finalTokenName = tokenName;
+  
+  // Check if provided values are placeholders or missing
+  const isPlaceholderSymbol = !finalTokenSymbol || 
+    /^(unknown|token|\?\?\?|n\/a)$/i.test(finalTokenSymbol.trim()) ||
+    /^[a-z0-9]{4}[….\-_][a-z0-9]{4}$/i.test(finalTokenSymbol.trim());
+  const isPlaceholderName = !finalTokenName ||
+    /^(unknown|token|\?\?\?|n\/a)/i.test(finalTokenName.trim()) ||
+    /^token\s+[a-z0-9]{4}/i.test(finalTokenName.trim());
+  
+  if (isPlaceholderSymbol || isPlaceholderName) {
+    try {
+      console.log(`[Trade] Fetching metadata for token ${tokenAddress.slice(0, 8)}...`);
+      
+      // Try DexScreener first (most comprehensive) - its chain ids match ours
+      const dexRes = await fetch(
+        `https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`,
+        { signal: AbortSignal.timeout(4000) }
+      );
+      
+      if (dexRes.ok) {
+        const dexData = await dexRes.json();
+        const pairs = dexData?.pairs || [];
+        // Find highest liquidity pair on this chain
+        const bestPair = pairs
+          .filter((p: any) => p?.chainId === chain)
+          .sort((a: any, b: any) => (b?.liquidity?.usd || 0) - (a?.liquidity?.usd || 0))[0];
+        
+        if (bestPair?.baseToken) {
+          const symbol = String(bestPair.baseToken.symbol || '').trim();
+          const name = String(bestPair.baseToken.name || '').trim();
+          if (symbol && isPlaceholderSymbol) {
+            finalTokenSymbol = symbol;
+            console.log(`[Trade] Enriched symbol: ${symbol}`);
+          }
+          if (name && isPlaceholderName) {
+            finalTokenName = name;
+            console.log(`[Trade] Enriched name: ${name}`);
+          }
+        }
+      }
+      
+      // Fallback: Try Jupiter token list
+      if (chain === "solana" && (isPlaceholderSymbol || isPlaceholderName)) {
+        const jupRes = await fetch(
+          `https://lite-api.jup.ag/tokens/v1/${tokenAddress}`,
+          { signal: AbortSignal.timeout(3000) }
+        );
+        if (jupRes.ok) {
+          const jupData = await jupRes.json();
+          const symbol = String(jupData?.symbol || '').trim();
+          const name = String(jupData?.name || '').trim();
+          if (symbol && isPlaceholderSymbol && !finalTokenSymbol) {
+            finalTokenSymbol = symbol;
+            console.log(`[Trade] Jupiter enriched symbol: ${symbol}`);
+          }
+          if (name && isPlaceholderName && !finalTokenName) {
+            finalTokenName = name;
+            console.log(`[Trade] Jupiter enriched name: ${name}`);
+          }
+        }
+      }
+    } catch (metaError) {
+      console.log(`[Trade] Metadata enrichment failed (non-blocking): ${metaError}`);
+    }
   }
   
-  return PRIORITY_FEES[level];
+  // Final fallback to short address format
+  if (!finalTokenSymbol || isPlaceholderSymbol) {
+    finalTokenSymbol = `${tokenAddress.slice(0, 4)}…${tokenAddress.slice(-4)}`;
+  }
+  if (!finalTokenName || isPlaceholderName) {
+    finalTokenName = finalTokenSymbol !== tokenAddress.slice(0, 4) 
+      ? finalTokenSymbol  // Use symbol as name if we have a real symbol
+      : `Token ${tokenAddress.slice(0, 4)}…${tokenAddress.slice(-4)}`;
+  }
+
+  return { tokenSymbol: finalTokenSymbol, tokenName: finalTokenName };
+}
+
+interface PendingTrade {
+  chain: ExecutionChain;
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenName: string;
+  isBuy: boolean;
+  inputAmountDecimal: number; // Native coin spent (SOL / ETH / BNB)
+  outputAmountDecimal: number;
+  entryPrice: number; // Native coin per token
+  entryPriceUsd?: number | null;
+}
+
+// Record the trade as a pending position (or, when averaging, a pending fill on the open one).
+// confirm-transaction opens / folds it in once the transaction lands.
+async function openPendingPosition(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  body: TradeRequest,
+  trade: PendingTrade
+): Promise<{ positionId?: string; fillId?: string; averaged: boolean }> {
+  // Snapshot the exit strategy so later settings edits don't move live trailing stops / ladders
+  const { data: userExitSettings } = await supabase
+    .from("user_sniper_settings")
+    .select("profit_take_percentage, stop_loss_percentage, trailing_stop_enabled, trailing_stop_percent, trailing_stop_activation_percent, take_profit_ladder, average_into_positions")
+    .eq("user_id", userId)
+    .maybeSingle();
+  // ...as traded by the signing wallet, whose own overrides win
+  const { data: tradingWallet } = await supabase
+    .from("user_wallets")
+    .select("settings_overrides")
+    .eq("user_id", userId)
+    .eq("address", body.userPublicKey)
+    .maybeSingle();
+  const exitSettings = userExitSettings
+    ? resolveWalletSettings(userExitSettings, tradingWallet?.settings_overrides)
+    : null;
+
+  const fill = {
+    user_id: userId,
+    wallet_address: body.userPublicKey,
+    side: "buy",
+    status: "pending",
+    amount: trade.outputAmountDecimal,
+    sol_amount: trade.inputAmountDecimal,
+    price: trade.entryPrice,
+    price_usd: trade.entryPriceUsd ?? null,
+  };
+
+  // Averaging: add this buy to the open position instead of opening a second one
+  const averageIntoPosition = trade.isBuy && (body.averageIntoPosition ?? Boolean(exitSettings?.average_into_positions));
+  if (averageIntoPosition) {
+    const { data: openPosition } = await supabase
+      .from("positions")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("wallet_address", body.userPublicKey)
+      .eq("token_address", trade.tokenAddress)
+      .eq("status", "open")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (openPosition) {
+      const { data: pendingFill, error: fillError } = await supabase
+        .from("position_fills")
+        .insert({ ...fill, position_id: openPosition.id })
+        .select("id")
+        .single();
+
+      if (fillError) {
+        console.error("[Trade] Failed to record averaging fill:", fillError);
+      } else {
+        console.log(`[Trade] Averaging into position ${openPosition.id}`);
+        return { positionId: openPosition.id, fillId: pendingFill.id, averaged: true };
+      }
+    }
+  }
+
+  const profitTakePercent = body.profitTakePercent || 100;
+  const stopLossPercent = body.stopLossPercent || 20;
+
+  const { data: position, error: posError } = await supabase
+    .from("positions")
+    .insert({
+      user_id: userId,
+      token_address: trade.tokenAddress,
+      token_symbol: trade.tokenSymbol,
+      token_name: trade.tokenName,
+      chain: trade.chain,
+      entry_price: trade.entryPrice,
+      entry_price_usd: trade.entryPriceUsd ?? null,
+      current_price: trade.entryPrice,
+      amount: trade.outputAmountDecimal,
+      entry_value: trade.inputAmountDecimal,
+      current_value: trade.inputAmountDecimal,
+      profit_take_percent: profitTakePercent,
+      stop_loss_percent: stopLossPercent,
+      exit_strategy: buildExitStrategy(exitSettings, { profitTakePercent, stopLossPercent }),
+      status: "pending",
+      wallet_address: body.userPublicKey,
+    })
+    .select()
+    .single();
+
+  if (posError) {
+    console.error("[Trade] Failed to create position:", posError);
+  }
+
+  // Opening fill, so the position's fill history starts with its first buy
+  let fillId: string | undefined;
+  if (position && trade.isBuy) {
+    const { data: openingFill, error: fillError } = await supabase
+      .from("position_fills")
+      .insert({ ...fill, position_id: position.id })
+      .select("id")
+      .single();
+    if (fillError) console.error("[Trade] Failed to record opening fill:", fillError);
+    fillId = openingFill?.id;
+  }
+
+  return { positionId: position?.id, fillId, averaged: false };
+}
+
+// EVM buy / sell through the chain's V2 router. Nothing is signed here: the wallet sends the
+// returned transactions in order (approve first on sells that need it), then calls confirm-transaction.
+// SOL guardrails don't apply - their limits are denominated in SOL.
+async function executeEvmTrade(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  body: TradeRequest,
+  chain: EvmChain
+): Promise<Response> {
+  const adapter = getEvmAdapter(chain);
+  const isBuy = isEvmNativeToken(body.inputMint);
+  const tokenAddress = isBuy ? body.outputMint : body.inputMint;
+
+  if (!body.inputMint || !body.outputMint || !body.userPublicKey) {
+    return new Response(
+      JSON.stringify({ error: "Missing required fields: inputMint, outputMint, userPublicKey" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (!tokenAddress || !adapter.isTokenAddress(tokenAddress) || !isEvmAddress(body.userPublicKey)) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: `Invalid ${adapter.config.name} trade: token and wallet must be 0x addresses, the other side ${EVM_NATIVE_TOKEN}`,
+      }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (isBuy) {
+    const guardrails = await checkBuyGuardrails(supabase, userId, tokenAddress, 0, chain);
+    if (!guardrails.allowed) {
+      return await guardrailRejection(supabase, userId, tokenAddress, 0, guardrails);
+    }
+  }
+
+  // Sells may ask for a share of the wallet's balance instead of an exact amount
+  let amount = body.amount;
+  if (!isBuy && typeof body.sellFraction === "number") {
+    const fraction = Math.min(1, Math.max(0, body.sellFraction));
+    const balance = await adapter.tokenBalance(tokenAddress, body.userPublicKey);
+    amount = ((balance * BigInt(Math.round(fraction * 10_000))) / 10_000n).toString();
+  }
+  if (!amount || !/^\d+$/.test(amount) || BigInt(amount) === 0n) {
+    return new Response(
+      JSON.stringify({ success: false, error: isBuy ? "Missing required field: amount" : "Invalid amount: no token balance to sell" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const quote = await adapter.quote({
+    inputToken: body.inputMint,
+    outputToken: body.outputMint,
+    amount,
+    slippageBps: body.slippageBps || 100,
+  });
+  const [swap, tokenDecimals] = await Promise.all([
+    adapter.buildSwap(quote, body.userPublicKey),
+    adapter.tokenDecimals(tokenAddress),
+  ]);
+
+  const inputAmountDecimal = Number(quote.inputAmount) / Math.pow(10, isBuy ? EVM_NATIVE_DECIMALS : tokenDecimals);
+  const outputAmountDecimal = Number(quote.outAmount) / Math.pow(10, isBuy ? tokenDecimals : EVM_NATIVE_DECIMALS);
+  console.log(
+    `[Trade] ${chain} ${isBuy ? "buy" : "sell"} via ${quote.venue}: ${inputAmountDecimal} -> ${outputAmountDecimal} ` +
+    `(impact ${quote.priceImpactPct.toFixed(2)}%, ${swap.transactions.length} tx)`
+  );
+
+  let opened: { positionId?: string; fillId?: string; averaged: boolean } = { averaged: false };
+  if (isBuy) {
+    // auto-exit compares live USD prices against entry_price_usd, so record it up front
+    const [metadata, entryPriceUsd] = await Promise.all([
+      resolveTokenMetadata(tokenAddress, chain, body.tokenSymbol, body.tokenName),
+      fetchCurrentPrice(tokenAddress, chain, []),
+    ]);
+    opened = await openPendingPosition(supabase, userId, body, {
+      chain,
+      tokenAddress,
+      ...metadata,
+      isBuy,
+      inputAmountDecimal,
+      outputAmountDecimal,
+      entryPrice: inputAmountDecimal / outputAmountDecimal,
+      entryPriceUsd,
+    });
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      chain,
+      quote: {
+        inputAmount: Number(quote.inputAmount),
+        outputAmount: Number(quote.outAmount),
+        inputAmountDecimal,
+        outputAmountDecimal,
+        priceImpactPct: quote.priceImpactPct,
+        slippageBps: quote.slippageBps,
+      },
+      transactions: swap.transactions,
+      ...opened,
+      source: quote.venue,
+    }),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
 }
 
 // Main handler
@@ -615,6 +1237,19 @@ Deno.serve(async (req) => {
           );
         }
 
+        if (isEvmChain(body.chain)) {
+          const quote = await getEvmAdapter(body.chain).quote({
+            inputToken: body.inputMint,
+            outputToken: body.outputMint,
+            amount: body.amount,
+            slippageBps: body.slippageBps || 100,
+          });
+          return new Response(
+            JSON.stringify({ success: true, chain: body.chain, quote: { ...quote, source: quote.venue } }),
+            { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
         // Check if it's a Pump.fun token
         const pumpCheck = await isPumpFunToken(body.outputMint);
         
@@ -691,8 +1326,32 @@ Deno.serve(async (req) => {
           );
         }
 
-        const priorityFee = await getPriorityFee(body.priorityLevel || "medium");
-        console.log(`[Trade] Using priority fee: ${priorityFee}`);
+        // Guardrails apply to SOL-funded buys (Pump.fun swaps here are always buys)
+        if ((body.isPumpFun || body.inputMint === SOL_MINT) && body.outputMint) {
+          const tradeSol = parseInt(body.quoteResponse.inputAmount || body.quoteResponse.inAmount || body.amount || "0") / 1e9;
+          const guardrails = await checkBuyGuardrails(supabase, user.id, body.outputMint, tradeSol);
+          if (!guardrails.allowed) {
+            return await guardrailRejection(supabase, user.id, body.outputMint, tradeSol, guardrails);
+          }
+        }
+
+        const [rpc, executionSettings] = await Promise.all([
+          getSolanaRpc(),
+          getExecutionSettings(supabase, user.id),
+        ]);
+        const [priorityFee, jito] = await Promise.all([
+          getPriorityFee(
+            rpc,
+            isPriorityLevel(body.priorityLevel) ? body.priorityLevel : "medium",
+            priorityFeeAccounts(
+              [body.inputMint, body.outputMint],
+              body.quoteResponse.raydiumData || body.quoteResponse,
+              body.isPumpFun ? body.quoteResponse.bondingCurve?.bonding_curve : null
+            ),
+            executionSettings?.max_priority_fee_sol
+          ),
+          getJitoPlan(executionSettings, body.executionMode),
+        ]);
 
         let swapData: any;
         
@@ -704,14 +1363,15 @@ Deno.serve(async (req) => {
             body.outputMint,
             amountInSol,
             body.userPublicKey,
-            body.slippageBps || 100
+            body.slippageBps || 100,
+            priorityFee.lamports / 1e9
           );
         } else if (body.quoteResponse.source === "raydium" || body.quoteResponse.raydiumData) {
-          // Use Raydium
+          // Use Raydium (fee as compute-unit price)
           swapData = await getRaydiumSwap(
             body.quoteResponse.raydiumData || body.quoteResponse,
             body.userPublicKey,
-            priorityFee
+            priorityFee.microLamportsPerCu
           );
           const transactions = swapData.data || [];
           swapData = {
@@ -723,7 +1383,7 @@ Deno.serve(async (req) => {
           swapData = await getJupiterSwap({
             quoteResponse: body.quoteResponse,
             userPublicKey: body.userPublicKey,
-            priorityFee,
+            priorityFee: priorityFee.lamports,
           });
         }
 
@@ -732,7 +1392,9 @@ Deno.serve(async (req) => {
             success: true,
             swapTransaction: swapData.swapTransaction,
             transactions: swapData.transactions,
-            priorityFeeUsed: priorityFee,
+            priorityFeeUsed: priorityFee.lamports,
+            priorityFee,
+            jito,
             source: body.isPumpFun ? "pumpfun" : (body.quoteResponse.source || "jupiter"),
           }),
           { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -740,6 +1402,17 @@ Deno.serve(async (req) => {
       }
 
       case "execute": {
+        const chain = body.chain ?? "solana";
+        if (!isExecutionChain(chain)) {
+          return new Response(
+            JSON.stringify({ success: false, error: `Invalid chain: ${chain}. Use solana, ethereum, base or bsc` }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        if (isEvmChain(chain)) {
+          return await executeEvmTrade(supabase, user.id, body, chain);
+        }
+
         if (!body.inputMint || !body.outputMint || !body.amount || !body.userPublicKey) {
           return new Response(
             JSON.stringify({ 
@@ -750,7 +1423,7 @@ Deno.serve(async (req) => {
         }
 
         // CRITICAL: Validate Solana address format before proceeding
-        const isSolanaAddress = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(body.outputMint);
+        const isSolanaAddress = SOLANA_ADDRESS.test(body.outputMint);
         const isEthereumAddress = body.outputMint.startsWith('0x');
         
         if (isEthereumAddress || !isSolanaAddress) {
@@ -758,17 +1431,39 @@ Deno.serve(async (req) => {
           return new Response(
             JSON.stringify({ 
               success: false,
-              error: "Invalid token: Only Solana tokens can be traded. This appears to be an Ethereum/BSC address."
+              error: "Invalid token: This appears to be an EVM address - trade it with chain set to ethereum, base or bsc."
             }),
             { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
           );
         }
 
-        // Step 1: Validate token safety
-        const [validation, pumpCheck] = await Promise.all([
-          validateToken(body.outputMint),
-          isPumpFunToken(body.outputMint),
+        // Step 0: SOL guardrails (daily loss, exposure, trade rate) before any transaction is built
+        if (body.inputMint === SOL_MINT) {
+          const tradeSol = parseInt(body.amount) / 1e9;
+          const guardrails = await checkBuyGuardrails(supabase, user.id, body.outputMint, tradeSol);
+          if (!guardrails.allowed) {
+            return await guardrailRejection(supabase, user.id, body.outputMint, tradeSol, guardrails);
+          }
+        }
+
+        const [rpc, executionSettings] = await Promise.all([
+          getSolanaRpc(),
+          getExecutionSettings(supabase, user.id),
         ]);
+        const adapter = createSolanaAdapter(rpc, {
+          level: isPriorityLevel(body.priorityLevel) ? body.priorityLevel : "medium",
+          maxFeeSol: executionSettings?.max_priority_fee_sol,
+        });
+
+        // Step 1: Validate token safety - the route is quoted meanwhile but only used if the token passes
+        const quoting = adapter.quote({
+          inputToken: body.inputMint,
+          outputToken: body.outputMint,
+          amount: body.amount,
+          slippageBps: body.slippageBps || 100,
+        });
+        quoting.catch(() => {}); // Surfaced when awaited below
+        const validation = await validateToken(body.outputMint);
 
         // Block if token is a confirmed honeypot
         if (validation.isHoneypot) {
@@ -787,272 +1482,57 @@ Deno.serve(async (req) => {
           console.log(`[Trade] Warning: Token has freeze authority: ${validation.freezeAuthority}`);
         }
 
-        // Step 2: Get quote - CRITICAL: Check Pump.fun FIRST for new tokens
-        let quoteData: any;
-        let source = "jupiter";
-        let tradeablityError: string | null = null;
-        
-        // Always check Pump.fun first - new tokens are often not yet on Jupiter/Raydium
-        if (pumpCheck.isPumpFun) {
-          source = "pumpfun";
-          const virtualSolReserves = pumpCheck.bondingCurve?.virtual_sol_reserves || 0;
-          const virtualTokenReserves = pumpCheck.bondingCurve?.virtual_token_reserves || 0;
-          
-          if (virtualSolReserves > 0 && virtualTokenReserves > 0) {
-            const price = virtualSolReserves / virtualTokenReserves;
-            const inputAmount = parseInt(body.amount);
-            const outputAmount = Math.floor(inputAmount / price);
-            
-            console.log(`[Pump.fun] Token is on bonding curve. Price: ${price}, Output: ${outputAmount}`);
-            
-            quoteData = {
-              inputAmount,
-              outAmount: outputAmount,
-              priceImpactPct: 1.5,
-            };
-          } else {
-            console.log(`[Pump.fun] Invalid bonding curve reserves, trying DEX...`);
-            pumpCheck.isPumpFun = false; // Force fallback to DEX
-          }
-        }
-        
-        // Only try Jupiter/Raydium if NOT a Pump.fun token
-        if (!pumpCheck.isPumpFun) {
-          try {
-            quoteData = await getJupiterQuote({
-              inputMint: body.inputMint,
-              outputMint: body.outputMint,
-              amount: body.amount,
-              slippageBps: body.slippageBps,
-            });
-            source = "jupiter";
-          } catch (jupiterError: any) {
-            const jupErrorMsg = jupiterError?.message || String(jupiterError);
-            console.log(`[Trade] Jupiter failed: ${jupErrorMsg}, trying Raydium...`);
-            
-            // Check if token is simply not tradable on Jupiter
-            if (jupErrorMsg.includes('TOKEN_NOT_TRADABLE') || jupErrorMsg.includes('not tradable')) {
-              tradeablityError = `Token not yet available on Jupiter DEX. This is a very new token - try Pump.fun trading or wait for DEX listing.`;
-            }
-            
-            try {
-              const raydiumQuote = await getRaydiumQuote({
-                inputMint: body.inputMint,
-                outputMint: body.outputMint,
-                amount: body.amount,
-                slippageBps: body.slippageBps,
-              });
-              quoteData = {
-                inputAmount: parseInt(body.amount),
-                outAmount: raydiumQuote.data.outputAmount,
-                priceImpactPct: raydiumQuote.data.priceImpactPct || 0,
-                raydiumData: raydiumQuote,
-              };
-              source = "raydium";
-              tradeablityError = null; // Raydium worked
-            } catch (raydiumError: any) {
-              const rayErrorMsg = raydiumError?.message || String(raydiumError);
-              console.log(`[Trade] Raydium also failed: ${rayErrorMsg}`);
-              
-              // Provide user-friendly error messages based on failure type
-              const isNotTradable = jupErrorMsg.includes('TOKEN_NOT_TRADABLE') || jupErrorMsg.includes('not tradable');
-              const isNoRoute = rayErrorMsg.includes('ROUTE_NOT_FOUND');
-              
-              if (isNotTradable || isNoRoute) {
-                // Only suggest Pump.fun if API check actually failed (not if it confirmed token isn't there)
-                // AND the token shows signs of being very new (no DEX routes)
-                if (pumpCheck.apiError && !pumpCheck.confirmedNotPumpFun) {
-                  throw new Error(
-                    `🔄 Token may still be on Pump.fun bonding curve but API verification failed. ` +
-                    `This is a very new token that hasn't graduated to DEXs yet. ` +
-                    `Try again in a few minutes or trade directly on pump.fun website.`
-                  );
-                }
-                
-                // Token is confirmed NOT on Pump.fun but still not tradeable on DEXs
-                throw new Error(
-                  `❌ Token not available for trading yet.\n\n` +
-                  `This token exists but has no active trading routes on Jupiter or Raydium.\n\n` +
-                  `Possible reasons:\n` +
-                  `• Token liquidity pool is not yet indexed by DEX aggregators\n` +
-                  `• Token may be on a different DEX (check DexScreener for exact pool)\n` +
-                  `• Liquidity may have been recently added or removed\n\n` +
-                  `💡 Try: Check DexScreener.com for the token's actual trading venue.`
-                );
-              }
-              throw new Error(
-                `⚠️ No trading route found. Token may have insufficient liquidity.\n` +
-                `Jupiter: ${jupErrorMsg}\nRaydium: ${rayErrorMsg}`
-              );
-            }
-          }
-        }
-
-        // Step 3: Get priority fee
-        const priorityFee = await getPriorityFee(body.priorityLevel || "medium");
+        // Step 2: Quote - Pump.fun bonding curve first, then Jupiter, then Raydium
+        const quote = await quoting;
+        const isPumpFun = quote.venue === "pumpfun";
 
-        // Step 4: Build swap transaction
-        let swapData: any;
-        
-        if (pumpCheck.isPumpFun) {
-          const amountInSol = parseInt(body.amount) / 1e9;
-          swapData = await getPumpFunSwap(
-            "buy",
-            body.outputMint,
-            amountInSol,
-            body.userPublicKey,
-            body.slippageBps || 100
-          );
-        } else if (source === "raydium") {
-          swapData = await getRaydiumSwap(
-            quoteData.raydiumData,
-            body.userPublicKey,
-            priorityFee
-          );
-          const transactions = swapData.data || [];
-          swapData = {
-            swapTransaction: transactions[0]?.transaction,
-          };
-        } else {
-          swapData = await getJupiterSwap({
-            quoteResponse: quoteData,
-            userPublicKey: body.userPublicKey,
-            priorityFee,
-          });
-        }
+        // Step 3: Build the swap (priority fee sized to the route's accounts) alongside the Jito tip
+        const [swap, jito] = await Promise.all([
+          adapter.buildSwap(quote, body.userPublicKey),
+          getJitoPlan(executionSettings, body.executionMode),
+        ]);
 
-        // Step 5: Create pending position
-        const inputAmountLamports = parseInt(body.amount);
-        const outputAmountLamports = parseInt(quoteData.outAmount || quoteData.outputAmount);
+        // Step 4: Create pending position
+        const inputAmountLamports = parseInt(quote.inputAmount);
+        const outputAmountLamports = parseInt(quote.outAmount);
         const inputAmountDecimal = inputAmountLamports / 1e9;
 
-        const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
-        const outputDecimals = pumpCheck.isPumpFun
+        const outputDecimals = isPumpFun
           ? 6
-          : await getMintDecimals(rpcUrl, body.outputMint);
+          : await adapter.tokenDecimals(body.outputMint);
         const outputAmountDecimal = outputAmountLamports / Math.pow(10, outputDecimals);
         const entryPrice = inputAmountDecimal / outputAmountDecimal;
 
-        // CRITICAL: Fetch token metadata from DexScreener if not provided
-        // This ensures proper token names are stored in the database for all tabs
-        let finalTokenSymbol = body.tokenSymbol;
-        let finalTokenName = body.tokenName;
-        
-        // Check if provided values are placeholders or missing
-        const isPlaceholderSymbol = !finalTokenSymbol || 
-          /^(unknown|token|\?\?\?|n\/a)$/i.test(finalTokenSymbol.trim()) ||
-          /^[a-z0-9]{4}[….\-_][a-z0-9]{4}$/i.test(finalTokenSymbol.trim());
-        const isPlaceholderName = !finalTokenName ||
-          /^(unknown|token|\?\?\?|n\/a)/i.test(finalTokenName.trim()) ||
-          /^token\s+[a-z0-9]{4}/i.test(finalTokenName.trim());
-        
-        if ((isPlaceholderSymbol || isPlaceholderName) && body.outputMint) {
-          try {
-            console.log(`[Trade] Fetching metadata for token ${body.outputMint.slice(0, 8)}...`);
-            
-            // Try DexScreener first (most comprehensive)
-            const dexRes = await fetch(
-              `https://api.dexscreener.com/latest/dex/tokens/${body.outputMint}`,
-              { signal: AbortSignal.timeout(4000) }
-            );
-            
-            if (dexRes.ok) {
-              const dexData = await dexRes.json();
-              const pairs = dexData?.pairs || [];
-              // Find highest liquidity Solana pair
-              const bestPair = pairs
-                .filter((p: any) => p?.chainId === 'solana')
-                .sort((a: any, b: any) => (b?.liquidity?.usd || 0) - (a?.liquidity?.usd || 0))[0];
-              
-              if (bestPair?.baseToken) {
-                const symbol = String(bestPair.baseToken.symbol || '').trim();
-                const name = String(bestPair.baseToken.name || '').trim();
-                if (symbol && isPlaceholderSymbol) {
-                  finalTokenSymbol = symbol;
-                  console.log(`[Trade] Enriched symbol: ${symbol}`);
-                }
-                if (name && isPlaceholderName) {
-                  finalTokenName = name;
-                  console.log(`[Trade] Enriched name: ${name}`);
-                }
-              }
-            }
-            
-            // Fallback: Try Jupiter token list
-            if (isPlaceholderSymbol || isPlaceholderName) {
-              const jupRes = await fetch(
-                `https://lite-api.jup.ag/tokens/v1/${body.outputMint}`,
-                { signal: AbortSignal.timeout(3000) }
-              );
-              if (jupRes.ok) {
-                const jupData = await jupRes.json();
-                const symbol = String(jupData?.symbol || '').trim();
-                const name = String(jupData?.name || '').trim();
-                if (symbol && isPlaceholderSymbol && !finalTokenSymbol) {
-                  finalTokenSymbol = symbol;
-                  console.log(`[Trade] Jupiter enriched symbol: ${symbol}`);
-                }
-                if (name && isPlaceholderName && !finalTokenName) {
-                  finalTokenName = name;
-                  console.log(`[Trade] Jupiter enriched name: ${name}`);
-                }
-              }
-            }
-          } catch (metaError) {
-            console.log(`[Trade] Metadata enrichment failed (non-blocking): ${metaError}`);
-          }
-        }
-        
-        // Final fallback to short address format
-        if (!finalTokenSymbol || isPlaceholderSymbol) {
-          finalTokenSymbol = body.outputMint ? `${body.outputMint.slice(0, 4)}…${body.outputMint.slice(-4)}` : "TOKEN";
-        }
-        if (!finalTokenName || isPlaceholderName) {
-          finalTokenName = finalTokenSymbol !== body.outputMint?.slice(0, 4) 
-            ? finalTokenSymbol  // Use symbol as name if we have a real symbol
-            : (body.outputMint ? `Token ${body.outputMint.slice(0, 4)}…${body.outputMint.slice(-4)}` : "New Token");
-        }
-
-        const { data: position, error: posError } = await supabase
-          .from("positions")
-          .insert({
-            user_id: user.id,
-            token_address: body.outputMint,
-            token_symbol: finalTokenSymbol,
-            token_name: finalTokenName,
-            chain: "solana",
-            entry_price: entryPrice,
-            current_price: entryPrice,
-            amount: outputAmountDecimal,
-            entry_value: inputAmountDecimal,
-            current_value: inputAmountDecimal,
-            profit_take_percent: body.profitTakePercent || 100,
-            stop_loss_percent: body.stopLossPercent || 20,
-            status: "pending",
-          })
-          .select()
-          .single();
-
-        if (posError) {
-          console.error("[Trade] Failed to create position:", posError);
-        }
+        const metadata = await resolveTokenMetadata(body.outputMint, "solana", body.tokenSymbol, body.tokenName);
+        const opened = await openPendingPosition(supabase, user.id, body, {
+          chain: "solana",
+          tokenAddress: body.outputMint,
+          ...metadata,
+          isBuy: body.inputMint === SOL_MINT,
+          inputAmountDecimal,
+          outputAmountDecimal,
+          entryPrice,
+        });
 
         return new Response(
           JSON.stringify({
             success: true,
+            chain: "solana",
             quote: {
               inputAmount: inputAmountLamports,
               outputAmount: outputAmountLamports,
               inputAmountDecimal,
               outputAmountDecimal,
-              priceImpactPct: quoteData.priceImpactPct || 0,
-              slippageBps: body.slippageBps || 100,
+              priceImpactPct: quote.priceImpactPct,
+              slippageBps: quote.slippageBps,
             },
-            swapTransaction: swapData.swapTransaction,
-            priorityFeeUsed: priorityFee,
-            positionId: position?.id,
-            source,
-            isPumpFun: pumpCheck.isPumpFun,
+            swapTransaction: swap.swapTransaction,
+            priorityFeeUsed: swap.priorityFee.lamports,
+            priorityFee: swap.priorityFee,
+            jito,
+            ...opened,
+            source: quote.venue,
+            isPumpFun,
             validation,
           }),
           { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSolanaRpc } from "../_shared/solana-rpc.ts";
+import type { RpcPool } from "../_shared/rpc-pool.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,9 +20,8 @@ interface WalletToken {
   valueUsd: number | null;
 }
 
-async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
-  const res = await fetch(rpcUrl, {
-    method: "POST",
+async function rpcRequest(rpc: RpcPool, method: string, params: unknown[]): Promise<any> {
+  const res = await rpc.request({
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
   });
@@ -121,10 +122,10 @@ Deno.serve(async (req) => {
       });
     }
 
-    const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
+    const rpc = await getSolanaRpc();
 
     // Fetch all SPL token accounts for the owner
-    const result = await rpcRequest(rpcUrl, "getTokenAccountsByOwner", [
+    const result = await rpcRequest(rpc, "getTokenAccountsByOwner", [
       owner,
       { programId: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA" },
       { encoding: "jsonParsed" },
@@ -0,0 +1,25 @@
+-- Trailing stops and tiered take-profit ladders for auto-exit
+
+-- User-level exit strategy settings
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS trailing_stop_enabled boolean DEFAULT false,
+ADD COLUMN IF NOT EXISTS trailing_stop_percent numeric DEFAULT 25,
+ADD COLUMN IF NOT EXISTS trailing_stop_activation_percent numeric DEFAULT 0,
+ADD COLUMN IF NOT EXISTS take_profit_ladder jsonb DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.user_sniper_settings.trailing_stop_enabled IS 'Close the remaining position when price falls trailing_stop_percent below its high-water mark';
+COMMENT ON COLUMN public.user_sniper_settings.trailing_stop_percent IS 'Drawdown percentage from the peak price that triggers the trailing stop (default 25%)';
+COMMENT ON COLUMN public.user_sniper_settings.trailing_stop_activation_percent IS 'Peak gain percentage required before the trailing stop arms (default 0% = armed immediately)';
+COMMENT ON COLUMN public.user_sniper_settings.take_profit_ladder IS 'Take-profit ladder: [{"profit_percent": 50, "sell_percent": 30}, ...] where sell_percent is of the original position size';
+
+-- Per-position exit state
+ALTER TABLE public.positions
+ADD COLUMN IF NOT EXISTS peak_price numeric,
+ADD COLUMN IF NOT EXISTS remaining_fraction numeric DEFAULT 1,
+ADD COLUMN IF NOT EXISTS executed_ladder_steps jsonb DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS exit_strategy jsonb;
+
+COMMENT ON COLUMN public.positions.peak_price IS 'Highest USD price seen while the position was open (trailing stop high-water mark)';
+COMMENT ON COLUMN public.positions.remaining_fraction IS 'Fraction of the original position size still held after partial ladder sells (1 = untouched)';
+COMMENT ON COLUMN public.positions.executed_ladder_steps IS 'Indices of take-profit ladder steps that have already been sold';
+COMMENT ON COLUMN public.positions.exit_strategy IS 'Exit strategy snapshot taken at entry. NULL = use the owner''s current user_sniper_settings';
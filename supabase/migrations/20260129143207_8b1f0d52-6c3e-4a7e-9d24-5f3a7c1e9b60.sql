@@ -0,0 +1,5 @@
+-- Per-user sniper rule chain (enable/disable and reorder shared rules engine checks)
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS rule_config jsonb DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.user_sniper_settings.rule_config IS 'Ordered rule chain: [{"id": "liquidity", "enabled": true}, ...]. Missing rules run enabled after the listed ones; sellability cannot be disabled';
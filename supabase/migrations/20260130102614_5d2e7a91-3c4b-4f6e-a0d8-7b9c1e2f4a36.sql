@@ -0,0 +1,59 @@
+-- Copy trading: followed leader wallets with per-leader sizing
+CREATE TABLE public.copy_leaders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    leader_address TEXT NOT NULL,
+    leader_name TEXT,
+    sizing_mode TEXT NOT NULL DEFAULT 'fixed_sol' CHECK (sizing_mode IN ('fixed_sol', 'leader_percent')),
+    fixed_amount_sol NUMERIC NOT NULL DEFAULT 0.1,
+    leader_percent NUMERIC NOT NULL DEFAULT 10,
+    max_per_trade_sol NUMERIC NOT NULL DEFAULT 0.5,
+    copy_sells BOOLEAN NOT NULL DEFAULT true,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_signature TEXT,
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, leader_address)
+);
+
+COMMENT ON COLUMN public.copy_leaders.sizing_mode IS 'fixed_sol = always spend fixed_amount_sol; leader_percent = leader_percent% of the leader''s SOL size';
+COMMENT ON COLUMN public.copy_leaders.max_per_trade_sol IS 'Per-leader SOL cap per mirrored buy (platform maxCopyAmount still applies)';
+COMMENT ON COLUMN public.copy_leaders.last_signature IS 'Newest leader signature already processed by copy-trader';
+
+ALTER TABLE public.copy_leaders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own copy leaders"
+ON public.copy_leaders FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_copy_leaders_updated_at
+BEFORE UPDATE ON public.copy_leaders
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Mirrored trades: pending -> executing -> executed | failed, or skipped when limits block them
+ALTER TABLE public.copy_trades
+ADD COLUMN IF NOT EXISTS leader_id UUID REFERENCES public.copy_leaders(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS leader_tx_signature TEXT,
+ADD COLUMN IF NOT EXISTS leader_amount_sol NUMERIC,
+ADD COLUMN IF NOT EXISTS sell_percent NUMERIC,
+ADD COLUMN IF NOT EXISTS error_message TEXT,
+ADD COLUMN IF NOT EXISTS execute_after TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS executed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+COMMENT ON COLUMN public.copy_trades.amount IS 'Buys: SOL to spend. Sells: token amount the leader sold';
+COMMENT ON COLUMN public.copy_trades.sell_percent IS 'Sells: percent of the leader''s holding sold - mirrored against our own holding';
+COMMENT ON COLUMN public.copy_trades.execute_after IS 'Earliest execution time (platform copyDelay)';
+
+-- One mirrored trade per leader transaction
+CREATE UNIQUE INDEX IF NOT EXISTS idx_copy_trades_user_leader_tx
+ON public.copy_trades(user_id, leader_tx_signature);
+
+CREATE TRIGGER update_copy_trades_updated_at
+BEFORE UPDATE ON public.copy_trades
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.copy_leaders;
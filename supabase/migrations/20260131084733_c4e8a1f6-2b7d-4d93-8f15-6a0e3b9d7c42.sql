@@ -0,0 +1,12 @@
+-- SOL-denominated guardrails enforced by trade-execution before any buy is built
+-- 0 disables a limit so existing users keep trading unchanged
+ALTER TABLE public.risk_settings
+  ADD COLUMN IF NOT EXISTS max_daily_loss_sol NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_open_exposure_sol NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_token_exposure_sol NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_trades_per_hour INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.risk_settings.max_daily_loss_sol IS 'Max net realized loss in SOL since 00:00 UTC before buys are blocked (0 = off)';
+COMMENT ON COLUMN public.risk_settings.max_open_exposure_sol IS 'Max SOL cost basis across all open positions (0 = off)';
+COMMENT ON COLUMN public.risk_settings.max_token_exposure_sol IS 'Max SOL cost basis in a single token (0 = off)';
+COMMENT ON COLUMN public.risk_settings.max_trades_per_hour IS 'Max filled buys in a rolling hour (0 = off)';
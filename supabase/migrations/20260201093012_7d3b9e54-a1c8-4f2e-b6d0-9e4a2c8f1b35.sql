@@ -0,0 +1,13 @@
+-- Partial sells: P&L booked by sales that left the position open, and per-sale history linked to the position
+ALTER TABLE public.positions
+ADD COLUMN IF NOT EXISTS realized_pnl_sol NUMERIC DEFAULT 0;
+
+ALTER TABLE public.trade_history
+ADD COLUMN IF NOT EXISTS position_id UUID REFERENCES public.positions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS realized_pnl_sol NUMERIC;
+
+CREATE INDEX IF NOT EXISTS idx_trade_history_position_id ON public.trade_history(position_id);
+
+COMMENT ON COLUMN public.positions.realized_pnl_sol IS 'Cumulative realized P&L in SOL from sells against this position (partial sells included)';
+COMMENT ON COLUMN public.trade_history.position_id IS 'Position this trade opened or (partially) closed';
+COMMENT ON COLUMN public.trade_history.realized_pnl_sol IS 'Realized P&L in SOL for the sold portion (sells only)';
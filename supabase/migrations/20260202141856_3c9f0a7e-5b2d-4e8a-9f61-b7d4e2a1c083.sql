@@ -0,0 +1,40 @@
+-- Multi-entry positions: each buy / sell against a position is a fill; buys can average into an open position
+CREATE TABLE public.position_fills (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    position_id UUID NOT NULL REFERENCES public.positions(id) ON DELETE CASCADE,
+    side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('pending', 'confirmed')),
+    amount NUMERIC NOT NULL,
+    sol_amount NUMERIC NOT NULL DEFAULT 0,
+    price NUMERIC,
+    price_usd NUMERIC,
+    tx_hash TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.position_fills.amount IS 'Tokens bought or sold';
+COMMENT ON COLUMN public.position_fills.sol_amount IS 'SOL spent (buy) or received (sell)';
+COMMENT ON COLUMN public.position_fills.price IS 'Fill price in the same unit as positions.entry_price';
+COMMENT ON COLUMN public.position_fills.status IS 'pending until the transaction is confirmed; pending fills are ignored by cost basis';
+
+CREATE INDEX IF NOT EXISTS idx_position_fills_position_id ON public.position_fills(position_id, created_at);
+
+ALTER TABLE public.position_fills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own position fills"
+ON public.position_fills FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_position_fills_updated_at
+BEFORE UPDATE ON public.position_fills
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Opt-in: buying a token we already hold adds to the open position instead of opening a second one
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS average_into_positions BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.user_sniper_settings.average_into_positions IS 'Add buys of an already-held token to the open position at weighted-average cost';
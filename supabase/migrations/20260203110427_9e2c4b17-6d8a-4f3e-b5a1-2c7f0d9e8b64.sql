@@ -0,0 +1,49 @@
+-- Limit orders: resting buys that fire when the token's USD price crosses a trigger
+-- open -> triggered (limit-orders worker) -> executing -> filled | failed; or cancelled / expired
+CREATE TABLE public.limit_orders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    token_symbol TEXT NOT NULL,
+    token_name TEXT,
+    chain TEXT NOT NULL DEFAULT 'solana',
+    order_type TEXT NOT NULL CHECK (order_type IN ('limit_below', 'breakout_above')),
+    trigger_price_usd NUMERIC NOT NULL CHECK (trigger_price_usd > 0),
+    amount_sol NUMERIC NOT NULL CHECK (amount_sol > 0),
+    slippage_bps INTEGER NOT NULL DEFAULT 1000,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'triggered', 'executing', 'filled', 'cancelled', 'expired', 'failed')),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_price_usd NUMERIC,
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    triggered_at TIMESTAMP WITH TIME ZONE,
+    triggered_price_usd NUMERIC,
+    position_id UUID REFERENCES public.positions(id) ON DELETE SET NULL,
+    tx_hash TEXT,
+    error_message TEXT,
+    filled_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.limit_orders.order_type IS 'limit_below = buy when price <= trigger; breakout_above = buy when price >= trigger';
+COMMENT ON COLUMN public.limit_orders.trigger_price_usd IS 'USD price from the same sources auto-exit uses (DexScreener, GeckoTerminal, Birdeye)';
+COMMENT ON COLUMN public.limit_orders.amount_sol IS 'SOL to spend when the order fills';
+COMMENT ON COLUMN public.limit_orders.expires_at IS 'Open / triggered orders past this time are expired by the worker (NULL = good till cancelled)';
+COMMENT ON COLUMN public.limit_orders.triggered_at IS 'When the price condition was met; stale triggers are re-armed if the price moved away';
+
+CREATE INDEX IF NOT EXISTS idx_limit_orders_user_status ON public.limit_orders(user_id, status);
+
+ALTER TABLE public.limit_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own limit orders"
+ON public.limit_orders FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_limit_orders_updated_at
+BEFORE UPDATE ON public.limit_orders
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.limit_orders;
@@ -0,0 +1,6 @@
+-- Token discovery sources: per-user opt-out of token-scanner sources
+-- Ids are built-in source ids ('geckoterminal', 'birdeye', 'dexscreener') or 'custom_indexer:<api_configurations.id>'
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS disabled_token_sources TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.user_sniper_settings.disabled_token_sources IS 'token-scanner sources this user skips (every platform-enabled source runs by default)';
@@ -0,0 +1,50 @@
+-- Server-persisted notifications: edge functions write rows, the bell reads them over realtime
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check CHECK (type IN ('info', 'success', 'warning', 'error', 'trade'));
+
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS event_type TEXT NOT NULL DEFAULT 'general',
+ADD COLUMN IF NOT EXISTS source TEXT,
+ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.notifications.event_type IS 'trade_signal, trade_filled, position_exit, exit_pending, exit_blocked, risk_alert or general; channels subscribe per event type';
+COMMENT ON COLUMN public.notifications.source IS 'Edge function (auto-exit, auto-sniper, risk-check, trade-execution) or app for browser-originated notifications';
+COMMENT ON COLUMN public.notifications.metadata IS 'Event details (token, position, tx hash); dedupe_key suppresses repeats of the same alert';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+
+-- Outbound delivery channels: every new notification is fanned out to the user's enabled channels
+CREATE TABLE public.notification_channels (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    channel_type TEXT NOT NULL CHECK (channel_type IN ('webhook', 'telegram', 'email')),
+    name TEXT NOT NULL,
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    config JSONB NOT NULL DEFAULT '{}'::jsonb,
+    event_types TEXT[] NOT NULL DEFAULT '{}',
+    last_delivered_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.notification_channels.config IS 'webhook: url, secret; telegram: bot_token, chat_id, api_base_url; email: to';
+COMMENT ON COLUMN public.notification_channels.event_types IS 'Notification event types delivered to this channel (empty = all)';
+COMMENT ON COLUMN public.notification_channels.last_error IS 'Error from the most recent failed delivery, cleared on success';
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_user ON public.notification_channels(user_id);
+
+ALTER TABLE public.notification_channels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification channels"
+ON public.notification_channels FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_channels_updated_at
+BEFORE UPDATE ON public.notification_channels
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notification_channels;
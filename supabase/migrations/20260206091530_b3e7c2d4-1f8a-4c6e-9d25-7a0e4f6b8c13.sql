@@ -0,0 +1,16 @@
+-- Jito bundle execution: swaps are submitted together with a tip transfer as a bundle
+-- and fall back to a normal send when the bundle hasn't landed within jito_fallback_slots
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS jito_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS jito_tip_lamports BIGINT NOT NULL DEFAULT 100000,
+ADD COLUMN IF NOT EXISTS jito_tip_strategy TEXT NOT NULL DEFAULT 'fixed'
+  CHECK (jito_tip_strategy IN ('fixed', 'p50', 'p75', 'p95')),
+ADD COLUMN IF NOT EXISTS jito_max_tip_lamports BIGINT NOT NULL DEFAULT 2000000,
+ADD COLUMN IF NOT EXISTS jito_fallback_slots INTEGER NOT NULL DEFAULT 20
+  CHECK (jito_fallback_slots BETWEEN 1 AND 150);
+
+COMMENT ON COLUMN public.user_sniper_settings.jito_enabled IS 'Submit trade-execution swaps as Jito bundles with a tip transfer';
+COMMENT ON COLUMN public.user_sniper_settings.jito_tip_lamports IS 'Fixed tip, and the minimum tip for percentile strategies';
+COMMENT ON COLUMN public.user_sniper_settings.jito_tip_strategy IS 'fixed, or follow the p50 / p75 / p95 landed tip from the Jito tip floor';
+COMMENT ON COLUMN public.user_sniper_settings.jito_max_tip_lamports IS 'Upper bound for percentile-based tips';
+COMMENT ON COLUMN public.user_sniper_settings.jito_fallback_slots IS 'Slots to wait for the bundle to land before sending the swap normally';
@@ -0,0 +1,14 @@
+-- Dynamic priority fees: estimated from getRecentPrioritizationFees per trade, capped per user,
+-- and recorded on trade_history so overpayment is visible
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS max_priority_fee_sol NUMERIC NOT NULL DEFAULT 0.005
+  CHECK (max_priority_fee_sol > 0);
+
+COMMENT ON COLUMN public.user_sniper_settings.max_priority_fee_sol IS 'Upper bound for the priority fee paid on a single trade, in SOL';
+
+ALTER TABLE public.trade_history
+ADD COLUMN IF NOT EXISTS priority_fee_lamports BIGINT,
+ADD COLUMN IF NOT EXISTS priority_fee_level TEXT;
+
+COMMENT ON COLUMN public.trade_history.priority_fee_lamports IS 'Priority fee attached to the swap transaction, in lamports';
+COMMENT ON COLUMN public.trade_history.priority_fee_level IS 'low / medium / high / veryHigh level the fee was estimated for';
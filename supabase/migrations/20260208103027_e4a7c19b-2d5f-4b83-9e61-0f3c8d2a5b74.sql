@@ -0,0 +1,27 @@
+-- On-chain holder analysis in risk-check: concentration, funding clusters and deployer holdings,
+-- each adding a configurable number of points to the risk score
+ALTER TABLE public.risk_settings
+ADD COLUMN IF NOT EXISTS holder_analysis_enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS max_top10_holder_percent NUMERIC NOT NULL DEFAULT 50
+  CHECK (max_top10_holder_percent > 0 AND max_top10_holder_percent <= 100),
+ADD COLUMN IF NOT EXISTS max_dev_holding_percent NUMERIC NOT NULL DEFAULT 10
+  CHECK (max_dev_holding_percent >= 0 AND max_dev_holding_percent <= 100),
+ADD COLUMN IF NOT EXISTS min_cluster_wallets INTEGER NOT NULL DEFAULT 3
+  CHECK (min_cluster_wallets >= 2),
+ADD COLUMN IF NOT EXISTS holder_concentration_weight INTEGER NOT NULL DEFAULT 25
+  CHECK (holder_concentration_weight BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS holder_cluster_weight INTEGER NOT NULL DEFAULT 20
+  CHECK (holder_cluster_weight BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS dev_holding_weight INTEGER NOT NULL DEFAULT 25
+  CHECK (dev_holding_weight BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN public.risk_settings.max_top10_holder_percent IS 'Top-10 holder share of supply (pools and burns excluded) above which holder_concentration_weight is added';
+COMMENT ON COLUMN public.risk_settings.max_dev_holding_percent IS 'Deployer share of supply above which dev_holding_weight is added';
+COMMENT ON COLUMN public.risk_settings.min_cluster_wallets IS 'Top holders funded by the same wallet needed to add holder_cluster_weight';
+
+ALTER TABLE public.risk_check_logs
+ADD COLUMN IF NOT EXISTS top10_holder_percent NUMERIC,
+ADD COLUMN IF NOT EXISTS dev_holding_percent NUMERIC,
+ADD COLUMN IF NOT EXISTS holder_analysis JSONB;
+
+COMMENT ON COLUMN public.risk_check_logs.holder_analysis IS 'On-chain holder analysis (top holders, excluded pools, funding clusters, deployer) at check time';
@@ -0,0 +1,30 @@
+-- Sell-simulation honeypot check: per-mint cache of simulated buy -> sell round trips
+-- Written by risk-check and auto-sniper (service role); results are per mint, not per user
+CREATE TABLE public.token_sell_simulations (
+    token_address TEXT PRIMARY KEY,
+    status TEXT NOT NULL CHECK (status IN ('sellable', 'unsellable', 'unverified')),
+    buy_tax_percent NUMERIC,
+    sell_tax_percent NUMERIC,
+    round_trip_loss_percent NUMERIC,
+    result JSONB NOT NULL DEFAULT '{}'::jsonb,
+    simulated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.token_sell_simulations.status IS 'unsellable when the simulated sell leg reverts (honeypot)';
+COMMENT ON COLUMN public.token_sell_simulations.buy_tax_percent IS 'Tokens credited by the simulated buy short of the Jupiter quote';
+COMMENT ON COLUMN public.token_sell_simulations.sell_tax_percent IS 'SOL credited by the simulated sell short of the Jupiter quote';
+COMMENT ON COLUMN public.token_sell_simulations.result IS 'Full simulation: probe wallet, quoted vs simulated amounts and errors per leg';
+
+CREATE INDEX IF NOT EXISTS idx_token_sell_simulations_simulated_at ON public.token_sell_simulations(simulated_at DESC);
+
+ALTER TABLE public.token_sell_simulations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view sell simulations"
+ON public.token_sell_simulations FOR SELECT
+TO authenticated
+USING (true);
+
+ALTER TABLE public.risk_check_logs
+ADD COLUMN IF NOT EXISTS sell_simulation JSONB;
+
+COMMENT ON COLUMN public.risk_check_logs.sell_simulation IS 'Sell simulation used for the honeypot and tax checks (null when it could not run)';
@@ -0,0 +1,86 @@
+-- OHLCV candles per token: price samples (browser price updater, auto-exit) merged into 1m/5m/15m/1h buckets,
+-- replaced by GeckoTerminal OHLCV when that API is configured
+CREATE TABLE public.token_candles (
+    token_address TEXT NOT NULL,
+    resolution TEXT NOT NULL CHECK (resolution IN ('1m', '5m', '15m', '1h')),
+    bucket_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    open NUMERIC NOT NULL,
+    high NUMERIC NOT NULL,
+    low NUMERIC NOT NULL,
+    close NUMERIC NOT NULL,
+    volume_usd NUMERIC NOT NULL DEFAULT 0,
+    sample_count INTEGER NOT NULL DEFAULT 0,
+    source TEXT NOT NULL DEFAULT 'sampled' CHECK (source IN ('sampled', 'geckoterminal')),
+    first_sample_at TIMESTAMP WITH TIME ZONE,
+    last_sample_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (token_address, resolution, bucket_start)
+);
+
+COMMENT ON COLUMN public.token_candles.bucket_start IS 'Start of the bucket: sample time floored to the resolution (UTC epoch aligned)';
+COMMENT ON COLUMN public.token_candles.volume_usd IS 'GeckoTerminal volume; 0 for sampled candles (price samples carry no per-bucket volume)';
+COMMENT ON COLUMN public.token_candles.sample_count IS 'Price samples merged into a sampled candle';
+COMMENT ON COLUMN public.token_candles.source IS 'sampled (record_price_samples) or geckoterminal; samples never overwrite GeckoTerminal candles';
+
+ALTER TABLE public.token_candles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view token candles"
+ON public.token_candles FOR SELECT
+TO authenticated
+USING (true);
+
+-- Merge price samples into every resolution: open/close follow sample time, high/low widen
+CREATE OR REPLACE FUNCTION public.record_price_samples(samples JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sample JSONB;
+  step RECORD;
+  sample_price NUMERIC;
+  sampled TIMESTAMP WITH TIME ZONE;
+  recorded INTEGER := 0;
+BEGIN
+  IF jsonb_typeof(samples) <> 'array' OR jsonb_array_length(samples) > 100 THEN
+    RAISE EXCEPTION 'samples must be an array of at most 100 items';
+  END IF;
+
+  FOR sample IN SELECT value FROM jsonb_array_elements(samples) LOOP
+    sample_price := NULLIF(sample->>'price_usd', '')::NUMERIC;
+    sampled := LEAST(COALESCE(NULLIF(sample->>'sampled_at', '')::TIMESTAMP WITH TIME ZONE, now()), now());
+    CONTINUE WHEN sample_price IS NULL OR sample_price <= 0
+      OR length(COALESCE(sample->>'token_address', '')) NOT BETWEEN 32 AND 64
+      OR sampled < now() - INTERVAL '1 hour';
+
+    FOR step IN SELECT * FROM (VALUES ('1m', 60), ('5m', 300), ('15m', 900), ('1h', 3600)) AS r(resolution, seconds) LOOP
+      INSERT INTO public.token_candles AS c
+        (token_address, resolution, bucket_start, open, high, low, close, sample_count, first_sample_at, last_sample_at)
+      VALUES (
+        sample->>'token_address',
+        step.resolution,
+        to_timestamp(floor(extract(epoch FROM sampled) / step.seconds) * step.seconds),
+        sample_price, sample_price, sample_price, sample_price, 1, sampled, sampled
+      )
+      ON CONFLICT (token_address, resolution, bucket_start) DO UPDATE SET
+        open = CASE WHEN EXCLUDED.first_sample_at < c.first_sample_at THEN EXCLUDED.open ELSE c.open END,
+        high = GREATEST(c.high, EXCLUDED.high),
+        low = LEAST(c.low, EXCLUDED.low),
+        close = CASE WHEN EXCLUDED.last_sample_at >= c.last_sample_at THEN EXCLUDED.close ELSE c.close END,
+        sample_count = c.sample_count + 1,
+        first_sample_at = LEAST(c.first_sample_at, EXCLUDED.first_sample_at),
+        last_sample_at = GREATEST(c.last_sample_at, EXCLUDED.last_sample_at),
+        updated_at = now()
+      WHERE c.source = 'sampled';
+    END LOOP;
+
+    recorded := recorded + 1;
+  END LOOP;
+
+  RETURN recorded;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_price_samples(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_price_samples(JSONB) TO authenticated, service_role;
@@ -0,0 +1,67 @@
+-- Append-only audit trail of every bot decision and trade action
+-- Replaces the browser's localStorage bot log. Edge Functions write snipe decisions, risk checks and
+-- exit triggers; the browser writes its activity log and manual overrides (source = 'client' only).
+CREATE TABLE public.bot_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('snipe_decision', 'risk_check', 'exit_trigger', 'manual_override', 'trade', 'activity')),
+    level TEXT NOT NULL DEFAULT 'info' CHECK (level IN ('info', 'success', 'warning', 'error', 'skip')),
+    category TEXT NOT NULL DEFAULT 'system' CHECK (category IN ('scan', 'evaluate', 'trade', 'exit', 'system')),
+    message TEXT NOT NULL,
+    details TEXT,
+    token_address TEXT,
+    token_symbol TEXT,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    source TEXT NOT NULL,
+    dedupe_key TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT bot_audit_log_user_dedupe_key UNIQUE (user_id, dedupe_key)
+);
+
+COMMENT ON COLUMN public.bot_audit_log.payload IS 'Structured event data, e.g. every rule reason and trade params of a snipe decision';
+COMMENT ON COLUMN public.bot_audit_log.source IS 'Writer: client, auto-sniper, risk-check or auto-exit';
+COMMENT ON COLUMN public.bot_audit_log.dedupe_key IS 'Set for events re-evaluated every tick (exit triggers) so each state is written once';
+COMMENT ON COLUMN public.bot_audit_log.occurred_at IS 'When the event happened; browser events are batched, so created_at can be a few seconds later';
+
+CREATE INDEX IF NOT EXISTS idx_bot_audit_log_user_created ON public.bot_audit_log(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bot_audit_log_user_type_created ON public.bot_audit_log(user_id, event_type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bot_audit_log_user_token ON public.bot_audit_log(user_id, token_address);
+
+ALTER TABLE public.bot_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own audit log"
+ON public.bot_audit_log FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can append client events to their own audit log"
+ON public.bot_audit_log FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND source = 'client' AND dedupe_key IS NULL);
+
+-- No UPDATE / DELETE policies; the trigger also stops the service role and table owner.
+-- The only deletes let through are the cascade from auth.users, which runs after the user row is gone.
+CREATE OR REPLACE FUNCTION public.prevent_bot_audit_log_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'bot_audit_log is append-only (% not allowed)', TG_OP;
+END;
+$$;
+
+CREATE TRIGGER bot_audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.bot_audit_log
+FOR EACH ROW EXECUTE FUNCTION public.prevent_bot_audit_log_mutation();
+
+CREATE TRIGGER bot_audit_log_no_truncate
+BEFORE TRUNCATE ON public.bot_audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_bot_audit_log_mutation();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bot_audit_log;
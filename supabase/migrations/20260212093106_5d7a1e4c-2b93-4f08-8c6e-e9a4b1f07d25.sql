@@ -0,0 +1,67 @@
+-- Trading wallets: several Solana wallets per user, each trading its own strategy
+-- settings_overrides is layered over user_sniper_settings, so a wallet only stores what differs.
+CREATE TABLE public.user_wallets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    address TEXT NOT NULL,
+    label TEXT,
+    chain TEXT NOT NULL DEFAULT 'solana' CHECK (chain = 'solana'),
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    settings_overrides JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT user_wallets_user_address UNIQUE (user_id, address)
+);
+
+COMMENT ON COLUMN public.user_wallets.is_enabled IS 'Disabled wallets keep their history but the auto-sniper opens no new signals for them';
+COMMENT ON COLUMN public.user_wallets.settings_overrides IS 'user_sniper_settings fields this wallet trades differently (trade_amount, max_concurrent_trades, TP/SL, ...)';
+
+CREATE INDEX IF NOT EXISTS idx_user_wallets_user ON public.user_wallets(user_id);
+
+ALTER TABLE public.user_wallets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own trading wallets"
+ON public.user_wallets FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_wallets_updated_at
+BEFORE UPDATE ON public.user_wallets
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_wallets;
+
+-- The wallet that executed each position, trade, fill and signal (null = recorded before wallets were tracked)
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS wallet_address TEXT;
+ALTER TABLE public.trade_history ADD COLUMN IF NOT EXISTS wallet_address TEXT;
+ALTER TABLE public.position_fills ADD COLUMN IF NOT EXISTS wallet_address TEXT;
+ALTER TABLE public.trade_signals ADD COLUMN IF NOT EXISTS wallet_address TEXT;
+
+COMMENT ON COLUMN public.positions.wallet_address IS 'Solana wallet holding the position; exits must be signed by it';
+COMMENT ON COLUMN public.trade_signals.wallet_address IS 'Wallet the auto-sniper evaluated this signal for';
+
+CREATE INDEX IF NOT EXISTS idx_positions_user_wallet_status ON public.positions(user_id, wallet_address, status);
+CREATE INDEX IF NOT EXISTS idx_trade_history_user_wallet ON public.trade_history(user_id, wallet_address);
+
+-- Trades and fills written without a wallet inherit the one on their position
+CREATE OR REPLACE FUNCTION public.inherit_position_wallet_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.wallet_address IS NULL AND NEW.position_id IS NOT NULL THEN
+    SELECT wallet_address INTO NEW.wallet_address FROM public.positions WHERE id = NEW.position_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trade_history_inherit_wallet_address
+BEFORE INSERT ON public.trade_history
+FOR EACH ROW EXECUTE FUNCTION public.inherit_position_wallet_address();
+
+CREATE TRIGGER position_fills_inherit_wallet_address
+BEFORE INSERT ON public.position_fills
+FOR EACH ROW EXECUTE FUNCTION public.inherit_position_wallet_address();
@@ -0,0 +1,62 @@
+-- Bot state lives server-side so the headless runner keeps scanning, entering and exiting with the browser closed.
+-- The Scanner reads and writes this row instead of localStorage; bot-runner only touches the run columns.
+CREATE TABLE public.bot_runner_state (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    is_bot_active BOOLEAN NOT NULL DEFAULT false,
+    auto_entry_enabled BOOLEAN NOT NULL DEFAULT true,
+    auto_exit_enabled BOOLEAN NOT NULL DEFAULT true,
+    scan_speed TEXT NOT NULL DEFAULT 'normal' CHECK (scan_speed IN ('slow', 'normal', 'fast')),
+    is_paused BOOLEAN NOT NULL DEFAULT false,
+    last_start_time TIMESTAMP WITH TIME ZONE,
+    total_trades INTEGER NOT NULL DEFAULT 0,
+    successful_trades INTEGER NOT NULL DEFAULT 0,
+    failed_trades INTEGER NOT NULL DEFAULT 0,
+    wallet_address TEXT,
+    seen_tokens TEXT[] NOT NULL DEFAULT '{}',
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    last_summary JSONB,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.bot_runner_state.wallet_address IS 'Trading wallet the runner evaluates signals and exits for (the last one connected in the Scanner)';
+COMMENT ON COLUMN public.bot_runner_state.seen_tokens IS 'Most recent token addresses already evaluated, so each cycle only evaluates new listings';
+COMMENT ON COLUMN public.bot_runner_state.next_run_at IS 'Earliest time of the next cycle, from scan_speed; claiming a cycle moves it forward';
+
+CREATE INDEX IF NOT EXISTS idx_bot_runner_state_due ON public.bot_runner_state(next_run_at) WHERE is_bot_active;
+
+ALTER TABLE public.bot_runner_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own bot state"
+ON public.bot_runner_state FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_bot_runner_state_updated_at
+BEFORE UPDATE ON public.bot_runner_state
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bot_runner_state;
+
+-- Fire bot-runner every 15 seconds; it only runs bots whose next_run_at has passed.
+-- Reads the project URL and service role key from Vault (secrets 'project_url' and 'service_role_key').
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'bot-runner',
+  '15 seconds',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/bot-runner',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,88 @@
+-- Fills reconciled from confirmed transactions: what each swap really moved, fees included
+-- confirm-transaction writes one row per signature from the transaction's pre/post balances;
+-- positions, fills and trade_history are corrected from it instead of keeping the Jupiter quote.
+CREATE TABLE public.transaction_fills (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    signature TEXT NOT NULL,
+    side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    wallet_address TEXT NOT NULL,
+    token_address TEXT NOT NULL,
+    position_id UUID REFERENCES public.positions(id) ON DELETE SET NULL,
+    token_amount NUMERIC NOT NULL,
+    sol_amount NUMERIC NOT NULL,
+    price_sol NUMERIC NOT NULL,
+    quoted_price_sol NUMERIC,
+    slippage_pct NUMERIC,
+    network_fee_lamports BIGINT NOT NULL DEFAULT 0,
+    priority_fee_lamports BIGINT NOT NULL DEFAULT 0,
+    rent_lamports BIGINT NOT NULL DEFAULT 0,
+    slot BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT transaction_fills_user_signature UNIQUE (user_id, signature)
+);
+
+COMMENT ON COLUMN public.transaction_fills.sol_amount IS 'SOL spent including network and priority fees (buy) or received net of fees (sell); token account rent excluded';
+COMMENT ON COLUMN public.transaction_fills.slippage_pct IS 'Fill vs quote in percent, positive = worse than quoted';
+COMMENT ON COLUMN public.transaction_fills.rent_lamports IS 'Token account rent paid (+) or refunded (-) by the swap';
+
+CREATE INDEX IF NOT EXISTS idx_transaction_fills_user_created ON public.transaction_fills(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transaction_fills_position ON public.transaction_fills(position_id);
+
+ALTER TABLE public.transaction_fills ENABLE ROW LEVEL SECURITY;
+
+-- Written by confirm-transaction with the service role only
+CREATE POLICY "Users can view their own transaction fills"
+ON public.transaction_fills FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS entry_slippage_pct NUMERIC;
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS exit_slippage_pct NUMERIC;
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS fees_sol NUMERIC;
+
+COMMENT ON COLUMN public.positions.entry_slippage_pct IS 'Opening buy fill vs quote in percent, positive = paid more than quoted';
+COMMENT ON COLUMN public.positions.exit_slippage_pct IS 'Last confirmed sell fill vs quote in percent, positive = received less than quoted';
+COMMENT ON COLUMN public.positions.fees_sol IS 'Network + priority fees paid by the position''s confirmed swaps';
+
+ALTER TABLE public.trade_history ADD COLUMN IF NOT EXISTS quoted_price_sol NUMERIC;
+ALTER TABLE public.trade_history ADD COLUMN IF NOT EXISTS fill_slippage_pct NUMERIC;
+ALTER TABLE public.trade_history ADD COLUMN IF NOT EXISTS network_fee_lamports BIGINT;
+
+COMMENT ON COLUMN public.trade_history.quoted_price_sol IS 'price_sol as quoted before the fill was reconciled';
+
+-- History rows are mostly written by the browser after confirm-transaction returns:
+-- swap the quoted amount and price for the reconciled fill of the same signature
+CREATE OR REPLACE FUNCTION public.apply_transaction_fill()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  fill public.transaction_fills%ROWTYPE;
+BEGIN
+  IF NEW.tx_hash IS NULL OR NEW.quoted_price_sol IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO fill FROM public.transaction_fills
+  WHERE user_id = NEW.user_id AND signature = NEW.tx_hash AND side = NEW.trade_type;
+
+  IF FOUND THEN
+    NEW.quoted_price_sol := NEW.price_sol;
+    NEW.amount := fill.token_amount;
+    NEW.price_sol := fill.price_sol;
+    NEW.network_fee_lamports := fill.network_fee_lamports;
+    NEW.priority_fee_lamports := fill.priority_fee_lamports;
+    NEW.fill_slippage_pct := CASE
+      WHEN NEW.quoted_price_sol > 0 AND fill.side = 'buy' THEN (fill.price_sol / NEW.quoted_price_sol - 1) * 100
+      WHEN NEW.quoted_price_sol > 0 THEN (1 - fill.price_sol / NEW.quoted_price_sol) * 100
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trade_history_apply_transaction_fill
+BEFORE INSERT ON public.trade_history
+FOR EACH ROW EXECUTE FUNCTION public.apply_transaction_fill();
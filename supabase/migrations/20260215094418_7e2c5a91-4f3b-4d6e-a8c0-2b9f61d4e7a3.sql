@@ -0,0 +1,164 @@
+-- Strategy profiles: named, versioned snapshots of user_sniper_settings + risk_settings fields
+-- Activating one copies its fields onto those rows, so the functions that read them are unchanged;
+-- a weekly schedule can switch the active profile automatically (applied by bot-runner each cycle).
+CREATE TABLE public.strategy_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+    description TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    sniper_settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    risk_settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    schedule JSONB NOT NULL DEFAULT '[]'::jsonb,
+    schedule_timezone TEXT NOT NULL DEFAULT 'UTC',
+    is_schedule_default BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT strategy_profiles_user_name UNIQUE (user_id, name)
+);
+
+COMMENT ON COLUMN public.strategy_profiles.version IS 'Bumped whenever sniper_settings or risk_settings change; each version is kept in strategy_profile_versions';
+COMMENT ON COLUMN public.strategy_profiles.schedule IS 'Weekly windows [{days: [0-6, Sunday = 0], start: "HH:MM", end: "HH:MM"}] in schedule_timezone; end <= start runs past midnight';
+COMMENT ON COLUMN public.strategy_profiles.is_schedule_default IS 'Profile the schedule falls back to outside every window';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_strategy_profiles_schedule_default
+ON public.strategy_profiles(user_id) WHERE is_schedule_default;
+
+ALTER TABLE public.strategy_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own strategy profiles"
+ON public.strategy_profiles FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_strategy_profiles_updated_at
+BEFORE UPDATE ON public.strategy_profiles
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.strategy_profiles;
+
+-- Every version's settings, so a trade's profile version can be looked up after later edits
+CREATE TABLE public.strategy_profile_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id UUID NOT NULL REFERENCES public.strategy_profiles(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    sniper_settings JSONB NOT NULL,
+    risk_settings JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT strategy_profile_versions_profile_version UNIQUE (profile_id, version)
+);
+
+ALTER TABLE public.strategy_profile_versions ENABLE ROW LEVEL SECURITY;
+
+-- Written by the versioning trigger only
+CREATE POLICY "Users can view their own strategy profile versions"
+ON public.strategy_profile_versions FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.bump_strategy_profile_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.version := 1;
+  ELSIF NEW.sniper_settings IS DISTINCT FROM OLD.sniper_settings
+     OR NEW.risk_settings IS DISTINCT FROM OLD.risk_settings THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER strategy_profiles_bump_version
+BEFORE INSERT OR UPDATE ON public.strategy_profiles
+FOR EACH ROW EXECUTE FUNCTION public.bump_strategy_profile_version();
+
+CREATE OR REPLACE FUNCTION public.snapshot_strategy_profile_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.strategy_profile_versions (profile_id, user_id, version, name, sniper_settings, risk_settings)
+  VALUES (NEW.id, NEW.user_id, NEW.version, NEW.name, NEW.sniper_settings, NEW.risk_settings)
+  ON CONFLICT (profile_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER strategy_profiles_snapshot_version
+AFTER INSERT OR UPDATE ON public.strategy_profiles
+FOR EACH ROW EXECUTE FUNCTION public.snapshot_strategy_profile_version();
+
+-- When each profile became active, and whether the user or the schedule switched to it
+CREATE TABLE public.strategy_profile_activations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    profile_id UUID REFERENCES public.strategy_profiles(id) ON DELETE SET NULL,
+    profile_name TEXT NOT NULL,
+    profile_version INTEGER NOT NULL,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'schedule')),
+    activated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_profile_activations_user ON public.strategy_profile_activations(user_id, activated_at DESC);
+
+ALTER TABLE public.strategy_profile_activations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own profile activations"
+ON public.strategy_profile_activations FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own profile activations"
+ON public.strategy_profile_activations FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS active_profile_id UUID REFERENCES public.strategy_profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS active_profile_version INTEGER,
+ADD COLUMN IF NOT EXISTS profile_schedule_enabled BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.user_sniper_settings.active_profile_id IS 'Strategy profile these settings were last loaded from (null = edited by hand)';
+COMMENT ON COLUMN public.user_sniper_settings.profile_schedule_enabled IS 'Let the profile schedules switch the active profile automatically';
+
+-- The profile active when each position was opened
+ALTER TABLE public.positions
+ADD COLUMN IF NOT EXISTS strategy_profile_id UUID REFERENCES public.strategy_profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS strategy_profile_version INTEGER,
+ADD COLUMN IF NOT EXISTS strategy_profile_name TEXT;
+
+COMMENT ON COLUMN public.positions.strategy_profile_name IS 'Profile name at open time, kept if the profile is renamed or deleted';
+
+CREATE INDEX IF NOT EXISTS idx_positions_strategy_profile ON public.positions(strategy_profile_id);
+
+CREATE OR REPLACE FUNCTION public.stamp_position_strategy_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.strategy_profile_id IS NULL THEN
+    SELECT s.active_profile_id, s.active_profile_version, p.name
+    INTO NEW.strategy_profile_id, NEW.strategy_profile_version, NEW.strategy_profile_name
+    FROM public.user_sniper_settings s
+    JOIN public.strategy_profiles p ON p.id = s.active_profile_id
+    WHERE s.user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER positions_stamp_strategy_profile
+BEFORE INSERT ON public.positions
+FOR EACH ROW EXECUTE FUNCTION public.stamp_position_strategy_profile();
@@ -0,0 +1,36 @@
+-- trade_history writers do not agree on what price_sol holds before reconciliation (some wrote USD),
+-- so the fill trigger stops treating it as the quote. The quote comes from transaction_fills, which
+-- confirm-transaction only fills in with a SOL price per token; a writer may still pass quoted_price_sol.
+CREATE OR REPLACE FUNCTION public.apply_transaction_fill()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  fill public.transaction_fills%ROWTYPE;
+BEGIN
+  IF NEW.tx_hash IS NULL OR NEW.network_fee_lamports IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO fill FROM public.transaction_fills
+  WHERE user_id = NEW.user_id AND signature = NEW.tx_hash AND side = NEW.trade_type;
+
+  IF FOUND THEN
+    NEW.quoted_price_sol := COALESCE(fill.quoted_price_sol, NEW.quoted_price_sol);
+    NEW.amount := fill.token_amount;
+    NEW.price_sol := fill.price_sol;
+    NEW.network_fee_lamports := fill.network_fee_lamports;
+    NEW.priority_fee_lamports := fill.priority_fee_lamports;
+    NEW.fill_slippage_pct := CASE
+      WHEN fill.quoted_price_sol IS NOT NULL THEN fill.slippage_pct
+      WHEN NEW.quoted_price_sol > 0 AND fill.side = 'buy' THEN (fill.price_sol / NEW.quoted_price_sol - 1) * 100
+      WHEN NEW.quoted_price_sol > 0 THEN (1 - fill.price_sol / NEW.quoted_price_sol) * 100
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON COLUMN public.trade_history.quoted_price_sol IS 'SOL per token the trade was quoted at, from transaction_fills when reconciled';
+COMMENT ON COLUMN public.transaction_fills.quoted_price_sol IS 'SOL per token quote the fill is compared against; null when no SOL quote was known';
@@ -0,0 +1,24 @@
+-- Specific identification for the tax-lot ledger: the buy lots a sale relieves, chosen by the user
+-- per sale. Shares of a sale left unidentified are relieved FIFO.
+CREATE TABLE public.tax_lot_selections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    sell_trade_id UUID NOT NULL REFERENCES public.trade_history(id) ON DELETE CASCADE,
+    lot_trade_id UUID NOT NULL REFERENCES public.trade_history(id) ON DELETE CASCADE,
+    amount NUMERIC NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT tax_lot_selections_sell_lot UNIQUE (sell_trade_id, lot_trade_id)
+);
+
+COMMENT ON COLUMN public.tax_lot_selections.lot_trade_id IS 'Buy in trade_history that opened the lot';
+COMMENT ON COLUMN public.tax_lot_selections.amount IS 'Tokens of the sale relieved from this lot';
+
+CREATE INDEX IF NOT EXISTS idx_tax_lot_selections_user ON public.tax_lot_selections(user_id);
+
+ALTER TABLE public.tax_lot_selections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tax lot selections"
+ON public.tax_lot_selections FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);